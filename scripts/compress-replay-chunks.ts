@@ -0,0 +1,67 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Compress stored replay chunks
+ *
+ * Chunks uploaded before compressed storage keep their events as plain JSON
+ * in ReplayChunk.events. This moves them to gzip in ReplayChunk.payload and
+ * clears the text column. Readers handle both forms, so it can run at any
+ * time, in batches, and is safe to re-run.
+ *
+ * Usage:
+ *   npx ts-node scripts/compress-replay-chunks.ts [--dry-run]
+ *
+ * Environment variables:
+ *   DATABASE_URL - Dashboard database
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { compressChunkEvents, readChunkEvents } from '../src/lib/replay-encoding';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+async function compressReplayChunks() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    let chunkCount = 0;
+    let rawBytes = 0;
+    let compressedBytes = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const chunks = await prisma.replayChunk.findMany({
+        where: { payload: null, events: { not: null } },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        select: { id: true, events: true, payload: true },
+      });
+      if (chunks.length === 0) break;
+
+      for (const chunk of chunks) {
+        const payload = compressChunkEvents(readChunkEvents(chunk));
+        chunkCount++;
+        rawBytes += Buffer.byteLength(chunk.events ?? '');
+        compressedBytes += payload.length;
+        if (!dryRun) {
+          await prisma.replayChunk.update({ where: { id: chunk.id }, data: { payload, events: null } });
+        }
+      }
+      cursor = chunks[chunks.length - 1].id;
+    }
+
+    const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    console.log(
+      `${dryRun ? 'Would compress' : 'Compressed'} ${chunkCount} chunks: ${mb(rawBytes)}MB → ${mb(compressedBytes)}MB.`
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+compressReplayChunks();
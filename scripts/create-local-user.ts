@@ -8,6 +8,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import crypto from 'crypto';
+import { projectApiKeyFields } from '../src/lib/project-api-key';
 
 const prisma = new PrismaClient();
 
@@ -71,10 +72,11 @@ async function createLocalUser() {
       data: {
         organizationId: organization.id,
         name: 'Default Project',
-        apiKey,
+        ...projectApiKeyFields(apiKey),
       },
     });
     console.log('Created project:', project.name);
+    console.log('Project API key (shown once):', apiKey);
     console.log('');
     console.log('Setup complete! You can now use the app.');
 
@@ -0,0 +1,113 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Encrypt and re-key integration credentials
+ *
+ * Brings every stored credential under the active key in
+ * CREDENTIALS_ENCRYPTION_KEYS (the first entry):
+ *   - plaintext values written before encryption existed are encrypted
+ *   - values encrypted under an older key get their data key re-wrapped
+ *
+ * Covers Project analytics keys, IssueTrackerConnection.apiToken and
+ * DigestSubscription.webhookUrl. The SDK database's tenant rows keep
+ * plaintext keys and are not touched. Safe to re-run.
+ *
+ * Rotating the master key:
+ *   1. npx ts-node scripts/encrypt-credentials.ts --generate-key
+ *   2. Prepend the new entry: CREDENTIALS_ENCRYPTION_KEYS="k2:<new>,k1:<old>"
+ *      and deploy
+ *   3. Run this script, then drop the old entry once it reports 0 updates
+ *
+ * Usage:
+ *   npx ts-node scripts/encrypt-credentials.ts [--dry-run] [--generate-key]
+ *
+ * Environment variables:
+ *   DATABASE_URL                - Dashboard database
+ *   CREDENTIALS_ENCRYPTION_KEYS - Keyring, active key first
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { PROJECT_SECRET_FIELDS, generateMasterKey, rewrapSecret } from '../src/lib/credential-encryption';
+
+const prisma = new PrismaClient();
+
+/** New values for the fields that need (re-)encrypting. */
+function rewrapFields<T extends string>(record: Record<T, string | null>, fields: readonly T[]) {
+  const updates: Partial<Record<T, string>> = {};
+  for (const field of fields) {
+    const rewrapped = rewrapSecret(record[field]);
+    if (rewrapped) updates[field] = rewrapped;
+  }
+  return updates;
+}
+
+async function encryptCredentials() {
+  if (process.argv.includes('--generate-key')) {
+    console.log(`New key (add as <id>:<key> at the front of CREDENTIALS_ENCRYPTION_KEYS):\n${generateMasterKey()}`);
+    return;
+  }
+
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    const projects = await prisma.project.findMany({
+      select: {
+        id: true,
+        name: true,
+        posthogKey: true,
+        mixpanelKey: true,
+        mixpanelSecret: true,
+        amplitudeKey: true,
+        amplitudeSecret: true,
+      },
+    });
+    let projectCount = 0;
+    for (const project of projects) {
+      const updates = rewrapFields(project, PROJECT_SECRET_FIELDS);
+      if (Object.keys(updates).length === 0) continue;
+      projectCount++;
+      console.log(`- Project ${project.name} (${project.id}): ${Object.keys(updates).join(', ')}`);
+      if (dryRun) continue;
+
+      await prisma.project.update({ where: { id: project.id }, data: updates });
+    }
+
+    const connections = await prisma.issueTrackerConnection.findMany({
+      select: { id: true, provider: true, projectId: true, apiToken: true },
+    });
+    let connectionCount = 0;
+    for (const connection of connections) {
+      const updates = rewrapFields(connection, ['apiToken'] as const);
+      if (!updates.apiToken) continue;
+      connectionCount++;
+      console.log(`- ${connection.provider} connection ${connection.id} (project ${connection.projectId})`);
+      if (!dryRun) {
+        await prisma.issueTrackerConnection.update({ where: { id: connection.id }, data: updates });
+      }
+    }
+
+    const digests = await prisma.digestSubscription.findMany({
+      select: { id: true, name: true, webhookUrl: true },
+    });
+    let digestCount = 0;
+    for (const digest of digests) {
+      const updates = rewrapFields(digest, ['webhookUrl'] as const);
+      if (!updates.webhookUrl) continue;
+      digestCount++;
+      console.log(`- Digest ${digest.name} (${digest.id})`);
+      if (!dryRun) {
+        await prisma.digestSubscription.update({ where: { id: digest.id }, data: updates });
+      }
+    }
+
+    console.log(
+      `${dryRun ? 'Would update' : 'Updated'} ${projectCount} projects, ${connectionCount} issue-tracker connections, ${digestCount} digests.`
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+encryptCredentials();
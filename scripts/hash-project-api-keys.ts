@@ -0,0 +1,61 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Hash legacy project API keys
+ *
+ * Projects created before keys were hashed store their SDK key in plaintext
+ * in Project.apiKey, and the SDK database has the same plaintext in
+ * tenants.api_key_hash / api_keys.key_hash. This replaces both with the
+ * key's SHA-256 and clears the plaintext column. Existing widget and
+ * replay snippets keep working — the key itself doesn't change.
+ *
+ * Usage:
+ *   npx ts-node scripts/hash-project-api-keys.ts [--dry-run]
+ *
+ * Environment variables:
+ *   DATABASE_URL     - Dashboard database
+ *   SDK_DATABASE_URL - SDK database (optional; tenant rows are skipped without it)
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { projectApiKeyFields } from '../src/lib/project-api-key';
+import { migrateSdkTenantKey } from '../src/lib/sdk-db';
+
+const prisma = new PrismaClient();
+
+async function hashProjectApiKeys() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    const projects = await prisma.project.findMany({
+      where: { apiKey: { not: null } },
+      select: { id: true, name: true, apiKey: true },
+    });
+    console.log(`Found ${projects.length} projects with plaintext keys${dryRun ? ' (dry run)' : ''}`);
+
+    for (const project of projects) {
+      const fields = projectApiKeyFields(project.apiKey!);
+      console.log(`- ${project.name} (${project.id}): ${fields.apiKeyPrefix}…`);
+      if (dryRun) continue;
+
+      // SDK first: if it fails, keep the plaintext so a re-run can retry
+      if (process.env.SDK_DATABASE_URL && !(await migrateSdkTenantKey(project.apiKey!, fields.apiKeyHash))) {
+        console.warn('  SDK tenant not updated, skipping');
+        continue;
+      }
+
+      await prisma.project.update({
+        where: { id: project.id },
+        data: { ...fields, apiKey: null },
+      });
+    }
+
+    console.log('Done.');
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+hashProjectApiKeys();
@@ -0,0 +1,394 @@
+/**
+ * Tranzmit Recorder SDK v1.0
+ * ─────────────────────────────────────────────────────────────────
+ * First-party session recording for teams that don't use PostHog
+ * replay. Records the page with rrweb and uploads it to your
+ * Tranzmit instance, where it is analyzed like any other session.
+ *
+ * HOW IT WORKS:
+ *   1. rrweb records the page with your sampling and masking config.
+ *   2. Events are batched into chunks (every 10s, or sooner when a
+ *      chunk nears the 500KB upload limit) and POSTed to
+ *      /api/ingest/replay, gzip-compressed where the browser
+ *      supports CompressionStream.
+ *   3. Failed uploads are retried with backoff; anything still
+ *      pending when the page is hidden or unloaded is sent with
+ *      navigator.sendBeacon, and kept in sessionStorage for the next
+ *      page load if the beacon is refused.
+ *   4. A session lasts for the tab's lifetime, across page loads,
+ *      until 30 minutes pass without activity.
+ *
+ * SETUP:
+ *   <script src="https://cdn.jsdelivr.net/npm/rrweb@latest/dist/rrweb-all.min.js"></script>
+ *   <script>
+ *     window.TRANZMIT_RECORDER_CONFIG = {
+ *       apiKey:     'tranzmit_...',             // Your Tranzmit project API key
+ *       endpoint:   'https://app.tranzmit.com', // Your Tranzmit instance URL
+ *       distinctId: currentUser && currentUser.id // Optional — see IDENTITY
+ *     };
+ *   </script>
+ *   <script src="https://app.tranzmit.com/tranzmit-recorder.js"></script>
+ *
+ * OPTIONAL CONFIG:
+ *   sampleRate:       1       — share of sessions to record, 0–1 (default 1)
+ *   sampling:         {...}   — rrweb sampling (default mousemove 50, scroll 150, input 'last')
+ *   maskAllInputs:    true    — mask every input value (default true)
+ *   maskAllText:      false   — mask all page text, not just matching elements
+ *   maskTextSelector: '...'   — CSS selector whose text is masked
+ *   blockSelector:    '...'   — CSS selector recorded as an empty placeholder
+ *   ignoreSelector:   '...'   — CSS selector whose input events are not recorded
+ *   flushInterval:    10000   — how often to upload (ms, default 10000)
+ *   idleTimeout:      1800000 — inactivity that ends a session (ms, default 30 min)
+ *
+ * IDENTITY:
+ *   Call identify() when the user logs in. The chunks recorded so far
+ *   in this session are re-attributed to the new distinct ID, so a
+ *   session that started anonymously is analyzed as the user's.
+ *   Call reset() on logout so the next user starts a fresh session.
+ *
+ * PUBLIC API:
+ *   window.TranzmitRecorder.identify(distinctId)
+ *   window.TranzmitRecorder.reset()
+ *   window.TranzmitRecorder.flush()
+ *   window.TranzmitRecorder.stop()
+ *   window.TranzmitRecorder.getSessionId()
+ * ─────────────────────────────────────────────────────────────────
+ */
+(function () {
+  'use strict';
+
+  /* ── Config ────────────────────────────────────────────────── */
+  var cfg = window.TRANZMIT_RECORDER_CONFIG;
+  if (!cfg || !cfg.apiKey || !cfg.endpoint) {
+    if (cfg) {
+      console.warn('[Tranzmit Recorder] Missing required config: apiKey and endpoint are required.');
+    }
+    return;
+  }
+  if (window.TranzmitRecorder) return; // already loaded on this page
+
+  var INGEST_URL        = cfg.endpoint.replace(/\/$/, '') + '/api/ingest/replay';
+  var BEACON_URL        = INGEST_URL + '?key=' + encodeURIComponent(cfg.apiKey);
+  var FLUSH_MS          = cfg.flushInterval || 10000;
+  var IDLE_MS           = cfg.idleTimeout || 30 * 60 * 1000;
+  var SAMPLE_RATE       = typeof cfg.sampleRate === 'number' ? cfg.sampleRate : 1;
+  var MAX_CHUNK_BYTES   = 450 * 1024;      // headroom under the 500KB ingest limit
+  var MAX_CHUNKS        = 200;             // per session, enforced by the ingest API
+  var MAX_RETRIES       = 5;
+  var MAX_PENDING_BYTES = 2 * 1024 * 1024; // cap on what's kept in sessionStorage
+  var STATE_KEY         = '__tz_rec_session__';
+  var PENDING_KEY       = '__tz_rec_pending__';
+
+  /*
+   * session: { id, distinctId, nextChunk, lastActivity, sampled, stitch }
+   * stitch is { from: <old distinct ID or null> } after an identity change,
+   * until the next chunk carries it to the server as previousDistinctId.
+   */
+  var session     = null;
+  var buffer      = [];
+  var bufferBytes = 0;
+  var pending     = [];    // chunks not yet accepted: { body, bytes, attempts }
+  var inFlight    = false;
+  var retryTimer  = null;
+  var flushTimer  = null;
+  var stopFn      = null;
+  var stopped     = false;
+
+  /* ── Storage ────────────────────────────────────────────────── */
+  function load(key) {
+    try {
+      var raw = window.sessionStorage.getItem(key);
+      return raw ? JSON.parse(raw) : null;
+    } catch (err) {
+      return null;
+    }
+  }
+
+  function save(key, value) {
+    try {
+      window.sessionStorage.setItem(key, JSON.stringify(value));
+    } catch (err) { /* storage full or disabled — keep going in memory */ }
+  }
+
+  function saveSession() {
+    save(STATE_KEY, session);
+  }
+
+  function savePending() {
+    var kept = [];
+    var total = 0;
+    for (var i = 0; i < pending.length; i++) {
+      total += pending[i].bytes;
+      if (total > MAX_PENDING_BYTES) break;
+      kept.push(pending[i]);
+    }
+    save(PENDING_KEY, kept);
+  }
+
+  /* ── Session ────────────────────────────────────────────────── */
+  function randomId() {
+    return 'tr_' + Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
+  }
+
+  function newSession(distinctId) {
+    session = {
+      id: randomId(),
+      distinctId: distinctId ? String(distinctId) : null,
+      nextChunk: 0,
+      lastActivity: Date.now(),
+      sampled: Math.random() < SAMPLE_RATE,
+      stitch: null,
+    };
+    saveSession();
+  }
+
+  function resumeOrStartSession() {
+    var saved = load(STATE_KEY);
+    if (saved && saved.id && Date.now() - saved.lastActivity < IDLE_MS) {
+      session = saved;
+      if (cfg.distinctId && String(cfg.distinctId) !== session.distinctId) {
+        session.stitch = { from: session.distinctId };
+        session.distinctId = String(cfg.distinctId);
+      }
+      saveSession();
+    } else {
+      newSession(cfg.distinctId);
+    }
+  }
+
+  /* ── Chunking ───────────────────────────────────────────────── */
+  function byteLength(str) {
+    if (typeof TextEncoder !== 'undefined') return new TextEncoder().encode(str).length;
+    return unescape(encodeURIComponent(str)).length;
+  }
+
+  function flush() {
+    if (buffer.length === 0 || !session) return;
+    if (session.nextChunk >= MAX_CHUNKS) {
+      console.warn('[Tranzmit Recorder] Session reached ' + MAX_CHUNKS + ' chunks; recording stopped.');
+      buffer = [];
+      bufferBytes = 0;
+      stop();
+      return;
+    }
+
+    var body = {
+      sessionId: session.id,
+      distinctId: session.distinctId,
+      chunkIndex: session.nextChunk,
+      events: buffer,
+    };
+    if (session.stitch) {
+      body.previousDistinctId = session.stitch.from;
+      session.stitch = null;
+    }
+    var payload = JSON.stringify(body);
+
+    session.nextChunk++;
+    saveSession();
+    buffer = [];
+    bufferBytes = 0;
+
+    pending.push({ body: payload, bytes: byteLength(payload), attempts: 0 });
+    savePending();
+    send();
+  }
+
+  function record(event) {
+    if (stopped || !session) return;
+
+    var now = Date.now();
+    if (now - session.lastActivity > IDLE_MS) {
+      // Idle too long: close this session and start a new one with a fresh snapshot
+      flush();
+      newSession(session.distinctId);
+      if (session.sampled && rrweb.record.takeFullSnapshot) {
+        setTimeout(function () { rrweb.record.takeFullSnapshot(true); }, 0);
+      }
+    }
+    session.lastActivity = now;
+    if (!session.sampled) return;
+
+    var size = byteLength(JSON.stringify(event));
+    if (size > MAX_CHUNK_BYTES) {
+      console.warn('[Tranzmit Recorder] Dropped a ' + Math.round(size / 1024) + 'KB event; it exceeds the upload limit.');
+      return;
+    }
+    if (bufferBytes + size > MAX_CHUNK_BYTES) flush();
+    buffer.push(event);
+    bufferBytes += size;
+  }
+
+  /* ── Upload ─────────────────────────────────────────────────── */
+  // By reference: a beacon may have taken the chunk out of the queue already
+  function settle(chunk) {
+    var i = pending.indexOf(chunk);
+    if (i !== -1) pending.splice(i, 1);
+    savePending();
+  }
+
+  // gzip the body where the browser can (CompressionStream); replay JSON
+  // typically shrinks 5–10x. Resolves to null when unavailable.
+  function gzip(body) {
+    if (typeof CompressionStream === 'undefined') return Promise.resolve(null);
+    try {
+      var stream = new Blob([body]).stream().pipeThrough(new CompressionStream('gzip'));
+      return new Response(stream).blob().catch(function () { return null; });
+    } catch (err) {
+      return Promise.resolve(null);
+    }
+  }
+
+  function send() {
+    if (inFlight || retryTimer || pending.length === 0) return;
+    var chunk = pending[0];
+    inFlight = true;
+
+    gzip(chunk.body)
+      .then(function (compressed) {
+        var headers = { 'Content-Type': 'application/json', 'x-tranzmit-api-key': cfg.apiKey };
+        if (compressed) headers['Content-Encoding'] = 'gzip';
+        var body = compressed || chunk.body;
+        return fetch(INGEST_URL, {
+          method: 'POST',
+          headers: headers,
+          body: body,
+          keepalive: (compressed ? compressed.size : chunk.bytes) < 60 * 1024,
+        });
+      })
+      .then(function (r) {
+        // 4xx other than 429 means the chunk itself was rejected — retrying won't help
+        if (r.ok || (r.status >= 400 && r.status < 500 && r.status !== 429)) return true;
+        throw new Error('HTTP ' + r.status);
+      })
+      .then(function () {
+        inFlight = false;
+        settle(chunk);
+        send();
+      })
+      .catch(function () {
+        inFlight = false;
+        chunk.attempts++;
+        if (chunk.attempts > MAX_RETRIES) {
+          settle(chunk);
+          send();
+          return;
+        }
+        var delay = Math.min(1000 * Math.pow(2, chunk.attempts), 30000);
+        retryTimer = setTimeout(function () {
+          retryTimer = null;
+          send();
+        }, delay);
+      });
+  }
+
+  // Page is going away: hand everything still pending to sendBeacon.
+  // text/plain keeps the beacon a simple (non-preflighted) CORS request.
+  function beaconAll() {
+    flush();
+    if (session) saveSession();
+    if (typeof navigator.sendBeacon !== 'function') return;
+    var remaining = [];
+    for (var i = 0; i < pending.length; i++) {
+      var sent = false;
+      try {
+        sent = navigator.sendBeacon(BEACON_URL, new Blob([pending[i].body], { type: 'text/plain' }));
+      } catch (err) { /* fall through — kept for the next page load */ }
+      if (!sent) remaining.push(pending[i]);
+    }
+    pending = remaining;
+    savePending();
+  }
+
+  /* ── Recording ──────────────────────────────────────────────── */
+  function recordOptions() {
+    var opts = {
+      emit: record,
+      sampling: cfg.sampling || { mousemove: 50, scroll: 150, input: 'last' },
+      maskAllInputs: cfg.maskAllInputs !== false,
+      recordCanvas: false,
+      collectFonts: false,
+    };
+    if (cfg.maskAllText) opts.maskTextSelector = '*';
+    else if (cfg.maskTextSelector) opts.maskTextSelector = cfg.maskTextSelector;
+    if (cfg.blockSelector) opts.blockSelector = cfg.blockSelector;
+    if (cfg.ignoreSelector) opts.ignoreSelector = cfg.ignoreSelector;
+    if (cfg.maskInputOptions) opts.maskInputOptions = cfg.maskInputOptions;
+    return opts;
+  }
+
+  function start() {
+    if (typeof rrweb === 'undefined' || typeof rrweb.record !== 'function') {
+      console.warn('[Tranzmit Recorder] rrweb not found. Load rrweb before this script.');
+      return;
+    }
+
+    resumeOrStartSession();
+    pending = load(PENDING_KEY) || [];
+    send(); // retry anything the previous page couldn't deliver
+
+    if (!session.sampled) return;
+
+    stopFn = rrweb.record(recordOptions());
+    flushTimer = setInterval(flush, FLUSH_MS);
+
+    document.addEventListener('visibilitychange', function () {
+      if (document.visibilityState === 'hidden') beaconAll();
+    });
+    window.addEventListener('pagehide', beaconAll);
+  }
+
+  function stop() {
+    stopped = true;
+    if (stopFn) stopFn();
+    stopFn = null;
+    if (flushTimer) clearInterval(flushTimer);
+    flushTimer = null;
+  }
+
+  /* ── Identity ───────────────────────────────────────────────── */
+  function identify(distinctId) {
+    if (!distinctId || !session || String(distinctId) === session.distinctId) return;
+    var previous = session.distinctId;
+
+    // Close the chunk recorded under the old identity, then mark the switch
+    flush();
+    session.distinctId = String(distinctId);
+    session.stitch = { from: previous };
+    saveSession();
+
+    if (!stopped && session.sampled && rrweb.record.addCustomEvent) {
+      rrweb.record.addCustomEvent('identify', { distinctId: session.distinctId, previousDistinctId: previous });
+    }
+  }
+
+  function reset() {
+    flush();
+    newSession(null);
+    if (!stopped && session.sampled && rrweb.record.takeFullSnapshot) {
+      rrweb.record.takeFullSnapshot(true);
+    }
+  }
+
+  /* ── Boot ───────────────────────────────────────────────────── */
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', start);
+  } else {
+    start();
+  }
+
+  /* ── Public API ─────────────────────────────────────────────── */
+  window.TranzmitRecorder = {
+    identify: identify,
+    reset: reset,
+    flush: flush,
+    stop: function () {
+      flush();
+      stop();
+    },
+    getSessionId: function () {
+      return session ? session.id : null;
+    },
+  };
+
+})();
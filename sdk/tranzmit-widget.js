@@ -5,11 +5,16 @@
  * WebView to enable targeted voice interview invites.
  *
  * HOW IT WORKS:
- *   1. The SDK polls your Tranzmit instance every 5 seconds.
+ *   1. The SDK keeps a Server-Sent Events connection open to your
+ *      Tranzmit instance (falling back to polling with backoff).
  *   2. When you trigger a widget for a user from the dashboard,
  *      a small invite popup appears on their screen.
  *   3. Clicking it launches the full voice interview interface.
  *
+ *   Only one visible tab per user holds the connection; the others hear
+ *   about triggers over BroadcastChannel. Nothing runs while every tab
+ *   is hidden.
+ *
  * SETUP:
  *   <script>
  *     window.TRANZMIT_WIDGET_CONFIG = {
@@ -22,7 +27,9 @@
  *   <script src="https://app.tranzmit.com/tranzmit-widget.js"></script>
  *
  * OPTIONAL CONFIG:
- *   pollInterval:    5000  — how often to check (ms, default 5000)
+ *   pollInterval:    5000  — first polling delay when streaming is unavailable (ms)
+ *   maxPollInterval: 60000 — polling backs off up to this delay (ms)
+ *   stream:          true  — set false to always poll
  *   interviewApiKey: '...' — API key passed to the voice interview embed
  *
  * STOP MANUALLY:
@@ -43,33 +50,183 @@
 
   var BASE        = cfg.endpoint.replace(/\/$/, '');
   var CHECK_URL   = BASE + '/api/widget/check';
+  var STREAM_URL  = BASE + '/api/widget/stream';
   var DONE_URL    = BASE + '/api/widget/complete';
   var SDK_URL     = 'https://tranzmit-button-sdk-react-app.vercel.app/embed.js';
   var SDK_BACKEND = 'https://tranzmit-button-sdk-react-app.vercel.app';
-  var INTERVAL_MS = cfg.pollInterval || 5000;
+  var POLL_MIN_MS = cfg.pollInterval || 5000;
+  var POLL_MAX_MS = cfg.maxPollInterval || 60000;
   var WIDGET_ID   = '__tz_widget__';
+  var SHARED_NAME = '__tz_widget__:' + cfg.distinctId;   // BroadcastChannel + Web Lock name
+  var MAX_STREAM_FAILURES = 3;                            // failed connects before falling back to polling
+  var QUERY       = '?key=' + encodeURIComponent(cfg.apiKey)
+                  + '&distinctId=' + encodeURIComponent(cfg.distinctId);
 
   var shown      = false;
-  var pollTimer  = null;
+  var stopped    = false;
   var interviewLaunched = false;
 
-  /* ── Polling ────────────────────────────────────────────────── */
-  function poll() {
+  var connected      = false;   // this tab is the one talking to the server
+  var source         = null;    // EventSource while streaming
+  var streamFailures = 0;
+  var streaming      = cfg.stream !== false && typeof window.EventSource === 'function';
+  var pollTimer      = null;
+  var pollDelay      = POLL_MIN_MS;
+  var lockRequest    = null;    // token of the pending Web Lock request
+  var lockCancel     = null;    // aborts the pending request
+  var lockRelease    = null;    // releases the held lock
+
+  var channel = typeof window.BroadcastChannel === 'function' ? new BroadcastChannel(SHARED_NAME) : null;
+  var canShare = !!(channel && navigator.locks && navigator.locks.request);
+
+  function isHidden() {
+    return document.visibilityState === 'hidden';
+  }
+
+  /* ── Delivery ───────────────────────────────────────────────── */
+  function deliver(data, fromServer) {
     if (shown) return;
-    var url = CHECK_URL
-      + '?key='        + encodeURIComponent(cfg.apiKey)
-      + '&distinctId=' + encodeURIComponent(cfg.distinctId);
+    shown = true;
+    if (fromServer && channel) channel.postMessage({ type: 'trigger', data: data });
+    release();
+    showWidget(data);
+  }
+
+  /* ── Streaming ──────────────────────────────────────────────── */
+  function openStream() {
+    var ready = false;
+    source = new EventSource(STREAM_URL + QUERY);
+
+    source.addEventListener('ready', function () {
+      ready = true;
+      streamFailures = 0;
+    });
+
+    source.addEventListener('trigger', function (e) {
+      var data;
+      try { data = JSON.parse(e.data); } catch (err) { return; }
+      if (data && data.show) deliver(data, true);
+    });
+
+    // EventSource reconnects by itself when the server ends a stream or the
+    // network drops. Give up on it when it closes for good (an HTTP error)
+    // or keeps failing before the server says ready.
+    source.onerror = function () {
+      if (!ready) streamFailures++;
+      ready = false;
+      if (source && (source.readyState === 2 || streamFailures >= MAX_STREAM_FAILURES)) {
+        closeStream();
+        streaming = false;
+        if (connected) schedulePoll(0);
+      }
+    };
+  }
+
+  function closeStream() {
+    if (source) {
+      source.close();
+      source = null;
+    }
+  }
+
+  /* ── Polling (fallback) ─────────────────────────────────────── */
+  function schedulePoll(delay) {
+    clearTimeout(pollTimer);
+    pollTimer = setTimeout(poll, delay);
+  }
+
+  function poll() {
+    pollTimer = null;
+    if (!connected || shown) return;
 
-    fetch(url)
+    // Each empty answer doubles the wait, with jitter so tabs across the
+    // user base don't poll in step
+    function next() {
+      if (!connected || shown) return;
+      var delay = pollDelay * (0.8 + Math.random() * 0.4);
+      pollDelay = Math.min(pollDelay * 2, POLL_MAX_MS);
+      schedulePoll(delay);
+    }
+
+    fetch(CHECK_URL + QUERY)
       .then(function (r) { return r.ok ? r.json() : null; })
       .then(function (data) {
-        if (data && data.show && !shown) {
-          shown = true;
-          clearInterval(pollTimer);
-          showWidget(data);
-        }
+        if (data && data.show) deliver(data, true);
+        else next();
       })
-      .catch(function () { /* fail silently — never break the host page */ });
+      .catch(next);   /* fail silently — never break the host page */
+  }
+
+  /* ── Connection ─────────────────────────────────────────────── */
+  function connect() {
+    if (connected || shown || stopped) return;
+    connected = true;
+    if (streaming) openStream();
+    else schedulePoll(0);
+  }
+
+  function disconnect() {
+    connected = false;
+    closeStream();
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+
+  // Connect, or — when tabs can share — wait for the Web Lock that only the
+  // connected tab holds. Hidden tabs never hold it.
+  function acquire() {
+    if (connected || lockRequest || lockRelease || shown || stopped) return;
+    if (!canShare) {
+      connect();
+      return;
+    }
+
+    var request = {};
+    var abort = typeof AbortController === 'function' ? new AbortController() : null;
+    lockRequest = request;
+    lockCancel = abort;
+
+    navigator.locks.request(SHARED_NAME, abort ? { signal: abort.signal } : {}, function () {
+      // A request given up by release() can still be granted where it couldn't be aborted
+      if (lockRequest !== request) return;   // returning releases the lock
+      lockRequest = null;
+      lockCancel = null;
+      if (shown || stopped || isHidden()) return;
+
+      return new Promise(function (resolve) {
+        lockRelease = resolve;
+        connect();
+      });
+    }).catch(function () { /* request aborted */ });
+  }
+
+  // Close the connection and let another visible tab take it over
+  function release() {
+    disconnect();
+    if (lockRelease) {
+      lockRelease();
+      lockRelease = null;
+    }
+    if (lockCancel) lockCancel.abort();
+    lockRequest = null;
+    lockCancel = null;
+  }
+
+  function onVisibilityChange() {
+    if (isHidden()) {
+      release();
+    } else {
+      pollDelay = POLL_MIN_MS;
+      acquire();
+    }
+  }
+
+  if (channel) {
+    channel.onmessage = function (e) {
+      var msg = e.data || {};
+      if (msg.type === 'trigger') deliver(msg.data, false);
+      else if (msg.type === 'done') removeWidget();
+    };
   }
 
   /* ── Report outcome ─────────────────────────────────────────── */
@@ -82,6 +239,12 @@
   }
 
   /* ── Remove popup ───────────────────────────────────────────── */
+  // Every tab shows the popup; answering it in one closes it in the others
+  function closeEverywhere() {
+    removeWidget();
+    if (channel) channel.postMessage({ type: 'done' });
+  }
+
   function removeWidget() {
     var el = document.getElementById(WIDGET_ID);
     if (el && el.parentNode) el.parentNode.removeChild(el);
@@ -215,20 +378,20 @@
 
     document.getElementById('__tz_close__').addEventListener('click', function () {
       reportOutcome(triggerId, 'dismissed');
-      removeWidget();
+      closeEverywhere();
     });
 
     document.getElementById('__tz_start__').addEventListener('click', function () {
       reportOutcome(triggerId, 'clicked');
-      removeWidget();
+      closeEverywhere();
       launchInterview(interviewApiKey);
     });
   }
 
   /* ── Boot ───────────────────────────────────────────────────── */
   function start() {
-    poll();
-    pollTimer = setInterval(poll, INTERVAL_MS);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    if (!isHidden()) acquire();
   }
 
   if (document.readyState === 'loading') {
@@ -237,14 +400,17 @@
     start();
   }
 
-  window.addEventListener('beforeunload', function () {
-    if (pollTimer) clearInterval(pollTimer);
+  window.addEventListener('pagehide', release);
+  window.addEventListener('pageshow', function (e) {
+    if (e.persisted && !isHidden()) acquire();   // restored from the back/forward cache
   });
 
   /* ── Public API ─────────────────────────────────────────────── */
   window.TRANZMIT_WIDGET_STOP = function () {
-    if (pollTimer) clearInterval(pollTimer);
+    stopped = true;
     shown = true;
+    release();
+    document.removeEventListener('visibilitychange', onVisibilityChange);
   };
 
 })();
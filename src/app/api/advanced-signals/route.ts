@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createPostHogClient, PersonWithSignals } from '@/lib/posthog';
+import { PersonWithSignals } from '@/lib/posthog';
+import { createProjectClient } from '@/lib/posthog-factory';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 
 /**
  * GET /api/advanced-signals - Get all advanced friction signals
@@ -36,6 +38,11 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
   }
 
+  const access = await requireProjectPermission(projectId, 'project:read');
+  if (!access.ok) {
+    return access.response;
+  }
+
   try {
     const project = await prisma.project.findUnique({
       where: { id: projectId },
@@ -45,11 +52,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'PostHog not configured' }, { status: 400 });
     }
 
-    const posthog = createPostHogClient({
-      apiKey: project.posthogKey,
-      projectId: project.posthogProjId,
-      host: project.posthogHost || 'https://us.posthog.com',
-    });
+    const posthog = createProjectClient(project);
 
     // Parse event arrays
     const funnelEvents = funnelEventsParam?.split(',').filter(Boolean) || [];
@@ -198,6 +201,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const project = await prisma.project.findUnique({
       where: { id: projectId },
     });
@@ -206,11 +214,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'PostHog not configured' }, { status: 400 });
     }
 
-    const posthog = createPostHogClient({
-      apiKey: project.posthogKey,
-      projectId: project.posthogProjId,
-      host: project.posthogHost || 'https://us.posthog.com',
-    });
+    const posthog = createProjectClient(project);
 
     // Run all signal detection in parallel
     const [
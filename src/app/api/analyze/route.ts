@@ -3,6 +3,7 @@ import { generateObject } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
 import { parseRRWebSession } from '@/lib/rrweb-parser';
+import { requireProjectPermission } from '@/lib/auth';
 import { writeFile } from 'fs/promises';
 import { join } from 'path';
 
@@ -23,7 +24,16 @@ const UXAnalysisSchema = z.object({
 export async function POST(req: NextRequest) {
     try {
         const body = await req.json();
-        const { events } = body;
+        const { projectId, events } = body;
+
+        if (!projectId) {
+            return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+        }
+
+        const access = await requireProjectPermission(projectId, 'project:write');
+        if (!access.ok) {
+            return access.response;
+        }
 
         if (!events || !Array.isArray(events)) {
             return NextResponse.json({ error: 'Invalid RRWeb events provided' }, { status: 400 });
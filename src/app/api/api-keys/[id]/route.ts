@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditChanges, auditProjectAction } from '@/lib/audit-log';
+import { apiKeySchema, toPublicApiKey } from '@/lib/public-api';
+
+async function findApiKeyWithAccess(id: string) {
+  const apiKey = await prisma.apiKey.findUnique({ where: { id } });
+  return requireRecordPermission(apiKey, 'settings:manage', 'API key not found');
+}
+
+/**
+ * PATCH /api/api-keys/[id]
+ *
+ * Body: any of name, scopes, rateLimitPerMinute. Revoked keys can't be changed.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await findApiKeyWithAccess(id);
+    if (!access.ok) {
+      return access.response;
+    }
+    const existing = access.record;
+    if (existing.revokedAt) {
+      return NextResponse.json({ error: 'API key has been revoked' }, { status: 400 });
+    }
+
+    const body = await request.json();
+
+    const parsed = apiKeySchema.safeParse({
+      name: body.name ?? existing.name,
+      scopes: body.scopes ?? existing.scopes,
+      rateLimitPerMinute: body.rateLimitPerMinute ?? existing.rateLimitPerMinute,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid API key: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = await prisma.apiKey.update({ where: { id }, data: parsed.data });
+
+    // Compare scopes as text so a reordered list doesn't count as a change
+    const changes = auditChanges(
+      { ...existing, scopes: [...existing.scopes].sort().join(',') },
+      { ...apiKey, scopes: [...apiKey.scopes].sort().join(',') },
+      ['name', 'scopes', 'rateLimitPerMinute']
+    );
+    if (changes) {
+      await auditProjectAction(request, access, {
+        action: 'api_key.updated',
+        targetType: 'api_key',
+        targetId: id,
+        targetLabel: apiKey.name,
+        ...changes,
+      });
+    }
+
+    return NextResponse.json({ key: toPublicApiKey(apiKey) });
+  } catch (error) {
+    console.error('[API Keys API] PATCH error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update API key' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/api-keys/[id]
+ *
+ * Revokes the key. It stops working immediately but stays listed.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await findApiKeyWithAccess(id);
+    if (!access.ok) {
+      return access.response;
+    }
+    const existing = access.record;
+
+    if (existing.revokedAt) {
+      return NextResponse.json({ key: toPublicApiKey(existing) });
+    }
+
+    const apiKey = await prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } });
+    await auditProjectAction(request, access, {
+      action: 'api_key.revoked',
+      targetType: 'api_key',
+      targetId: id,
+      targetLabel: apiKey.name,
+    });
+
+    return NextResponse.json({ key: toPublicApiKey(apiKey) });
+  } catch (error) {
+    console.error('[API Keys API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
+import { apiKeyFields, apiKeySchema, generateApiKey, toPublicApiKey } from '@/lib/public-api';
+
+/**
+ * GET /api/api-keys?projectId=...
+ *
+ * Public API keys for a project, revoked ones last. Keys are masked.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const keys = await prisma.apiKey.findMany({
+      where: { projectId },
+      orderBy: [{ revokedAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json({ keys: keys.map(toPublicApiKey) });
+  } catch (error) {
+    console.error('[API Keys API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/api-keys
+ *
+ * Body: { projectId, name, scopes, rateLimitPerMinute? }
+ * The key is returned in full only in this response; only its hash is stored.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, ...input } = await request.json();
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'settings:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const parsed = apiKeySchema.safeParse(input);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid API key: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const secret = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+      data: { projectId, ...parsed.data, ...apiKeyFields(secret), createdById: result.user.id },
+    });
+    await auditProjectAction(request, result, {
+      action: 'api_key.created',
+      targetType: 'api_key',
+      targetId: apiKey.id,
+      targetLabel: apiKey.name,
+      after: { scopes: apiKey.scopes, rateLimitPerMinute: apiKey.rateLimitPerMinute },
+    });
+
+    return NextResponse.json({ key: toPublicApiKey(apiKey), secret });
+  } catch (error) {
+    console.error('[API Keys API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectPermission, requireRecordPermission } from '@/lib/auth';
 import {
   detectAndCreateCohorts,
   getAutoCohorts,
@@ -22,6 +24,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const cohorts = await getAutoCohorts(projectId);
 
     return NextResponse.json({
@@ -54,6 +61,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const access = await requireProjectPermission(projectId, 'project:write');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const generatedCohorts = await detectAndCreateCohorts(projectId);
 
     return NextResponse.json({
@@ -90,6 +102,15 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    const access = await requireRecordPermission(
+      await prisma.cohort.findUnique({ where: { id: cohortId }, select: { projectId: true } }),
+      'project:write',
+      'Cohort not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     const result = await refreshAutoCohort(cohortId);
 
     return NextResponse.json({
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditChanges, auditProjectAction } from '@/lib/audit-log';
+import { outboundUrlError } from '@/lib/outbound-url';
+import { auditedAlertRule, churnAlertRuleSchema } from '@/lib/churn-scoring/alerts';
+
+async function findRuleWithAccess(id: string) {
+  const rule = await prisma.churnAlertRule.findUnique({ where: { id } });
+  return requireRecordPermission(rule, 'settings:manage', 'Alert rule not found');
+}
+
+/**
+ * PATCH /api/churn-scores/alert-rules/[id]
+ *
+ * Body: any of { name, channel, target, minLevel, segments, enabled }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await findRuleWithAccess(id);
+    if (!access.ok) {
+      return access.response;
+    }
+    const existing = access.record;
+
+    const body = await request.json();
+
+    // Validate the merged rule so channel and target stay consistent
+    const parsed = churnAlertRuleSchema.safeParse({
+      name: body.name ?? existing.name,
+      enabled: body.enabled ?? existing.enabled,
+      minLevel: body.minLevel ?? existing.minLevel,
+      segments: body.segments ?? existing.segments,
+      channel: body.channel ?? existing.channel,
+      target: body.target ?? existing.target,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid alert rule: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.channel === 'webhook' && parsed.data.target !== existing.target) {
+      const urlError = await outboundUrlError(parsed.data.target);
+      if (urlError) {
+        return NextResponse.json({ error: `Invalid alert rule: ${urlError}` }, { status: 400 });
+      }
+    }
+
+    const rule = await prisma.churnAlertRule.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    const after = auditedAlertRule(rule);
+    const changes = auditChanges(auditedAlertRule(existing), after, Object.keys(after));
+    if (changes) {
+      await auditProjectAction(request, access, {
+        action: 'churn_alert_rule.updated',
+        targetType: 'churn_alert_rule',
+        targetId: id,
+        targetLabel: rule.name,
+        ...changes,
+      });
+    }
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('[ChurnAlertRules API] PATCH error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update alert rule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/churn-scores/alert-rules/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await findRuleWithAccess(id);
+    if (!access.ok) {
+      return access.response;
+    }
+
+    await prisma.churnAlertRule.delete({ where: { id } });
+    await auditProjectAction(request, access, {
+      action: 'churn_alert_rule.deleted',
+      targetType: 'churn_alert_rule',
+      targetId: id,
+      targetLabel: access.record.name,
+      before: auditedAlertRule(access.record),
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[ChurnAlertRules API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete alert rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
+import { outboundUrlError } from '@/lib/outbound-url';
+import { auditedAlertRule, churnAlertRuleSchema } from '@/lib/churn-scoring/alerts';
+
+/**
+ * GET /api/churn-scores/alert-rules?projectId=
+ *
+ * List alert rules with their most recent alerts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId');
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const [rules, recentAlerts] = await Promise.all([
+      prisma.churnAlertRule.findMany({
+        where: { projectId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.churnAlert.findMany({
+        where: { projectId },
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+      }),
+    ]);
+
+    return NextResponse.json({ rules, recentAlerts });
+  } catch (error) {
+    console.error('[ChurnAlertRules API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch alert rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/churn-scores/alert-rules
+ *
+ * Body: { projectId, name, channel, target, minLevel?, segments?, enabled? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, ...input } = await request.json();
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'settings:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const parsed = churnAlertRuleSchema.safeParse(input);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid alert rule: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.channel === 'webhook') {
+      const urlError = await outboundUrlError(parsed.data.target);
+      if (urlError) {
+        return NextResponse.json({ error: `Invalid alert rule: ${urlError}` }, { status: 400 });
+      }
+    }
+
+    const rule = await prisma.churnAlertRule.create({
+      data: { projectId, ...parsed.data },
+    });
+    await auditProjectAction(request, result, {
+      action: 'churn_alert_rule.created',
+      targetType: 'churn_alert_rule',
+      targetId: rule.id,
+      targetLabel: rule.name,
+      after: auditedAlertRule(rule),
+    });
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('[ChurnAlertRules API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create alert rule' },
+      { status: 500 }
+    );
+  }
+}
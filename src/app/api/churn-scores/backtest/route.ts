@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectPermission } from '@/lib/auth';
+import { runChurnBacktest, BacktestOptions } from '@/lib/churn-scoring/backtest';
+import { churnRuleSetSchema } from '@/lib/churn-scoring/rule-set';
+
+export const maxDuration = 60;
+
+function parseOption(value: unknown, min: number, max: number): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new Error(`must be an integer between ${min} and ${max}`);
+  }
+  return n;
+}
+
+/**
+ * POST /api/churn-scores/backtest
+ *
+ * Replay historical DailyChurnScore rows against a rule set and report
+ * precision/recall per risk level for users who later went inactive.
+ * Body: { projectId, ruleSet?, horizonDays?, inactiveDays?, maxSnapshots? }
+ *
+ * When ruleSet is given, the response also includes the project's current
+ * rule set evaluated on the same history, for side-by-side comparison.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { projectId, ruleSet } = body;
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const options: Partial<BacktestOptions> = {};
+    try {
+      options.horizonDays = parseOption(body.horizonDays, 1, 59);
+      options.inactiveDays = parseOption(body.inactiveDays, 1, 60);
+      options.maxSnapshots = parseOption(body.maxSnapshots, 1, 12);
+    } catch (err) {
+      return NextResponse.json(
+        { error: `Invalid backtest option: ${err instanceof Error ? err.message : 'bad value'}` },
+        { status: 400 }
+      );
+    }
+    for (const key of Object.keys(options) as (keyof BacktestOptions)[]) {
+      if (options[key] === undefined) delete options[key];
+    }
+
+    if (ruleSet === undefined) {
+      return NextResponse.json(await runChurnBacktest(projectId, undefined, options));
+    }
+
+    const parsed = churnRuleSetSchema.safeParse(ruleSet);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid rule set: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await runChurnBacktest(projectId, parsed.data, options));
+  } catch (error) {
+    console.error('[ChurnScores Backtest API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run backtest' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectPermission } from '@/lib/auth';
+import { getScoreMovers } from '@/lib/churn-scoring/trajectory';
+
+/**
+ * GET /api/churn-scores/movers
+ *
+ * Newly critical users and biggest score changes between a scored day and
+ * the scored day before it. Params:
+ *   projectId (required), date (default latest), limit (default 10, max 50)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const projectId = searchParams.get('projectId');
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const date = searchParams.get('date');
+    const limit = Math.min(Number(searchParams.get('limit') || 10), 50);
+
+    const movers = await getScoreMovers(projectId, date ? new Date(date) : undefined, limit);
+    return NextResponse.json(movers);
+  } catch (error) {
+    console.error('[ChurnScores API] movers error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch churn movers' },
+      { status: 500 }
+    );
+  }
+}
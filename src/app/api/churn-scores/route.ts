@@ -1,13 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireProjectPermission } from '@/lib/auth';
 import { runDailyChurnScoring } from '@/lib/churn-scoring/scorer';
+import { resolveChurnModel, describeChurnModel } from '@/lib/churn-scoring/churn-model';
+import { explainChurnScore, getSegmentBaselines, SegmentBaselines } from '@/lib/churn-scoring/explanations';
+import { Segment } from '@/lib/churn-scoring/types';
+
+export const maxDuration = 60;
 
 /**
  * GET /api/churn-scores
  *
  * List churn scores. Params:
  *   projectId (required), date, riskLevel, segment, limit, offset
+ * Each score carries `explanations` comparing the user to their segment's
+ * median on the same day.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -18,9 +25,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
-    const result = await getProjectWithAccess(projectId);
-    if (!result) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
     }
 
     const date = searchParams.get('date');
@@ -65,7 +72,28 @@ export async function GET(request: NextRequest) {
       riskCountsMap[row.riskLevel] = row._count.riskLevel;
     }
 
-    return NextResponse.json({ scores, total, limit, offset, riskCounts: riskCountsMap });
+    // Metric labels follow the project's churn model vocabulary
+    const modelLabels = describeChurnModel(resolveChurnModel(result.project.churnModel));
+
+    // One baseline lookup per scored day on this page
+    const baselinesByDate = new Map<string, SegmentBaselines>();
+    for (const score of scores) {
+      const key = score.date.toISOString();
+      if (!baselinesByDate.has(key)) {
+        baselinesByDate.set(key, await getSegmentBaselines(projectId, score.date));
+      }
+    }
+
+    const explained = scores.map((score) => ({
+      ...score,
+      explanations: explainChurnScore(
+        score,
+        baselinesByDate.get(score.date.toISOString())?.[score.segment as Segment],
+        modelLabels
+      ),
+    }));
+
+    return NextResponse.json({ scores: explained, total, limit, offset, riskCounts: riskCountsMap, modelLabels });
   } catch (error: any) {
     console.error('[ChurnScores API] GET error:', error);
     return NextResponse.json(
@@ -79,6 +107,8 @@ export async function GET(request: NextRequest) {
  * POST /api/churn-scores
  *
  * Manual trigger. Body: { projectId }
+ * Continues today's run if it is unfinished, otherwise re-scores today.
+ * Returns after one time-budgeted step; the cron finishes large runs.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -89,12 +119,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
-    const result = await getProjectWithAccess(projectId);
-    if (!result) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const result = await requireProjectPermission(projectId, 'project:write');
+    if (!result.ok) {
+      return result.response;
     }
 
-    const summary = await runDailyChurnScoring(projectId);
+    const summary = await runDailyChurnScoring(projectId, { restart: true });
     return NextResponse.json(summary);
   } catch (error: any) {
     console.error('[ChurnScores API] POST error:', error);
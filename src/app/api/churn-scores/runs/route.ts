@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
+
+/**
+ * GET /api/churn-scores/runs?projectId=&limit=
+ *
+ * Recent checkpointed scoring runs, newest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const projectId = searchParams.get('projectId');
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const limit = Math.min(Number(searchParams.get('limit') || 7), 30);
+
+    const runs = await prisma.churnScoringRun.findMany({
+      where: { projectId },
+      orderBy: { date: 'desc' },
+      take: limit,
+    });
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('[ChurnScores API] runs error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch scoring runs' },
+      { status: 500 }
+    );
+  }
+}
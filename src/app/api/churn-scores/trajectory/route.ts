@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectPermission } from '@/lib/auth';
+import { getUserTrajectory, TRAJECTORY_WINDOWS, TrajectoryWindow } from '@/lib/churn-scoring/trajectory';
+
+/**
+ * GET /api/churn-scores/trajectory
+ *
+ * One user's riskScore and sub-scores over time. Params:
+ *   projectId (required), distinctId (required), days (30 | 60 | 90, default 30)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const projectId = searchParams.get('projectId');
+    const distinctId = searchParams.get('distinctId');
+
+    if (!projectId || !distinctId) {
+      return NextResponse.json({ error: 'projectId and distinctId are required' }, { status: 400 });
+    }
+
+    const days = Number(searchParams.get('days') || 30) as TrajectoryWindow;
+    if (!TRAJECTORY_WINDOWS.includes(days)) {
+      return NextResponse.json({ error: 'days must be 30, 60 or 90' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const points = await getUserTrajectory(projectId, distinctId, days);
+    return NextResponse.json({ distinctId, days, points });
+  } catch (error) {
+    console.error('[ChurnScores API] trajectory error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch churn trajectory' },
+      { status: 500 }
+    );
+  }
+}
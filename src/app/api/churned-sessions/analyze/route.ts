@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { after } from 'next/server';
 import { analyzePendingSessions, runSynthesis } from '@/lib/churned-batch-processor';
+import { requireProjectPermission } from '@/lib/auth';
 
 /**
  * POST /api/churned-sessions/analyze
@@ -16,6 +17,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
+    const access = await requireProjectPermission(projectId, 'project:write');
+    if (!access.ok) {
+      return access.response;
+    }
+
     after(async () => {
       const BATCH_SIZE = 10;
       const TIME_LIMIT_MS = 50_000;
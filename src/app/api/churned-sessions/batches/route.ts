@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -10,6 +11,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const batches = await prisma.churnedSessionBatch.findMany({
       where: { projectId },
       orderBy: { createdAt: 'desc' },
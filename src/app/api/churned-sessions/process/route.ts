@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { after } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
 import {
   processNextEmails,
   analyzePendingSessions,
@@ -40,6 +41,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(batch, 'project:write', 'Batch not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     if (!batch.project.posthogKey || !batch.project.posthogProjId) {
       return NextResponse.json(
         { error: 'PostHog API key or Project ID not configured' },
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,6 +14,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const skip = (page - 1) * limit;
 
     // Build where clause
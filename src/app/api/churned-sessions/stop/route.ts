@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
 
 /**
  * POST /api/churned-sessions/stop
@@ -19,13 +20,18 @@ export async function POST(request: NextRequest) {
 
     const batch = await prisma.churnedSessionBatch.findUnique({
       where: { id: batchId },
-      select: { id: true, status: true },
+      select: { id: true, projectId: true, status: true },
     });
 
     if (!batch) {
       return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(batch, 'project:write', 'Batch not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     if (batch.status === 'completed') {
       return NextResponse.json({ error: 'Batch is already completed' }, { status: 400 });
     }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 import { generateObject } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
@@ -41,6 +42,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
+    const access = await requireProjectPermission(projectId, 'project:write');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const completedSessions = await prisma.session.findMany({
       where: { projectId, source: 'churned', analysisStatus: 'completed' },
       select: { id: true, name: true, analysis: true, metadata: true },
@@ -220,6 +226,11 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
   }
 
+  const access = await requireProjectPermission(projectId, 'project:read');
+  if (!access.ok) {
+    return access.response;
+  }
+
   // Count analyzed churned sessions
   const count = await prisma.session.count({
     where: { projectId, source: 'churned', analysisStatus: 'completed' },
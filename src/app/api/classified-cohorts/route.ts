@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createPostHogClient, ClassifiedUser, InterviewCohortType, FunnelCorrelation } from '@/lib/posthog';
+import { ClassifiedUser, InterviewCohortType, FunnelCorrelation } from '@/lib/posthog';
+import { createProjectClient } from '@/lib/posthog-factory';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 
 // Top correlations across all analyzed funnels
 interface FunnelCorrelationSummary {
@@ -24,6 +26,11 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
   }
 
+  const access = await requireProjectPermission(projectId, 'project:read');
+  if (!access.ok) {
+    return access.response;
+  }
+
   try {
     // Get project PostHog config
     const project = await prisma.project.findUnique({
@@ -34,11 +41,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'PostHog not configured for this project' }, { status: 400 });
     }
 
-    const posthog = createPostHogClient({
-      apiKey: project.posthogKey,
-      projectId: project.posthogProjId,
-      host: project.posthogHost || 'https://us.posthog.com',
-    });
+    const posthog = createProjectClient(project);
 
     let classifiedUsers: ClassifiedUser[] = [];
     const funnelCorrelations: FunnelCorrelationSummary[] = [];
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { createPostHogClient } from '@/lib/posthog';
+import { createProjectClient } from '@/lib/posthog-factory';
 import {
   analyzeCohortBehavior,
   storeCohortAnalysis,
   getCohortAnalyses,
 } from '@/lib/cohort-analysis';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireProjectPermission, requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
 
 /**
  * GET /api/cohorts - List cohorts
@@ -26,9 +27,9 @@ export async function GET(request: NextRequest) {
     }
 
     // Verify user has access to this project
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:read');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
     // Get specific cohort with analyses and hypotheses
@@ -130,9 +131,9 @@ export async function POST(request: NextRequest) {
       }
 
       // Verify user has access to this project
-      const projectAccess = await getProjectWithAccess(projectId);
-      if (!projectAccess) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      const projectAccess = await requireProjectPermission(projectId, 'project:write');
+      if (!projectAccess.ok) {
+        return projectAccess.response;
       }
 
       // Determine criteria to store
@@ -188,6 +189,11 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      const access = await requireRecordPermission(cohort, 'project:write', 'Cohort not found');
+      if (!access.ok) {
+        return access.response;
+      }
+
       if (!cohort.project.posthogKey || !cohort.project.posthogProjId || !cohort.project.posthogHost) {
         return NextResponse.json(
           { error: 'Project PostHog configuration is incomplete' },
@@ -196,11 +202,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Create PostHog client
-      const posthogClient = createPostHogClient({
-        apiKey: cohort.project.posthogKey,
-        projectId: cohort.project.posthogProjId,
-        host: cohort.project.posthogHost,
-      });
+      const posthogClient = createProjectClient(cohort.project);
 
       // Run analysis
       const { metrics, insights } = await analyzeCohortBehavior(
@@ -255,10 +257,23 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    const existing = await prisma.cohort.findUnique({ where: { id: cohortId }, select: { projectId: true } });
+    const access = await requireRecordPermission(existing, 'data:delete', 'Cohort not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const cohort = await prisma.cohort.update({
       where: { id: cohortId },
       data: { status: 'archived' },
     });
+    await auditProjectAction(request, access, {
+      action: 'data.deleted',
+      targetType: 'cohort',
+      targetId: cohortId,
+      targetLabel: cohort.name,
+      metadata: { archived: true },
+    });
 
     return NextResponse.json({ cohort });
   } catch (error: any) {
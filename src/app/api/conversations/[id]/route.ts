@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireRecordPermission } from '@/lib/auth';
 import { getJunoConversationById } from '@/lib/hardcoded-conversations-juno';
 
 export async function GET(
@@ -18,18 +18,15 @@ export async function GET(
       });
     }
 
-    const conversation = await prisma.conversation.findUnique({
-      where: { id },
-    });
-
-    if (!conversation) {
-      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
-    }
-
-    const projectAccess = await getProjectWithAccess(conversation.projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const access = await requireRecordPermission(
+      await prisma.conversation.findUnique({ where: { id } }),
+      'project:read',
+      'Conversation not found'
+    );
+    if (!access.ok) {
+      return access.response;
     }
+    const conversation = access.record;
 
     return NextResponse.json({
       conversation: {
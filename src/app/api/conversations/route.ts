@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireProjectPermission } from '@/lib/auth';
 import { junoHardcodedConversations } from '@/lib/hardcoded-conversations-juno';
 
 export async function GET(request: NextRequest) {
@@ -22,9 +22,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ conversations });
     }
 
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:read');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
     const where: Record<string, string> = { projectId };
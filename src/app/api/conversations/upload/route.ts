@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireProjectPermission } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,9 +15,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'transcript is required' }, { status: 400 });
     }
 
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:write');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
     // transcript can be a JSON array or plain text string
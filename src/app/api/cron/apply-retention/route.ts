@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { applyRetentionPolicies } from '@/lib/privacy';
+
+export const maxDuration = 60;
+
+const CRON_BUDGET_MS = 50_000;
+
+/**
+ * GET /api/cron/apply-retention
+ *
+ * Runs daily via Vercel Cron. Applies each project's retention policy:
+ * clears or deletes session replays, replay chunks, conversation
+ * transcripts, churned/uploaded users and churn scores older than the
+ * project's windows. Replay chunks default to 35 days.
+ */
+export async function GET() {
+  try {
+    const { projects, affected } = await applyRetentionPolicies(Date.now() + CRON_BUDGET_MS);
+
+    console.log(`[Cron] Applied retention to ${projects} projects:`, affected);
+    return NextResponse.json({ projects, affected });
+  } catch (error) {
+    console.error('[Cron] apply-retention error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,37 +1,75 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { runDailyChurnScoring } from '@/lib/churn-scoring/scorer';
+import { MAX_RUN_ATTEMPTS, runDailyChurnScoring, STALE_RUN_MS } from '@/lib/churn-scoring/scorer';
+import { HAS_METRICS_SOURCE_WHERE } from '@/lib/churn-scoring/metrics-source';
 
 export const maxDuration = 60;
 
+const CRON_BUDGET_MS = 50_000;
+const MIN_STEP_MS = 10_000; // Don't start a project with less time than this left
+const START_HOUR_UTC = 4;   // New daily runs start from 4 AM UTC; continuations run any time
+
 /**
  * GET /api/cron/compute-churn-scores
  *
- * Daily cron job (4 AM UTC) that computes churn risk scores
- * for all users across all projects with PostHog configured.
+ * Runs every 10 minutes via Vercel Cron. From 4 AM UTC it starts, and then
+ * continues, today's checkpointed scoring run for every project with
+ * PostHog, Mixpanel or Amplitude configured. Large projects are scored across several
+ * invocations; projects whose run is complete, actively processing, or
+ * failed too often are skipped.
  */
 export async function GET() {
+  const deadline = Date.now() + CRON_BUDGET_MS;
+
   try {
-    // Find all projects with PostHog configured
+    // Find all projects with an analytics source configured
     const projects = await prisma.project.findMany({
-      where: {
-        posthogKey: { not: null },
-        posthogProjId: { not: null },
-      },
+      where: HAS_METRICS_SOURCE_WHERE,
       select: { id: true, name: true },
     });
 
     if (projects.length === 0) {
-      return NextResponse.json({ message: 'No projects with PostHog configured' });
+      return NextResponse.json({ message: 'No projects with an analytics source configured' });
+    }
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const staleThreshold = new Date(Date.now() - STALE_RUN_MS);
+
+    const runs = await prisma.churnScoringRun.findMany({
+      where: { date: today, projectId: { in: projects.map((p) => p.id) } },
+      select: { projectId: true, status: true, attempts: true, lastProcessedAt: true },
+    });
+    const runByProject = new Map(runs.map((r) => [r.projectId, r]));
+
+    const canStart = new Date().getUTCHours() >= START_HOUR_UTC;
+
+    const pending = projects.filter((project) => {
+      const run = runByProject.get(project.id);
+      if (!run) return canStart;
+      if (run.status === 'completed') return false;
+      if (run.status === 'failed') return run.attempts < MAX_RUN_ATTEMPTS;
+      if (run.status === 'processing') return !run.lastProcessedAt || run.lastProcessedAt < staleThreshold;
+      return true;
+    });
+
+    if (pending.length === 0) {
+      return NextResponse.json({ message: 'No churn scoring runs to start or continue' });
     }
 
-    console.log(`[Cron] Computing churn scores for ${projects.length} projects`);
+    console.log(`[Cron] Computing churn scores for ${pending.length} of ${projects.length} projects`);
 
     const results = [];
 
-    for (const project of projects) {
+    for (const project of pending) {
+      const remaining = deadline - Date.now();
+      if (remaining < MIN_STEP_MS) {
+        results.push({ projectId: project.id, name: project.name, action: 'deferred' });
+        continue;
+      }
+
       try {
-        const summary = await runDailyChurnScoring(project.id);
+        const summary = await runDailyChurnScoring(project.id, { timeBudgetMs: remaining - MIN_STEP_MS / 2 });
         results.push({ projectId: project.id, name: project.name, ...summary });
       } catch (err) {
         console.error(`[Cron] Error scoring project ${project.id}:`, err);
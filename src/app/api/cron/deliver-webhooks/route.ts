@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { retryDueDeliveries } from '@/lib/webhooks';
+
+export const maxDuration = 60;
+
+const CRON_BUDGET_MS = 50_000;
+
+/**
+ * GET /api/cron/deliver-webhooks
+ *
+ * Runs every 2 minutes via Vercel Cron. Retries outbound webhook deliveries
+ * whose backoff has elapsed, including first attempts that were started when
+ * the event fired but never finished.
+ */
+export async function GET() {
+  try {
+    const result = await retryDueDeliveries(Date.now() + CRON_BUDGET_MS);
+
+    if (result.due === 0) {
+      return NextResponse.json({ message: 'No deliveries due' });
+    }
+
+    console.log(`[Cron] Retried ${result.due - result.deferred} webhook deliveries, ${result.succeeded} succeeded`);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[Cron] deliver-webhooks error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
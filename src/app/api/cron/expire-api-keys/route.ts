@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { expireRotatedApiKeys } from '@/lib/project-api-key';
+
+export const maxDuration = 60;
+
+const CRON_BUDGET_MS = 50_000;
+
+/**
+ * GET /api/cron/expire-api-keys
+ *
+ * Runs hourly via Vercel Cron. Removes rotated SDK keys from the SDK
+ * database once their grace period is over.
+ */
+export async function GET() {
+  try {
+    const expired = await expireRotatedApiKeys(Date.now() + CRON_BUDGET_MS);
+
+    if (expired === 0) {
+      return NextResponse.json({ message: 'No rotated keys to expire' });
+    }
+
+    console.log(`[Cron] Expired ${expired} rotated API keys`);
+    return NextResponse.json({ expired });
+  } catch (error) {
+    console.error('[Cron] expire-api-keys error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
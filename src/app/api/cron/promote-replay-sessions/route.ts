@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { promoteReplaySessions } from '@/lib/replay-promotion';
+
+export const maxDuration = 60;
+
+const CRON_BUDGET_MS = 50_000;
+
+/**
+ * GET /api/cron/promote-replay-sessions
+ *
+ * Runs every 5 minutes via Vercel Cron. Turns tranzmit-recorder.js sessions
+ * that have had no new chunk for the project's idle window into
+ * `source: 'sdk'` Sessions and deletes their chunks. Projects with
+ * auto-analysis on also get their pending promoted sessions analyzed.
+ */
+export async function GET() {
+  try {
+    const { projects, totals } = await promoteReplaySessions(Date.now() + CRON_BUDGET_MS);
+
+    console.log(`[Cron] Promoted replay sessions for ${projects} projects:`, totals);
+    return NextResponse.json({ projects, totals });
+  } catch (error) {
+    console.error('[Cron] promote-replay-sessions error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { retryFailedChurnAlerts } from '@/lib/churn-scoring/alerts';
+
+export const maxDuration = 60;
+
+const CRON_BUDGET_MS = 50_000;
+
+/**
+ * GET /api/cron/retry-churn-alerts
+ *
+ * Runs every 10 minutes via Vercel Cron. Re-sends churn alerts whose
+ * webhook or email delivery failed, once their backoff has elapsed.
+ */
+export async function GET() {
+  try {
+    const result = await retryFailedChurnAlerts(Date.now() + CRON_BUDGET_MS);
+
+    if (result.due === 0) {
+      return NextResponse.json({ message: 'No churn alerts due' });
+    }
+
+    console.log(`[Cron] Retried ${result.due - result.deferred} churn alerts, ${result.sent} sent`);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[Cron] retry-churn-alerts error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isDigestDue, sendDigestSubscription } from '@/lib/digests';
+
+export const maxDuration = 60;
+
+const CRON_BUDGET_MS = 50_000;
+
+/**
+ * GET /api/cron/send-digests
+ *
+ * Runs hourly via Vercel Cron. Sends every enabled Slack / Teams digest
+ * whose scheduled hour (UTC) has passed since it was last sent.
+ */
+export async function GET(request: NextRequest) {
+  const deadline = Date.now() + CRON_BUDGET_MS;
+
+  try {
+    const now = new Date();
+    const subscriptions = await prisma.digestSubscription.findMany({ where: { enabled: true } });
+    const due = subscriptions.filter((s) => isDigestDue(s, s.lastSentAt, s.createdAt, now));
+
+    if (due.length === 0) {
+      return NextResponse.json({ message: 'No digests due' });
+    }
+
+    console.log(`[Cron] Sending ${due.length} of ${subscriptions.length} digests`);
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    let sent = 0;
+    let failed = 0;
+    let deferred = 0;
+
+    for (const subscription of due) {
+      if (Date.now() > deadline) {
+        deferred++;
+        continue;
+      }
+
+      try {
+        await sendDigestSubscription(subscription, appUrl, { now });
+        sent++;
+      } catch (err) {
+        console.error(`[Cron] Digest ${subscription.id} failed:`, err);
+        failed++;
+      }
+    }
+
+    return NextResponse.json({ due: due.length, sent, failed, deferred });
+  } catch (error) {
+    console.error('[Cron] send-digests error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyTicketFix, type FixVerification } from '@/lib/fix-verification';
+
+export const maxDuration = 60;
+
+const CRON_BUDGET_MS = 50_000;
+
+/**
+ * GET /api/cron/verify-fixes
+ *
+ * Runs daily via Vercel Cron, after churn scoring. Re-measures every
+ * resolved ticket that is still inside its verification window (or has
+ * never been measured) and applies the verdict once the window closes.
+ */
+export async function GET() {
+  const deadline = Date.now() + CRON_BUDGET_MS;
+
+  try {
+    const resolved = await prisma.ticket.findMany({
+      where: { status: 'resolved', resolvedAt: { not: null } },
+      select: { id: true, verification: true },
+      orderBy: { resolvedAt: 'asc' },
+    });
+
+    const pending = resolved.filter((t) => {
+      const verification = t.verification as unknown as FixVerification | null;
+      return !verification || verification.outcome === 'measuring';
+    });
+
+    if (pending.length === 0) {
+      return NextResponse.json({ message: 'No resolved tickets awaiting verification' });
+    }
+
+    console.log(`[Cron] Verifying fixes for ${pending.length} resolved tickets`);
+
+    const outcomes: Record<string, number> = {};
+    let deferred = 0;
+
+    for (const ticket of pending) {
+      if (Date.now() > deadline) {
+        deferred++;
+        continue;
+      }
+
+      try {
+        const verification = await verifyTicketFix(ticket.id);
+        if (verification) outcomes[verification.outcome] = (outcomes[verification.outcome] || 0) + 1;
+      } catch (err) {
+        console.error(`[Cron] Error verifying ticket ${ticket.id}:`, err);
+        outcomes.error = (outcomes.error || 0) + 1;
+      }
+    }
+
+    return NextResponse.json({ tickets: pending.length, outcomes, deferred });
+  } catch (error) {
+    console.error('[Cron] verify-fixes error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { createPostHogClient, type PostHogConfig } from '@/lib/posthog';
-import { getProjectWithAccess } from '@/lib/auth';
+import { createProjectClient } from '@/lib/posthog-factory';
+import { requireProjectPermission } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -13,9 +13,9 @@ export async function GET(request: NextRequest) {
 
   try {
     // Verify user has access to this project
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:read');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
     const project = projectAccess.project;
@@ -97,12 +97,7 @@ export async function GET(request: NextRequest) {
 
     if (project.posthogKey && project.posthogProjId) {
       try {
-        const config: PostHogConfig = {
-          apiKey: project.posthogKey,
-          projectId: project.posthogProjId,
-          host: project.posthogHost || undefined,
-        };
-        const client = createPostHogClient(config);
+        const client = createProjectClient(project);
 
         // Get funnels
         const insights = await client.getInsights();
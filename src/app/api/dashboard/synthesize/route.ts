@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireProjectPermission } from '@/lib/auth';
 import { generateObject } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
@@ -185,9 +185,9 @@ export async function GET(request: NextRequest) {
 
   try {
     // Verify access for non-Juno projects
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:read');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
     // Fetch all data sources in parallel
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction, auditStoredChanges } from '@/lib/audit-log';
+import {
+  DIGEST_AUDIT_FIELDS,
+  auditedDigestSubscription,
+  digestSubscriptionSchema,
+  toPublicDigestSubscription,
+} from '@/lib/digests';
+import { encryptSecret } from '@/lib/credential-encryption';
+import { outboundUrlError } from '@/lib/outbound-url';
+
+async function findSubscriptionWithAccess(id: string) {
+  const subscription = await prisma.digestSubscription.findUnique({ where: { id } });
+  return requireRecordPermission(subscription, 'settings:manage', 'Digest not found');
+}
+
+/**
+ * PATCH /api/digests/[id]
+ *
+ * Body: any of the POST fields. webhookUrl may be omitted to keep the stored one.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await findSubscriptionWithAccess(id);
+    if (!access.ok) {
+      return access.response;
+    }
+    const existing = access.record;
+
+    const body = await request.json();
+
+    const parsed = digestSubscriptionSchema.safeParse({
+      name: body.name ?? existing.name,
+      channel: body.channel ?? existing.channel,
+      webhookUrl: body.webhookUrl || undefined,
+      enabled: body.enabled ?? existing.enabled,
+      frequency: body.frequency ?? existing.frequency,
+      hourUtc: body.hourUtc ?? existing.hourUtc,
+      dayOfWeek: body.dayOfWeek ?? existing.dayOfWeek,
+      topTickets: body.topTickets ?? existing.topTickets,
+      includeTrending: body.includeTrending ?? existing.includeTrending,
+      includeChurn: body.includeChurn ?? existing.includeChurn,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid digest: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { webhookUrl, ...settings } = parsed.data;
+    if (webhookUrl) {
+      const urlError = await outboundUrlError(webhookUrl);
+      if (urlError) {
+        return NextResponse.json({ error: `Invalid digest: ${urlError}` }, { status: 400 });
+      }
+    }
+
+    // The stored webhook URL is encrypted; compare the plaintext against it for the audit log
+    const changes = auditStoredChanges(
+      existing,
+      { ...settings, ...(webhookUrl ? { webhookUrl } : {}) },
+      DIGEST_AUDIT_FIELDS,
+      ['webhookUrl']
+    );
+    const subscription = await prisma.digestSubscription.update({
+      where: { id },
+      data: { ...settings, ...(webhookUrl ? { webhookUrl: encryptSecret(webhookUrl) } : {}) },
+    });
+    if (changes) {
+      await auditProjectAction(request, access, {
+        action: 'digest.updated',
+        targetType: 'digest_subscription',
+        targetId: id,
+        targetLabel: subscription.name,
+        ...changes,
+      });
+    }
+
+    return NextResponse.json({ subscription: toPublicDigestSubscription(subscription) });
+  } catch (error) {
+    console.error('[Digests API] PATCH error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update digest' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/digests/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await findSubscriptionWithAccess(id);
+    if (!access.ok) {
+      return access.response;
+    }
+
+    await prisma.digestSubscription.delete({ where: { id } });
+    await auditProjectAction(request, access, {
+      action: 'digest.deleted',
+      targetType: 'digest_subscription',
+      targetId: id,
+      targetLabel: access.record.name,
+      before: auditedDigestSubscription(access.record),
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Digests API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete digest' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { sendDigestSubscription } from '@/lib/digests';
+
+/**
+ * POST /api/digests/[id]/send
+ *
+ * Send the digest now as a test. Doesn't move the schedule.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await requireRecordPermission(
+      await prisma.digestSubscription.findUnique({ where: { id } }),
+      'settings:manage',
+      'Digest not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+    const subscription = access.record;
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    try {
+      const digest = await sendDigestSubscription(subscription, appUrl, { scheduled: false });
+      return NextResponse.json({ success: true, digest });
+    } catch (err) {
+      // Delivery failures are the channel's answer, not ours
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : 'Failed to send digest' },
+        { status: 502 }
+      );
+    }
+  } catch (error) {
+    console.error('[Digests API] Send error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send digest' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
+import { auditedDigestSubscription, digestSubscriptionSchema, toPublicDigestSubscription } from '@/lib/digests';
+import { encryptSecret } from '@/lib/credential-encryption';
+import { outboundUrlError } from '@/lib/outbound-url';
+
+/**
+ * GET /api/digests?projectId=...
+ *
+ * Slack / Teams digest subscriptions for a project. Webhook URLs are masked.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const subscriptions = await prisma.digestSubscription.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ subscriptions: subscriptions.map(toPublicDigestSubscription) });
+  } catch (error) {
+    console.error('[Digests API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch digests' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/digests
+ *
+ * Body: { projectId, name, channel, webhookUrl, frequency?, hourUtc?, dayOfWeek?,
+ *         topTickets?, includeTrending?, includeChurn?, enabled? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, ...input } = await request.json();
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'settings:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const parsed = digestSubscriptionSchema.safeParse(input);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid digest: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { webhookUrl, ...settings } = parsed.data;
+    if (!webhookUrl) {
+      return NextResponse.json({ error: 'webhookUrl is required' }, { status: 400 });
+    }
+    const urlError = await outboundUrlError(webhookUrl);
+    if (urlError) {
+      return NextResponse.json({ error: `Invalid digest: ${urlError}` }, { status: 400 });
+    }
+
+    const subscription = await prisma.digestSubscription.create({
+      data: { projectId, webhookUrl: encryptSecret(webhookUrl), ...settings },
+    });
+    await auditProjectAction(request, result, {
+      action: 'digest.created',
+      targetType: 'digest_subscription',
+      targetId: subscription.id,
+      targetLabel: subscription.name,
+      after: auditedDigestSubscription(subscription),
+    });
+
+    return NextResponse.json({ subscription: toPublicDigestSubscription(subscription) });
+  } catch (error) {
+    console.error('[Digests API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create digest' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Resend } from 'resend';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission, requireRecordPermission } from '@/lib/auth';
 
 // Resend client will be initialized lazily when needed
 let resend: Resend | null = null;
@@ -31,6 +32,15 @@ export async function GET(request: NextRequest) {
 
     // Get individual message details
     if (messageId) {
+      const recipient = await prisma.uploadedUser.findFirst({
+        where: { messageId },
+        select: { projectId: true },
+      });
+      const access = await requireRecordPermission(recipient, 'project:read', 'Message not found');
+      if (!access.ok) {
+        return access.response;
+      }
+
       try {
         const emailDetails = await getResendClient().emails.get(messageId);
         return NextResponse.json({ message: emailDetails.data });
@@ -45,6 +55,11 @@ export async function GET(request: NextRequest) {
 
     // Get aggregate stats for a project
     if (projectId) {
+      const access = await requireProjectPermission(projectId, 'project:read');
+      if (!access.ok) {
+        return access.response;
+      }
+
       // Get all invited users for this project (both with and without messageIds)
       const allInvitedUsers = await prisma.uploadedUser.findMany({
         where: {
@@ -194,7 +209,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { messageIds } = body;
+    const { projectId, messageIds } = body;
 
     if (!process.env.RESEND_API_KEY) {
       return NextResponse.json(
@@ -203,12 +218,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!messageIds || !Array.isArray(messageIds) || messageIds.length === 0) {
-      return NextResponse.json({ error: 'Message IDs required' }, { status: 400 });
+    if (!projectId || !messageIds || !Array.isArray(messageIds) || messageIds.length === 0) {
+      return NextResponse.json({ error: 'Project ID and message IDs required' }, { status: 400 });
+    }
+
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+      return access.response;
     }
 
+    // Only refresh messages sent from this project
+    const sent = await prisma.uploadedUser.findMany({
+      where: { projectId, messageId: { in: messageIds } },
+      select: { messageId: true },
+    });
+    const ownedIds = sent.map((u) => u.messageId).filter((id): id is string => !!id);
+
     const results = await Promise.all(
-      messageIds.map(async (messageId: string) => {
+      ownedIds.map(async (messageId) => {
         try {
           const emailResult = await getResendClient().emails.get(messageId);
           return { messageId, success: true, details: emailResult.data };
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
 import {
   getCohortHypotheses,
   updateHypothesisStatus,
@@ -30,6 +32,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const access = await requireRecordPermission(
+      await prisma.cohort.findUnique({ where: { id: cohortId }, select: { projectId: true } }),
+      'project:read',
+      'Cohort not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     const hypotheses = await getCohortHypotheses(cohortId, {
       status: status || undefined,
     });
@@ -87,6 +98,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const access = await requireRecordPermission(
+      await prisma.cohort.findUnique({ where: { id: cohortId }, select: { projectId: true } }),
+      'project:write',
+      'Cohort not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     // If regenerate, delete existing hypotheses first
     if (regenerate) {
       await prisma.interviewQuestion.deleteMany({
@@ -464,6 +484,15 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    const hypothesis = await prisma.hypothesis.findUnique({
+      where: { id: hypothesisId },
+      select: { cohort: { select: { projectId: true } } },
+    });
+    const access = await requireRecordPermission(hypothesis?.cohort ?? null, 'project:write', 'Hypothesis not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     await updateHypothesisStatus(hypothesisId, status, validationNotes);
 
     return NextResponse.json({ success: true });
@@ -493,6 +522,15 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    const hypothesis = await prisma.hypothesis.findUnique({
+      where: { id: hypothesisId },
+      select: { title: true, cohortId: true, cohort: { select: { projectId: true } } },
+    });
+    const access = await requireRecordPermission(hypothesis?.cohort ?? null, 'data:delete', 'Hypothesis not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     // Delete questions first (cascade should handle this, but being explicit)
     await prisma.interviewQuestion.deleteMany({
       where: { hypothesisId },
@@ -501,6 +539,13 @@ export async function DELETE(request: NextRequest) {
     await prisma.hypothesis.delete({
       where: { id: hypothesisId },
     });
+    await auditProjectAction(request, access, {
+      action: 'data.deleted',
+      targetType: 'hypothesis',
+      targetId: hypothesisId,
+      targetLabel: hypothesis?.title,
+      metadata: { cohortId: hypothesis?.cohortId },
+    });
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
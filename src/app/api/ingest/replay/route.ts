@@ -1,15 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getProjectFromRequest } from '@/lib/auth';
+import { stitchReplayIdentity } from '@/lib/replay-assembler';
+import { MAX_BODY_SIZE, compressChunkEvents, decodeEvents, decodeReplayBody } from '@/lib/replay-encoding';
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, x-tranzmit-api-key',
+  'Access-Control-Allow-Headers': 'Content-Type, Content-Encoding, x-tranzmit-api-key',
   'Access-Control-Max-Age': '86400',
 };
 
-const MAX_BODY_SIZE = 500 * 1024; // 500KB
 const MAX_CHUNKS_PER_SESSION = 200;
 
 export async function OPTIONS() {
@@ -18,7 +19,7 @@ export async function OPTIONS() {
 
 export async function POST(request: NextRequest) {
   try {
-    // Check body size
+    // Check body size (the compressed size, for gzip/deflate bodies)
     const contentLength = request.headers.get('content-length');
     if (contentLength && parseInt(contentLength) > MAX_BODY_SIZE) {
       return NextResponse.json(
@@ -37,8 +38,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const body = await request.json();
-    const { sessionId, distinctId, chunkIndex, events } = body;
+    // sendBeacon posts as text/plain and can't set Content-Encoding, so the
+    // body is parsed regardless of content type and compression is sniffed
+    const decoded = decodeReplayBody(
+      Buffer.from(await request.arrayBuffer()),
+      request.headers.get('content-encoding')
+    );
+    if (!decoded.ok) {
+      return NextResponse.json(
+        { error: decoded.error },
+        { status: decoded.status, headers: CORS_HEADERS }
+      );
+    }
+
+    const { sessionId, distinctId, chunkIndex, events: rawEvents, previousDistinctId } =
+      (decoded.body ?? {}) as Record<string, unknown>;
+    const decodedEvents = decodeEvents(Array.isArray(rawEvents) ? rawEvents : []);
+    if (!decodedEvents.ok) {
+      return NextResponse.json(
+        { error: decodedEvents.error },
+        { status: decodedEvents.status, headers: CORS_HEADERS }
+      );
+    }
+    const { events } = decodedEvents;
 
     // Validate required fields
     if (!sessionId || typeof sessionId !== 'string') {
@@ -55,13 +77,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!Array.isArray(events) || events.length === 0) {
+    if (events.length === 0) {
       return NextResponse.json(
         { error: 'events is required and must be a non-empty array' },
         { status: 400, headers: CORS_HEADERS }
       );
     }
 
+    if (distinctId != null && typeof distinctId !== 'string') {
+      return NextResponse.json(
+        { error: 'distinctId must be a string' },
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
+
+    if (previousDistinctId != null && typeof previousDistinctId !== 'string') {
+      return NextResponse.json(
+        { error: 'previousDistinctId must be a string' },
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
+
     // Check chunk limit per session
     if (chunkIndex >= MAX_CHUNKS_PER_SESSION) {
       return NextResponse.json(
@@ -80,7 +116,8 @@ export async function POST(request: NextRequest) {
         },
       },
       update: {
-        events: JSON.stringify(events),
+        events: null,
+        payload: compressChunkEvents(events),
         distinctId: distinctId || null,
       },
       create: {
@@ -88,10 +125,17 @@ export async function POST(request: NextRequest) {
         sessionId,
         distinctId: distinctId || null,
         chunkIndex,
-        events: JSON.stringify(events),
+        payload: compressChunkEvents(events),
       },
     });
 
+    // The recorder sends previousDistinctId (null when the session started
+    // anonymously) on the first chunk after identify() — earlier chunks
+    // follow the new identity
+    if (distinctId && previousDistinctId !== undefined && previousDistinctId !== distinctId) {
+      await stitchReplayIdentity(project.id, sessionId, distinctId, previousDistinctId);
+    }
+
     return NextResponse.json(
       { ok: true },
       { status: 200, headers: CORS_HEADERS }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission, requireRecordPermission } from '@/lib/auth';
 
 /**
  * POST /api/interviews/insights - Create insight for interview
@@ -25,6 +26,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const access = await requireRecordPermission(
+      await prisma.interview.findUnique({ where: { id: interviewId }, select: { projectId: true } }),
+      'project:write',
+      'Interview not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     const insight = await prisma.interviewInsight.create({
       data: {
         interviewId,
@@ -64,6 +74,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const where: any = { interview: { projectId } };
     if (cohortId) where.interview = { ...where.interview, cohortId };
 
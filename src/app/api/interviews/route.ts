@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission, requireRecordPermission } from '@/lib/auth';
 
 /**
  * GET /api/interviews - List interviews
@@ -21,6 +22,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+      return access.response;
+    }
+
     // Get specific interview
     if (interviewId) {
       const interview = await prisma.interview.findUnique({
@@ -111,6 +117,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const access = await requireProjectPermission(projectId, 'project:write');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const interview = await prisma.interview.create({
       data: {
         projectId,
@@ -151,6 +162,15 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    const access = await requireRecordPermission(
+      await prisma.interview.findUnique({ where: { id: interviewId }, select: { projectId: true } }),
+      'project:write',
+      'Interview not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     const updateData: any = { updatedAt: new Date() };
 
     if (status) updateData.status = status;
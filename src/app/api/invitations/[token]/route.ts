@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import {
+  acceptInvitation,
+  findInvitationByToken,
+  invitationError,
+  toPublicInvitation,
+} from '@/lib/organization-invitations';
+
+/**
+ * GET /api/invitations/[token]
+ *
+ * What the invitation link is for, shown before the user accepts. `error`
+ * explains why it can't be accepted (expired, or sent to another address).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { token } = await params;
+    const invitation = await findInvitationByToken(token);
+    if (!invitation) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      invitation: toPublicInvitation(invitation),
+      organization: invitation.organization,
+      signedInAs: user.email,
+      error: invitationError(invitation, user.email)?.error ?? null,
+    });
+  } catch (error) {
+    console.error('[Invitations API] Lookup error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/invitations/[token]
+ *
+ * Accept the invitation as the signed-in user. Returns the organization's
+ * projects so the client can pick one to open.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { token } = await params;
+    const invitation = await findInvitationByToken(token);
+    const rejected = invitationError(invitation, user.email);
+    if (rejected || !invitation) {
+      return NextResponse.json({ error: rejected?.error }, { status: rejected?.status ?? 404 });
+    }
+
+    const membership = await acceptInvitation(invitation, user.id);
+    const projects = await prisma.project.findMany({
+      where: { organizationId: invitation.organizationId },
+      select: { id: true, name: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      organization: invitation.organization,
+      role: membership.role,
+      projects,
+    });
+  } catch (error) {
+    console.error('[Invitations API] Accept error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to accept invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireOrganizationPermission } from '@/lib/auth';
+import {
+  AUDIT_EXPORT_LIMIT,
+  auditLogCsv,
+  auditLogWhere,
+  parseAuditLogFilters,
+  recordAuditEvent,
+  toPublicAuditLog,
+  userActor,
+} from '@/lib/audit-log';
+
+/**
+ * GET /api/organizations/[id]/audit-log/export?format=csv|json&<filters>
+ *
+ * Download the entries matching the same filters as the list endpoint,
+ * newest first, up to 10,000 rows. The export itself is audited.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireOrganizationPermission(id, 'audit:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ error: 'format must be csv or json' }, { status: 400 });
+    }
+    const filters = parseAuditLogFilters(request.nextUrl.searchParams);
+    if (!filters.success) {
+      return NextResponse.json(
+        { error: `Invalid filter: ${filters.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const entries = await prisma.auditLog.findMany({
+      where: auditLogWhere(id, filters.data),
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: AUDIT_EXPORT_LIMIT,
+    });
+
+    await recordAuditEvent(request, {
+      organizationId: id,
+      actor: userActor(result.user),
+      action: 'audit_log.exported',
+      targetType: 'organization',
+      targetId: id,
+      targetLabel: result.organization.name,
+      metadata: { format, rows: entries.length, filters: request.nextUrl.searchParams.toString() || null },
+    });
+
+    const filename = `audit-log-${result.organization.slug}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const body = format === 'csv'
+      ? auditLogCsv(entries)
+      : JSON.stringify({ organizationId: id, exportedAt: new Date(), entries: entries.map(toPublicAuditLog) }, null, 2);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        ...(entries.length === AUDIT_EXPORT_LIMIT ? { 'X-Audit-Export-Truncated': 'true' } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('[Audit Log API] Export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export audit log' },
+      { status: 500 }
+    );
+  }
+}
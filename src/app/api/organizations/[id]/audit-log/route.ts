@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireOrganizationPermission } from '@/lib/auth';
+import { AUDIT_PAGE_SIZE, auditLogWhere, parseAuditLogFilters, toPublicAuditLog } from '@/lib/audit-log';
+
+/**
+ * GET /api/organizations/[id]/audit-log?action=&projectId=&actorId=&from=&to=&cursor=
+ *
+ * Audit entries newest first, 50 per page. Pass the previous page's
+ * nextCursor to continue.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireOrganizationPermission(id, 'audit:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const filters = parseAuditLogFilters(request.nextUrl.searchParams);
+    if (!filters.success) {
+      return NextResponse.json(
+        { error: `Invalid filter: ${filters.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+    const cursor = request.nextUrl.searchParams.get('cursor');
+
+    const [rows, projects] = await Promise.all([
+      prisma.auditLog.findMany({
+        where: auditLogWhere(id, filters.data),
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: AUDIT_PAGE_SIZE + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      }),
+      prisma.project.findMany({
+        where: { organizationId: id },
+        select: { id: true, name: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const entries = rows.slice(0, AUDIT_PAGE_SIZE);
+    return NextResponse.json({
+      entries: entries.map(toPublicAuditLog),
+      nextCursor: rows.length > AUDIT_PAGE_SIZE ? entries[entries.length - 1].id : null,
+      projects,
+    });
+  } catch (error) {
+    console.error('[Audit Log API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
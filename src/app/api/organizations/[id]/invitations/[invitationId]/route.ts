@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireOrganizationPermission } from '@/lib/auth';
+import { resendInvitation, toPublicInvitation } from '@/lib/organization-invitations';
+
+async function findOpenInvitation(organizationId: string, invitationId: string) {
+  const invitation = await prisma.organizationInvitation.findUnique({ where: { id: invitationId } });
+  if (!invitation || invitation.organizationId !== organizationId) return null;
+  return invitation.acceptedAt || invitation.revokedAt ? null : invitation;
+}
+
+/**
+ * POST /api/organizations/[id]/invitations/[invitationId]
+ *
+ * Resend: issues a new link with a fresh expiry. The previous link stops
+ * working.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const { id, invitationId } = await params;
+
+    const result = await requireOrganizationPermission(id, 'members:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const invitation = await findOpenInvitation(id, invitationId);
+    if (!invitation) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    const issued = await resendInvitation(
+      invitation,
+      result.organization.name,
+      result.user,
+      process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin
+    );
+
+    return NextResponse.json({
+      invitation: toPublicInvitation(issued.invitation),
+      emailSent: issued.emailSent,
+      emailError: issued.emailError,
+      inviteUrl: issued.emailSent ? null : issued.url,
+    });
+  } catch (error) {
+    console.error('[Invitations API] Resend error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resend invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/organizations/[id]/invitations/[invitationId]
+ *
+ * Revoke an invitation. It is kept (with revokedAt set) rather than deleted.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const { id, invitationId } = await params;
+
+    const result = await requireOrganizationPermission(id, 'members:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const invitation = await findOpenInvitation(id, invitationId);
+    if (!invitation) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    await prisma.organizationInvitation.update({
+      where: { id: invitationId },
+      data: { revokedAt: new Date() },
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Invitations API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireOrganizationPermission } from '@/lib/auth';
+import { recordAuditEvent, userActor } from '@/lib/audit-log';
+import { createInvitation, invitationSchema, toPublicInvitation } from '@/lib/organization-invitations';
+
+/**
+ * GET /api/organizations/[id]/invitations
+ *
+ * Invitations that haven't been accepted or revoked, newest first. Expired
+ * ones are included so they can be resent.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireOrganizationPermission(id, 'members:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const invitations = await prisma.organizationInvitation.findMany({
+      where: { organizationId: id, acceptedAt: null, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+      include: { invitedBy: { select: { firstName: true, lastName: true, email: true } } },
+    });
+
+    return NextResponse.json({ invitations: invitations.map((i) => toPublicInvitation(i)) });
+  } catch (error) {
+    console.error('[Invitations API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch invitations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/organizations/[id]/invitations
+ *
+ * Body: { email, role? }. Emails an invitation link through Resend. If the
+ * email can't be sent the invitation still exists and the response carries
+ * the link (`inviteUrl`) so it can be shared another way.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireOrganizationPermission(id, 'members:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const parsed = invitationSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid invitation: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.role === 'admin' && result.role !== 'owner') {
+      return NextResponse.json({ error: 'Only the owner can invite admins' }, { status: 403 });
+    }
+
+    const existingMember = await prisma.organizationMember.findFirst({
+      where: { organizationId: id, user: { email: { equals: parsed.data.email, mode: 'insensitive' } } },
+    });
+    if (existingMember) {
+      return NextResponse.json({ error: `${parsed.data.email} is already a member` }, { status: 409 });
+    }
+
+    const issued = await createInvitation({
+      organization: result.organization,
+      email: parsed.data.email,
+      role: parsed.data.role,
+      invitedBy: result.user,
+      appUrl: process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin,
+    });
+    await recordAuditEvent(request, {
+      organizationId: id,
+      actor: userActor(result.user),
+      action: 'member.invited',
+      targetType: 'invitation',
+      targetId: issued.invitation.id,
+      targetLabel: issued.invitation.email,
+      after: { role: issued.invitation.role },
+      metadata: { emailSent: issued.emailSent },
+    });
+
+    return NextResponse.json(
+      {
+        invitation: toPublicInvitation(issued.invitation),
+        emailSent: issued.emailSent,
+        emailError: issued.emailError,
+        inviteUrl: issued.emailSent ? null : issued.url,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[Invitations API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create invitation' },
+      { status: 500 }
+    );
+  }
+}
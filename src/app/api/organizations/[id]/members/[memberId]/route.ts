@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { forbiddenResponse, requireOrganizationPermission, roleHasPermission } from '@/lib/auth';
+import { memberChangeError, memberRoleSchema } from '@/lib/organization-invitations';
+import { recordAuditEvent, userActor } from '@/lib/audit-log';
+
+async function findMember(organizationId: string, memberId: string) {
+  const member = await prisma.organizationMember.findUnique({
+    where: { id: memberId },
+    include: { user: { select: { email: true } } },
+  });
+  return member?.organizationId === organizationId ? member : null;
+}
+
+/**
+ * PATCH /api/organizations/[id]/members/[memberId]
+ *
+ * Body: { role: 'admin' | 'member' }. Ownership moves only through
+ * /api/organizations/[id]/transfer-ownership.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const { id, memberId } = await params;
+
+    const result = await requireOrganizationPermission(id, 'members:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const member = await findMember(id, memberId);
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    const parsed = memberRoleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'role must be one of: admin, member' }, { status: 400 });
+    }
+
+    const denied = memberChangeError({ userId: result.user.id, role: result.role }, member, 'role');
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 });
+    }
+
+    const updated = await prisma.organizationMember.update({
+      where: { id: memberId },
+      data: { role: parsed.data.role },
+    });
+    if (updated.role !== member.role) {
+      await recordAuditEvent(request, {
+        organizationId: id,
+        actor: userActor(result.user),
+        action: 'member.role_changed',
+        targetType: 'member',
+        targetId: member.userId,
+        targetLabel: member.user.email,
+        before: { role: member.role },
+        after: { role: updated.role },
+      });
+    }
+
+    return NextResponse.json({ member: { id: updated.id, userId: updated.userId, role: updated.role } });
+  } catch (error) {
+    console.error('[Organization Members API] PATCH error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update member' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/organizations/[id]/members/[memberId]
+ *
+ * Remove a member, or leave the organization when memberId is the caller's
+ * own membership. The owner has to transfer ownership first.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const { id, memberId } = await params;
+
+    const result = await requireOrganizationPermission(id, 'organization:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const member = await findMember(id, memberId);
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    // Anyone can leave; removing someone else needs members:manage
+    const leaving = member.userId === result.user.id;
+    if (!leaving && !roleHasPermission(result.role, 'members:manage')) {
+      return forbiddenResponse('members:manage');
+    }
+
+    const denied = memberChangeError({ userId: result.user.id, role: result.role }, member, 'remove');
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 });
+    }
+
+    await prisma.organizationMember.delete({ where: { id: memberId } });
+    await recordAuditEvent(request, {
+      organizationId: id,
+      actor: userActor(result.user),
+      action: 'member.removed',
+      targetType: 'member',
+      targetId: member.userId,
+      targetLabel: member.user.email,
+      before: { role: member.role },
+      metadata: { left: leaving },
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Organization Members API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
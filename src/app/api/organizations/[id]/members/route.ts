@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireOrganizationPermission } from '@/lib/auth';
+
+/**
+ * GET /api/organizations/[id]/members
+ *
+ * Members of the organization, owner first, with the caller's own role so
+ * the UI knows which controls to show.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireOrganizationPermission(id, 'organization:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const members = await prisma.organizationMember.findMany({
+      where: { organizationId: id },
+      orderBy: { createdAt: 'asc' },
+      include: { user: { select: { email: true, firstName: true, lastName: true, imageUrl: true } } },
+    });
+    const rank: Record<string, number> = { owner: 0, admin: 1, member: 2 };
+    members.sort((a, b) => (rank[a.role] ?? 3) - (rank[b.role] ?? 3));
+
+    return NextResponse.json({
+      members: members.map((m) => ({
+        id: m.id,
+        userId: m.userId,
+        role: m.role,
+        email: m.user.email,
+        firstName: m.user.firstName,
+        lastName: m.user.lastName,
+        imageUrl: m.user.imageUrl,
+        joinedAt: m.createdAt,
+      })),
+      viewer: { userId: result.user.id, role: result.role },
+    });
+  } catch (error) {
+    console.error('[Organization Members API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch members' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireOrganizationPermission } from '@/lib/auth';
+import { transferOwnership } from '@/lib/organization-invitations';
+import { recordAuditEvent, userActor } from '@/lib/audit-log';
+
+/**
+ * POST /api/organizations/[id]/transfer-ownership
+ *
+ * Body: { memberId }. The member becomes the owner and the current owner
+ * becomes an admin.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireOrganizationPermission(id, 'organization:transfer');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const { memberId } = await request.json();
+    if (!memberId || typeof memberId !== 'string') {
+      return NextResponse.json({ error: 'memberId is required' }, { status: 400 });
+    }
+
+    const [from, to] = await Promise.all([
+      prisma.organizationMember.findUnique({
+        where: { userId_organizationId: { userId: result.user.id, organizationId: id } },
+      }),
+      prisma.organizationMember.findUnique({ where: { id: memberId }, include: { user: { select: { email: true } } } }),
+    ]);
+    if (!from || !to || to.organizationId !== id) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if (to.id === from.id) {
+      return NextResponse.json({ error: 'You already own this organization' }, { status: 400 });
+    }
+
+    await transferOwnership(from, to);
+    await recordAuditEvent(request, {
+      organizationId: id,
+      actor: userActor(result.user),
+      action: 'organization.ownership_transferred',
+      targetType: 'member',
+      targetId: to.userId,
+      targetLabel: to.user.email,
+      before: { owner: result.user.email },
+      after: { owner: to.user.email },
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Organization Members API] Transfer error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to transfer ownership' },
+      { status: 500 }
+    );
+  }
+}
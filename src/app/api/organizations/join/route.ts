@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { projectApiKeyFields } from '@/lib/project-api-key';
+import { toPublicProject } from '@/lib/credential-encryption';
 
 // Auto-create the juno-demo organization and project if they don't exist
 async function ensureJunoDemoExists() {
@@ -21,7 +23,7 @@ async function ensureJunoDemoExists() {
         create: {
           id: 'juno-demo',
           name: 'Juno Health Companion',
-          apiKey: `demo_${Date.now()}_${Math.random().toString(36).slice(2)}`,
+          ...projectApiKeyFields(`demo_${Date.now()}_${Math.random().toString(36).slice(2)}`),
         },
       },
     },
@@ -41,10 +43,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
     }
 
-    // Auto-create juno-demo if requested
-    if (orgId === 'juno-demo') {
-      await ensureJunoDemoExists();
+    // Real organizations are joined through an emailed invitation
+    // (/api/invitations/[token]); only the public demo can be joined by ID.
+    if (orgId !== 'juno-demo') {
+      return NextResponse.json(
+        { error: 'Organizations can only be joined through an invitation. Ask an admin to invite your email address.' },
+        { status: 403 }
+      );
     }
+    await ensureJunoDemoExists();
 
     // Validate org exists
     const organization = await prisma.organization.findUnique({
@@ -55,6 +62,8 @@ export async function POST(request: NextRequest) {
     if (!organization) {
       return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
     }
+    const { projects: storedProjects, ...organizationFields } = organization;
+    const projects = storedProjects.map((project) => toPublicProject(project));
 
     // Check if user is already a member
     const existingMembership = await prisma.organizationMember.findUnique({
@@ -68,8 +77,8 @@ export async function POST(request: NextRequest) {
 
     if (existingMembership) {
       return NextResponse.json({
-        organization,
-        projects: organization.projects,
+        organization: { ...organizationFields, projects },
+        projects,
         message: 'Already a member',
       });
     }
@@ -84,8 +93,8 @@ export async function POST(request: NextRequest) {
     });
 
     return NextResponse.json({
-      organization,
-      projects: organization.projects,
+      organization: { ...organizationFields, projects },
+      projects,
     });
   } catch (error) {
     console.error('[Join Org] Error:', error);
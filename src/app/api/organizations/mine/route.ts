@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { toPublicProject } from '@/lib/credential-encryption';
 
 export async function GET() {
   try {
@@ -21,10 +22,10 @@ export async function GET() {
     });
 
     return NextResponse.json({
-      memberships: memberships.map((m) => ({
-        org: m.organization,
-        role: m.role,
-        projects: m.organization.projects,
+      memberships: memberships.map(({ organization: { projects, ...org }, role }) => ({
+        org,
+        role,
+        projects: projects.map((project) => toPublicProject(project)),
       })),
     });
   } catch (error) {
@@ -65,7 +66,9 @@ export async function PATCH(request: NextRequest) {
       include: { projects: true },
     });
 
-    return NextResponse.json({ organization: updated });
+    return NextResponse.json({
+      organization: { ...updated, projects: updated.projects.map((project) => toPublicProject(project)) },
+    });
   } catch (error) {
     console.error('[My Orgs PATCH] Error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
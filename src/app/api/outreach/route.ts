@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createPostHogClient, ClassifiedUser, ContextualOutreach } from '@/lib/posthog';
+import { ClassifiedUser, ContextualOutreach } from '@/lib/posthog';
+import { createProjectClient } from '@/lib/posthog-factory';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 
 // POST: Generate outreach for users
 export async function POST(request: NextRequest) {
@@ -20,6 +22,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const access = await requireProjectPermission(projectId, 'project:write');
+    if (!access.ok) {
+      return access.response;
+    }
+
     // Get project PostHog config
     const project = await prisma.project.findUnique({
       where: { id: projectId },
@@ -29,11 +36,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'PostHog not configured' }, { status: 400 });
     }
 
-    const posthog = createPostHogClient({
-      apiKey: project.posthogKey,
-      projectId: project.posthogProjId,
-      host: project.posthogHost || 'https://us.posthog.com',
-    });
+    const posthog = createProjectClient(project);
 
     // Generate outreach for each user
     const outreachMessages: ContextualOutreach[] = users.map(user =>
@@ -81,6 +84,11 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const access = await requireProjectPermission(projectId, 'project:read');
+  if (!access.ok) {
+    return access.response;
+  }
+
   try {
     const project = await prisma.project.findUnique({
       where: { id: projectId },
@@ -90,11 +98,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'PostHog not configured' }, { status: 400 });
     }
 
-    const posthog = createPostHogClient({
-      apiKey: project.posthogKey,
-      projectId: project.posthogProjId,
-      host: project.posthogHost || 'https://us.posthog.com',
-    });
+    const posthog = createProjectClient(project);
 
     // Get session context for this user
     const sessionContext = await posthog.getSessionContext(userId);
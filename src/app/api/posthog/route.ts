@@ -1,7 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createPostHogClient, processFunnelData, type PostHogConfig } from '@/lib/posthog';
+import { createPostHogClient, processFunnelData, type PostHogClient, type PostHogConfig } from '@/lib/posthog';
+import { createProjectClient } from '@/lib/posthog-factory';
 import { prisma } from '@/lib/prisma';
-import { getCurrentUser, getProjectWithAccess } from '@/lib/auth';
+import { getCurrentUser, requireProjectPermission } from '@/lib/auth';
+
+/**
+ * The PostHog client for a request. With `x-tranzmit-project` the project's
+ * stored (encrypted) credentials are used, so the dashboard never handles
+ * the key. Otherwise an explicit key is required — e.g. testing a key
+ * before it's saved — falling back to the env config.
+ */
+async function resolvePostHogClient(
+    request: NextRequest,
+    explicit: Partial<PostHogConfig> = {}
+): Promise<{ client: PostHogClient } | { response: NextResponse }> {
+    const tranzmitProjectId = request.headers.get('x-tranzmit-project');
+    if (tranzmitProjectId) {
+        const access = await requireProjectPermission(tranzmitProjectId, 'project:read');
+        if (!access.ok) {
+            return { response: access.response };
+        }
+        if (!access.project.posthogKey || !access.project.posthogProjId) {
+            return { response: NextResponse.json({ error: 'PostHog is not configured for this project' }, { status: 400 }) };
+        }
+        return { client: createProjectClient(access.project) };
+    }
+
+    const apiKey = explicit.apiKey || request.headers.get('x-posthog-key') || process.env.POSTHOG_API_KEY;
+    const projectId = explicit.projectId || request.headers.get('x-posthog-project') || process.env.POSTHOG_PROJECT_ID;
+    const host = explicit.host || request.headers.get('x-posthog-host') || process.env.POSTHOG_HOST;
+
+    if (!apiKey || !projectId) {
+        return {
+            response: NextResponse.json(
+                { error: 'PostHog API key and project ID are required' },
+                { status: 400 }
+            ),
+        };
+    }
+
+    return { client: createPostHogClient({ apiKey, projectId, host }) };
+}
 
 export async function GET(request: NextRequest) {
     // Verify user is authenticated
@@ -12,20 +51,11 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const action = searchParams.get('action');
 
-    // Get config from headers or env
-    const apiKey = request.headers.get('x-posthog-key') || process.env.POSTHOG_API_KEY;
-    const projectId = request.headers.get('x-posthog-project') || process.env.POSTHOG_PROJECT_ID;
-    const host = request.headers.get('x-posthog-host') || process.env.POSTHOG_HOST;
-
-    if (!apiKey || !projectId) {
-        return NextResponse.json(
-            { error: 'PostHog API key and project ID are required' },
-            { status: 400 }
-        );
+    const resolved = await resolvePostHogClient(request);
+    if ('response' in resolved) {
+        return resolved.response;
     }
-
-    const config: PostHogConfig = { apiKey, projectId, host };
-    const client = createPostHogClient(config);
+    const { client } = resolved;
 
     try {
         switch (action) {
@@ -73,23 +103,13 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { action } = body;
-    let { apiKey, projectId, host } = body;
-
-    // Fallback to headers
-    if (!apiKey) apiKey = request.headers.get('x-posthog-key') || process.env.POSTHOG_API_KEY;
-    if (!projectId) projectId = request.headers.get('x-posthog-project') || process.env.POSTHOG_PROJECT_ID;
-    if (!host) host = request.headers.get('x-posthog-host') || process.env.POSTHOG_HOST;
+    const { action, apiKey, projectId, host } = body;
 
-    if (!apiKey || !projectId) {
-        return NextResponse.json(
-            { error: 'PostHog API key and project ID are required' },
-            { status: 400 }
-        );
+    const resolved = await resolvePostHogClient(request, { apiKey, projectId, host });
+    if ('response' in resolved) {
+        return resolved.response;
     }
-
-    const config: PostHogConfig = { apiKey, projectId, host };
-    const client = createPostHogClient(config);
+    const { client } = resolved;
 
     try {
         switch (action) {
@@ -311,9 +331,9 @@ export async function POST(request: NextRequest) {
 
                 // Verify project access if localProjectId is provided
                 if (localProjectId) {
-                    const projectAccess = await getProjectWithAccess(localProjectId);
-                    if (!projectAccess) {
-                        return NextResponse.json({ error: 'Unauthorized - no access to project' }, { status: 401 });
+                    const projectAccess = await requireProjectPermission(localProjectId, 'project:write');
+                    if (!projectAccess.ok) {
+                        return projectAccess.response;
                     }
                 }
 
@@ -350,7 +370,7 @@ export async function POST(request: NextRequest) {
                 // Use localProjectId if provided, otherwise fall back to looking up by PostHog project ID
                 let localCohort = null;
                 try {
-                    let dbProjectId = localProjectId;
+                    let dbProjectId = localProjectId || request.headers.get('x-tranzmit-project');
 
                     // If no localProjectId provided, look up by PostHog project ID
                     if (!dbProjectId) {
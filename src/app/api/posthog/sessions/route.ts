@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import zlib from 'zlib';
 import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
+import { getCurrentUser } from '@/lib/auth';
 
 const POSTHOG_HOST = process.env.POSTHOG_HOST || 'https://us.posthog.com';
 const PROJECT_ID = process.env.POSTHOG_PROJECT_ID || '291254';
@@ -194,6 +195,11 @@ function parseEncodedSnapshots(items: unknown[]): RRWebEvent[] {
 
 // GET - List recent session recordings
 export async function GET(request: NextRequest) {
+    // Verify user is authenticated
+    const user = await getCurrentUser();
+    if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
     const searchParams = request.nextUrl.searchParams;
     const limit = Math.min(parseInt(searchParams.get('limit') || '10'), 50);
 
@@ -257,6 +263,11 @@ export async function GET(request: NextRequest) {
 
 // POST - Fetch rrweb data for a specific session
 export async function POST(request: NextRequest) {
+    // Verify user is authenticated
+    const user = await getCurrentUser();
+    if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
     const body = await request.json();
     const { sessionId } = body;
 
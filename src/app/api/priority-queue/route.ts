@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission, requireRecordPermission } from '@/lib/auth';
 import { createPostHogClient } from '@/lib/posthog';
 import {
   buildPriorityQueue,
@@ -36,6 +37,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+      return access.response;
+    }
+
+    // A cohortId is only honored within the project the caller was checked against
+    if (cohortId && !(await prisma.cohort.count({ where: { id: cohortId, projectId } }))) {
+      return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+    }
+
     // If cohortId provided, get queue from that specific cohort
     if (cohortId) {
       const queue = await getPriorityQueue(cohortId, {
@@ -123,6 +134,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const access = await requireProjectPermission(projectId, 'project:write');
+    if (!access.ok) {
+      return access.response;
+    }
+
+    // A cohortId is only honored within the project the caller was checked against
+    if (cohortId && !(await prisma.cohort.count({ where: { id: cohortId, projectId } }))) {
+      return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+    }
+
     if (action === 'build') {
       // Build priority queue from PostHog data
       const queue = await buildPriorityQueue(projectId, {
@@ -265,6 +286,15 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    const access = await requireRecordPermission(
+      await prisma.cohort.findUnique({ where: { id: cohortId }, select: { projectId: true } }),
+      'project:write',
+      'Cohort not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     await updateMemberStatus(cohortId, distinctId, status);
 
     return NextResponse.json({ success: true });
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
+import {
+  expirePreviousApiKey,
+  rotateApiKeySchema,
+  rotateProjectApiKey,
+  toPublicProjectApiKey,
+} from '@/lib/project-api-key';
+
+/**
+ * GET /api/projects/[id]/api-key - SDK key prefix and rotation status
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireProjectPermission(id, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    return NextResponse.json({ apiKey: toPublicProjectApiKey(result.project) });
+  } catch (error) {
+    console.error('[Project API Key] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch API key' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/api-key - Rotate the SDK key
+ *
+ * Body: graceHours? (0–720, default 24) — how long the current key keeps
+ * working. Returns the new key; it is not retrievable afterwards.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireProjectPermission(id, 'credentials:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = rotateApiKeySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid rotation: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { key, project } = await rotateProjectApiKey(result.project, parsed.data.graceHours);
+    console.log(`[Project API Key] Rotated key for project ${id} (grace ${parsed.data.graceHours}h)`);
+    await auditProjectAction(request, result, {
+      action: 'project.sdk_key_rotated',
+      targetType: 'project',
+      targetId: id,
+      targetLabel: result.project.name,
+      before: { apiKeyPrefix: result.project.apiKeyPrefix },
+      after: { apiKeyPrefix: project.apiKeyPrefix },
+      metadata: { graceHours: parsed.data.graceHours },
+    });
+
+    return NextResponse.json({ apiKey: toPublicProjectApiKey(project), key });
+  } catch (error) {
+    console.error('[Project API Key] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to rotate API key' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/api-key - End the grace period early
+ *
+ * The previous key stops working immediately, e.g. after a leak.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireProjectPermission(id, 'credentials:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    await expirePreviousApiKey(result.project);
+    await auditProjectAction(request, result, {
+      action: 'project.sdk_key_rotated',
+      targetType: 'project',
+      targetId: id,
+      targetLabel: result.project.name,
+      metadata: { previousKeyExpiredEarly: true },
+    });
+
+    return NextResponse.json({
+      apiKey: toPublicProjectApiKey({ ...result.project, previousApiKeyHash: null, previousApiKeyExpiresAt: null }),
+    });
+  } catch (error) {
+    console.error('[Project API Key] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to expire previous API key' },
+      { status: 500 }
+    );
+  }
+}
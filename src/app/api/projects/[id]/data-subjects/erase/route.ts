@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
+import { dataSubjectSchema, eraseDataSubject } from '@/lib/privacy';
+
+/**
+ * POST /api/projects/[id]/data-subjects/erase - Forget one person (GDPR Art. 17)
+ *
+ * Body: { distinctId?, email? } — at least one. Deletes every session, replay
+ * chunk, conversation, cohort membership, churn score and alert, churned and
+ * uploaded user, interview and widget trigger for that person in this
+ * project, including records under identifiers linked to the ones given,
+ * and scrubs them from the webhook delivery log.
+ * Returns the deletion report. The audit entry records the report's
+ * reference hash and counts, not the identifiers.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireProjectPermission(id, 'data:delete');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = dataSubjectSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid erasure request: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const report = await eraseDataSubject(id, parsed.data);
+    console.log(`[Erasure] Erased data subject ${report.reference.slice(0, 12)} in project ${id}`);
+    await auditProjectAction(request, result, {
+      action: 'data.erased',
+      targetType: 'data_subject',
+      targetId: report.reference,
+      metadata: {
+        deleted: report.deleted,
+        linkedDistinctIds: report.subject.distinctIds.length,
+        linkedEmails: report.subject.emails.length,
+      },
+    });
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('[Erasure] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to erase personal data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
+import { collectSubjectData, dataSubjectSchema, subjectExportArchive } from '@/lib/privacy';
+
+/**
+ * POST /api/projects/[id]/data-subjects/export - Subject access export (GDPR Art. 15)
+ *
+ * Body: { distinctId?, email? } — at least one. POST so the identifiers stay
+ * out of URLs and access logs. Returns a zip with session metadata and
+ * analyses, conversation transcripts, churn score history, recovery outreach
+ * (emails sent, call notes), interviews, cohort memberships and widget
+ * triggers for that person in this project. The audit entry records the
+ * reference hash and counts, not the identifiers.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireProjectPermission(id, 'data:export');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = dataSubjectSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid export request: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const data = await collectSubjectData(id, parsed.data);
+    await auditProjectAction(request, result, {
+      action: 'data.exported',
+      targetType: 'data_subject',
+      targetId: data.reference,
+      metadata: {
+        counts: data.counts,
+        linkedDistinctIds: data.subject.distinctIds.length,
+        linkedEmails: data.subject.emails.length,
+      },
+    });
+
+    const filename = `personal-data-${data.reference.slice(0, 12)}-${data.exportedAt.slice(0, 10)}.zip`;
+    return new NextResponse(new Uint8Array(subjectExportArchive(data)), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[Subject Export] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export personal data' },
+      { status: 500 }
+    );
+  }
+}
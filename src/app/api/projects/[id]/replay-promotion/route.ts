@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectPermission } from '@/lib/auth';
+import { getReplayPromotionStatus, promoteProjectReplays, resolveReplayPromotion } from '@/lib/replay-promotion';
+
+// Leaves room for one analysis when auto-analysis is on
+export const maxDuration = 60;
+
+const REQUEST_BUDGET_MS = 45_000;
+
+/**
+ * GET /api/projects/[id]/replay-promotion - Recorder sessions waiting to
+ * become Sessions, promoted sessions by analysis status, and the project's
+ * promotion settings
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireProjectPermission(id, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const status = await getReplayPromotionStatus(id, resolveReplayPromotion(result.project.replayPromotion));
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('[ReplayPromotion] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load replay promotion status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/replay-promotion - Promote idle recorder sessions
+ * now instead of waiting for the cron. Uses the project's settings, so
+ * sessions still inside the idle window are left alone.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireProjectPermission(id, 'project:write');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const settings = resolveReplayPromotion(result.project.replayPromotion);
+    const promotion = await promoteProjectReplays(id, { ...settings, enabled: true }, Date.now() + REQUEST_BUDGET_MS);
+    const status = await getReplayPromotionStatus(id, settings);
+    return NextResponse.json({ result: promotion, status });
+  } catch (error) {
+    console.error('[ReplayPromotion] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to promote replay sessions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import { getProjectWithAccess } from '@/lib/auth';
-import { syncTenantAnalytics } from '@/lib/sdk-db';
+import { forbiddenResponse, requireProjectPermission, roleHasPermission } from '@/lib/auth';
+import { revokeSdkApiKey, syncTenantAnalytics } from '@/lib/sdk-db';
+import { auditProjectAction, auditStoredChanges } from '@/lib/audit-log';
+import {
+  PROJECT_SECRET_FIELDS,
+  encryptSecretFields,
+  storedSecretMatches,
+  toPublicProject,
+} from '@/lib/credential-encryption';
+import { churnModelSchema } from '@/lib/churn-scoring/churn-model';
+import { churnRuleSetSchema } from '@/lib/churn-scoring/rule-set';
+import { resolveRetentionPolicy, retentionPolicySchema } from '@/lib/privacy';
+import { replayPromotionSchema } from '@/lib/replay-promotion';
+
+// Analytics credentials, and the hosts/projects they're sent to
+const CREDENTIAL_FIELDS = [
+  'posthogKey',
+  'posthogHost',
+  'posthogProjId',
+  'mixpanelKey',
+  'mixpanelSecret',
+  'mixpanelProjId',
+  'mixpanelHost',
+  'amplitudeKey',
+  'amplitudeSecret',
+  'amplitudeProjId',
+] as const;
 
 /**
  * GET /api/projects/[id] - Get project details
@@ -14,16 +40,12 @@ export async function GET(
     const { id } = await params;
 
     // Verify user has access to this project
-    const result = await getProjectWithAccess(id);
-
-    if (!result) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    const result = await requireProjectPermission(id, 'project:read');
+    if (!result.ok) {
+      return result.response;
     }
 
-    return NextResponse.json({ project: result.project });
+    return NextResponse.json({ project: toPublicProject(result.project) });
   } catch (error: any) {
     console.error('[Projects API] GET error:', error);
     return NextResponse.json(
@@ -35,7 +57,7 @@ export async function GET(
 
 /**
  * PATCH /api/projects/[id] - Update project settings
- * Body: name?, posthogKey?, posthogHost?, posthogProjId?, mixpanelKey?, mixpanelSecret?, mixpanelProjId?, mixpanelHost?, amplitudeKey?, amplitudeSecret?
+ * Body: name?, posthogKey?, posthogHost?, posthogProjId?, mixpanelKey?, mixpanelSecret?, mixpanelProjId?, mixpanelHost?, amplitudeKey?, amplitudeSecret?, churnModel?, churnRuleSet?, retentionPolicy?, replayPromotion?
  */
 export async function PATCH(
   request: NextRequest,
@@ -45,16 +67,26 @@ export async function PATCH(
     const { id } = await params;
 
     // Verify user has access to this project
-    const result = await getProjectWithAccess(id);
-
-    if (!result) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    const result = await requireProjectPermission(id, 'settings:manage');
+    if (!result.ok) {
+      return result.response;
     }
 
     const body = await request.json();
+
+    // The settings form posts every field, so only changed credentials need the owner role.
+    // Secrets are stored encrypted and are compared by value.
+    const changesCredentials = CREDENTIAL_FIELDS.some((field) => {
+      if (body[field] === undefined) return false;
+      if ((PROJECT_SECRET_FIELDS as readonly string[]).includes(field)) {
+        return !storedSecretMatches(result.project[field], body[field]);
+      }
+      return (body[field] ?? '') !== (result.project[field] ?? '');
+    });
+    if (changesCredentials && !roleHasPermission(result.role, 'credentials:manage')) {
+      return forbiddenResponse('credentials:manage');
+    }
+
     const {
       name,
       posthogKey,
@@ -69,9 +101,13 @@ export async function PATCH(
       amplitudeProjId,
       elevenlabsAgentId,
       replaySource,
+      churnModel,
+      churnRuleSet,
+      retentionPolicy,
+      replayPromotion,
     } = body;
 
-    const updateData: any = {};
+    const updateData: Prisma.ProjectUpdateInput = {};
     if (name !== undefined) updateData.name = name;
     if (posthogKey !== undefined) updateData.posthogKey = posthogKey;
     if (posthogHost !== undefined) updateData.posthogHost = posthogHost;
@@ -89,18 +125,110 @@ export async function PATCH(
     if (elevenlabsAgentId !== undefined) updateData.elevenlabsAgentId = elevenlabsAgentId;
     // Replay source preference
     if (replaySource !== undefined) updateData.replaySource = replaySource;
+    // Churn model definition (null resets to the default chat vocabulary)
+    if (churnModel !== undefined) {
+      if (churnModel === null) {
+        updateData.churnModel = Prisma.DbNull;
+      } else {
+        const parsed = churnModelSchema.safeParse(churnModel);
+        if (!parsed.success) {
+          return NextResponse.json(
+            { error: `Invalid churn model: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` },
+            { status: 400 }
+          );
+        }
+        updateData.churnModel = parsed.data;
+      }
+    }
+    // Churn scoring weights/thresholds (null resets to the defaults)
+    if (churnRuleSet !== undefined) {
+      if (churnRuleSet === null) {
+        updateData.churnRuleSet = Prisma.DbNull;
+      } else {
+        const parsed = churnRuleSetSchema.safeParse(churnRuleSet);
+        if (!parsed.success) {
+          return NextResponse.json(
+            { error: `Invalid churn rule set: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` },
+            { status: 400 }
+          );
+        }
+        updateData.churnRuleSet = parsed.data;
+      }
+    }
+
+    // Retention windows in days per data type (null resets to the defaults)
+    if (retentionPolicy !== undefined) {
+      if (retentionPolicy === null) {
+        updateData.retentionPolicy = Prisma.DbNull;
+      } else {
+        const parsed = retentionPolicySchema.safeParse(retentionPolicy);
+        if (!parsed.success) {
+          return NextResponse.json(
+            { error: `Invalid retention policy: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` },
+            { status: 400 }
+          );
+        }
+        updateData.retentionPolicy = parsed.data;
+      }
+    }
+
+    // Recorder session promotion (null resets to the defaults)
+    if (replayPromotion !== undefined) {
+      if (replayPromotion === null) {
+        updateData.replayPromotion = Prisma.DbNull;
+      } else {
+        const parsed = replayPromotionSchema.safeParse(replayPromotion);
+        if (!parsed.success) {
+          return NextResponse.json(
+            { error: `Invalid replay promotion settings: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` },
+            { status: 400 }
+          );
+        }
+        updateData.replayPromotion = parsed.data;
+      }
+    }
+
+    // Diff against the stored ciphertexts before the new values are encrypted
+    const credentialChanges = auditStoredChanges(result.project, updateData, CREDENTIAL_FIELDS, PROJECT_SECRET_FIELDS);
+    const encryptedData = encryptSecretFields(updateData, PROJECT_SECRET_FIELDS);
 
     const project = await prisma.project.update({
       where: { id },
-      data: updateData,
+      data: encryptedData,
     });
 
-    // Sync analytics credentials to SDK database if any were updated
+    if (credentialChanges) {
+      await auditProjectAction(request, result, {
+        action: 'project.credentials_updated',
+        targetType: 'project',
+        targetId: id,
+        targetLabel: project.name,
+        ...credentialChanges,
+      });
+    }
+
+    if (retentionPolicy !== undefined) {
+      const before = resolveRetentionPolicy(result.project.retentionPolicy);
+      const after = resolveRetentionPolicy(project.retentionPolicy);
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        await auditProjectAction(request, result, {
+          action: 'project.retention_updated',
+          targetType: 'project',
+          targetId: id,
+          targetLabel: project.name,
+          before,
+          after,
+        });
+      }
+    }
+
+    // Sync analytics credentials to SDK database if any were updated. The SDK
+    // backend calls PostHog/Amplitude with them, so it gets the plaintext.
     const hasAnalyticsUpdate = posthogKey !== undefined || posthogProjId !== undefined
       || posthogHost !== undefined || amplitudeKey !== undefined || amplitudeSecret !== undefined;
-    if (hasAnalyticsUpdate) {
+    if (hasAnalyticsUpdate && project.apiKeyHash) {
       syncTenantAnalytics({
-        apiKey: project.apiKey,
+        apiKeyHash: project.apiKeyHash,
         posthogApiKey: posthogKey,
         posthogProjectId: posthogProjId,
         posthogHost: posthogHost,
@@ -109,7 +237,7 @@ export async function PATCH(
       }).catch(err => console.error('[Projects API] SDK sync error:', err));
     }
 
-    return NextResponse.json({ project });
+    return NextResponse.json({ project: toPublicProject(project) });
   } catch (error: any) {
     console.error('[Projects API] PATCH error:', error);
     return NextResponse.json(
@@ -118,3 +246,42 @@ export async function PATCH(
     );
   }
 }
+
+/**
+ * DELETE /api/projects/[id] - Delete the project and all of its data
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await requireProjectPermission(id, 'project:delete');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    await prisma.project.delete({ where: { id } });
+    await auditProjectAction(request, result, {
+      action: 'project.deleted',
+      targetType: 'project',
+      targetId: id,
+      targetLabel: result.project.name,
+    });
+
+    // Stop the embedded widget/replay snippet from authenticating against the SDK backend
+    for (const hash of [result.project.apiKeyHash, result.project.previousApiKeyHash]) {
+      if (hash) await revokeSdkApiKey(hash);
+    }
+
+    console.log(`[Projects API] Deleted project ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Projects API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete project' },
+      { status: 500 }
+    );
+  }
+}
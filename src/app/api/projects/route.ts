@@ -2,13 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { getUserProjects, getDefaultOrganization } from '@/lib/auth';
 import crypto from 'crypto';
+import { projectApiKeyFields } from '@/lib/project-api-key';
+import { PROJECT_SECRET_FIELDS, encryptSecretFields, toPublicProject } from '@/lib/credential-encryption';
 
 export async function GET() {
     try {
         // Get only projects the user has access to
         const projects = await getUserProjects();
 
-        return NextResponse.json({ projects });
+        return NextResponse.json({ projects: projects.map((project) => toPublicProject(project)) });
     } catch (error) {
         console.error('Failed to fetch projects:', error);
         return NextResponse.json({ error: 'Failed to fetch projects' }, { status: 500 });
@@ -60,25 +62,23 @@ export async function POST(request: NextRequest) {
         const project = await prisma.project.create({
             data: {
                 name,
-                apiKey,
-                // PostHog fields
-                posthogKey: posthogKey || null,
+                ...projectApiKeyFields(apiKey),
+                // Secrets are stored encrypted (see credential-encryption.ts)
+                ...encryptSecretFields(
+                    { posthogKey, mixpanelKey, mixpanelSecret, amplitudeKey, amplitudeSecret },
+                    PROJECT_SECRET_FIELDS
+                ),
                 posthogHost: posthogHost || 'https://us.posthog.com',
                 posthogProjId: posthogProjId || null,
-                // Mixpanel fields
-                mixpanelKey: mixpanelKey || null,
-                mixpanelSecret: mixpanelSecret || null,
                 mixpanelProjId: mixpanelProjId || null,
                 mixpanelHost: mixpanelHost || 'https://mixpanel.com',
-                // Amplitude fields
-                amplitudeKey: amplitudeKey || null,
-                amplitudeSecret: amplitudeSecret || null,
                 amplitudeProjId: amplitudeProjId || null,
                 organizationId: orgData.organization.id,
             },
         });
 
-        return NextResponse.json({ project });
+        // The key is only stored hashed, so this is the one chance to show it
+        return NextResponse.json({ project: toPublicProject(project), apiKey });
     } catch (error) {
         console.error('Failed to create project:', error);
         return NextResponse.json({ error: 'Failed to create project' }, { status: 500 });
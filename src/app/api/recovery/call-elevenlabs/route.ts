@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
 import {
   getElevenLabsClient,
   generateFirstMessage,
@@ -26,6 +28,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Churned user not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(churnedUser, 'outreach:send', 'Churned user not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     if (!churnedUser.phone) {
       return NextResponse.json({ error: 'User has no phone number' }, { status: 400 });
     }
@@ -153,6 +160,14 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await auditProjectAction(request, access, {
+      action: 'recovery.call_placed',
+      targetType: 'churned_user',
+      targetId: churnedUser.id,
+      targetLabel: churnedUser.email,
+      metadata: { provider: 'elevenlabs', callId: callResult.call_id, agentId: finalAgentId, phone: churnedUser.phone },
+    });
+
     return NextResponse.json({
       success: true,
       callId: callResult.call_id,
@@ -182,6 +197,19 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'callId is required' }, { status: 400 });
     }
 
+    // Calls are only reachable through the churned user they were placed to
+    const access = await requireRecordPermission(
+      await prisma.churnedUser.findFirst({
+        where: { callNotes: { contains: callId } },
+        select: { projectId: true },
+      }),
+      'project:read',
+      'Call not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     const elevenlabs = getElevenLabsClient();
     const status = await elevenlabs.getCallStatus(callId);
 
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
 import { initiateCall, formatPhoneForTwilio } from '@/lib/twilio';
 
 // POST - Initiate a recovery call
@@ -32,6 +34,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(user, 'outreach:send', 'User not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     if (!user.phone) {
       return NextResponse.json({ error: 'User does not have a phone number' }, { status: 400 });
     }
@@ -44,6 +51,14 @@ export async function POST(request: NextRequest) {
       // Initiate the call
       const call = await initiateCall(formattedAgentPhone, formattedCustomerPhone);
 
+      await auditProjectAction(request, access, {
+        action: 'recovery.call_placed',
+        targetType: 'churned_user',
+        targetId: user.id,
+        targetLabel: user.email,
+        metadata: { provider: 'twilio', callSid: call.sid, customerPhone: formattedCustomerPhone },
+      });
+
       return NextResponse.json({
         message: 'Call initiated',
         callSid: call.sid,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 import { generateRecoveryOutreach } from '@/lib/recovery-outreach-generator';
 
 // POST - Generate personalized recovery outreach for a churned user
@@ -8,6 +9,20 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { userId, userIds, companyName, productName } = body;
 
+    // Every user must belong to a project the caller can write to
+    const ids: string[] = userId ? [userId] : Array.isArray(userIds) ? userIds : [];
+    const owners = await prisma.churnedUser.findMany({
+      where: { id: { in: ids } },
+      select: { projectId: true },
+      distinct: ['projectId'],
+    });
+    for (const { projectId } of owners) {
+      const access = await requireProjectPermission(projectId, 'project:write');
+      if (!access.ok) {
+        return access.response;
+      }
+    }
+
     // Handle single user
     if (userId) {
       const result = await generateOutreachForUser(userId, companyName, productName);
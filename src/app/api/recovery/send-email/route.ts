@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Resend } from 'resend';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
 
 let resend: Resend | null = null;
 
@@ -142,6 +144,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(user, 'outreach:send', 'User not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     // Get email content from generated outreach or custom
     let emailContent: RecoveryEmailContent;
     if (customSubject || customBody) {
@@ -188,6 +195,18 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      await auditProjectAction(request, access, {
+        action: 'recovery.email_sent',
+        targetType: 'churned_user',
+        targetId: user.id,
+        targetLabel: user.email,
+        metadata: {
+          messageId: emailResult.data?.id || null,
+          subject: emailContent.subject,
+          customContent: Boolean(customSubject || customBody),
+        },
+      });
+
       return NextResponse.json({
         message: `Recovery email sent to ${user.email}`,
         messageId: emailResult.data?.id,
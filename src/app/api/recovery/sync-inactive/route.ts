@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
+import { projectPostHogConfig } from '@/lib/posthog-factory';
 
 interface PostHogPerson {
   id: string;
@@ -63,6 +65,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
+    const access = await requireProjectPermission(projectId, 'project:write');
+    if (!access.ok) {
+      return access.response;
+    }
+
     // Get project to retrieve PostHog credentials
     const project = await prisma.project.findUnique({
       where: { id: projectId },
@@ -79,24 +86,23 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    const apiKey = project.posthogKey;
-    const host = (project.posthogHost || 'https://us.posthog.com').replace(/\/$/, '');
-    const posthogProjectId = project.posthogProjId;
-
-    if (!apiKey) {
+    if (!project.posthogKey) {
       return NextResponse.json({
         error: 'PostHog API key not configured for this project',
         details: { projectName: project.name, projectId: project.id }
       }, { status: 400 });
     }
 
-    if (!posthogProjectId) {
+    if (!project.posthogProjId) {
       return NextResponse.json({
         error: 'PostHog Project ID not configured for this project',
         details: { projectName: project.name, projectId: project.id }
       }, { status: 400 });
     }
 
+    const { apiKey, projectId: posthogProjectId, host: posthogHost } = projectPostHogConfig(project);
+    const host = posthogHost.replace(/\/$/, '');
+
     console.log(`[Inactive Sync] Project: ${project.name}, PostHog Project: ${posthogProjectId}, Host: ${host}`);
 
     const headers: Record<string, string> = {
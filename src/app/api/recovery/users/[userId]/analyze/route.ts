@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { projectPostHogConfig } from '@/lib/posthog-factory';
 import { generateObject } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
@@ -483,6 +485,11 @@ export async function POST(
       return NextResponse.json({ error: 'Churned user not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(churnedUser, 'project:write', 'Churned user not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     if (!churnedUser.posthogDistinctId) {
       return NextResponse.json({
         error: 'No PostHog distinct ID for this user. Cannot analyze sessions.'
@@ -497,13 +504,10 @@ export async function POST(
 
     try {
       const project = churnedUser.project;
-      const apiKey = project.posthogKey;
-      const host = project.posthogHost || 'https://us.posthog.com';
-      const projectId = project.posthogProjId;
-
-      if (!apiKey || !projectId) {
+      if (!project.posthogKey || !project.posthogProjId) {
         throw new Error('PostHog credentials not configured for project');
       }
+      const { apiKey, host, projectId } = projectPostHogConfig(project);
 
       const headers = {
         Authorization: `Bearer ${apiKey}`,
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
 
 // DELETE - Delete a churned user
 export async function DELETE(
@@ -9,10 +11,25 @@ export async function DELETE(
   try {
     const { userId } = await params;
 
+    const access = await requireRecordPermission(
+      await prisma.churnedUser.findUnique({ where: { id: userId }, select: { projectId: true, email: true } }),
+      'data:delete',
+      'User not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     // Delete the churned user
     await prisma.churnedUser.delete({
       where: { id: userId },
     });
+    await auditProjectAction(request, access, {
+      action: 'data.deleted',
+      targetType: 'churned_user',
+      targetId: userId,
+      targetLabel: access.record.email,
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -38,6 +55,11 @@ export async function GET(
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(user, 'project:read', 'User not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     return NextResponse.json({ user });
   } catch (error) {
     console.error('Failed to get churned user:', error);
@@ -52,6 +74,15 @@ export async function PATCH(
 ) {
   try {
     const { userId } = await params;
+
+    const access = await requireRecordPermission(
+      await prisma.churnedUser.findUnique({ where: { id: userId }, select: { projectId: true } }),
+      'project:write',
+      'User not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
     const body = await request.json();
 
     const updateData: Record<string, unknown> = {};
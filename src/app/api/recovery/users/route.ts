@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireProjectPermission, requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
 
 // GET - List churned users
 export async function GET(request: NextRequest) {
@@ -15,9 +16,9 @@ export async function GET(request: NextRequest) {
     }
 
     // Verify user has access to this project
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:read');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
     const where: Record<string, unknown> = { projectId };
@@ -79,9 +80,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify user has access to this project
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:write');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
     const project = projectAccess.project;
@@ -159,23 +160,40 @@ export async function DELETE(request: NextRequest) {
 
     if (deleteAll && projectId) {
       // Verify user has access to this project
-      const projectAccess = await getProjectWithAccess(projectId);
-      if (!projectAccess) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      const projectAccess = await requireProjectPermission(projectId, 'data:delete');
+      if (!projectAccess.ok) {
+        return projectAccess.response;
       }
 
       // Delete all users for a project
       const result = await prisma.churnedUser.deleteMany({
         where: { projectId },
       });
+      await auditProjectAction(request, projectAccess, {
+        action: 'data.deleted',
+        targetType: 'churned_user',
+        metadata: { all: true, count: result.count },
+      });
       return NextResponse.json({ message: `Deleted ${result.count} users` });
     }
 
     if (userId) {
+      const existing = await prisma.churnedUser.findUnique({ where: { id: userId }, select: { projectId: true, email: true } });
+      const access = await requireRecordPermission(existing, 'data:delete', 'User not found');
+      if (!access.ok) {
+        return access.response;
+      }
+
       // Delete single user
       await prisma.churnedUser.delete({
         where: { id: userId },
       });
+      await auditProjectAction(request, access, {
+        action: 'data.deleted',
+        targetType: 'churned_user',
+        targetId: userId,
+        targetLabel: access.record.email,
+      });
       return NextResponse.json({ message: 'User deleted' });
     }
 
@@ -196,6 +214,12 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'User ID required' }, { status: 400 });
     }
 
+    const existing = await prisma.churnedUser.findUnique({ where: { id: userId }, select: { projectId: true } });
+    const access = await requireRecordPermission(existing, 'project:write', 'User not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const updateData: Record<string, unknown> = {};
     if (outreachStatus) updateData.outreachStatus = outreachStatus;
     if (callNotes !== undefined) updateData.callNotes = callNotes;
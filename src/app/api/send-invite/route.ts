@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Resend } from 'resend';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission, type ProjectAccess } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
 
 // Resend client will be initialized lazily when needed
 let resend: Resend | null = null;
@@ -264,6 +266,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Every recipient must belong to a project the caller can send outreach from
+    const ids: string[] = userId ? [userId] : Array.isArray(userIds) ? userIds : [];
+    const owners = await prisma.uploadedUser.findMany({
+      where: { id: { in: ids } },
+      select: { projectId: true },
+      distinct: ['projectId'],
+    });
+    const accessByProject = new Map<string, ProjectAccess>();
+    for (const { projectId } of owners) {
+      const access = await requireProjectPermission(projectId, 'outreach:send');
+      if (!access.ok) {
+        return access.response;
+      }
+      accessByProject.set(projectId, access);
+    }
+    const auditInviteSent = (user: { id: string; email: string; projectId: string }, messageId: string | null) => {
+      const access = accessByProject.get(user.projectId);
+      if (!access) return Promise.resolve();
+      return auditProjectAction(request, access, {
+        action: 'outreach.invite_sent',
+        targetType: 'uploaded_user',
+        targetId: user.id,
+        targetLabel: user.email,
+        metadata: { messageId, subject },
+      });
+    };
+
     const fromEmail = process.env.RESEND_FROM_EMAIL || 'research@yourdomain.com';
 
     const emailContentParams = {
@@ -327,6 +356,7 @@ export async function POST(request: NextRequest) {
             messageId: emailResult.data?.id || null,
           },
         });
+        await auditInviteSent(user, emailResult.data?.id || null);
 
         return NextResponse.json({
           message: `Invite sent to ${user.email}`,
@@ -390,6 +420,7 @@ export async function POST(request: NextRequest) {
                 messageId: emailResult.data?.id || null,
               },
             });
+            await auditInviteSent(user, emailResult.data?.id || null);
 
             return { userId: user.id, success: true, messageId: emailResult.data?.id };
           } catch (error) {
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
 import { analyzeSession } from '@/lib/session-analysis';
 
 // POST: Trigger analysis for a session
@@ -9,6 +11,15 @@ export async function POST(
   try {
     const { sessionId: id } = await params;
 
+    const access = await requireRecordPermission(
+      await prisma.session.findUnique({ where: { id }, select: { projectId: true } }),
+      'project:write',
+      'Session not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     const analysis = await analyzeSession(id);
     return NextResponse.json({ analysis });
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
 
 // GET: Lazy load events only (for replay)
 export async function GET(
@@ -13,6 +14,7 @@ export async function GET(
       where: { id },
       select: {
         id: true,
+        projectId: true,
         events: true,
       },
     });
@@ -21,6 +23,11 @@ export async function GET(
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(session, 'project:read', 'Session not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     if (!session.events) {
       return NextResponse.json({ error: 'No events stored for this session' }, { status: 404 });
     }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
 
 // POST: Queue a session for multimodal analysis (picked up by the Railway worker)
 export async function POST(
@@ -11,13 +12,18 @@ export async function POST(
 
     const session = await prisma.session.findUnique({
       where: { id: sessionId },
-      select: { id: true, analysisStatus: true, multimodalStatus: true },
+      select: { id: true, projectId: true, analysisStatus: true, multimodalStatus: true },
     });
 
     if (!session) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(session, 'project:write', 'Session not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     if (session.analysisStatus !== 'completed') {
       return NextResponse.json(
         { error: 'Session must be analyzed first' },
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
+import { readReplayIntegrity } from '@/lib/replay-integrity';
 import type { SessionListItem, SessionWithEvents } from '@/types/session';
 
 // GET: Get single session (optionally with events)
@@ -40,6 +43,11 @@ export async function GET(
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(session, 'project:read', 'Session not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     if (includeEvents) {
       const sessionWithEvents: SessionWithEvents = {
         id: session.id,
@@ -56,6 +64,7 @@ export async function GET(
         analysis: session.analysis ? JSON.parse(session.analysis) : undefined,
         multimodalStatus: (session.multimodalStatus || 'pending') as 'pending' | 'analyzing' | 'completed' | 'failed',
         multimodalAnalysis: session.multimodalAnalysis ? JSON.parse(session.multimodalAnalysis) : undefined,
+        replayIntegrity: readReplayIntegrity(session.metadata ? JSON.parse(session.metadata) : null) ?? undefined,
         hasEvents: !!session.events,
         createdAt: session.createdAt.toISOString(),
         updatedAt: session.updatedAt.toISOString(),
@@ -79,6 +88,7 @@ export async function GET(
       analysis: session.analysis ? JSON.parse(session.analysis) : undefined,
       multimodalStatus: (session.multimodalStatus || 'pending') as 'pending' | 'analyzing' | 'completed' | 'failed',
       multimodalAnalysis: session.multimodalAnalysis ? JSON.parse(session.multimodalAnalysis) : undefined,
+      replayIntegrity: readReplayIntegrity(session.metadata ? JSON.parse(session.metadata) : null) ?? undefined,
       hasEvents: true,
       createdAt: session.createdAt.toISOString(),
       updatedAt: session.updatedAt.toISOString(),
@@ -101,16 +111,28 @@ export async function DELETE(
 
     const session = await prisma.session.findUnique({
       where: { id },
-      select: { id: true },
+      select: { id: true, projectId: true, name: true, source: true, distinctId: true },
     });
 
     if (!session) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    const access = await requireRecordPermission(session, 'data:delete', 'Session not found');
+    if (!access.ok) {
+      return access.response;
+    }
+
     await prisma.session.delete({
       where: { id },
     });
+    await auditProjectAction(req, access, {
+      action: 'data.deleted',
+      targetType: 'session',
+      targetId: id,
+      targetLabel: session.name,
+      metadata: { source: session.source, distinctId: session.distinctId },
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
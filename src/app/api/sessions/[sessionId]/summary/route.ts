@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createPostHogClient } from '@/lib/posthog';
+import { createProjectClient } from '@/lib/posthog-factory';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 
 // GET /api/sessions/[sessionId]/summary - Get AI summary for a session
 export async function GET(
@@ -15,6 +16,11 @@ export async function GET(
         return NextResponse.json({ error: 'Project ID is required' }, { status: 400 });
     }
 
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+        return access.response;
+    }
+
     if (!sessionId) {
         return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
     }
@@ -32,11 +38,7 @@ export async function GET(
             return NextResponse.json({ error: 'PostHog not configured for this project' }, { status: 400 });
         }
 
-        const posthogClient = createPostHogClient({
-            apiKey: project.posthogKey,
-            projectId: project.posthogProjId,
-            host: project.posthogHost || 'https://us.posthog.com',
-        });
+        const posthogClient = createProjectClient(project);
 
         // If comprehensive flag is set, return full session data
         if (comprehensive) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 import { syncSessionsFromPostHog } from '@/lib/session-sync';
 import { syncSessionsFromMixpanel } from '@/lib/mixpanel';
 import { syncSessionsFromAmplitude } from '@/lib/amplitude';
@@ -34,6 +35,11 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
   }
 
+  const access = await requireProjectPermission(projectId, 'project:write');
+  if (!access.ok) {
+    return access.response;
+  }
+
   // Upsert status to syncing
   await prisma.synthesizedInsight.upsert({
     where: { projectId },
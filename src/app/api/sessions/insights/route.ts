@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 import type { SynthesizedInsightData } from '@/types/session';
 
 // GET: Fetch persisted synthesized insights for a project
@@ -10,6 +11,11 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
   }
 
+  const access = await requireProjectPermission(projectId, 'project:read');
+  if (!access.ok) {
+    return access.response;
+  }
+
   try {
     const [insight, actualSessionCount] = await Promise.all([
       prisma.synthesizedInsight.findUnique({ where: { projectId } }),
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import type { SessionListItem, CreateSessionInput, SessionsListResponse } from '@/types/session';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireProjectPermission } from '@/lib/auth';
+import { readReplayIntegrity } from '@/lib/replay-integrity';
 
 // GET: List sessions for a project (without events for performance)
 export async function GET(req: NextRequest) {
@@ -17,9 +18,9 @@ export async function GET(req: NextRequest) {
     }
 
     // Verify user has access to this project
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:read');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
     const skip = (page - 1) * limit;
@@ -53,6 +54,7 @@ export async function GET(req: NextRequest) {
           analysis: true,
           multimodalStatus: true,
           multimodalAnalysis: true,
+          metadata: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -79,6 +81,7 @@ export async function GET(req: NextRequest) {
       analysis: s.analysis ? JSON.parse(s.analysis) : undefined,
       multimodalStatus: (s.multimodalStatus || 'pending') as 'pending' | 'analyzing' | 'completed' | 'failed',
       multimodalAnalysis: s.multimodalAnalysis ? JSON.parse(s.multimodalAnalysis) : undefined,
+      replayIntegrity: readReplayIntegrity(s.metadata ? JSON.parse(s.metadata) : null) ?? undefined,
       hasEvents: true, // Events are stored in DB
       createdAt: s.createdAt.toISOString(),
       updatedAt: s.updatedAt.toISOString(),
@@ -109,9 +112,9 @@ export async function POST(req: NextRequest) {
     }
 
     // Verify user has access to this project
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:write');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
     // Check if session already exists (for PostHog deduplication)
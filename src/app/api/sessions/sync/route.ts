@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
 import { syncSessionsFromPostHog } from '@/lib/session-sync';
 import { syncSessionsFromMixpanel } from '@/lib/mixpanel';
 import { syncSessionsFromAmplitude } from '@/lib/amplitude';
@@ -14,6 +15,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
+    const access = await requireProjectPermission(projectId, 'project:write');
+    if (!access.ok) {
+      return access.response;
+    }
+
     // Get project to check which integration is configured
     const project = await prisma.project.findUnique({
       where: { id: projectId },
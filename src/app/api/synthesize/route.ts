@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { generateObject } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
+import { requireProjectPermission } from '@/lib/auth';
 
 // Define the schema for synthesized insights
 const SynthesizedInsightsSchema = z.object({
@@ -26,7 +27,16 @@ const SynthesizedInsightsSchema = z.object({
 export async function POST(req: NextRequest) {
     try {
         const body = await req.json();
-        const { frictionPoints, userIntents, tags, sessionCount } = body;
+        const { projectId, frictionPoints, userIntents, tags, sessionCount } = body;
+
+        if (!projectId) {
+            return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+        }
+
+        const access = await requireProjectPermission(projectId, 'project:write');
+        if (!access.ok) {
+            return access.response;
+        }
 
         if (!frictionPoints || !userIntents) {
             return NextResponse.json({ error: 'Missing required data' }, { status: 400 });
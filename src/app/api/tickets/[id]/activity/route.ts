@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+
+/**
+ * GET /api/tickets/[id]/activity
+ *
+ * The ticket's lifecycle history, newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await requireRecordPermission(
+      await prisma.ticket.findUnique({ where: { id }, select: { projectId: true } }),
+      'project:read',
+      'Ticket not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const activities = await prisma.ticketActivity.findMany({
+      where: { ticketId: id },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      include: { actor: { select: { firstName: true, lastName: true, email: true } } },
+    });
+
+    return NextResponse.json({ activities });
+  } catch (error) {
+    console.error('[Tickets Activity] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch ticket activity' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { ISSUE_TRACKER_PROVIDERS, IssueTrackerProvider, pushTicket } from '@/lib/issue-trackers';
+import type { ChurnImpact, TicketEvidence } from '@/lib/ticket-scoring';
+
+/**
+ * POST /api/tickets/[id]/push
+ *
+ * Create a Jira or Linear issue for the ticket. Body: { provider }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { provider } = (await request.json()) as { provider?: IssueTrackerProvider };
+
+    if (!provider || !ISSUE_TRACKER_PROVIDERS.includes(provider)) {
+      return NextResponse.json({ error: `provider must be one of ${ISSUE_TRACKER_PROVIDERS.join(', ')}` }, { status: 400 });
+    }
+
+    const access = await requireRecordPermission(
+      await prisma.ticket.findUnique({ where: { id } }),
+      'project:write',
+      'Ticket not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+    const ticket = access.record;
+
+    if (ticket.externalKey) {
+      return NextResponse.json(
+        { error: `Ticket already pushed as ${ticket.externalKey}`, externalUrl: ticket.externalUrl },
+        { status: 409 }
+      );
+    }
+
+    const connection = await prisma.issueTrackerConnection.findUnique({
+      where: { projectId_provider: { projectId: ticket.projectId, provider } },
+    });
+    if (!connection) {
+      return NextResponse.json({ error: `No ${provider} connection configured for this project` }, { status: 400 });
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const updated = await pushTicket(
+      {
+        ...ticket,
+        evidence: ticket.evidence as unknown as TicketEvidence,
+        churnImpact: ticket.churnImpact as unknown as ChurnImpact | null,
+      },
+      connection,
+      appUrl,
+      access.user.id
+    );
+
+    return NextResponse.json({ ticket: updated });
+  } catch (error) {
+    console.error('[Tickets Push] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to push ticket' },
+      { status: 500 }
+    );
+  }
+}
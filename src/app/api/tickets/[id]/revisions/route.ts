@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+
+/**
+ * GET /api/tickets/[id]/revisions
+ *
+ * Earlier descriptions and recommendations the ticket had before
+ * re-synthesis rewrote them, newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await requireRecordPermission(
+      await prisma.ticket.findUnique({ where: { id }, select: { projectId: true } }),
+      'project:read',
+      'Ticket not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const revisions = await prisma.ticketRevision.findMany({
+      where: { ticketId: id },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error('[Tickets Revisions] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch ticket revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import {
+  TICKET_STATUSES,
+  canTransition,
+  nextStatusForUpdate,
+  normalizeTicketStatus,
+  updateTicketLifecycle,
+  type TicketStatus,
+  type TicketUpdateInput,
+} from '@/lib/ticket-lifecycle';
+
+/**
+ * PATCH /api/tickets/[id]
+ *
+ * Move a ticket through its lifecycle. Body: any of { status, assigneeId, team }
+ * assigneeId is an OrganizationMember id of the project's organization (null unassigns).
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await requireRecordPermission(
+      await prisma.ticket.findUnique({ where: { id } }),
+      'project:write',
+      'Ticket not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+    const ticket = access.record;
+
+    const body = await request.json();
+    const update: TicketUpdateInput = {};
+
+    if (body.status !== undefined) {
+      if (!TICKET_STATUSES.includes(body.status)) {
+        return NextResponse.json({ error: `status must be one of ${TICKET_STATUSES.join(', ')}` }, { status: 400 });
+      }
+      update.status = body.status as TicketStatus;
+    }
+
+    if (body.assigneeId !== undefined) {
+      if (body.assigneeId !== null) {
+        const member = await prisma.organizationMember.findFirst({
+          where: { id: body.assigneeId, organizationId: access.project.organizationId ?? undefined },
+        });
+        if (!member) {
+          return NextResponse.json({ error: 'Assignee is not a member of this organization' }, { status: 400 });
+        }
+      }
+      update.assigneeId = body.assigneeId;
+    }
+
+    if (body.team !== undefined) {
+      update.team = typeof body.team === 'string' && body.team.trim() ? body.team.trim() : null;
+    }
+
+    const nextStatus = nextStatusForUpdate(ticket.status, update);
+    if (!canTransition(ticket.status, nextStatus)) {
+      return NextResponse.json(
+        { error: `Cannot move ticket from ${normalizeTicketStatus(ticket.status)} to ${nextStatus}` },
+        { status: 400 }
+      );
+    }
+
+    await updateTicketLifecycle(id, update, access.user.id);
+
+    const updated = await prisma.ticket.findUnique({
+      where: { id },
+      include: { assignee: { include: { user: { select: { firstName: true, lastName: true, email: true, imageUrl: true } } } } },
+    });
+
+    return NextResponse.json({ ticket: updated });
+  } catch (error) {
+    console.error('[Tickets PATCH] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update ticket' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { verifyTicketFix } from '@/lib/fix-verification';
+
+/**
+ * POST /api/tickets/[id]/verification
+ *
+ * Re-measure a resolved or verified ticket now instead of waiting for the
+ * daily cron. Only a resolved ticket's status changes on a final verdict.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await requireRecordPermission(
+      await prisma.ticket.findUnique({
+      where: { id },
+      select: { projectId: true, resolvedAt: true },
+    }),
+      'project:write',
+      'Ticket not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+    const ticket = access.record;
+    if (!ticket.resolvedAt) {
+      return NextResponse.json({ error: 'Only resolved tickets can be verified' }, { status: 400 });
+    }
+
+    const verification = await verifyTicketFix(id);
+    const updated = await prisma.ticket.findUnique({ where: { id } });
+
+    return NextResponse.json({ verification, ticket: updated });
+  } catch (error) {
+    console.error('[Tickets Verification] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to verify ticket' },
+      { status: 500 }
+    );
+  }
+}
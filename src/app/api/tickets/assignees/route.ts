@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
+
+/**
+ * GET /api/tickets/assignees?projectId=...
+ *
+ * Members of the project's organization that tickets can be assigned to.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+    if (!result.project.organizationId) {
+      return NextResponse.json({ members: [] });
+    }
+
+    const members = await prisma.organizationMember.findMany({
+      where: { organizationId: result.project.organizationId },
+      include: { user: { select: { firstName: true, lastName: true, email: true, imageUrl: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ members });
+  } catch (error) {
+    console.error('[Tickets Assignees] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch assignees' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
+import { storedSecretHint } from '@/lib/credential-encryption';
+
+/**
+ * DELETE /api/tickets/connections/[id]
+ *
+ * Disconnects the tracker. Tickets keep their external keys and links.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await requireRecordPermission(
+      await prisma.issueTrackerConnection.findUnique({ where: { id } }),
+      'credentials:manage',
+      'Connection not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
+    await prisma.issueTrackerConnection.delete({ where: { id } });
+    await auditProjectAction(request, access, {
+      action: 'issue_tracker.disconnected',
+      targetType: 'issue_tracker_connection',
+      targetId: id,
+      targetLabel: access.record.provider,
+      before: {
+        baseUrl: access.record.baseUrl,
+        projectKey: access.record.projectKey,
+        apiToken: storedSecretHint(access.record.apiToken),
+      },
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[IssueTrackers API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete connection' },
+      { status: 500 }
+    );
+  }
+}
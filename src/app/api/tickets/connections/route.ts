@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
+import { auditProjectAction, auditStoredChanges } from '@/lib/audit-log';
+import { encryptSecret } from '@/lib/credential-encryption';
+import {
+  DEFAULT_LINEAR_API_URL,
+  generateWebhookSecret,
+  issueTrackerConnectionSchema,
+  toPublicConnection,
+} from '@/lib/issue-trackers';
+
+/**
+ * GET /api/tickets/connections?projectId=...
+ *
+ * Jira / Linear connections for a project. API tokens are masked.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const connections = await prisma.issueTrackerConnection.findMany({
+      where: { projectId },
+      orderBy: { provider: 'asc' },
+    });
+
+    return NextResponse.json({ connections: connections.map(toPublicConnection) });
+  } catch (error) {
+    console.error('[IssueTrackers API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch connections' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tickets/connections
+ *
+ * Create or update the project's connection for a provider.
+ * Body: { projectId, provider, baseUrl?, email?, apiToken?, projectKey, issueType? }
+ * apiToken may be omitted when updating to keep the stored token.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { projectId, ...input } = body;
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'credentials:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const parsed = issueTrackerConnectionSchema.safeParse(input);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid connection: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { provider, baseUrl, email, apiToken, projectKey, issueType } = parsed.data;
+    const existing = await prisma.issueTrackerConnection.findUnique({
+      where: { projectId_provider: { projectId, provider } },
+    });
+
+    if (!existing && !apiToken) {
+      return NextResponse.json({ error: 'apiToken is required' }, { status: 400 });
+    }
+
+    const data = {
+      baseUrl: baseUrl || (provider === 'linear' ? DEFAULT_LINEAR_API_URL : ''),
+      email: provider === 'jira' ? email ?? null : null,
+      projectKey,
+      issueType: provider === 'jira' ? issueType || null : null,
+    };
+    // The token is stored encrypted; compare the plaintext against the stored value for the audit log
+    const fields = ['baseUrl', 'email', 'projectKey', 'issueType', 'apiToken'];
+    const changes = auditStoredChanges(existing ?? {}, { ...data, ...(apiToken ? { apiToken } : {}) }, fields, ['apiToken']);
+    const encryptedToken = apiToken ? encryptSecret(apiToken) : null;
+
+    const connection = existing
+      ? await prisma.issueTrackerConnection.update({
+          where: { id: existing.id },
+          data: { ...data, ...(encryptedToken ? { apiToken: encryptedToken } : {}) },
+        })
+      : await prisma.issueTrackerConnection.create({
+          data: {
+            ...data,
+            projectId,
+            provider,
+            apiToken: encryptedToken as string,
+            webhookSecret: generateWebhookSecret(),
+          },
+        });
+
+    if (changes) {
+      await auditProjectAction(request, result, {
+        action: existing ? 'issue_tracker.updated' : 'issue_tracker.connected',
+        targetType: 'issue_tracker_connection',
+        targetId: connection.id,
+        targetLabel: provider,
+        ...changes,
+      });
+    }
+
+    return NextResponse.json({ connection: toPublicConnection(connection) });
+  } catch (error) {
+    console.error('[IssueTrackers API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save connection' },
+      { status: 500 }
+    );
+  }
+}
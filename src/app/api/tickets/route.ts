@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireProjectPermission } from '@/lib/auth';
 import { junoHardcodedInsights } from '@/lib/hardcoded-insights-juno';
+import { normalizeTicketStatus } from '@/lib/ticket-lifecycle';
 
 // ---------------------------------------------------------------------------
 // Map hardcoded insights → ticket shape for juno-demo
@@ -41,6 +43,9 @@ function getDemoTickets() {
       trending: { firstSeen: oneWeekAgo, lastSeen: now, weeklyCounts: [atRisk, 0, 0, 0], trend: 'rising' },
       jiraMarkdown: `**Title:** ${issue.title}\n**Severity:** ${issue.severity.toUpperCase()} | **Score:** ${score}/100\n\n**Description:**\n${issue.description.slice(0, 300)}...\n\n**Recommendation:**\n${issue.recommendation.slice(0, 300)}...\n\n---\n_Generated by Tranzmit Intelligence_`,
       status: 'open',
+      team: null,
+      assigneeId: null,
+      assignee: null,
       synthesizedAt: now,
       createdAt: now,
       updatedAt: now,
@@ -50,6 +55,8 @@ function getDemoTickets() {
 
 // ---------------------------------------------------------------------------
 // GET /api/tickets?projectId=...
+// Optional filters: status, assigneeId ('unassigned' for none), team, category, severity
+// Stats always cover the whole project so the header doesn't shift with filters.
 // ---------------------------------------------------------------------------
 
 export async function GET(request: NextRequest) {
@@ -80,16 +87,43 @@ export async function GET(request: NextRequest) {
 
   try {
     // Auth check
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:read');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
+    const { searchParams } = request.nextUrl;
+    const where: Prisma.TicketWhereInput = { projectId };
+
+    const status = searchParams.get('status');
+    if (status) {
+      // Legacy 'pushed' rows belong to the triaged bucket
+      where.status = status === 'triaged' ? { in: ['triaged', 'pushed'] } : status;
+    }
+    const assigneeId = searchParams.get('assigneeId');
+    if (assigneeId) {
+      where.assigneeId = assigneeId === 'unassigned' ? null : assigneeId;
+    }
+    const team = searchParams.get('team');
+    if (team) where.team = team;
+    const category = searchParams.get('category');
+    if (category) where.category = category;
+    const severity = searchParams.get('severity');
+    if (severity) where.severity = severity;
+
     // Fetch tickets ordered by composite score
-    const tickets = await prisma.ticket.findMany({
-      where: { projectId },
-      orderBy: { compositeScore: 'desc' },
-    });
+    const [filtered, tickets] = await Promise.all([
+      prisma.ticket.findMany({
+        where,
+        orderBy: { compositeScore: 'desc' },
+        include: { assignee: { include: { user: { select: { firstName: true, lastName: true, email: true, imageUrl: true } } } } },
+      }),
+      prisma.ticket.findMany({
+        where: { projectId },
+        select: { severity: true, status: true, team: true, synthesizedAt: true },
+        orderBy: { compositeScore: 'desc' },
+      }),
+    ]);
 
     const critical = tickets.filter((t) => t.severity === 'critical').length;
     const high = tickets.filter((t) => t.severity === 'high').length;
@@ -97,14 +131,23 @@ export async function GET(request: NextRequest) {
     const lastSynthesized =
       tickets.length > 0 ? tickets[0].synthesizedAt?.toISOString() ?? null : null;
 
+    const byStatus: Record<string, number> = {};
+    for (const t of tickets) {
+      const key = normalizeTicketStatus(t.status);
+      byStatus[key] = (byStatus[key] || 0) + 1;
+    }
+    const teams = Array.from(new Set(tickets.map((t) => t.team).filter((t): t is string => !!t))).sort();
+
     return NextResponse.json({
-      tickets,
+      tickets: filtered.map((t) => ({ ...t, status: normalizeTicketStatus(t.status) })),
       stats: {
         total: tickets.length,
         critical,
         high,
         medium,
         lastSynthesized,
+        byStatus,
+        teams,
       },
     });
   } catch (error) {
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
+
+/**
+ * DELETE /api/tickets/routing-rules/[id]
+ *
+ * Existing tickets keep their team; only new tickets stop being routed.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await requireRecordPermission(
+      await prisma.ticketRoutingRule.findUnique({ where: { id } }),
+      'settings:manage',
+      'Routing rule not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
+    await prisma.ticketRoutingRule.delete({ where: { id } });
+    await auditProjectAction(request, access, {
+      action: 'routing_rule.deleted',
+      targetType: 'ticket_routing_rule',
+      targetId: id,
+      targetLabel: access.record.category,
+      before: { team: access.record.team, defaultAssigneeId: access.record.defaultAssigneeId },
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Routing Rules API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete routing rule' },
+      { status: 500 }
+    );
+  }
+}
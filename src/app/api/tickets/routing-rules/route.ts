@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
+import { auditChanges, auditProjectAction } from '@/lib/audit-log';
+import { TICKET_CATEGORIES } from '@/lib/ticket-lifecycle';
+
+/**
+ * GET /api/tickets/routing-rules?projectId=...
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const rules = await prisma.ticketRoutingRule.findMany({
+      where: { projectId },
+      orderBy: { category: 'asc' },
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('[Routing Rules API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch routing rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tickets/routing-rules
+ *
+ * Create or replace the rule for a category.
+ * Body: { projectId, category, team, defaultAssigneeId? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, category, team, defaultAssigneeId } = await request.json();
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'settings:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    if (!TICKET_CATEGORIES.includes(category)) {
+      return NextResponse.json({ error: `category must be one of ${TICKET_CATEGORIES.join(', ')}` }, { status: 400 });
+    }
+    if (typeof team !== 'string' || !team.trim()) {
+      return NextResponse.json({ error: 'team is required' }, { status: 400 });
+    }
+    if (defaultAssigneeId) {
+      const member = await prisma.organizationMember.findFirst({
+        where: { id: defaultAssigneeId, organizationId: result.project.organizationId ?? undefined },
+      });
+      if (!member) {
+        return NextResponse.json({ error: 'Default assignee is not a member of this organization' }, { status: 400 });
+      }
+    }
+
+    const data = { team: team.trim().slice(0, 100), defaultAssigneeId: defaultAssigneeId || null };
+    const existing = await prisma.ticketRoutingRule.findUnique({
+      where: { projectId_category: { projectId, category } },
+    });
+    const rule = await prisma.ticketRoutingRule.upsert({
+      where: { projectId_category: { projectId, category } },
+      create: { projectId, category, ...data },
+      update: data,
+    });
+
+    const changes = auditChanges(existing ?? {}, data, ['team', 'defaultAssigneeId']);
+    if (changes) {
+      await auditProjectAction(request, result, {
+        action: existing ? 'routing_rule.updated' : 'routing_rule.created',
+        targetType: 'ticket_routing_rule',
+        targetId: rule.id,
+        targetLabel: category,
+        ...changes,
+      });
+    }
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('[Routing Rules API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save routing rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireProjectPermission } from '@/lib/auth';
 import { analyzeConversation } from '@/lib/conversation-analysis';
 import { generateObject } from 'ai';
 import { openai } from '@ai-sdk/openai';
@@ -27,7 +28,11 @@ import {
   type ChurnScoreRow,
   type UserInfo,
   type ExistingTicketTrending,
+  type TicketEvidence,
 } from '@/lib/ticket-scoring';
+import { recordTicketActivity, routeTicket, type TicketActivityInput } from '@/lib/ticket-lifecycle';
+import { matchTickets, revisedFields } from '@/lib/ticket-matching';
+import { emitWebhookEvent, toWebhookTicket } from '@/lib/webhooks';
 
 // ---------------------------------------------------------------------------
 // Zod schema for LLM output
@@ -98,9 +103,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Auth
-    const projectAccess = await getProjectWithAccess(projectId);
-    if (!projectAccess) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const projectAccess = await requireProjectPermission(projectId, 'project:write');
+    if (!projectAccess.ok) {
+      return projectAccess.response;
     }
 
     // -----------------------------------------------------------------------
@@ -400,18 +405,40 @@ Based on this evidence, create actionable product tickets. Reference the entry n
     // -----------------------------------------------------------------------
     const existingTickets = await prisma.ticket.findMany({
       where: { projectId },
-      select: { title: true, trending: true },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        recommendation: true,
+        category: true,
+        evidence: true,
+        trending: true,
+        compositeScore: true,
+        synthesizedAt: true,
+      },
     });
 
-    const ticketsWithTrending = enrichedTickets.map((ticket) => {
-      const previous = existingTickets.find(
-        (et) => et.title.toLowerCase() === ticket.title.toLowerCase(),
-      );
+    // Match new output to existing tickets by evidence overlap / wording so
+    // tickets keep their identity when the LLM rewords a title
+    const matches = matchTickets(
+      enrichedTickets.map((t) => ({
+        title: t.title,
+        description: t.description as string,
+        category: t.category as string,
+        evidence: t.evidence,
+      })),
+      existingTickets.map((et) => ({ ...et, evidence: et.evidence as unknown as TicketEvidence })),
+    );
+    const existingById = new Map(existingTickets.map((et) => [et.id, et]));
+
+    const ticketsWithTrending = enrichedTickets.map((ticket, idx) => {
+      const match = matches.get(idx);
+      const previous = match ? existingById.get(match.ticketId) : undefined;
       const existingTrending = previous?.trending as ExistingTicketTrending | null;
       const evidenceCount = ticket.evidence.sessionIds.length + ticket.evidence.conversationIds.length;
       const trending = computeTrending(existingTrending, evidenceCount);
 
-      return { ...ticket, trending };
+      return { ...ticket, trending, match };
     });
 
     // -----------------------------------------------------------------------
@@ -420,7 +447,7 @@ Based on this evidence, create actionable product tickets. Reference the entry n
     const finalTickets = ticketsWithTrending.map((ticket) => ({
       ...ticket,
       jiraMarkdown: generateJiraMarkdown({
-        title: ticket.title,
+        title: ticket.match ? existingById.get(ticket.match.ticketId)!.title : ticket.title,
         severity: ticket.severity as string,
         category: ticket.category as string,
         compositeScore: ticket.compositeScore,
@@ -433,16 +460,18 @@ Based on this evidence, create actionable product tickets. Reference the entry n
     }));
 
     // -----------------------------------------------------------------------
-    // Persist: delete old tickets, create new ones
+    // Persist: update matched tickets in place so their lifecycle (status,
+    // assignee, activity, pushed issue) survives, keeping the previous
+    // wording as a revision; route new ones
     // -----------------------------------------------------------------------
     const now = new Date();
+    const routingRules = await prisma.ticketRoutingRule.findMany({ where: { projectId } });
+    const currentIds: string[] = [];
 
-    await prisma.ticket.deleteMany({ where: { projectId } });
-
-    await prisma.ticket.createMany({
-      data: finalTickets.map((t) => ({
-        projectId: projectId!,
-        title: t.title,
+    for (const t of finalTickets) {
+      // Title is only set on creation — it's what people and pushed issues
+      // know the ticket by, so re-synthesis doesn't rename it
+      const content = {
         description: t.description as string,
         severity: t.severity as string,
         category: t.category as string,
@@ -455,7 +484,74 @@ Based on this evidence, create actionable product tickets. Reference the entry n
         compositeScore: t.compositeScore,
         jiraMarkdown: t.jiraMarkdown,
         synthesizedAt: now,
-      })),
+      };
+
+      const previous = t.match ? existingById.get(t.match.ticketId) : undefined;
+      if (previous) {
+        const changed = revisedFields(previous, content);
+        const updated = await prisma.$transaction(async (tx) => {
+          if (changed.length > 0) {
+            await tx.ticketRevision.create({
+              data: {
+                ticketId: previous.id,
+                title: previous.title,
+                description: previous.description,
+                recommendation: previous.recommendation,
+                changedFields: changed,
+                synthesizedAt: previous.synthesizedAt,
+                matchScore: t.match!.score,
+              },
+            });
+            await recordTicketActivity(
+              {
+                ticketId: previous.id,
+                type: 'revised',
+                toValue: changed.join(', '),
+                message: t.match!.reason === 'title' ? null : `Matched "${t.title}" by ${t.match!.reason}`,
+              },
+              tx,
+            );
+          }
+          return tx.ticket.update({ where: { id: previous.id }, data: content });
+        });
+        currentIds.push(previous.id);
+
+        if (updated.compositeScore !== previous.compositeScore) {
+          await emitWebhookEvent(projectId!, 'ticket.score_changed', {
+            ticket: toWebhookTicket(updated),
+            previousScore: previous.compositeScore,
+          });
+        }
+        continue;
+      }
+
+      const route = routeTicket(content.category, routingRules);
+      const created = await prisma.ticket.create({
+        data: { ...content, title: t.title, projectId: projectId!, team: route.team, assigneeId: route.assigneeId, status: route.status },
+      });
+      currentIds.push(created.id);
+
+      const activity: TicketActivityInput[] = [{ ticketId: created.id, type: 'created', toValue: route.status }];
+      if (route.team) {
+        activity.push({ ticketId: created.id, type: 'team_changed', toValue: route.team, message: `Routed by the ${content.category} rule` });
+      }
+      if (route.assigneeId) {
+        activity.push({ ticketId: created.id, type: 'assigned', toValue: route.assigneeId, message: `Routed by the ${content.category} rule` });
+      }
+      await recordTicketActivity(activity);
+      await emitWebhookEvent(projectId!, 'ticket.created', { ticket: toWebhookTicket(created) });
+    }
+
+    // Drop stale tickets nobody has acted on; triaged, assigned, pushed,
+    // closed or reopened-after-regression tickets stay so their history isn't lost
+    await prisma.ticket.deleteMany({
+      where: {
+        projectId,
+        id: { notIn: currentIds },
+        status: 'open',
+        externalKey: null,
+        verification: { equals: Prisma.DbNull },
+      },
     });
 
     // -----------------------------------------------------------------------
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectPermission, requireRecordPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
 
 // GET - Fetch all uploaded users for a project
 export async function GET(request: NextRequest) {
@@ -11,6 +13,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Project ID is required' }, { status: 400 });
     }
 
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+      return access.response;
+    }
+
     const users = await prisma.uploadedUser.findMany({
       where: { projectId },
       orderBy: { createdAt: 'desc' },
@@ -33,6 +40,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Project ID is required' }, { status: 400 });
     }
 
+    const access = await requireProjectPermission(projectId, 'project:write');
+    if (!access.ok) {
+      return access.response;
+    }
+
     if (!users || !Array.isArray(users) || users.length === 0) {
       return NextResponse.json({ error: 'Users array is required' }, { status: 400 });
     }
@@ -92,10 +104,20 @@ export async function DELETE(request: NextRequest) {
     const deleteAll = searchParams.get('deleteAll');
 
     if (deleteAll === 'true' && projectId) {
+      const access = await requireProjectPermission(projectId, 'data:delete');
+      if (!access.ok) {
+        return access.response;
+      }
+
       // Delete all users for a project
-      await prisma.uploadedUser.deleteMany({
+      const deleted = await prisma.uploadedUser.deleteMany({
         where: { projectId },
       });
+      await auditProjectAction(request, access, {
+        action: 'data.deleted',
+        targetType: 'uploaded_user',
+        metadata: { all: true, count: deleted.count },
+      });
       return NextResponse.json({ message: 'All users deleted' });
     }
 
@@ -103,9 +125,24 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
     }
 
+    const access = await requireRecordPermission(
+      await prisma.uploadedUser.findUnique({ where: { id: userId }, select: { projectId: true, email: true } }),
+      'data:delete',
+      'User not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     await prisma.uploadedUser.delete({
       where: { id: userId },
     });
+    await auditProjectAction(request, access, {
+      action: 'data.deleted',
+      targetType: 'uploaded_user',
+      targetId: userId,
+      targetLabel: access.record.email,
+    });
 
     return NextResponse.json({ message: 'User deleted' });
   } catch (error) {
@@ -124,6 +161,15 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'User ID and invite status are required' }, { status: 400 });
     }
 
+    const access = await requireRecordPermission(
+      await prisma.uploadedUser.findUnique({ where: { id: userId }, select: { projectId: true } }),
+      'project:write',
+      'User not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
     const user = await prisma.uploadedUser.update({
       where: { id: userId },
       data: {
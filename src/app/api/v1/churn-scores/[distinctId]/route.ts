@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, toApiChurnScore } from '@/lib/public-api';
+import { TRAJECTORY_WINDOWS, type TrajectoryWindow } from '@/lib/churn-scoring/trajectory';
+
+/**
+ * GET /api/v1/churn-scores/[distinctId]?days=30|60|90
+ *
+ * One user's daily scores over the window, oldest first. Requires the read scope.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ distinctId: string }> }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'read');
+    if (!auth.ok) return auth.response;
+
+    const { distinctId } = await params;
+    const days = Number(request.nextUrl.searchParams.get('days') ?? 30);
+    if (!TRAJECTORY_WINDOWS.includes(days as TrajectoryWindow)) {
+      return NextResponse.json(
+        { error: `days must be one of: ${TRAJECTORY_WINDOWS.join(', ')}` },
+        { status: 400, headers: auth.headers }
+      );
+    }
+
+    const since = new Date();
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCDate(since.getUTCDate() - days);
+
+    const rows = await prisma.dailyChurnScore.findMany({
+      where: { projectId: auth.apiKey.projectId, distinctId, date: { gte: since } },
+      orderBy: { date: 'asc' },
+    });
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'No scores for this user in the window' }, { status: 404, headers: auth.headers });
+    }
+
+    return NextResponse.json({ distinctId, data: rows.map(toApiChurnScore) }, { headers: auth.headers });
+  } catch (error) {
+    console.error('[API v1] GET /churn-scores/[distinctId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, pageArgs, parsePageParams, toApiChurnScore, toPage } from '@/lib/public-api';
+
+const RISK_LEVELS = ['low', 'medium', 'high', 'critical'];
+const SEGMENTS = ['new_user', 'active_user', 'paid_user'];
+
+/**
+ * GET /api/v1/churn-scores?date=YYYY-MM-DD&risk_level=&segment=&limit=&cursor=
+ *
+ * Per-user churn risk scores for one scoring day (the latest by default),
+ * riskiest first. Requires the read scope.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiRequest(request, 'read');
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = request.nextUrl;
+    const page = parsePageParams(searchParams);
+    if (!page.ok) {
+      return NextResponse.json({ error: page.error }, { status: 400, headers: auth.headers });
+    }
+
+    const projectId = auth.apiKey.projectId;
+    const dateParam = searchParams.get('date');
+    let date: Date | null;
+    if (dateParam) {
+      date = /^\d{4}-\d{2}-\d{2}$/.test(dateParam) ? new Date(`${dateParam}T00:00:00.000Z`) : null;
+      if (!date || isNaN(date.getTime())) {
+        return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400, headers: auth.headers });
+      }
+    } else {
+      const latest = await prisma.dailyChurnScore.findFirst({
+        where: { projectId },
+        orderBy: { date: 'desc' },
+        select: { date: true },
+      });
+      date = latest?.date ?? null;
+    }
+
+    if (!date) {
+      return NextResponse.json({ date: null, data: [], nextCursor: null }, { headers: auth.headers });
+    }
+
+    const where: Prisma.DailyChurnScoreWhereInput = { projectId, date };
+    const riskLevel = searchParams.get('risk_level');
+    if (riskLevel) {
+      if (!RISK_LEVELS.includes(riskLevel)) {
+        return NextResponse.json(
+          { error: `risk_level must be one of: ${RISK_LEVELS.join(', ')}` },
+          { status: 400, headers: auth.headers }
+        );
+      }
+      where.riskLevel = riskLevel;
+    }
+    const segment = searchParams.get('segment');
+    if (segment) {
+      if (!SEGMENTS.includes(segment)) {
+        return NextResponse.json(
+          { error: `segment must be one of: ${SEGMENTS.join(', ')}` },
+          { status: 400, headers: auth.headers }
+        );
+      }
+      where.segment = segment;
+    }
+
+    const rows = await prisma.dailyChurnScore.findMany({
+      where,
+      orderBy: [{ riskScore: 'desc' }, { id: 'asc' }],
+      ...pageArgs(page.params),
+    });
+
+    const { data, nextCursor } = toPage(rows, page.params.limit);
+    return NextResponse.json(
+      { date: date.toISOString().slice(0, 10), data: data.map(toApiChurnScore), nextCursor },
+      { headers: auth.headers }
+    );
+  } catch (error) {
+    console.error('[API v1] GET /churn-scores error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
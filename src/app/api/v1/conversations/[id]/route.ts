@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, toApiConversation } from '@/lib/public-api';
+
+/**
+ * GET /api/v1/conversations/[id]
+ *
+ * A conversation with its transcript and analysis. Requires the read scope.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'read');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const conversation = await prisma.conversation.findFirst({
+      where: { id, projectId: auth.apiKey.projectId },
+    });
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404, headers: auth.headers });
+    }
+
+    return NextResponse.json(
+      { data: toApiConversation(conversation, { includeTranscript: true }) },
+      { headers: auth.headers }
+    );
+  } catch (error) {
+    console.error('[API v1] GET /conversations/[id] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
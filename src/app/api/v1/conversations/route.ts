@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, pageArgs, parsePageParams, toApiConversation, toPage } from '@/lib/public-api';
+
+const ANALYSIS_STATUSES = ['pending', 'analyzing', 'completed', 'failed'];
+
+/**
+ * GET /api/v1/conversations?limit=&cursor=&updated_since=&analysis_status=
+ *
+ * Voice / chat conversations with their analyses, newest first. Transcripts
+ * are only returned by the single-conversation endpoint. Requires the read scope.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiRequest(request, 'read');
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = request.nextUrl;
+    const page = parsePageParams(searchParams);
+    if (!page.ok) {
+      return NextResponse.json({ error: page.error }, { status: 400, headers: auth.headers });
+    }
+
+    const analysisStatus = searchParams.get('analysis_status');
+    if (analysisStatus && !ANALYSIS_STATUSES.includes(analysisStatus)) {
+      return NextResponse.json(
+        { error: `analysis_status must be one of: ${ANALYSIS_STATUSES.join(', ')}` },
+        { status: 400, headers: auth.headers }
+      );
+    }
+
+    const rows = await prisma.conversation.findMany({
+      where: {
+        projectId: auth.apiKey.projectId,
+        ...(analysisStatus ? { analysisStatus } : {}),
+        ...(page.params.updatedSince ? { updatedAt: { gte: page.params.updatedSince } } : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...pageArgs(page.params),
+    });
+
+    const { data, nextCursor } = toPage(rows, page.params.limit);
+    return NextResponse.json(
+      { data: data.map((c) => toApiConversation(c, { includeTranscript: false })), nextCursor },
+      { headers: auth.headers }
+    );
+  } catch (error) {
+    console.error('[API v1] GET /conversations error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { API_SESSION_SELECT, authenticateApiRequest, toApiSession } from '@/lib/public-api';
+import { analyzeSession } from '@/lib/session-analysis';
+
+export const maxDuration = 60;
+
+/**
+ * POST /api/v1/sessions/[id]/analyze
+ *
+ * Run (or re-run) AI analysis of a session and return it with the result.
+ * Requires the write scope.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'write');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const session = await prisma.session.findFirst({
+      where: { id, projectId: auth.apiKey.projectId },
+      select: { id: true, eventCount: true, analysisStatus: true },
+    });
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404, headers: auth.headers });
+    }
+    if (session.analysisStatus === 'analyzing') {
+      return NextResponse.json({ error: 'Session is already being analyzed' }, { status: 409, headers: auth.headers });
+    }
+    if (session.eventCount === 0) {
+      return NextResponse.json({ error: 'Session has no events to analyze' }, { status: 400, headers: auth.headers });
+    }
+
+    try {
+      await analyzeSession(id);
+    } catch (err) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : 'Analysis failed' },
+        { status: 502, headers: auth.headers }
+      );
+    }
+
+    const analyzed = await prisma.session.findUniqueOrThrow({ where: { id }, select: API_SESSION_SELECT });
+    return NextResponse.json({ data: toApiSession(analyzed, { includeAnalysis: true }) }, { headers: auth.headers });
+  } catch (error) {
+    console.error('[API v1] POST /sessions/[id]/analyze error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { API_SESSION_SELECT, authenticateApiRequest, toApiSession } from '@/lib/public-api';
+
+/**
+ * GET /api/v1/sessions/[id]
+ *
+ * A session with its DOM and multimodal analyses. Requires the read scope.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'read');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const session = await prisma.session.findFirst({
+      where: { id, projectId: auth.apiKey.projectId },
+      select: API_SESSION_SELECT,
+    });
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404, headers: auth.headers });
+    }
+
+    return NextResponse.json({ data: toApiSession(session, { includeAnalysis: true }) }, { headers: auth.headers });
+  } catch (error) {
+    console.error('[API v1] GET /sessions/[id] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  API_SESSION_SELECT,
+  authenticateApiRequest,
+  pageArgs,
+  parsePageParams,
+  toApiSession,
+  toPage,
+} from '@/lib/public-api';
+
+const ANALYSIS_STATUSES = ['pending', 'analyzing', 'completed', 'failed'];
+
+/**
+ * GET /api/v1/sessions?limit=&cursor=&updated_since=&analysis_status=&include=analysis
+ *
+ * Sessions of the key's project, newest first. Analyses are included with
+ * `include=analysis`. Requires the read scope.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiRequest(request, 'read');
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = request.nextUrl;
+    const page = parsePageParams(searchParams);
+    if (!page.ok) {
+      return NextResponse.json({ error: page.error }, { status: 400, headers: auth.headers });
+    }
+
+    const analysisStatus = searchParams.get('analysis_status');
+    if (analysisStatus && !ANALYSIS_STATUSES.includes(analysisStatus)) {
+      return NextResponse.json(
+        { error: `analysis_status must be one of: ${ANALYSIS_STATUSES.join(', ')}` },
+        { status: 400, headers: auth.headers }
+      );
+    }
+
+    const rows = await prisma.session.findMany({
+      where: {
+        projectId: auth.apiKey.projectId,
+        ...(analysisStatus ? { analysisStatus } : {}),
+        ...(page.params.updatedSince ? { updatedAt: { gte: page.params.updatedSince } } : {}),
+      },
+      select: API_SESSION_SELECT,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...pageArgs(page.params),
+    });
+
+    const includeAnalysis = searchParams.get('include') === 'analysis';
+    const { data, nextCursor } = toPage(rows, page.params.limit);
+
+    return NextResponse.json(
+      { data: data.map((s) => toApiSession(s, { includeAnalysis })), nextCursor },
+      { headers: auth.headers }
+    );
+  } catch (error) {
+    console.error('[API v1] GET /sessions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, toApiTicket } from '@/lib/public-api';
+import {
+  TICKET_STATUSES,
+  canTransition,
+  nextStatusForUpdate,
+  normalizeTicketStatus,
+  updateTicketLifecycle,
+  type TicketStatus,
+  type TicketUpdateInput,
+} from '@/lib/ticket-lifecycle';
+
+/**
+ * GET /api/v1/tickets/[id]
+ *
+ * Requires the read scope.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'read');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const ticket = await prisma.ticket.findFirst({ where: { id, projectId: auth.apiKey.projectId } });
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404, headers: auth.headers });
+    }
+
+    return NextResponse.json({ data: toApiTicket(ticket) }, { headers: auth.headers });
+  } catch (error) {
+    console.error('[API v1] GET /tickets/[id] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/v1/tickets/[id]
+ *
+ * Body: any of { status, assigneeId, team } — the same lifecycle rules as the
+ * dashboard apply, and changes show in the ticket's activity log without an
+ * actor. Requires the write scope.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'write');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const ticket = await prisma.ticket.findFirst({
+      where: { id, projectId: auth.apiKey.projectId },
+      include: { project: { select: { organizationId: true } } },
+    });
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404, headers: auth.headers });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400, headers: auth.headers });
+    }
+    const update: TicketUpdateInput = {};
+
+    if (body.status !== undefined) {
+      if (!TICKET_STATUSES.includes(body.status)) {
+        return NextResponse.json(
+          { error: `status must be one of ${TICKET_STATUSES.join(', ')}` },
+          { status: 400, headers: auth.headers }
+        );
+      }
+      update.status = body.status as TicketStatus;
+    }
+
+    if (body.assigneeId !== undefined) {
+      if (body.assigneeId !== null) {
+        const member = await prisma.organizationMember.findFirst({
+          where: { id: body.assigneeId, organizationId: ticket.project.organizationId ?? undefined },
+        });
+        if (!member) {
+          return NextResponse.json(
+            { error: 'Assignee is not a member of this organization' },
+            { status: 400, headers: auth.headers }
+          );
+        }
+      }
+      update.assigneeId = body.assigneeId;
+    }
+
+    if (body.team !== undefined) {
+      update.team = typeof body.team === 'string' && body.team.trim() ? body.team.trim() : null;
+    }
+
+    const nextStatus = nextStatusForUpdate(ticket.status, update);
+    if (!canTransition(ticket.status, nextStatus)) {
+      return NextResponse.json(
+        { error: `Cannot move ticket from ${normalizeTicketStatus(ticket.status)} to ${nextStatus}` },
+        { status: 400, headers: auth.headers }
+      );
+    }
+
+    const updated = await updateTicketLifecycle(id, update, null);
+    return NextResponse.json({ data: toApiTicket(updated) }, { headers: auth.headers });
+  } catch (error) {
+    console.error('[API v1] PATCH /tickets/[id] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
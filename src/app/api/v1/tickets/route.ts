@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, pageArgs, parsePageParams, toApiTicket, toPage } from '@/lib/public-api';
+import { TICKET_CATEGORIES, TICKET_STATUSES } from '@/lib/ticket-lifecycle';
+
+/**
+ * GET /api/v1/tickets?limit=&cursor=&updated_since=&status=&category=&severity=&team=
+ *
+ * Synthesized tickets, newest first. Requires the read scope.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiRequest(request, 'read');
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = request.nextUrl;
+    const page = parsePageParams(searchParams);
+    if (!page.ok) {
+      return NextResponse.json({ error: page.error }, { status: 400, headers: auth.headers });
+    }
+
+    const where: Prisma.TicketWhereInput = { projectId: auth.apiKey.projectId };
+
+    const status = searchParams.get('status');
+    if (status) {
+      if (!(TICKET_STATUSES as readonly string[]).includes(status)) {
+        return NextResponse.json(
+          { error: `status must be one of: ${TICKET_STATUSES.join(', ')}` },
+          { status: 400, headers: auth.headers }
+        );
+      }
+      // Legacy 'pushed' rows belong to the triaged bucket
+      where.status = status === 'triaged' ? { in: ['triaged', 'pushed'] } : status;
+    }
+    const category = searchParams.get('category');
+    if (category) {
+      if (!(TICKET_CATEGORIES as readonly string[]).includes(category)) {
+        return NextResponse.json(
+          { error: `category must be one of: ${TICKET_CATEGORIES.join(', ')}` },
+          { status: 400, headers: auth.headers }
+        );
+      }
+      where.category = category;
+    }
+    const severity = searchParams.get('severity');
+    if (severity) where.severity = severity;
+    const team = searchParams.get('team');
+    if (team) where.team = team;
+    if (page.params.updatedSince) where.updatedAt = { gte: page.params.updatedSince };
+
+    const rows = await prisma.ticket.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...pageArgs(page.params),
+    });
+
+    const { data, nextCursor } = toPage(rows, page.params.limit);
+    return NextResponse.json({ data: data.map(toApiTicket), nextCursor }, { headers: auth.headers });
+  } catch (error) {
+    console.error('[API v1] GET /tickets error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { redeliver } from '@/lib/webhooks';
+
+/**
+ * POST /api/webhook-endpoints/[id]/deliveries/[deliveryId]/redeliver
+ *
+ * Send a logged event again as a new delivery, e.g. after fixing a receiver
+ * that exhausted its retries. The event keeps its id so receivers can dedupe.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const { id, deliveryId } = await params;
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: true },
+    });
+    const access = await requireRecordPermission(
+      delivery?.endpointId === id ? delivery : null,
+      'settings:manage',
+      'Delivery not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const result = await redeliver(access.record);
+    return NextResponse.json({ delivery: result });
+  } catch (error) {
+    console.error('[Webhook Endpoints API] Redeliver error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to redeliver event' },
+      { status: 500 }
+    );
+  }
+}
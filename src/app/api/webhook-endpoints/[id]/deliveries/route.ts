@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+
+const DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'];
+
+/**
+ * GET /api/webhook-endpoints/[id]/deliveries?status=...&limit=50
+ *
+ * Delivery log for an endpoint, newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await requireRecordPermission(
+      await prisma.webhookEndpoint.findUnique({ where: { id } }),
+      'project:read',
+      'Webhook endpoint not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}` }, { status: 400 });
+    }
+    const limit = Math.min(Math.max(Number(request.nextUrl.searchParams.get('limit')) || 50, 1), 200);
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { endpointId: id, ...(status ? { status } : {}) },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error('[Webhook Endpoints API] Deliveries error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch deliveries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { auditChanges, auditProjectAction } from '@/lib/audit-log';
+import { outboundUrlError } from '@/lib/outbound-url';
+import { auditedWebhookEndpoint, toPublicWebhookEndpoint, webhookEndpointSchema } from '@/lib/webhooks';
+
+async function findEndpointWithAccess(id: string) {
+  const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id } });
+  return requireRecordPermission(endpoint, 'settings:manage', 'Webhook endpoint not found');
+}
+
+/**
+ * PATCH /api/webhook-endpoints/[id]
+ *
+ * Body: any of url, events, description, enabled.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await findEndpointWithAccess(id);
+    if (!access.ok) {
+      return access.response;
+    }
+    const existing = access.record;
+
+    const body = await request.json();
+
+    const parsed = webhookEndpointSchema.safeParse({
+      url: body.url ?? existing.url,
+      events: body.events ?? existing.events,
+      description: body.description !== undefined ? body.description : existing.description,
+      enabled: body.enabled ?? existing.enabled,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid webhook endpoint: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.url !== existing.url) {
+      const urlError = await outboundUrlError(parsed.data.url);
+      if (urlError) {
+        return NextResponse.json({ error: `Invalid webhook endpoint: ${urlError}` }, { status: 400 });
+      }
+    }
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    const after = auditedWebhookEndpoint(endpoint);
+    const changes = auditChanges(auditedWebhookEndpoint(existing), after, Object.keys(after));
+    if (changes) {
+      await auditProjectAction(request, access, {
+        action: 'webhook_endpoint.updated',
+        targetType: 'webhook_endpoint',
+        targetId: id,
+        targetLabel: endpoint.url,
+        ...changes,
+      });
+    }
+
+    return NextResponse.json({ endpoint: toPublicWebhookEndpoint(endpoint) });
+  } catch (error) {
+    console.error('[Webhook Endpoints API] PATCH error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update webhook endpoint' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/webhook-endpoints/[id]
+ *
+ * Also drops the endpoint's delivery log and any pending retries.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await findEndpointWithAccess(id);
+    if (!access.ok) {
+      return access.response;
+    }
+
+    await prisma.webhookEndpoint.delete({ where: { id } });
+    await auditProjectAction(request, access, {
+      action: 'webhook_endpoint.deleted',
+      targetType: 'webhook_endpoint',
+      targetId: id,
+      targetLabel: access.record.url,
+      before: auditedWebhookEndpoint(access.record),
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Webhook Endpoints API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete webhook endpoint' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRecordPermission } from '@/lib/auth';
+import { sendTestEvent } from '@/lib/webhooks';
+
+/**
+ * POST /api/webhook-endpoints/[id]/test
+ *
+ * Send a signed `ping` event to the endpoint. The attempt is logged like
+ * any other delivery and returned so the outcome can be shown right away.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await requireRecordPermission(
+      await prisma.webhookEndpoint.findUnique({ where: { id } }),
+      'settings:manage',
+      'Webhook endpoint not found'
+    );
+    if (!access.ok) {
+      return access.response;
+    }
+    const endpoint = access.record;
+
+    const delivery = await sendTestEvent(endpoint);
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error('[Webhook Endpoints API] Test error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send test event' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectPermission } from '@/lib/auth';
+import { auditProjectAction } from '@/lib/audit-log';
+import { outboundUrlError } from '@/lib/outbound-url';
+import { auditedWebhookEndpoint, generateWebhookSecret, toPublicWebhookEndpoint, webhookEndpointSchema } from '@/lib/webhooks';
+
+/**
+ * GET /api/webhook-endpoints?projectId=...
+ *
+ * Outbound webhook endpoints for a project. Signing secrets are masked.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'project:read');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ endpoints: endpoints.map(toPublicWebhookEndpoint) });
+  } catch (error) {
+    console.error('[Webhook Endpoints API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch webhook endpoints' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhook-endpoints
+ *
+ * Body: { projectId, url, events, description?, enabled? }
+ * The signing secret is returned in full only in this response.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, ...input } = await request.json();
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const result = await requireProjectPermission(projectId, 'settings:manage');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const parsed = webhookEndpointSchema.safeParse(input);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid webhook endpoint: ${parsed.error.issues.map((i) => i.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const urlError = await outboundUrlError(parsed.data.url);
+    if (urlError) {
+      return NextResponse.json({ error: `Invalid webhook endpoint: ${urlError}` }, { status: 400 });
+    }
+
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: { projectId, ...parsed.data, secret: generateWebhookSecret() },
+    });
+    await auditProjectAction(request, result, {
+      action: 'webhook_endpoint.created',
+      targetType: 'webhook_endpoint',
+      targetId: endpoint.id,
+      targetLabel: endpoint.url,
+      after: auditedWebhookEndpoint(endpoint),
+    });
+
+    return NextResponse.json({ endpoint: toPublicWebhookEndpoint(endpoint), secret: endpoint.secret });
+  } catch (error) {
+    console.error('[Webhook Endpoints API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create webhook endpoint' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,8 @@ import { headers } from 'next/headers';
 import { WebhookEvent } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/prisma';
 import { generateSdkApiKey, provisionSdkTenant } from '@/lib/sdk-db';
+import { projectApiKeyFields } from '@/lib/project-api-key';
+import { promoteSuccessorOwners } from '@/lib/organization-invitations';
 import crypto from 'crypto';
 
 // Generate URL-friendly slug from name
@@ -98,18 +100,23 @@ export async function POST(req: Request) {
           },
         });
 
-        // Generate an SDK-compatible API key (eb_live_* format)
-        const apiKey = generateSdkApiKey();
+        // Generate an SDK-compatible API key (eb_live_* format). Only its hash is
+        // kept; the user generates a key they can see during onboarding.
+        const keyFields = projectApiKeyFields(generateSdkApiKey());
         await prisma.project.create({
           data: {
             organizationId: organization.id,
             name: 'Default Project',
-            apiKey,
+            ...keyFields,
           },
         });
 
         // Provision tenant + API key in the SDK database
-        const sdkResult = await provisionSdkTenant({ name: orgName, apiKey });
+        const sdkResult = await provisionSdkTenant({
+          name: orgName,
+          keyHash: keyFields.apiKeyHash,
+          keyPrefix: keyFields.apiKeyPrefix,
+        });
         if (!sdkResult) {
           console.warn(`[Clerk Webhook] SDK provisioning failed for org ${organization.id}, API key will not work until manually synced`);
         }
@@ -140,6 +147,16 @@ export async function POST(req: Request) {
         const { id } = evt.data;
 
         if (id) {
+          // Hand any organization this user owns to the next admin (or member)
+          // before the cascade removes their membership
+          const user = await prisma.user.findUnique({ where: { clerkId: id } });
+          if (user) {
+            const promoted = await promoteSuccessorOwners(user.id);
+            if (promoted > 0) {
+              console.log(`[Clerk Webhook] Transferred ownership of ${promoted} organization(s) from ${user.id}`);
+            }
+          }
+
           // This will cascade delete organization memberships
           await prisma.user.delete({
             where: { clerkId: id },
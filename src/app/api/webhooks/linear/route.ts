@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { applyExternalIssueState, parseLinearWebhook, verifyWebhookSignature } from '@/lib/issue-trackers';
+
+/**
+ * POST /api/webhooks/linear?connectionId=...
+ *
+ * Status sync for pushed tickets. Register this URL in Linear with the
+ * connection's webhook secret; requests are verified via the `linear-signature` header.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const connectionId = request.nextUrl.searchParams.get('connectionId');
+    if (!connectionId) {
+      return NextResponse.json({ error: 'connectionId is required' }, { status: 400 });
+    }
+
+    const connection = await prisma.issueTrackerConnection.findUnique({ where: { id: connectionId } });
+    if (!connection || connection.provider !== 'linear') {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    const rawBody = await request.text();
+    if (!verifyWebhookSignature(rawBody, connection.webhookSecret, request.headers.get('linear-signature'))) {
+      console.error('[Linear Webhook] Signature verification failed for connection', connectionId);
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const state = parseLinearWebhook(JSON.parse(rawBody));
+    if (!state) {
+      return NextResponse.json({ message: 'Event ignored' });
+    }
+
+    const updated = await applyExternalIssueState(connection, state);
+    console.log(`[Linear Webhook] ${state.key ?? state.id} → ${state.status} (${updated} ticket(s))`);
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    console.error('[Linear Webhook] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to process webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 // Resend Webhook Events
 // https://resend.com/docs/dashboard/webhooks/event-types
@@ -90,6 +91,13 @@ export async function POST(request: NextRequest) {
       console.log('[Resend Webhook] Updated user:', user.id, 'to status:', updateData.outreachStatus);
     }
 
+    if (body.type === 'email.bounced') {
+      await emitWebhookEvent(user.projectId, 'recovery.email_bounced', {
+        user: { id: user.id, email: user.email, name: user.name },
+        emailId,
+      });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('[Resend Webhook] Error:', error);
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
 import { getProjectFromRequest } from '@/lib/auth';
+import { claimWidgetTrigger } from '@/lib/widget-delivery';
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
@@ -25,35 +25,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ show: false }, { status: 200, headers: CORS_HEADERS });
     }
 
-    const trigger = await prisma.widgetTrigger.findFirst({
-      where: {
-        projectId: project.id,
-        distinctId,
-        status: 'pending',
-        expiresAt: { gt: new Date() },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
-
+    const trigger = await claimWidgetTrigger(project.id, distinctId);
     if (!trigger) {
       return NextResponse.json({ show: false }, { status: 200, headers: CORS_HEADERS });
     }
 
-    // Mark as shown
-    await prisma.widgetTrigger.update({
-      where: { id: trigger.id },
-      data: { status: 'shown', shownAt: new Date() },
-    });
-
-    return NextResponse.json(
-      {
-        show: true,
-        triggerId: trigger.id,
-        userName: trigger.userName,
-        interviewApiKey: trigger.interviewApiKey,
-      },
-      { status: 200, headers: CORS_HEADERS }
-    );
+    return NextResponse.json(trigger, { status: 200, headers: CORS_HEADERS });
   } catch (error) {
     console.error('[Widget Check] Error:', error);
     return NextResponse.json({ show: false }, { status: 500, headers: CORS_HEADERS });
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
@@ -21,11 +22,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'triggerId and valid outcome are required' }, { status: 400, headers: CORS_HEADERS });
     }
 
-    await prisma.widgetTrigger.update({
+    const trigger = await prisma.widgetTrigger.update({
       where: { id: triggerId },
       data: { status: outcome },
     });
 
+    if (outcome === 'clicked') {
+      await emitWebhookEvent(trigger.projectId, 'widget.clicked', {
+        trigger: { id: trigger.id, distinctId: trigger.distinctId, userName: trigger.userName },
+      });
+    }
+
     return NextResponse.json({ ok: true }, { status: 200, headers: CORS_HEADERS });
   } catch (error) {
     console.error('[Widget Complete] Error:', error);
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProjectFromRequest } from '@/lib/auth';
+import {
+  claimWidgetTrigger,
+  formatSseEvent,
+  listenForWidgetTriggers,
+  waitForWidgetTrigger,
+} from '@/lib/widget-delivery';
+
+export const maxDuration = 60;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, x-tranzmit-api-key',
+  'Access-Control-Max-Age': '86400',
+};
+
+const STREAM_DURATION_MS = 50_000;  // end before maxDuration; EventSource reconnects
+const CHECK_INTERVAL_MS = 30_000;   // fallback database check for triggers NOTIFY missed
+const RECONNECT_MS = 1_000;         // SSE `retry:` — EventSource's delay before reconnecting
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/**
+ * GET /api/widget/stream?key=...&distinctId=...
+ *
+ * Server-Sent Events for tranzmit-widget.js. Sends `ready` on connect and
+ * `trigger` (the /api/widget/check payload) when a trigger is claimed for
+ * the user, then closes. New triggers are pushed to the stream through
+ * Postgres LISTEN/NOTIFY from whichever instance created them; the database
+ * is checked on connect and then only every 30 seconds, in case a
+ * notification was missed. Streams end after 50 seconds and the browser
+ * reconnects, so each connected user holds one function invocation open.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const project = await getProjectFromRequest(request);
+    if (!project) {
+      return NextResponse.json({ error: 'Invalid API key' }, { status: 401, headers: CORS_HEADERS });
+    }
+
+    const distinctId = request.nextUrl.searchParams.get('distinctId');
+    if (!distinctId) {
+      return NextResponse.json({ error: 'distinctId is required' }, { status: 400, headers: CORS_HEADERS });
+    }
+
+    const projectId = project.id;
+    const closed = new AbortController();
+    request.signal.addEventListener('abort', () => closed.abort());
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (text: string) => controller.enqueue(encoder.encode(text));
+        const endsAt = Date.now() + STREAM_DURATION_MS;
+
+        try {
+          send(`retry: ${RECONNECT_MS}\n\n`);
+          send(formatSseEvent('ready', { expiresInMs: STREAM_DURATION_MS }));
+
+          // Listen before the first check, so a trigger created in between isn't missed
+          await listenForWidgetTriggers();
+
+          while (!closed.signal.aborted && Date.now() < endsAt) {
+            const trigger = await claimWidgetTrigger(projectId, distinctId);
+            if (trigger) {
+              send(formatSseEvent('trigger', trigger));
+              break;
+            }
+
+            await waitForWidgetTrigger(
+              projectId,
+              distinctId,
+              Math.min(CHECK_INTERVAL_MS, endsAt - Date.now()),
+              closed.signal
+            );
+            if (!closed.signal.aborted) send(': keep-alive\n\n');
+          }
+        } catch (error) {
+          if (!closed.signal.aborted) console.error('[Widget Stream] Error:', error);
+        }
+
+        if (!closed.signal.aborted) {
+          controller.close();
+        }
+      },
+      cancel() {
+        closed.abort();
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        ...CORS_HEADERS,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('[Widget Stream] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500, headers: CORS_HEADERS });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getProjectWithAccess } from '@/lib/auth';
+import { requireProjectPermission } from '@/lib/auth';
+import { notifyWidgetTriggers } from '@/lib/widget-delivery';
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,9 +12,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'projectId and distinctIds are required' }, { status: 400 });
     }
 
-    const access = await getProjectWithAccess(projectId);
-    if (!access) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const access = await requireProjectPermission(projectId, 'outreach:send');
+    if (!access.ok) {
+      return access.response;
     }
 
     const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes
@@ -38,6 +39,9 @@ export async function POST(request: NextRequest) {
       })
     );
 
+    // Deliver right away to widgets streaming from any instance
+    await notifyWidgetTriggers(projectId, distinctIds);
+
     return NextResponse.json({ ok: true, count: triggers.length });
   } catch (error) {
     console.error('[Widget Trigger] Error:', error);
@@ -52,9 +56,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
-    const access = await getProjectWithAccess(projectId);
-    if (!access) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const access = await requireProjectPermission(projectId, 'project:read');
+    if (!access.ok) {
+      return access.response;
     }
 
     const triggers = await prisma.widgetTrigger.findMany({
@@ -14,7 +14,11 @@ import {
   ChevronDown,
   ShieldCheck,
   Mic,
+  TrendingUp,
 } from 'lucide-react';
+import { ChurnTrajectoryChart } from '@/components/churn-trajectory-chart';
+import { ChurnAlertRules } from '@/components/churn-alert-rules';
+import type { ScoreMovers, ScoreTransition } from '@/lib/churn-scoring/trajectory';
 
 interface ChurnScore {
   id: string;
@@ -23,23 +27,23 @@ interface ChurnScore {
   date: string;
   segment: string;
   isPro: boolean;
-  subscriptionStatus: string | null;
+  paidStatus: string | null;
   daysSinceLastEvent: number | null;
-  daysSinceLastChatStarted: number | null;
-  daysSinceLastMessageSent: number | null;
+  daysSinceLastCoreAction: number | null;
+  daysSinceLastEngagement: number | null;
   sessionsLast7d: number;
   sessionsPrev7d: number;
-  messageSentLast7d: number;
-  messageSentPrev7d: number;
-  chatStartedLast7d: number;
-  chatStartedPrev7d: number;
-  chatEndedLast7d: number;
+  engagementLast7d: number;
+  engagementPrev7d: number;
+  coreActionLast7d: number;
+  coreActionPrev7d: number;
+  coreActionCompletedLast7d: number;
   featureUsedLast7d: number;
   featureUsedPrev7d: number;
-  chatCompletionRateLast7d: number | null;
-  avgMessagesPerChatLast7d: number | null;
-  paywallViewedLast7d: number;
-  manageSubTappedLast30d: number;
+  coreActionCompletionRateLast7d: number | null;
+  engagementPerCoreActionLast7d: number | null;
+  frictionLast7d: number;
+  paidFrictionLast30d: number;
   riskScore: number;
   riskLevel: string;
   riskReasons: string | null;
@@ -49,6 +53,36 @@ interface ChurnScore {
   frictionScore: number;
   featureAdoptionLossScore: number;
   createdAt: string;
+  explanations?: ScoreExplanation[];
+}
+
+// Sentences comparing the user to their segment's median, strongest first
+interface ScoreExplanation {
+  rule: string;
+  points: number;
+  text: string;
+}
+
+// Event names from the project's churn model, returned by /api/churn-scores
+interface ModelLabels {
+  coreAction: string;
+  coreActionCompletion: string | null;
+  engagement: string | null;
+  features: string | null;
+  friction: string | null;
+  paidFriction: string | null;
+}
+
+// Checkpointed scoring run, returned by /api/churn-scores/runs
+interface ScoringRun {
+  id: string;
+  date: string;
+  source: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  usersScored: number;
+  error: string | null;
+  lastProcessedAt: string | null;
+  completedAt: string | null;
 }
 
 const RISK_COLORS: Record<string, { bg: string; text: string; border: string }> = {
@@ -68,6 +102,7 @@ export default function ChurnScoresPage() {
   const [scores, setScores] = useState<ChurnScore[]>([]);
   const [total, setTotal] = useState(0);
   const [riskCounts, setRiskCounts] = useState<Record<string, number>>({});
+  const [modelLabels, setModelLabels] = useState<ModelLabels | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [isTriggering, setIsTriggering] = useState(false);
@@ -78,6 +113,9 @@ export default function ChurnScoresPage() {
   const [triggerResult, setTriggerResult] = useState<string | null>(null);
   const [triggeringUser, setTriggeringUser] = useState<string | null>(null);
   const [userTriggerResults, setUserTriggerResults] = useState<Record<string, string>>({});
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [movers, setMovers] = useState<ScoreMovers | null>(null);
+  const [latestRun, setLatestRun] = useState<ScoringRun | null>(null);
   const limit = 25;
 
   const loadScores = useCallback(async () => {
@@ -99,6 +137,7 @@ export default function ChurnScoresPage() {
       setScores(data.scores || []);
       setTotal(data.total || 0);
       if (data.riskCounts) setRiskCounts(data.riskCounts);
+      if (data.modelLabels) setModelLabels(data.modelLabels);
     } catch (err: any) {
       setLoadError(err.message || 'Failed to load churn scores');
     }
@@ -108,6 +147,27 @@ export default function ChurnScoresPage() {
     loadScores().finally(() => setIsLoading(false));
   }, [loadScores]);
 
+  const loadMovers = useCallback(async () => {
+    const currentProjectId = localStorage.getItem('currentProjectId');
+    setProjectId(currentProjectId);
+    if (!currentProjectId) return;
+
+    try {
+      const [moversRes, runsRes] = await Promise.all([
+        fetch(`/api/churn-scores/movers?projectId=${currentProjectId}&limit=5`),
+        fetch(`/api/churn-scores/runs?projectId=${currentProjectId}&limit=1`),
+      ]);
+      if (moversRes.ok) setMovers(await moversRes.json());
+      if (runsRes.ok) setLatestRun((await runsRes.json()).runs?.[0] ?? null);
+    } catch {
+      // Movers are supplementary — the table still loads without them
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMovers();
+  }, [loadMovers]);
+
   const handleTriggerForUser = async (score: ChurnScore) => {
     const projectId = localStorage.getItem('currentProjectId');
     if (!projectId || triggeringUser === score.id) return;
@@ -144,8 +204,12 @@ export default function ChurnScoresPage() {
       });
       const data = await res.json();
       if (res.ok) {
-        setTriggerResult(`Scored ${data.usersScored} users in ${(data.durationMs / 1000).toFixed(1)}s`);
-        await loadScores();
+        setTriggerResult(
+          data.status === 'completed'
+            ? `Scored ${data.usersScored} users from ${data.source} in ${(data.durationMs / 1000).toFixed(1)}s`
+            : `Scored ${data.usersScored} users from ${data.source} so far — the run continues in the background`
+        );
+        await Promise.all([loadScores(), loadMovers()]);
       } else {
         setTriggerResult(`Error: ${data.error}`);
       }
@@ -167,6 +231,11 @@ export default function ChurnScoresPage() {
           <h1 className="text-2xl font-semibold text-[var(--foreground)]">Churn Risk Scores</h1>
           <p className="text-[var(--foreground-muted)] mt-1">
             Daily risk scores for all identified users
+            {latestRun?.status === 'completed' && latestRun.completedAt && (
+              <span className="text-[var(--foreground-subtle)]">
+                {' '}· Last run {latestRun.date.split('T')[0]}: {latestRun.usersScored} users from {latestRun.source}
+              </span>
+            )}
           </p>
         </div>
         <button
@@ -203,6 +272,28 @@ export default function ChurnScoresPage() {
         </motion.div>
       )}
 
+      {/* Run status banner */}
+      {latestRun && latestRun.status !== 'completed' && (
+        <div
+          className={`card p-3 mb-6 text-sm flex items-center justify-between border-l-4 ${
+            latestRun.status === 'failed' ? 'border-l-red-500' : 'border-l-yellow-500'
+          }`}
+        >
+          <span className={latestRun.status === 'failed' ? 'text-red-500' : 'text-[var(--foreground-muted)]'}>
+            {latestRun.status === 'failed'
+              ? `Scoring run for ${latestRun.date.split('T')[0]} failed after ${latestRun.usersScored} users: ${latestRun.error ?? 'unknown error'}`
+              : `Scoring run for ${latestRun.date.split('T')[0]} in progress — ${latestRun.usersScored} users scored from ${latestRun.source}. It continues automatically every 10 minutes.`}
+          </span>
+          <button
+            onClick={handleTriggerScoring}
+            disabled={isTriggering}
+            className="text-xs text-[var(--foreground-muted)] hover:text-[var(--foreground)] underline ml-4 shrink-0"
+          >
+            {latestRun.status === 'failed' ? 'Retry' : 'Continue now'}
+          </button>
+        </div>
+      )}
+
       {/* Load error banner */}
       {loadError && (
         <motion.div
@@ -252,6 +343,25 @@ export default function ChurnScoresPage() {
         </motion.div>
       </div>
 
+      {/* Movers & Alerts */}
+      <div className="grid grid-cols-3 gap-4 mb-8">
+        <MoversCard
+          title="Newly Critical"
+          icon={<ShieldAlert className="w-4 h-4 text-red-500" />}
+          emptyText="No users crossed into critical"
+          transitions={movers?.newlyCritical ?? []}
+          subtitle={movers?.previousDate ? `Since ${movers.previousDate}` : null}
+        />
+        <MoversCard
+          title="Biggest Movers"
+          icon={<TrendingUp className="w-4 h-4 text-orange-500" />}
+          emptyText="No score changes between the last two runs"
+          transitions={movers?.biggestMovers ?? []}
+          subtitle={movers?.previousDate ? `${movers.previousDate} → ${movers.date}` : null}
+        />
+        {projectId && <ChurnAlertRules projectId={projectId} />}
+      </div>
+
       {/* Filters */}
       <div className="flex items-center gap-3 mb-6">
         <Filter className="w-4 h-4 text-[var(--foreground-muted)]" />
@@ -326,7 +436,9 @@ export default function ChurnScoresPage() {
                 <th className="text-left px-4 py-3 text-xs font-medium uppercase">Score</th>
                 <th className="text-left px-4 py-3 text-xs font-medium uppercase">Last Seen</th>
                 <th className="text-left px-4 py-3 text-xs font-medium uppercase">Sessions (7d)</th>
-                <th className="text-left px-4 py-3 text-xs font-medium uppercase">Messages (7d)</th>
+                <th className="text-left px-4 py-3 text-xs font-medium uppercase">
+                  {modelLabels?.engagement ? `${modelLabels.engagement} (7d)` : 'Engagement (7d)'}
+                </th>
                 <th className="text-right px-4 py-3 text-xs font-medium uppercase">Details</th>
               </tr>
             </thead>
@@ -394,13 +506,13 @@ export default function ChurnScoresPage() {
                       </td>
                       <td className="px-4 py-3">
                         <div className="text-sm text-[var(--foreground)]">
-                          {score.messageSentLast7d}
-                          {score.messageSentPrev7d > 0 && (
+                          {score.engagementLast7d}
+                          {score.engagementPrev7d > 0 && (
                             <span className={`text-xs ml-1 ${
-                              score.messageSentLast7d < score.messageSentPrev7d ? 'text-red-500' : 'text-emerald-500'
+                              score.engagementLast7d < score.engagementPrev7d ? 'text-red-500' : 'text-emerald-500'
                             }`}>
-                              ({score.messageSentLast7d >= score.messageSentPrev7d ? '+' : ''}
-                              {Math.round(((score.messageSentLast7d - score.messageSentPrev7d) / Math.max(score.messageSentPrev7d, 1)) * 100)}%)
+                              ({score.engagementLast7d >= score.engagementPrev7d ? '+' : ''}
+                              {Math.round(((score.engagementLast7d - score.engagementPrev7d) / Math.max(score.engagementPrev7d, 1)) * 100)}%)
                             </span>
                           )}
                         </div>
@@ -419,6 +531,11 @@ export default function ChurnScoresPage() {
                     {isExpanded && (
                       <tr key={`${score.id}-detail`} className="bg-[var(--muted)]/50">
                         <td colSpan={8} className="px-4 py-4">
+                          {projectId && (
+                            <div className="mb-6">
+                              <ChurnTrajectoryChart projectId={projectId} distinctId={score.distinctId} />
+                            </div>
+                          )}
                           <div className="grid grid-cols-2 gap-6">
                             {/* Sub-scores */}
                             <div>
@@ -434,6 +551,19 @@ export default function ChurnScoresPage() {
 
                             {/* Risk Reasons & Metrics */}
                             <div>
+                              {score.explanations && score.explanations.length > 0 && (
+                                <div className="mb-4">
+                                  <h4 className="text-xs font-medium text-[var(--foreground-subtle)] uppercase mb-2">Why This User Is at Risk</h4>
+                                  <ul className="space-y-1 text-xs text-[var(--foreground)]">
+                                    {score.explanations.map((explanation, i) => (
+                                      <li key={i} className="flex gap-2">
+                                        <span className="text-[var(--foreground-muted)] tabular-nums shrink-0">+{explanation.points}</span>
+                                        <span>{explanation.text}</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
                               {reasons.length > 0 && (
                                 <div className="mb-4">
                                   <h4 className="text-xs font-medium text-[var(--foreground-subtle)] uppercase mb-2">Risk Reasons</h4>
@@ -469,28 +599,28 @@ export default function ChurnScoresPage() {
                               <h4 className="text-xs font-medium text-[var(--foreground-subtle)] uppercase mb-2">Metrics</h4>
                               <div className="grid grid-cols-2 gap-2 text-xs">
                                 <div className="text-[var(--foreground-muted)]">
-                                  Chats started (7d): <span className="text-[var(--foreground)]">{score.chatStartedLast7d}</span>
-                                  {score.chatStartedPrev7d > 0 && <span className="text-[var(--foreground-subtle)]"> (prev: {score.chatStartedPrev7d})</span>}
+                                  {modelLabels?.coreAction ?? 'Core action'} (7d): <span className="text-[var(--foreground)]">{score.coreActionLast7d}</span>
+                                  {score.coreActionPrev7d > 0 && <span className="text-[var(--foreground-subtle)]"> (prev: {score.coreActionPrev7d})</span>}
                                 </div>
                                 <div className="text-[var(--foreground-muted)]">
-                                  Chat completion: <span className="text-[var(--foreground)]">
-                                    {score.chatCompletionRateLast7d != null ? `${Math.round(score.chatCompletionRateLast7d * 100)}%` : '-'}
+                                  Completion rate: <span className="text-[var(--foreground)]">
+                                    {score.coreActionCompletionRateLast7d != null ? `${Math.round(score.coreActionCompletionRateLast7d * 100)}%` : '-'}
                                   </span>
                                 </div>
                                 <div className="text-[var(--foreground-muted)]">
-                                  Avg msgs/chat: <span className="text-[var(--foreground)]">
-                                    {score.avgMessagesPerChatLast7d != null ? score.avgMessagesPerChatLast7d.toFixed(1) : '-'}
+                                  Engagement per {modelLabels?.coreAction ?? 'core action'}: <span className="text-[var(--foreground)]">
+                                    {score.engagementPerCoreActionLast7d != null ? score.engagementPerCoreActionLast7d.toFixed(1) : '-'}
                                   </span>
                                 </div>
                                 <div className="text-[var(--foreground-muted)]">
-                                  Features used (7d): <span className="text-[var(--foreground)]">{score.featureUsedLast7d}</span>
+                                  {modelLabels?.features ?? 'Features used'} (7d): <span className="text-[var(--foreground)]">{score.featureUsedLast7d}</span>
                                   {score.featureUsedPrev7d > 0 && <span className="text-[var(--foreground-subtle)]"> (prev: {score.featureUsedPrev7d})</span>}
                                 </div>
                                 <div className="text-[var(--foreground-muted)]">
-                                  Paywall views (7d): <span className="text-[var(--foreground)]">{score.paywallViewedLast7d}</span>
+                                  {modelLabels?.friction ?? 'Friction'} (7d): <span className="text-[var(--foreground)]">{score.frictionLast7d}</span>
                                 </div>
                                 <div className="text-[var(--foreground-muted)]">
-                                  Manage sub taps (30d): <span className="text-[var(--foreground)]">{score.manageSubTappedLast30d}</span>
+                                  {modelLabels?.paidFriction ?? 'Paid friction'} (30d): <span className="text-[var(--foreground)]">{score.paidFrictionLast30d}</span>
                                 </div>
                               </div>
                             </div>
@@ -533,6 +663,60 @@ export default function ChurnScoresPage() {
   );
 }
 
+function MoversCard({
+  title,
+  icon,
+  subtitle,
+  emptyText,
+  transitions,
+}: {
+  title: string;
+  icon: React.ReactNode;
+  subtitle: string | null;
+  emptyText: string;
+  transitions: ScoreTransition[];
+}) {
+  return (
+    <div className="card p-4">
+      <div className="flex items-center gap-2 mb-1">
+        {icon}
+        <h3 className="text-sm font-semibold text-[var(--foreground)]">{title}</h3>
+      </div>
+      {subtitle && <p className="text-xs text-[var(--foreground-subtle)] mb-3">{subtitle}</p>}
+      {transitions.length === 0 ? (
+        <p className="text-xs text-[var(--foreground-muted)]">{emptyText}</p>
+      ) : (
+        <div className="space-y-2">
+          {transitions.map((t) => {
+            const colors = RISK_COLORS[t.riskLevel] || RISK_COLORS.low;
+            return (
+              <div key={t.distinctId} className="flex items-center justify-between gap-2 text-xs">
+                <div className="min-w-0">
+                  <div className="text-[var(--foreground)] truncate">{t.email || t.distinctId}</div>
+                  <div className="text-[var(--foreground-subtle)]">
+                    {SEGMENT_LABELS[t.segment] || t.segment}
+                    {t.previousLevel && ` · was ${t.previousLevel}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {t.previousScore != null && (
+                    <span className={t.delta > 0 ? 'text-red-500' : 'text-emerald-500'}>
+                      {t.delta > 0 ? '+' : ''}{t.delta}
+                    </span>
+                  )}
+                  <span className={`px-2 py-0.5 rounded-full font-semibold ${colors.bg} ${colors.text}`}>
+                    {t.riskScore}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ScoreBar({ label, value, max }: { label: string; value: number; max: number }) {
   const pct = max > 0 ? (value / max) * 100 : 0;
   return (
@@ -50,7 +50,6 @@ export default function FunnelsPage() {
   const [selectedFunnel, setSelectedFunnel] = useState<Funnel | null>(null);
   const [posthogHost, setPosthogHost] = useState<string>('https://us.posthog.com');
   const [posthogProjectId, setPosthogProjectId] = useState<string>('');
-  const [posthogKey, setPosthogKey] = useState<string>('');
   const [timeWindow, setTimeWindow] = useState<string>('-30d');
 
   useEffect(() => {
@@ -99,7 +98,7 @@ export default function FunnelsPage() {
       const projectRes = await fetch(`/api/projects/${projId}`);
       const projectData = await projectRes.json();
 
-      if (!projectData.project?.posthogKey) {
+      if (!projectData.project?.credentialHints?.posthogKey) {
         console.error('PostHog not configured');
         setIsLoading(false);
         return;
@@ -108,7 +107,6 @@ export default function FunnelsPage() {
       const host = projectData.project.posthogHost || 'https://us.posthog.com';
       setPosthogHost(host);
       setPosthogProjectId(projectData.project.posthogProjId);
-      setPosthogKey(projectData.project.posthogKey);
 
       const url = dateFrom
         ? `/api/posthog?action=funnels&date_from=${encodeURIComponent(dateFrom)}`
@@ -116,9 +114,7 @@ export default function FunnelsPage() {
 
       const response = await fetch(url, {
         headers: {
-          'x-posthog-key': projectData.project.posthogKey,
-          'x-posthog-project': projectData.project.posthogProjId,
-          'x-posthog-host': host,
+          'x-tranzmit-project': projId,
         },
       });
       const data = await response.json();
@@ -371,11 +367,6 @@ export default function FunnelsPage() {
                 <InteractiveFunnelMap
                   steps={selectedFunnel.steps}
                   funnelId={selectedFunnel.id}
-                  posthogConfig={{
-                    apiKey: posthogKey,
-                    projectId: posthogProjectId,
-                    host: posthogHost,
-                  }}
                   localProjectId={projectId}
                   onAnalyzeDropOff={(_, stepIndex) => {
                     window.location.href = `/dashboard/priority-queue?funnelId=${selectedFunnel.id}&step=${stepIndex}`;
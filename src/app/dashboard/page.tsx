@@ -19,7 +19,19 @@ import {
   Minus,
   Quote,
   Lightbulb,
+  ExternalLink,
+  Send,
 } from 'lucide-react';
+import {
+  TicketLifecyclePanel,
+  TICKET_STATUS_COLORS,
+  TICKET_STATUS_LABELS,
+  memberName,
+  type TicketMember,
+} from '@/components/ticket-lifecycle-panel';
+import { TicketRevisionHistory } from '@/components/ticket-revision-history';
+import { FixVerificationSummary, FIX_OUTCOME_COLORS, FIX_OUTCOME_LABELS } from '@/components/fix-verification-summary';
+import type { FixVerification } from '@/lib/fix-verification';
 
 // ---------------------------------------------------------------------------
 // Parse KEY EVIDENCE blocks from description into structured quotes
@@ -99,15 +111,45 @@ interface TicketData {
   compositeScore: number;
   status: string;
   jiraMarkdown?: string | null;
+  externalProvider?: 'jira' | 'linear' | null;
+  externalKey?: string | null;
+  externalUrl?: string | null;
+  externalStatus?: string | null;
+  team?: string | null;
+  assigneeId?: string | null;
+  assignee?: TicketMember | null;
+  resolvedAt?: string | null;
+  verification?: FixVerification | null;
   synthesizedAt: string;
 }
 
+type TicketUpdate = { status?: string; assigneeId?: string | null; team?: string | null };
+
+interface TicketFilters {
+  status: string;
+  assigneeId: string;
+  team: string;
+  category: string;
+  severity: string;
+}
+
+const EMPTY_FILTERS: TicketFilters = { status: '', assigneeId: '', team: '', category: '', severity: '' };
+
+type IssueTrackerProvider = 'jira' | 'linear';
+
+const providerLabels: Record<IssueTrackerProvider, string> = {
+  jira: 'Jira',
+  linear: 'Linear',
+};
+
 interface TicketStats {
   total: number;
   critical: number;
   high: number;
   medium: number;
   lastSynthesized: string | null;
+  byStatus?: Record<string, number>;
+  teams?: string[];
 }
 
 interface DashboardResponse {
@@ -132,14 +174,42 @@ const trendIcon = (direction?: string) => {
   return <Minus className="w-3.5 h-3.5 text-[var(--foreground-subtle)]" />;
 };
 
-function TicketCard({ ticket, isExpanded, onToggle }: {
+function TicketCard({ ticket, isExpanded, onToggle, providers, onPushed, members, teams, onUpdate, onVerify }: {
   ticket: TicketData;
   isExpanded: boolean;
   onToggle: () => void;
+  providers: IssueTrackerProvider[];
+  onPushed: (ticket: TicketData) => void;
+  members: TicketMember[];
+  teams: string[];
+  onUpdate: ((ticketId: string, update: TicketUpdate) => Promise<void>) | null;
+  onVerify: ((ticketId: string) => Promise<void>) | null;
 }) {
   const [copied, setCopied] = useState(false);
+  const [pushingTo, setPushingTo] = useState<IssueTrackerProvider | null>(null);
+  const [pushError, setPushError] = useState<string | null>(null);
   const parsed = parseTicketDescription(ticket.description);
 
+  const handlePush = async (provider: IssueTrackerProvider) => {
+    if (pushingTo) return;
+    setPushingTo(provider);
+    setPushError(null);
+    try {
+      const response = await fetch(`/api/tickets/${ticket.id}/push`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Server error ${response.status}`);
+      onPushed({ ...ticket, ...data.ticket });
+    } catch (error) {
+      setPushError(error instanceof Error ? error.message : 'Failed to push ticket');
+    } finally {
+      setPushingTo(null);
+    }
+  };
+
   const handleCopyJira = () => {
     const markdown = ticket.jiraMarkdown || `**${ticket.title}**\n\n${ticket.description}\n\n${ticket.recommendation}`;
     navigator.clipboard.writeText(markdown);
@@ -176,6 +246,26 @@ function TicketCard({ ticket, isExpanded, onToggle }: {
                 </span>
               )}
               {trendIcon(ticket.trending?.direction)}
+              {ticket.status !== 'open' && (
+                <span className={`text-xs px-2 py-0.5 rounded-full ${TICKET_STATUS_COLORS[ticket.status] ?? ''}`}>
+                  {TICKET_STATUS_LABELS[ticket.status] ?? ticket.status}
+                </span>
+              )}
+              {ticket.verification && ticket.verification.outcome !== 'measuring' && (
+                <span className={`text-xs px-2 py-0.5 rounded-full ${FIX_OUTCOME_COLORS[ticket.verification.outcome]}`}>
+                  {FIX_OUTCOME_LABELS[ticket.verification.outcome]}
+                </span>
+              )}
+              {(ticket.assignee || ticket.team) && (
+                <span className="text-xs text-[var(--foreground-subtle)]">
+                  {[ticket.team, ticket.assignee ? memberName(ticket.assignee) : null].filter(Boolean).join(' · ')}
+                </span>
+              )}
+              {ticket.externalKey && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-[var(--muted)] text-[var(--foreground-muted)]">
+                  {ticket.externalKey}{ticket.externalStatus ? ` · ${ticket.externalStatus}` : ''}
+                </span>
+              )}
             </div>
             {firstQuote && (
               <p className="text-[var(--foreground-muted)] text-sm italic pl-4 border-l-2 border-[var(--border)] line-clamp-1">
@@ -297,27 +387,78 @@ function TicketCard({ ticket, isExpanded, onToggle }: {
                   data-redirect-url="/dashboard"
                   data-churn-redirect-url="/cancel-confirmed"
                 />
-                <button
-                  id="jira-btn"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleCopyJira();
-                  }}
-                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-full bg-[var(--brand-primary)] text-white hover:bg-[var(--brand-hover)] transition-colors"
-                >
-                  {copied ? (
-                    <>
-                      <Check className="w-4 h-4" />
-                      Copied!
-                    </>
+                <div className="flex items-center gap-2">
+                  {pushError && <span className="text-xs text-red-500 max-w-xs truncate" title={pushError}>{pushError}</span>}
+                  {ticket.externalUrl ? (
+                    <a
+                      href={ticket.externalUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-full border border-[var(--border)] text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                      Open {ticket.externalKey}
+                    </a>
                   ) : (
-                    <>
-                      <TicketIcon className="w-4 h-4" />
-                      Copy to Jira
-                    </>
+                    providers.map((provider) => (
+                      <button
+                        key={provider}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handlePush(provider);
+                        }}
+                        disabled={pushingTo !== null}
+                        className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-full border border-[var(--border)] text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors disabled:opacity-50"
+                      >
+                        {pushingTo === provider ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                        Push to {providerLabels[provider]}
+                      </button>
+                    ))
                   )}
-                </button>
+                  <button
+                    id="jira-btn"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleCopyJira();
+                    }}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-full bg-[var(--brand-primary)] text-white hover:bg-[var(--brand-hover)] transition-colors"
+                  >
+                    {copied ? (
+                      <>
+                        <Check className="w-4 h-4" />
+                        Copied!
+                      </>
+                    ) : (
+                      <>
+                        <TicketIcon className="w-4 h-4" />
+                        Copy to Jira
+                      </>
+                    )}
+                  </button>
+                </div>
               </div>
+
+              {onUpdate && (
+                <TicketLifecyclePanel
+                  ticketId={ticket.id}
+                  status={ticket.status}
+                  assigneeId={ticket.assigneeId ?? null}
+                  team={ticket.team ?? null}
+                  members={members}
+                  teams={teams}
+                  onUpdate={(update) => onUpdate(ticket.id, update)}
+                />
+              )}
+
+              {onUpdate && <TicketRevisionHistory ticketId={ticket.id} />}
+
+              {(ticket.resolvedAt || ticket.verification) && (
+                <FixVerificationSummary
+                  verification={ticket.verification ?? null}
+                  onRecheck={onVerify && ticket.resolvedAt ? () => onVerify(ticket.id) : null}
+                />
+              )}
             </div>
           </motion.div>
         )}
@@ -334,17 +475,24 @@ export default function DashboardPage() {
   const [expandedTicket, setExpandedTicket] = useState<string | null>(null);
   const [projectId, setProjectId] = useState<string>('');
   const [cooldownSeconds, setCooldownSeconds] = useState(0);
+  const [providers, setProviders] = useState<IssueTrackerProvider[]>([]);
+  const [members, setMembers] = useState<TicketMember[]>([]);
+  const [filters, setFilters] = useState<TicketFilters>(EMPTY_FILTERS);
 
-  const loadTickets = useCallback(async (projId: string) => {
+  const loadTickets = useCallback(async (projId: string, activeFilters: TicketFilters = EMPTY_FILTERS) => {
     try {
-      const response = await fetch(`/api/tickets?projectId=${projId}`);
+      const params = new URLSearchParams({ projectId: projId });
+      for (const [key, value] of Object.entries(activeFilters)) {
+        if (value) params.set(key, value);
+      }
+      const response = await fetch(`/api/tickets?${params}`);
       const result: DashboardResponse = await response.json();
 
       if (response.ok) {
         setTickets(result.tickets || []);
         setStats(result.stats || null);
         if (result.tickets?.[0]) {
-          setExpandedTicket(result.tickets[0].id);
+          setExpandedTicket((prev) => prev ?? result.tickets[0].id);
         }
       }
     } catch (error) {
@@ -352,8 +500,58 @@ export default function DashboardPage() {
     }
   }, []);
 
+  const loadProviders = useCallback(async (projId: string) => {
+    if (projId === 'juno-demo') return;
+    try {
+      const [connectionsRes, membersRes] = await Promise.all([
+        fetch(`/api/tickets/connections?projectId=${projId}`),
+        fetch(`/api/tickets/assignees?projectId=${projId}`),
+      ]);
+      const [connections, assignees] = await Promise.all([connectionsRes.json(), membersRes.json()]);
+      if (connectionsRes.ok) {
+        setProviders((connections.connections || []).map((c: { provider: IssueTrackerProvider }) => c.provider));
+      }
+      if (membersRes.ok) {
+        setMembers(assignees.members || []);
+      }
+    } catch (error) {
+      console.error('Failed to load issue tracker connections:', error);
+    }
+  }, []);
+
+  const applyFilter = (key: keyof TicketFilters, value: string) => {
+    const next = { ...filters, [key]: value };
+    setFilters(next);
+    if (projectId) loadTickets(projectId, next);
+  };
+
+  const handleTicketUpdate = async (ticketId: string, update: TicketUpdate) => {
+    const response = await fetch(`/api/tickets/${ticketId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(update),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || `Server error ${response.status}`);
+    await loadTickets(projectId, filters);
+  };
+
+  const handleVerify = async (ticketId: string) => {
+    const response = await fetch(`/api/tickets/${ticketId}/verification`, { method: 'POST' });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || `Server error ${response.status}`);
+    await loadTickets(projectId, filters);
+  };
+
   useEffect(() => {
     const initializeProject = async () => {
+      // Digest links carry the project and ticket to open
+      const linkParams = new URLSearchParams(window.location.search);
+      const linkedProjectId = linkParams.get('projectId');
+      const linkedTicketId = linkParams.get('ticket');
+      if (linkedProjectId) localStorage.setItem('currentProjectId', linkedProjectId);
+      if (linkedTicketId) setExpandedTicket(linkedTicketId);
+
       let currentProjectId = localStorage.getItem('currentProjectId');
 
       if (!currentProjectId) {
@@ -371,13 +569,13 @@ export default function DashboardPage() {
 
       if (currentProjectId) {
         setProjectId(currentProjectId);
-        await loadTickets(currentProjectId);
+        await Promise.all([loadTickets(currentProjectId), loadProviders(currentProjectId)]);
       }
       setIsLoading(false);
     };
 
     initializeProject();
-  }, [loadTickets]);
+  }, [loadTickets, loadProviders]);
 
   // Cooldown timer
   useEffect(() => {
@@ -425,7 +623,7 @@ export default function DashboardPage() {
     );
   }
 
-  if (tickets.length === 0) {
+  if (!stats || stats.total === 0) {
     return (
       <div className="min-h-screen bg-[var(--background)] p-8">
         <h1 className="text-xl font-medium text-[var(--foreground)] mb-2">Product Insights</h1>
@@ -539,13 +737,78 @@ export default function DashboardPage() {
           </div>
           <span className="text-xs text-[var(--foreground-subtle)]">Sorted by composite score</span>
         </div>
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {[
+            {
+              key: 'status' as const,
+              label: 'All statuses',
+              options: Object.entries(TICKET_STATUS_LABELS).map(([value, label]) => ({
+                value,
+                label: `${label} (${stats.byStatus?.[value] ?? 0})`,
+              })),
+            },
+            {
+              key: 'assigneeId' as const,
+              label: 'Anyone',
+              options: [{ value: 'unassigned', label: 'Unassigned' }, ...members.map((m) => ({ value: m.id, label: memberName(m) }))],
+            },
+            {
+              key: 'team' as const,
+              label: 'All teams',
+              options: (stats.teams ?? []).map((team) => ({ value: team, label: team })),
+            },
+            {
+              key: 'category' as const,
+              label: 'All categories',
+              options: Object.entries(categoryLabels).map(([value, label]) => ({ value, label })),
+            },
+            {
+              key: 'severity' as const,
+              label: 'All severities',
+              options: ['critical', 'high', 'medium'].map((value) => ({ value, label: value[0].toUpperCase() + value.slice(1) })),
+            },
+          ].map((filter) => (
+            <select
+              key={filter.key}
+              value={filters[filter.key]}
+              onChange={(e) => applyFilter(filter.key, e.target.value)}
+              aria-label={filter.label}
+              className="px-3 py-1.5 rounded-full border border-[var(--border)] bg-[var(--card)] text-sm text-[var(--foreground)]"
+            >
+              <option value="">{filter.label}</option>
+              {filter.options.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          ))}
+          {Object.values(filters).some(Boolean) && (
+            <button
+              onClick={() => {
+                setFilters(EMPTY_FILTERS);
+                loadTickets(projectId, EMPTY_FILTERS);
+              }}
+              className="text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
         <div className="space-y-2">
+          {tickets.length === 0 && (
+            <p className="text-sm text-[var(--foreground-muted)] py-8 text-center">No tickets match these filters.</p>
+          )}
           {tickets.map((ticket) => (
             <TicketCard
               key={ticket.id}
               ticket={ticket}
               isExpanded={expandedTicket === ticket.id}
               onToggle={() => setExpandedTicket(expandedTicket === ticket.id ? null : ticket.id)}
+              providers={providers}
+              onPushed={(pushed) => setTickets((prev) => prev.map((t) => (t.id === pushed.id ? pushed : t)))}
+              members={members}
+              teams={stats.teams ?? []}
+              onUpdate={projectId === 'juno-demo' ? null : handleTicketUpdate}
+              onVerify={projectId === 'juno-demo' ? null : handleVerify}
             />
           ))}
         </div>
@@ -52,7 +52,7 @@ export default function ProjectsPage() {
             });
             const data = await res.json();
             if (data.project) {
-                setCreatedProject(data.project);
+                setCreatedProject({ ...data.project, apiKey: data.apiKey });
                 setProjects([...projects, data.project]);
                 // Save as current project in localStorage
                 localStorage.setItem('currentProjectId', data.project.id);
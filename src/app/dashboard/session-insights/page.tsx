@@ -6,6 +6,7 @@ import { Uploader } from '@/components/ui/uploader';
 import { AnalysisTable, AnalysisEntry } from '@/components/analysis-table';
 import { SessionPlayer } from '@/components/session-player';
 import { SessionList } from '@/components/session-list';
+import { RecorderBacklog } from '@/components/recorder-backlog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -563,7 +564,7 @@ function SessionInsightsContent() {
             const response = await fetch('/api/analyze', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ events }),
+                body: JSON.stringify({ projectId: currentProjectId, events }),
             });
 
             if (!response.ok) throw new Error('Analysis failed');
@@ -693,6 +694,7 @@ function SessionInsightsContent() {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
+                    projectId: currentProjectId,
                     frictionPoints: aggregatedInsights.allFrictions,
                     userIntents: aggregatedInsights.allIntents,
                     tags: aggregatedInsights.allTags,
@@ -710,7 +712,7 @@ function SessionInsightsContent() {
         } finally {
             setIsSynthesizing(false);
         }
-    }, [aggregatedInsights]);
+    }, [aggregatedInsights, currentProjectId]);
 
     useEffect(() => {
         const completedCount = aggregatedInsights?.totalSessions || 0;
@@ -951,6 +953,13 @@ function SessionInsightsContent() {
                     </div>
                 )}
 
+                {currentProjectId && (
+                    <RecorderBacklog
+                        projectId={currentProjectId}
+                        onPromoted={() => setSessionListRefreshKey(prev => prev + 1)}
+                    />
+                )}
+
                 {/* Sessions */}
                 <div>
                         {/* Mode selector tabs */}
@@ -1121,9 +1130,10 @@ function SessionInsightsContent() {
                                             dbSelectedSession.source === 'posthog' ? 'border-[var(--brand-primary)]/30 text-[var(--brand-primary)]' :
                                             dbSelectedSession.source === 'mixpanel' ? 'border-orange-500/30 text-orange-500' :
                                             dbSelectedSession.source === 'amplitude' ? 'border-violet-500/30 text-violet-500' :
+                                            dbSelectedSession.source === 'sdk' ? 'border-sky-500/30 text-sky-500' :
                                             'border-emerald-500/30 text-emerald-500'
                                         }>
-                                            {dbSelectedSession.source === 'posthog' ? 'PostHog' : dbSelectedSession.source === 'mixpanel' ? 'Mixpanel' : dbSelectedSession.source === 'amplitude' ? 'Amplitude' : 'Upload'}
+                                            {dbSelectedSession.source === 'posthog' ? 'PostHog' : dbSelectedSession.source === 'mixpanel' ? 'Mixpanel' : dbSelectedSession.source === 'amplitude' ? 'Amplitude' : dbSelectedSession.source === 'sdk' ? 'Recorder' : 'Upload'}
                                         </Badge>
                                         {dbSelectedSession.multimodalStatus === 'completed' && (
                                             <Badge className="bg-[var(--brand-light)] text-[var(--brand-primary)] border border-[var(--brand-primary)]/30">
@@ -1137,7 +1147,7 @@ function SessionInsightsContent() {
                                 </CardHeader>
                                 <div className="p-4 pt-0">
                                     {dbSessionEvents && dbSessionEvents.length > 0 ? (
-                                        <SessionPlayer key={dbSelectedSession.id} events={dbSessionEvents} autoPlay={false} />
+                                        <SessionPlayer key={dbSelectedSession.id} events={dbSessionEvents} autoPlay={false} integrity={dbSelectedSession.replayIntegrity} />
                                     ) : (
                                         <div className="flex flex-col items-center justify-center bg-[var(--muted)] rounded-lg border border-dashed border-[var(--border)] py-12 px-4">
                                             <Loader2 className="w-12 h-12 text-[var(--muted-foreground)] mb-3 animate-spin" />
@@ -4,25 +4,98 @@ import { useState, useEffect, useRef } from 'react';
 import { useClerk } from '@clerk/nextjs';
 import Script from 'next/script';
 import { motion } from 'framer-motion';
-import { Settings as SettingsIcon, Save, Key, Globe, Bell, Shield, Loader2, Plus, Bot, Users, Copy, Check, Code, BarChart3, Cloud, Activity, X, LogOut } from 'lucide-react';
+import { Settings as SettingsIcon, Save, Key, Globe, Bell, Shield, Loader2, Plus, Bot, Copy, Check, Code, BarChart3, Cloud, Activity, X, LogOut, TrendingDown } from 'lucide-react';
+import { DEFAULT_CHURN_MODEL } from '@/lib/churn-scoring/churn-model';
+import { DEFAULT_CHURN_RULE_SET } from '@/lib/churn-scoring/rule-set';
+import type { ChurnModel, ChurnRuleId, ChurnRuleSet } from '@/lib/churn-scoring/types';
+import type { BacktestReport } from '@/lib/churn-scoring/backtest';
+import { IssueTrackerConnections } from '@/components/issue-tracker-connections';
+import { TicketRoutingRules } from '@/components/ticket-routing-rules';
+import { DigestSubscriptions } from '@/components/digest-subscriptions';
+import { WebhookEndpoints } from '@/components/webhook-endpoints';
+import { ApiKeys } from '@/components/api-keys';
+import { ProjectApiKey } from '@/components/project-api-key';
+import { OrganizationMembers } from '@/components/organization-members';
+import { AuditLog } from '@/components/audit-log';
+import { DataPrivacy } from '@/components/data-privacy';
+import type { ProjectSecretField } from '@/lib/credential-encryption';
 
 interface ProjectSettings {
   id: string;
   name: string;
   organizationId: string | null;
-  apiKey: string;
-  posthogKey: string;
+  apiKeyPrefix: string | null;
+  // Secrets never come back from the API — only masked hints of the stored values
+  credentialHints: Partial<Record<ProjectSecretField, string | null>>;
   posthogHost: string;
   posthogProjId: string;
-  mixpanelKey: string;
-  mixpanelSecret: string;
   mixpanelProjId: string;
   mixpanelHost: string;
-  amplitudeKey: string;
-  amplitudeSecret: string;
   amplitudeProjId: string;
   elevenlabsAgentId: string;
   replaySource: string | null;
+  churnModel: ChurnModel | null;
+  churnRuleSet: ChurnRuleSet | null;
+}
+
+const SECRET_FIELDS: ProjectSecretField[] = ['posthogKey', 'mixpanelKey', 'mixpanelSecret', 'amplitudeKey', 'amplitudeSecret'];
+
+// Churn model form state — event lists are edited as comma-separated strings
+type ChurnModelForm = Record<
+  'coreAction' | 'completionEvent' | 'engagementEvents' | 'featureEvents' | 'frictionFree' | 'frictionPaid' | 'paidProperty' | 'paidValues' | 'flagProperty',
+  string
+>;
+
+const CHURN_MODEL_FIELDS: { key: keyof ChurnModelForm; label: string; hint: string }[] = [
+  { key: 'coreAction', label: 'Core Action Event', hint: 'The one event that means a user got value (e.g. chat_started, report_created)' },
+  { key: 'completionEvent', label: 'Core Action Completion Event', hint: 'Optional. Enables completion-rate scoring (e.g. chat_ended)' },
+  { key: 'engagementEvents', label: 'Engagement Events', hint: 'Comma-separated. Depth within the core action (e.g. message_sent)' },
+  { key: 'featureEvents', label: 'Feature Events', hint: 'Comma-separated. Breadth of feature adoption (e.g. feature_used)' },
+  { key: 'frictionFree', label: 'Free-User Friction Events', hint: 'Comma-separated. Signals blocked value (e.g. paywall_viewed)' },
+  { key: 'frictionPaid', label: 'Paid-User Friction Events', hint: 'Comma-separated. Signals cancellation intent (e.g. manage_subscription_tapped)' },
+  { key: 'paidProperty', label: 'Paid Status Property', hint: 'Person property holding subscription state (e.g. subscription_status)' },
+  { key: 'paidValues', label: 'Paid Status Values', hint: 'Comma-separated values of that property that count as paid (e.g. active, trialing)' },
+  { key: 'flagProperty', label: 'Paid Flag Property', hint: 'Optional boolean person property (e.g. is_pro)' },
+];
+
+const CHURN_RULE_LABELS: Record<ChurnRuleId, string> = {
+  recency: 'Recency',
+  usageDrop: 'Usage Drop',
+  engagementQuality: 'Engagement Quality',
+  friction: 'Friction',
+  featureAdoptionLoss: 'Feature Adoption Loss',
+};
+
+function toChurnModelForm(model: ChurnModel): ChurnModelForm {
+  return {
+    coreAction: model.coreAction.event,
+    completionEvent: model.coreAction.completionEvent || '',
+    engagementEvents: model.engagementEvents.join(', '),
+    featureEvents: model.featureEvents.join(', '),
+    frictionFree: model.frictionEvents.free.join(', '),
+    frictionPaid: model.frictionEvents.paid.join(', '),
+    paidProperty: model.paidStatus.property,
+    paidValues: model.paidStatus.paidValues.join(', '),
+    flagProperty: model.paidStatus.flagProperty || '',
+  };
+}
+
+function fromChurnModelForm(form: ChurnModelForm): ChurnModel {
+  const list = (value: string) => value.split(',').map((v) => v.trim()).filter(Boolean);
+  return {
+    coreAction: {
+      event: form.coreAction.trim(),
+      completionEvent: form.completionEvent.trim() || null,
+    },
+    engagementEvents: list(form.engagementEvents),
+    featureEvents: list(form.featureEvents),
+    frictionEvents: { free: list(form.frictionFree), paid: list(form.frictionPaid) },
+    paidStatus: {
+      property: form.paidProperty.trim(),
+      paidValues: list(form.paidValues),
+      flagProperty: form.flagProperty.trim() || null,
+    },
+  };
 }
 
 export default function SettingsPage() {
@@ -34,7 +107,6 @@ export default function SettingsPage() {
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [projectId, setProjectId] = useState<string>('');
   const [noProjectExists, setNoProjectExists] = useState(false);
-  const [copied, setCopied] = useState(false);
   const [copiedSnippet, setCopiedSnippet] = useState(false);
 
   // Form state
@@ -53,6 +125,13 @@ export default function SettingsPage() {
     elevenlabsAgentId: '',
     replaySource: '',
   });
+  const [churnModelForm, setChurnModelForm] = useState<ChurnModelForm>(toChurnModelForm(DEFAULT_CHURN_MODEL));
+  const [churnModelDirty, setChurnModelDirty] = useState(false);
+  const [ruleSetForm, setRuleSetForm] = useState<ChurnRuleSet>(DEFAULT_CHURN_RULE_SET);
+  const [ruleSetDirty, setRuleSetDirty] = useState(false);
+  const [isBacktesting, setIsBacktesting] = useState(false);
+  const [backtest, setBacktest] = useState<{ report: BacktestReport; current?: BacktestReport } | null>(null);
+  const [backtestError, setBacktestError] = useState<string | null>(null);
 
   useEffect(() => {
     const initializeProject = async () => {
@@ -101,19 +180,23 @@ export default function SettingsPage() {
         setProject(data.project);
         setFormData({
           name: data.project.name,
-          posthogKey: data.project.posthogKey || '',
+          posthogKey: '',
           posthogHost: data.project.posthogHost || 'https://us.posthog.com',
           posthogProjId: data.project.posthogProjId || '',
-          mixpanelKey: data.project.mixpanelKey || '',
-          mixpanelSecret: data.project.mixpanelSecret || '',
+          mixpanelKey: '',
+          mixpanelSecret: '',
           mixpanelProjId: data.project.mixpanelProjId || '',
           mixpanelHost: data.project.mixpanelHost || 'https://mixpanel.com',
-          amplitudeKey: data.project.amplitudeKey || '',
-          amplitudeSecret: data.project.amplitudeSecret || '',
+          amplitudeKey: '',
+          amplitudeSecret: '',
           amplitudeProjId: data.project.amplitudeProjId || '',
           elevenlabsAgentId: data.project.elevenlabsAgentId || '',
           replaySource: data.project.replaySource || '',
         });
+        setChurnModelForm(toChurnModelForm(data.project.churnModel || DEFAULT_CHURN_MODEL));
+        setChurnModelDirty(false);
+        setRuleSetForm(data.project.churnRuleSet || DEFAULT_CHURN_RULE_SET);
+        setRuleSetDirty(false);
         setNoProjectExists(false);
       } else {
         // Project not found - might be stale ID
@@ -146,7 +229,14 @@ export default function SettingsPage() {
       const response = await fetch(`/api/projects/${projectId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          // Secret fields are write-only: left empty, they keep the stored value
+          ...Object.fromEntries(
+            Object.entries(formData).filter(([field, value]) => value || !SECRET_FIELDS.includes(field as ProjectSecretField))
+          ),
+          ...(churnModelDirty ? { churnModel: fromChurnModelForm(churnModelForm) } : {}),
+          ...(ruleSetDirty ? { churnRuleSet: ruleSetForm } : {}),
+        }),
       });
 
       if (response.ok) {
@@ -163,6 +253,30 @@ export default function SettingsPage() {
     }
   };
 
+  const handleBacktest = async () => {
+    if (!projectId) return;
+
+    setIsBacktesting(true);
+    setBacktestError(null);
+    try {
+      const response = await fetch('/api/churn-scores/backtest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, ruleSet: ruleSetForm }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setBacktest(data);
+      } else {
+        setBacktestError(data.error || 'Backtest failed');
+      }
+    } catch {
+      setBacktestError('Backtest failed');
+    } finally {
+      setIsBacktesting(false);
+    }
+  };
+
   const handleCreate = async () => {
     const hasPostHog = formData.posthogKey && formData.posthogProjId;
     const hasMixpanel = formData.mixpanelKey && formData.mixpanelProjId;
@@ -210,6 +324,13 @@ export default function SettingsPage() {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  // A secret counts as set if it's being typed or already stored
+  const hasSecret = (field: ProjectSecretField) => !!(formData[field] || project?.credentialHints?.[field]);
+  const secretPlaceholder = (field: ProjectSecretField, placeholder: string) => {
+    const hint = project?.credentialHints?.[field];
+    return hint ? `Saved (${hint}) — type to replace` : placeholder;
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-[var(--background)] flex items-center justify-center">
@@ -247,43 +368,11 @@ export default function SettingsPage() {
           </motion.div>
         )}
 
-        {/* Organization ID */}
-        {project?.organizationId && (
-          <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
-            <div className="flex items-center gap-3 mb-4">
-              <Users className="w-6 h-6 text-[var(--brand-primary)]" />
-              <h2 className="text-2xl font-bold text-[var(--foreground)]">Organization ID</h2>
-            </div>
-            <p className="text-sm text-[var(--foreground-subtle)] mb-4">
-              Share this ID with team members so they can join your workspace.
-            </p>
-            <div className="flex items-center gap-3">
-              <code className="flex-1 px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl text-[var(--foreground)] font-mono text-sm select-all">
-                {project.organizationId}
-              </code>
-              <button
-                onClick={() => {
-                  navigator.clipboard.writeText(project.organizationId!);
-                  setCopied(true);
-                  setTimeout(() => setCopied(false), 2000);
-                }}
-                className="flex items-center gap-2 px-4 py-3 bg-[var(--background-subtle)] hover:bg-[var(--muted)] border border-[var(--border)] rounded-xl text-[var(--foreground-muted)] font-medium text-sm transition-colors"
-              >
-                {copied ? (
-                  <>
-                    <Check className="w-4 h-4 text-green-600" />
-                    Copied
-                  </>
-                ) : (
-                  <>
-                    <Copy className="w-4 h-4" />
-                    Copy
-                  </>
-                )}
-              </button>
-            </div>
-          </div>
-        )}
+        {/* Organization members & invitations */}
+        {project?.organizationId && <OrganizationMembers organizationId={project.organizationId} />}
+
+        {/* Audit log (admins and the owner) */}
+        {project?.organizationId && <AuditLog organizationId={project.organizationId} />}
 
         {/* Project Settings */}
         <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
@@ -342,7 +431,7 @@ export default function SettingsPage() {
                 <Cloud className={`w-8 h-8 ${formData.replaySource === 'posthog' ? 'text-[var(--brand-primary)]' : 'text-[var(--foreground-subtle)]'}`} />
                 <span className={`font-semibold text-sm ${formData.replaySource === 'posthog' ? 'text-[var(--foreground)]' : 'text-[var(--foreground-muted)]'}`}>PostHog</span>
                 <span className="text-xs text-[var(--foreground-subtle)] text-center">Real DOM session recordings</span>
-                {formData.posthogKey && formData.posthogProjId ? (
+                {hasSecret('posthogKey') && formData.posthogProjId ? (
                   <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full font-medium">Configured</span>
                 ) : (
                   <span className="text-xs bg-[var(--muted)] text-[var(--foreground-subtle)] px-2 py-0.5 rounded-full font-medium">Not configured</span>
@@ -366,7 +455,7 @@ export default function SettingsPage() {
                 <BarChart3 className={`w-8 h-8 ${formData.replaySource === 'mixpanel' ? 'text-[var(--brand-primary)]' : 'text-[var(--foreground-subtle)]'}`} />
                 <span className={`font-semibold text-sm ${formData.replaySource === 'mixpanel' ? 'text-[var(--foreground)]' : 'text-[var(--foreground-muted)]'}`}>Mixpanel</span>
                 <span className="text-xs text-[var(--foreground-subtle)] text-center">Event-based activity timeline</span>
-                {formData.mixpanelKey && formData.mixpanelProjId ? (
+                {hasSecret('mixpanelKey') && formData.mixpanelProjId ? (
                   <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full font-medium">Configured</span>
                 ) : (
                   <span className="text-xs bg-[var(--muted)] text-[var(--foreground-subtle)] px-2 py-0.5 rounded-full font-medium">Not configured</span>
@@ -390,7 +479,7 @@ export default function SettingsPage() {
                 <BarChart3 className={`w-8 h-8 ${formData.replaySource === 'amplitude' ? 'text-[var(--brand-primary)]' : 'text-[var(--foreground-subtle)]'}`} />
                 <span className={`font-semibold text-sm ${formData.replaySource === 'amplitude' ? 'text-[var(--foreground)]' : 'text-[var(--foreground-muted)]'}`}>Amplitude</span>
                 <span className="text-xs text-[var(--foreground-subtle)] text-center">Event-based activity timeline</span>
-                {formData.amplitudeKey && formData.amplitudeProjId ? (
+                {hasSecret('amplitudeKey') && formData.amplitudeProjId ? (
                   <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full font-medium">Configured</span>
                 ) : (
                   <span className="text-xs bg-[var(--muted)] text-[var(--foreground-subtle)] px-2 py-0.5 rounded-full font-medium">Not configured</span>
@@ -427,7 +516,7 @@ export default function SettingsPage() {
                 value={formData.posthogKey}
                 onChange={(e) => handleInputChange('posthogKey', e.target.value)}
                 className="w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] font-mono"
-                placeholder="phx_••••••••••••••••••••"
+                placeholder={secretPlaceholder('posthogKey', 'phx_••••••••••••••••••••')}
               />
               <p className="text-xs text-[var(--foreground-subtle)] mt-2">
                 Your PostHog Personal API Key (starts with phx_)
@@ -489,7 +578,7 @@ export default function SettingsPage() {
                 value={formData.mixpanelKey}
                 onChange={(e) => handleInputChange('mixpanelKey', e.target.value)}
                 className="w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] font-mono"
-                placeholder="Your Mixpanel API Secret"
+                placeholder={secretPlaceholder('mixpanelKey', 'Your Mixpanel API Secret')}
               />
               <p className="text-xs text-[var(--foreground-subtle)] mt-2">
                 Found in Mixpanel → Project Settings → Project Details → API Secret
@@ -521,7 +610,7 @@ export default function SettingsPage() {
                 value={formData.mixpanelSecret}
                 onChange={(e) => handleInputChange('mixpanelSecret', e.target.value)}
                 className="w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] font-mono"
-                placeholder="Optional - only for Service Account auth"
+                placeholder={secretPlaceholder('mixpanelSecret', 'Optional - only for Service Account auth')}
               />
               <p className="text-xs text-[var(--foreground-subtle)] mt-2">
                 Only needed if using Service Account instead of API Secret
@@ -547,7 +636,7 @@ export default function SettingsPage() {
         </div>
 
         {/* Mixpanel Session Replay Snippet */}
-        {project && (formData.mixpanelKey || formData.mixpanelProjId) && (
+        {project && (hasSecret('mixpanelKey') || formData.mixpanelProjId) && (
           <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
             <div className="flex items-center gap-3 mb-6">
               <Code className="w-6 h-6 text-[var(--brand-primary)]" />
@@ -568,7 +657,7 @@ export default function SettingsPage() {
 <script src="https://cdn.jsdelivr.net/npm/rrweb@latest/dist/rrweb-all.min.js"></script>
 <script>
   window.TRANZMIT_CONFIG = {
-    apiKey: '${project.apiKey}',
+    apiKey: 'YOUR_SDK_KEY',
     endpoint: '${typeof window !== 'undefined' ? window.location.origin : 'https://your-app.com'}'
   };
 </script>
@@ -576,7 +665,7 @@ export default function SettingsPage() {
               </pre>
               <button
                 onClick={() => {
-                  const snippet = `<!-- Tranzmit Real Session Replay -->\n<script src="https://cdn.jsdelivr.net/npm/rrweb@latest/dist/rrweb-all.min.js"></script>\n<script>\n  window.TRANZMIT_CONFIG = {\n    apiKey: '${project.apiKey}',\n    endpoint: '${window.location.origin}'\n  };\n</script>\n<script src="${window.location.origin}/tranzmit-replay.js"></script>`;
+                  const snippet = `<!-- Tranzmit Real Session Replay -->\n<script src="https://cdn.jsdelivr.net/npm/rrweb@latest/dist/rrweb-all.min.js"></script>\n<script>\n  window.TRANZMIT_CONFIG = {\n    apiKey: 'YOUR_SDK_KEY',\n    endpoint: '${window.location.origin}'\n  };\n</script>\n<script src="${window.location.origin}/tranzmit-replay.js"></script>`;
                   navigator.clipboard.writeText(snippet);
                   setCopiedSnippet(true);
                   setTimeout(() => setCopiedSnippet(false), 2000);
@@ -599,6 +688,8 @@ export default function SettingsPage() {
 
             <p className="text-xs text-[var(--foreground-subtle)] mt-3">
               Add this snippet to your site&apos;s {'<head>'} or before {'</body>'}. Make sure the Mixpanel SDK is loaded first so session IDs are correlated.
+              Replace <code className="font-mono">YOUR_SDK_KEY</code> with your SDK key
+              {project.apiKeyPrefix && <> (starts with <code className="font-mono">{project.apiKeyPrefix}</code>)</>} — rotate it under SDK Key if you don&apos;t have it.
             </p>
           </div>
         )}
@@ -624,7 +715,7 @@ export default function SettingsPage() {
                 value={formData.amplitudeKey}
                 onChange={(e) => handleInputChange('amplitudeKey', e.target.value)}
                 className="w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] font-mono"
-                placeholder="Your Amplitude API Key"
+                placeholder={secretPlaceholder('amplitudeKey', 'Your Amplitude API Key')}
               />
               <p className="text-xs text-[var(--foreground-subtle)] mt-2">
                 Found in Amplitude → Settings → Projects → Your Project → General
@@ -640,7 +731,7 @@ export default function SettingsPage() {
                 value={formData.amplitudeSecret}
                 onChange={(e) => handleInputChange('amplitudeSecret', e.target.value)}
                 className="w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] font-mono"
-                placeholder="Your Amplitude Secret Key"
+                placeholder={secretPlaceholder('amplitudeSecret', 'Your Amplitude Secret Key')}
               />
               <p className="text-xs text-[var(--foreground-subtle)] mt-2">
                 Found in Amplitude → Settings → Projects → Your Project → General (next to API Key)
@@ -694,6 +785,164 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* Issue Trackers */}
+        {!noProjectExists && projectId && <IssueTrackerConnections projectId={projectId} />}
+
+        {/* Ticket Routing */}
+        {!noProjectExists && projectId && <TicketRoutingRules projectId={projectId} />}
+
+        {/* Digests */}
+        {!noProjectExists && projectId && <DigestSubscriptions projectId={projectId} />}
+
+        {/* Webhooks */}
+        {!noProjectExists && projectId && <WebhookEndpoints projectId={projectId} />}
+
+        {/* SDK Key */}
+        {!noProjectExists && projectId && <ProjectApiKey projectId={projectId} />}
+
+        {/* API Keys */}
+        {!noProjectExists && projectId && <ApiKeys projectId={projectId} />}
+
+        {/* Retention & erasure */}
+        {!noProjectExists && projectId && <DataPrivacy projectId={projectId} />}
+
+        {/* Churn Model */}
+        {!noProjectExists && (
+          <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
+            <div className="flex items-center gap-3 mb-4">
+              <TrendingDown className="w-6 h-6 text-[var(--brand-primary)]" />
+              <h2 className="text-2xl font-bold text-[var(--foreground)]">Churn Model</h2>
+              {project?.churnModel == null && (
+                <span className="ml-auto text-xs bg-[var(--background-subtle)] px-3 py-1 rounded-full font-semibold text-[var(--foreground-subtle)] border border-[var(--border)]">
+                  Default
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-[var(--foreground-subtle)] mb-5">
+              Tell daily churn scoring which analytics events matter in your product (PostHog, Mixpanel or Amplitude — your preferred source is used when several are connected). Changes apply from the next scoring run.
+            </p>
+
+            <div className="grid grid-cols-2 gap-5">
+              {CHURN_MODEL_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label className="block text-sm font-semibold text-[var(--foreground-muted)] mb-2">
+                    {field.label}
+                  </label>
+                  <input
+                    type="text"
+                    value={churnModelForm[field.key]}
+                    onChange={(e) => {
+                      setChurnModelForm(prev => ({ ...prev, [field.key]: e.target.value }));
+                      setChurnModelDirty(true);
+                    }}
+                    className="w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] font-mono text-sm"
+                  />
+                  <p className="text-xs text-[var(--foreground-subtle)] mt-2">{field.hint}</p>
+                </div>
+              ))}
+            </div>
+
+            <h3 className="text-lg font-bold text-[var(--foreground)] mt-8 mb-2">Scoring Weights</h3>
+            <p className="text-sm text-[var(--foreground-subtle)] mb-4">
+              Maximum points each signal contributes to the 0-100 risk score, and the scores at which users become medium, high or critical risk.
+            </p>
+            <div className="grid grid-cols-5 gap-3">
+              {(Object.keys(CHURN_RULE_LABELS) as ChurnRuleId[]).map((ruleId) => (
+                <div key={ruleId}>
+                  <label className="block text-xs font-semibold text-[var(--foreground-muted)] mb-2">
+                    {CHURN_RULE_LABELS[ruleId]}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={ruleSetForm.weights[ruleId]}
+                    onChange={(e) => {
+                      setRuleSetForm(prev => ({ ...prev, weights: { ...prev.weights, [ruleId]: Number(e.target.value) } }));
+                      setRuleSetDirty(true);
+                    }}
+                    className="w-full px-3 py-2 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] font-mono text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-3 mt-4">
+              {(['medium', 'high', 'critical'] as const).map((level) => (
+                <div key={level}>
+                  <label className="block text-xs font-semibold text-[var(--foreground-muted)] mb-2 capitalize">
+                    {level} threshold
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={ruleSetForm.thresholds[level]}
+                    onChange={(e) => {
+                      setRuleSetForm(prev => ({ ...prev, thresholds: { ...prev.thresholds, [level]: Number(e.target.value) } }));
+                      setRuleSetDirty(true);
+                    }}
+                    className="w-full px-3 py-2 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] font-mono text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-3 mt-5">
+              <button
+                onClick={handleBacktest}
+                disabled={isBacktesting}
+                className="flex items-center gap-2 px-4 py-2 bg-[var(--background-subtle)] hover:bg-[var(--muted)] border border-[var(--border)] rounded-xl text-[var(--foreground-muted)] font-medium text-sm transition-colors disabled:opacity-50"
+              >
+                {isBacktesting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Activity className="w-4 h-4" />}
+                Backtest These Weights
+              </button>
+              <span className="text-xs text-[var(--foreground-subtle)]">
+                Replays past scores against users who went inactive 14 days later
+              </span>
+            </div>
+            {backtestError && <p className="text-sm text-red-600 mt-3">{backtestError}</p>}
+            {backtest && (
+              <div className="mt-4 text-sm">
+                <p className="text-[var(--foreground-muted)] mb-2">
+                  {backtest.report.samples} users across {backtest.report.snapshotDates.length} snapshots,{' '}
+                  {backtest.report.churned} went inactive
+                  {backtest.report.baseRate != null && ` (${Math.round(backtest.report.baseRate * 100)}% base rate)`}
+                </p>
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-xs text-[var(--foreground-subtle)] uppercase">
+                      <th className="text-left py-1">Flagged at</th>
+                      <th className="text-right py-1">Users</th>
+                      <th className="text-right py-1">Precision</th>
+                      <th className="text-right py-1">Recall</th>
+                      {backtest.current && <th className="text-right py-1">Current P / R</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {backtest.report.atOrAbove.map((row, i) => {
+                      const current = backtest.current?.atOrAbove[i];
+                      const pct = (v: number | null | undefined) => (v != null ? `${Math.round(v * 100)}%` : '-');
+                      return (
+                        <tr key={row.level} className="border-t border-[var(--border)] text-[var(--foreground)]">
+                          <td className="py-1 capitalize">{row.level}+</td>
+                          <td className="py-1 text-right">{row.predicted}</td>
+                          <td className="py-1 text-right">{pct(row.precision)}</td>
+                          <td className="py-1 text-right">{pct(row.recall)}</td>
+                          {backtest.current && (
+                            <td className="py-1 text-right text-[var(--foreground-subtle)]">
+                              {pct(current?.precision)} / {pct(current?.recall)}
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Notification Settings (Placeholder) */}
         <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm opacity-60">
           <div className="flex items-center gap-3 mb-4">
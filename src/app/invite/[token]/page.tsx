@@ -0,0 +1,118 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowRight, Loader2, Mail, Radio } from 'lucide-react';
+
+interface InvitationPreview {
+  invitation: { email: string; role: string; invitedBy: string | null; expiresAt: string };
+  organization: { id: string; name: string };
+  signedInAs: string;
+  error: string | null;
+}
+
+export default function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const router = useRouter();
+  const [preview, setPreview] = useState<InvitationPreview | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/invitations/${token}`)
+      .then(async (r) => {
+        const data = await r.json();
+        if (!r.ok) throw new Error(data.error || 'Invitation not found');
+        setPreview(data);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load invitation'))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/invitations/${token}`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) { setError(data.error || 'Failed to accept invitation'); setIsAccepting(false); return; }
+      if (data.projects?.length > 0) localStorage.setItem('currentProjectId', data.projects[0].id);
+      localStorage.setItem('onboardingComplete', 'true');
+      router.push('/dashboard');
+    } catch {
+      setError('Something went wrong. Please try again.');
+      setIsAccepting(false);
+    }
+  };
+
+  const blocked = preview?.error || (!preview && error);
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] flex items-center justify-center p-4">
+      <div className="w-full max-w-lg">
+        <div className="flex items-center justify-center gap-2.5 mb-8">
+          <div className="w-10 h-10 rounded-xl bg-[var(--brand-primary)] flex items-center justify-center shadow-lg">
+            <Radio className="w-5 h-5 text-white" />
+          </div>
+          <span className="font-semibold text-[var(--foreground)] text-lg tracking-tight">Tranzmit</span>
+        </div>
+
+        <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-8 shadow-sm">
+          {isLoading ? (
+            <div className="flex justify-center"><Loader2 className="w-6 h-6 animate-spin text-[var(--foreground-muted)]" /></div>
+          ) : (
+            <>
+              <div className="flex items-center gap-3 mb-2">
+                <div className="w-9 h-9 rounded-lg bg-[var(--brand-light)] flex items-center justify-center">
+                  <Mail className="w-5 h-5 text-[var(--brand-primary)]" />
+                </div>
+                <h1 className="text-xl font-bold text-[var(--foreground)]">
+                  {preview ? `Join ${preview.organization.name}` : 'Invitation'}
+                </h1>
+              </div>
+
+              {preview && (
+                <p className="text-[var(--foreground-subtle)] text-sm mb-6">
+                  {preview.invitation.invitedBy ? `${preview.invitation.invitedBy} invited` : 'You were invited'}{' '}
+                  <span className="font-semibold text-[var(--foreground)]">{preview.invitation.email}</span> to join as{' '}
+                  {preview.invitation.role === 'admin' ? 'an admin' : 'a member'}.
+                </p>
+              )}
+
+              {(blocked || error) && (
+                <p className="text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl px-4 py-2 mb-4">
+                  {preview?.error || error}
+                  {preview?.error && preview.signedInAs && (
+                    <span className="block text-xs mt-1">You are signed in as {preview.signedInAs}.</span>
+                  )}
+                </p>
+              )}
+
+              {blocked ? (
+                <button
+                  onClick={() => router.push('/onboarding')}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-[var(--border)] hover:border-[var(--brand-primary)] text-[var(--foreground)] rounded-xl font-medium transition-all text-sm hover:bg-[var(--background-subtle)]"
+                >
+                  Continue without joining
+                </button>
+              ) : (
+                <button
+                  onClick={handleAccept}
+                  disabled={isAccepting}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-[var(--brand-primary)] hover:bg-[var(--brand-hover)] text-white rounded-xl hover:shadow-lg hover:shadow-[var(--brand-glow)] disabled:opacity-50 font-semibold transition-all"
+                >
+                  {isAccepting ? (
+                    <><Loader2 className="w-5 h-5 animate-spin" /> Joining...</>
+                  ) : (
+                    <>Accept invitation <ArrowRight className="w-4 h-4" /></>
+                  )}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Radio, Sparkles, ArrowRight, ArrowLeft, Loader2, Building2, BarChart3, Rocket, Check, Copy, Share2 } from 'lucide-react';
+import { Radio, Sparkles, ArrowRight, ArrowLeft, Loader2, Building2, BarChart3, Rocket, Check, Copy, Mail, Users } from 'lucide-react';
 
 type Step = 'join' | 'company' | 'analytics' | 'ready';
 const STEPS: Step[] = ['join', 'company', 'analytics', 'ready'];
@@ -12,7 +12,7 @@ interface OrgData {
   orgName: string;
   projectId: string;
   projectName: string;
-  apiKey: string;
+  apiKey: string; // Only known once generated — the project stores a hash
 }
 
 export default function OnboardingPage() {
@@ -20,7 +20,6 @@ export default function OnboardingPage() {
   const [step, setStep] = useState<Step>('join');
 
   // Step 1 state
-  const [orgId, setOrgId] = useState('');
   const [error, setError] = useState('');
   const [isJoining, setIsJoining] = useState(false);
 
@@ -44,7 +43,7 @@ export default function OnboardingPage() {
   // Step 4 state
   const [copiedKey, setCopiedKey] = useState(false);
   const [copiedSnippet, setCopiedSnippet] = useState(false);
-  const [copiedOrgId, setCopiedOrgId] = useState(false);
+  const [generatingKey, setGeneratingKey] = useState(false);
 
   const stepIndex = STEPS.indexOf(step);
 
@@ -63,7 +62,7 @@ export default function OnboardingPage() {
             orgName: owned.org.name,
             projectId: proj?.id || '',
             projectName: proj?.name || 'Default Project',
-            apiKey: proj?.apiKey || '',
+            apiKey: '',
           });
           setCompanyName(owned.org.name);
         }
@@ -72,20 +71,15 @@ export default function OnboardingPage() {
       .finally(() => setLoadingOrg(false));
   }, [step, orgData]);
 
-  // Step 1: Join existing org
-  const handleJoin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    let trimmed = orgId.trim();
-    if (!trimmed) { setError('Please enter an Organization ID'); return; }
-    if (trimmed.toLowerCase() === 'juno') trimmed = 'juno-demo';
-
+  // Step 1: Join the demo workspace (real teams join through an emailed invitation)
+  const handleJoinDemo = async () => {
     setIsJoining(true);
     setError('');
     try {
       const res = await fetch('/api/organizations/join', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ orgId: trimmed }),
+        body: JSON.stringify({ orgId: 'juno-demo' }),
       });
       const data = await res.json();
       if (!res.ok) { setError(data.error || 'Failed to join organization'); setIsJoining(false); return; }
@@ -168,6 +162,26 @@ export default function OnboardingPage() {
     router.push('/dashboard');
   };
 
+  // Step 4: issue a key the user can copy (the signup key was never shown)
+  const handleGenerateKey = async () => {
+    if (!orgData?.projectId) return;
+    setGeneratingKey(true);
+    try {
+      const res = await fetch(`/api/projects/${orgData.projectId}/api-key`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to generate API key');
+      setOrgData({ ...orgData, apiKey: data.key });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate API key');
+    } finally {
+      setGeneratingKey(false);
+    }
+  };
+
   const copyText = (text: string, setter: (v: boolean) => void) => {
     navigator.clipboard.writeText(text);
     setter(true);
@@ -215,40 +229,33 @@ export default function OnboardingPage() {
                 Join your team
               </h1>
               <p className="text-[var(--foreground-subtle)] text-center text-sm mb-8">
-                Enter the Organization ID shared by your team admin to access the workspace.
+                Teams join Tranzmit by invitation. Ask an admin to invite your email address from Settings.
               </p>
 
-              <form onSubmit={handleJoin} className="space-y-4">
-                <div>
-                  <label className={labelClass}>Organization ID</label>
-                  <input
-                    type="text"
-                    value={orgId}
-                    onChange={(e) => { setOrgId(e.target.value); setError(''); }}
-                    className={inputClass}
-                    placeholder="cm1abc2de3fg4hi5jk..."
-                    autoFocus
-                  />
-                </div>
+              <div className="flex items-start gap-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl px-4 py-3 mb-4">
+                <Mail className="w-5 h-5 text-[var(--brand-primary)] mt-0.5 flex-shrink-0" />
+                <p className="text-sm text-[var(--foreground-muted)]">
+                  Already invited? Open the link in your invitation email while signed in with the same address.
+                </p>
+              </div>
 
-                {error && (
-                  <p className="text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl px-4 py-2">
-                    {error}
-                  </p>
-                )}
+              {error && (
+                <p className="text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl px-4 py-2 mb-4">
+                  {error}
+                </p>
+              )}
 
-                <button
-                  type="submit"
-                  disabled={isJoining}
-                  className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-[var(--brand-primary)] hover:bg-[var(--brand-hover)] text-white rounded-xl hover:shadow-lg hover:shadow-[var(--brand-glow)] disabled:opacity-50 font-semibold transition-all"
-                >
-                  {isJoining ? (
-                    <><Loader2 className="w-5 h-5 animate-spin" /> Joining...</>
-                  ) : (
-                    <>Join Organization <ArrowRight className="w-4 h-4" /></>
-                  )}
-                </button>
-              </form>
+              <button
+                onClick={handleJoinDemo}
+                disabled={isJoining}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-[var(--brand-primary)] hover:bg-[var(--brand-hover)] text-white rounded-xl hover:shadow-lg hover:shadow-[var(--brand-glow)] disabled:opacity-50 font-semibold transition-all"
+              >
+                {isJoining ? (
+                  <><Loader2 className="w-5 h-5 animate-spin" /> Joining...</>
+                ) : (
+                  <>Explore the demo workspace <ArrowRight className="w-4 h-4" /></>
+                )}
+              </button>
 
               <div className="relative my-6">
                 <div className="absolute inset-0 flex items-center"><div className="w-full border-t border-[var(--border)]" /></div>
@@ -454,31 +461,37 @@ export default function OnboardingPage() {
                   <label className="block text-[10px] font-semibold text-[var(--foreground-subtle)] uppercase tracking-widest mb-2">Your API Key</label>
                   <div className="relative">
                     <div className="bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl px-4 py-3 font-mono text-sm text-[var(--foreground)] pr-20 truncate">
-                      {orgData?.apiKey || 'Loading...'}
+                      {orgData?.apiKey || 'Generate a key to see it here'}
                     </div>
-                    <button
-                      onClick={() => orgData?.apiKey && copyText(orgData.apiKey, setCopiedKey)}
-                      className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-[var(--card)] border border-[var(--border)] hover:border-[var(--brand-primary)] transition-colors"
-                    >
-                      {copiedKey ? <><Check className="w-3 h-3 text-emerald-400" /> Copied</> : <><Copy className="w-3 h-3" /> Copy</>}
-                    </button>
+                    {orgData?.apiKey ? (
+                      <button
+                        onClick={() => copyText(orgData.apiKey, setCopiedKey)}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-[var(--card)] border border-[var(--border)] hover:border-[var(--brand-primary)] transition-colors"
+                      >
+                        {copiedKey ? <><Check className="w-3 h-3 text-emerald-400" /> Copied</> : <><Copy className="w-3 h-3" /> Copy</>}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleGenerateKey}
+                        disabled={generatingKey || !orgData?.projectId}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-[var(--card)] border border-[var(--border)] hover:border-[var(--brand-primary)] transition-colors disabled:opacity-50"
+                      >
+                        {generatingKey ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Generate'}
+                      </button>
+                    )}
                   </div>
+                  {orgData?.apiKey && (
+                    <p className="text-xs text-[var(--foreground-subtle)] mt-2">Copy it now — it won&apos;t be shown again.</p>
+                  )}
+                  {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
                 </div>
 
-                {/* Org ID for sharing */}
-                <div>
-                  <label className="block text-[10px] font-semibold text-[var(--foreground-subtle)] uppercase tracking-widest mb-2">Org ID — share with your team</label>
-                  <div className="relative">
-                    <div className="bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl px-4 py-3 font-mono text-sm text-[var(--foreground)] pr-20 truncate">
-                      {orgData?.orgId || 'Loading...'}
-                    </div>
-                    <button
-                      onClick={() => orgData?.orgId && copyText(orgData.orgId, setCopiedOrgId)}
-                      className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-[var(--card)] border border-[var(--border)] hover:border-[var(--brand-primary)] transition-colors"
-                    >
-                      {copiedOrgId ? <><Check className="w-3 h-3 text-emerald-400" /> Copied</> : <><Share2 className="w-3 h-3" /> Copy</>}
-                    </button>
-                  </div>
+                {/* Team invitations */}
+                <div className="flex items-start gap-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl px-4 py-3">
+                  <Users className="w-5 h-5 text-[var(--brand-primary)] mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-[var(--foreground-muted)]">
+                    Invite your team by email from <span className="font-semibold text-[var(--foreground)]">Settings → Members</span> once you&apos;re in the dashboard.
+                  </p>
                 </div>
 
                 {/* Embed snippet */}
@@ -27,17 +27,10 @@ interface FunnelStep {
   avgTimeToConvert?: number;
 }
 
-interface PostHogConfig {
-  apiKey: string;
-  projectId: string;
-  host: string;
-}
-
 interface InteractiveFunnelMapProps {
   steps: FunnelStep[];
   funnelId?: string | number;
-  posthogConfig?: PostHogConfig;
-  localProjectId?: string; // Local database project ID for cohort creation
+  localProjectId?: string; // Local database project ID — PostHog requests use its stored credentials
   onAnalyzeDropOff: (step: FunnelStep, stepIndex: number) => void;
   onCreateCohort?: (stepIndex: number, cohortType: 'converted' | 'dropped') => void;
 }
@@ -164,7 +157,6 @@ function CohortPanel({
   type,
   steps,
   onClose,
-  posthogConfig,
   funnelId,
   localProjectId
 }: {
@@ -174,7 +166,6 @@ function CohortPanel({
   onClose: () => void;
   onCreateCohort?: (stepIndex: number, type: 'converted' | 'dropped') => void;
   onAnalyzeDropOff: (step: FunnelStep, stepIndex: number) => void;
-  posthogConfig?: PostHogConfig;
   funnelId?: string | number;
   localProjectId?: string;
 }) {
@@ -202,7 +193,7 @@ function CohortPanel({
 
   React.useEffect(() => {
     const fetchUsers = async () => {
-      if (!posthogConfig?.apiKey) {
+      if (!localProjectId) {
         setLoading(false);
         return;
       }
@@ -211,9 +202,7 @@ function CohortPanel({
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'x-posthog-key': posthogConfig.apiKey,
-            'x-posthog-project': posthogConfig.projectId,
-            'x-posthog-host': posthogConfig.host,
+            'x-tranzmit-project': localProjectId,
           },
           body: JSON.stringify({ action: 'get-funnel-user-ids', funnelId, stepIndex, cohortType: type }),
         });
@@ -226,10 +215,10 @@ function CohortPanel({
       }
     };
     fetchUsers();
-  }, [stepIndex, type, posthogConfig, funnelId]);
+  }, [stepIndex, type, localProjectId, funnelId]);
 
   const handleAnalyze = async () => {
-    if (!posthogConfig?.apiKey || !funnelId) return;
+    if (!localProjectId || !funnelId) return;
     
     setCorrelationLoading(true);
     setCorrelationError(null);
@@ -240,9 +229,7 @@ function CohortPanel({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-posthog-key': posthogConfig.apiKey,
-          'x-posthog-project': posthogConfig.projectId,
-          'x-posthog-host': posthogConfig.host,
+          'x-tranzmit-project': localProjectId,
         },
         body: JSON.stringify({ action: 'funnel-correlation', funnelId, stepIndex }),
       });
@@ -262,7 +249,7 @@ function CohortPanel({
   };
 
   const handleDeepAnalysis = async () => {
-    if (!posthogConfig?.apiKey || userIds.length === 0) return;
+    if (!localProjectId || userIds.length === 0) return;
     
     setDeepAnalysisLoading(true);
     setDeepAnalysisError(null);
@@ -273,9 +260,7 @@ function CohortPanel({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-posthog-key': posthogConfig.apiKey,
-          'x-posthog-project': posthogConfig.projectId,
-          'x-posthog-host': posthogConfig.host,
+          'x-tranzmit-project': localProjectId,
         },
         body: JSON.stringify({ action: 'deep-analysis', userIds }),
       });
@@ -295,7 +280,7 @@ function CohortPanel({
   };
 
   const handleCreate = async () => {
-    if (!posthogConfig?.apiKey || !funnelId) return;
+    if (!localProjectId || !funnelId) return;
     setCreating(true);
     try {
       // Fetch correlation data if not already loaded
@@ -306,9 +291,7 @@ function CohortPanel({
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
-              'x-posthog-key': posthogConfig.apiKey,
-              'x-posthog-project': posthogConfig.projectId,
-              'x-posthog-host': posthogConfig.host,
+              'x-tranzmit-project': localProjectId,
             },
             body: JSON.stringify({ action: 'funnel-correlation', funnelId, stepIndex }),
           });
@@ -327,9 +310,7 @@ function CohortPanel({
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
-              'x-posthog-key': posthogConfig.apiKey,
-              'x-posthog-project': posthogConfig.projectId,
-              'x-posthog-host': posthogConfig.host,
+              'x-tranzmit-project': localProjectId,
             },
             body: JSON.stringify({ action: 'deep-analysis', userIds }),
           });
@@ -354,9 +335,7 @@ function CohortPanel({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-posthog-key': posthogConfig.apiKey,
-          'x-posthog-project': posthogConfig.projectId,
-          'x-posthog-host': posthogConfig.host,
+          'x-tranzmit-project': localProjectId,
         },
         body: JSON.stringify({ 
           action: 'create-funnel-cohort', 
@@ -788,7 +767,7 @@ function CohortPanel({
 
 const nodeTypes = { stepNode: StepNode };
 
-export default function InteractiveFunnelMap({ steps, funnelId, posthogConfig, localProjectId, onAnalyzeDropOff, onCreateCohort }: InteractiveFunnelMapProps) {
+export default function InteractiveFunnelMap({ steps, funnelId, localProjectId, onAnalyzeDropOff, onCreateCohort }: InteractiveFunnelMapProps) {
   const [selectedCohort, setSelectedCohort] = useState<{ stepIndex: number; type: 'converted' | 'dropped' } | null>(null);
   
   const maxCount = Math.max(...steps.map(s => s.count));
@@ -872,7 +851,6 @@ export default function InteractiveFunnelMap({ steps, funnelId, posthogConfig, l
             onClose={() => setSelectedCohort(null)}
             onCreateCohort={onCreateCohort}
             onAnalyzeDropOff={onAnalyzeDropOff}
-            posthogConfig={posthogConfig}
             funnelId={funnelId}
             localProjectId={localProjectId}
           />
@@ -0,0 +1,235 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Ban, KeyRound, Loader2, Pencil } from 'lucide-react';
+import type { ApiKeyScope } from '@/lib/public-api/keys';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  keyHint: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ApiKeyForm {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+}
+
+const EMPTY_FORM: ApiKeyForm = { name: '', scopes: ['read'], rateLimitPerMinute: 60 };
+
+const SCOPES: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'read', label: 'Read', description: 'List and fetch sessions, conversations, tickets and churn scores' },
+  { value: 'write', label: 'Write', description: 'Update ticket status, assignee and team; trigger session analysis' },
+];
+
+export function ApiKeys({ projectId }: { projectId: string }) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [form, setForm] = useState<ApiKeyForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/api-keys?projectId=${projectId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setKeys(data.keys || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadKeys().finally(() => setIsLoading(false));
+  }, [loadKeys]);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setForm((prev) => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope) ? prev.scopes.filter((s) => s !== scope) : [...prev.scopes, scope],
+    }));
+  };
+
+  const startEdit = (apiKey: ApiKey) => {
+    setEditingId(apiKey.id);
+    setForm({ name: apiKey.name, scopes: apiKey.scopes, rateLimitPerMinute: apiKey.rateLimitPerMinute });
+    setNewKey(null);
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    setNewKey(null);
+    try {
+      const res = await fetch(editingId ? `/api/api-keys/${editingId}` : '/api/api-keys', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, ...(editingId ? {} : { projectId }) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      if (data.secret) setNewKey(data.secret);
+      resetForm();
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save API key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Requests using it will fail immediately.`)) return;
+    const res = await fetch(`/api/api-keys/${apiKey.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      if (editingId === apiKey.id) resetForm();
+      await loadKeys();
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] text-sm';
+  const labelClass = 'block text-sm font-semibold text-[var(--foreground-muted)] mb-2';
+  const editing = keys.find((k) => k.id === editingId);
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <KeyRound className="w-6 h-6 text-[var(--brand-primary)]" />
+        <h2 className="text-2xl font-bold text-[var(--foreground)]">API Keys</h2>
+        <span className="ml-auto text-xs bg-[var(--background-subtle)] px-3 py-1 rounded-full font-semibold text-[var(--foreground-subtle)] border border-[var(--border)]">
+          Optional
+        </span>
+      </div>
+      <p className="text-sm text-[var(--foreground-subtle)] mb-5">
+        Keys for the REST API at <code className="font-mono text-xs">/api/v1</code>. Send them as{' '}
+        <code className="font-mono text-xs">Authorization: Bearer &lt;key&gt;</code>. Each key has its own scopes and
+        per-minute rate limit and can be revoked without affecting the others or the SDK key above.
+      </p>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+      {newKey && (
+        <div className="mb-4 p-4 rounded-xl border border-amber-300 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10">
+          <p className="text-sm font-semibold text-[var(--foreground)] mb-1">New API key — copy it now, it won&apos;t be shown again</p>
+          <code className="block text-xs font-mono break-all text-[var(--foreground)] select-all">{newKey}</code>
+        </div>
+      )}
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--foreground-muted)]" />
+      ) : (
+        <>
+          {keys.length > 0 && (
+            <div className="space-y-2 mb-6">
+              {keys.map((apiKey) => (
+                <div
+                  key={apiKey.id}
+                  className={`flex items-center gap-3 border border-[var(--border)] rounded-xl px-4 py-3 ${apiKey.revokedAt ? 'opacity-60' : ''}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm font-semibold text-[var(--foreground)]">
+                      {apiKey.name}
+                      <span className="ml-2 text-xs font-mono font-normal text-[var(--foreground-subtle)]">{apiKey.keyHint}</span>
+                    </div>
+                    <div className="text-xs text-[var(--foreground-subtle)] truncate">
+                      {apiKey.scopes.join(' + ')} · {apiKey.rateLimitPerMinute}/min ·{' '}
+                      {apiKey.revokedAt
+                        ? `Revoked ${new Date(apiKey.revokedAt).toLocaleDateString()}`
+                        : apiKey.lastUsedAt
+                          ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}`
+                          : 'Never used'}
+                    </div>
+                  </div>
+                  {!apiKey.revokedAt && (
+                    <>
+                      <button
+                        onClick={() => startEdit(apiKey)}
+                        aria-label={`Edit ${apiKey.name}`}
+                        className="p-1 text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(apiKey)}
+                        aria-label={`Revoke ${apiKey.name}`}
+                        className="p-1 text-[var(--foreground-muted)] hover:text-red-500"
+                      >
+                        <Ban className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border border-[var(--border)] rounded-xl p-4">
+            <h3 className="text-lg font-bold text-[var(--foreground)] mb-4">{editing ? `Edit ${editing.name}` : 'New API Key'}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="Warehouse sync"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Rate Limit (requests / minute)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={form.rateLimitPerMinute}
+                  onChange={(e) => setForm((prev) => ({ ...prev, rateLimitPerMinute: Number(e.target.value) }))}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <label className={labelClass}>Scopes</label>
+                {SCOPES.map(({ value, label, description }) => (
+                  <label key={value} className="flex items-center gap-2 text-sm text-[var(--foreground-muted)]">
+                    <input type="checkbox" checked={form.scopes.includes(value)} onChange={() => toggleScope(value)} />
+                    <span className="font-semibold">{label}</span>
+                    <span className="text-xs text-[var(--foreground-subtle)]">{description}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+              {editing && (
+                <button onClick={resetForm} className="px-4 py-2 text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)]">
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !form.name.trim() || form.scopes.length === 0}
+                className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+              >
+                {isSaving ? 'Saving…' : editing ? 'Save Key' : 'Create Key'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, Loader2, ScrollText } from 'lucide-react';
+import type { AuditAction } from '@/lib/audit-log';
+
+interface AuditEntry {
+  id: string;
+  createdAt: string;
+  action: AuditAction;
+  projectId: string | null;
+  actor: { type: string; id: string | null; label: string | null };
+  target: { type: string; id: string | null; label: string | null };
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+interface Filters {
+  action: string;
+  projectId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { action: '', projectId: '', from: '', to: '' };
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'recovery.email_sent': 'Recovery email sent',
+  'recovery.call_placed': 'Recovery call placed',
+  'outreach.invite_sent': 'Interview invite sent',
+  'project.credentials_updated': 'Credentials changed',
+  'project.sdk_key_rotated': 'SDK key rotated',
+  'project.deleted': 'Project deleted',
+  'project.retention_updated': 'Retention policy changed',
+  'issue_tracker.connected': 'Issue tracker connected',
+  'issue_tracker.updated': 'Issue tracker changed',
+  'issue_tracker.disconnected': 'Issue tracker disconnected',
+  'api_key.created': 'API key created',
+  'api_key.updated': 'API key changed',
+  'api_key.revoked': 'API key revoked',
+  'api_key.used': 'API key used',
+  'webhook_endpoint.created': 'Webhook endpoint added',
+  'webhook_endpoint.updated': 'Webhook endpoint changed',
+  'webhook_endpoint.deleted': 'Webhook endpoint removed',
+  'digest.created': 'Digest added',
+  'digest.updated': 'Digest changed',
+  'digest.deleted': 'Digest removed',
+  'churn_alert_rule.created': 'Churn alert rule added',
+  'churn_alert_rule.updated': 'Churn alert rule changed',
+  'churn_alert_rule.deleted': 'Churn alert rule removed',
+  'routing_rule.created': 'Routing rule added',
+  'routing_rule.updated': 'Routing rule changed',
+  'routing_rule.deleted': 'Routing rule removed',
+  'member.invited': 'Member invited',
+  'member.role_changed': 'Member role changed',
+  'member.removed': 'Member removed',
+  'organization.ownership_transferred': 'Ownership transferred',
+  'data.deleted': 'Data deleted',
+  'data.erased': 'Personal data erased',
+  'data.exported': 'Personal data exported',
+  'data.retention_applied': 'Retention policy applied',
+  'audit_log.exported': 'Audit log exported',
+};
+
+function filterQuery(filters: Filters): URLSearchParams {
+  const query = new URLSearchParams();
+  if (filters.action) query.set('action', filters.action);
+  if (filters.projectId) query.set('projectId', filters.projectId);
+  // Date inputs are whole days in the browser's timezone
+  if (filters.from) query.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return query;
+}
+
+export function AuditLog({ organizationId }: { organizationId: string }) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [forbidden, setForbidden] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const base = `/api/organizations/${organizationId}/audit-log`;
+
+  const loadPage = useCallback(
+    async (cursor: string | null) => {
+      const query = filterQuery(filters);
+      if (cursor) query.set('cursor', cursor);
+      const res = await fetch(`${base}?${query}`);
+      const data = await res.json();
+      if (res.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setEntries((prev) => (cursor ? [...prev, ...data.entries] : data.entries));
+      setProjects(data.projects || []);
+      setNextCursor(data.nextCursor);
+    },
+    [base, filters]
+  );
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    loadPage(null)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load audit log'))
+      .finally(() => setIsLoading(false));
+  }, [loadPage]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      await loadPage(nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const exportUrl = (format: 'csv' | 'json') => {
+    const query = filterQuery(filters);
+    query.set('format', format);
+    return `${base}/export?${query}`;
+  };
+
+  // Only admins and the owner can read the audit log
+  if (forbidden) return null;
+
+  const projectName = (id: string | null) => (id ? projects.find((p) => p.id === id)?.name ?? id : '—');
+  const selectClass =
+    'px-3 py-2 bg-[var(--background-subtle)] border border-[var(--border)] rounded-lg text-sm text-[var(--foreground)]';
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <ScrollText className="w-6 h-6 text-[var(--brand-primary)]" />
+        <h2 className="text-2xl font-bold text-[var(--foreground)]">Audit Log</h2>
+        <div className="ml-auto flex gap-2">
+          {(['csv', 'json'] as const).map((format) => (
+            <a
+              key={format}
+              href={exportUrl(format)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-[var(--background-subtle)] hover:bg-[var(--muted)] border border-[var(--border)] rounded-lg text-xs font-semibold text-[var(--foreground-muted)]"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+      </div>
+      <p className="text-sm text-[var(--foreground-subtle)] mb-5">
+        Outreach, credential changes, API key use, member changes and deletions across this organization. Entries can&apos;t
+        be edited or removed. Secrets are shown masked. Exports use the filters below.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select
+          value={filters.action}
+          onChange={(e) => setFilters((prev) => ({ ...prev, action: e.target.value }))}
+          aria-label="Filter by action"
+          className={selectClass}
+        >
+          <option value="">All actions</option>
+          {(Object.keys(ACTION_LABELS) as AuditAction[]).map((action) => (
+            <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+          ))}
+        </select>
+        <select
+          value={filters.projectId}
+          onChange={(e) => setFilters((prev) => ({ ...prev, projectId: e.target.value }))}
+          aria-label="Filter by project"
+          className={selectClass}
+        >
+          <option value="">All projects</option>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>{project.name}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => setFilters((prev) => ({ ...prev, from: e.target.value }))}
+          aria-label="From date"
+          className={selectClass}
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => setFilters((prev) => ({ ...prev, to: e.target.value }))}
+          aria-label="To date"
+          className={selectClass}
+        />
+        {(filters.action || filters.projectId || filters.from || filters.to) && (
+          <button
+            onClick={() => setFilters(EMPTY_FILTERS)}
+            className="px-3 py-2 text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--foreground-muted)]" />
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-[var(--foreground-subtle)]">No entries match these filters.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-[var(--foreground-subtle)] border-b border-[var(--border)]">
+                  <th className="py-2 pr-2 w-6" />
+                  <th className="py-2 pr-4">When</th>
+                  <th className="py-2 pr-4">Actor</th>
+                  <th className="py-2 pr-4">Action</th>
+                  <th className="py-2 pr-4">Target</th>
+                  <th className="py-2 pr-4">Project</th>
+                  <th className="py-2">IP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const expanded = expandedId === entry.id;
+                  const hasDetail = entry.before || entry.after || entry.metadata || entry.userAgent;
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr className="border-b border-[var(--border)] align-top">
+                        <td className="py-2 pr-2">
+                          {hasDetail && (
+                            <button
+                              onClick={() => setExpandedId(expanded ? null : entry.id)}
+                              aria-label={expanded ? 'Hide details' : 'Show details'}
+                              className="text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+                            >
+                              {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                            </button>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap text-[var(--foreground-muted)]">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td className="py-2 pr-4 text-[var(--foreground)]">
+                          {entry.actor.label ?? entry.actor.id ?? entry.actor.type}
+                          {entry.actor.type === 'api_key' && (
+                            <span className="ml-1 text-xs text-[var(--foreground-subtle)]">(API key)</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 font-medium text-[var(--foreground)]">
+                          {ACTION_LABELS[entry.action] ?? entry.action}
+                        </td>
+                        <td className="py-2 pr-4 text-[var(--foreground-muted)]">
+                          <span className="text-xs text-[var(--foreground-subtle)]">{entry.target.type.replace(/_/g, ' ')}</span>{' '}
+                          {entry.target.label ?? entry.target.id ?? ''}
+                        </td>
+                        <td className="py-2 pr-4 text-[var(--foreground-muted)]">{projectName(entry.projectId)}</td>
+                        <td className="py-2 font-mono text-xs text-[var(--foreground-muted)]">{entry.ipAddress ?? '—'}</td>
+                      </tr>
+                      {expanded && (
+                        <tr className="border-b border-[var(--border)]">
+                          <td />
+                          <td colSpan={6} className="py-3">
+                            <div className="grid grid-cols-2 gap-3 text-xs">
+                              {entry.before && (
+                                <div>
+                                  <div className="font-semibold text-[var(--foreground-muted)] mb-1">Before</div>
+                                  <pre className="bg-[var(--background-subtle)] rounded-lg p-2 overflow-x-auto">{JSON.stringify(entry.before, null, 2)}</pre>
+                                </div>
+                              )}
+                              {entry.after && (
+                                <div>
+                                  <div className="font-semibold text-[var(--foreground-muted)] mb-1">After</div>
+                                  <pre className="bg-[var(--background-subtle)] rounded-lg p-2 overflow-x-auto">{JSON.stringify(entry.after, null, 2)}</pre>
+                                </div>
+                              )}
+                              {entry.metadata && (
+                                <div className="col-span-2">
+                                  <div className="font-semibold text-[var(--foreground-muted)] mb-1">Details</div>
+                                  <pre className="bg-[var(--background-subtle)] rounded-lg p-2 overflow-x-auto">{JSON.stringify(entry.metadata, null, 2)}</pre>
+                                </div>
+                              )}
+                              {entry.userAgent && (
+                                <div className="col-span-2 text-[var(--foreground-subtle)] break-all">{entry.userAgent}</div>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {nextCursor && (
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="mt-4 px-4 py-2 text-sm font-medium text-[var(--foreground-muted)] hover:text-[var(--foreground)] disabled:opacity-50"
+            >
+              {isLoadingMore ? 'Loading…' : 'Load more'}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
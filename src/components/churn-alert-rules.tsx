@@ -0,0 +1,250 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Bell, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  minLevel: 'high' | 'critical';
+  segments: string[];
+  channel: 'webhook' | 'email';
+  target: string;
+}
+
+interface RecentAlert {
+  id: string;
+  ruleId: string;
+  date: string;
+  distinctId: string;
+  email: string | null;
+  fromLevel: string | null;
+  toLevel: string;
+  riskScore: number;
+  status: string;
+  error: string | null;
+  nextAttemptAt: string | null;
+}
+
+const SEGMENT_OPTIONS = [
+  { value: 'paid_user', label: 'Paid' },
+  { value: 'active_user', label: 'Active' },
+  { value: 'new_user', label: 'New' },
+];
+
+const EMPTY_RULE = {
+  name: '',
+  minLevel: 'high' as const,
+  segments: ['paid_user'],
+  channel: 'webhook' as const,
+  target: '',
+};
+
+export function ChurnAlertRules({ projectId }: { projectId: string }) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [recentAlerts, setRecentAlerts] = useState<RecentAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<typeof EMPTY_RULE | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/churn-scores/alert-rules?projectId=${projectId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setRules(data.rules || []);
+      setRecentAlerts(data.recentAlerts || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alert rules');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadRules().finally(() => setIsLoading(false));
+  }, [loadRules]);
+
+  const handleCreate = async () => {
+    if (!draft || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/churn-scores/alert-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, ...draft }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setDraft(null);
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create alert rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)));
+    const res = await fetch(`/api/churn-scores/alert-rules/${rule.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !rule.enabled }),
+    });
+    if (!res.ok) await loadRules();
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Delete alert rule "${rule.name}"?`)) return;
+    const res = await fetch(`/api/churn-scores/alert-rules/${rule.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    }
+  };
+
+  const ruleNames = new Map(rules.map((r) => [r.id, r.name]));
+
+  return (
+    <div className="card p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Bell className="w-4 h-4 text-[var(--foreground-muted)]" />
+          <h3 className="text-sm font-semibold text-[var(--foreground)]">Alert Rules</h3>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft(EMPTY_RULE)}
+            className="flex items-center gap-1 text-xs text-[var(--brand-primary)] hover:underline"
+          >
+            <Plus className="w-3.5 h-3.5" /> Add rule
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-[var(--foreground-muted)] mb-3">
+        Notify a webhook or email list when users cross into high or critical risk after a scoring run.
+      </p>
+
+      {error && <p className="text-xs text-red-500 mb-3">{error}</p>}
+
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-[var(--foreground-muted)]" />
+      ) : (
+        <div className="space-y-2">
+          {rules.length === 0 && !draft && (
+            <p className="text-xs text-[var(--foreground-subtle)]">No alert rules yet.</p>
+          )}
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center gap-3 text-xs border border-[var(--border)] rounded-lg px-3 py-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={() => handleToggle(rule)}
+                aria-label={`Enable ${rule.name}`}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-[var(--foreground)]">{rule.name}</div>
+                <div className="text-[var(--foreground-muted)] truncate">
+                  {rule.segments.join(', ').replace(/_user/g, '')} → {rule.minLevel}+ · {rule.channel}: {rule.target}
+                </div>
+              </div>
+              <button
+                onClick={() => handleDelete(rule)}
+                aria-label={`Delete ${rule.name}`}
+                className="p-1 text-[var(--foreground-muted)] hover:text-red-500"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+
+          {draft && (
+            <div className="border border-[var(--border)] rounded-lg p-3 space-y-2 text-xs">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Rule name, e.g. Paid users going critical"
+                className="w-full px-2 py-1.5 rounded border border-[var(--border)] bg-[var(--card)] text-[var(--foreground)]"
+              />
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={draft.minLevel}
+                  onChange={(e) => setDraft({ ...draft, minLevel: e.target.value as typeof draft.minLevel })}
+                  aria-label="Minimum risk level"
+                  className="px-2 py-1.5 rounded border border-[var(--border)] bg-[var(--card)] text-[var(--foreground)]"
+                >
+                  <option value="high">Crosses into high+</option>
+                  <option value="critical">Crosses into critical</option>
+                </select>
+                {SEGMENT_OPTIONS.map((option) => (
+                  <label key={option.value} className="flex items-center gap-1 text-[var(--foreground-muted)]">
+                    <input
+                      type="checkbox"
+                      checked={draft.segments.includes(option.value)}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          segments: e.target.checked
+                            ? [...draft.segments, option.value]
+                            : draft.segments.filter((s) => s !== option.value),
+                        })
+                      }
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <select
+                  value={draft.channel}
+                  onChange={(e) => setDraft({ ...draft, channel: e.target.value as typeof draft.channel })}
+                  aria-label="Channel"
+                  className="px-2 py-1.5 rounded border border-[var(--border)] bg-[var(--card)] text-[var(--foreground)]"
+                >
+                  <option value="webhook">Webhook</option>
+                  <option value="email">Email</option>
+                </select>
+                <input
+                  value={draft.target}
+                  onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+                  placeholder={draft.channel === 'webhook' ? 'https://hooks.example.com/churn' : 'cs@example.com, owner@example.com'}
+                  className="flex-1 px-2 py-1.5 rounded border border-[var(--border)] bg-[var(--card)] text-[var(--foreground)]"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-[var(--foreground-muted)]">
+                  Cancel
+                </button>
+                <button onClick={handleCreate} disabled={isSaving} className="btn-primary px-3 py-1.5 text-xs">
+                  {isSaving ? 'Saving…' : 'Save rule'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {recentAlerts.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-xs font-medium text-[var(--foreground-subtle)] uppercase mb-2">Recent Alerts</h4>
+          <div className="space-y-1 text-xs">
+            {recentAlerts.slice(0, 8).map((alert) => (
+              <div key={alert.id} className="flex items-center justify-between gap-2">
+                <span className="text-[var(--foreground)] truncate">{alert.email || alert.distinctId}</span>
+                <span className="text-[var(--foreground-muted)] shrink-0">
+                  {alert.fromLevel ?? 'new'} → {alert.toLevel} · {ruleNames.get(alert.ruleId) ?? 'deleted rule'}
+                  {alert.status === 'failed' && (
+                    <span className="text-red-500" title={alert.error ?? undefined}>
+                      {alert.nextAttemptAt ? ' · failed, retrying' : ' · failed'}
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
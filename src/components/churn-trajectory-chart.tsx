@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { TrajectoryPoint, TrajectoryWindow } from '@/lib/churn-scoring/trajectory';
+
+const WINDOWS: TrajectoryWindow[] = [30, 60, 90];
+
+// Sub-score series drawn under the overall risk score
+const SUB_SCORES: { key: keyof TrajectoryPoint; label: string; color: string }[] = [
+  { key: 'recencyScore', label: 'Recency', color: '#f97316' },
+  { key: 'usageDropScore', label: 'Usage Drop', color: '#eab308' },
+  { key: 'engagementQualityScore', label: 'Engagement', color: '#8b5cf6' },
+  { key: 'frictionScore', label: 'Friction', color: '#06b6d4' },
+  { key: 'featureAdoptionLossScore', label: 'Adoption', color: '#64748b' },
+];
+
+const WIDTH = 560;
+const HEIGHT = 160;
+const PAD = 8;
+
+function toPath(points: TrajectoryPoint[], key: keyof TrajectoryPoint): string {
+  const step = points.length > 1 ? (WIDTH - PAD * 2) / (points.length - 1) : 0;
+  return points
+    .map((p, i) => {
+      const x = PAD + i * step;
+      const y = HEIGHT - PAD - ((p[key] as number) / 100) * (HEIGHT - PAD * 2);
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+export function ChurnTrajectoryChart({ projectId, distinctId }: { projectId: string; distinctId: string }) {
+  const [days, setDays] = useState<TrajectoryWindow>(30);
+  const [points, setPoints] = useState<TrajectoryPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/churn-scores/trajectory?projectId=${projectId}&distinctId=${encodeURIComponent(distinctId)}&days=${days}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+        if (!cancelled) {
+          setPoints(data.points || []);
+          setError(null);
+        }
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [projectId, distinctId, days]);
+
+  const selectWindow = (next: TrajectoryWindow) => {
+    if (next === days) return;
+    setIsLoading(true);
+    setError(null);
+    setDays(next);
+  };
+
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-medium text-[var(--foreground-subtle)] uppercase">Risk Trajectory</h4>
+        <div className="flex gap-1">
+          {WINDOWS.map((w) => (
+            <button
+              key={w}
+              onClick={() => selectWindow(w)}
+              className={`px-2 py-0.5 rounded text-xs ${
+                days === w
+                  ? 'bg-[var(--brand-primary)] text-white'
+                  : 'text-[var(--foreground-muted)] hover:bg-[var(--muted)]'
+              }`}
+            >
+              {w}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-40 flex items-center justify-center text-[var(--foreground-muted)]">
+          <Loader2 className="w-4 h-4 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="h-40 flex items-center justify-center text-xs text-red-500">{error}</div>
+      ) : points.length < 2 ? (
+        <div className="h-40 flex items-center justify-center text-xs text-[var(--foreground-muted)]">
+          Not enough scored days in the last {days} days
+        </div>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40" preserveAspectRatio="none">
+            {[25, 50, 75].map((y) => (
+              <line
+                key={y}
+                x1={PAD}
+                x2={WIDTH - PAD}
+                y1={HEIGHT - PAD - (y / 100) * (HEIGHT - PAD * 2)}
+                y2={HEIGHT - PAD - (y / 100) * (HEIGHT - PAD * 2)}
+                stroke="var(--border)"
+                strokeDasharray="4 4"
+              />
+            ))}
+            {SUB_SCORES.map((s) => (
+              <path key={s.key} d={toPath(points, s.key)} fill="none" stroke={s.color} strokeWidth={1} opacity={0.7} />
+            ))}
+            <path d={toPath(points, 'riskScore')} fill="none" stroke="#ef4444" strokeWidth={2.5} />
+          </svg>
+          <div className="flex items-center justify-between text-xs text-[var(--foreground-muted)] mt-1">
+            <span>{first.date}</span>
+            <span>
+              Risk {first.riskScore} → <span className="text-[var(--foreground)] font-medium">{last.riskScore}</span>
+            </span>
+            <span>{last.date}</span>
+          </div>
+          <div className="flex flex-wrap gap-3 mt-2 text-xs text-[var(--foreground-muted)]">
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-0.5 bg-red-500 inline-block" /> Risk score
+            </span>
+            {SUB_SCORES.map((s) => (
+              <span key={s.key} className="flex items-center gap-1">
+                <span className="w-3 h-0.5 inline-block" style={{ backgroundColor: s.color }} /> {s.label}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Download, Loader2, Save, ShieldCheck, Trash2 } from 'lucide-react';
+import { resolveRetentionPolicy } from '@/lib/privacy/policy';
+import { ERASURE_TARGETS, RETENTION_DATA_TYPES } from '@/lib/privacy/types';
+import type { ErasureReport, ErasureTarget, RetentionDataType } from '@/lib/privacy/types';
+
+const RETENTION_LABELS: Record<RetentionDataType, { label: string; hint: string }> = {
+  sessionReplays: { label: 'Session replays', hint: 'Recorded events are cleared; the analysis is kept' },
+  replayChunks: { label: 'SDK replay chunks', hint: 'Raw recorder uploads' },
+  conversations: { label: 'Conversation transcripts', hint: 'Transcript and participant email/phone are cleared' },
+  churnedUsers: { label: 'Churned users', hint: 'Recovery contacts and outreach history' },
+  uploadedUsers: { label: 'Uploaded users', hint: 'Interview invite lists' },
+  churnScores: { label: 'Churn scores', hint: 'Daily risk scores, by scoring date' },
+};
+
+const ERASURE_LABELS: Record<ErasureTarget, string> = {
+  sessions: 'Sessions',
+  replayChunks: 'Replay chunks',
+  conversations: 'Conversations',
+  cohortMembers: 'Cohort memberships',
+  dailyChurnScores: 'Churn scores',
+  churnAlerts: 'Churn alerts',
+  churnedUsers: 'Churned users',
+  churnedSessionBatches: 'CSV batch results',
+  uploadedUsers: 'Uploaded users',
+  interviews: 'Interviews',
+  widgetTriggers: 'Widget triggers',
+  webhookDeliveries: 'Webhook deliveries',
+  churnScoringRuns: 'Churn scoring checkpoints',
+};
+
+// Retention form state — an empty field means "keep forever"
+type RetentionForm = Record<RetentionDataType, string>;
+
+const inputClass =
+  'w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] text-sm';
+
+export function DataPrivacy({ projectId }: { projectId: string }) {
+  const [retention, setRetention] = useState<RetentionForm | null>(null);
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+  const [retentionSaved, setRetentionSaved] = useState(false);
+  const [subject, setSubject] = useState({ distinctId: '', email: '' });
+  const [isErasing, setIsErasing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [report, setReport] = useState<ErasureReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRetention = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      const policy = resolveRetentionPolicy(data.project.retentionPolicy);
+      setRetention(
+        Object.fromEntries(RETENTION_DATA_TYPES.map((type) => [type, policy[type]?.toString() ?? ''])) as RetentionForm
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load retention policy');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadRetention();
+  }, [loadRetention]);
+
+  const handleSaveRetention = async () => {
+    if (!retention || isSavingRetention) return;
+    setIsSavingRetention(true);
+    setRetentionSaved(false);
+    setError(null);
+    try {
+      const retentionPolicy = Object.fromEntries(
+        RETENTION_DATA_TYPES.map((type) => [type, retention[type].trim() ? Number(retention[type]) : null])
+      );
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ retentionPolicy }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setRetentionSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save retention policy');
+    } finally {
+      setIsSavingRetention(false);
+    }
+  };
+
+  const subjectBody = () => {
+    const distinctId = subject.distinctId.trim();
+    const email = subject.email.trim();
+    return { ...(distinctId ? { distinctId } : {}), ...(email ? { email } : {}) };
+  };
+  const hasSubject = Boolean(subject.distinctId.trim() || subject.email.trim());
+
+  const handleExport = async () => {
+    if (isExporting || !hasSubject) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/data-subjects/export`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(subjectBody()),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `Server error ${res.status}`);
+      }
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'personal-data.zip';
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export personal data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleErase = async () => {
+    if (isErasing || !hasSubject) return;
+    const who = Object.values(subjectBody()).join(' / ');
+    if (!confirm(`Permanently delete all data about ${who} in this project? This cannot be undone.`)) return;
+
+    setIsErasing(true);
+    setError(null);
+    setReport(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/data-subjects/erase`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(subjectBody()),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setReport(data.report);
+      setSubject({ distinctId: '', email: '' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to erase personal data');
+    } finally {
+      setIsErasing(false);
+    }
+  };
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <ShieldCheck className="w-6 h-6 text-[var(--brand-primary)]" />
+        <h2 className="text-2xl font-bold text-[var(--foreground)]">Data & Privacy</h2>
+      </div>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+
+      <h3 className="text-lg font-bold text-[var(--foreground)] mb-2">Retention</h3>
+      <p className="text-sm text-[var(--foreground-subtle)] mb-4">
+        Days to keep each kind of data. Older data is removed nightly; leave a field empty to keep it forever.
+      </p>
+      {!retention ? (
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--foreground-muted)]" />
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            {RETENTION_DATA_TYPES.map((type) => (
+              <div key={type}>
+                <label className="block text-sm font-semibold text-[var(--foreground-muted)] mb-2">
+                  {RETENTION_LABELS[type].label}
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={3650}
+                  placeholder="Forever"
+                  value={retention[type]}
+                  onChange={(e) => {
+                    setRetention((prev) => (prev ? { ...prev, [type]: e.target.value } : prev));
+                    setRetentionSaved(false);
+                  }}
+                  className={`${inputClass} font-mono`}
+                />
+                <p className="text-xs text-[var(--foreground-subtle)] mt-2">{RETENTION_LABELS[type].hint}</p>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 mt-4">
+            <button
+              onClick={handleSaveRetention}
+              disabled={isSavingRetention}
+              className="btn-primary flex items-center gap-2 px-4 py-2 text-sm disabled:opacity-50"
+            >
+              {isSavingRetention ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save Retention
+            </button>
+            {retentionSaved && <span className="text-sm text-[var(--foreground-subtle)]">Saved</span>}
+          </div>
+        </>
+      )}
+
+      <h3 className="text-lg font-bold text-[var(--foreground)] mt-8 mb-2">Access & deletion requests</h3>
+      <p className="text-sm text-[var(--foreground-subtle)] mb-4">
+        Find a person by distinct ID or email. Records under IDs or emails linked to the ones you enter are included.
+        Export downloads a zip of everything this project holds about them; Erase permanently deletes it.
+      </p>
+      <div className="flex items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-sm font-semibold text-[var(--foreground-muted)] mb-2">Distinct ID</label>
+          <input
+            type="text"
+            value={subject.distinctId}
+            onChange={(e) => setSubject((prev) => ({ ...prev, distinctId: e.target.value }))}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-semibold text-[var(--foreground-muted)] mb-2">Email</label>
+          <input
+            type="email"
+            value={subject.email}
+            onChange={(e) => setSubject((prev) => ({ ...prev, email: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={isExporting || !hasSubject}
+          className="flex items-center gap-2 px-4 py-3 bg-[var(--background-subtle)] hover:bg-[var(--muted)] border border-[var(--border)] rounded-xl text-[var(--foreground-muted)] font-medium text-sm transition-colors disabled:opacity-50"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export
+        </button>
+        <button
+          onClick={handleErase}
+          disabled={isErasing || !hasSubject}
+          className="flex items-center gap-2 px-4 py-3 bg-red-600 hover:bg-red-700 text-white rounded-xl font-medium text-sm transition-colors disabled:opacity-50"
+        >
+          {isErasing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+          Erase
+        </button>
+      </div>
+
+      {report && (
+        <div className="mt-4 p-4 rounded-xl border border-[var(--border)] bg-[var(--background-subtle)] text-sm">
+          <p className="font-semibold text-[var(--foreground)] mb-2">
+            Erased {new Date(report.erasedAt).toLocaleString()} — reference{' '}
+            <code className="font-mono text-xs select-all">{report.reference}</code>
+          </p>
+          <p className="text-[var(--foreground-muted)] mb-2">
+            Matched {report.subject.distinctIds.length} distinct IDs and {report.subject.emails.length} emails.
+          </p>
+          <div className="grid grid-cols-3 gap-x-6 gap-y-1">
+            {ERASURE_TARGETS.map((target) => (
+              <div key={target} className="flex justify-between text-[var(--foreground-muted)]">
+                <span>{ERASURE_LABELS[target]}</span>
+                <span className="font-mono text-[var(--foreground)]">{report.deleted[target]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Newspaper, Pencil, Send, Trash2 } from 'lucide-react';
+
+type Channel = 'slack' | 'teams';
+type Frequency = 'daily' | 'weekdays' | 'weekly';
+
+interface Subscription {
+  id: string;
+  name: string;
+  channel: Channel;
+  webhookUrlHint: string;
+  enabled: boolean;
+  frequency: Frequency;
+  hourUtc: number;
+  dayOfWeek: number;
+  topTickets: number;
+  includeTrending: boolean;
+  includeChurn: boolean;
+  lastSentAt: string | null;
+  lastStatus: string | null;
+  lastError: string | null;
+}
+
+interface DigestForm {
+  name: string;
+  channel: Channel;
+  webhookUrl: string;
+  frequency: Frequency;
+  hourUtc: number;
+  dayOfWeek: number;
+  topTickets: number;
+  includeTrending: boolean;
+  includeChurn: boolean;
+}
+
+const EMPTY_FORM: DigestForm = {
+  name: '',
+  channel: 'slack',
+  webhookUrl: '',
+  frequency: 'daily',
+  hourUtc: 9,
+  dayOfWeek: 1,
+  topTickets: 5,
+  includeTrending: true,
+  includeChurn: true,
+};
+
+const CHANNEL_LABELS: Record<Channel, string> = { slack: 'Slack', teams: 'Microsoft Teams' };
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function describeSchedule(s: Pick<Subscription, 'frequency' | 'hourUtc' | 'dayOfWeek'>): string {
+  const time = `${String(s.hourUtc).padStart(2, '0')}:00 UTC`;
+  if (s.frequency === 'weekly') return `${WEEKDAYS[s.dayOfWeek]}s at ${time}`;
+  if (s.frequency === 'weekdays') return `Weekdays at ${time}`;
+  return `Daily at ${time}`;
+}
+
+export function DigestSubscriptions({ projectId }: { projectId: string }) {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [form, setForm] = useState<DigestForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/digests?projectId=${projectId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setSubscriptions(data.subscriptions || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load digests');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadSubscriptions().finally(() => setIsLoading(false));
+  }, [loadSubscriptions]);
+
+  const updateField = <K extends keyof DigestForm>(key: K, value: DigestForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const startEdit = (subscription: Subscription) => {
+    setEditingId(subscription.id);
+    setForm({
+      name: subscription.name,
+      channel: subscription.channel,
+      webhookUrl: '',
+      frequency: subscription.frequency,
+      hourUtc: subscription.hourUtc,
+      dayOfWeek: subscription.dayOfWeek,
+      topTickets: subscription.topTickets,
+      includeTrending: subscription.includeTrending,
+      includeChurn: subscription.includeChurn,
+    });
+    setNotice(null);
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(editingId ? `/api/digests/${editingId}` : '/api/digests', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, webhookUrl: form.webhookUrl || undefined, ...(editingId ? {} : { projectId }) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      resetForm();
+      await loadSubscriptions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save digest');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (subscription: Subscription) => {
+    const res = await fetch(`/api/digests/${subscription.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !subscription.enabled }),
+    });
+    if (res.ok) await loadSubscriptions();
+  };
+
+  const handleSendTest = async (subscription: Subscription) => {
+    setSendingId(subscription.id);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/digests/${subscription.id}/send`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setNotice(`Test digest sent to ${subscription.name}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send digest');
+    } finally {
+      setSendingId(null);
+      await loadSubscriptions();
+    }
+  };
+
+  const handleDelete = async (subscription: Subscription) => {
+    if (!confirm(`Delete the "${subscription.name}" digest?`)) return;
+    const res = await fetch(`/api/digests/${subscription.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      if (editingId === subscription.id) resetForm();
+      await loadSubscriptions();
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] text-sm';
+  const labelClass = 'block text-sm font-semibold text-[var(--foreground-muted)] mb-2';
+  const editing = subscriptions.find((s) => s.id === editingId);
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <Newspaper className="w-6 h-6 text-[var(--brand-primary)]" />
+        <h2 className="text-2xl font-bold text-[var(--foreground)]">Digests</h2>
+        <span className="ml-auto text-xs bg-[var(--background-subtle)] px-3 py-1 rounded-full font-semibold text-[var(--foreground-subtle)] border border-[var(--border)]">
+          Optional
+        </span>
+      </div>
+      <p className="text-sm text-[var(--foreground-subtle)] mb-5">
+        Post the top tickets, newly trending tickets and newly critical churn users to Slack or Teams on a schedule, with links back to the dashboard.
+      </p>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+      {notice && <p className="text-sm text-emerald-500 mb-4">{notice}</p>}
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--foreground-muted)]" />
+      ) : (
+        <>
+          {subscriptions.length > 0 && (
+            <div className="space-y-2 mb-6">
+              {subscriptions.map((subscription) => (
+                <div key={subscription.id} className="flex items-center gap-3 border border-[var(--border)] rounded-xl px-4 py-3">
+                  <input
+                    type="checkbox"
+                    checked={subscription.enabled}
+                    onChange={() => handleToggle(subscription)}
+                    aria-label={`Enable ${subscription.name}`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm font-semibold text-[var(--foreground)]">
+                      {subscription.name}
+                      <span className="ml-2 text-xs font-normal text-[var(--foreground-subtle)]">
+                        {CHANNEL_LABELS[subscription.channel]} · {describeSchedule(subscription)} · top {subscription.topTickets}
+                      </span>
+                    </div>
+                    <div className="text-xs text-[var(--foreground-subtle)] truncate">
+                      {subscription.lastStatus === 'failed' ? (
+                        <span className="text-red-500">Last send failed: {subscription.lastError}</span>
+                      ) : subscription.lastSentAt ? (
+                        `Last sent ${new Date(subscription.lastSentAt).toLocaleString()}`
+                      ) : (
+                        'Not sent yet'
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleSendTest(subscription)}
+                    disabled={sendingId !== null}
+                    aria-label={`Send ${subscription.name} now`}
+                    className="p-1 text-[var(--foreground-muted)] hover:text-[var(--foreground)] disabled:opacity-50"
+                  >
+                    {sendingId === subscription.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => startEdit(subscription)}
+                    aria-label={`Edit ${subscription.name}`}
+                    className="p-1 text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(subscription)}
+                    aria-label={`Delete ${subscription.name}`}
+                    className="p-1 text-[var(--foreground-muted)] hover:text-red-500"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border border-[var(--border)] rounded-xl p-4">
+            <h3 className="text-lg font-bold text-[var(--foreground)] mb-4">{editing ? `Edit ${editing.name}` : 'New Digest'}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input value={form.name} onChange={(e) => updateField('name', e.target.value)} placeholder="#product daily" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Channel</label>
+                <select value={form.channel} onChange={(e) => updateField('channel', e.target.value as Channel)} className={inputClass}>
+                  <option value="slack">Slack incoming webhook</option>
+                  <option value="teams">Teams connector / workflow</option>
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className={labelClass}>Webhook URL</label>
+                <input
+                  type="password"
+                  value={form.webhookUrl}
+                  onChange={(e) => updateField('webhookUrl', e.target.value)}
+                  placeholder={editing ? `Saved (${editing.webhookUrlHint})` : form.channel === 'slack' ? 'https://hooks.slack.com/services/…' : 'https://…webhook.office.com/…'}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Frequency</label>
+                <select value={form.frequency} onChange={(e) => updateField('frequency', e.target.value as Frequency)} className={inputClass}>
+                  <option value="daily">Daily</option>
+                  <option value="weekdays">Weekdays</option>
+                  <option value="weekly">Weekly</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {form.frequency === 'weekly' && (
+                  <div>
+                    <label className={labelClass}>Day</label>
+                    <select value={form.dayOfWeek} onChange={(e) => updateField('dayOfWeek', Number(e.target.value))} className={inputClass}>
+                      {WEEKDAYS.map((day, i) => (
+                        <option key={day} value={i}>{day}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className={form.frequency === 'weekly' ? '' : 'col-span-2'}>
+                  <label className={labelClass}>Hour (UTC)</label>
+                  <select value={form.hourUtc} onChange={(e) => updateField('hourUtc', Number(e.target.value))} className={inputClass}>
+                    {Array.from({ length: 24 }, (_, h) => (
+                      <option key={h} value={h}>{String(h).padStart(2, '0')}:00</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Top Tickets</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={form.topTickets}
+                  onChange={(e) => updateField('topTickets', Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex flex-col justify-end gap-2 pb-1">
+                <label className="flex items-center gap-2 text-sm text-[var(--foreground-muted)]">
+                  <input type="checkbox" checked={form.includeTrending} onChange={(e) => updateField('includeTrending', e.target.checked)} />
+                  Newly trending tickets
+                </label>
+                <label className="flex items-center gap-2 text-sm text-[var(--foreground-muted)]">
+                  <input type="checkbox" checked={form.includeChurn} onChange={(e) => updateField('includeChurn', e.target.checked)} />
+                  Newly critical churn users
+                </label>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+              {editing && (
+                <button onClick={resetForm} className="px-4 py-2 text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)]">
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !form.name.trim() || (!editing && !form.webhookUrl.trim())}
+                className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+              >
+                {isSaving ? 'Saving…' : editing ? 'Save Digest' : 'Add Digest'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
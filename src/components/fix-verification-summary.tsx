@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { FlaskConical, Loader2, RefreshCw } from 'lucide-react';
+import type { FixVerification, FixVerificationOutcome, VerificationPeriod } from '@/lib/fix-verification';
+
+export const FIX_OUTCOME_LABELS: Record<FixVerificationOutcome, string> = {
+  measuring: 'Measuring',
+  verified_fixed: 'Verified Fixed',
+  regressed: 'Regressed',
+  inconclusive: 'Inconclusive',
+};
+
+export const FIX_OUTCOME_COLORS: Record<FixVerificationOutcome, string> = {
+  measuring: 'bg-blue-100 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400',
+  verified_fixed: 'bg-emerald-100 dark:bg-emerald-500/10 text-emerald-600 dark:text-emerald-400',
+  regressed: 'bg-red-100 dark:bg-red-500/10 text-red-600 dark:text-red-400',
+  inconclusive: 'bg-amber-100 dark:bg-amber-500/10 text-amber-600 dark:text-amber-400',
+};
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${rate}%`;
+}
+
+function sampleLabel(period: VerificationPeriod): string {
+  const matched = period.sessions.matched + period.conversations.matched;
+  const total = period.sessions.total + period.conversations.total;
+  return `${matched} of ${total} (${period.sessions.total} sessions, ${period.conversations.total} conversations)`;
+}
+
+export function FixVerificationSummary({
+  verification,
+  onRecheck,
+}: {
+  verification: FixVerification | null;
+  onRecheck: (() => Promise<void>) | null;
+}) {
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const recheck = async () => {
+    if (!onRecheck) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      await onRecheck();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify fix');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const windowEnd = verification
+    ? new Date(new Date(verification.resolvedAt).getTime() + verification.windowDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-[var(--border)]" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 mb-3">
+        <FlaskConical className="w-3.5 h-3.5 text-[var(--foreground-subtle)]" />
+        <span className="text-xs font-medium text-[var(--foreground-subtle)] uppercase">Fix Verification</span>
+        {verification && (
+          <span className={`text-xs px-2 py-0.5 rounded-full ${FIX_OUTCOME_COLORS[verification.outcome]}`}>
+            {FIX_OUTCOME_LABELS[verification.outcome]}
+          </span>
+        )}
+        {onRecheck && (
+          <button
+            onClick={recheck}
+            disabled={isChecking}
+            className="ml-auto flex items-center gap-1 text-xs text-[var(--foreground-muted)] hover:text-[var(--foreground)] disabled:opacity-50"
+          >
+            {isChecking ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+            Re-check now
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+      {!verification ? (
+        <p className="text-xs text-[var(--foreground-subtle)]">
+          Not measured yet. New sessions and conversations are compared against the pre-fix baseline daily.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3 text-xs">
+            <div />
+            <div className="font-medium text-[var(--foreground-subtle)]">{verification.windowDays}d before</div>
+            <div className="font-medium text-[var(--foreground-subtle)]">After fix</div>
+
+            <div className="text-[var(--foreground-muted)]">Frustration rate</div>
+            <div className="text-[var(--foreground)] tabular-nums">{formatRate(verification.beforeRate)}</div>
+            <div className="text-[var(--foreground)] tabular-nums">{formatRate(verification.afterRate)}</div>
+
+            <div className="text-[var(--foreground-muted)]">Matching evidence</div>
+            <div className="text-[var(--foreground-subtle)]">{sampleLabel(verification.before)}</div>
+            <div className="text-[var(--foreground-subtle)]">{sampleLabel(verification.after)}</div>
+
+            <div className="text-[var(--foreground-muted)]">Avg churn risk</div>
+            <div className="text-[var(--foreground)] tabular-nums">
+              {verification.before.churn.avgRiskScore ?? '—'}
+              {verification.before.churn.users > 0 && (
+                <span className="text-[var(--foreground-subtle)]"> · {verification.before.churn.users} users</span>
+              )}
+            </div>
+            <div className="text-[var(--foreground)] tabular-nums">
+              {verification.after.churn.avgRiskScore ?? '—'}
+              {verification.churnChange !== null && (
+                <span className={verification.churnChange > 0 ? 'text-red-500' : 'text-emerald-500'}>
+                  {' '}({verification.churnChange > 0 ? '+' : ''}{verification.churnChange})
+                </span>
+              )}
+            </div>
+          </div>
+
+          {verification.reasons.length > 0 && (
+            <p className="mt-3 text-xs text-[var(--foreground-subtle)]">{verification.reasons.join(' · ')}</p>
+          )}
+          <p className="mt-1 text-xs text-[var(--foreground-subtle)]">
+            Measured {new Date(verification.measuredAt).toLocaleDateString()}
+            {verification.outcome === 'measuring' && windowEnd && ` · verdict after ${windowEnd.toLocaleDateString()}`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Copy, Loader2, Ticket, Trash2 } from 'lucide-react';
+
+type Provider = 'jira' | 'linear';
+
+interface Connection {
+  id: string;
+  provider: Provider;
+  baseUrl: string;
+  email: string | null;
+  projectKey: string;
+  issueType: string | null;
+  webhookSecret: string;
+  apiTokenHint: string | null;
+}
+
+interface ConnectionForm {
+  baseUrl: string;
+  email: string;
+  apiToken: string;
+  projectKey: string;
+  issueType: string;
+}
+
+const EMPTY_FORM: ConnectionForm = { baseUrl: '', email: '', apiToken: '', projectKey: '', issueType: '' };
+
+const PROVIDERS: {
+  provider: Provider;
+  label: string;
+  fields: { key: keyof ConnectionForm; label: string; placeholder: string; secret?: boolean }[];
+  webhookHelp: string;
+}[] = [
+  {
+    provider: 'jira',
+    label: 'Jira Cloud',
+    fields: [
+      { key: 'baseUrl', label: 'Site URL', placeholder: 'https://acme.atlassian.net' },
+      { key: 'email', label: 'Account Email', placeholder: 'you@acme.com' },
+      { key: 'apiToken', label: 'API Token', placeholder: 'From id.atlassian.com → Security → API tokens', secret: true },
+      { key: 'projectKey', label: 'Project Key', placeholder: 'WEB' },
+      { key: 'issueType', label: 'Issue Type', placeholder: 'Task' },
+    ],
+    webhookHelp: 'Jira → Settings → System → WebHooks: add this URL with the secret below and the "Issue updated" event.',
+  },
+  {
+    provider: 'linear',
+    label: 'Linear',
+    fields: [
+      { key: 'apiToken', label: 'API Key', placeholder: 'lin_api_…', secret: true },
+      { key: 'projectKey', label: 'Team ID', placeholder: 'Team UUID from Linear → Settings → Teams' },
+      { key: 'baseUrl', label: 'API URL', placeholder: 'https://api.linear.app' },
+    ],
+    webhookHelp: 'Linear → Settings → API → Webhooks: add this URL with the secret below and the "Issues" resource.',
+  },
+];
+
+function toForm(connection: Connection | undefined): ConnectionForm {
+  if (!connection) return EMPTY_FORM;
+  return {
+    baseUrl: connection.baseUrl,
+    email: connection.email || '',
+    apiToken: '',
+    projectKey: connection.projectKey,
+    issueType: connection.issueType || '',
+  };
+}
+
+export function IssueTrackerConnections({ projectId }: { projectId: string }) {
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [forms, setForms] = useState<Record<Provider, ConnectionForm>>({ jira: EMPTY_FORM, linear: EMPTY_FORM });
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingProvider, setSavingProvider] = useState<Provider | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConnections = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/tickets/connections?projectId=${projectId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      const list: Connection[] = data.connections || [];
+      setConnections(list);
+      setForms({
+        jira: toForm(list.find((c) => c.provider === 'jira')),
+        linear: toForm(list.find((c) => c.provider === 'linear')),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load connections');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadConnections().finally(() => setIsLoading(false));
+  }, [loadConnections]);
+
+  const updateField = (provider: Provider, key: keyof ConnectionForm, value: string) => {
+    setForms((prev) => ({ ...prev, [provider]: { ...prev[provider], [key]: value } }));
+  };
+
+  const handleSave = async (provider: Provider) => {
+    if (savingProvider) return;
+    setSavingProvider(provider);
+    setError(null);
+    const form = forms[provider];
+    try {
+      const res = await fetch('/api/tickets/connections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId,
+          provider,
+          baseUrl: form.baseUrl || undefined,
+          email: form.email || null,
+          apiToken: form.apiToken || undefined,
+          projectKey: form.projectKey,
+          issueType: form.issueType || null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      await loadConnections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save connection');
+    } finally {
+      setSavingProvider(null);
+    }
+  };
+
+  const handleDisconnect = async (connection: Connection) => {
+    if (!confirm(`Disconnect ${connection.provider === 'jira' ? 'Jira' : 'Linear'}? Pushed tickets keep their links.`)) return;
+    const res = await fetch(`/api/tickets/connections/${connection.id}`, { method: 'DELETE' });
+    if (res.ok) await loadConnections();
+  };
+
+  const copy = (key: string, value: string) => {
+    navigator.clipboard.writeText(value);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const origin = typeof window === 'undefined' ? '' : window.location.origin;
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <Ticket className="w-6 h-6 text-[var(--brand-primary)]" />
+        <h2 className="text-2xl font-bold text-[var(--foreground)]">Issue Trackers</h2>
+        <span className="ml-auto text-xs bg-[var(--background-subtle)] px-3 py-1 rounded-full font-semibold text-[var(--foreground-subtle)] border border-[var(--border)]">
+          Optional
+        </span>
+      </div>
+      <p className="text-sm text-[var(--foreground-subtle)] mb-5">
+        Push dashboard tickets to Jira or Linear. Severity maps to priority, category to labels, and status changes sync back through the webhook.
+      </p>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--foreground-muted)]" />
+      ) : (
+        <div className="space-y-6">
+          {PROVIDERS.map(({ provider, label, fields, webhookHelp }) => {
+            const connection = connections.find((c) => c.provider === provider);
+            const webhookUrl = connection ? `${origin}/api/webhooks/${provider}?connectionId=${connection.id}` : '';
+
+            return (
+              <div key={provider} className="border border-[var(--border)] rounded-xl p-4">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-bold text-[var(--foreground)]">{label}</h3>
+                  {connection && (
+                    <div className="flex items-center gap-3">
+                      <span className="text-xs text-emerald-500 font-semibold">Connected</span>
+                      <button
+                        onClick={() => handleDisconnect(connection)}
+                        aria-label={`Disconnect ${label}`}
+                        className="p-1 text-[var(--foreground-muted)] hover:text-red-500"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  {fields.map((field) => (
+                    <div key={field.key}>
+                      <label className="block text-sm font-semibold text-[var(--foreground-muted)] mb-2">{field.label}</label>
+                      <input
+                        type={field.secret ? 'password' : 'text'}
+                        value={forms[provider][field.key]}
+                        onChange={(e) => updateField(provider, field.key, e.target.value)}
+                        placeholder={field.secret && connection?.apiTokenHint ? `Saved (${connection.apiTokenHint})` : field.placeholder}
+                        className="w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] font-mono text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {connection && (
+                  <div className="mt-4 space-y-2 text-xs">
+                    <p className="text-[var(--foreground-subtle)]">{webhookHelp}</p>
+                    {[
+                      { key: `${provider}-url`, label: 'Webhook URL', value: webhookUrl },
+                      { key: `${provider}-secret`, label: 'Secret', value: connection.webhookSecret },
+                    ].map((row) => (
+                      <div key={row.key} className="flex items-center gap-2">
+                        <span className="w-24 shrink-0 text-[var(--foreground-muted)]">{row.label}</span>
+                        <code className="flex-1 truncate px-2 py-1 rounded bg-[var(--background-subtle)] border border-[var(--border)] text-[var(--foreground)]">
+                          {row.value}
+                        </code>
+                        <button
+                          onClick={() => copy(row.key, row.value)}
+                          aria-label={`Copy ${row.label}`}
+                          className="p-1 text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+                        >
+                          {copied === row.key ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex justify-end mt-4">
+                  <button
+                    onClick={() => handleSave(provider)}
+                    disabled={savingProvider !== null}
+                    className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+                  >
+                    {savingProvider === provider ? 'Saving…' : connection ? `Update ${label}` : `Connect ${label}`}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
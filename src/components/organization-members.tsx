@@ -0,0 +1,360 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Ban, Crown, Loader2, LogOut, Mail, RefreshCw, Trash2, Users } from 'lucide-react';
+import type { AssignableRole, InvitationStatus } from '@/lib/organization-invitations';
+
+interface Member {
+  id: string;
+  userId: string;
+  role: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  imageUrl: string | null;
+  joinedAt: string;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: string;
+  status: InvitationStatus;
+  invitedBy: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface Viewer {
+  userId: string;
+  role: string;
+}
+
+interface IssueResult {
+  email: string;
+  emailSent: boolean;
+  emailError: string | null;
+  inviteUrl: string | null;
+}
+
+const ROLE_LABELS: Record<string, string> = { owner: 'Owner', admin: 'Admin', member: 'Member' };
+
+function memberName(member: Member): string {
+  return [member.firstName, member.lastName].filter(Boolean).join(' ') || member.email;
+}
+
+export function OrganizationMembers({ organizationId }: { organizationId: string }) {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [viewer, setViewer] = useState<Viewer | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AssignableRole>('member');
+  const [issued, setIssued] = useState<IssueResult | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManage = viewer?.role === 'owner' || viewer?.role === 'admin';
+  const isOwner = viewer?.role === 'owner';
+  const base = `/api/organizations/${organizationId}`;
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const res = await fetch(`${base}/members`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setMembers(data.members || []);
+      setViewer(data.viewer);
+
+      if (data.viewer?.role === 'owner' || data.viewer?.role === 'admin') {
+        const invRes = await fetch(`${base}/invitations`);
+        const invData = await invRes.json();
+        if (invRes.ok) setInvitations(invData.invitations || []);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load members');
+    }
+  }, [base]);
+
+  useEffect(() => {
+    loadMembers().finally(() => setIsLoading(false));
+  }, [loadMembers]);
+
+  // Runs a mutation, surfaces its error, and reloads the lists
+  const mutate = async (id: string, url: string, init: RequestInit): Promise<Record<string, unknown> | null> => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      await loadMembers();
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const showIssued = (data: Record<string, unknown>, to: string) => {
+    setIssued({
+      email: to,
+      emailSent: Boolean(data.emailSent),
+      emailError: (data.emailError as string | null) ?? null,
+      inviteUrl: (data.inviteUrl as string | null) ?? null,
+    });
+  };
+
+  const handleInvite = async () => {
+    if (isInviting || !email.trim()) return;
+    setIsInviting(true);
+    setIssued(null);
+    const to = email.trim();
+    const data = await mutate('invite', `${base}/invitations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: to, role }),
+    });
+    if (data) {
+      showIssued(data, to);
+      setEmail('');
+      setRole('member');
+    }
+    setIsInviting(false);
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    setIssued(null);
+    const data = await mutate(invitation.id, `${base}/invitations/${invitation.id}`, { method: 'POST' });
+    if (data) showIssued(data, invitation.email);
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}? The link will stop working.`)) return;
+    await mutate(invitation.id, `${base}/invitations/${invitation.id}`, { method: 'DELETE' });
+  };
+
+  const handleRoleChange = async (member: Member, newRole: AssignableRole) => {
+    await mutate(member.id, `${base}/members/${member.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role: newRole }),
+    });
+  };
+
+  const handleRemove = async (member: Member) => {
+    const leaving = member.userId === viewer?.userId;
+    const prompt = leaving
+      ? 'Leave this organization? You will lose access to its projects until you are invited again.'
+      : `Remove ${memberName(member)} from the organization?`;
+    if (!confirm(prompt)) return;
+
+    const data = await mutate(member.id, `${base}/members/${member.id}`, { method: 'DELETE' });
+    if (data && leaving) {
+      localStorage.removeItem('currentProjectId');
+      window.location.href = '/dashboard';
+    }
+  };
+
+  const handleTransfer = async (member: Member) => {
+    if (!confirm(`Make ${memberName(member)} the owner? You will become an admin.`)) return;
+    await mutate(member.id, `${base}/transfer-ownership`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ memberId: member.id }),
+    });
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] text-sm';
+  const labelClass = 'block text-sm font-semibold text-[var(--foreground-muted)] mb-2';
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <Users className="w-6 h-6 text-[var(--brand-primary)]" />
+        <h2 className="text-2xl font-bold text-[var(--foreground)]">Members</h2>
+        {viewer && (
+          <span className="ml-auto text-xs bg-[var(--background-subtle)] px-3 py-1 rounded-full font-semibold text-[var(--foreground-subtle)] border border-[var(--border)]">
+            You are {ROLE_LABELS[viewer.role] ?? viewer.role}
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-[var(--foreground-subtle)] mb-5">
+        Invite teammates by email. Invitation links expire after 7 days and only work for the address they were sent to.
+        Admins can invite and remove members; only the owner can change roles, remove admins or hand over ownership.
+      </p>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+      {issued && (
+        issued.emailSent ? (
+          <p className="text-sm text-green-600 mb-4">Invitation sent to {issued.email}.</p>
+        ) : (
+          <div className="mb-4 p-4 rounded-xl border border-amber-300 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10">
+            <p className="text-sm font-semibold text-[var(--foreground)] mb-1">
+              The invitation email to {issued.email} could not be sent{issued.emailError ? ` (${issued.emailError})` : ''}.
+              Share this link with them directly:
+            </p>
+            <code className="block text-xs font-mono break-all text-[var(--foreground)] select-all">{issued.inviteUrl}</code>
+          </div>
+        )
+      )}
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--foreground-muted)]" />
+      ) : (
+        <>
+          <div className="space-y-2 mb-6">
+            {members.map((member) => {
+              const isSelf = member.userId === viewer?.userId;
+              // Mirrors memberChangeError: the owner is fixed, only the owner changes roles or removes admins
+              const editable = !isSelf && member.role !== 'owner' && (isOwner || (canManage && member.role !== 'admin'));
+              return (
+                <div key={member.id} className="flex items-center gap-3 border border-[var(--border)] rounded-xl px-4 py-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm font-semibold text-[var(--foreground)] truncate">
+                      {memberName(member)}
+                      {isSelf && <span className="ml-2 text-xs font-normal text-[var(--foreground-subtle)]">(you)</span>}
+                    </div>
+                    <div className="text-xs text-[var(--foreground-subtle)] truncate">
+                      {member.email} · joined {new Date(member.joinedAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  {busyId === member.id && <Loader2 className="w-4 h-4 animate-spin text-[var(--foreground-muted)]" />}
+                  {editable && isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value as AssignableRole)}
+                      aria-label={`Role for ${memberName(member)}`}
+                      className="px-3 py-1.5 bg-[var(--background-subtle)] border border-[var(--border)] rounded-lg text-sm text-[var(--foreground)]"
+                    >
+                      <option value="admin">Admin</option>
+                      <option value="member">Member</option>
+                    </select>
+                  ) : (
+                    <span className="text-xs font-semibold text-[var(--foreground-muted)]">
+                      {member.role === 'owner' && <Crown className="inline w-3.5 h-3.5 mr-1 text-amber-500" />}
+                      {ROLE_LABELS[member.role] ?? member.role}
+                    </span>
+                  )}
+                  {isOwner && !isSelf && (
+                    <button
+                      onClick={() => handleTransfer(member)}
+                      aria-label={`Transfer ownership to ${memberName(member)}`}
+                      title="Transfer ownership"
+                      className="p-1 text-[var(--foreground-muted)] hover:text-amber-500"
+                    >
+                      <Crown className="w-4 h-4" />
+                    </button>
+                  )}
+                  {isSelf && member.role !== 'owner' && (
+                    <button
+                      onClick={() => handleRemove(member)}
+                      aria-label="Leave organization"
+                      title="Leave organization"
+                      className="p-1 text-[var(--foreground-muted)] hover:text-red-500"
+                    >
+                      <LogOut className="w-4 h-4" />
+                    </button>
+                  )}
+                  {editable && (
+                    <button
+                      onClick={() => handleRemove(member)}
+                      aria-label={`Remove ${memberName(member)}`}
+                      className="p-1 text-[var(--foreground-muted)] hover:text-red-500"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {canManage && (
+            <>
+              {invitations.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-lg font-bold text-[var(--foreground)] mb-3">Pending Invitations</h3>
+                  <div className="space-y-2">
+                    {invitations.map((invitation) => (
+                      <div
+                        key={invitation.id}
+                        className={`flex items-center gap-3 border border-[var(--border)] rounded-xl px-4 py-3 ${invitation.status === 'expired' ? 'opacity-60' : ''}`}
+                      >
+                        <Mail className="w-4 h-4 text-[var(--foreground-muted)] flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <div className="text-sm font-semibold text-[var(--foreground)] truncate">{invitation.email}</div>
+                          <div className="text-xs text-[var(--foreground-subtle)] truncate">
+                            {ROLE_LABELS[invitation.role] ?? invitation.role}
+                            {invitation.invitedBy ? ` · invited by ${invitation.invitedBy}` : ''} ·{' '}
+                            {invitation.status === 'expired'
+                              ? `Expired ${new Date(invitation.expiresAt).toLocaleDateString()}`
+                              : `Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                          </div>
+                        </div>
+                        {busyId === invitation.id && <Loader2 className="w-4 h-4 animate-spin text-[var(--foreground-muted)]" />}
+                        <button
+                          onClick={() => handleResend(invitation)}
+                          aria-label={`Resend invitation to ${invitation.email}`}
+                          title="Resend"
+                          className="p-1 text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(invitation)}
+                          aria-label={`Revoke invitation to ${invitation.email}`}
+                          title="Revoke"
+                          className="p-1 text-[var(--foreground-muted)] hover:text-red-500"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="border border-[var(--border)] rounded-xl p-4">
+                <h3 className="text-lg font-bold text-[var(--foreground)] mb-4">Invite a Teammate</h3>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2">
+                    <label className={labelClass}>Email</label>
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+                      placeholder="teammate@company.com"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Role</label>
+                    <select value={role} onChange={(e) => setRole(e.target.value as AssignableRole)} className={inputClass}>
+                      <option value="member">Member</option>
+                      {isOwner && <option value="admin">Admin</option>}
+                    </select>
+                  </div>
+                </div>
+                <div className="flex justify-end mt-4">
+                  <button
+                    onClick={handleInvite}
+                    disabled={isInviting || !email.trim()}
+                    className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+                  >
+                    {isInviting ? 'Sending…' : 'Send Invitation'}
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Key, Loader2, RefreshCw } from 'lucide-react';
+
+interface ProjectApiKeyStatus {
+  prefix: string | null;
+  rotatedAt: string | null;
+  previousKeyExpiresAt: string | null;
+}
+
+const GRACE_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0, label: 'Immediately (key leaked)' },
+  { hours: 1, label: 'After 1 hour' },
+  { hours: 24, label: 'After 24 hours' },
+  { hours: 72, label: 'After 3 days' },
+  { hours: 168, label: 'After 7 days' },
+  { hours: 720, label: 'After 30 days' },
+];
+
+export function ProjectApiKey({ projectId }: { projectId: string }) {
+  const [status, setStatus] = useState<ProjectApiKeyStatus | null>(null);
+  const [graceHours, setGraceHours] = useState(24);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/api-key`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setStatus(data.apiKey);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API key');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadStatus().finally(() => setIsLoading(false));
+  }, [loadStatus]);
+
+  const handleRotate = async () => {
+    const warning =
+      graceHours === 0
+        ? 'The current key stops working immediately. Every embedded snippet must be updated. Continue?'
+        : 'Rotate the SDK key? The current key keeps working until the grace period ends.';
+    if (isSaving || !confirm(warning)) return;
+    setIsSaving(true);
+    setError(null);
+    setNewKey(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/api-key`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ graceHours }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setStatus(data.apiKey);
+      setNewKey(data.key);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate API key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExpirePrevious = async () => {
+    if (!confirm('Stop accepting the previous key now?')) return;
+    const res = await fetch(`/api/projects/${projectId}/api-key`, { method: 'DELETE' });
+    const data = await res.json();
+    if (res.ok) setStatus(data.apiKey);
+    else setError(data.error || 'Failed to expire previous key');
+  };
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <Key className="w-6 h-6 text-[var(--brand-primary)]" />
+        <h2 className="text-2xl font-bold text-[var(--foreground)]">SDK Key</h2>
+      </div>
+      <p className="text-sm text-[var(--foreground-subtle)] mb-5">
+        Used by <code className="font-mono text-xs">tranzmit-widget.js</code> and the replay snippet. Only a hash is stored,
+        so the full key is shown once when it&apos;s generated. Rotating keeps the current key working for a grace period
+        while you redeploy.
+      </p>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+      {newKey && (
+        <div className="mb-4 p-4 rounded-xl border border-amber-300 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10">
+          <p className="text-sm font-semibold text-[var(--foreground)] mb-1">New SDK key — copy it now, it won&apos;t be shown again</p>
+          <code className="block text-xs font-mono break-all text-[var(--foreground)] select-all">{newKey}</code>
+        </div>
+      )}
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--foreground-muted)]" />
+      ) : (
+        status && (
+          <>
+            <div className="flex items-center gap-3 border border-[var(--border)] rounded-xl px-4 py-3 mb-4">
+              <code className="text-sm font-mono text-[var(--foreground)]">{status.prefix ? `${status.prefix}…` : '—'}</code>
+              <span className="ml-auto text-xs text-[var(--foreground-subtle)]">
+                {status.rotatedAt ? `Rotated ${new Date(status.rotatedAt).toLocaleString()}` : 'Never rotated'}
+              </span>
+            </div>
+
+            {status.previousKeyExpiresAt && (
+              <div className="flex items-center gap-3 text-sm text-[var(--foreground-muted)] mb-4">
+                <span>Previous key accepted until {new Date(status.previousKeyExpiresAt).toLocaleString()}</span>
+                <button onClick={handleExpirePrevious} className="ml-auto text-xs text-red-500 hover:underline">
+                  Expire now
+                </button>
+              </div>
+            )}
+
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-sm font-semibold text-[var(--foreground-muted)] mb-2">Old key stops working</label>
+                <select
+                  value={graceHours}
+                  onChange={(e) => setGraceHours(Number(e.target.value))}
+                  className="w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] text-sm"
+                >
+                  {GRACE_OPTIONS.map(({ hours, label }) => (
+                    <option key={hours} value={hours}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleRotate}
+                disabled={isSaving}
+                className="btn-primary flex items-center gap-2 px-4 py-3 text-sm disabled:opacity-50"
+              >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                Rotate Key
+              </button>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Radio, RefreshCw, Save } from 'lucide-react';
+import type { ReplayPromotionSettings, ReplayPromotionStatus } from '@/lib/replay-promotion/types';
+
+function relativeTime(iso: string, now: number): string {
+  const minutes = Math.round((new Date(iso).getTime() - now) / 60000);
+  if (minutes === 0) return 'now';
+  const abs = Math.abs(minutes);
+  const label = abs < 60 ? `${abs} min` : `${Math.round(abs / 60)} h`;
+  return minutes > 0 ? `in ${label}` : `${label} ago`;
+}
+
+/**
+ * Recorder (tranzmit-recorder.js) sessions waiting to become Sessions,
+ * promoted sessions by analysis status, and the project's promotion
+ * settings. Renders nothing for projects that have never used the recorder.
+ */
+export function RecorderBacklog({ projectId, onPromoted }: { projectId: string; onPromoted?: () => void }) {
+  const [status, setStatus] = useState<ReplayPromotionStatus | null>(null);
+  const [settings, setSettings] = useState<ReplayPromotionSettings | null>(null);
+  const [isPromoting, setIsPromoting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/replay-promotion`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setStatus(data);
+      setSettings(data.settings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recorder sessions');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePromote = async () => {
+    if (isPromoting) return;
+    setIsPromoting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/replay-promotion`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setStatus(data.status);
+      const { promoted, merged, analyzed } = data.result;
+      setMessage(
+        promoted + merged === 0
+          ? 'No idle sessions to promote yet'
+          : `Promoted ${promoted + merged} session${promoted + merged === 1 ? '' : 's'}${analyzed ? `, analyzed ${analyzed}` : ''}`
+      );
+      if (promoted + merged > 0) onPromoted?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to promote sessions');
+    } finally {
+      setIsPromoting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ replayPromotion: settings }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setMessage('Settings saved');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!status || !settings) return null;
+  const promotedCount = Object.values(status.analysis).reduce((sum, n) => sum + n, 0);
+  if (status.backlogTotal === 0 && promotedCount === 0) return null;
+
+  const now = Date.now();
+
+  return (
+    <div className="rounded-xl border border-[var(--border)] backdrop-blur-sm bg-[var(--card)]/80 dark:bg-[var(--card)]/60 shadow-sm p-5">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2.5">
+          <Radio className="w-4 h-4 text-sky-500" />
+          <h3 className="text-sm font-semibold text-[var(--foreground)]">Recorder Sessions</h3>
+          <span className="text-[11px] font-semibold px-2 py-0.5 rounded-full bg-sky-500/15 text-sky-600 dark:text-sky-400 tabular-nums">
+            {status.backlogTotal} waiting
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={load}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors"
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+            Refresh
+          </button>
+          <button
+            onClick={handlePromote}
+            disabled={isPromoting || status.backlogTotal === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--card)] border border-[var(--border)] text-[var(--foreground)] hover:bg-[var(--muted)]/40 transition-colors disabled:opacity-50"
+          >
+            {isPromoting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            Promote idle sessions
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+      {message && <p className="text-sm text-[var(--muted-foreground)] mb-3">{message}</p>}
+
+      <div className="grid grid-cols-4 gap-3 mb-4">
+        {(['pending', 'analyzing', 'completed', 'failed'] as const).map((state) => (
+          <div key={state} className="rounded-lg bg-[var(--muted)]/40 dark:bg-[var(--muted)]/20 p-3">
+            <p className="text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">
+              {state === 'pending' ? 'Awaiting analysis' : state}
+            </p>
+            <p className="text-xl font-bold text-[var(--foreground)] mt-1 tabular-nums">{status.analysis[state]}</p>
+          </div>
+        ))}
+      </div>
+
+      {status.backlog.length > 0 && (
+        <table className="w-full mb-4">
+          <thead className="border-b border-[var(--border)]">
+            <tr>
+              {['Recorder session', 'User', 'Chunks', 'Last chunk', 'Becomes a session'].map((heading) => (
+                <th key={heading} className="text-left text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wide py-2 pr-4">
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[var(--border)]">
+            {status.backlog.map((item) => (
+              <tr key={item.sessionId} className="text-sm">
+                <td className="py-2 pr-4 font-mono text-xs text-[var(--foreground)]">{item.sessionId}</td>
+                <td className="py-2 pr-4 font-mono text-xs text-[var(--muted-foreground)]">{item.distinctId ?? 'anonymous'}</td>
+                <td className="py-2 pr-4 tabular-nums text-[var(--muted-foreground)]">{item.chunkCount}</td>
+                <td className="py-2 pr-4 text-[var(--muted-foreground)]">{relativeTime(item.lastChunkAt, now)}</td>
+                <td className="py-2 pr-4 text-[var(--muted-foreground)]">
+                  {new Date(item.promotesAt).getTime() <= now ? 'next run' : relativeTime(item.promotesAt, now)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {status.backlogTotal > status.backlog.length && (
+        <p className="text-xs text-[var(--muted-foreground)] mb-4">
+          Showing the {status.backlog.length} most recent of {status.backlogTotal} waiting sessions.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 pt-4 border-t border-[var(--border)]/60 text-sm text-[var(--muted-foreground)]">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+          />
+          Promote automatically
+        </label>
+        <label className="flex items-center gap-2">
+          after
+          <input
+            type="number"
+            min={5}
+            max={1440}
+            value={settings.idleMinutes}
+            onChange={(e) => setSettings({ ...settings, idleMinutes: Number(e.target.value) })}
+            className="w-20 px-2 py-1 bg-[var(--background-subtle)] border border-[var(--border)] rounded-lg font-mono text-[var(--foreground)]"
+          />
+          idle minutes
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.autoAnalyze}
+            onChange={(e) => setSettings({ ...settings, autoAnalyze: e.target.checked })}
+          />
+          Analyze promoted sessions
+        </label>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--card)] border border-[var(--border)] text-[var(--foreground)] hover:bg-[var(--muted)]/40 transition-colors disabled:opacity-50 ml-auto"
+        >
+          {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Loader2, PlayCircle, Trash2, RefreshCw, Cloud, Upload, ChevronLeft, ChevronRight, BarChart3, Eye } from 'lucide-react';
+import { Loader2, PlayCircle, Trash2, RefreshCw, Cloud, Upload, ChevronLeft, ChevronRight, BarChart3, Eye, Radio } from 'lucide-react';
 import type { SessionListItem, SessionsListResponse, RRWebEvent } from '@/types/session';
 
 interface SessionListProps {
@@ -22,7 +22,7 @@ export function SessionList({ projectId, onSelectSession, selectedSessionId, onS
   const [loading, setLoading] = useState(true);
   const [loadingEvents, setLoadingEvents] = useState<string | null>(null);
   const [eventsCache, setEventsCache] = useState<Map<string, RRWebEvent[]>>(new Map());
-  const [filter, setFilter] = useState<'all' | 'upload' | 'posthog' | 'mixpanel'>('all');
+  const [filter, setFilter] = useState<'all' | 'upload' | 'posthog' | 'mixpanel' | 'sdk'>('all');
   const limit = 20;
 
   const fetchSessions = useCallback(async () => {
@@ -203,6 +203,15 @@ export function SessionList({ projectId, onSelectSession, selectedSessionId, onS
             <BarChart3 className="w-3 h-3" />
             Mixpanel
           </Button>
+          <Button
+            variant={filter === 'sdk' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => { setFilter('sdk'); setPage(1); }}
+            className="gap-1"
+          >
+            <Radio className="w-3 h-3" />
+            Recorder
+          </Button>
         </div>
         <Button
           variant="ghost"
@@ -256,6 +265,7 @@ export function SessionList({ projectId, onSelectSession, selectedSessionId, onS
                     session.source === 'posthog' ? 'border-[var(--info)]/30 text-[var(--info)] bg-[var(--info-bg)]' :
                     session.source === 'mixpanel' ? 'border-orange-500/30 text-orange-600 dark:text-orange-400 bg-orange-500/5' :
                     session.source === 'amplitude' ? 'border-violet-500/30 text-violet-600 dark:text-violet-400 bg-violet-500/5' :
+                    session.source === 'sdk' ? 'border-sky-500/30 text-sky-600 dark:text-sky-400 bg-sky-500/5' :
                     'border-emerald-500/30 text-emerald-600 dark:text-emerald-400 bg-emerald-500/5'
                   }>
                     {session.source === 'posthog' ? (
@@ -264,6 +274,8 @@ export function SessionList({ projectId, onSelectSession, selectedSessionId, onS
                       <><BarChart3 className="w-3 h-3 mr-1" />Mixpanel</>
                     ) : session.source === 'amplitude' ? (
                       <><BarChart3 className="w-3 h-3 mr-1" />Amplitude</>
+                    ) : session.source === 'sdk' ? (
+                      <><Radio className="w-3 h-3 mr-1" />Recorder</>
                     ) : (
                       <><Upload className="w-3 h-3 mr-1" />Upload</>
                     )}
@@ -3,6 +3,7 @@
 import { useEffect, useRef, useCallback, memo, useState, useMemo } from 'react';
 import rrwebPlayer from 'rrweb-player';
 import 'rrweb-player/dist/style.css';
+import { describeReplayIntegrity, type ReplayIntegrityReport } from '@/lib/replay-integrity';
 
 // rrweb event types
 const EventType = {
@@ -27,6 +28,8 @@ interface SessionPlayerProps {
     height?: number;
     autoPlay?: boolean;
     onReady?: (player: rrwebPlayer) => void;
+    /** Shown as a warning above the player when the recording is incomplete */
+    integrity?: ReplayIntegrityReport | null;
 }
 
 type PlayerState = 'idle' | 'validating' | 'initializing' | 'ready' | 'error';
@@ -123,13 +126,35 @@ function getEventsHash(events: RRWebEvent[]): string {
     return `${events.length}-${first?.timestamp}-${last?.timestamp}-${first?.type}-${last?.type}`;
 }
 
+/**
+ * Warning for replays assembled from chunks that had gaps or other problems
+ */
+function IntegrityWarning({ integrity, width }: { integrity?: ReplayIntegrityReport | null; width: number }) {
+    if (integrity?.status !== 'degraded') return null;
+
+    return (
+        <div
+            className="mb-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800"
+            style={{ width }}
+        >
+            <p className="font-medium">This recording is incomplete. Playback and analysis may skip parts of the session.</p>
+            <ul className="mt-1 list-disc pl-4 space-y-0.5">
+                {describeReplayIntegrity(integrity).map((issue) => (
+                    <li key={issue}>{issue}</li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
 // Memoized component to prevent unnecessary re-renders
 export const SessionPlayer = memo(function SessionPlayer({
     events: rawEvents,
     width = 800,
     height = 450,
     autoPlay = false,
-    onReady
+    onReady,
+    integrity
 }: SessionPlayerProps) {
     const containerRef = useRef<HTMLDivElement>(null);
     const playerRef = useRef<rrwebPlayer | null>(null);
@@ -335,14 +360,17 @@ export const SessionPlayer = memo(function SessionPlayer({
 
     if (showError) {
         return (
-            <div
-                className="flex flex-col items-center justify-center bg-slate-100 rounded-lg border border-slate-200 gap-2 p-4"
-                style={{ width, height }}
-            >
-                <svg className="w-8 h-8 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                </svg>
-                <p className="text-sm text-slate-500 text-center">{displayError}</p>
+            <div>
+                <IntegrityWarning integrity={integrity} width={width} />
+                <div
+                    className="flex flex-col items-center justify-center bg-slate-100 rounded-lg border border-slate-200 gap-2 p-4"
+                    style={{ width, height }}
+                >
+                    <svg className="w-8 h-8 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                    </svg>
+                    <p className="text-sm text-slate-500 text-center">{displayError}</p>
+                </div>
             </div>
         );
     }
@@ -352,38 +380,41 @@ export const SessionPlayer = memo(function SessionPlayer({
     const isLoading = playerState !== 'ready';
 
     return (
-        <div
-            className="relative rounded-lg border border-slate-200 shadow-sm overflow-hidden"
-            style={{ width, minHeight: totalHeight, backgroundColor: '#f8fafc' }}
-        >
-            {/* Loading overlay - shows until player has rendered */}
-            {isLoading && (
-                <div
-                    className="absolute inset-0 flex items-center justify-center bg-slate-100 z-20 rounded-lg"
-                    style={{ height: totalHeight }}
-                >
-                    <div className="flex flex-col items-center gap-3">
-                        <div className="w-8 h-8 border-2 border-slate-300 border-t-[var(--brand-primary)] rounded-full animate-spin" />
-                        <span className="text-sm text-slate-500">
-                            {playerState === 'validating' && 'Validating session...'}
-                            {playerState === 'initializing' && 'Loading replay...'}
-                            {playerState === 'idle' && 'Preparing...'}
-                        </span>
+        <div>
+            <IntegrityWarning integrity={integrity} width={width} />
+            <div
+                className="relative rounded-lg border border-slate-200 shadow-sm overflow-hidden"
+                style={{ width, minHeight: totalHeight, backgroundColor: '#f8fafc' }}
+            >
+                {/* Loading overlay - shows until player has rendered */}
+                {isLoading && (
+                    <div
+                        className="absolute inset-0 flex items-center justify-center bg-slate-100 z-20 rounded-lg"
+                        style={{ height: totalHeight }}
+                    >
+                        <div className="flex flex-col items-center gap-3">
+                            <div className="w-8 h-8 border-2 border-slate-300 border-t-[var(--brand-primary)] rounded-full animate-spin" />
+                            <span className="text-sm text-slate-500">
+                                {playerState === 'validating' && 'Validating session...'}
+                                {playerState === 'initializing' && 'Loading replay...'}
+                                {playerState === 'idle' && 'Preparing...'}
+                            </span>
+                        </div>
                     </div>
-                </div>
-            )}
+                )}
 
-            {/* Player container */}
-            <div
-                ref={containerRef}
-                id="rrweb-player-container"
-                className="rrweb-player-container"
-                style={{
-                    opacity: isLoading ? 0 : 1,
-                    transition: 'opacity 0.2s ease',
-                    visibility: isLoading ? 'hidden' : 'visible',
-                }}
-            />
+                {/* Player container */}
+                <div
+                    ref={containerRef}
+                    id="rrweb-player-container"
+                    className="rrweb-player-container"
+                    style={{
+                        opacity: isLoading ? 0 : 1,
+                        transition: 'opacity 0.2s ease',
+                        visibility: isLoading ? 'hidden' : 'visible',
+                    }}
+                />
+            </div>
         </div>
     );
 }, (prevProps, nextProps) => {
@@ -394,6 +425,7 @@ export const SessionPlayer = memo(function SessionPlayer({
         prevHash === nextHash &&
         prevProps.width === nextProps.width &&
         prevProps.height === nextProps.height &&
-        prevProps.autoPlay === nextProps.autoPlay
+        prevProps.autoPlay === nextProps.autoPlay &&
+        JSON.stringify(prevProps.integrity ?? null) === JSON.stringify(nextProps.integrity ?? null)
     );
 });
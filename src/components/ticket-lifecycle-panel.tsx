@@ -0,0 +1,203 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+
+export interface TicketMember {
+  id: string;
+  role: string;
+  user: { firstName: string | null; lastName: string | null; email: string; imageUrl: string | null };
+}
+
+interface TicketActivity {
+  id: string;
+  type: string;
+  fromValue: string | null;
+  toValue: string | null;
+  message: string | null;
+  createdAt: string;
+  actor: { firstName: string | null; lastName: string | null; email: string } | null;
+}
+
+export const TICKET_STATUS_LABELS: Record<string, string> = {
+  open: 'Open',
+  triaged: 'Triaged',
+  assigned: 'Assigned',
+  resolved: 'Resolved',
+  verified: 'Verified',
+  wont_fix: "Won't Fix",
+};
+
+export const TICKET_STATUS_COLORS: Record<string, string> = {
+  open: 'bg-[var(--muted)] text-[var(--foreground-muted)]',
+  triaged: 'bg-blue-100 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400',
+  assigned: 'bg-violet-100 dark:bg-violet-500/10 text-violet-600 dark:text-violet-400',
+  resolved: 'bg-emerald-100 dark:bg-emerald-500/10 text-emerald-600 dark:text-emerald-400',
+  verified: 'bg-emerald-200 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-300',
+  wont_fix: 'bg-[var(--muted)] text-[var(--foreground-subtle)] line-through',
+};
+
+export function memberName(member: Pick<TicketMember, 'user'> | null | undefined): string {
+  if (!member) return 'Unassigned';
+  const { firstName, lastName, email } = member.user;
+  return [firstName, lastName].filter(Boolean).join(' ') || email;
+}
+
+function describeActivity(activity: TicketActivity, members: TicketMember[]): string {
+  const member = (id: string | null) => (id ? memberName(members.find((m) => m.id === id)) : 'nobody');
+  const status = (value: string | null) => (value ? TICKET_STATUS_LABELS[value] ?? value : '—');
+
+  switch (activity.type) {
+    case 'created':
+      return `Created as ${status(activity.toValue)}`;
+    case 'status_changed':
+      return `${status(activity.fromValue)} → ${status(activity.toValue)}`;
+    case 'assigned':
+      return activity.toValue ? `Assigned to ${member(activity.toValue)}` : `Unassigned from ${member(activity.fromValue)}`;
+    case 'team_changed':
+      return activity.toValue ? `Team set to ${activity.toValue}` : 'Team cleared';
+    case 'pushed':
+      return `Pushed as ${activity.toValue}`;
+    case 'external_status':
+      return `Tracker status: ${activity.toValue}`;
+    case 'revised':
+      return `Re-synthesis revised ${activity.toValue}`;
+    case 'verification':
+      return `Fix verification: ${(activity.toValue ?? '').replace('_', ' ')}`;
+    default:
+      return activity.type;
+  }
+}
+
+export function TicketLifecyclePanel({
+  ticketId,
+  status,
+  assigneeId,
+  team,
+  members,
+  teams,
+  onUpdate,
+}: {
+  ticketId: string;
+  status: string;
+  assigneeId: string | null;
+  team: string | null;
+  members: TicketMember[];
+  teams: string[];
+  onUpdate: (update: { status?: string; assigneeId?: string | null; team?: string | null }) => Promise<void>;
+}) {
+  const [activities, setActivities] = useState<TicketActivity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [teamDraft, setTeamDraft] = useState(team ?? '');
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/tickets/${ticketId}/activity`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!cancelled && res.ok) setActivities(data.activities || []);
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [ticketId, revision]);
+
+  const apply = async (update: { status?: string; assigneeId?: string | null; team?: string | null }) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onUpdate(update);
+      setRevision((r) => r + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update ticket');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectClass =
+    'px-2 py-1.5 rounded-lg border border-[var(--border)] bg-[var(--card)] text-sm text-[var(--foreground)] disabled:opacity-50';
+
+  return (
+    <div className="mt-4 pt-4 border-t border-[var(--border)]" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-xs text-[var(--foreground-muted)]">
+          Status
+          <select
+            value={status}
+            onChange={(e) => apply({ status: e.target.value })}
+            disabled={isSaving}
+            className={selectClass}
+          >
+            {Object.entries(TICKET_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-[var(--foreground-muted)]">
+          Assignee
+          <select
+            value={assigneeId ?? ''}
+            onChange={(e) => apply({ assigneeId: e.target.value || null })}
+            disabled={isSaving}
+            className={selectClass}
+          >
+            <option value="">Unassigned</option>
+            {members.map((m) => (
+              <option key={m.id} value={m.id}>{memberName(m)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-[var(--foreground-muted)]">
+          Team
+          <input
+            value={teamDraft}
+            onChange={(e) => setTeamDraft(e.target.value)}
+            onBlur={() => {
+              if (teamDraft.trim() !== (team ?? '')) apply({ team: teamDraft.trim() || null });
+            }}
+            list={`teams-${ticketId}`}
+            placeholder="No team"
+            disabled={isSaving}
+            className={`${selectClass} w-36`}
+          />
+          <datalist id={`teams-${ticketId}`}>
+            {teams.map((t) => <option key={t} value={t} />)}
+          </datalist>
+        </label>
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin text-[var(--foreground-muted)]" />}
+        {error && <span className="text-xs text-red-500">{error}</span>}
+      </div>
+
+      <div className="mt-4">
+        <div className="flex items-center gap-1.5 text-xs font-medium text-[var(--foreground-subtle)] uppercase mb-2">
+          <History className="w-3.5 h-3.5" /> Activity
+        </div>
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-[var(--foreground-muted)]" />
+        ) : activities.length === 0 ? (
+          <p className="text-xs text-[var(--foreground-subtle)]">No activity yet.</p>
+        ) : (
+          <ul className="space-y-1 text-xs max-h-40 overflow-y-auto">
+            {activities.map((activity) => (
+              <li key={activity.id} className="flex items-baseline gap-2">
+                <span className="text-[var(--foreground-subtle)] shrink-0 tabular-nums">
+                  {new Date(activity.createdAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                </span>
+                <span className="text-[var(--foreground)]">{describeActivity(activity, members)}</span>
+                <span className="text-[var(--foreground-subtle)] truncate">
+                  {activity.actor ? `· ${[activity.actor.firstName, activity.actor.lastName].filter(Boolean).join(' ') || activity.actor.email}` : activity.message ? `· ${activity.message}` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+
+interface TicketRevision {
+  id: string;
+  title: string;
+  description: string;
+  recommendation: string;
+  changedFields: string[];
+  synthesizedAt: string;
+  createdAt: string;
+}
+
+export function TicketRevisionHistory({ ticketId }: { ticketId: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<TicketRevision[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = async () => {
+    setIsOpen((open) => !open);
+    if (revisions !== null || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/tickets/${ticketId}/revisions`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setRevisions(data.revisions || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revisions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-[var(--border)]" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={toggle}
+        className="flex items-center gap-1.5 text-xs font-medium text-[var(--foreground-subtle)] uppercase hover:text-[var(--foreground)]"
+      >
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+        Previous Versions
+      </button>
+
+      {isOpen && (
+        <div className="mt-2">
+          {isLoading && <Loader2 className="w-4 h-4 animate-spin text-[var(--foreground-muted)]" />}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          {revisions?.length === 0 && (
+            <p className="text-xs text-[var(--foreground-subtle)]">Re-synthesis hasn&apos;t changed this ticket&apos;s wording.</p>
+          )}
+          <ul className="space-y-3 max-h-64 overflow-y-auto">
+            {revisions?.map((revision) => (
+              <li key={revision.id} className="text-xs">
+                <div className="text-[var(--foreground-subtle)] mb-1">
+                  Synthesized {new Date(revision.synthesizedAt).toLocaleDateString()} · replaced{' '}
+                  {new Date(revision.createdAt).toLocaleDateString()} ({revision.changedFields.join(', ')} changed)
+                </div>
+                {revision.changedFields.includes('description') && (
+                  <p className="text-[var(--foreground-muted)] whitespace-pre-wrap">{revision.description}</p>
+                )}
+                {revision.changedFields.includes('recommendation') && (
+                  <p className="mt-1 text-[var(--foreground-muted)] whitespace-pre-wrap">
+                    <span className="font-medium">Recommendation:</span> {revision.recommendation}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Route, Trash2 } from 'lucide-react';
+import { memberName, type TicketMember } from '@/components/ticket-lifecycle-panel';
+
+interface RoutingRule {
+  id: string;
+  category: string;
+  team: string;
+  defaultAssigneeId: string | null;
+}
+
+interface RuleForm {
+  team: string;
+  defaultAssigneeId: string;
+}
+
+const CATEGORIES: { value: string; label: string }[] = [
+  { value: 'ux_friction', label: 'UX Friction' },
+  { value: 'feature_gap', label: 'Feature Gap' },
+  { value: 'bug', label: 'Bug' },
+  { value: 'confusion', label: 'Confusion' },
+  { value: 'performance', label: 'Performance' },
+  { value: 'onboarding', label: 'Onboarding' },
+  { value: 'retention', label: 'Retention' },
+];
+
+function toForms(rules: RoutingRule[]): Record<string, RuleForm> {
+  return Object.fromEntries(
+    CATEGORIES.map(({ value }) => {
+      const rule = rules.find((r) => r.category === value);
+      return [value, { team: rule?.team ?? '', defaultAssigneeId: rule?.defaultAssigneeId ?? '' }];
+    })
+  );
+}
+
+export function TicketRoutingRules({ projectId }: { projectId: string }) {
+  const [rules, setRules] = useState<RoutingRule[]>([]);
+  const [members, setMembers] = useState<TicketMember[]>([]);
+  const [forms, setForms] = useState<Record<string, RuleForm>>(() => toForms([]));
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingCategory, setSavingCategory] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const [rulesRes, membersRes] = await Promise.all([
+        fetch(`/api/tickets/routing-rules?projectId=${projectId}`),
+        fetch(`/api/tickets/assignees?projectId=${projectId}`),
+      ]);
+      const [rulesData, membersData] = await Promise.all([rulesRes.json(), membersRes.json()]);
+      if (!rulesRes.ok) throw new Error(rulesData.error || `Server error ${rulesRes.status}`);
+      const list: RoutingRule[] = rulesData.rules || [];
+      setRules(list);
+      setForms(toForms(list));
+      if (membersRes.ok) setMembers(membersData.members || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load routing rules');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadRules().finally(() => setIsLoading(false));
+  }, [loadRules]);
+
+  const updateField = (category: string, key: keyof RuleForm, value: string) => {
+    setForms((prev) => ({ ...prev, [category]: { ...prev[category], [key]: value } }));
+  };
+
+  const handleSave = async (category: string) => {
+    if (savingCategory) return;
+    setSavingCategory(category);
+    setError(null);
+    const form = forms[category];
+    try {
+      const res = await fetch('/api/tickets/routing-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId,
+          category,
+          team: form.team,
+          defaultAssigneeId: form.defaultAssigneeId || null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save routing rule');
+    } finally {
+      setSavingCategory(null);
+    }
+  };
+
+  const handleDelete = async (rule: RoutingRule) => {
+    const res = await fetch(`/api/tickets/routing-rules/${rule.id}`, { method: 'DELETE' });
+    if (res.ok) await loadRules();
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] text-sm';
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <Route className="w-6 h-6 text-[var(--brand-primary)]" />
+        <h2 className="text-2xl font-bold text-[var(--foreground)]">Ticket Routing</h2>
+        <span className="ml-auto text-xs bg-[var(--background-subtle)] px-3 py-1 rounded-full font-semibold text-[var(--foreground-subtle)] border border-[var(--border)]">
+          Optional
+        </span>
+      </div>
+      <p className="text-sm text-[var(--foreground-subtle)] mb-5">
+        New tickets in a routed category start triaged and owned by the team, or assigned when a default assignee is set.
+      </p>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--foreground-muted)]" />
+      ) : (
+        <div className="space-y-3">
+          {CATEGORIES.map(({ value, label }) => {
+            const rule = rules.find((r) => r.category === value);
+            const form = forms[value];
+            const isDirty = form.team !== (rule?.team ?? '') || form.defaultAssigneeId !== (rule?.defaultAssigneeId ?? '');
+
+            return (
+              <div key={value} className="grid grid-cols-[8rem_1fr_1fr_auto] items-center gap-3">
+                <span className="text-sm font-semibold text-[var(--foreground-muted)]">{label}</span>
+                <input
+                  value={form.team}
+                  onChange={(e) => updateField(value, 'team', e.target.value)}
+                  placeholder="Team"
+                  className={inputClass}
+                />
+                <select
+                  value={form.defaultAssigneeId}
+                  onChange={(e) => updateField(value, 'defaultAssigneeId', e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">No default assignee</option>
+                  {members.map((m) => (
+                    <option key={m.id} value={m.id}>{memberName(m)}</option>
+                  ))}
+                </select>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleSave(value)}
+                    disabled={savingCategory !== null || !form.team.trim() || !isDirty}
+                    className="btn-primary px-3 py-2 text-sm disabled:opacity-50"
+                  >
+                    {savingCategory === value ? 'Saving…' : 'Save'}
+                  </button>
+                  {rule && (
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      aria-label={`Remove ${label} rule`}
+                      className="p-1 text-[var(--foreground-muted)] hover:text-red-500"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { History, Loader2, Pencil, RotateCw, Send, Trash2, Webhook } from 'lucide-react';
+import type { SubscribableWebhookEvent } from '@/lib/webhooks/types';
+
+interface Endpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: SubscribableWebhookEvent[];
+  secretHint: string;
+  enabled: boolean;
+}
+
+interface Delivery {
+  id: string;
+  eventId: string;
+  eventType: string;
+  payload: unknown;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+interface EndpointForm {
+  url: string;
+  description: string;
+  events: SubscribableWebhookEvent[];
+}
+
+const EVENTS: { value: SubscribableWebhookEvent; label: string }[] = [
+  { value: 'session.analyzed', label: 'Session analyzed' },
+  { value: 'conversation.analyzed', label: 'Conversation analyzed' },
+  { value: 'ticket.created', label: 'Ticket created' },
+  { value: 'ticket.score_changed', label: 'Ticket score changed' },
+  { value: 'churn_score.level_changed', label: 'Churn risk level changed' },
+  { value: 'widget.clicked', label: 'Widget clicked' },
+  { value: 'recovery.email_bounced', label: 'Recovery email bounced' },
+];
+
+const EMPTY_FORM: EndpointForm = { url: '', description: '', events: [] };
+
+const STATUS_COLORS: Record<Delivery['status'], string> = {
+  pending: 'bg-amber-100 dark:bg-amber-500/10 text-amber-600 dark:text-amber-400',
+  succeeded: 'bg-emerald-100 dark:bg-emerald-500/10 text-emerald-600 dark:text-emerald-400',
+  failed: 'bg-red-100 dark:bg-red-500/10 text-red-600 dark:text-red-400',
+};
+
+function describeDelivery(delivery: Delivery): string {
+  const outcome = delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.lastError || '';
+  const attempts = `${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`;
+  const retry =
+    delivery.status === 'pending' && delivery.nextAttemptAt
+      ? ` · retry ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`
+      : '';
+  return [outcome, attempts].filter(Boolean).join(' · ') + retry;
+}
+
+export function WebhookEndpoints({ projectId }: { projectId: string }) {
+  const [endpoints, setEndpoints] = useState<Endpoint[]>([]);
+  const [form, setForm] = useState<EndpointForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [logEndpointId, setLogEndpointId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEndpoints = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/webhook-endpoints?projectId=${projectId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      setEndpoints(data.endpoints || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhook endpoints');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadEndpoints().finally(() => setIsLoading(false));
+  }, [loadEndpoints]);
+
+  const loadDeliveries = async (endpointId: string) => {
+    const res = await fetch(`/api/webhook-endpoints/${endpointId}/deliveries`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+    setDeliveries(data.deliveries || []);
+  };
+
+  const toggleLog = async (endpoint: Endpoint) => {
+    if (logEndpointId === endpoint.id) {
+      setLogEndpointId(null);
+      return;
+    }
+    setLogEndpointId(endpoint.id);
+    setDeliveries([]);
+    setExpandedDeliveryId(null);
+    try {
+      await loadDeliveries(endpoint.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deliveries');
+    }
+  };
+
+  const toggleEvent = (event: SubscribableWebhookEvent) => {
+    setForm((prev) => ({
+      ...prev,
+      events: prev.events.includes(event) ? prev.events.filter((e) => e !== event) : [...prev.events, event],
+    }));
+  };
+
+  const startEdit = (endpoint: Endpoint) => {
+    setEditingId(endpoint.id);
+    setForm({ url: endpoint.url, description: endpoint.description ?? '', events: endpoint.events });
+    setNewSecret(null);
+    setNotice(null);
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    setNewSecret(null);
+    try {
+      const res = await fetch(editingId ? `/api/webhook-endpoints/${editingId}` : '/api/webhook-endpoints', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, description: form.description || null, ...(editingId ? {} : { projectId }) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      if (data.secret) setNewSecret(data.secret);
+      resetForm();
+      await loadEndpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save webhook endpoint');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (endpoint: Endpoint) => {
+    const res = await fetch(`/api/webhook-endpoints/${endpoint.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !endpoint.enabled }),
+    });
+    if (res.ok) await loadEndpoints();
+  };
+
+  const handleSendTest = async (endpoint: Endpoint) => {
+    setBusyId(endpoint.id);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/webhook-endpoints/${endpoint.id}/test`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      const delivery: Delivery = data.delivery;
+      if (delivery.status === 'succeeded') {
+        setNotice(`Test event delivered to ${endpoint.url}`);
+      } else {
+        setError(`Test event failed: ${delivery.lastError} — retrying on the usual schedule`);
+      }
+      if (logEndpointId === endpoint.id) await loadDeliveries(endpoint.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send test event');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRedeliver = async (delivery: Delivery) => {
+    if (!logEndpointId) return;
+    setBusyId(delivery.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/webhook-endpoints/${logEndpointId}/deliveries/${delivery.id}/redeliver`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+      await loadDeliveries(logEndpointId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to redeliver event');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (endpoint: Endpoint) => {
+    if (!confirm(`Delete the webhook to ${endpoint.url}? Its delivery log is deleted too.`)) return;
+    const res = await fetch(`/api/webhook-endpoints/${endpoint.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      if (editingId === endpoint.id) resetForm();
+      if (logEndpointId === endpoint.id) setLogEndpointId(null);
+      await loadEndpoints();
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 bg-[var(--background-subtle)] border border-[var(--border)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--brand-primary)] focus:border-transparent text-[var(--foreground)] text-sm';
+  const labelClass = 'block text-sm font-semibold text-[var(--foreground-muted)] mb-2';
+  const editing = endpoints.find((e) => e.id === editingId);
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <Webhook className="w-6 h-6 text-[var(--brand-primary)]" />
+        <h2 className="text-2xl font-bold text-[var(--foreground)]">Webhooks</h2>
+        <span className="ml-auto text-xs bg-[var(--background-subtle)] px-3 py-1 rounded-full font-semibold text-[var(--foreground-subtle)] border border-[var(--border)]">
+          Optional
+        </span>
+      </div>
+      <p className="text-sm text-[var(--foreground-subtle)] mb-5">
+        POST analysis, ticket, churn, widget and recovery events to your own systems. Each request is signed with
+        the endpoint&apos;s secret in the <code className="font-mono text-xs">Tranzmit-Signature</code> header
+        (<code className="font-mono text-xs">t=…,v1=HMAC-SHA256(secret, &quot;t.body&quot;)</code>) and failed
+        deliveries are retried with backoff for about a day and a half.
+      </p>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+      {notice && <p className="text-sm text-emerald-500 mb-4">{notice}</p>}
+      {newSecret && (
+        <div className="mb-4 p-4 rounded-xl border border-amber-300 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10">
+          <p className="text-sm font-semibold text-[var(--foreground)] mb-1">Signing secret — copy it now, it won&apos;t be shown again</p>
+          <code className="block text-xs font-mono break-all text-[var(--foreground)] select-all">{newSecret}</code>
+        </div>
+      )}
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--foreground-muted)]" />
+      ) : (
+        <>
+          {endpoints.length > 0 && (
+            <div className="space-y-2 mb-6">
+              {endpoints.map((endpoint) => (
+                <div key={endpoint.id} className="border border-[var(--border)] rounded-xl px-4 py-3">
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={endpoint.enabled}
+                      onChange={() => handleToggle(endpoint)}
+                      aria-label={`Enable ${endpoint.url}`}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-semibold text-[var(--foreground)] font-mono truncate">{endpoint.url}</div>
+                      <div className="text-xs text-[var(--foreground-subtle)] truncate">
+                        {endpoint.description ? `${endpoint.description} · ` : ''}
+                        {endpoint.events.join(', ')} · {endpoint.secretHint}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleSendTest(endpoint)}
+                      disabled={busyId !== null}
+                      aria-label={`Send a test event to ${endpoint.url}`}
+                      className="p-1 text-[var(--foreground-muted)] hover:text-[var(--foreground)] disabled:opacity-50"
+                    >
+                      {busyId === endpoint.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => toggleLog(endpoint)}
+                      aria-label={`Deliveries to ${endpoint.url}`}
+                      className={`p-1 hover:text-[var(--foreground)] ${logEndpointId === endpoint.id ? 'text-[var(--brand-primary)]' : 'text-[var(--foreground-muted)]'}`}
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => startEdit(endpoint)}
+                      aria-label={`Edit ${endpoint.url}`}
+                      className="p-1 text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(endpoint)}
+                      aria-label={`Delete ${endpoint.url}`}
+                      className="p-1 text-[var(--foreground-muted)] hover:text-red-500"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {logEndpointId === endpoint.id && (
+                    <div className="mt-3 pt-3 border-t border-[var(--border)]">
+                      {deliveries.length === 0 ? (
+                        <p className="text-xs text-[var(--foreground-subtle)]">No deliveries yet.</p>
+                      ) : (
+                        <div className="grid grid-cols-[auto_1fr_auto_auto] items-center gap-x-3 gap-y-2 text-xs">
+                          {deliveries.map((delivery) => (
+                            <Fragment key={delivery.id}>
+                              <span className={`px-2 py-0.5 rounded-full ${STATUS_COLORS[delivery.status]}`}>{delivery.status}</span>
+                              <button
+                                onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                                className="min-w-0 text-left truncate text-[var(--foreground)] hover:underline"
+                              >
+                                <span className="font-mono">{delivery.eventType}</span>
+                                <span className="text-[var(--foreground-subtle)]"> · {describeDelivery(delivery)}</span>
+                              </button>
+                              <span className="text-[var(--foreground-subtle)]">{new Date(delivery.createdAt).toLocaleString()}</span>
+                              <button
+                                onClick={() => handleRedeliver(delivery)}
+                                disabled={busyId !== null}
+                                aria-label="Redeliver"
+                                className="p-1 text-[var(--foreground-muted)] hover:text-[var(--foreground)] disabled:opacity-50"
+                              >
+                                {busyId === delivery.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCw className="w-3 h-3" />}
+                              </button>
+                              {expandedDeliveryId === delivery.id && (
+                                <pre className="col-span-4 p-3 rounded-lg bg-[var(--background-subtle)] overflow-x-auto max-h-64 text-[var(--foreground-muted)]">
+                                  {JSON.stringify(delivery.payload, null, 2)}
+                                </pre>
+                              )}
+                            </Fragment>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border border-[var(--border)] rounded-xl p-4">
+            <h3 className="text-lg font-bold text-[var(--foreground)] mb-4">{editing ? 'Edit Endpoint' : 'New Endpoint'}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Endpoint URL</label>
+                <input
+                  value={form.url}
+                  onChange={(e) => setForm((prev) => ({ ...prev, url: e.target.value }))}
+                  placeholder="https://example.com/hooks/tranzmit"
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Description</label>
+                <input
+                  value={form.description}
+                  onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                  placeholder="Data warehouse sync"
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className={labelClass}>Events</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {EVENTS.map(({ value, label }) => (
+                    <label key={value} className="flex items-center gap-2 text-sm text-[var(--foreground-muted)]">
+                      <input type="checkbox" checked={form.events.includes(value)} onChange={() => toggleEvent(value)} />
+                      {label}
+                      <span className="font-mono text-xs text-[var(--foreground-subtle)]">{value}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+              {editing && (
+                <button onClick={resetForm} className="px-4 py-2 text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)]">
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !form.url.trim() || form.events.length === 0}
+                className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+              >
+                {isSaving ? 'Saving…' : editing ? 'Save Endpoint' : 'Add Endpoint'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
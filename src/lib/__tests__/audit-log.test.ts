@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuditLog } from "@prisma/client";
+
+const db = vi.hoisted(() => ({
+  auditLog: { create: vi.fn() },
+  project: { findUnique: vi.fn() },
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+import {
+  PROJECT_SECRET_FIELDS,
+  auditApiKeyUse,
+  auditChanges,
+  auditLogCsv,
+  auditLogWhere,
+  auditProjectAction,
+  maskSecret,
+  parseAuditLogFilters,
+  recordAuditEvent,
+  requestIp,
+} from "@/lib/audit-log";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2026-03-02T10:00:00Z");
+
+function request(headers: Record<string, string> = {}, url = "https://app.example.com/api/v1/tickets/t_1") {
+  return new Request(url, { method: "PATCH", headers });
+}
+
+const ACCESS = {
+  project: { id: "proj_1", organizationId: "org_1" },
+  user: { id: "user_1", email: "sam@acme.com" },
+};
+
+function entry(overrides: Partial<AuditLog> = {}): AuditLog {
+  return {
+    id: "log_1",
+    organizationId: "org_1",
+    projectId: "proj_1",
+    actorType: "user",
+    actorId: "user_1",
+    actorLabel: "sam@acme.com",
+    action: "data.deleted",
+    targetType: "session",
+    targetId: "s_1",
+    targetLabel: "Checkout, take 2",
+    before: null,
+    after: null,
+    metadata: null,
+    ipAddress: "203.0.113.7",
+    userAgent: null,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.auditLog.create.mockResolvedValue({});
+});
+
+// ─── 1. Masking and diffs ─────────────────────────────────────────────────────
+
+describe("maskSecret / auditChanges", () => {
+  it("keeps only the last four characters of a secret", () => {
+    expect(maskSecret("phx_abcdefghijkl1234")).toBe("••••1234");
+    expect(maskSecret("short")).toBe("••••");
+    expect(maskSecret("")).toBeNull();
+    expect(maskSecret(null)).toBeNull();
+  });
+
+  it("records only changed fields and masks secrets on both sides", () => {
+    const changes = auditChanges(
+      { posthogKey: "phx_old_key_0000", posthogHost: "https://us.posthog.com", posthogProjId: "12" },
+      { posthogKey: "phx_new_key_9999", posthogHost: "https://eu.posthog.com", posthogProjId: "12" },
+      ["posthogKey", "posthogHost", "posthogProjId"],
+      PROJECT_SECRET_FIELDS
+    );
+
+    expect(changes).toEqual({
+      before: { posthogKey: "••••0000", posthogHost: "https://us.posthog.com" },
+      after: { posthogKey: "••••9999", posthogHost: "https://eu.posthog.com" },
+    });
+    expect(JSON.stringify(changes)).not.toContain("phx_");
+  });
+
+  it("ignores fields the update didn't touch and treats '' like null", () => {
+    expect(
+      auditChanges({ mixpanelKey: null, amplitudeKey: "amp_secret_value" }, { mixpanelKey: "" }, ["mixpanelKey", "amplitudeKey"])
+    ).toBeNull();
+  });
+});
+
+// ─── 2. Writing entries ───────────────────────────────────────────────────────
+
+describe("recordAuditEvent / auditProjectAction", () => {
+  it("stores the actor, project and client IP", async () => {
+    await auditProjectAction(
+      request({ "x-forwarded-for": "203.0.113.7, 10.0.0.1", "user-agent": "Mozilla/5.0" }),
+      ACCESS,
+      { action: "data.deleted", targetType: "session", targetId: "s_1" }
+    );
+
+    const data = db.auditLog.create.mock.calls[0][0].data;
+    expect(data).toMatchObject({
+      organizationId: "org_1",
+      projectId: "proj_1",
+      actorType: "user",
+      actorId: "user_1",
+      actorLabel: "sam@acme.com",
+      action: "data.deleted",
+      ipAddress: "203.0.113.7",
+      userAgent: "Mozilla/5.0",
+    });
+  });
+
+  it("falls back to X-Real-IP", () => {
+    expect(requestIp(new Headers({ "x-real-ip": "198.51.100.2" }))).toBe("198.51.100.2");
+    expect(requestIp(new Headers())).toBeNull();
+  });
+
+  it("never throws when the write fails", async () => {
+    db.auditLog.create.mockRejectedValue(new Error("connection lost"));
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(
+      recordAuditEvent(null, {
+        organizationId: "org_1",
+        actor: { type: "system" },
+        action: "data.deleted",
+        targetType: "session",
+      })
+    ).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+// ─── 3. API key use ───────────────────────────────────────────────────────────
+
+describe("auditApiKeyUse", () => {
+  const key = { id: "key_1", name: "Warehouse sync", projectId: "proj_1" };
+
+  beforeEach(() => {
+    db.project.findUnique.mockResolvedValue({ organizationId: "org_1" });
+  });
+
+  it("records every write with the method and path", async () => {
+    await auditApiKeyUse(request(), { ...key, lastUsedAt: new Date(NOW.getTime() - 1000) }, "write", NOW);
+
+    const data = db.auditLog.create.mock.calls[0][0].data;
+    expect(data).toMatchObject({ actorType: "api_key", actorId: "key_1", action: "api_key.used" });
+    expect(data.metadata).toEqual({ method: "PATCH", path: "/api/v1/tickets/t_1", scope: "write" });
+  });
+
+  it("records reads only after an hour without use", async () => {
+    await auditApiKeyUse(request(), { ...key, lastUsedAt: new Date(NOW.getTime() - 5 * 60_000) }, "read", NOW);
+    expect(db.auditLog.create).not.toHaveBeenCalled();
+
+    await auditApiKeyUse(request(), { ...key, lastUsedAt: new Date(NOW.getTime() - 2 * 3600_000) }, "read", NOW);
+    await auditApiKeyUse(request(), { ...key, lastUsedAt: null }, "read", NOW);
+    expect(db.auditLog.create).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ─── 4. Browsing and export ───────────────────────────────────────────────────
+
+describe("filters and CSV export", () => {
+  it("parses filters and scopes the query to the organization", () => {
+    const parsed = parseAuditLogFilters(
+      new URLSearchParams({ action: "data.deleted", from: "2026-03-01T00:00:00Z", projectId: "" })
+    );
+    expect(parsed.success).toBe(true);
+    expect(auditLogWhere("org_1", parsed.data!)).toEqual({
+      organizationId: "org_1",
+      action: "data.deleted",
+      createdAt: { gte: new Date("2026-03-01T00:00:00Z") },
+    });
+  });
+
+  it("rejects unknown actions and bad dates", () => {
+    expect(parseAuditLogFilters(new URLSearchParams({ action: "everything" })).success).toBe(false);
+    expect(parseAuditLogFilters(new URLSearchParams({ from: "yesterday" })).success).toBe(false);
+  });
+
+  it("quotes cells, serialises JSON and defuses spreadsheet formulas", () => {
+    const csv = auditLogCsv([
+      entry({ targetLabel: '=HYPERLINK("http://evil")', after: { posthogKey: "••••9999" } }),
+    ]);
+    const [header, row] = csv.trim().split("\n");
+
+    expect(header.split(",")[0]).toBe("createdAt");
+    expect(row).toContain("2026-03-02T10:00:00.000Z");
+    expect(row).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    expect(row).toContain(`"{""posthogKey"":""••••9999""}"`);
+  });
+});
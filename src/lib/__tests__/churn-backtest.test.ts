@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: { findUniqueOrThrow: vi.fn() },
+    churnScoringRun: { findUnique: vi.fn() },
+    dailyChurnScore: { findFirst: vi.fn(), groupBy: vi.fn(), findMany: vi.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { runChurnBacktest } from '@/lib/churn-scoring/backtest';
+
+const mockPrisma = prisma as unknown as {
+  project: { findUniqueOrThrow: ReturnType<typeof vi.fn> };
+  churnScoringRun: { findUnique: ReturnType<typeof vi.fn> };
+  dailyChurnScore: {
+    findFirst: ReturnType<typeof vi.fn>;
+    groupBy: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function storedScore(distinctId: string, daysSinceLastEvent: number) {
+  return {
+    distinctId,
+    email: `${distinctId}@example.com`,
+    segment: 'free',
+    isPro: false,
+    paidStatus: null,
+    daysSinceLastEvent,
+    daysSinceLastCoreAction: daysSinceLastEvent,
+    daysSinceLastEngagement: daysSinceLastEvent,
+    sessionsLast7d: 3,
+    sessionsPrev7d: 3,
+    engagementLast7d: 10,
+    engagementPrev7d: 10,
+    coreActionLast7d: 2,
+    coreActionPrev7d: 2,
+    coreActionCompletedLast7d: 1,
+    featureUsedLast7d: 1,
+    featureUsedPrev7d: 1,
+    frictionLast7d: 0,
+    paidFrictionLast30d: 0,
+  };
+}
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const isoDay = (date: Date) => date.toISOString().split('T')[0];
+
+/** Scores and run statuses per day; a day without a status has no run. */
+function seedHistory(
+  scores: Record<string, ReturnType<typeof storedScore>[]>,
+  runStatus: Record<string, string>
+) {
+  const dates = Object.keys(scores).sort().reverse();
+  mockPrisma.dailyChurnScore.findFirst.mockResolvedValue({ date: day(dates[0]) });
+  mockPrisma.dailyChurnScore.groupBy.mockImplementation(async ({ where }) =>
+    dates.filter((d) => day(d) <= where.date.lte).map((d) => ({ date: day(d) }))
+  );
+  mockPrisma.dailyChurnScore.findMany.mockImplementation(async ({ where }) => scores[isoDay(where.date)] ?? []);
+  mockPrisma.churnScoringRun.findUnique.mockImplementation(async ({ where }) => {
+    const status = runStatus[isoDay(where.projectId_date.date)];
+    return status ? { status } : null;
+  });
+}
+
+// ─── Sample loading ───────────────────────────────────────────────────────────
+
+describe('runChurnBacktest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.project.findUniqueOrThrow.mockResolvedValue({ churnModel: null, churnRuleSet: null });
+  });
+
+  it('skips snapshots whose outcome day has not finished scoring', async () => {
+    const users = [storedScore('a', 1), storedScore('b', 2)];
+    seedHistory(
+      {
+        '2025-07-15': [storedScore('a', 0)],   // partial: the run stopped before scoring b
+        '2025-07-14': [storedScore('a', 0), storedScore('b', 20)],
+        '2025-07-01': users,
+        '2025-06-30': users,
+      },
+      { '2025-07-15': 'processing', '2025-07-14': 'completed' }
+    );
+
+    const { report } = await runChurnBacktest('proj-1', undefined, { maxSnapshots: 2 });
+
+    expect(report.snapshotDates).toEqual(['2025-06-30']);
+    expect(report.samples).toBe(2);
+    expect(report.churned).toBe(1);
+  });
+
+  it('skips snapshots whose outcome day has no scoring run', async () => {
+    seedHistory(
+      {
+        '2025-07-15': [storedScore('a', 0)],
+        '2025-07-01': [storedScore('a', 1), storedScore('b', 2)],
+      },
+      {}
+    );
+
+    const { report } = await runChurnBacktest('proj-1');
+
+    expect(report.snapshotDates).toEqual([]);
+    expect(report.samples).toBe(0);
+  });
+});
@@ -0,0 +1,255 @@
+import zlib from 'zlib';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock all external dependencies before importing the module under test
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: { findUniqueOrThrow: vi.fn() },
+    churnScoringRun: {
+      upsert: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    dailyChurnScore: { upsert: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/churn-scoring/data-fetcher', () => ({
+  fetchUserMetricsPage: vi.fn(),
+}));
+
+vi.mock('@/lib/churn-scoring/mixpanel-fetcher', () => ({
+  fetchMixpanelUserMetrics: vi.fn(),
+}));
+
+vi.mock('@/lib/churn-scoring/amplitude-fetcher', () => ({
+  fetchAmplitudeUserMetrics: vi.fn(),
+}));
+
+vi.mock('@/lib/churn-scoring/alerts', () => ({
+  evaluateChurnAlerts: vi.fn(),
+  emitLevelChangeWebhooks: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { fetchUserMetricsPage } from '@/lib/churn-scoring/data-fetcher';
+import { fetchMixpanelUserMetrics } from '@/lib/churn-scoring/mixpanel-fetcher';
+import { evaluateChurnAlerts } from '@/lib/churn-scoring/alerts';
+import { runDailyChurnScoring } from '../churn-scoring/scorer';
+import type { RawUserMetrics } from '../churn-scoring/types';
+
+const mockPrisma = prisma as unknown as {
+  project: { findUniqueOrThrow: ReturnType<typeof vi.fn> };
+  churnScoringRun: {
+    upsert: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+  dailyChurnScore: { upsert: ReturnType<typeof vi.fn> };
+};
+
+const mockFetchPage = fetchUserMetricsPage as ReturnType<typeof vi.fn>;
+const mockFetchMixpanel = fetchMixpanelUserMetrics as ReturnType<typeof vi.fn>;
+const mockEvaluateAlerts = evaluateChurnAlerts as ReturnType<typeof vi.fn>;
+
+function makeProject(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'proj-1',
+    replaySource: null,
+    posthogKey: 'phx_key',
+    posthogProjId: '123',
+    mixpanelKey: null,
+    mixpanelProjId: null,
+    amplitudeKey: null,
+    amplitudeSecret: null,
+    amplitudeProjId: null,
+    churnModel: null,
+    churnRuleSet: null,
+    ...overrides,
+  };
+}
+
+function makeRun(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'run-1',
+    projectId: 'proj-1',
+    date: new Date('2025-06-30T00:00:00Z'),
+    source: 'posthog',
+    status: 'pending',
+    cursor: null,
+    exportedMetrics: null,
+    usersScored: 0,
+    byRiskLevel: null,
+    alertsSent: 0,
+    attempts: 0,
+    error: null,
+    ...overrides,
+  };
+}
+
+function makeUsers(ids: string[]): RawUserMetrics[] {
+  return ids.map((id) => ({
+    distinct_id: id,
+    email: null,
+    is_pro: false,
+    paid_status: null,
+    person_created_at: null,
+    days_since_last_event: 1,
+    days_since_last_core_action: 1,
+    days_since_last_engagement: 1,
+    sessions_last_7d: 3,
+    sessions_prev_7d: 3,
+    engagement_last_7d: 10,
+    engagement_prev_7d: 10,
+    core_action_last_7d: 2,
+    core_action_prev_7d: 2,
+    core_action_completed_last_7d: 2,
+    feature_used_last_7d: 1,
+    feature_used_prev_7d: 1,
+    friction_last_7d: 0,
+    paid_friction_last_30d: 0,
+  }));
+}
+
+// 2000 users = one full page, so another page is requested
+const FULL_PAGE = makeUsers(Array.from({ length: 2000 }, (_, i) => `u${String(i).padStart(5, '0')}`));
+
+// Stored run row — update/updateMany merge into it like the database would
+let storedRun: Record<string, unknown>;
+
+function storeRun(overrides: Record<string, unknown> = {}) {
+  storedRun = makeRun(overrides);
+  mockPrisma.churnScoringRun.upsert.mockImplementation(() => Promise.resolve({ ...storedRun }));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.project.findUniqueOrThrow.mockResolvedValue(makeProject());
+  storeRun();
+  mockPrisma.churnScoringRun.updateMany.mockImplementation(({ data }) => {
+    storedRun = { ...storedRun, ...data };
+    return Promise.resolve({ count: 1 });
+  });
+  mockPrisma.churnScoringRun.update.mockImplementation(({ data }) => {
+    storedRun = { ...storedRun, ...data };
+    return Promise.resolve({ ...storedRun });
+  });
+  mockPrisma.dailyChurnScore.upsert.mockResolvedValue({});
+  mockEvaluateAlerts.mockResolvedValue(2);
+});
+
+// ─── 1. Completion ────────────────────────────────────────────────────────────
+
+describe('runDailyChurnScoring', () => {
+  it('scores every page and completes the run', async () => {
+    mockFetchPage.mockResolvedValueOnce(FULL_PAGE).mockResolvedValueOnce(makeUsers(['zz-1']));
+
+    const summary = await runDailyChurnScoring('proj-1');
+
+    expect(mockFetchPage).toHaveBeenCalledTimes(2);
+    expect(mockFetchPage.mock.calls[1][2]).toBe('u01999');
+    expect(mockPrisma.dailyChurnScore.upsert).toHaveBeenCalledTimes(2001);
+    expect(mockEvaluateAlerts).toHaveBeenCalledOnce();
+    expect(summary.status).toBe('completed');
+    expect(summary.usersScored).toBe(2001);
+    expect(summary.alertsSent).toBe(2);
+  });
+
+  // ─── 2. Checkpointing ───────────────────────────────────────────────────────
+
+  it('checkpoints the cursor and stops when the time budget runs out', async () => {
+    mockFetchPage.mockResolvedValue(FULL_PAGE);
+
+    const summary = await runDailyChurnScoring('proj-1', { timeBudgetMs: 0 });
+
+    expect(mockFetchPage).toHaveBeenCalledOnce();
+    expect(mockPrisma.churnScoringRun.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ cursor: 'u01999', usersScored: 2000 }) })
+    );
+    expect(mockEvaluateAlerts).not.toHaveBeenCalled();
+    expect(summary.status).toBe('processing');
+  });
+
+  it('resumes from the saved cursor and keeps earlier counts', async () => {
+    storeRun({ status: 'processing', cursor: 'u01999', usersScored: 2000, byRiskLevel: { low: 2000 } });
+    mockFetchPage.mockResolvedValueOnce(makeUsers(['zz-1']));
+
+    const summary = await runDailyChurnScoring('proj-1');
+
+    expect(mockFetchPage.mock.calls[0][2]).toBe('u01999');
+    expect(summary.usersScored).toBe(2001);
+    expect(summary.byRiskLevel.low).toBe(2001);
+    expect(summary.status).toBe('completed');
+  });
+
+  it('skips a run another invocation is processing', async () => {
+    storeRun({ status: 'processing' });
+    mockPrisma.churnScoringRun.updateMany.mockResolvedValue({ count: 0 });
+
+    const summary = await runDailyChurnScoring('proj-1');
+
+    expect(mockFetchPage).not.toHaveBeenCalled();
+    expect(summary.status).toBe('processing');
+  });
+
+  // ─── 3. Restarts and failures ───────────────────────────────────────────────
+
+  it('only re-scores a completed run when asked to restart', async () => {
+    storeRun({ status: 'completed', usersScored: 5 });
+
+    const summary = await runDailyChurnScoring('proj-1');
+    expect(summary.status).toBe('completed');
+    expect(mockFetchPage).not.toHaveBeenCalled();
+
+    mockFetchPage.mockResolvedValueOnce(makeUsers(['a']));
+    const restarted = await runDailyChurnScoring('proj-1', { restart: true });
+    expect(mockPrisma.churnScoringRun.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'pending', cursor: null, usersScored: 0 }) })
+    );
+    expect(restarted.usersScored).toBe(1);
+  });
+
+  it('skips users before the cursor for export sources', async () => {
+    mockPrisma.project.findUniqueOrThrow.mockResolvedValue(
+      makeProject({ posthogKey: null, mixpanelKey: 'mp', mixpanelProjId: '9' })
+    );
+    storeRun({ source: 'mixpanel', status: 'processing', cursor: 'b', usersScored: 2 });
+    mockFetchMixpanel.mockResolvedValue(makeUsers(['a', 'b', 'c']));
+
+    const summary = await runDailyChurnScoring('proj-1');
+
+    expect(mockPrisma.dailyChurnScore.upsert).toHaveBeenCalledOnce();
+    expect(summary.usersScored).toBe(3);
+  });
+
+  it('stores the export once and reads it back when resuming', async () => {
+    mockPrisma.project.findUniqueOrThrow.mockResolvedValue(
+      makeProject({ posthogKey: null, mixpanelKey: 'mp', mixpanelProjId: '9' })
+    );
+    storeRun({ source: 'mixpanel' });
+    mockFetchMixpanel.mockResolvedValue(makeUsers(['a', 'b', 'c']));
+
+    await runDailyChurnScoring('proj-1', { timeBudgetMs: 0 });
+    const saved = mockPrisma.churnScoringRun.update.mock.calls[0][0].data.exportedMetrics;
+    expect(JSON.parse(zlib.gunzipSync(saved).toString('utf8'))).toHaveLength(3);
+
+    mockFetchMixpanel.mockClear();
+    storeRun({ source: 'mixpanel', status: 'processing', cursor: 'b', usersScored: 2, exportedMetrics: saved });
+    const summary = await runDailyChurnScoring('proj-1');
+
+    expect(mockFetchMixpanel).not.toHaveBeenCalled();
+    expect(summary.usersScored).toBe(3);
+    expect(storedRun.exportedMetrics).toBeNull();
+  });
+
+  it('marks the run failed and rethrows when fetching fails', async () => {
+    mockFetchPage.mockRejectedValue(new Error('HogQL timeout'));
+
+    await expect(runDailyChurnScoring('proj-1')).rejects.toThrow('HogQL timeout');
+    expect(mockPrisma.churnScoringRun.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: 'failed', error: 'HogQL timeout', attempts: { increment: 1 } }),
+      })
+    );
+  });
+});
@@ -0,0 +1,514 @@
+import { describe, it, expect, vi } from "vitest";
+
+// backtest.ts imports the Prisma client; only its pure evaluation is tested here
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import { buildChurnHogQLQuery } from "@/lib/churn-scoring/data-fetcher";
+import {
+  DEFAULT_CHURN_MODEL,
+  describeChurnModel,
+  resolveChurnModel,
+} from "@/lib/churn-scoring/churn-model";
+import { DEFAULT_CHURN_RULE_SET } from "@/lib/churn-scoring/rule-set";
+import {
+  classifyRiskLevel,
+  classifySegment,
+  scoreUser,
+} from "@/lib/churn-scoring/scoring-rules";
+import { evaluateBacktest, type BacktestSample } from "@/lib/churn-scoring/backtest";
+import { createMetricsAccumulator } from "@/lib/churn-scoring/metrics-accumulator";
+import { resolveMetricsSource } from "@/lib/churn-scoring/metrics-source";
+import { compareScoreDays, rankMovers, type DayScore } from "@/lib/churn-scoring/trajectory";
+import { ALERT_RETRY_DELAYS_MS, churnAlertRuleSchema, matchAlertRule, nextAlertRetryAt } from "@/lib/churn-scoring/alerts";
+import { computeSegmentBaselines, explainChurnScore } from "@/lib/churn-scoring/explanations";
+import type { ChurnModel, ChurnRuleSet, RawUserMetrics } from "@/lib/churn-scoring/types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeMetrics(overrides: Partial<RawUserMetrics> = {}): RawUserMetrics {
+  return {
+    distinct_id: "user-1",
+    email: "user@example.com",
+    is_pro: false,
+    paid_status: null,
+    person_created_at: null,
+    days_since_last_event: 0,
+    days_since_last_core_action: 0,
+    days_since_last_engagement: 0,
+    sessions_last_7d: 5,
+    sessions_prev_7d: 5,
+    engagement_last_7d: 20,
+    engagement_prev_7d: 20,
+    core_action_last_7d: 4,
+    core_action_prev_7d: 4,
+    core_action_completed_last_7d: 4,
+    feature_used_last_7d: 3,
+    feature_used_prev_7d: 3,
+    friction_last_7d: 0,
+    paid_friction_last_30d: 0,
+    ...overrides,
+  };
+}
+
+const REPORTING_MODEL: ChurnModel = {
+  coreAction: { event: "report_created", completionEvent: null },
+  engagementEvents: [],
+  featureEvents: ["dashboard_shared", "export_clicked"],
+  frictionEvents: { free: ["upgrade_modal_shown"], paid: [] },
+  paidStatus: { property: "plan", paidValues: ["team", "enterprise"], flagProperty: null },
+};
+
+// ─── 1. buildChurnHogQLQuery ──────────────────────────────────────────────────
+
+describe("buildChurnHogQLQuery", () => {
+  it("uses the chat vocabulary for the default model", () => {
+    const query = buildChurnHogQLQuery(DEFAULT_CHURN_MODEL);
+    expect(query).toContain("maxIf(timestamp, event = 'chat_started')");
+    expect(query).toContain("countIf(event = 'chat_ended' AND");
+    expect(query).toContain("person.properties.is_pro AS is_pro");
+    expect(query).toContain("person.properties.subscription_status AS paid_status");
+  });
+
+  it("uses the project's events and properties for a custom model", () => {
+    const query = buildChurnHogQLQuery(REPORTING_MODEL);
+    expect(query).not.toContain("chat_started");
+    expect(query).toContain("event = 'report_created'");
+    expect(query).toContain("event IN ('dashboard_shared', 'export_clicked')");
+    expect(query).toContain("person.properties.plan AS paid_status");
+    expect(query).toContain("NULL AS is_pro");
+  });
+
+  it("turns empty event lists into conditions that match nothing", () => {
+    const query = buildChurnHogQLQuery(REPORTING_MODEL);
+    expect(query).toContain("countIf(0 AND timestamp > now() - INTERVAL 7 DAY) AS engagement_last_7d");
+    expect(query).toContain("countIf(0 AND timestamp > now() - INTERVAL 30 DAY) AS paid_friction_last_30d");
+  });
+
+  it("pages by distinct_id after a keyset cursor", () => {
+    const query = buildChurnHogQLQuery(DEFAULT_CHURN_MODEL, "user-'42");
+    expect(query).toContain("AND distinct_id > 'user-\\'42'");
+    expect(query).toContain("ORDER BY distinct_id ASC");
+    expect(buildChurnHogQLQuery(DEFAULT_CHURN_MODEL)).not.toContain("distinct_id >");
+  });
+
+  it("escapes quotes in event names", () => {
+    const query = buildChurnHogQLQuery({
+      ...REPORTING_MODEL,
+      coreAction: { event: "it's done", completionEvent: null },
+    });
+    expect(query).toContain("event = 'it\\'s done'");
+  });
+});
+
+// ─── 2. resolveChurnModel ─────────────────────────────────────────────────────
+
+describe("resolveChurnModel", () => {
+  it("returns the default model when nothing is stored", () => {
+    expect(resolveChurnModel(null)).toBe(DEFAULT_CHURN_MODEL);
+  });
+
+  it("fills optional lists with defaults", () => {
+    const model = resolveChurnModel({
+      coreAction: { event: "report_created" },
+      paidStatus: { property: "plan", paidValues: ["team"] },
+    });
+    expect(model.engagementEvents).toEqual([]);
+    expect(model.frictionEvents).toEqual({ free: [], paid: [] });
+    expect(model.coreAction.completionEvent).toBeNull();
+    expect(model.paidStatus.flagProperty).toBeNull();
+  });
+
+  it("falls back to the default model when property names are not identifiers", () => {
+    const model = resolveChurnModel({
+      coreAction: { event: "report_created" },
+      paidStatus: { property: "plan) OR (1", paidValues: ["team"] },
+    });
+    expect(model).toBe(DEFAULT_CHURN_MODEL);
+  });
+});
+
+// ─── 3. scoreUser with a custom model ─────────────────────────────────────────
+
+describe("scoreUser with a churn model", () => {
+  it("classifies paid users by the model's paid-status values", () => {
+    expect(classifySegment(makeMetrics({ paid_status: "team" }), REPORTING_MODEL)).toBe("paid_user");
+    expect(classifySegment(makeMetrics({ paid_status: "active" }), REPORTING_MODEL)).toBe("active_user");
+  });
+
+  it("reports missing core actions generically for new users", () => {
+    const scored = scoreUser(
+      makeMetrics({
+        person_created_at: new Date().toISOString(),
+        days_since_last_core_action: null,
+        core_action_last_7d: 0,
+      }),
+      REPORTING_MODEL
+    );
+    expect(scored.riskReasons).toContain("new_user_no_core_action");
+    expect(scored.riskReasons).not.toContain("new_user_no_chat");
+  });
+
+  it("skips engagement and completion rules the model does not define", () => {
+    const scored = scoreUser(
+      makeMetrics({
+        days_since_last_engagement: null,
+        engagement_last_7d: 0,
+        core_action_completed_last_7d: 0,
+      }),
+      REPORTING_MODEL
+    );
+    expect(scored.riskReasons).not.toContain("no_engagement_14d");
+    expect(scored.riskReasons).not.toContain("low_core_action_completion_rate");
+    expect(scored.coreActionCompletionRateLast7d).toBeNull();
+    expect(scored.engagementPerCoreActionLast7d).toBeNull();
+    expect(scored.subScores.engagementQualityScore).toBe(0);
+  });
+
+  it("keeps the original scoring for the default model", () => {
+    const scored = scoreUser(
+      makeMetrics({
+        core_action_last_7d: 10,
+        core_action_completed_last_7d: 2,
+        engagement_last_7d: 10,
+      })
+    );
+    expect(scored.coreActionCompletionRateLast7d).toBeCloseTo(0.2);
+    expect(scored.riskReasons).toContain("low_core_action_completion_rate");
+    expect(scored.riskReasons).toContain("shallow_core_actions");
+    expect(scored.subScores.engagementQualityScore).toBe(20);
+  });
+});
+
+// ─── 4. Rule-set weights and thresholds ───────────────────────────────────────
+
+// Inactive 21d active user: recency 35, sessions -100% (15) + engagement -100% (15)
+const LAPSED_METRICS: Partial<RawUserMetrics> = {
+  days_since_last_event: 21,
+  days_since_last_core_action: 21,
+  days_since_last_engagement: 21,
+  sessions_last_7d: 0,
+  engagement_last_7d: 0,
+  core_action_last_7d: 0,
+  feature_used_last_7d: 3,
+};
+
+describe("scoreUser with a rule set", () => {
+  it("keeps the original caps with the default rule set", () => {
+    const scored = scoreUser(makeMetrics(LAPSED_METRICS), DEFAULT_CHURN_MODEL, DEFAULT_CHURN_RULE_SET);
+    expect(scored.subScores.recencyScore).toBe(35);
+    expect(scored.subScores.usageDropScore).toBe(30);
+    expect(scored.riskScore).toBe(65);
+    expect(scored.riskLevel).toBe("high");
+  });
+
+  it("rescales sub-scores to the configured weights", () => {
+    const ruleSet: ChurnRuleSet = {
+      ...DEFAULT_CHURN_RULE_SET,
+      weights: { ...DEFAULT_CHURN_RULE_SET.weights, recency: 50, usageDrop: 15 },
+    };
+    const scored = scoreUser(makeMetrics(LAPSED_METRICS), DEFAULT_CHURN_MODEL, ruleSet);
+    expect(scored.subScores.recencyScore).toBe(50);
+    expect(scored.subScores.usageDropScore).toBe(15);
+    expect(scored.riskScore).toBe(65);
+  });
+
+  it("drops reasons for rules weighted to zero", () => {
+    const ruleSet: ChurnRuleSet = {
+      ...DEFAULT_CHURN_RULE_SET,
+      weights: { ...DEFAULT_CHURN_RULE_SET.weights, usageDrop: 0 },
+    };
+    const scored = scoreUser(makeMetrics(LAPSED_METRICS), DEFAULT_CHURN_MODEL, ruleSet);
+    expect(scored.subScores.usageDropScore).toBe(0);
+    expect(scored.riskReasons).not.toContain("sessions_dropped_80pct");
+    expect(scored.riskReasons).toContain("inactive_21d");
+  });
+
+  it("classifies risk with custom thresholds", () => {
+    const thresholds = { critical: 60, high: 40, medium: 20 };
+    expect(classifyRiskLevel(65, thresholds)).toBe("critical");
+    expect(classifyRiskLevel(45, thresholds)).toBe("high");
+    expect(classifyRiskLevel(19, thresholds)).toBe("low");
+  });
+});
+
+// ─── 5. evaluateBacktest ──────────────────────────────────────────────────────
+
+describe("evaluateBacktest", () => {
+  const lapsed = (churned: boolean): BacktestSample => ({
+    segment: "active_user",
+    metrics: makeMetrics(LAPSED_METRICS),
+    churned,
+  });
+  const healthy = (churned: boolean): BacktestSample => ({
+    segment: "active_user",
+    metrics: makeMetrics(),
+    churned,
+  });
+
+  it("reports precision and recall at or above each risk level", () => {
+    const samples = [lapsed(true), lapsed(true), lapsed(false), healthy(false), healthy(true)];
+    const result = evaluateBacktest(samples, DEFAULT_CHURN_MODEL, DEFAULT_CHURN_RULE_SET);
+
+    expect(result.samples).toBe(5);
+    expect(result.churned).toBe(3);
+    expect(result.baseRate).toBe(0.6);
+    expect(result.byLevel.high).toEqual({ users: 3, churned: 2, churnRate: 0.667 });
+    expect(result.byLevel.low).toEqual({ users: 2, churned: 1, churnRate: 0.5 });
+
+    const high = result.atOrAbove.find((r) => r.level === "high")!;
+    expect(high.predicted).toBe(3);
+    expect(high.precision).toBe(0.667);
+    expect(high.recall).toBe(0.667);
+
+    const critical = result.atOrAbove.find((r) => r.level === "critical")!;
+    expect(critical.predicted).toBe(0);
+    expect(critical.precision).toBeNull();
+    expect(critical.recall).toBe(0);
+  });
+
+  it("re-buckets the same samples when thresholds change", () => {
+    const samples = [lapsed(true), healthy(false)];
+    const ruleSet: ChurnRuleSet = {
+      ...DEFAULT_CHURN_RULE_SET,
+      thresholds: { critical: 60, high: 40, medium: 20 },
+    };
+    const result = evaluateBacktest(samples, DEFAULT_CHURN_MODEL, ruleSet);
+    expect(result.byLevel.critical.users).toBe(1);
+    expect(result.atOrAbove.find((r) => r.level === "critical")!.recall).toBe(1);
+  });
+});
+
+// ─── 6. createMetricsAccumulator ──────────────────────────────────────────────
+
+describe("createMetricsAccumulator", () => {
+  const NOW = Date.UTC(2025, 5, 30, 12);
+  const DAY = 24 * 60 * 60 * 1000;
+  const event = (name: string, daysAgo: number, sessionId: string | null = "s1", distinctId = "user-1") => ({
+    distinctId,
+    event: name,
+    timestamp: NOW - daysAgo * DAY,
+    sessionId,
+  });
+
+  it("aggregates events into the same windows as the HogQL query", () => {
+    const acc = createMetricsAccumulator(DEFAULT_CHURN_MODEL, NOW);
+    acc.add(event("chat_started", 1, "s1"));
+    acc.add(event("chat_ended", 1, "s1"));
+    acc.add(event("message_sent", 2, "s2"));
+    acc.add(event("chat_started", 10, "s3"));
+    acc.add(event("feature_used", 9, "s3"));
+    acc.add(event("paywall_viewed", 3, "s2"));
+    acc.add(event("manage_subscription_tapped", 20, "s4"));
+
+    const [metrics] = acc.finish();
+    expect(metrics.days_since_last_event).toBe(1);
+    expect(metrics.days_since_last_core_action).toBe(1);
+    expect(metrics.days_since_last_engagement).toBe(2);
+    expect(metrics.sessions_last_7d).toBe(2);
+    expect(metrics.sessions_prev_7d).toBe(1);
+    expect(metrics.core_action_last_7d).toBe(1);
+    expect(metrics.core_action_prev_7d).toBe(1);
+    expect(metrics.core_action_completed_last_7d).toBe(1);
+    expect(metrics.feature_used_prev_7d).toBe(1);
+    expect(metrics.friction_last_7d).toBe(1);
+    expect(metrics.paid_friction_last_30d).toBe(1);
+  });
+
+  it("ignores events outside the 60-day lookback", () => {
+    const acc = createMetricsAccumulator(DEFAULT_CHURN_MODEL, NOW);
+    acc.add(event("chat_started", 61));
+    expect(acc.finish()).toEqual([]);
+  });
+
+  it("keeps person properties from the latest event unless overridden", () => {
+    const acc = createMetricsAccumulator(DEFAULT_CHURN_MODEL, NOW);
+    const person = (paidStatus: string) => ({ email: null, paidStatus, isPro: null, createdAt: null });
+    acc.add(event("chat_started", 1), person("active"));
+    acc.add(event("chat_started", 5), person("canceled"));
+    acc.add(event("chat_started", 1, "s1", "user-2"), person("active"));
+    acc.setPerson("user-2", person("trialing"));
+
+    const byId = new Map(acc.finish().map((m) => [m.distinct_id, m]));
+    expect(byId.get("user-1")!.paid_status).toBe("active");
+    expect(byId.get("user-2")!.paid_status).toBe("trialing");
+  });
+
+  it("leaves core action recency null when the user never did it", () => {
+    const acc = createMetricsAccumulator(REPORTING_MODEL, NOW);
+    acc.add(event("dashboard_shared", 2));
+    const [metrics] = acc.finish();
+    expect(metrics.days_since_last_core_action).toBeNull();
+    expect(metrics.feature_used_last_7d).toBe(1);
+  });
+});
+
+// ─── 7. resolveMetricsSource ──────────────────────────────────────────────────
+
+describe("resolveMetricsSource", () => {
+  const unconfigured = {
+    replaySource: null,
+    posthogKey: null,
+    posthogProjId: null,
+    mixpanelKey: null,
+    mixpanelProjId: null,
+    amplitudeKey: null,
+    amplitudeSecret: null,
+    amplitudeProjId: null,
+  };
+  const mixpanel = { mixpanelKey: "key", mixpanelProjId: "123" };
+  const amplitude = { amplitudeKey: "key", amplitudeSecret: "secret", amplitudeProjId: "456" };
+
+  it("returns null when no source is configured", () => {
+    expect(resolveMetricsSource(unconfigured)).toBeNull();
+  });
+
+  it("uses the preferred source when it is configured", () => {
+    expect(resolveMetricsSource({ ...unconfigured, ...mixpanel, ...amplitude, replaySource: "amplitude" })).toBe("amplitude");
+  });
+
+  it("falls back to the first configured source", () => {
+    expect(resolveMetricsSource({ ...unconfigured, ...amplitude, replaySource: "posthog" })).toBe("amplitude");
+    expect(resolveMetricsSource({ ...unconfigured, ...mixpanel, ...amplitude })).toBe("mixpanel");
+  });
+});
+
+// ─── 8. Score trajectory and alerts ───────────────────────────────────────────
+
+describe("score transitions", () => {
+  const day = (distinctId: string, riskScore: number, riskLevel: string, segment = "paid_user"): DayScore => ({
+    distinctId,
+    email: `${distinctId}@example.com`,
+    segment,
+    isPro: false,
+    riskScore,
+    riskLevel,
+  });
+
+  const previous = [day("a", 40, "medium"), day("b", 80, "critical"), day("c", 20, "low", "active_user"), day("d", 60, "high")];
+  const current = [day("a", 78, "critical"), day("b", 82, "critical"), day("c", 55, "high", "active_user"), day("d", 30, "medium"), day("e", 90, "critical")];
+  const transitions = compareScoreDays(previous, current);
+
+  it("pairs each user with their previous score", () => {
+    const a = transitions.find((t) => t.distinctId === "a")!;
+    expect(a.previousScore).toBe(40);
+    expect(a.delta).toBe(38);
+    expect(a.previousLevel).toBe("medium");
+
+    const e = transitions.find((t) => t.distinctId === "e")!;
+    expect(e.previousScore).toBeNull();
+    expect(e.previousLevel).toBeNull();
+  });
+
+  it("lists newly critical users and the biggest movers", () => {
+    const { newlyCritical, biggestMovers } = rankMovers(transitions, 10);
+    expect(newlyCritical.map((t) => t.distinctId)).toEqual(["a"]);
+    expect(biggestMovers.map((t) => t.distinctId)).toEqual(["a", "c", "d", "b"]);
+  });
+
+  it("fires alert rules only for watched segments crossing the level", () => {
+    const highRule = { minLevel: "high", segments: ["paid_user"] };
+    expect(matchAlertRule(transitions, highRule).map((t) => t.distinctId)).toEqual(["a"]);
+
+    const allSegments = { minLevel: "high", segments: ["paid_user", "active_user"] };
+    expect(matchAlertRule(transitions, allSegments).map((t) => t.distinctId)).toEqual(["a", "c"]);
+  });
+
+  it("treats nobody as crossing on the first scored day", () => {
+    const firstDay = compareScoreDays([], current);
+    expect(rankMovers(firstDay, 10).newlyCritical).toEqual([]);
+    expect(matchAlertRule(firstDay, { minLevel: "high", segments: ["paid_user", "active_user"] })).toEqual([]);
+  });
+
+  it("validates alert rule targets against the channel", () => {
+    const base = { name: "Paid going critical", channel: "email" as const };
+    expect(churnAlertRuleSchema.safeParse({ ...base, target: "cs@example.com, owner@example.com" }).success).toBe(true);
+    expect(churnAlertRuleSchema.safeParse({ ...base, target: "not-an-email" }).success).toBe(false);
+    expect(churnAlertRuleSchema.safeParse({ ...base, channel: "webhook", target: "cs@example.com" }).success).toBe(false);
+
+    const parsed = churnAlertRuleSchema.parse({ ...base, channel: "webhook", target: "https://hooks.example.com/churn" });
+    expect(parsed.segments).toEqual(["paid_user"]);
+    expect(parsed.minLevel).toBe("high");
+  });
+
+  it("backs off failed alerts and gives up after the last retry", () => {
+    const now = new Date("2025-07-01T04:00:00Z");
+    expect(nextAlertRetryAt(1, now)?.getTime()).toBe(now.getTime() + ALERT_RETRY_DELAYS_MS[0]);
+    expect(nextAlertRetryAt(2, now)?.getTime()).toBe(now.getTime() + ALERT_RETRY_DELAYS_MS[1]);
+    expect(nextAlertRetryAt(ALERT_RETRY_DELAYS_MS.length + 1, now)).toBeNull();
+  });
+});
+
+// ─── 9. Score explanations ────────────────────────────────────────────────────
+
+describe("score explanations", () => {
+  const row = (overrides: Record<string, unknown> = {}) => ({
+    segment: "paid_user",
+    daysSinceLastEvent: 1,
+    daysSinceLastCoreAction: 1,
+    sessionsLast7d: 10,
+    sessionsPrev7d: 10,
+    engagementLast7d: 20,
+    engagementPrev7d: 20,
+    coreActionLast7d: 4,
+    coreActionPrev7d: 4,
+    featureUsedLast7d: 3,
+    featureUsedPrev7d: 3,
+    coreActionCompletionRateLast7d: 0.9,
+    engagementPerCoreActionLast7d: 5,
+    frictionLast7d: 0,
+    paidFrictionLast30d: 0,
+    recencyScore: 0,
+    usageDropScore: 0,
+    engagementQualityScore: 0,
+    frictionScore: 0,
+    featureAdoptionLossScore: 0,
+    ...overrides,
+  });
+
+  const cohort = [
+    row({ sessionsLast7d: 19, sessionsPrev7d: 20 }),
+    row({ sessionsLast7d: 9, sessionsPrev7d: 10, daysSinceLastEvent: 2 }),
+    row({ sessionsLast7d: 10, sessionsPrev7d: 10, daysSinceLastEvent: 3 }),
+    row({ segment: "new_user", sessionsLast7d: 2, sessionsPrev7d: 0, coreActionCompletionRateLast7d: null }),
+  ];
+
+  it("computes medians per segment", () => {
+    const baselines = computeSegmentBaselines(cohort);
+    expect(baselines.paid_user?.users).toBe(3);
+    expect(baselines.paid_user?.sessionsChangePct).toBe(-5);
+    expect(baselines.paid_user?.daysSinceLastEvent).toBe(2);
+    // No previous week and no completion rate to compare against
+    expect(baselines.new_user?.sessionsChangePct).toBeNull();
+    expect(baselines.new_user?.completionRate).toBeNull();
+    expect(baselines.active_user).toBeUndefined();
+  });
+
+  it("explains contributing rules relative to the segment, strongest first", () => {
+    const baselines = computeSegmentBaselines(cohort);
+    const labels = describeChurnModel(DEFAULT_CHURN_MODEL);
+    const explanations = explainChurnScore(
+      row({ sessionsLast7d: 2, sessionsPrev7d: 10, daysSinceLastEvent: 9, daysSinceLastCoreAction: 9, recencyScore: 10, usageDropScore: 25 }),
+      baselines.paid_user,
+      labels
+    );
+
+    expect(explanations.map((e) => e.rule)).toEqual(["usageDrop", "recency"]);
+    expect(explanations[0].text).toBe("Sessions down 80% vs. previous week; typical paid user is down 5%");
+    expect(explanations[1].text).toBe("Last active 9 days ago; typical paid user was last active 2 days ago");
+  });
+
+  it("uses the project's event names and skips rules without points", () => {
+    const labels = describeChurnModel(REPORTING_MODEL);
+    const explanations = explainChurnScore(
+      row({ daysSinceLastCoreAction: null, recencyScore: 15, featureUsedLast7d: 0, featureUsedPrev7d: 0, featureAdoptionLossScore: 5 }),
+      undefined,
+      labels
+    );
+
+    expect(explanations.map((e) => e.text)).toEqual([
+      "Last active 1 day ago",
+      "Has never done report_created",
+      "No dashboard_shared, export_clicked this week",
+    ]);
+  });
+});
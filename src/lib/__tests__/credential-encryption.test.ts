@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import {
+  decryptSecret,
+  encryptSecret,
+  encryptSecretFields,
+  generateMasterKey,
+  isEncryptedSecret,
+  rewrapSecret,
+  storedSecretHint,
+  storedSecretMatches,
+  toPublicProject,
+} from "@/lib/credential-encryption";
+import { PROJECT_SECRET_FIELDS, auditStoredChanges } from "@/lib/audit-log";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const OLD_KEY = `k1:${generateMasterKey()}`;
+const NEW_KEY = `k2:${generateMasterKey()}`;
+const originalKeys = process.env.CREDENTIALS_ENCRYPTION_KEYS;
+
+function useKeys(value: string | undefined) {
+  if (value === undefined) delete process.env.CREDENTIALS_ENCRYPTION_KEYS;
+  else process.env.CREDENTIALS_ENCRYPTION_KEYS = value;
+}
+
+beforeEach(() => {
+  useKeys(OLD_KEY);
+});
+
+afterEach(() => {
+  useKeys(originalKeys);
+});
+
+// ─── 1. Round trip ────────────────────────────────────────────────────────────
+
+describe("encryptSecret / decryptSecret", () => {
+  it("round-trips and never stores the plaintext", () => {
+    const stored = encryptSecret("phx_abcdefghijkl1234");
+
+    expect(isEncryptedSecret(stored)).toBe(true);
+    expect(stored.startsWith("tzenc:v1:k1:")).toBe(true);
+    expect(stored).not.toContain("phx_");
+    expect(decryptSecret(stored)).toBe("phx_abcdefghijkl1234");
+  });
+
+  it("uses a fresh data key for every value", () => {
+    expect(encryptSecret("same")).not.toBe(encryptSecret("same"));
+  });
+
+  it("passes legacy plaintext through and treats empty as unset", () => {
+    expect(decryptSecret("phx_legacy_value")).toBe("phx_legacy_value");
+    expect(decryptSecret("")).toBeNull();
+    expect(decryptSecret(null)).toBeNull();
+  });
+
+  it("rejects tampered ciphertext", () => {
+    const parts = encryptSecret("phx_abcdefghijkl1234").split(":");
+    const ciphertext = Buffer.from(parts[4], "base64url");
+    ciphertext[ciphertext.length - 1] ^= 1;
+    parts[4] = ciphertext.toString("base64url");
+
+    expect(() => decryptSecret(parts.join(":"))).toThrow();
+  });
+
+  it("refuses to store credentials without a key", () => {
+    useKeys(undefined);
+    expect(() => encryptSecret("phx_abc")).toThrow("CREDENTIALS_ENCRYPTION_KEYS is not set");
+  });
+
+  it("rejects keys of the wrong length", () => {
+    useKeys(`k1:${Buffer.alloc(16).toString("base64")}`);
+    expect(() => encryptSecret("phx_abc")).toThrow("must be 32 bytes");
+  });
+});
+
+// ─── 2. Rotation ──────────────────────────────────────────────────────────────
+
+describe("rewrapSecret", () => {
+  it("re-wraps the data key under the new active key and keeps the ciphertext", () => {
+    const stored = encryptSecret("amp_secret_value");
+    useKeys(`${NEW_KEY},${OLD_KEY}`);
+
+    const rewrapped = rewrapSecret(stored)!;
+    expect(rewrapped.split(":")[2]).toBe("k2");
+    expect(rewrapped.split(":")[4]).toBe(stored.split(":")[4]);
+
+    useKeys(NEW_KEY);
+    expect(decryptSecret(rewrapped)).toBe("amp_secret_value");
+    expect(() => decryptSecret(stored)).toThrow('"k1" is not in CREDENTIALS_ENCRYPTION_KEYS');
+  });
+
+  it("encrypts plaintext and leaves current values alone", () => {
+    const encrypted = rewrapSecret("lin_api_token")!;
+    expect(decryptSecret(encrypted)).toBe("lin_api_token");
+    expect(rewrapSecret(encrypted)).toBeNull();
+    expect(rewrapSecret(null)).toBeNull();
+  });
+});
+
+// ─── 3. Hints and audit diffs ─────────────────────────────────────────────────
+
+describe("hints", () => {
+  it("encrypts only the listed fields that are present", () => {
+    const data = encryptSecretFields(
+      { posthogKey: "phx_new_key_9999", mixpanelKey: "", posthogHost: "https://eu.posthog.com" },
+      PROJECT_SECRET_FIELDS
+    );
+
+    expect(decryptSecret(data.posthogKey)).toBe("phx_new_key_9999");
+    expect(data.mixpanelKey).toBeNull();
+    expect(data.posthogHost).toBe("https://eu.posthog.com");
+    expect("amplitudeKey" in data).toBe(false);
+  });
+
+  it("strips secrets from projects sent to the browser", () => {
+    const project = toPublicProject({
+      id: "proj_1",
+      posthogKey: encryptSecret("phx_abcdefghijkl1234"),
+      mixpanelKey: null,
+    });
+
+    expect(project).toEqual({
+      id: "proj_1",
+      credentialHints: { posthogKey: "••••1234", mixpanelKey: null },
+    });
+  });
+
+  it("masks values it can't decrypt instead of failing", () => {
+    const stored = encryptSecret("phx_abcdefghijkl1234");
+    useKeys(NEW_KEY);
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(storedSecretHint(stored)).toBe("••••");
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it("compares stored credentials against plaintext updates", () => {
+    const stored = encryptSecret("phx_old_key_0000");
+
+    expect(storedSecretMatches(stored, "phx_old_key_0000")).toBe(true);
+    expect(storedSecretMatches(null, "")).toBe(true);
+    expect(
+      auditStoredChanges(
+        { posthogKey: stored, posthogHost: "https://us.posthog.com" },
+        { posthogKey: "phx_new_key_9999", posthogHost: "https://us.posthog.com" },
+        ["posthogKey", "posthogHost"],
+        PROJECT_SECRET_FIELDS
+      )
+    ).toEqual({ before: { posthogKey: "••••0000" }, after: { posthogKey: "••••9999" } });
+    expect(
+      auditStoredChanges({ posthogKey: stored }, { posthogKey: "phx_old_key_0000" }, ["posthogKey"], PROJECT_SECRET_FIELDS)
+    ).toBeNull();
+  });
+});
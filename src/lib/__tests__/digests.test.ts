@@ -0,0 +1,244 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+// The local sink listens on loopback, which the real guard refuses
+vi.mock("@/lib/outbound-url", () => ({ assertOutboundUrl: vi.fn(async () => {}) }));
+
+import type { DigestSubscription } from "@prisma/client";
+import {
+  auditedDigestSubscription,
+  digestPeriodStart,
+  isDigestDue,
+  latestDigestSlot,
+  postDigest,
+  selectNewlyCritical,
+  selectTrendingTickets,
+  toSlackMessage,
+  toTeamsMessage,
+  type Digest,
+  type DigestSchedule,
+} from "@/lib/digests";
+import type { ScoreTransition } from "@/lib/churn-scoring/trajectory";
+
+// ─── Local sink standing in for Slack / Teams ─────────────────────────────────
+
+interface SinkRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+let sink: http.Server;
+let sinkUrl: string;
+let received: SinkRequest[] = [];
+let sinkStatus = 200;
+
+beforeAll(async () => {
+  sink = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      received.push({ url: req.url!, headers: req.headers, body: JSON.parse(raw || "{}") });
+      res.writeHead(sinkStatus, { "Content-Type": "text/plain" });
+      res.end(sinkStatus === 200 ? "ok" : "invalid_blocks");
+    });
+  });
+  await new Promise<void>((resolve) => sink.listen(0, "127.0.0.1", resolve));
+  sinkUrl = `http://127.0.0.1:${(sink.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => sink.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+  sinkStatus = 200;
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const ticket = (id: string, title: string, compositeScore: number) => ({
+  id,
+  title,
+  severity: "critical",
+  category: "ux_friction",
+  status: "open",
+  compositeScore,
+  evidenceCount: 4,
+  atRiskUsers: 2,
+  direction: "new" as const,
+  externalKey: null,
+  url: `https://app.example.com/dashboard?projectId=p1&ticket=${id}`,
+});
+
+const digest: Digest = {
+  project: { id: "p1", name: "Acme" },
+  generatedAt: "2026-03-10T09:00:00.000Z",
+  since: "2026-03-09T09:00:00.000Z",
+  topTickets: [ticket("t1", "Checkout <button> unresponsive", 87), ticket("t2", "Slow search", 61)],
+  trendingTickets: [ticket("t3", "Export fails", 55)],
+  churn: {
+    date: "2026-03-10",
+    newlyCritical: [
+      { distinctId: "u1", email: "ana@acme.com", segment: "paid_user", previousLevel: "high", previousScore: 68, riskScore: 82 },
+    ],
+    criticalTotal: 7,
+  },
+  links: { dashboard: "https://app.example.com/dashboard?projectId=p1", churnScores: "https://app.example.com/dashboard/churn-scores" },
+};
+
+// ─── 1. Schedule ──────────────────────────────────────────────────────────────
+
+describe("digest schedule", () => {
+  const daily: DigestSchedule = { frequency: "daily", hourUtc: 9, dayOfWeek: 1 };
+  const weekly: DigestSchedule = { frequency: "weekly", hourUtc: 9, dayOfWeek: 1 }; // Mondays
+  const created = new Date("2026-03-01T00:00:00.000Z");
+
+  it("is due once the scheduled hour passes without a send", () => {
+    expect(isDigestDue(daily, new Date("2026-03-09T09:05:00Z"), created, new Date("2026-03-10T08:59:00Z"))).toBe(false);
+    expect(isDigestDue(daily, new Date("2026-03-09T09:05:00Z"), created, new Date("2026-03-10T09:05:00Z"))).toBe(true);
+    expect(isDigestDue(daily, new Date("2026-03-10T09:05:00Z"), created, new Date("2026-03-10T15:00:00Z"))).toBe(false);
+  });
+
+  it("waits for the first slot after a subscription is created", () => {
+    expect(isDigestDue(daily, null, new Date("2026-03-10T10:00:00Z"), new Date("2026-03-10T11:00:00Z"))).toBe(false);
+    expect(isDigestDue(daily, null, new Date("2026-03-10T10:00:00Z"), new Date("2026-03-11T09:00:00Z"))).toBe(true);
+  });
+
+  it("sends weekly digests on their day and weekday digests Monday to Friday", () => {
+    expect(latestDigestSlot(weekly, new Date("2026-03-12T12:00:00Z"))?.toISOString()).toBe("2026-03-09T09:00:00.000Z");
+    const weekdays: DigestSchedule = { ...daily, frequency: "weekdays" };
+    expect(latestDigestSlot(weekdays, new Date("2026-03-15T12:00:00Z"))?.toISOString()).toBe("2026-03-13T09:00:00.000Z");
+  });
+
+  it("covers the period since the last send", () => {
+    const lastSent = new Date("2026-03-09T09:00:00Z");
+    expect(digestPeriodStart(daily, lastSent)).toBe(lastSent);
+    expect(digestPeriodStart(weekly, null, new Date("2026-03-16T09:00:00Z")).toISOString()).toBe("2026-03-09T09:00:00.000Z");
+  });
+});
+
+// ─── 2. Content ───────────────────────────────────────────────────────────────
+
+describe("digest content", () => {
+  it("picks tickets first seen or rising since the last digest", () => {
+    const since = new Date("2026-03-09T09:00:00Z");
+    const tickets = [
+      { id: "new", compositeScore: 50, trending: { direction: "new", firstSeen: "2026-03-09T12:00:00Z", lastSeen: "2026-03-09T12:00:00Z", weeklyCounts: [3] } },
+      { id: "old-new", compositeScore: 90, trending: { direction: "new", firstSeen: "2026-03-01T12:00:00Z", lastSeen: "2026-03-01T12:00:00Z", weeklyCounts: [3] } },
+      { id: "rising", compositeScore: 70, trending: { direction: "rising", firstSeen: "2026-02-01T00:00:00Z", lastSeen: "2026-03-10T08:00:00Z", weeklyCounts: [2, 5] } },
+      { id: "stable", compositeScore: 80, trending: { direction: "stable", firstSeen: "2026-02-01T00:00:00Z", lastSeen: "2026-03-10T08:00:00Z", weeklyCounts: [5, 5] } },
+      { id: "none", compositeScore: 99, trending: null },
+    ];
+    expect(selectTrendingTickets(tickets, since).map((t) => t.id)).toEqual(["rising", "new"]);
+  });
+
+  it("lists users who crossed into critical, riskiest first", () => {
+    const transition = (distinctId: string, previousLevel: ScoreTransition["previousLevel"], riskLevel: ScoreTransition["riskLevel"], riskScore: number): ScoreTransition => ({
+      distinctId,
+      email: null,
+      segment: "active_user",
+      isPro: false,
+      previousScore: 60,
+      riskScore,
+      delta: riskScore - 60,
+      previousLevel,
+      riskLevel,
+    });
+    const users = selectNewlyCritical([
+      transition("a", "high", "critical", 80),
+      transition("b", "critical", "critical", 95),
+      transition("c", null, "critical", 90),
+      transition("d", "medium", "high", 70),
+    ]);
+    expect(users.map((u) => u.distinctId)).toEqual(["a"]);
+  });
+});
+
+// ─── 3. Rendering ─────────────────────────────────────────────────────────────
+
+describe("toSlackMessage", () => {
+  it("builds Block Kit sections with escaped deep links", () => {
+    const message = toSlackMessage(digest);
+    const texts = message.blocks.map((b) => JSON.stringify(b));
+
+    expect(message.text).toBe("Tranzmit digest — Acme: 2 top tickets, 1 newly trending, 1 newly critical user");
+    expect(message.blocks[0]).toMatchObject({ type: "header" });
+    expect(texts.some((t) => t.includes("<https://app.example.com/dashboard?projectId=p1&ticket=t1|Checkout &lt;button&gt; unresponsive>"))).toBe(true);
+    expect(texts.some((t) => t.includes("ana@acme.com — high (68) → critical (82)"))).toBe(true);
+    expect(texts.some((t) => t.includes("7 users are critical in total"))).toBe(true);
+    expect(message.blocks.at(-1)).toMatchObject({ type: "actions" });
+  });
+
+  it("omits sections the subscription turned off", () => {
+    const message = toSlackMessage({ ...digest, trendingTickets: null, churn: null });
+    const json = JSON.stringify(message.blocks);
+    expect(json).not.toContain("Newly trending");
+    expect(json).not.toContain("churn risk");
+  });
+});
+
+describe("toTeamsMessage", () => {
+  it("wraps an Adaptive Card with open-url actions", () => {
+    const message = toTeamsMessage(digest);
+    const card = message.attachments[0].content;
+
+    expect(message.attachments[0].contentType).toBe("application/vnd.microsoft.card.adaptive");
+    expect(card.actions.map((a) => a.url)).toEqual([digest.links.dashboard, digest.links.churnScores]);
+    expect(JSON.stringify(card.body)).toContain("[Checkout <button> unresponsive](https://app.example.com/dashboard?projectId=p1&ticket=t1)");
+  });
+});
+
+// ─── 4. Delivery ──────────────────────────────────────────────────────────────
+
+describe("postDigest", () => {
+  it("posts the rendered message as JSON", async () => {
+    await postDigest("slack", `${sinkUrl}/services/T000/B000/XXXX`, digest);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe("/services/T000/B000/XXXX");
+    expect(received[0].headers["content-type"]).toBe("application/json");
+    expect(received[0].body.blocks).toBeInstanceOf(Array);
+  });
+
+  it("sends Teams cards to Teams webhooks", async () => {
+    await postDigest("teams", `${sinkUrl}/workflows/abc`, digest);
+    expect(received[0].body.type).toBe("message");
+  });
+
+  it("reports only the status of a rejection, not the response body", async () => {
+    sinkStatus = 400;
+    const error = await postDigest("slack", sinkUrl, digest).catch((err: Error) => err);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toBe("Slack responded 400");
+  });
+});
+
+// ─── 5. Audit ─────────────────────────────────────────────────────────────────
+
+describe("auditedDigestSubscription", () => {
+  it("records the settings with the webhook URL masked", () => {
+    const subscription = {
+      id: "d1",
+      name: "Daily",
+      channel: "slack",
+      webhookUrl: "https://hooks.slack.com/services/T000/B000/abcdWXYZ",
+      enabled: true,
+      frequency: "daily",
+      hourUtc: 9,
+      dayOfWeek: 1,
+      topTickets: 5,
+      includeTrending: true,
+      includeChurn: false,
+    } as DigestSubscription;
+
+    const audited = auditedDigestSubscription(subscription);
+
+    expect(audited).toMatchObject({ name: "Daily", channel: "slack", hourUtc: 9, includeChurn: false });
+    expect(audited.webhookUrl).toBe("••••WXYZ");
+    expect(JSON.stringify(audited)).not.toContain("hooks.slack.com");
+  });
+});
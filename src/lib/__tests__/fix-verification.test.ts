@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import {
+  buildFrustrationPattern,
+  judgeFixVerification,
+  matchesFrustrationPattern,
+  summarizeChurnWindow,
+  summarizeEvidenceWindow,
+  tokenize,
+  type VerificationPeriod,
+} from "@/lib/fix-verification";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function period(
+  sessions: [matched: number, total: number],
+  conversations: [matched: number, total: number] = [0, 0],
+  avgRiskScore: number | null = null,
+): Pick<VerificationPeriod, "sessions" | "conversations" | "churn"> {
+  return {
+    sessions: { matched: sessions[0], total: sessions[1], matchedIds: [] },
+    conversations: { matched: conversations[0], total: conversations[1], matchedIds: [] },
+    churn: { users: avgRiskScore === null ? 0 : 3, avgRiskScore },
+  };
+}
+
+const pattern = ["Checkout button unresponsive on mobile", "Payment form errors are confusing"];
+
+// ─── 1. Pattern matching ──────────────────────────────────────────────────────
+
+describe("frustration pattern matching", () => {
+  it("tokenizes into lowercase keywords without stopwords or plurals", () => {
+    expect(tokenize("Users tapped the Pay buttons multiple times")).toEqual(["tapped", "pay", "button"]);
+  });
+
+  it("matches reworded frustration points that share most keywords", () => {
+    expect(matchesFrustrationPattern(["Mobile checkout button was unresponsive"], pattern)).toBe(true);
+    expect(matchesFrustrationPattern(["Confusing errors on the payment form"], pattern)).toBe(true);
+  });
+
+  it("does not match on a single shared word", () => {
+    expect(matchesFrustrationPattern(["Mobile navigation menu hidden"], pattern)).toBe(false);
+    expect(matchesFrustrationPattern([], pattern)).toBe(false);
+  });
+
+  it("falls back to the ticket title when the evidence has no issues", () => {
+    expect(buildFrustrationPattern([" ", ""], "Slow dashboard load")).toEqual(["Slow dashboard load"]);
+    expect(buildFrustrationPattern(["A", "A", "B"], "title")).toEqual(["A", "B"]);
+  });
+
+  it("counts matching sessions in a window", () => {
+    const window = summarizeEvidenceWindow(
+      [
+        { id: "s1", texts: ["Checkout button unresponsive"] },
+        { id: "s2", texts: ["Search results empty"] },
+        { id: "s3", texts: [] },
+      ],
+      pattern,
+    );
+    expect(window).toEqual({ total: 3, matched: 1, matchedIds: ["s1"] });
+  });
+});
+
+describe("summarizeChurnWindow", () => {
+  it("averages daily risk across the affected users", () => {
+    expect(
+      summarizeChurnWindow([
+        { distinctId: "u1", riskScore: 60 },
+        { distinctId: "u1", riskScore: 70 },
+        { distinctId: "u2", riskScore: 40 },
+      ]),
+    ).toEqual({ users: 2, avgRiskScore: 56.7 });
+    expect(summarizeChurnWindow([])).toEqual({ users: 0, avgRiskScore: null });
+  });
+});
+
+// ─── 2. Verdict ───────────────────────────────────────────────────────────────
+
+describe("judgeFixVerification", () => {
+  it("keeps measuring until the window closes", () => {
+    const result = judgeFixVerification(period([8, 40]), period([0, 20]), false);
+    expect(result.outcome).toBe("measuring");
+    expect(result.beforeRate).toBe(20);
+    expect(result.afterRate).toBe(0);
+  });
+
+  it("verifies a fix when the frustration rate at least halves", () => {
+    const result = judgeFixVerification(period([8, 40], [2, 10], 62), period([1, 30], [0, 10], 55), true);
+    expect(result.outcome).toBe("verified_fixed");
+    expect(result.churnChange).toBe(-7);
+    expect(result.reasons).toContain("Affected users' churn risk -7 pts");
+  });
+
+  it("flags a regression when the rate doesn't drop", () => {
+    expect(judgeFixVerification(period([4, 40]), period([4, 30]), true).outcome).toBe("regressed");
+    expect(judgeFixVerification(period([0, 40]), period([2, 30]), true).outcome).toBe("regressed");
+  });
+
+  it("is inconclusive on thin data, a small drop or rising churn", () => {
+    expect(judgeFixVerification(period([8, 40]), period([0, 3]), true).outcome).toBe("inconclusive");
+    expect(judgeFixVerification(period([10, 40]), period([6, 40]), true).outcome).toBe("inconclusive");
+    expect(judgeFixVerification(period([10, 40], [0, 0], 50), period([1, 40], [0, 0], 60), true).outcome).toBe("inconclusive");
+    expect(judgeFixVerification(period([0, 40]), period([0, 30]), true).outcome).toBe("inconclusive");
+  });
+});
@@ -0,0 +1,247 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import crypto from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import {
+  buildIssueDraft,
+  createJiraIssue,
+  createLinearIssue,
+  parseJiraWebhook,
+  parseLinearWebhook,
+  verifyWebhookSignature,
+  type IssueTrackerConfig,
+  type PushableTicket,
+} from "@/lib/issue-trackers";
+
+// ─── Local mock of the Jira and Linear APIs ───────────────────────────────────
+
+// Jira requests carry `fields`, Linear requests carry `query` + `variables`
+interface RecordedBody {
+  fields: Record<string, unknown> & { description: { type: string } };
+  query: string;
+  variables: { names: string[]; input: Record<string, unknown> & { name: string; description: string } };
+}
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: RecordedBody;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+let jiraRejectsPriority = false;
+const linearLabels = [{ id: "label-tranzmit", name: "tranzmit" }];
+
+function handleJira(req: RecordedRequest, res: http.ServerResponse) {
+  if (req.headers.authorization !== `Basic ${Buffer.from("pm@acme.com:jira-token").toString("base64")}`) {
+    res.writeHead(401).end();
+    return;
+  }
+  if (jiraRejectsPriority && req.body.fields.priority) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ errors: { priority: "Field 'priority' cannot be set." } }));
+    return;
+  }
+  res.writeHead(201, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ id: "10042", key: "WEB-42", self: `${baseUrl}/rest/api/3/issue/10042` }));
+}
+
+function handleLinear(req: RecordedRequest, res: http.ServerResponse) {
+  const { query, variables } = req.body;
+  let data: unknown;
+
+  if (query.includes("issueLabels")) {
+    data = { issueLabels: { nodes: linearLabels.filter((l) => variables.names.includes(l.name)) } };
+  } else if (query.includes("issueLabelCreate")) {
+    data = { issueLabelCreate: { issueLabel: { id: `label-${variables.input.name}` } } };
+  } else {
+    data = {
+      issueCreate: {
+        success: true,
+        issue: {
+          id: "issue-uuid",
+          identifier: "ENG-7",
+          url: "https://linear.app/acme/issue/ENG-7",
+          state: { name: "Backlog", type: "backlog" },
+        },
+      },
+    };
+  }
+
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ data }));
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const recorded = { method: req.method!, url: req.url!, headers: req.headers, body: JSON.parse(raw || "{}") as RecordedBody };
+      requests.push(recorded);
+      if (req.url === "/rest/api/3/issue") handleJira(recorded, res);
+      else if (req.url === "/graphql") handleLinear(recorded, res);
+      else res.writeHead(404).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  jiraRejectsPriority = false;
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const ticket: PushableTicket = {
+  id: "ticket-1",
+  title: "Checkout button unresponsive on mobile",
+  severity: "critical",
+  category: "ux_friction",
+  compositeScore: 87,
+  effort: "low",
+  description: "Users tap Pay repeatedly with no feedback.",
+  recommendation: "Show a loading state and disable the button while the payment submits.",
+  evidence: { sessionIds: ["s1", "s2"], conversationIds: ["c1"], quotes: ["I tapped it five times"] },
+  churnImpact: { atRiskUsers: 3, avgRiskScore: 72, userIds: ["u1", "u2", "u3"] },
+};
+
+const jiraConfig = (): IssueTrackerConfig => ({
+  provider: "jira",
+  baseUrl,
+  email: "pm@acme.com",
+  apiToken: "jira-token",
+  projectKey: "WEB",
+  issueType: null,
+});
+
+const linearConfig = (): IssueTrackerConfig => ({
+  provider: "linear",
+  baseUrl,
+  email: null,
+  apiToken: "lin_api_test",
+  projectKey: "team-1",
+  issueType: null,
+});
+
+// ─── 1. buildIssueDraft ───────────────────────────────────────────────────────
+
+describe("buildIssueDraft", () => {
+  it("maps severity and category to priority and labels", () => {
+    const draft = buildIssueDraft(ticket, "https://app.tranzmit.com/");
+    expect(draft.priority).toBe("urgent");
+    expect(draft.labels).toEqual(["tranzmit", "ux-friction"]);
+    expect(buildIssueDraft({ ...ticket, severity: "medium" }, "https://app.tranzmit.com").priority).toBe("medium");
+  });
+
+  it("links every piece of evidence back to the dashboard", () => {
+    const draft = buildIssueDraft(ticket, "https://app.tranzmit.com/");
+    expect(draft.links.map((l) => l.url)).toEqual([
+      "https://app.tranzmit.com/dashboard/session-insights?highlight=s1",
+      "https://app.tranzmit.com/dashboard/session-insights?highlight=s2",
+      "https://app.tranzmit.com/dashboard/hypotheses?conversationId=c1",
+    ]);
+    expect(draft.sections.find((s) => s.heading === "Impact")?.lines).toContain("3 at-risk user(s) (avg risk: 72)");
+  });
+});
+
+// ─── 2. Jira Cloud ────────────────────────────────────────────────────────────
+
+describe("createJiraIssue", () => {
+  it("creates the issue with priority, labels and an ADF description", async () => {
+    const issue = await createJiraIssue(jiraConfig(), buildIssueDraft(ticket, "https://app.tranzmit.com"));
+
+    expect(issue).toMatchObject({ id: "10042", key: "WEB-42", url: `${baseUrl}/browse/WEB-42` });
+    const { fields } = requests[0].body;
+    expect(fields.project).toEqual({ key: "WEB" });
+    expect(fields.issuetype).toEqual({ name: "Task" });
+    expect(fields.priority).toEqual({ name: "Highest" });
+    expect(fields.labels).toEqual(["tranzmit", "ux-friction"]);
+    expect(fields.description.type).toBe("doc");
+    expect(JSON.stringify(fields.description)).toContain("https://app.tranzmit.com/dashboard/session-insights?highlight=s1");
+  });
+
+  it("retries without priority when the project doesn't allow setting it", async () => {
+    jiraRejectsPriority = true;
+    const issue = await createJiraIssue(jiraConfig(), buildIssueDraft(ticket, "https://app.tranzmit.com"));
+
+    expect(issue.key).toBe("WEB-42");
+    expect(requests).toHaveLength(2);
+    expect(requests[1].body.fields.priority).toBeUndefined();
+  });
+
+  it("reports bad credentials", async () => {
+    await expect(
+      createJiraIssue({ ...jiraConfig(), apiToken: "wrong" }, buildIssueDraft(ticket, "https://app.tranzmit.com"))
+    ).rejects.toThrow("Jira authentication failed");
+  });
+});
+
+// ─── 3. Linear ────────────────────────────────────────────────────────────────
+
+describe("createLinearIssue", () => {
+  it("reuses existing labels, creates missing ones and sets priority", async () => {
+    const issue = await createLinearIssue(linearConfig(), buildIssueDraft(ticket, "https://app.tranzmit.com"));
+
+    expect(issue).toEqual({
+      id: "issue-uuid",
+      key: "ENG-7",
+      url: "https://linear.app/acme/issue/ENG-7",
+      status: "Backlog",
+      statusCategory: "todo",
+    });
+    expect(requests.every((r) => r.headers.authorization === "lin_api_test")).toBe(true);
+
+    const create = requests.find((r) => r.body.query.includes("issueCreate"))!;
+    expect(create.body.variables.input).toMatchObject({
+      teamId: "team-1",
+      priority: 1,
+      labelIds: ["label-tranzmit", "label-ux-friction"],
+    });
+    expect(create.body.variables.input.description).toContain("[Conversation 1](https://app.tranzmit.com/dashboard/hypotheses?conversationId=c1)");
+  });
+});
+
+// ─── 4. Status sync webhooks ──────────────────────────────────────────────────
+
+describe("status sync webhooks", () => {
+  it("maps Jira status categories and won't-do resolutions", () => {
+    const payload = (categoryKey: string, resolution: string | null = null) => ({
+      webhookEvent: "jira:issue_updated",
+      issue: { id: "10042", key: "WEB-42", fields: { status: { name: "Status", statusCategory: { key: categoryKey } }, resolution: resolution ? { name: resolution } : null } },
+    });
+
+    expect(parseJiraWebhook(payload("indeterminate"))?.statusCategory).toBe("in_progress");
+    expect(parseJiraWebhook(payload("done", "Done"))?.statusCategory).toBe("done");
+    expect(parseJiraWebhook(payload("done", "Won't Do"))?.statusCategory).toBe("canceled");
+    expect(parseJiraWebhook({ webhookEvent: "comment_created" })).toBeNull();
+  });
+
+  it("maps Linear workflow state types and ignores other entities", () => {
+    const state = parseLinearWebhook({ type: "Issue", action: "update", data: { id: "issue-uuid", identifier: "ENG-7", state: { name: "Done", type: "completed" } } });
+    expect(state).toEqual({ id: "issue-uuid", key: "ENG-7", status: "Done", statusCategory: "done" });
+    expect(parseLinearWebhook({ type: "Comment", data: { id: "x" } })).toBeNull();
+  });
+
+  it("verifies HMAC signatures in Jira and Linear formats", () => {
+    const body = JSON.stringify({ type: "Issue" });
+    const digest = crypto.createHmac("sha256", "secret").update(body).digest("hex");
+
+    expect(verifyWebhookSignature(body, "secret", digest)).toBe(true);
+    expect(verifyWebhookSignature(body, "secret", `sha256=${digest}`)).toBe(true);
+    expect(verifyWebhookSignature(body, "other", digest)).toBe(false);
+    expect(verifyWebhookSignature(body, "secret", null)).toBe(false);
+  });
+});
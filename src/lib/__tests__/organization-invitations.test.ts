@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  organizationInvitation: { updateMany: vi.fn(), create: vi.fn() },
+  organizationMember: { findMany: vi.fn(), update: vi.fn() },
+}));
+const sendEmail = vi.hoisted(() => vi.fn());
+
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+vi.mock("resend", () => ({
+  Resend: class {
+    emails = { send: sendEmail };
+  },
+}));
+
+import {
+  createInvitation,
+  hashInvitationToken,
+  invitationError,
+  invitationStatus,
+  invitationUrl,
+  memberChangeError,
+  promoteSuccessorOwners,
+  toPublicInvitation,
+} from "@/lib/organization-invitations";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+const LATER = new Date("2026-03-05T12:00:00Z");
+const EARLIER = new Date("2026-02-20T12:00:00Z");
+
+function invitation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "inv_1",
+    organizationId: "org_1",
+    email: "dana@acme.com",
+    role: "member",
+    tokenHash: "hash",
+    invitedById: "user_1",
+    expiresAt: LATER,
+    acceptedAt: null,
+    revokedAt: null,
+    createdAt: EARLIER,
+    updatedAt: EARLIER,
+    ...overrides,
+  } as Parameters<typeof toPublicInvitation>[0];
+}
+
+const INVITER = { id: "user_1", firstName: "Sam", lastName: "Lee", email: "sam@acme.com" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.RESEND_API_KEY = "re_test";
+  db.organizationInvitation.create.mockImplementation(async ({ data }) => invitation(data));
+});
+
+// ─── 1. Invitation status ─────────────────────────────────────────────────────
+
+describe("invitationStatus / invitationError", () => {
+  it("reports pending, expired, accepted and revoked invitations", () => {
+    expect(invitationStatus(invitation(), NOW)).toBe("pending");
+    expect(invitationStatus(invitation({ expiresAt: EARLIER }), NOW)).toBe("expired");
+    expect(invitationStatus(invitation({ acceptedAt: EARLIER }), NOW)).toBe("accepted");
+    expect(invitationStatus(invitation({ revokedAt: EARLIER }), NOW)).toBe("revoked");
+  });
+
+  it("lets the invited address accept regardless of case", () => {
+    expect(invitationError(invitation(), "Dana@Acme.com", NOW)).toBeNull();
+  });
+
+  it("rejects missing, used, revoked, expired and misaddressed invitations", () => {
+    expect(invitationError(null, "dana@acme.com", NOW)?.status).toBe(404);
+    expect(invitationError(invitation({ acceptedAt: EARLIER }), "dana@acme.com", NOW)?.status).toBe(410);
+    expect(invitationError(invitation({ revokedAt: EARLIER }), "dana@acme.com", NOW)?.status).toBe(410);
+    expect(invitationError(invitation({ expiresAt: EARLIER }), "dana@acme.com", NOW)?.status).toBe(410);
+
+    const wrongUser = invitationError(invitation(), "eve@acme.com", NOW);
+    expect(wrongUser?.status).toBe(403);
+    expect(wrongUser?.error).toContain("dana@acme.com");
+  });
+
+  it("never exposes the token hash to the browser", () => {
+    const result = toPublicInvitation({ ...invitation(), invitedBy: INVITER }, NOW);
+    expect(result).not.toHaveProperty("tokenHash");
+    expect(result.invitedBy).toBe("Sam Lee");
+    expect(result.status).toBe("pending");
+  });
+});
+
+// ─── 2. Issuing invitations ───────────────────────────────────────────────────
+
+describe("createInvitation", () => {
+  const params = {
+    organization: { id: "org_1", name: "Acme" },
+    email: "dana@acme.com",
+    role: "member" as const,
+    invitedBy: INVITER,
+    appUrl: "https://app.example.com",
+    now: NOW,
+  };
+
+  it("revokes earlier pending invitations and stores only the token hash", async () => {
+    sendEmail.mockResolvedValue({ data: { id: "email_1" }, error: null });
+
+    const issued = await createInvitation(params);
+
+    expect(db.organizationInvitation.updateMany).toHaveBeenCalledWith({
+      where: { organizationId: "org_1", email: "dana@acme.com", acceptedAt: null, revokedAt: null },
+      data: { revokedAt: NOW },
+    });
+    const token = issued.url.split("/invite/")[1];
+    expect(token).toMatch(/^tzinv_[0-9a-f]{48}$/);
+    expect(issued.url).toBe(invitationUrl("https://app.example.com", token));
+
+    const stored = db.organizationInvitation.create.mock.calls[0][0].data;
+    expect(stored.tokenHash).toBe(hashInvitationToken(token));
+    expect(stored.expiresAt).toEqual(new Date("2026-03-08T12:00:00Z"));
+    expect(issued.emailSent).toBe(true);
+    expect(sendEmail.mock.calls[0][0].to).toBe("dana@acme.com");
+  });
+
+  it("keeps the invitation and returns the link when the email fails", async () => {
+    sendEmail.mockResolvedValue({ data: null, error: { message: "Domain not verified" } });
+
+    const issued = await createInvitation(params);
+
+    expect(db.organizationInvitation.create).toHaveBeenCalledTimes(1);
+    expect(issued.emailSent).toBe(false);
+    expect(issued.emailError).toBe("Domain not verified");
+    expect(issued.url).toContain("/invite/tzinv_");
+  });
+});
+
+// ─── 3. Member changes ────────────────────────────────────────────────────────
+
+describe("memberChangeError", () => {
+  const owner = { userId: "u_owner", role: "owner" };
+  const admin = { userId: "u_admin", role: "admin" };
+  const otherAdmin = { userId: "u_admin2", role: "admin" };
+  const member = { userId: "u_member", role: "member" };
+
+  it("protects the owner until ownership is transferred", () => {
+    expect(memberChangeError(admin, owner, "remove")).toMatch(/transferring ownership/);
+    expect(memberChangeError(owner, owner, "remove")).toMatch(/transferring ownership/);
+    expect(memberChangeError(owner, owner, "role")).toMatch(/transferring ownership/);
+  });
+
+  it("only lets the owner change roles", () => {
+    expect(memberChangeError(owner, member, "role")).toBeNull();
+    expect(memberChangeError(owner, admin, "role")).toBeNull();
+    expect(memberChangeError(admin, member, "role")).toMatch(/Only the owner/);
+    expect(memberChangeError(admin, admin, "role")).toMatch(/your own role/);
+  });
+
+  it("lets admins remove members and leave, but not remove other admins", () => {
+    expect(memberChangeError(admin, member, "remove")).toBeNull();
+    expect(memberChangeError(admin, admin, "remove")).toBeNull();
+    expect(memberChangeError(admin, otherAdmin, "remove")).toMatch(/Only the owner/);
+    expect(memberChangeError(owner, admin, "remove")).toBeNull();
+  });
+});
+
+// ─── 4. Owner succession ──────────────────────────────────────────────────────
+
+describe("promoteSuccessorOwners", () => {
+  it("promotes the longest-standing admin, else the oldest member, and skips empty orgs", async () => {
+    db.organizationMember.findMany
+      .mockResolvedValueOnce([{ organizationId: "org_a" }, { organizationId: "org_b" }, { organizationId: "org_c" }])
+      .mockResolvedValueOnce([
+        { id: "m_1", role: "member" },
+        { id: "m_2", role: "admin" },
+        { id: "m_3", role: "admin" },
+      ])
+      .mockResolvedValueOnce([{ id: "m_4", role: "member" }])
+      .mockResolvedValueOnce([]);
+
+    const promoted = await promoteSuccessorOwners("u_owner");
+
+    expect(promoted).toBe(2);
+    expect(db.organizationMember.update.mock.calls.map((c) => c[0].where.id)).toEqual(["m_2", "m_4"]);
+  });
+});
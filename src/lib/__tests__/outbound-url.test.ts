@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { assertOutboundUrl, isNonPublicAddress, outboundUrlError } from "@/lib/outbound-url";
+
+// ─── 1. Addresses ─────────────────────────────────────────────────────────────
+
+describe("isNonPublicAddress", () => {
+  it("flags loopback, private, link-local and metadata addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.5",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "fd00:ec2::254",
+      "fe80::1",
+      "::ffff:10.0.0.1",
+      "::ffff:7f00:1",
+    ]) {
+      expect(isNonPublicAddress(address), address).toBe(true);
+    }
+  });
+
+  it("allows public addresses", () => {
+    for (const address of ["93.184.216.34", "8.8.8.8", "172.32.0.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"]) {
+      expect(isNonPublicAddress(address), address).toBe(false);
+    }
+  });
+});
+
+// ─── 2. URLs ──────────────────────────────────────────────────────────────────
+
+describe("outboundUrlError", () => {
+  it("accepts http(s) URLs on public addresses", async () => {
+    expect(await outboundUrlError("https://93.184.216.34/hooks")).toBeNull();
+    expect(await outboundUrlError("http://[2606:4700:4700::1111]:8080/hooks")).toBeNull();
+  });
+
+  it("rejects other schemes and unparseable URLs", async () => {
+    expect(await outboundUrlError("ftp://93.184.216.34/")).toBe("URL must be an http(s) URL");
+    expect(await outboundUrlError("not a url")).toBe("URL is not valid");
+  });
+
+  it("rejects hosts that resolve to internal addresses", async () => {
+    expect(await outboundUrlError("http://169.254.169.254/latest/meta-data")).toMatch(/private or reserved/);
+    expect(await outboundUrlError("http://[::1]:3000/")).toMatch(/private or reserved/);
+    expect(await outboundUrlError("http://localhost:3000/")).toMatch(/private or reserved/);
+    expect(await outboundUrlError("http://[::ffff:127.0.0.1]/")).toMatch(/private or reserved/);
+  });
+
+  it("throws from assertOutboundUrl for rejected URLs", async () => {
+    await expect(assertOutboundUrl("http://10.0.0.1/")).rejects.toThrow("10.0.0.1 resolves to a private or reserved address");
+    await expect(assertOutboundUrl("https://93.184.216.34/")).resolves.toBeUndefined();
+  });
+});
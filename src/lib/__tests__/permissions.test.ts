@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  user: { findUnique: vi.fn() },
+  project: { findUnique: vi.fn() },
+  organizationMember: { findUnique: vi.fn() },
+}));
+const clerkAuth = vi.hoisted(() => vi.fn());
+
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+vi.mock("@clerk/nextjs/server", () => ({ auth: clerkAuth, currentUser: vi.fn() }));
+vi.mock("@/lib/sdk-db", () => ({ generateSdkApiKey: vi.fn(), provisionSdkTenant: vi.fn() }));
+
+import {
+  PERMISSIONS,
+  forbiddenResponse,
+  requireProjectPermission,
+  requireRecordPermission,
+  roleHasPermission,
+} from "@/lib/auth";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const USER = { id: "user_1", clerkId: "clerk_1", memberships: [] };
+const PROJECT = { id: "proj_1", organizationId: "org_1", organization: { id: "org_1", name: "Acme" } };
+
+function signInAs(role: string | null) {
+  clerkAuth.mockResolvedValue({ userId: "clerk_1" });
+  db.user.findUnique.mockResolvedValue(USER);
+  db.project.findUnique.mockResolvedValue(PROJECT);
+  db.organizationMember.findUnique.mockResolvedValue(role ? { role } : null);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ─── 1. Role matrix ───────────────────────────────────────────────────────────
+
+describe("roleHasPermission", () => {
+  it("lets members read and write project data but nothing more", () => {
+    expect(roleHasPermission("member", "project:read")).toBe(true);
+    expect(roleHasPermission("member", "project:write")).toBe(true);
+    expect(roleHasPermission("member", "data:delete")).toBe(false);
+    expect(roleHasPermission("member", "outreach:send")).toBe(false);
+    expect(roleHasPermission("member", "settings:manage")).toBe(false);
+  });
+
+  it("lets admins manage settings but not credentials or the project itself", () => {
+    expect(roleHasPermission("admin", "data:delete")).toBe(true);
+    expect(roleHasPermission("admin", "outreach:send")).toBe(true);
+    expect(roleHasPermission("admin", "settings:manage")).toBe(true);
+    expect(roleHasPermission("admin", "credentials:manage")).toBe(false);
+    expect(roleHasPermission("admin", "project:delete")).toBe(false);
+  });
+
+  it("grants owners every permission and unknown roles none", () => {
+    for (const permission of Object.keys(PERMISSIONS) as (keyof typeof PERMISSIONS)[]) {
+      expect(roleHasPermission("owner", permission)).toBe(true);
+      expect(roleHasPermission("viewer", permission)).toBe(false);
+    }
+  });
+});
+
+describe("forbiddenResponse", () => {
+  it("names the permission and the role it needs", async () => {
+    const res = forbiddenResponse("credentials:manage");
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({
+      error: "Forbidden: requires the owner role",
+      permission: "credentials:manage",
+      requiredRole: "owner",
+    });
+  });
+});
+
+// ─── 2. Project guard ─────────────────────────────────────────────────────────
+
+describe("requireProjectPermission", () => {
+  it("returns the access context when the role is high enough", async () => {
+    signInAs("admin");
+
+    const result = await requireProjectPermission("proj_1", "settings:manage");
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.role).toBe("admin");
+      expect(result.project.id).toBe("proj_1");
+      expect(result.user.id).toBe("user_1");
+    }
+  });
+
+  it("rejects a member with 403", async () => {
+    signInAs("member");
+
+    const result = await requireProjectPermission("proj_1", "data:delete");
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.response.status).toBe(403);
+  });
+
+  it("rejects non-members and signed-out users with 401", async () => {
+    signInAs(null);
+    const outsider = await requireProjectPermission("proj_1", "project:read");
+    expect(!outsider.ok && outsider.response.status).toBe(401);
+
+    clerkAuth.mockResolvedValue({ userId: null });
+    const signedOut = await requireProjectPermission("proj_1", "project:read");
+    expect(!signedOut.ok && signedOut.response.status).toBe(401);
+  });
+});
+
+// ─── 3. Record guard ──────────────────────────────────────────────────────────
+
+describe("requireRecordPermission", () => {
+  it("returns the record with the access context", async () => {
+    signInAs("owner");
+    const record = { id: "rule_1", projectId: "proj_1" };
+
+    const result = await requireRecordPermission(record, "settings:manage", "Rule not found");
+
+    expect(result.ok && result.record).toBe(record);
+  });
+
+  it("hides missing records and other projects' records behind the same 404", async () => {
+    signInAs(null);
+
+    for (const record of [null, { projectId: "proj_1" }]) {
+      const result = await requireRecordPermission(record, "project:read", "Rule not found");
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.response.status).toBe(404);
+        expect(await result.response.json()).toEqual({ error: "Rule not found" });
+      }
+    }
+  });
+
+  it("rejects a role that is too low with 403", async () => {
+    signInAs("member");
+
+    const result = await requireRecordPermission({ projectId: "proj_1" }, "settings:manage", "Rule not found");
+
+    expect(!result.ok && result.response.status).toBe(403);
+  });
+});
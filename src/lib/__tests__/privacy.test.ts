@@ -0,0 +1,344 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import zlib from "zlib";
+
+const db = vi.hoisted(() => {
+  const model = () => ({
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    deleteMany: vi.fn(),
+    updateMany: vi.fn(),
+    update: vi.fn(),
+    count: vi.fn(),
+  });
+  const client = {
+    project: model(),
+    session: model(),
+    replayChunk: model(),
+    conversation: model(),
+    cohort: model(),
+    cohortMember: model(),
+    dailyChurnScore: model(),
+    churnAlert: model(),
+    churnedUser: model(),
+    churnedSessionBatch: model(),
+    uploadedUser: model(),
+    interview: model(),
+    interviewInsight: model(),
+    widgetTrigger: model(),
+    webhookDelivery: model(),
+    churnScoringRun: model(),
+    auditLog: { create: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  return client;
+});
+
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+import {
+  DEFAULT_RETENTION_POLICY,
+  applyProjectRetention,
+  applyRetentionPolicies,
+  collectSubjectData,
+  createZip,
+  dataSubjectReference,
+  dataSubjectSchema,
+  eraseDataSubject,
+  resolveDataSubject,
+  resolveRetentionPolicy,
+  scrubWebhookPayload,
+  subjectExportArchive,
+} from "@/lib/privacy";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2026-03-02T10:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+type Model = Record<string, ReturnType<typeof vi.fn>>;
+
+/** File name → contents, read back from local file headers. */
+function readZip(zip: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const size = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const name = zip.subarray(offset + 30, offset + 30 + nameLength).toString("utf8");
+    const start = offset + 30 + nameLength;
+    const data = zlib.inflateRawSync(zip.subarray(start, start + size));
+    expect(zlib.crc32(data)).toBe(zip.readUInt32LE(offset + 14));
+    files[name] = data.toString("utf8");
+    offset = start + size;
+  }
+  return files;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  for (const model of Object.values(db)) {
+    if (typeof model === "function") continue;
+    const m = model as Model;
+    m.findMany?.mockResolvedValue([]);
+    m.deleteMany?.mockResolvedValue({ count: 0 });
+    m.updateMany?.mockResolvedValue({ count: 0 });
+    m.update?.mockResolvedValue({});
+    m.count?.mockResolvedValue(0);
+  }
+  db.auditLog.create.mockResolvedValue({});
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+});
+
+// ─── 1. Retention policy ──────────────────────────────────────────────────────
+
+describe("resolveRetentionPolicy", () => {
+  it("keeps everything but replay chunks by default", () => {
+    expect(resolveRetentionPolicy(null)).toEqual(DEFAULT_RETENTION_POLICY);
+    expect(DEFAULT_RETENTION_POLICY.replayChunks).toBe(35);
+    expect(DEFAULT_RETENTION_POLICY.sessionReplays).toBeNull();
+  });
+
+  it("overrides only the data types that are set", () => {
+    expect(resolveRetentionPolicy({ sessionReplays: 90, replayChunks: null })).toEqual({
+      ...DEFAULT_RETENTION_POLICY,
+      sessionReplays: 90,
+      replayChunks: null,
+    });
+  });
+
+  it("falls back to the defaults for invalid stored values", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(resolveRetentionPolicy({ sessionReplays: 0 })).toEqual(DEFAULT_RETENTION_POLICY);
+    expect(resolveRetentionPolicy({ churnScores: 30.5 })).toEqual(DEFAULT_RETENTION_POLICY);
+    warn.mockRestore();
+  });
+});
+
+// ─── 2. Applying retention ────────────────────────────────────────────────────
+
+describe("applyProjectRetention", () => {
+  it("clears replays and transcripts but deletes contact records", async () => {
+    db.session.updateMany.mockResolvedValue({ count: 4 });
+    db.conversation.updateMany.mockResolvedValue({ count: 2 });
+    db.churnedUser.deleteMany.mockResolvedValue({ count: 1 });
+
+    const result = await applyProjectRetention(
+      "proj_1",
+      { ...DEFAULT_RETENTION_POLICY, sessionReplays: 30, conversations: 60, churnedUsers: 365 },
+      NOW
+    );
+
+    expect(result).toMatchObject({ sessionReplays: 4, conversations: 2, churnedUsers: 1 });
+    expect(db.session.updateMany).toHaveBeenCalledWith({
+      where: { projectId: "proj_1", createdAt: { lt: new Date(NOW.getTime() - 30 * DAY) }, events: { not: null } },
+      data: { events: null },
+    });
+    expect(db.conversation.updateMany.mock.calls[0][0].data).toEqual({
+      transcript: null,
+      participantEmail: null,
+      participantPhone: null,
+    });
+    expect(db.replayChunk.deleteMany).toHaveBeenCalledWith({
+      where: { projectId: "proj_1", createdAt: { lt: new Date(NOW.getTime() - 35 * DAY) } },
+    });
+  });
+
+  it("leaves data types without a window alone", async () => {
+    await applyProjectRetention("proj_1", DEFAULT_RETENTION_POLICY, NOW);
+
+    expect(db.session.updateMany).not.toHaveBeenCalled();
+    expect(db.uploadedUser.deleteMany).not.toHaveBeenCalled();
+    expect(db.dailyChurnScore.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("audits projects that lost data", async () => {
+    db.project.findMany.mockResolvedValue([
+      { id: "proj_1", name: "Acme", organizationId: "org_1", retentionPolicy: null },
+      { id: "proj_2", name: "Quiet", organizationId: "org_1", retentionPolicy: null },
+    ]);
+    db.replayChunk.deleteMany.mockResolvedValueOnce({ count: 12 }).mockResolvedValueOnce({ count: 0 });
+
+    const summary = await applyRetentionPolicies(Date.now() + 60_000, NOW);
+
+    expect(summary.projects).toBe(2);
+    expect(summary.affected.replayChunks).toBe(12);
+    expect(db.auditLog.create).toHaveBeenCalledTimes(1);
+    expect(db.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      projectId: "proj_1",
+      actorType: "system",
+      action: "data.retention_applied",
+    });
+  });
+});
+
+// ─── 3. Erasure ───────────────────────────────────────────────────────────────
+
+describe("dataSubjectSchema / dataSubjectReference", () => {
+  it("needs a distinct ID or an email", () => {
+    expect(dataSubjectSchema.safeParse({}).success).toBe(false);
+    expect(dataSubjectSchema.safeParse({ email: "not-an-email" }).success).toBe(false);
+    expect(dataSubjectSchema.parse({ email: " Sam@Acme.com " })).toEqual({ email: "sam@acme.com" });
+  });
+
+  it("hashes the identifiers instead of storing them", () => {
+    const reference = dataSubjectReference("proj_1", { email: "sam@acme.com" });
+    expect(reference).toMatch(/^[0-9a-f]{64}$/);
+    expect(reference).toBe(dataSubjectReference("proj_1", { email: "SAM@acme.com" }));
+    expect(reference).not.toBe(dataSubjectReference("proj_2", { email: "sam@acme.com" }));
+  });
+});
+
+describe("eraseDataSubject", () => {
+  it("follows an email to the distinct IDs linked to it", async () => {
+    db.churnedUser.findMany.mockResolvedValue([{ email: "Sam@acme.com", posthogDistinctId: "ph_1" }]);
+    db.dailyChurnScore.findMany.mockResolvedValue([{ email: "sam@acme.com", distinctId: "user_42" }]);
+
+    const subject = await resolveDataSubject("proj_1", { email: "sam@acme.com" });
+
+    expect(subject.emails).toEqual(["sam@acme.com"]);
+    expect(subject.distinctIds.sort()).toEqual(["ph_1", "user_42"]);
+  });
+
+  it("deletes every record for the person and reports the counts", async () => {
+    db.dailyChurnScore.findMany.mockResolvedValue([{ email: "sam@acme.com", distinctId: "user_42" }]);
+    db.session.findMany.mockResolvedValue([{ posthogSessionId: "sdk_s1" }, { posthogSessionId: null }]);
+    db.session.deleteMany.mockResolvedValue({ count: 2 });
+    db.replayChunk.deleteMany.mockResolvedValue({ count: 7 });
+    db.widgetTrigger.deleteMany.mockResolvedValue({ count: 1 });
+    db.cohortMember.findMany.mockImplementation(async (args: { distinct?: string[] }) =>
+      args.distinct ? [{ cohortId: "cohort_1" }] : []
+    );
+    db.cohortMember.deleteMany.mockResolvedValue({ count: 1 });
+    db.cohortMember.count.mockResolvedValue(9);
+
+    const report = await eraseDataSubject("proj_1", { distinctId: "user_42" }, NOW);
+
+    expect(report.deleted).toMatchObject({ sessions: 2, replayChunks: 7, cohortMembers: 1, widgetTriggers: 1 });
+    expect(report.subject).toEqual({ distinctIds: ["user_42"], emails: ["sam@acme.com"] });
+    expect(report.erasedAt).toBe(NOW.toISOString());
+    expect(db.replayChunk.deleteMany.mock.calls[0][0].where.OR).toEqual([
+      { distinctId: { in: ["user_42"] } },
+      { sessionId: { in: ["sdk_s1"] } },
+    ]);
+    expect(db.uploadedUser.deleteMany.mock.calls[0][0].where.email).toEqual({
+      in: ["sam@acme.com"],
+      mode: "insensitive",
+    });
+    expect(db.interviewInsight.deleteMany).toHaveBeenCalled();
+    expect(db.cohort.update).toHaveBeenCalledWith({ where: { id: "cohort_1" }, data: { size: 9 } });
+  });
+
+  it("drops the person's entries from CSV batch results", async () => {
+    db.churnedSessionBatch.findMany.mockResolvedValue([
+      {
+        id: "batch_1",
+        emailResults: JSON.stringify([
+          { email: "Sam@acme.com", status: "found" },
+          { email: "kim@acme.com", status: "not_found" },
+        ]),
+      },
+    ]);
+
+    const report = await eraseDataSubject("proj_1", { email: "sam@acme.com" }, NOW);
+
+    expect(report.deleted.churnedSessionBatches).toBe(1);
+    expect(JSON.parse(db.churnedSessionBatch.update.mock.calls[0][0].data.emailResults)).toEqual([
+      { email: "kim@acme.com", status: "not_found" },
+    ]);
+  });
+
+  it("runs with a longer transaction timeout than Prisma's 5s default", async () => {
+    await eraseDataSubject("proj_1", { distinctId: "user_42" }, NOW);
+
+    expect(db.$transaction.mock.calls[0][1]).toMatchObject({ timeout: 60_000 });
+  });
+
+  it("deletes or scrubs webhook deliveries that name the person", async () => {
+    db.webhookDelivery.findMany.mockResolvedValue([
+      { id: "dlv_1", payload: { type: "widget.clicked", data: { trigger: { id: "t1", distinctId: "user_42" } } } },
+      {
+        id: "dlv_2",
+        payload: {
+          type: "churn_score.level_changed",
+          data: { date: "2026-03-01", users: [{ distinctId: "user_42" }, { distinctId: "user_7" }] },
+        },
+      },
+      { id: "dlv_3", payload: { type: "widget.clicked", data: { trigger: { id: "t2", distinctId: "user_7" } } } },
+    ]);
+
+    const report = await eraseDataSubject("proj_1", { distinctId: "user_42" }, NOW);
+
+    expect(report.deleted.webhookDeliveries).toBe(2);
+    expect(db.webhookDelivery.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ["dlv_1"] } } });
+    expect(db.webhookDelivery.update.mock.calls[0][0]).toMatchObject({
+      where: { id: "dlv_2" },
+      data: { payload: { data: { users: [{ distinctId: "user_7" }] } } },
+    });
+  });
+
+  it("clears the checkpoint of unfinished churn scoring runs", async () => {
+    db.churnScoringRun.updateMany.mockResolvedValue({ count: 1 });
+
+    const report = await eraseDataSubject("proj_1", { distinctId: "user_42" }, NOW);
+
+    expect(report.deleted.churnScoringRuns).toBe(1);
+    const { where, data } = db.churnScoringRun.updateMany.mock.calls[0][0];
+    expect(where).toMatchObject({ projectId: "proj_1", status: { not: "completed" } });
+    expect(data).toMatchObject({ cursor: null, exportedMetrics: null, usersScored: 0 });
+  });
+
+  it("matches webhook emails case-insensitively", () => {
+    const bounced = { type: "recovery.email_bounced", data: { user: { id: "u1", email: "Sam@Acme.com" }, emailId: "e1" } };
+    expect(scrubWebhookPayload(bounced, new Set(), new Set(["sam@acme.com"]))).toBe("delete");
+    expect(scrubWebhookPayload(bounced, new Set(), new Set(["kim@acme.com"]))).toBe("keep");
+  });
+});
+
+// ─── 4. Subject access export ─────────────────────────────────────────────────
+
+describe("collectSubjectData / subjectExportArchive", () => {
+  it("writes a zip any unzip tool can read", () => {
+    const zip = createZip([
+      { name: "README.txt", data: "héllo" },
+      { name: "a.json", data: "[1,2,3]" },
+    ]);
+
+    expect(readZip(zip)).toEqual({ "README.txt": "héllo", "a.json": "[1,2,3]" });
+    // End of central directory: two entries
+    expect(zip.readUInt32LE(zip.length - 22)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(zip.length - 12)).toBe(2);
+  });
+
+  it("gathers the person's records with stored JSON parsed", async () => {
+    db.project.findUnique.mockResolvedValue({ name: "Acme" });
+    db.dailyChurnScore.findMany.mockImplementation(async (args: { distinct?: string[] }) =>
+      args.distinct
+        ? [{ email: "sam@acme.com", distinctId: "user_42" }]
+        : [{ date: new Date("2026-03-01"), distinctId: "user_42", riskScore: 80, riskReasons: '["No core action in 9 days"]' }]
+    );
+    db.session.findMany.mockResolvedValue([
+      { id: "s_1", name: "Checkout", analysis: '{"summary":"Stuck on payment"}', metadata: null, multimodalAnalysis: null },
+    ]);
+    db.churnedUser.findMany.mockImplementation(async (args: { select?: unknown }) =>
+      args.select
+        ? []
+        : [{ email: "sam@acme.com", recoveryEmail: '{"subject":"We miss you"}', emailSentAt: NOW, callNotes: "Left voicemail" }]
+    );
+    db.cohortMember.findMany.mockResolvedValue([]);
+
+    const data = await collectSubjectData("proj_1", { email: "sam@acme.com" }, NOW);
+
+    expect(data.subject.distinctIds).toEqual(["user_42"]);
+    expect(data.counts).toMatchObject({ sessions: 1, churnScores: 1, outreach: 1, conversations: 0 });
+    expect(data.sections.sessions[0]).toMatchObject({ analysis: { summary: "Stuck on payment" } });
+    expect(data.sections.churnScores[0]).toMatchObject({ riskReasons: ["No core action in 9 days"] });
+    expect(data.sections.outreach[0]).toMatchObject({ recoveryEmail: { subject: "We miss you" }, callNotes: "Left voicemail" });
+    expect(db.session.findMany.mock.calls[0][0].select.events).toBeUndefined();
+
+    const files = readZip(subjectExportArchive(data));
+    expect(Object.keys(files)).toEqual(expect.arrayContaining(["README.txt", "subject.json", "sessions.json", "outreach.json"]));
+    expect(JSON.parse(files["subject.json"])).toMatchObject({ projectName: "Acme", reference: data.reference });
+    expect(JSON.parse(files["subject.json"]).sections).toBeUndefined();
+    expect(files["README.txt"]).toContain("sam@acme.com");
+  });
+});
@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createHash } from "crypto";
+
+const project = vi.hoisted(() => ({
+  findFirst: vi.fn(),
+  findUnique: vi.fn(),
+  update: vi.fn(async ({ data }: { data: object }) => data),
+  updateMany: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: { project } }));
+
+vi.mock("@/lib/sdk-db", () => ({
+  generateSdkApiKey: () => "eb_live_newkey000000000000000000",
+  migrateSdkTenantKey: vi.fn(async () => true),
+  revokeSdkApiKey: vi.fn(async () => true),
+  rotateSdkTenantKey: vi.fn(async () => true),
+}));
+
+import {
+  expirePreviousApiKey,
+  findProjectByApiKey,
+  hashApiKey,
+  projectApiKeyFields,
+  rotateApiKeySchema,
+  rotateProjectApiKey,
+  toPublicProjectApiKey,
+} from "@/lib/project-api-key";
+import { migrateSdkTenantKey, revokeSdkApiKey, rotateSdkTenantKey } from "@/lib/sdk-db";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2026-03-02T12:00:00.000Z");
+const OLD_KEY = "eb_live_oldkey000000000000000000";
+const NEW_KEY = "eb_live_newkey000000000000000000";
+
+function projectRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "proj_1",
+    name: "Acme",
+    apiKey: null,
+    apiKeyHash: hashApiKey(OLD_KEY),
+    apiKeyPrefix: "eb_live_oldk",
+    apiKeyRotatedAt: null,
+    previousApiKeyHash: null,
+    previousApiKeyExpiresAt: null,
+    ...overrides,
+  };
+}
+
+// ─── 1. Hashing ───────────────────────────────────────────────────────────────
+
+describe("projectApiKeyFields", () => {
+  it("stores the SHA-256 and a 12-character prefix, never the key", () => {
+    const fields = projectApiKeyFields(OLD_KEY);
+    expect(fields).toEqual({
+      apiKeyHash: createHash("sha256").update(OLD_KEY).digest("hex"),
+      apiKeyPrefix: "eb_live_oldk",
+    });
+    expect(JSON.stringify(fields)).not.toContain(OLD_KEY);
+  });
+});
+
+// ─── 2. Lookup ────────────────────────────────────────────────────────────────
+
+describe("findProjectByApiKey", () => {
+  it("matches the current key or a previous key still in its grace period", async () => {
+    project.findFirst.mockResolvedValueOnce({ id: "proj_1" });
+
+    expect(await findProjectByApiKey(OLD_KEY, NOW)).toEqual({ id: "proj_1" });
+    expect(project.findFirst.mock.calls[0][0].where).toEqual({
+      OR: [
+        { apiKeyHash: hashApiKey(OLD_KEY) },
+        { previousApiKeyHash: hashApiKey(OLD_KEY), previousApiKeyExpiresAt: { gt: NOW } },
+      ],
+    });
+    expect(project.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("falls back to legacy plaintext keys", async () => {
+    project.findFirst.mockResolvedValueOnce(null);
+    project.findUnique.mockResolvedValueOnce({ id: "legacy" });
+
+    expect(await findProjectByApiKey("tranzmit_legacy", NOW)).toEqual({ id: "legacy" });
+    expect(project.findUnique).toHaveBeenCalledWith({ where: { apiKey: "tranzmit_legacy" } });
+  });
+});
+
+describe("toPublicProjectApiKey", () => {
+  it("hides a previous key whose grace period is over", () => {
+    const inGrace = toPublicProjectApiKey(
+      projectRow({ previousApiKeyHash: "h", previousApiKeyExpiresAt: new Date("2026-03-03T00:00:00Z") }),
+      NOW,
+    );
+    expect(inGrace).toEqual({
+      prefix: "eb_live_oldk",
+      rotatedAt: null,
+      previousKeyExpiresAt: new Date("2026-03-03T00:00:00Z"),
+    });
+
+    const expired = toPublicProjectApiKey(
+      projectRow({ previousApiKeyHash: "h", previousApiKeyExpiresAt: new Date("2026-03-01T00:00:00Z") }),
+      NOW,
+    );
+    expect(expired.previousKeyExpiresAt).toBeNull();
+  });
+});
+
+// ─── 3. Rotation ──────────────────────────────────────────────────────────────
+
+describe("rotateProjectApiKey", () => {
+  it("keeps the current key working for the grace period", async () => {
+    const { key, project: updated } = await rotateProjectApiKey(projectRow(), 24, NOW);
+
+    expect(key).toBe(NEW_KEY);
+    expect(updated).toMatchObject({
+      apiKeyHash: hashApiKey(NEW_KEY),
+      apiKeyPrefix: "eb_live_newk",
+      apiKeyRotatedAt: NOW,
+      previousApiKeyHash: hashApiKey(OLD_KEY),
+      previousApiKeyExpiresAt: new Date("2026-03-03T12:00:00.000Z"),
+    });
+    expect(rotateSdkTenantKey).toHaveBeenCalledWith({
+      name: "Acme",
+      previousKeyHash: hashApiKey(OLD_KEY),
+      keyHash: hashApiKey(NEW_KEY),
+      keyPrefix: "eb_live_newk",
+    });
+    expect(revokeSdkApiKey).not.toHaveBeenCalled();
+  });
+
+  it("revokes the current key immediately with no grace period", async () => {
+    const { project: updated } = await rotateProjectApiKey(projectRow(), 0, NOW);
+
+    expect(updated).toMatchObject({ previousApiKeyHash: null, previousApiKeyExpiresAt: null });
+    expect(revokeSdkApiKey).toHaveBeenCalledWith(hashApiKey(OLD_KEY));
+  });
+
+  it("drops a key that was still in an earlier grace period", async () => {
+    await rotateProjectApiKey(projectRow({ previousApiKeyHash: "older" }), 24, NOW);
+    expect(revokeSdkApiKey).toHaveBeenCalledWith("older");
+  });
+
+  it("hashes a legacy plaintext key in the SDK database before rotating it", async () => {
+    const { project: updated } = await rotateProjectApiKey(
+      projectRow({ apiKey: "tranzmit_legacy", apiKeyHash: null, apiKeyPrefix: null }),
+      24,
+      NOW,
+    );
+
+    expect(updated).toMatchObject({ apiKey: null, previousApiKeyHash: hashApiKey("tranzmit_legacy") });
+    expect(migrateSdkTenantKey).toHaveBeenCalledWith("tranzmit_legacy", hashApiKey("tranzmit_legacy"));
+    expect(vi.mocked(rotateSdkTenantKey).mock.calls[0][0].previousKeyHash).toBe(hashApiKey("tranzmit_legacy"));
+  });
+});
+
+describe("expirePreviousApiKey", () => {
+  it("clears the previous key only if it hasn't been replaced meanwhile", async () => {
+    await expirePreviousApiKey({ id: "proj_1", previousApiKeyHash: "h" });
+
+    expect(revokeSdkApiKey).toHaveBeenCalledWith("h");
+    expect(project.updateMany).toHaveBeenCalledWith({
+      where: { id: "proj_1", previousApiKeyHash: "h" },
+      data: { previousApiKeyHash: null, previousApiKeyExpiresAt: null },
+    });
+  });
+});
+
+describe("rotateApiKeySchema", () => {
+  it("defaults to a 24 hour grace period and caps it at 30 days", () => {
+    expect(rotateApiKeySchema.parse({})).toEqual({ graceHours: 24 });
+    expect(rotateApiKeySchema.safeParse({ graceHours: 721 }).success).toBe(false);
+    expect(rotateApiKeySchema.safeParse({ graceHours: -1 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import type { ApiKey, Ticket } from "@prisma/client";
+
+const updateMany = vi.fn();
+const findUnique = vi.fn();
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    apiKey: {
+      updateMany: (...args: unknown[]) => updateMany(...args),
+      findUnique: (...args: unknown[]) => findUnique(...args),
+    },
+  },
+}));
+
+import {
+  apiKeyFields,
+  apiKeySchema,
+  consumeRateLimit,
+  pageArgs,
+  parsePageParams,
+  rateLimitHeaders,
+  rateLimitWindow,
+  readApiKey,
+  toApiTicket,
+  toPage,
+  toPublicApiKey,
+} from "@/lib/public-api";
+
+beforeEach(() => {
+  updateMany.mockReset();
+  findUnique.mockReset();
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2026-03-02T10:15:42.500Z");
+const WINDOW_START = new Date("2026-03-02T10:15:00.000Z");
+
+function keyRow(overrides: Partial<ApiKey> = {}): ApiKey {
+  return {
+    id: "key_1",
+    projectId: "proj_1",
+    name: "Warehouse",
+    keyHash: "5f2b9c0e8a7d6c4b3a29180f7e6d5c4b3a29180f7e6d5c4b3a29180f7e6d5c4b",
+    prefix: "tzk_live_012",
+    scopes: ["read"],
+    rateLimitPerMinute: 5,
+    createdById: null,
+    lastUsedAt: null,
+    revokedAt: null,
+    windowStart: null,
+    windowCount: 0,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function request(headers: Record<string, string>): NextRequest {
+  return new NextRequest("http://localhost/api/v1/tickets", { headers });
+}
+
+// ─── 1. Rate limiting ─────────────────────────────────────────────────────────
+
+describe("rateLimitWindow", () => {
+  it("snaps to the start of the minute", () => {
+    const { start, resetAt } = rateLimitWindow(NOW);
+    expect(start).toEqual(WINDOW_START);
+    expect(resetAt).toEqual(new Date("2026-03-02T10:16:00.000Z"));
+  });
+});
+
+describe("consumeRateLimit", () => {
+  it("counts the request within the current window", async () => {
+    updateMany.mockResolvedValueOnce({ count: 1 });
+
+    const result = await consumeRateLimit(keyRow({ windowStart: WINDOW_START, windowCount: 2 }), NOW);
+
+    expect(result).toMatchObject({ allowed: true, limit: 5, remaining: 2 });
+    expect(updateMany).toHaveBeenCalledTimes(1);
+    expect(updateMany.mock.calls[0][0].where).toEqual({
+      id: "key_1",
+      windowStart: WINDOW_START,
+      windowCount: { lt: 5 },
+    });
+  });
+
+  it("opens a new window when the stored one has expired", async () => {
+    updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+    const result = await consumeRateLimit(
+      keyRow({ windowStart: new Date("2026-03-02T10:14:00.000Z"), windowCount: 5 }),
+      NOW,
+    );
+
+    expect(result).toMatchObject({ allowed: true, remaining: 4 });
+    expect(updateMany.mock.calls[1][0].data).toMatchObject({ windowStart: WINDOW_START, windowCount: 1 });
+  });
+
+  it("counts against a window another request opened concurrently", async () => {
+    updateMany
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 });
+    findUnique.mockResolvedValueOnce({ windowCount: 2 });
+
+    const result = await consumeRateLimit(keyRow(), NOW);
+
+    expect(result).toMatchObject({ allowed: true, remaining: 3 });
+    expect(updateMany).toHaveBeenCalledTimes(3);
+  });
+
+  it("denies once the window is full", async () => {
+    updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await consumeRateLimit(keyRow({ windowStart: WINDOW_START, windowCount: 5 }), NOW);
+
+    expect(result).toEqual({ allowed: false, limit: 5, remaining: 0, resetAt: new Date("2026-03-02T10:16:00.000Z") });
+  });
+
+  it("reports the reset time in epoch seconds", () => {
+    const headers = rateLimitHeaders({ allowed: true, limit: 5, remaining: 4, resetAt: new Date(1_700_000_060_000) });
+    expect(headers).toEqual({
+      "X-RateLimit-Limit": "5",
+      "X-RateLimit-Remaining": "4",
+      "X-RateLimit-Reset": "1700000060",
+    });
+  });
+});
+
+// ─── 2. Keys ──────────────────────────────────────────────────────────────────
+
+describe("readApiKey", () => {
+  it("prefers the bearer token", () => {
+    expect(readApiKey(request({ authorization: "Bearer tzk_live_abc", "x-tranzmit-api-key": "other" }))).toBe(
+      "tzk_live_abc",
+    );
+  });
+
+  it("falls back to the SDK header", () => {
+    expect(readApiKey(request({ "x-tranzmit-api-key": "tzk_live_abc" }))).toBe("tzk_live_abc");
+    expect(readApiKey(request({}))).toBeNull();
+  });
+});
+
+describe("apiKeySchema", () => {
+  it("defaults the rate limit and rejects keys without scopes", () => {
+    const parsed = apiKeySchema.safeParse({ name: " Warehouse ", scopes: ["read"] });
+    expect(parsed.success && parsed.data).toEqual({ name: "Warehouse", scopes: ["read"], rateLimitPerMinute: 60 });
+
+    expect(apiKeySchema.safeParse({ name: "Warehouse", scopes: [] }).success).toBe(false);
+    expect(apiKeySchema.safeParse({ name: "Warehouse", scopes: ["admin"] }).success).toBe(false);
+  });
+});
+
+describe("toPublicApiKey", () => {
+  it("never returns the key hash", () => {
+    const key = toPublicApiKey(keyRow());
+    expect(key.keyHint).toBe("tzk_live_012…");
+    expect(JSON.stringify(key)).not.toContain("5f2b9c0e");
+  });
+});
+
+describe("apiKeyFields", () => {
+  it("stores the SHA-256 and a display prefix, not the key", () => {
+    const secret = "tzk_live_0123456789abcdef0123456789abcdef01234567";
+    const fields = apiKeyFields(secret);
+    expect(fields).toEqual({ keyHash: expect.stringMatching(/^[0-9a-f]{64}$/), prefix: "tzk_live_012" });
+    expect(JSON.stringify(fields)).not.toContain("0123456789abcdef");
+  });
+});
+
+// ─── 3. Pagination ────────────────────────────────────────────────────────────
+
+describe("parsePageParams", () => {
+  it("applies defaults", () => {
+    expect(parsePageParams(new URLSearchParams())).toEqual({
+      ok: true,
+      params: { limit: 50, cursor: null, updatedSince: null },
+    });
+  });
+
+  it("rejects out-of-range limits and bad timestamps", () => {
+    expect(parsePageParams(new URLSearchParams("limit=0")).ok).toBe(false);
+    expect(parsePageParams(new URLSearchParams("limit=201")).ok).toBe(false);
+    expect(parsePageParams(new URLSearchParams("limit=2.5")).ok).toBe(false);
+    expect(parsePageParams(new URLSearchParams("updated_since=yesterday")).ok).toBe(false);
+  });
+
+  it("builds cursor args and the next cursor from the extra row", () => {
+    const parsed = parsePageParams(new URLSearchParams("limit=2&cursor=b"));
+    if (!parsed.ok) throw new Error(parsed.error);
+    expect(pageArgs(parsed.params)).toEqual({ take: 3, cursor: { id: "b" }, skip: 1 });
+
+    expect(toPage([{ id: "c" }, { id: "d" }, { id: "e" }], 2)).toEqual({
+      data: [{ id: "c" }, { id: "d" }],
+      nextCursor: "d",
+    });
+    expect(toPage([{ id: "c" }], 2).nextCursor).toBeNull();
+  });
+});
+
+// ─── 4. Serializers ───────────────────────────────────────────────────────────
+
+describe("toApiTicket", () => {
+  it("normalizes legacy statuses and groups tracker fields", () => {
+    const ticket = toApiTicket({
+      id: "t1",
+      status: "pushed",
+      externalProvider: "linear",
+      externalKey: "ENG-12",
+      externalUrl: "https://linear.app/acme/issue/ENG-12",
+      externalStatus: "In Progress",
+      verification: { outcome: "measuring" },
+    } as unknown as Ticket);
+
+    expect(ticket.status).toBe("triaged");
+    expect(ticket.verificationOutcome).toBe("measuring");
+    expect(ticket.external).toEqual({
+      provider: "linear",
+      key: "ENG-12",
+      url: "https://linear.app/acme/issue/ENG-12",
+      status: "In Progress",
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const replayChunk = vi.hoisted(() => ({
+  findMany: vi.fn(),
+  updateMany: vi.fn(async () => ({ count: 2 })),
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: { replayChunk } }));
+
+import { assembleReplayEvents, stitchReplayIdentity, streamReplayChunks } from "@/lib/replay-assembler";
+import { compressChunkEvents } from "@/lib/replay-encoding";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ─── 1. Assembly ──────────────────────────────────────────────────────────────
+
+describe("assembleReplayEvents", () => {
+  it("joins chunks in timestamp order and skips malformed ones", async () => {
+    replayChunk.findMany.mockResolvedValueOnce([
+      { chunkIndex: 0, events: JSON.stringify([{ type: 4, timestamp: 300 }]), payload: null },
+      { chunkIndex: 1, events: "not json", payload: null },
+      { chunkIndex: 2, events: null, payload: compressChunkEvents([{ type: 2, timestamp: 100 }, { type: 3, timestamp: 200 }]) },
+    ]);
+
+    const events = await assembleReplayEvents("p1", "tr_abc");
+
+    expect(events.map((e) => (e as { timestamp: number }).timestamp)).toEqual([100, 200, 300]);
+  });
+
+  it("loads chunks a page at a time", async () => {
+    const chunk = (chunkIndex: number) => ({
+      chunkIndex,
+      events: null,
+      payload: compressChunkEvents([{ type: 3, timestamp: chunkIndex }]),
+    });
+    replayChunk.findMany
+      .mockResolvedValueOnce(Array.from({ length: 10 }, (_, i) => chunk(i)))
+      .mockResolvedValueOnce([chunk(10), chunk(11)]);
+
+    const indices: number[] = [];
+    for await (const chunk of streamReplayChunks("p1", "tr_abc")) indices.push(chunk.chunkIndex);
+
+    expect(indices).toEqual(Array.from({ length: 12 }, (_, i) => i));
+    expect(replayChunk.findMany).toHaveBeenCalledTimes(2);
+    expect(replayChunk.findMany.mock.calls[1][0]).toMatchObject({
+      where: { projectId: "p1", sessionId: "tr_abc", chunkIndex: { gt: 9 } },
+      take: 10,
+    });
+  });
+});
+
+// ─── 2. Identity stitching ────────────────────────────────────────────────────
+
+describe("stitchReplayIdentity", () => {
+  it("moves anonymous chunks to the identified user", async () => {
+    const count = await stitchReplayIdentity("p1", "tr_abc", "user-42", null);
+
+    expect(count).toBe(2);
+    expect(replayChunk.updateMany).toHaveBeenCalledWith({
+      where: { projectId: "p1", sessionId: "tr_abc", OR: [{ distinctId: null }] },
+      data: { distinctId: "user-42" },
+    });
+  });
+
+  it("also moves chunks recorded under the previous distinct ID", async () => {
+    await stitchReplayIdentity("p1", "tr_abc", "user-42", "anon-7");
+
+    expect(replayChunk.updateMany).toHaveBeenCalledWith({
+      where: { projectId: "p1", sessionId: "tr_abc", OR: [{ distinctId: null }, { distinctId: "anon-7" }] },
+      data: { distinctId: "user-42" },
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import zlib from "zlib";
+import {
+  MAX_BODY_SIZE,
+  MAX_DECODED_SIZE,
+  compressChunkEvents,
+  decodeEvents,
+  decodeReplayBody,
+  readChunkEvents,
+} from "@/lib/replay-encoding";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const BODY = { sessionId: "tr_abc", chunkIndex: 0, events: [{ type: 2, timestamp: 100, data: {} }] };
+const json = () => Buffer.from(JSON.stringify(BODY));
+
+// ─── 1. Request bodies ────────────────────────────────────────────────────────
+
+describe("decodeReplayBody", () => {
+  it("parses a plain JSON body", () => {
+    expect(decodeReplayBody(json(), null)).toEqual({ ok: true, body: BODY });
+  });
+
+  it("decompresses gzip and deflate declared in Content-Encoding", () => {
+    expect(decodeReplayBody(zlib.gzipSync(json()), "gzip")).toEqual({ ok: true, body: BODY });
+    expect(decodeReplayBody(zlib.deflateSync(json()), "deflate")).toEqual({ ok: true, body: BODY });
+    expect(decodeReplayBody(zlib.deflateRawSync(json()), "deflate")).toEqual({ ok: true, body: BODY });
+  });
+
+  it("detects compression without a Content-Encoding header, as sendBeacon sends it", () => {
+    expect(decodeReplayBody(zlib.gzipSync(json()), null)).toEqual({ ok: true, body: BODY });
+    expect(decodeReplayBody(zlib.deflateSync(json()), "identity")).toEqual({ ok: true, body: BODY });
+  });
+
+  it("rejects bodies over the wire limit", () => {
+    const result = decodeReplayBody(Buffer.alloc(MAX_BODY_SIZE + 1), null);
+    expect(result).toMatchObject({ ok: false, status: 413 });
+  });
+
+  it("rejects bodies that decompress past the decoded limit", () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(MAX_DECODED_SIZE + 1, 0x20));
+    expect(bomb.length).toBeLessThan(MAX_BODY_SIZE);
+
+    const result = decodeReplayBody(bomb, "gzip");
+
+    expect(result).toMatchObject({ ok: false, status: 413 });
+  });
+
+  it("rejects unsupported encodings, corrupt compression and invalid JSON", () => {
+    expect(decodeReplayBody(json(), "br")).toMatchObject({ ok: false, status: 415 });
+    expect(decodeReplayBody(Buffer.from("not gzip"), "gzip")).toMatchObject({ ok: false, status: 400 });
+    expect(decodeReplayBody(Buffer.from("{nope"), null)).toMatchObject({ ok: false, status: 400 });
+  });
+});
+
+// ─── 2. Events ────────────────────────────────────────────────────────────────
+
+describe("decodeEvents", () => {
+  it("parses JSON strings, flattens batches and decompresses cv events", () => {
+    const data = { source: 2, type: 2, id: 7 };
+    const result = decodeEvents([
+      JSON.stringify({ type: 4, timestamp: 1 }),
+      [{ type: 3, timestamp: 2 }, JSON.stringify([{ type: 3, timestamp: 3 }])],
+      { type: 3, timestamp: 4, cv: "2024-10", data: zlib.gzipSync(JSON.stringify(data)).toString("base64") },
+    ]);
+
+    expect(result).toEqual({ ok: true, events: [
+      { type: 4, timestamp: 1 },
+      { type: 3, timestamp: 2 },
+      { type: 3, timestamp: 3 },
+      { type: 3, timestamp: 4, data },
+    ] });
+  });
+
+  it("drops events that can't be decoded", () => {
+    expect(decodeEvents(["{bad", null, 42, { type: 3, timestamp: 1, cv: "x", data: "not base64 gzip" }])).toEqual({
+      ok: true,
+      events: [],
+    });
+  });
+
+  it("limits decompressed output across all events, not per event", () => {
+    // Each event alone is under the limit; together they're past it
+    const perEvent = Math.floor(MAX_DECODED_SIZE / 3) + 1;
+    const data = zlib.gzipSync(JSON.stringify("x".repeat(perEvent))).toString("base64");
+    const event = (timestamp: number) => ({ type: 3, timestamp, cv: "2024-10", data });
+
+    expect(decodeEvents([event(1), event(2)])).toMatchObject({ ok: true });
+    expect(decodeEvents([event(1), [event(2)], JSON.stringify(event(3))])).toMatchObject({ ok: false, status: 413 });
+  });
+});
+
+// ─── 3. Storage ───────────────────────────────────────────────────────────────
+
+describe("chunk storage", () => {
+  it("round-trips compressed payloads and reads legacy text rows", () => {
+    const events = [{ type: 2, timestamp: 100, data: { node: { id: 1 } } }];
+    const payload = compressChunkEvents(events);
+
+    expect(readChunkEvents({ events: null, payload })).toEqual(events);
+    expect(readChunkEvents({ events: JSON.stringify(events), payload: null })).toEqual(events);
+  });
+
+  it("returns no events for unreadable chunks", () => {
+    expect(readChunkEvents({ events: "oops", payload: null })).toEqual([]);
+    expect(readChunkEvents({ events: null, payload: Buffer.from("oops") })).toEqual([]);
+    expect(readChunkEvents({ events: null, payload: null })).toEqual([]);
+  });
+});
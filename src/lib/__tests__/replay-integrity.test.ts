@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkReplayIntegrity,
+  describeReplayIntegrity,
+  mergeReplayIntegrity,
+  readReplayIntegrity,
+} from "@/lib/replay-integrity";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const snapshot = (timestamp: number) => ({ type: 2, timestamp, data: {} });
+const incremental = (timestamp: number) => ({ type: 3, timestamp, data: {} });
+
+// ─── 1. Checks ────────────────────────────────────────────────────────────────
+
+describe("checkReplayIntegrity", () => {
+  it("reports a complete recording as ok", () => {
+    const report = checkReplayIntegrity([
+      { chunkIndex: 0, events: [snapshot(1_000), incremental(2_000)] },
+      { chunkIndex: 1, events: [incremental(3_000)] },
+    ]);
+
+    expect(report).toMatchObject({
+      status: "ok",
+      chunkCount: 2,
+      missingChunkIndices: [],
+      unreadableChunkIndices: [],
+      hasFullSnapshot: true,
+      timestampRegressions: 0,
+    });
+    expect(describeReplayIntegrity(report)).toEqual([]);
+  });
+
+  it("finds missing and unreadable chunks, including lost leading chunks", () => {
+    const report = checkReplayIntegrity([
+      { chunkIndex: 1, events: [snapshot(1_000)] },
+      { chunkIndex: 2, events: [] },
+      { chunkIndex: 4, events: [incremental(5_000)] },
+    ]);
+
+    expect(report.status).toBe("degraded");
+    expect(report.missingChunkIndices).toEqual([0, 3]);
+    expect(report.unreadableChunkIndices).toEqual([2]);
+    expect(report.lastChunkIndex).toBe(4);
+  });
+
+  it("flags a recording without a FullSnapshot", () => {
+    const report = checkReplayIntegrity([{ chunkIndex: 0, events: [incremental(1_000)] }]);
+
+    expect(report.status).toBe("degraded");
+    expect(report.hasFullSnapshot).toBe(false);
+  });
+
+  it("counts timestamp regressions beyond the jitter tolerance", () => {
+    const report = checkReplayIntegrity([
+      { chunkIndex: 0, events: [snapshot(10_000), incremental(20_000), incremental(19_500)] },
+      { chunkIndex: 1, events: [incremental(8_000), incremental(21_000)] },
+    ]);
+
+    expect(report.timestampRegressions).toBe(1);
+    expect(report.maxRegressionMs).toBe(12_000);
+  });
+
+  it("starts numbering at the first chunk given when firstChunkIndex is null", () => {
+    const report = checkReplayIntegrity([{ chunkIndex: 5, events: [incremental(1_000)] }], null);
+
+    expect(report.missingChunkIndices).toEqual([]);
+    expect(report.firstChunkIndex).toBe(5);
+  });
+});
+
+// ─── 2. Merging & reading ─────────────────────────────────────────────────────
+
+describe("mergeReplayIntegrity", () => {
+  it("combines an earlier report with late chunks", () => {
+    const first = checkReplayIntegrity([
+      { chunkIndex: 0, events: [snapshot(1_000)] },
+      { chunkIndex: 1, events: [incremental(2_000)] },
+    ]);
+    const late = checkReplayIntegrity([{ chunkIndex: 3, events: [incremental(4_000)] }], 2);
+
+    const merged = mergeReplayIntegrity(first, late);
+
+    expect(merged).toMatchObject({
+      status: "degraded",
+      chunkCount: 3,
+      firstChunkIndex: 0,
+      lastChunkIndex: 3,
+      missingChunkIndices: [2],
+      hasFullSnapshot: true,
+    });
+    expect(describeReplayIntegrity(merged)).toEqual(["1 of 4 recording chunks never arrived (chunk 2)."]);
+  });
+
+  it("reads a stored report from session metadata", () => {
+    const report = checkReplayIntegrity([{ chunkIndex: 0, events: [snapshot(1_000)] }]);
+
+    expect(readReplayIntegrity({ replayIntegrity: report })).toEqual(report);
+    expect(readReplayIntegrity({ replayIntegrity: { nope: true } })).toBeNull();
+    expect(readReplayIntegrity(null)).toBeNull();
+  });
+});
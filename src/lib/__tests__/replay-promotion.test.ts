@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { replayChunk, session, analyzeSession } = vi.hoisted(() => ({
+  replayChunk: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    groupBy: vi.fn(),
+    deleteMany: vi.fn(async () => ({ count: 0 })),
+  },
+  session: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  analyzeSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { replayChunk, session, $transaction: (ops: Promise<unknown>[]) => Promise.all(ops) },
+}));
+vi.mock("@/lib/session-analysis", () => ({ analyzeSession }));
+
+import {
+  DEFAULT_REPLAY_PROMOTION,
+  promoteProjectReplays,
+  promoteReplaySession,
+  resolveReplayPromotion,
+} from "@/lib/replay-promotion";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const chunkRow = (chunkIndex: number, timestamps: number[]) => ({
+  chunkIndex,
+  events: JSON.stringify(timestamps.map((timestamp) => ({ type: 3, timestamp }))),
+  payload: null,
+});
+
+const NOW = new Date("2026-01-01T12:00:00Z");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  session.findUnique.mockResolvedValue(null);
+  session.create.mockResolvedValue({ id: "s1" });
+  session.update.mockResolvedValue({ id: "s1" });
+  replayChunk.findFirst.mockResolvedValue({ distinctId: "user-42" });
+});
+
+// ─── 1. Settings ──────────────────────────────────────────────────────────────
+
+describe("resolveReplayPromotion", () => {
+  it("merges stored fields over the defaults and ignores invalid values", () => {
+    expect(resolveReplayPromotion(null)).toEqual(DEFAULT_REPLAY_PROMOTION);
+    expect(resolveReplayPromotion({ autoAnalyze: true })).toEqual({ ...DEFAULT_REPLAY_PROMOTION, autoAnalyze: true });
+    expect(resolveReplayPromotion({ idleMinutes: 1 })).toEqual(DEFAULT_REPLAY_PROMOTION);
+  });
+});
+
+// ─── 2. Promotion ─────────────────────────────────────────────────────────────
+
+describe("promoteReplaySession", () => {
+  it("creates an sdk session from the chunks and deletes them", async () => {
+    replayChunk.findMany.mockResolvedValueOnce([chunkRow(0, [1_000, 3_000]), chunkRow(1, [61_000])]);
+
+    const outcome = await promoteReplaySession("p1", "tr_abc", 1, 2);
+
+    expect(outcome).toBe("promoted");
+    expect(session.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        projectId: "p1",
+        source: "sdk",
+        posthogSessionId: "tr_abc",
+        distinctId: "user-42",
+        duration: 60,
+        eventCount: 3,
+        analysisStatus: "pending",
+      }),
+    });
+    expect(replayChunk.deleteMany).toHaveBeenCalledWith({
+      where: { projectId: "p1", sessionId: "tr_abc", chunkIndex: { lte: 1 } },
+    });
+  });
+
+  it("stores an integrity report and continues it when late chunks are merged", async () => {
+    replayChunk.findMany.mockResolvedValueOnce([chunkRow(0, [1_000]), chunkRow(2, [3_000])]);
+    await promoteReplaySession("p1", "tr_abc", 2, 2);
+    const stored = JSON.parse(session.create.mock.calls[0][0].data.metadata);
+
+    expect(stored.replayIntegrity).toMatchObject({ status: "degraded", missingChunkIndices: [1], hasFullSnapshot: false });
+
+    replayChunk.findMany.mockResolvedValueOnce([chunkRow(3, [4_000])]);
+    session.findUnique.mockResolvedValueOnce({ id: "s1", events: "[]", distinctId: null, metadata: JSON.stringify(stored) });
+    await promoteReplaySession("p1", "tr_abc", 3, 1);
+
+    expect(JSON.parse(session.update.mock.calls[0][0].data.metadata).replayIntegrity).toMatchObject({
+      chunkCount: 3,
+      lastChunkIndex: 3,
+      missingChunkIndices: [1],
+    });
+  });
+
+  it("merges late chunks into an already promoted session", async () => {
+    replayChunk.findMany.mockResolvedValueOnce([chunkRow(2, [5_000])]);
+    session.findUnique.mockResolvedValueOnce({
+      id: "s1",
+      events: JSON.stringify([{ type: 2, timestamp: 1_000 }]),
+      distinctId: "user-42",
+      metadata: JSON.stringify({ source: "sdk", chunkCount: 2 }),
+    });
+
+    const outcome = await promoteReplaySession("p1", "tr_abc", 2, 1);
+
+    expect(outcome).toBe("merged");
+    const { data } = session.update.mock.calls[0][0];
+    expect(JSON.parse(data.events).map((e: { timestamp: number }) => e.timestamp)).toEqual([1_000, 5_000]);
+    expect(data.analysisStatus).toBe("pending");
+    expect(JSON.parse(data.metadata).chunkCount).toBe(3);
+    expect(session.create).not.toHaveBeenCalled();
+  });
+
+  it("discards sessions with no readable events", async () => {
+    replayChunk.findMany.mockResolvedValueOnce([{ chunkIndex: 0, events: "oops", payload: null }]);
+
+    expect(await promoteReplaySession("p1", "tr_abc", 0, 1)).toBe("discarded");
+    expect(replayChunk.deleteMany).toHaveBeenCalled();
+    expect(session.create).not.toHaveBeenCalled();
+  });
+});
+
+// ─── 3. Project runs ──────────────────────────────────────────────────────────
+
+describe("promoteProjectReplays", () => {
+  it("promotes only recorder sessions idle past the cutoff", async () => {
+    replayChunk.groupBy.mockResolvedValueOnce([{ sessionId: "tr_abc", _count: { _all: 1 }, _max: { chunkIndex: 0 } }]);
+    replayChunk.findMany.mockResolvedValueOnce([chunkRow(0, [1_000])]);
+
+    const result = await promoteProjectReplays("p1", DEFAULT_REPLAY_PROMOTION, Date.now() + 60_000, NOW);
+
+    expect(result).toMatchObject({ promoted: 1, analyzed: 0 });
+    expect(replayChunk.groupBy.mock.calls[0][0]).toMatchObject({
+      where: { projectId: "p1", sessionId: { startsWith: "tr_" } },
+      having: { createdAt: { _max: { lt: new Date("2026-01-01T11:30:00Z") } } },
+    });
+    expect(analyzeSession).not.toHaveBeenCalled();
+  });
+
+  it("analyzes pending sessions with autoAnalyze and counts failures", async () => {
+    replayChunk.groupBy.mockResolvedValueOnce([]);
+    session.findMany.mockResolvedValueOnce([{ id: "s1" }, { id: "s2" }]);
+    analyzeSession.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error("LLM down"));
+
+    const result = await promoteProjectReplays(
+      "p1",
+      { ...DEFAULT_REPLAY_PROMOTION, autoAnalyze: true },
+      Date.now() + 60_000,
+      NOW
+    );
+
+    expect(result).toMatchObject({ analyzed: 1, analysisFailed: 1 });
+    expect(session.findMany.mock.calls[0][0]).toMatchObject({
+      where: { projectId: "p1", source: "sdk", analysisStatus: "pending" },
+    });
+  });
+
+  it("skips promotion when disabled", async () => {
+    const result = await promoteProjectReplays(
+      "p1",
+      { ...DEFAULT_REPLAY_PROMOTION, enabled: false },
+      Date.now() + 60_000,
+      NOW
+    );
+
+    expect(result.promoted).toBe(0);
+    expect(replayChunk.groupBy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import {
+  canTransition,
+  nextStatusForUpdate,
+  normalizeTicketStatus,
+  routeTicket,
+} from "@/lib/ticket-lifecycle";
+import { statusFromExternal } from "@/lib/issue-trackers";
+
+// ─── 1. Status normalization ──────────────────────────────────────────────────
+
+describe("normalizeTicketStatus", () => {
+  it("reads legacy 'pushed' tickets as triaged", () => {
+    expect(normalizeTicketStatus("pushed")).toBe("triaged");
+  });
+
+  it("keeps known statuses and falls back to open", () => {
+    expect(normalizeTicketStatus("wont_fix")).toBe("wont_fix");
+    expect(normalizeTicketStatus("in_review")).toBe("open");
+  });
+});
+
+// ─── 2. Transitions ───────────────────────────────────────────────────────────
+
+describe("canTransition", () => {
+  it("allows the forward path and reopening", () => {
+    expect(canTransition("open", "triaged")).toBe(true);
+    expect(canTransition("assigned", "resolved")).toBe(true);
+    expect(canTransition("resolved", "verified")).toBe(true);
+    expect(canTransition("verified", "open")).toBe(true);
+    expect(canTransition("wont_fix", "open")).toBe(true);
+  });
+
+  it("rejects skipping resolution or leaving terminal states sideways", () => {
+    expect(canTransition("open", "verified")).toBe(false);
+    expect(canTransition("assigned", "open")).toBe(false);
+    expect(canTransition("verified", "assigned")).toBe(false);
+    expect(canTransition("wont_fix", "resolved")).toBe(false);
+  });
+
+  it("treats a same-state update as a no-op", () => {
+    expect(canTransition("verified", "verified")).toBe(true);
+    expect(canTransition("pushed", "triaged")).toBe(true);
+  });
+});
+
+describe("nextStatusForUpdate", () => {
+  it("moves open and triaged tickets to assigned when someone is assigned", () => {
+    expect(nextStatusForUpdate("open", { assigneeId: "m1" })).toBe("assigned");
+    expect(nextStatusForUpdate("pushed", { assigneeId: "m1" })).toBe("assigned");
+  });
+
+  it("moves assigned tickets back to triaged when unassigned", () => {
+    expect(nextStatusForUpdate("assigned", { assigneeId: null })).toBe("triaged");
+    expect(nextStatusForUpdate("resolved", { assigneeId: null })).toBe("resolved");
+  });
+
+  it("prefers an explicit status over the implied one", () => {
+    expect(nextStatusForUpdate("open", { assigneeId: "m1", status: "resolved" })).toBe("resolved");
+    expect(nextStatusForUpdate("triaged", { team: "Payments" })).toBe("triaged");
+  });
+});
+
+// ─── 3. Routing ───────────────────────────────────────────────────────────────
+
+describe("routeTicket", () => {
+  const rules = [
+    { category: "bug", team: "Platform", defaultAssigneeId: "m1" },
+    { category: "onboarding", team: "Growth", defaultAssigneeId: null },
+  ];
+
+  it("assigns to the rule's default assignee", () => {
+    expect(routeTicket("bug", rules)).toEqual({ team: "Platform", assigneeId: "m1", status: "assigned" });
+  });
+
+  it("triages to the team when the rule has no assignee", () => {
+    expect(routeTicket("onboarding", rules)).toEqual({ team: "Growth", assigneeId: null, status: "triaged" });
+  });
+
+  it("leaves unrouted categories open", () => {
+    expect(routeTicket("performance", rules)).toEqual({ team: null, assigneeId: null, status: "open" });
+  });
+});
+
+// ─── 4. Tracker status sync ───────────────────────────────────────────────────
+
+describe("statusFromExternal", () => {
+  const state = (statusCategory: "todo" | "in_progress" | "done" | "canceled") => ({
+    id: "10042",
+    key: "WEB-42",
+    status: "Status",
+    statusCategory,
+  });
+
+  it("resolves or closes tickets when the tracker issue is done or canceled", () => {
+    expect(statusFromExternal("assigned", state("done"))).toBe("resolved");
+    expect(statusFromExternal("pushed", state("canceled"))).toBe("wont_fix");
+  });
+
+  it("ignores in-progress states and never overrides verification", () => {
+    expect(statusFromExternal("triaged", state("in_progress"))).toBeNull();
+    expect(statusFromExternal("resolved", state("done"))).toBeNull();
+    expect(statusFromExternal("verified", state("canceled"))).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import {
+  evidenceOverlap,
+  matchTickets,
+  revisedFields,
+  scoreTicketMatch,
+  textSimilarity,
+  type ExistingTicket,
+  type MatchCandidate,
+} from "@/lib/ticket-matching";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function evidence(sessionIds: string[], conversationIds: string[] = []) {
+  return { sessionIds, conversationIds, quotes: [] };
+}
+
+const checkout: ExistingTicket = {
+  id: "t-checkout",
+  title: "Checkout button unresponsive on mobile",
+  description: "Users tap Pay repeatedly with no feedback.",
+  category: "ux_friction",
+  evidence: evidence(["s1", "s2", "s3", "s4"], ["c1"]),
+};
+
+const onboarding: ExistingTicket = {
+  id: "t-onboarding",
+  title: "Onboarding checklist is hard to find",
+  description: "New users never open the checklist.",
+  category: "onboarding",
+  evidence: evidence(["s7", "s8"]),
+};
+
+// ─── 1. Similarity ────────────────────────────────────────────────────────────
+
+describe("evidenceOverlap", () => {
+  it("measures shared ids against the smaller set", () => {
+    expect(evidenceOverlap(evidence(["s1", "s2"]), evidence(["s1", "s2", "s3", "s4"]))).toBe(1);
+    expect(evidenceOverlap(evidence(["s1", "s9"], ["c1"]), checkout.evidence)).toBeCloseTo(2 / 3);
+    expect(evidenceOverlap(evidence([]), checkout.evidence)).toBe(0);
+  });
+});
+
+describe("textSimilarity", () => {
+  it("compares keywords regardless of order and plurals", () => {
+    expect(textSimilarity("Mobile checkout buttons unresponsive", checkout.title)).toBe(1);
+    expect(textSimilarity("Search results are empty", checkout.title)).toBe(0);
+  });
+});
+
+describe("scoreTicketMatch", () => {
+  it("treats an identical title as a certain match", () => {
+    const candidate: MatchCandidate = { ...checkout, title: "checkout button unresponsive on mobile ", evidence: evidence([]) };
+    expect(scoreTicketMatch(candidate, checkout)).toEqual({ score: 1, reason: "title" });
+  });
+
+  it("matches a reworded title through shared evidence", () => {
+    const candidate: MatchCandidate = {
+      title: "Payment CTA gives no feedback",
+      description: "Taps on Pay do nothing visible.",
+      category: "ux_friction",
+      evidence: evidence(["s2", "s3", "s10"]),
+    };
+    expect(scoreTicketMatch(candidate, checkout)).toEqual({ score: 0.67, reason: "evidence" });
+  });
+
+  it("discounts matches across categories", () => {
+    const candidate: MatchCandidate = { ...checkout, title: "Pay button broken", category: "bug" };
+    expect(scoreTicketMatch(candidate, checkout)).toEqual({ score: 0.8, reason: "evidence" });
+  });
+});
+
+// ─── 2. Matching ──────────────────────────────────────────────────────────────
+
+describe("matchTickets", () => {
+  it("pairs each candidate with at most one ticket, best score first", () => {
+    const candidates: MatchCandidate[] = [
+      { title: "Pay button lag", description: "", category: "ux_friction", evidence: evidence(["s1", "s5"]) },
+      { title: "Mobile checkout unresponsive", description: "", category: "ux_friction", evidence: evidence(["s1", "s2", "s3"]) },
+      { title: "Export to CSV missing", description: "", category: "feature_gap", evidence: evidence(["s20"]) },
+    ];
+
+    const matches = matchTickets(candidates, [checkout, onboarding]);
+
+    expect(matches.get(1)).toMatchObject({ ticketId: "t-checkout", score: 1 });
+    expect(matches.has(0)).toBe(false);
+    expect(matches.has(2)).toBe(false);
+  });
+
+  it("leaves weak matches as new tickets", () => {
+    const candidate: MatchCandidate = {
+      title: "Checklist progress resets",
+      description: "",
+      category: "bug",
+      evidence: evidence(["s8", "s30", "s31"]),
+    };
+    expect(matchTickets([candidate], [onboarding]).size).toBe(0);
+  });
+});
+
+// ─── 3. Revisions ─────────────────────────────────────────────────────────────
+
+describe("revisedFields", () => {
+  it("reports wording changes but ignores whitespace", () => {
+    const previous = { description: "Users tap Pay repeatedly.", recommendation: "Add a spinner." };
+    expect(revisedFields(previous, { description: "Users tap  Pay repeatedly.\n", recommendation: "Add a spinner." })).toEqual([]);
+    expect(revisedFields(previous, { description: "Users tap Pay repeatedly.", recommendation: "Disable the button." })).toEqual([
+      "recommendation",
+    ]);
+  });
+});
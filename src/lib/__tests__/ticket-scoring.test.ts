@@ -400,6 +400,30 @@ describe("computeTrending", () => {
     expect(result.direction).toBe("stable");
   });
 
+  it("replaces this week's count when re-synthesized in the same week", () => {
+    const existing: ExistingTicketTrending = {
+      firstSeen: "2026-02-02T00:00:00.000Z",
+      lastSeen: "2026-03-02T09:00:00.000Z", // Monday
+      weeklyCounts: [4, 6],
+      direction: "rising",
+    };
+    const result = computeTrending(existing, 3, new Date("2026-03-08T22:00:00.000Z")); // Sunday
+    expect(result.weeklyCounts).toEqual([4, 3]);
+    expect(result.direction).toBe("declining");
+    expect(result.lastSeen).toBe("2026-03-08T22:00:00.000Z");
+  });
+
+  it("starts a new bucket once the week rolls over", () => {
+    const existing: ExistingTicketTrending = {
+      firstSeen: "2026-03-02T09:00:00.000Z",
+      lastSeen: "2026-03-08T22:00:00.000Z",
+      weeklyCounts: [3],
+      direction: "new",
+    };
+    expect(computeTrending(existing, 3, new Date("2026-03-08T23:00:00.000Z")).direction).toBe("new");
+    expect(computeTrending(existing, 5, new Date("2026-03-09T01:00:00.000Z")).weeklyCounts).toEqual([3, 5]);
+  });
+
   it("caps weeklyCounts at 4 entries", () => {
     const existing: ExistingTicketTrending = {
       firstSeen: "2026-01-01T00:00:00.000Z",
@@ -0,0 +1,247 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import type { WebhookDelivery, WebhookEndpoint } from "@prisma/client";
+
+const { webhookEndpoint, webhookDelivery, assertOutboundUrl } = vi.hoisted(() => ({
+  webhookEndpoint: { findMany: vi.fn() },
+  webhookDelivery: {
+    create: vi.fn(async ({ data }: { data: object }) => ({ id: "dlv_new", attempts: 0, ...data })),
+    update: vi.fn(async ({ data }: { data: object }) => data),
+  },
+  assertOutboundUrl: vi.fn(async () => {}),
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: { webhookEndpoint, webhookDelivery } }));
+// The local receiver listens on loopback, which the real guard refuses
+vi.mock("@/lib/outbound-url", () => ({ assertOutboundUrl }));
+
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  attemptDelivery,
+  emitWebhookEvent,
+  nextRetryAt,
+  signWebhookPayload,
+  toLevelChanges,
+  verifyWebhookSignature,
+  webhookEndpointSchema,
+} from "@/lib/webhooks";
+import type { ScoreTransition } from "@/lib/churn-scoring/trajectory";
+
+// ─── Local receiver ───────────────────────────────────────────────────────────
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let receiver: http.Server;
+let receiverUrl: string;
+let received: ReceivedRequest[] = [];
+let receiverStatus = 200;
+
+beforeAll(async () => {
+  receiver = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(receiverStatus, { "Content-Type": "text/plain" });
+      res.end(receiverStatus < 300 ? "ok" : "boom");
+    });
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => receiver.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+  receiverStatus = 200;
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const SECRET = "whsec_test_secret";
+
+function makeDelivery(attempts = 0): WebhookDelivery & { endpoint: WebhookEndpoint } {
+  const now = new Date();
+  return {
+    id: "dlv_1",
+    projectId: "p1",
+    endpointId: "ep_1",
+    eventId: "evt_1",
+    eventType: "ticket.created",
+    payload: { id: "evt_1", type: "ticket.created", projectId: "p1", data: { ticket: { id: "t1" } } },
+    status: "pending",
+    attempts,
+    nextAttemptAt: now,
+    responseStatus: null,
+    lastError: null,
+    durationMs: null,
+    deliveredAt: null,
+    createdAt: now,
+    updatedAt: now,
+    endpoint: {
+      id: "ep_1",
+      projectId: "p1",
+      url: receiverUrl,
+      description: null,
+      events: ["ticket.created"],
+      secret: SECRET,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    },
+  };
+}
+
+// ─── 1. Signing ───────────────────────────────────────────────────────────────
+
+describe("webhook signatures", () => {
+  const body = JSON.stringify({ id: "evt_1", type: "ping" });
+  const now = new Date("2026-03-10T12:00:00Z");
+
+  it("signs the timestamp and body so receivers can verify them", () => {
+    const header = signWebhookPayload(SECRET, body, now);
+
+    expect(header).toMatch(/^t=1773144000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(SECRET, header, body, now)).toBe(true);
+  });
+
+  it("rejects tampered bodies, other secrets and stale timestamps", () => {
+    const header = signWebhookPayload(SECRET, body, now);
+
+    expect(verifyWebhookSignature(SECRET, header, `${body} `, now)).toBe(false);
+    expect(verifyWebhookSignature("whsec_other", header, body, now)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, header, body, new Date(now.getTime() + 10 * 60_000))).toBe(false);
+    expect(verifyWebhookSignature(SECRET, null, body, now)).toBe(false);
+  });
+});
+
+// ─── 2. Retry schedule ────────────────────────────────────────────────────────
+
+describe("nextRetryAt", () => {
+  const now = new Date("2026-03-10T12:00:00Z");
+
+  it("backs off after each failed attempt", () => {
+    expect(nextRetryAt(1, now)?.toISOString()).toBe("2026-03-10T12:01:00.000Z");
+    expect(nextRetryAt(2, now)?.toISOString()).toBe("2026-03-10T12:05:00.000Z");
+    expect(nextRetryAt(4, now)?.toISOString()).toBe("2026-03-10T14:00:00.000Z");
+  });
+
+  it("gives up after the last attempt", () => {
+    expect(nextRetryAt(MAX_DELIVERY_ATTEMPTS - 1, now)).not.toBeNull();
+    expect(nextRetryAt(MAX_DELIVERY_ATTEMPTS, now)).toBeNull();
+  });
+});
+
+// ─── 3. Payloads and settings ─────────────────────────────────────────────────
+
+describe("toLevelChanges", () => {
+  const transition = (distinctId: string, previousLevel: ScoreTransition["previousLevel"], riskLevel: ScoreTransition["riskLevel"]): ScoreTransition => ({
+    distinctId,
+    email: null,
+    segment: "paid_user",
+    isPro: true,
+    previousScore: previousLevel ? 40 : null,
+    riskScore: 60,
+    delta: 20,
+    previousLevel,
+    riskLevel,
+  });
+
+  it("keeps only users whose level moved since the previous day", () => {
+    const changes = toLevelChanges([
+      transition("up", "medium", "high"),
+      transition("same", "high", "high"),
+      transition("first-score", null, "critical"),
+      transition("down", "critical", "low"),
+    ]);
+    expect(changes.map((c) => `${c.distinctId}:${c.previousLevel}->${c.riskLevel}`)).toEqual([
+      "up:medium->high",
+      "down:critical->low",
+    ]);
+  });
+});
+
+describe("webhookEndpointSchema", () => {
+  it("requires an http(s) URL and at least one known event", () => {
+    expect(webhookEndpointSchema.safeParse({ url: "https://example.com/hook", events: ["ticket.created"] }).success).toBe(true);
+    expect(webhookEndpointSchema.safeParse({ url: "ftp://example.com", events: ["ticket.created"] }).success).toBe(false);
+    expect(webhookEndpointSchema.safeParse({ url: "https://example.com/hook", events: [] }).success).toBe(false);
+    expect(webhookEndpointSchema.safeParse({ url: "https://example.com/hook", events: ["ping"] }).success).toBe(false);
+  });
+});
+
+// ─── 4. Delivery ──────────────────────────────────────────────────────────────
+
+describe("attemptDelivery", () => {
+  it("POSTs the signed event and marks it delivered on 2xx", async () => {
+    const result = await attemptDelivery(makeDelivery());
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers["tranzmit-event"]).toBe("ticket.created");
+    expect(headers["tranzmit-delivery"]).toBe("dlv_1");
+    expect(verifyWebhookSignature(SECRET, headers["tranzmit-signature"] as string, body)).toBe(true);
+    expect(JSON.parse(body).id).toBe("evt_1");
+
+    expect(result).toMatchObject({ status: "succeeded", attempts: 1, responseStatus: 200, nextAttemptAt: null, lastError: null });
+  });
+
+  it("schedules a retry when the endpoint errors", async () => {
+    receiverStatus = 500;
+    const result = await attemptDelivery(makeDelivery());
+
+    expect(result).toMatchObject({ status: "pending", attempts: 1, responseStatus: 500 });
+    expect(result).not.toHaveProperty("responseBody");
+    expect(result.lastError).toBe("Endpoint responded 500");
+    expect(result.nextAttemptAt).toBeInstanceOf(Date);
+  });
+
+  it("fails for good once retries are exhausted", async () => {
+    receiverStatus = 503;
+    const result = await attemptDelivery(makeDelivery(MAX_DELIVERY_ATTEMPTS - 1));
+
+    expect(result).toMatchObject({ status: "failed", attempts: MAX_DELIVERY_ATTEMPTS, nextAttemptAt: null });
+  });
+
+  it("refuses endpoints that resolve to a private address without sending", async () => {
+    assertOutboundUrl.mockRejectedValueOnce(new Error("127.0.0.1 resolves to a private or reserved address"));
+    const result = await attemptDelivery(makeDelivery());
+
+    expect(received).toHaveLength(0);
+    expect(result).toMatchObject({ status: "pending", responseStatus: null });
+    expect(result.lastError).toBe("127.0.0.1 resolves to a private or reserved address");
+  });
+
+  it("records network errors as failed attempts", async () => {
+    const delivery = makeDelivery();
+    delivery.endpoint.url = "http://127.0.0.1:1/unreachable";
+    const result = await attemptDelivery(delivery);
+
+    expect(result).toMatchObject({ status: "pending", responseStatus: null });
+    expect(result.lastError).toBeTruthy();
+  });
+});
+
+// ─── 5. Emitting ──────────────────────────────────────────────────────────────
+
+describe("emitWebhookEvent", () => {
+  it("queues a delivery per endpoint and sends it without holding up the caller", async () => {
+    const endpoint = makeDelivery().endpoint;
+    webhookEndpoint.findMany.mockResolvedValueOnce([endpoint]);
+
+    await emitWebhookEvent("p1", "widget.clicked", { trigger: { id: "t1", distinctId: "user-42", userName: null } });
+
+    expect(webhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ endpointId: "ep_1", eventType: "widget.clicked", nextAttemptAt: expect.any(Date) }),
+    });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(JSON.parse(received[0].body).type).toBe("widget.clicked");
+  });
+});
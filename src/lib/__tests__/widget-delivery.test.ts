@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const widgetTrigger = vi.hoisted(() => ({
+  findFirst: vi.fn(),
+  updateMany: vi.fn(),
+}));
+
+const $executeRaw = vi.hoisted(() => vi.fn());
+
+vi.mock("@/lib/prisma", () => ({ prisma: { widgetTrigger, $executeRaw } }));
+
+// Stand-in for the LISTEN connection: records queries and lets tests deliver notifications
+const pg = vi.hoisted(() => {
+  type Handler = (arg: unknown) => void;
+  const state = {
+    instances: [] as { handlers: Map<string, Handler>; queries: string[] }[],
+  };
+  class Client {
+    handlers = new Map<string, Handler>();
+    queries: string[] = [];
+    constructor() {
+      state.instances.push(this);
+    }
+    on(event: string, handler: Handler) {
+      this.handlers.set(event, handler);
+      return this;
+    }
+    removeAllListeners() {
+      this.handlers.clear();
+    }
+    async connect() {}
+    async query(text: string) {
+      this.queries.push(text);
+    }
+    async end() {}
+  }
+  return { state, Client };
+});
+
+vi.mock("@neondatabase/serverless", () => ({ Client: pg.Client }));
+
+import {
+  claimWidgetTrigger,
+  formatSseEvent,
+  listenForWidgetTriggers,
+  notifyWidgetTriggers,
+  waitForWidgetTrigger,
+} from "@/lib/widget-delivery";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+// ─── 1. Claiming ──────────────────────────────────────────────────────────────
+
+describe("claimWidgetTrigger", () => {
+  it("marks the newest pending trigger shown and returns the widget payload", async () => {
+    widgetTrigger.findFirst.mockResolvedValueOnce({ id: "t1", userName: "Ada", interviewApiKey: "ik" });
+    widgetTrigger.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    const payload = await claimWidgetTrigger("p1", "user-42");
+
+    expect(payload).toEqual({ show: true, triggerId: "t1", userName: "Ada", interviewApiKey: "ik" });
+    expect(widgetTrigger.updateMany).toHaveBeenCalledWith({
+      where: { id: "t1", status: "pending" },
+      data: { status: "shown", shownAt: expect.any(Date) },
+    });
+  });
+
+  it("returns null when there is no trigger or another connection claimed it first", async () => {
+    widgetTrigger.findFirst.mockResolvedValueOnce(null);
+    expect(await claimWidgetTrigger("p1", "user-42")).toBeNull();
+
+    widgetTrigger.findFirst.mockResolvedValueOnce({ id: "t1", userName: null, interviewApiKey: null });
+    widgetTrigger.updateMany.mockResolvedValueOnce({ count: 0 });
+    expect(await claimWidgetTrigger("p1", "user-42")).toBeNull();
+  });
+});
+
+// ─── 2. Waiting ───────────────────────────────────────────────────────────────
+
+describe("waitForWidgetTrigger", () => {
+  it("wakes when a trigger is created for the same user", async () => {
+    const other = vi.fn();
+    const waiting = waitForWidgetTrigger("p1", "user-42", 60_000).then(() => "woken");
+    waitForWidgetTrigger("p1", "user-7", 10).then(other);
+
+    await notifyWidgetTriggers("p1", ["user-42"]);
+
+    await expect(waiting).resolves.toBe("woken");
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it("publishes a NOTIFY per user so other instances wake their streams", async () => {
+    await notifyWidgetTriggers("p1", ["user-42", "user-7"]);
+
+    expect($executeRaw).toHaveBeenCalledTimes(1);
+    const [sql, channel, keys] = $executeRaw.mock.calls[0];
+    expect(sql.join("?")).toContain("pg_notify");
+    expect(channel).toBe("widget_triggers");
+    expect(keys).toEqual(["p1:user-42", "p1:user-7"]);
+  });
+
+  it("does not throw when NOTIFY fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    $executeRaw.mockRejectedValueOnce(new Error("connection lost"));
+
+    await expect(notifyWidgetTriggers("p1", ["user-42"])).resolves.toBeUndefined();
+  });
+
+  it("wakes on a notification from another instance and reconnects after an error", async () => {
+    vi.stubEnv("DATABASE_URL", "postgres://db");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(listenForWidgetTriggers()).resolves.toBe(true);
+    expect(pg.state.instances).toHaveLength(1);
+    const [client] = pg.state.instances;
+    expect(client.queries).toEqual(["LISTEN widget_triggers"]);
+
+    const waiting = waitForWidgetTrigger("p1", "user-42", 60_000).then(() => "woken");
+    client.handlers.get("notification")!({ channel: "widget_triggers", payload: "p1:user-42" });
+    await expect(waiting).resolves.toBe("woken");
+
+    client.handlers.get("error")!(new Error("terminated"));
+    await listenForWidgetTriggers();
+    expect(pg.state.instances).toHaveLength(2);
+  });
+
+  it("resolves on timeout and on abort", async () => {
+    vi.useFakeTimers();
+    const timedOut = waitForWidgetTrigger("p1", "user-42", 5_000);
+    vi.advanceTimersByTime(5_000);
+    await expect(timedOut).resolves.toBeUndefined();
+
+    const controller = new AbortController();
+    const aborted = waitForWidgetTrigger("p1", "user-42", 60_000, controller.signal);
+    controller.abort();
+    await expect(aborted).resolves.toBeUndefined();
+  });
+});
+
+// ─── 3. Encoding ──────────────────────────────────────────────────────────────
+
+describe("formatSseEvent", () => {
+  it("writes a named event with one line of JSON data", () => {
+    expect(formatSseEvent("trigger", { show: true, note: "a\nb" })).toBe(
+      'event: trigger\ndata: {"show":true,"note":"a\\nb"}\n\n'
+    );
+  });
+});
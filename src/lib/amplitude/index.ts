@@ -1,3 +1,3 @@
-export { syncSessionsFromAmplitude, fetchAmplitudeUserSessions } from './sync';
+export { syncSessionsFromAmplitude, fetchAmplitudeUserSessions, fetchAmplitudeEvents, formatAmplitudeDate, projectAmplitudeConfig } from './sync';
 export { amplitudeToRRWebEvents } from './event-mapper';
 export type { AmplitudeEvent, AmplitudeSession, AmplitudeExportParams } from './types';
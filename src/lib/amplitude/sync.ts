@@ -1,13 +1,27 @@
+import { Project } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { decryptSecret } from '@/lib/credential-encryption';
 import zlib from 'zlib';
 import type { SyncResult } from '@/types/session';
 import type { AmplitudeEvent, AmplitudeSession } from './types';
 import { amplitudeToRRWebEvents } from './event-mapper';
 
+// ── Project credentials ──
+// The Amplitude counterpart of createProjectClient, and the only place its
+// secrets are decrypted.
+export function projectAmplitudeConfig(project: Pick<Project, 'amplitudeKey' | 'amplitudeSecret'>) {
+  const apiKey = decryptSecret(project.amplitudeKey);
+  const secretKey = decryptSecret(project.amplitudeSecret);
+  if (!apiKey || !secretKey) {
+    throw new Error('Amplitude not configured for this project');
+  }
+  return { apiKey, secretKey };
+}
+
 // ── Fetch raw events from Amplitude Export API ──
 // Docs: https://www.docs.developers.amplitude.com/analytics/apis/export-api/
 // Returns gzipped newline-delimited JSON
-async function fetchAmplitudeEvents(
+export async function fetchAmplitudeEvents(
   apiKey: string,
   secretKey: string,
   start: string, // YYYYMMDDTHH
@@ -107,7 +121,7 @@ function groupEventsIntoSessions(events: AmplitudeEvent[]): AmplitudeSession[] {
 }
 
 // ── Format date for Amplitude Export API (YYYYMMDDTHH) ──
-function formatAmplitudeDate(date: Date): string {
+export function formatAmplitudeDate(date: Date): string {
   const yyyy = date.getUTCFullYear();
   const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
   const dd = String(date.getUTCDate()).padStart(2, '0');
@@ -138,12 +152,9 @@ export async function syncSessionsFromAmplitude(
     throw new Error('Project not found');
   }
 
-  const apiKey = project.amplitudeKey;
-  const secretKey = project.amplitudeSecret;
-
   const amplitudeProjId = project.amplitudeProjId;
 
-  if (!apiKey || !secretKey) {
+  if (!project.amplitudeKey || !project.amplitudeSecret) {
     throw new Error('Amplitude API Key and Secret Key are required. Find them in Amplitude → Settings → Projects → <your project>.');
   }
 
@@ -159,6 +170,7 @@ export async function syncSessionsFromAmplitude(
   start.setDate(start.getDate() - daysBack);
 
   // Fetch events from Amplitude Export API
+  const { apiKey, secretKey } = projectAmplitudeConfig(project);
   const events = await fetchAmplitudeEvents(
     apiKey,
     secretKey,
@@ -285,9 +297,10 @@ export async function fetchAmplitudeUserSessions(
   const start = new Date();
   start.setDate(start.getDate() - daysBack);
 
+  const { apiKey, secretKey } = projectAmplitudeConfig(project);
   const events = await fetchAmplitudeEvents(
-    project.amplitudeKey,
-    project.amplitudeSecret,
+    apiKey,
+    secretKey,
     formatAmplitudeDate(start),
     formatAmplitudeDate(end)
   );
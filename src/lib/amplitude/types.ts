@@ -5,6 +5,7 @@ export interface AmplitudeEvent {
   user_properties: Record<string, unknown>;
   user_id: string | null;
   device_id: string;
+  user_creation_time?: string; // Same format as event_time
   session_id: number; // Amplitude session IDs are epoch ms timestamps
   amplitude_id: number;
   event_id: number;
@@ -0,0 +1,326 @@
+/**
+ * Audit log
+ *
+ * Append-only trail of sensitive actions per organization: outreach sent to
+ * end users, credential changes, API key use, membership changes and data
+ * deletions. This module only ever creates AuditLog rows; nothing in the app
+ * updates or deletes them. Secrets in before/after snapshots are masked
+ * before they are stored.
+ */
+
+import { AuditLog, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { maskSecret, storedSecretHint, storedSecretMatches } from './credential-encryption';
+
+export { PROJECT_SECRET_FIELDS, maskSecret } from './credential-encryption';
+
+export const AUDIT_ACTIONS = [
+  'recovery.email_sent',
+  'recovery.call_placed',
+  'outreach.invite_sent',
+  'project.credentials_updated',
+  'project.sdk_key_rotated',
+  'project.deleted',
+  'project.retention_updated',
+  'issue_tracker.connected',
+  'issue_tracker.updated',
+  'issue_tracker.disconnected',
+  'api_key.created',
+  'api_key.updated',
+  'api_key.revoked',
+  'api_key.used',
+  'webhook_endpoint.created',
+  'webhook_endpoint.updated',
+  'webhook_endpoint.deleted',
+  'digest.created',
+  'digest.updated',
+  'digest.deleted',
+  'churn_alert_rule.created',
+  'churn_alert_rule.updated',
+  'churn_alert_rule.deleted',
+  'routing_rule.created',
+  'routing_rule.updated',
+  'routing_rule.deleted',
+  'member.invited',
+  'member.role_changed',
+  'member.removed',
+  'organization.ownership_transferred',
+  'data.deleted',
+  'data.erased',
+  'data.exported',
+  'data.retention_applied',
+  'audit_log.exported',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+// Read-only API key use is recorded at most once per key per hour; writes every time
+const API_KEY_READ_AUDIT_INTERVAL_MS = 60 * 60 * 1000;
+
+// ==================== MASKING ====================
+
+/**
+ * The fields among `fields` whose value differs between `before` and
+ * `after`, with secrets masked. Fields missing from `after` weren't part of
+ * the update and are skipped. Returns null when nothing changed.
+ */
+export function auditChanges(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: readonly string[],
+  secretFields: readonly string[] = []
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    if (!(field in after)) continue;
+    // The settings form sends '' for an empty field that is stored as null
+    const from = before[field] === '' ? null : (before[field] ?? null);
+    const to = after[field] === '' ? null : (after[field] ?? null);
+    if (from === to) continue;
+
+    const secret = secretFields.includes(field);
+    changedBefore[field] = secret ? maskSecret(from) : from;
+    changedAfter[field] = secret ? maskSecret(to) : to;
+  }
+
+  return Object.keys(changedAfter).length > 0 ? { before: changedBefore, after: changedAfter } : null;
+}
+
+/**
+ * Like auditChanges, for an update about to be applied to a stored record
+ * whose secret fields are encrypted: `update` holds plaintext, `stored` holds
+ * ciphertext. Secrets are compared by value and both sides are masked.
+ */
+export function auditStoredChanges(
+  stored: Record<string, unknown>,
+  update: Record<string, unknown>,
+  fields: readonly string[],
+  secretFields: readonly string[]
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  const plain = auditChanges(stored, update, fields.filter((field) => !secretFields.includes(field)));
+  const changedBefore: Record<string, unknown> = { ...plain?.before };
+  const changedAfter: Record<string, unknown> = { ...plain?.after };
+
+  for (const field of fields) {
+    if (!secretFields.includes(field) || !(field in update)) continue;
+    const from = stored[field] as string | null | undefined;
+    const to = update[field] as string | null | undefined;
+    if (storedSecretMatches(from, to)) continue;
+
+    changedBefore[field] = storedSecretHint(from);
+    changedAfter[field] = maskSecret(to);
+  }
+
+  return Object.keys(changedAfter).length > 0 ? { before: changedBefore, after: changedAfter } : null;
+}
+
+// ==================== WRITING ====================
+
+export interface AuditActor {
+  type: 'user' | 'api_key' | 'system';
+  id?: string | null;
+  label?: string | null;
+}
+
+export interface AuditEvent {
+  organizationId: string;
+  projectId?: string | null;
+  actor: AuditActor;
+  action: AuditAction;
+  targetType: string;
+  targetId?: string | null;
+  targetLabel?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+export function userActor(user: { id: string; email: string }): AuditActor {
+  return { type: 'user', id: user.id, label: user.email };
+}
+
+/** First address in X-Forwarded-For (set by Vercel and most proxies), else X-Real-IP. */
+export function requestIp(headers: Headers): string | null {
+  const forwarded = headers.get('x-forwarded-for');
+  if (forwarded) {
+    const first = forwarded.split(',')[0].trim();
+    if (first) return first;
+  }
+  return headers.get('x-real-ip');
+}
+
+function json(value: Record<string, unknown> | null | undefined) {
+  return value ? (value as Prisma.InputJsonObject) : Prisma.JsonNull;
+}
+
+/**
+ * Append an entry. Never throws — the action it describes has already
+ * happened, so a failed write is logged rather than failing the request.
+ */
+export async function recordAuditEvent(request: Request | null, event: AuditEvent): Promise<void> {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        organizationId: event.organizationId,
+        projectId: event.projectId ?? null,
+        actorType: event.actor.type,
+        actorId: event.actor.id ?? null,
+        actorLabel: event.actor.label ?? null,
+        action: event.action,
+        targetType: event.targetType,
+        targetId: event.targetId ?? null,
+        targetLabel: event.targetLabel ?? null,
+        before: json(event.before),
+        after: json(event.after),
+        metadata: json(event.metadata),
+        ipAddress: request ? requestIp(request.headers) : null,
+        userAgent: request?.headers.get('user-agent')?.slice(0, 500) ?? null,
+      },
+    });
+  } catch (err) {
+    console.error(`[Audit] Failed to record ${event.action}:`, err);
+  }
+}
+
+/**
+ * Record an action a signed-in user took on a project, using the access
+ * context returned by requireProjectPermission / requireRecordPermission.
+ */
+export async function auditProjectAction(
+  request: Request | null,
+  access: { project: { id: string; organizationId: string | null }; user: { id: string; email: string } },
+  event: Omit<AuditEvent, 'organizationId' | 'projectId' | 'actor'>
+): Promise<void> {
+  if (!access.project.organizationId) {
+    console.warn(`[Audit] Project ${access.project.id} has no organization; ${event.action} not recorded`);
+    return;
+  }
+  await recordAuditEvent(request, {
+    ...event,
+    organizationId: access.project.organizationId,
+    projectId: access.project.id,
+    actor: userActor(access.user),
+  });
+}
+
+/**
+ * Record a public API request. Writes are recorded every time; reads only
+ * when the key hasn't been used for an hour, which keeps a trail of when a
+ * key was active without one row per request.
+ */
+export async function auditApiKeyUse(
+  request: Request,
+  apiKey: { id: string; name: string; projectId: string; lastUsedAt: Date | null },
+  scope: 'read' | 'write',
+  now = new Date()
+): Promise<void> {
+  if (scope === 'read' && apiKey.lastUsedAt && now.getTime() - apiKey.lastUsedAt.getTime() < API_KEY_READ_AUDIT_INTERVAL_MS) {
+    return;
+  }
+
+  const project = await prisma.project
+    .findUnique({ where: { id: apiKey.projectId }, select: { organizationId: true } })
+    .catch((err) => {
+      console.error('[Audit] Failed to look up API key project:', err);
+      return null;
+    });
+  if (!project?.organizationId) return;
+
+  const url = new URL(request.url);
+  await recordAuditEvent(request, {
+    organizationId: project.organizationId,
+    projectId: apiKey.projectId,
+    actor: { type: 'api_key', id: apiKey.id, label: apiKey.name },
+    action: 'api_key.used',
+    targetType: 'api_key',
+    targetId: apiKey.id,
+    targetLabel: apiKey.name,
+    metadata: { method: request.method, path: url.pathname, scope },
+  });
+}
+
+// ==================== READING ====================
+
+export const AUDIT_PAGE_SIZE = 50;
+export const AUDIT_EXPORT_LIMIT = 10_000;
+
+export const auditLogFiltersSchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  projectId: z.string().min(1).optional(),
+  actorId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type AuditLogFilters = z.infer<typeof auditLogFiltersSchema>;
+
+/** Filters from a query string; empty values are ignored. */
+export function parseAuditLogFilters(searchParams: URLSearchParams) {
+  const raw: Record<string, string> = {};
+  for (const key of ['action', 'projectId', 'actorId', 'from', 'to']) {
+    const value = searchParams.get(key);
+    if (value) raw[key] = value;
+  }
+  return auditLogFiltersSchema.safeParse(raw);
+}
+
+export function auditLogWhere(organizationId: string, filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+  return {
+    organizationId,
+    ...(filters.action ? { action: filters.action } : {}),
+    ...(filters.projectId ? { projectId: filters.projectId } : {}),
+    ...(filters.actorId ? { actorId: filters.actorId } : {}),
+    ...(filters.from || filters.to
+      ? { createdAt: { ...(filters.from ? { gte: filters.from } : {}), ...(filters.to ? { lte: filters.to } : {}) } }
+      : {}),
+  };
+}
+
+export function toPublicAuditLog(entry: AuditLog) {
+  return {
+    id: entry.id,
+    createdAt: entry.createdAt,
+    action: entry.action,
+    projectId: entry.projectId,
+    actor: { type: entry.actorType, id: entry.actorId, label: entry.actorLabel },
+    target: { type: entry.targetType, id: entry.targetId, label: entry.targetLabel },
+    before: entry.before,
+    after: entry.after,
+    metadata: entry.metadata,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+  };
+}
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'action',
+  'projectId',
+  'actorType',
+  'actorId',
+  'actorLabel',
+  'targetType',
+  'targetId',
+  'targetLabel',
+  'before',
+  'after',
+  'metadata',
+  'ipAddress',
+  'userAgent',
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Quote everything that could break the row, and defuse spreadsheet formulas
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) || safe !== text ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function auditLogCsv(entries: AuditLog[]): string {
+  const rows = entries.map((entry) => CSV_COLUMNS.map((column) => csvCell(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -1,7 +1,8 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { prisma } from './prisma';
 import { generateSdkApiKey, provisionSdkTenant } from './sdk-db';
+import { findProjectByApiKey, projectApiKeyFields } from './project-api-key';
 import crypto from 'crypto';
 
 // Get project from external API key (for external API access)
@@ -15,11 +16,7 @@ export async function getProjectFromRequest(request: NextRequest) {
     return null;
   }
 
-  const project = await prisma.project.findUnique({
-    where: { apiKey },
-  });
-
-  return project;
+  return findProjectByApiKey(apiKey);
 }
 
 // Get the current authenticated user from our database
@@ -77,7 +74,7 @@ export async function getCurrentUser() {
       const firstName = clerkUser.firstName;
       const orgName = firstName ? `${firstName}'s Workspace` : 'My Workspace';
       const slug = orgName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') + '-' + crypto.randomBytes(3).toString('hex');
-      const apiKey = generateSdkApiKey();
+      const keyFields = projectApiKeyFields(generateSdkApiKey());
 
       try {
         user = await prisma.user.create({
@@ -97,7 +94,7 @@ export async function getCurrentUser() {
                     projects: {
                       create: {
                         name: 'Default Project',
-                        apiKey,
+                        ...keyFields,
                       },
                     },
                   },
@@ -116,7 +113,7 @@ export async function getCurrentUser() {
         console.log(`[Auth] Auto-created user ${user.email} with org and project`);
 
         // Provision tenant + API key in the SDK database
-        provisionSdkTenant({ name: orgName, apiKey }).catch(err =>
+        provisionSdkTenant({ name: orgName, keyHash: keyFields.apiKeyHash, keyPrefix: keyFields.apiKeyPrefix }).catch(err =>
           console.error('[Auth] SDK provisioning failed:', err)
         );
       } catch (createError: unknown) {
@@ -254,6 +251,101 @@ export async function getProjectWithAccess(projectId: string) {
   };
 }
 
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+const ROLE_RANK: Record<OrganizationRole, number> = { member: 0, admin: 1, owner: 2 };
+
+// Minimum organization role for each kind of action. Every dashboard API route
+// checks one of these through requireProjectPermission() or requireRecordPermission().
+export const PERMISSIONS = {
+  'project:read': 'member', // View sessions, tickets, churn scores, insights
+  'project:write': 'member', // Sync, analyze, upload data, triage tickets
+  'organization:read': 'member', // Member list and pending invitations
+  'data:delete': 'admin', // Delete sessions, cohorts, users, hypotheses; erase a person's data
+  'data:export': 'admin', // Subject access export of everything held about one person
+  'outreach:send': 'admin', // Recovery emails, outbound calls, interview invites
+  'settings:manage': 'admin', // Project settings, webhooks, digests, routing/alert rules, API keys
+  'members:manage': 'admin', // Invitations, member roles and removal
+  'audit:read': 'admin', // Browse and export the organization's audit log
+  'credentials:manage': 'owner', // Analytics and issue-tracker credentials, SDK key
+  'project:delete': 'owner',
+  'organization:transfer': 'owner', // Hand ownership to another member
+} as const satisfies Record<string, OrganizationRole>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function roleHasPermission(role: string, permission: Permission): boolean {
+  const rank = ROLE_RANK[role as OrganizationRole];
+  return rank !== undefined && rank >= ROLE_RANK[PERMISSIONS[permission]];
+}
+
+export type ProjectAccess = NonNullable<Awaited<ReturnType<typeof getProjectWithAccess>>>;
+
+export type ProjectPermissionResult = ({ ok: true } & ProjectAccess) | { ok: false; response: NextResponse };
+
+export function forbiddenResponse(permission: Permission): NextResponse {
+  const requiredRole = PERMISSIONS[permission];
+  return NextResponse.json(
+    { error: `Forbidden: requires the ${requiredRole} role`, permission, requiredRole },
+    { status: 403 }
+  );
+}
+
+// Route guard: 401 if the user can't access the project, 403 if their role is too low
+export async function requireProjectPermission(
+  projectId: string,
+  permission: Permission
+): Promise<ProjectPermissionResult> {
+  const access = await getProjectWithAccess(projectId);
+
+  if (!access) {
+    return { ok: false, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+  if (!roleHasPermission(access.role, permission)) {
+    return { ok: false, response: forbiddenResponse(permission) };
+  }
+
+  return { ok: true, ...access };
+}
+
+// Route guard for a record looked up by id: missing records and records in projects
+// the user can't access both get a 404 with the notFound message, low roles a 403
+export async function requireRecordPermission<T extends { projectId: string }>(
+  record: T | null,
+  permission: Permission,
+  notFound: string
+): Promise<({ ok: true; record: T } & ProjectAccess) | { ok: false; response: NextResponse }> {
+  const access = record ? await getProjectWithAccess(record.projectId) : null;
+
+  if (!record || !access) {
+    return { ok: false, response: NextResponse.json({ error: notFound }, { status: 404 }) };
+  }
+  if (!roleHasPermission(access.role, permission)) {
+    return { ok: false, response: forbiddenResponse(permission) };
+  }
+
+  return { ok: true, record, ...access };
+}
+
+export type OrganizationAccess = NonNullable<Awaited<ReturnType<typeof getOrganizationWithAccess>>>;
+
+// Organization-level counterpart of requireProjectPermission (members, invitations)
+export async function requireOrganizationPermission(
+  organizationId: string,
+  permission: Permission
+): Promise<({ ok: true } & OrganizationAccess) | { ok: false; response: NextResponse }> {
+  const access = await getOrganizationWithAccess(organizationId);
+
+  if (!access) {
+    return { ok: false, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+  if (!roleHasPermission(access.role, permission)) {
+    return { ok: false, response: forbiddenResponse(permission) };
+  }
+
+  return { ok: true, ...access };
+}
+
 // Get user's default organization (first one they own or belong to)
 export async function getDefaultOrganization() {
   const user = await getCurrentUser();
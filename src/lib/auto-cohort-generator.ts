@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
-import { createPostHogClient, PersonWithSignals, BehavioralSignal } from '@/lib/posthog';
+import { PersonWithSignals, BehavioralSignal } from '@/lib/posthog';
+import { createProjectClient } from '@/lib/posthog-factory';
 import { generateHypothesesFromSignals, storeHypotheses } from '@/lib/hypothesis-generator';
 
 // Extended cohort pattern types
@@ -73,11 +74,7 @@ export async function detectAndCreateCohorts(
     throw new Error('PostHog not configured for this project');
   }
 
-  const posthog = createPostHogClient({
-    apiKey: project.posthogKey,
-    projectId: project.posthogProjId,
-    host: project.posthogHost || 'https://us.posthog.com',
-  });
+  const posthog = createProjectClient(project);
 
   const generatedCohorts: GeneratedCohort[] = [];
 
@@ -544,11 +541,7 @@ export async function refreshAutoCohort(cohortId: string): Promise<{
     throw new Error('PostHog not configured for this project');
   }
 
-  const posthog = createPostHogClient({
-    apiKey: cohort.project.posthogKey,
-    projectId: cohort.project.posthogProjId,
-    host: cohort.project.posthogHost || 'https://us.posthog.com',
-  });
+  const posthog = createProjectClient(cohort.project);
 
   // Query for latest users based on pattern
   let users: PersonWithSignals[] = [];
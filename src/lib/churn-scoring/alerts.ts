@@ -0,0 +1,341 @@
+import { ChurnAlertRule } from '@prisma/client';
+import { Resend } from 'resend';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { assertOutboundUrl } from '@/lib/outbound-url';
+import { emitWebhookEvent, hasWebhookSubscribers, toLevelChanges } from '@/lib/webhooks';
+import { crossedInto, loadScoreTransitions, ScoreTransition } from './trajectory';
+import { RiskLevel, Segment } from './types';
+
+// ==================== VALIDATION ====================
+
+const emailList = (value: string) =>
+  value.split(',').map((e) => e.trim()).filter(Boolean);
+
+export const churnAlertRuleSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    enabled: z.boolean().default(true),
+    minLevel: z.enum(['high', 'critical']).default('high'),
+    segments: z.array(z.enum(['new_user', 'active_user', 'paid_user'])).min(1).default(['paid_user']),
+    channel: z.enum(['webhook', 'email']),
+    target: z.string().trim().min(1).max(1000),
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.channel === 'webhook') {
+      if (!/^https?:\/\/\S+$/.test(rule.target)) {
+        ctx.addIssue({ code: 'custom', path: ['target'], message: 'Webhook target must be an http(s) URL' });
+      }
+    } else {
+      const recipients = emailList(rule.target);
+      if (recipients.length === 0 || recipients.some((e) => !z.email().safeParse(e).success)) {
+        ctx.addIssue({ code: 'custom', path: ['target'], message: 'Email target must be a comma-separated list of addresses' });
+      }
+    }
+  });
+
+export type ChurnAlertRuleInput = z.infer<typeof churnAlertRuleSchema>;
+
+/** Fields recorded in the audit log; segments are compared as text so reordering isn't a change. */
+export function auditedAlertRule(rule: ChurnAlertRule) {
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    minLevel: rule.minLevel,
+    segments: [...((rule.segments as string[] | null) ?? [])].sort().join(','),
+    channel: rule.channel,
+    target: rule.target,
+  };
+}
+
+// ==================== MATCHING ====================
+
+/**
+ * Users a rule fires for: in one of the rule's segments and crossed into
+ * its minimum level since the previous scored day.
+ */
+export function matchAlertRule(
+  transitions: ScoreTransition[],
+  rule: Pick<ChurnAlertRule, 'minLevel' | 'segments'>
+): ScoreTransition[] {
+  const segments = new Set((rule.segments as Segment[] | null) ?? []);
+  return transitions.filter(
+    (t) => segments.has(t.segment) && crossedInto(t, rule.minLevel as RiskLevel)
+  );
+}
+
+// ==================== DELIVERY ====================
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Wait before each retry of a failed alert: 10m, 1h, 6h — then it stays failed
+export const ALERT_RETRY_DELAYS_MS = [10 * 60_000, 60 * 60_000, 6 * 60 * 60_000];
+
+/** When to retry an alert after `attempts` failed attempts, or null to give up. */
+export function nextAlertRetryAt(attempts: number, now = new Date()): Date | null {
+  const delay = ALERT_RETRY_DELAYS_MS[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay);
+}
+
+let resend: Resend | null = null;
+
+function getResendClient(): Resend {
+  if (!resend) {
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY is not configured');
+    }
+    resend = new Resend(process.env.RESEND_API_KEY);
+  }
+  return resend;
+}
+
+interface AlertContext {
+  project: { id: string; name: string };
+  rule: ChurnAlertRule;
+  date: string;
+  users: ScoreTransition[];
+}
+
+function alertPayload({ project, rule, date, users }: AlertContext) {
+  return {
+    event: 'churn_alert',
+    project,
+    rule: { id: rule.id, name: rule.name, minLevel: rule.minLevel },
+    date,
+    users: users.map((u) => ({
+      distinctId: u.distinctId,
+      email: u.email,
+      segment: u.segment,
+      previousLevel: u.previousLevel,
+      riskLevel: u.riskLevel,
+      previousScore: u.previousScore,
+      riskScore: u.riskScore,
+    })),
+  };
+}
+
+async function sendWebhookAlert(context: AlertContext): Promise<void> {
+  await assertOutboundUrl(context.rule.target);
+  const response = await fetch(context.rule.target, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(alertPayload(context)),
+    redirect: 'manual',
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded ${response.status}`);
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+async function sendEmailAlert({ project, rule, date, users }: AlertContext): Promise<void> {
+  const fromEmail = process.env.RESEND_FROM_EMAIL || 'noreply@resend.dev';
+  const subject = `${users.length} user${users.length === 1 ? '' : 's'} crossed into ${rule.minLevel} churn risk — ${project.name}`;
+
+  const rows = users
+    .map((u) => {
+      const who = escapeHtml(u.email || u.distinctId);
+      const from = u.previousLevel ? `${u.previousLevel} (${u.previousScore})` : 'new';
+      return `<tr><td style="padding: 6px 12px;">${who}</td><td style="padding: 6px 12px;">${from}</td><td style="padding: 6px 12px;"><strong>${u.riskLevel} (${u.riskScore})</strong></td></tr>`;
+    })
+    .join('');
+
+  const html = `
+<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1e293b;">
+  <h2 style="margin: 0 0 8px;">Churn alert: ${escapeHtml(rule.name)}</h2>
+  <p style="margin: 0 0 16px; color: #475569;">Scores from ${date} for ${escapeHtml(project.name)}.</p>
+  <table style="border-collapse: collapse; font-size: 14px;">
+    <tr style="text-align: left; color: #64748b;"><th style="padding: 6px 12px;">User</th><th style="padding: 6px 12px;">Before</th><th style="padding: 6px 12px;">Now</th></tr>
+    ${rows}
+  </table>
+</div>`;
+
+  const text = users
+    .map((u) => `${u.email || u.distinctId}: ${u.previousLevel ?? 'new'} -> ${u.riskLevel} (${u.riskScore})`)
+    .join('\n');
+
+  const { error } = await getResendClient().emails.send({
+    from: fromEmail,
+    to: emailList(rule.target),
+    subject,
+    html,
+    text: `Churn alert: ${rule.name} (${date})\n\n${text}`,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/** Send one notification for a rule; returns the error message if it failed. */
+async function deliverAlert(context: AlertContext): Promise<string | null> {
+  try {
+    if (context.rule.channel === 'email') {
+      await sendEmailAlert(context);
+    } else {
+      await sendWebhookAlert(context);
+    }
+    return null;
+  } catch (err) {
+    console.error(`[ChurnAlerts] Rule ${context.rule.id} delivery failed:`, err);
+    return err instanceof Error ? err.message : 'Unknown error';
+  }
+}
+
+// ==================== MAIN ====================
+
+/**
+ * Evaluate the project's enabled alert rules against a scored day and send
+ * one notification per rule covering every user that crossed its level.
+ * Users already alerted for a rule on this date are skipped, so re-running
+ * scoring does not re-notify. Failed deliveries are retried with backoff by
+ * the retry-churn-alerts cron (see retryFailedChurnAlerts).
+ * Returns the number of users alerted.
+ */
+export async function evaluateChurnAlerts(projectId: string, date: Date): Promise<number> {
+  const rules = await prisma.churnAlertRule.findMany({
+    where: { projectId, enabled: true },
+  });
+  if (rules.length === 0) return 0;
+
+  const project = await prisma.project.findUniqueOrThrow({
+    where: { id: projectId },
+    select: { id: true, name: true },
+  });
+
+  // Nothing has crossed anything on the first scored day
+  const { date: dateStr, previousDate, transitions } = await loadScoreTransitions(projectId, date);
+  if (!dateStr || !previousDate) return 0;
+
+  let alerted = 0;
+
+  for (const rule of rules) {
+    const matches = matchAlertRule(transitions, rule);
+    if (matches.length === 0) continue;
+
+    const already = await prisma.churnAlert.findMany({
+      where: { ruleId: rule.id, date, status: 'sent', distinctId: { in: matches.map((m) => m.distinctId) } },
+      select: { distinctId: true },
+    });
+    const alreadySent = new Set(already.map((a) => a.distinctId));
+    const users = matches.filter((m) => !alreadySent.has(m.distinctId));
+    if (users.length === 0) continue;
+
+    const error = await deliverAlert({ project, rule, date: dateStr, users });
+    if (!error) alerted += users.length;
+
+    // Failed deliveries from an earlier run of the same day are replaced
+    await prisma.churnAlert.deleteMany({
+      where: { ruleId: rule.id, date, distinctId: { in: users.map((u) => u.distinctId) } },
+    });
+    await prisma.churnAlert.createMany({
+      data: users.map((u) => ({
+        projectId,
+        ruleId: rule.id,
+        date,
+        distinctId: u.distinctId,
+        email: u.email,
+        fromLevel: u.previousLevel,
+        toLevel: u.riskLevel,
+        riskScore: u.riskScore,
+        status: error ? 'failed' : 'sent',
+        error,
+        nextAttemptAt: error ? nextAlertRetryAt(1) : null,
+      })),
+    });
+  }
+
+  console.log(`[ChurnAlerts] Alerted ${alerted} users across ${rules.length} rules for project ${projectId}`);
+  return alerted;
+}
+
+/**
+ * Fire `churn_score.level_changed` for a scored day with every user whose
+ * risk level moved since the previous scored day.
+ */
+export async function emitLevelChangeWebhooks(projectId: string, date: Date): Promise<void> {
+  if (!(await hasWebhookSubscribers(projectId, 'churn_score.level_changed'))) return;
+
+  const { date: dateStr, transitions } = await loadScoreTransitions(projectId, date);
+  const users = toLevelChanges(transitions);
+  if (!dateStr || users.length === 0) return;
+
+  await emitWebhookEvent(projectId, 'churn_score.level_changed', { date: dateStr, users });
+}
+
+// ==================== RETRIES ====================
+
+const RETRY_BATCH_SIZE = 500;
+
+/**
+ * Re-send failed alerts whose backoff has elapsed, one notification per
+ * rule and scoring date, until the deadline. The payload is rebuilt from
+ * that day's scores, so users no longer scored that day are dropped.
+ * Alerts for disabled rules wait until the rule is enabled again.
+ */
+export async function retryFailedChurnAlerts(
+  deadline: number,
+  now = new Date()
+): Promise<{ due: number; sent: number; failed: number; deferred: number }> {
+  const due = await prisma.churnAlert.findMany({
+    where: { status: 'failed', nextAttemptAt: { lte: now }, rule: { enabled: true } },
+    include: { rule: true, project: { select: { id: true, name: true } } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: RETRY_BATCH_SIZE,
+  });
+
+  const groups = new Map<string, typeof due>();
+  for (const alert of due) {
+    const key = `${alert.ruleId}:${alert.date.toISOString()}`;
+    groups.set(key, [...(groups.get(key) ?? []), alert]);
+  }
+
+  let sent = 0;
+  let failed = 0;
+  let deferred = 0;
+
+  for (const alerts of groups.values()) {
+    if (Date.now() > deadline) {
+      deferred += alerts.length;
+      continue;
+    }
+
+    const { rule, project, date } = alerts[0];
+    const attempts = Math.max(...alerts.map((a) => a.attempts)) + 1;
+
+    const { date: dateStr, transitions } = await loadScoreTransitions(project.id, date);
+    const pendingUsers = new Set(alerts.map((a) => a.distinctId));
+    const users = transitions.filter((t) => pendingUsers.has(t.distinctId));
+    const scoredUsers = new Set(users.map((u) => u.distinctId));
+
+    const unscored = alerts.filter((a) => !scoredUsers.has(a.distinctId));
+    if (unscored.length > 0) {
+      await prisma.churnAlert.updateMany({
+        where: { id: { in: unscored.map((a) => a.id) } },
+        data: { nextAttemptAt: null, error: 'Score for this date is no longer available' },
+      });
+      failed += unscored.length;
+    }
+    if (!dateStr || users.length === 0) continue;
+
+    const error = await deliverAlert({ project, rule, date: dateStr, users });
+    await prisma.churnAlert.updateMany({
+      where: { id: { in: alerts.filter((a) => scoredUsers.has(a.distinctId)).map((a) => a.id) } },
+      data: {
+        status: error ? 'failed' : 'sent',
+        error,
+        attempts,
+        nextAttemptAt: error ? nextAlertRetryAt(attempts) : null,
+      },
+    });
+    if (error) failed += users.length;
+    else sent += users.length;
+  }
+
+  return { due: due.length, sent, failed, deferred };
+}
@@ -0,0 +1,87 @@
+import { Project } from '@prisma/client';
+import { fetchAmplitudeEvents, formatAmplitudeDate, projectAmplitudeConfig } from '@/lib/amplitude';
+import type { AmplitudeEvent } from '@/lib/amplitude';
+import { createMetricsAccumulator, LOOKBACK_DAYS, parseFlag, PersonProperties } from './metrics-accumulator';
+import { ChurnModel, RawUserMetrics } from './types';
+
+function parseAmplitudeTime(value: string): number {
+  return new Date(value.replace(' ', 'T') + 'Z').getTime();
+}
+
+function toPerson(event: AmplitudeEvent, model: ChurnModel): PersonProperties {
+  const properties = event.user_properties ?? {};
+  const paidStatus = properties[model.paidStatus.property];
+  const email = typeof properties.email === 'string'
+    ? properties.email
+    : event.user_id?.includes('@') ? event.user_id : null;
+
+  return {
+    email,
+    paidStatus: paidStatus == null ? null : String(paidStatus),
+    isPro: model.paidStatus.flagProperty ? parseFlag(properties[model.paidStatus.flagProperty]) : null,
+    createdAt: event.user_creation_time
+      ? new Date(parseAmplitudeTime(event.user_creation_time)).toISOString()
+      : null,
+  };
+}
+
+/**
+ * Build per-user churn metrics from the Amplitude Export API, one day per
+ * request. User properties travel with each event, so the latest event's
+ * properties supply email, creation time and paid status.
+ */
+export async function fetchAmplitudeUserMetrics(project: Project, model: ChurnModel): Promise<RawUserMetrics[]> {
+  const now = Date.now();
+  const accumulator = createMetricsAccumulator(model, now);
+  const { apiKey, secretKey } = projectAmplitudeConfig(project);
+  let eventCount = 0;
+
+  const day = new Date(now);
+  day.setUTCHours(0, 0, 0, 0);
+  day.setUTCDate(day.getUTCDate() - LOOKBACK_DAYS);
+
+  while (day.getTime() <= now) {
+    const end = new Date(day);
+    end.setUTCHours(23);
+
+    let events: AmplitudeEvent[];
+    try {
+      events = await fetchAmplitudeEvents(
+        apiKey,
+        secretKey,
+        formatAmplitudeDate(day),
+        formatAmplitudeDate(end)
+      );
+    } catch (error) {
+      // Amplitude answers 404 for days without any events
+      if (error instanceof Error && error.message.startsWith('No data found')) {
+        events = [];
+      } else {
+        throw error;
+      }
+    }
+
+    for (const event of events) {
+      const distinctId = event.user_id || event.device_id;
+      if (!distinctId) continue;
+      eventCount++;
+      accumulator.add(
+        {
+          distinctId,
+          event: event.event_type,
+          timestamp: parseAmplitudeTime(event.event_time),
+          sessionId: event.session_id && event.session_id !== -1 ? String(event.session_id) : null,
+        },
+        toPerson(event, model)
+      );
+    }
+
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  const metrics = accumulator.finish();
+  console.log(
+    `[ChurnScoring] Aggregated ${eventCount} Amplitude events into ${metrics.length} users for project ${project.id}`
+  );
+  return metrics;
+}
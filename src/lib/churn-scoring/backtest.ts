@@ -0,0 +1,305 @@
+import { DailyChurnScore } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveChurnModel } from './churn-model';
+import { resolveChurnRuleSet } from './rule-set';
+import { scoreWithSegment } from './scoring-rules';
+import { ChurnModel, ChurnRuleSet, RawUserMetrics, RiskLevel, Segment } from './types';
+
+// ==================== TYPES ====================
+
+export interface BacktestOptions {
+  horizonDays: number;   // How far after the snapshot to look for the outcome
+  inactiveDays: number;  // daysSinceLastEvent at the outcome date that counts as churned
+  maxSnapshots: number;  // Most recent scored dates to replay
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  horizonDays: 14,
+  inactiveDays: 14,
+  maxSnapshots: 4,
+};
+
+export interface BacktestSample {
+  segment: Segment;
+  metrics: RawUserMetrics;
+  churned: boolean;
+}
+
+export interface LevelPrecisionRecall {
+  level: Exclude<RiskLevel, 'low'>;
+  predicted: number;      // Users scored at or above this level
+  truePositives: number;  // ...who went inactive
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface BacktestReport {
+  ruleSet: ChurnRuleSet;
+  options: BacktestOptions;
+  snapshotDates: string[];
+  samples: number;
+  churned: number;
+  baseRate: number | null;
+  excludedAlreadyInactive: number;
+  byLevel: Record<RiskLevel, { users: number; churned: number; churnRate: number | null }>;
+  atOrAbove: LevelPrecisionRecall[];
+}
+
+// ==================== EVALUATION ====================
+
+const LEVEL_ORDER: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+/**
+ * Re-score historical samples with a rule set and measure how well each
+ * risk level predicted the users who actually went inactive.
+ */
+export function evaluateBacktest(
+  samples: BacktestSample[],
+  model: ChurnModel,
+  ruleSet: ChurnRuleSet
+): Pick<BacktestReport, 'samples' | 'churned' | 'baseRate' | 'byLevel' | 'atOrAbove'> {
+  const byLevel: BacktestReport['byLevel'] = {
+    low: { users: 0, churned: 0, churnRate: null },
+    medium: { users: 0, churned: 0, churnRate: null },
+    high: { users: 0, churned: 0, churnRate: null },
+    critical: { users: 0, churned: 0, churnRate: null },
+  };
+
+  let totalChurned = 0;
+  for (const sample of samples) {
+    const { riskLevel } = scoreWithSegment(sample.metrics, sample.segment, model, ruleSet);
+    byLevel[riskLevel].users++;
+    if (sample.churned) {
+      byLevel[riskLevel].churned++;
+      totalChurned++;
+    }
+  }
+
+  for (const level of LEVEL_ORDER) {
+    byLevel[level].churnRate = ratio(byLevel[level].churned, byLevel[level].users);
+  }
+
+  const atOrAbove: LevelPrecisionRecall[] = (['medium', 'high', 'critical'] as const).map((level) => {
+    const levels = LEVEL_ORDER.slice(LEVEL_ORDER.indexOf(level));
+    const predicted = levels.reduce((sum, l) => sum + byLevel[l].users, 0);
+    const truePositives = levels.reduce((sum, l) => sum + byLevel[l].churned, 0);
+    return {
+      level,
+      predicted,
+      truePositives,
+      precision: ratio(truePositives, predicted),
+      recall: ratio(truePositives, totalChurned),
+    };
+  });
+
+  return {
+    samples: samples.length,
+    churned: totalChurned,
+    baseRate: ratio(totalChurned, samples.length),
+    byLevel,
+    atOrAbove,
+  };
+}
+
+// ==================== SAMPLE LOADING ====================
+
+type StoredScore = Pick<
+  DailyChurnScore,
+  | 'distinctId'
+  | 'email'
+  | 'segment'
+  | 'isPro'
+  | 'paidStatus'
+  | 'daysSinceLastEvent'
+  | 'daysSinceLastCoreAction'
+  | 'daysSinceLastEngagement'
+  | 'sessionsLast7d'
+  | 'sessionsPrev7d'
+  | 'engagementLast7d'
+  | 'engagementPrev7d'
+  | 'coreActionLast7d'
+  | 'coreActionPrev7d'
+  | 'coreActionCompletedLast7d'
+  | 'featureUsedLast7d'
+  | 'featureUsedPrev7d'
+  | 'frictionLast7d'
+  | 'paidFrictionLast30d'
+>;
+
+/**
+ * Rebuild the raw metrics a stored score was computed from. Person creation
+ * time is not stored, so callers must re-use the stored segment.
+ */
+export function storedScoreToMetrics(row: StoredScore): RawUserMetrics {
+  return {
+    distinct_id: row.distinctId,
+    email: row.email,
+    is_pro: row.isPro,
+    paid_status: row.paidStatus,
+    person_created_at: null,
+    days_since_last_event: row.daysSinceLastEvent,
+    days_since_last_core_action: row.daysSinceLastCoreAction,
+    days_since_last_engagement: row.daysSinceLastEngagement,
+    sessions_last_7d: row.sessionsLast7d,
+    sessions_prev_7d: row.sessionsPrev7d,
+    engagement_last_7d: row.engagementLast7d,
+    engagement_prev_7d: row.engagementPrev7d,
+    core_action_last_7d: row.coreActionLast7d,
+    core_action_prev_7d: row.coreActionPrev7d,
+    core_action_completed_last_7d: row.coreActionCompletedLast7d,
+    feature_used_last_7d: row.featureUsedLast7d,
+    feature_used_prev_7d: row.featureUsedPrev7d,
+    friction_last_7d: row.frictionLast7d,
+    paid_friction_last_30d: row.paidFrictionLast30d,
+  };
+}
+
+const STORED_SCORE_SELECT = {
+  distinctId: true,
+  email: true,
+  segment: true,
+  isPro: true,
+  paidStatus: true,
+  daysSinceLastEvent: true,
+  daysSinceLastCoreAction: true,
+  daysSinceLastEngagement: true,
+  sessionsLast7d: true,
+  sessionsPrev7d: true,
+  engagementLast7d: true,
+  engagementPrev7d: true,
+  coreActionLast7d: true,
+  coreActionPrev7d: true,
+  coreActionCompletedLast7d: true,
+  featureUsedLast7d: true,
+  featureUsedPrev7d: true,
+  frictionLast7d: true,
+  paidFrictionLast30d: true,
+} as const;
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+/**
+ * Load historical samples: for each of the most recent snapshot dates that
+ * have an outcome date `horizonDays` later, pair every user still active at
+ * the snapshot with whether they were inactive at the outcome date. Users
+ * missing from the outcome day's run fell out of the 60-day window and count
+ * as churned, so only a completed run is a usable outcome — snapshots whose
+ * outcome day has no run, or one still in progress or failed, are skipped.
+ */
+async function loadBacktestSamples(projectId: string, options: BacktestOptions) {
+  const latest = await prisma.dailyChurnScore.findFirst({
+    where: { projectId },
+    orderBy: { date: 'desc' },
+    select: { date: true },
+  });
+
+  if (!latest) {
+    return { samples: [], snapshotDates: [], excludedAlreadyInactive: 0 };
+  }
+
+  const candidateDates = await prisma.dailyChurnScore.groupBy({
+    by: ['date'],
+    where: { projectId, date: { lte: addDays(latest.date, -options.horizonDays) } },
+    orderBy: { date: 'desc' },
+    take: options.maxSnapshots * 2,
+  });
+
+  const samples: BacktestSample[] = [];
+  const snapshotDates: string[] = [];
+  let excludedAlreadyInactive = 0;
+
+  for (const { date } of candidateDates) {
+    if (snapshotDates.length >= options.maxSnapshots) break;
+
+    const outcomeDate = addDays(date, options.horizonDays);
+    const outcomeRun = await prisma.churnScoringRun.findUnique({
+      where: { projectId_date: { projectId, date: outcomeDate } },
+      select: { status: true },
+    });
+    if (outcomeRun?.status !== 'completed') continue;
+
+    const outcomeRows = await prisma.dailyChurnScore.findMany({
+      where: { projectId, date: outcomeDate },
+      select: { distinctId: true, daysSinceLastEvent: true },
+    });
+    if (outcomeRows.length === 0) continue;
+
+    const outcomeByUser = new Map(outcomeRows.map((r) => [r.distinctId, r.daysSinceLastEvent]));
+
+    const snapshotRows = await prisma.dailyChurnScore.findMany({
+      where: { projectId, date },
+      select: STORED_SCORE_SELECT,
+    });
+
+    for (const row of snapshotRows) {
+      if ((row.daysSinceLastEvent ?? 0) >= options.inactiveDays) {
+        excludedAlreadyInactive++;
+        continue;
+      }
+      const outcomeDays = outcomeByUser.get(row.distinctId);
+      samples.push({
+        segment: row.segment as Segment,
+        metrics: storedScoreToMetrics(row),
+        churned: outcomeDays === undefined || (outcomeDays ?? 999) >= options.inactiveDays,
+      });
+    }
+
+    snapshotDates.push(date.toISOString().split('T')[0]);
+  }
+
+  return { samples, snapshotDates, excludedAlreadyInactive };
+}
+
+// ==================== MAIN ====================
+
+/**
+ * Replay stored DailyChurnScore history against a rule set (the project's
+ * own when none is given) and report precision/recall per risk level.
+ * With a candidate rule set, `current` holds the project's rule set
+ * evaluated on the same samples for side-by-side comparison.
+ */
+export async function runChurnBacktest(
+  projectId: string,
+  candidate?: ChurnRuleSet,
+  options: Partial<BacktestOptions> = {}
+): Promise<{ report: BacktestReport; current?: BacktestReport }> {
+  const project = await prisma.project.findUniqueOrThrow({
+    where: { id: projectId },
+    select: { churnModel: true, churnRuleSet: true },
+  });
+
+  const model = resolveChurnModel(project.churnModel);
+  const currentRuleSet = resolveChurnRuleSet(project.churnRuleSet);
+  const effectiveOptions = { ...DEFAULT_BACKTEST_OPTIONS, ...options };
+
+  const { samples, snapshotDates, excludedAlreadyInactive } = await loadBacktestSamples(
+    projectId,
+    effectiveOptions
+  );
+
+  console.log(
+    `[ChurnScoring] Backtest for project ${projectId}: ${samples.length} samples across ${snapshotDates.length} snapshots`
+  );
+
+  const buildReport = (ruleSet: ChurnRuleSet): BacktestReport => ({
+    ruleSet,
+    options: effectiveOptions,
+    snapshotDates,
+    excludedAlreadyInactive,
+    ...evaluateBacktest(samples, model, ruleSet),
+  });
+
+  if (!candidate) {
+    return { report: buildReport(currentRuleSet) };
+  }
+
+  return { report: buildReport(candidate), current: buildReport(currentRuleSet) };
+}
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { ChurnModel } from './types';
+
+// ==================== DEFAULT MODEL ====================
+
+/**
+ * The original chat-app vocabulary. Projects without a stored churn model
+ * are scored with this, so existing DailyChurnScore history stays comparable.
+ */
+export const DEFAULT_CHURN_MODEL: ChurnModel = {
+  coreAction: {
+    event: 'chat_started',
+    completionEvent: 'chat_ended',
+  },
+  engagementEvents: ['message_sent'],
+  featureEvents: ['feature_used'],
+  frictionEvents: {
+    free: ['paywall_viewed'],
+    paid: ['manage_subscription_tapped'],
+  },
+  paidStatus: {
+    property: 'subscription_status',
+    paidValues: ['active', 'trialing'],
+    flagProperty: 'is_pro',
+  },
+};
+
+// ==================== VALIDATION ====================
+
+// Person property names are interpolated into HogQL as identifiers, so only
+// plain identifier characters are accepted.
+const propertyName = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z_$][A-Za-z0-9_$]*$/, 'Property names may only contain letters, digits, _ and $');
+
+const eventName = z.string().trim().min(1).max(200);
+
+export const churnModelSchema = z.object({
+  coreAction: z.object({
+    event: eventName,
+    completionEvent: eventName.nullable().default(null),
+  }),
+  engagementEvents: z.array(eventName).max(20).default([]),
+  featureEvents: z.array(eventName).max(20).default([]),
+  frictionEvents: z
+    .object({
+      free: z.array(eventName).max(20).default([]),
+      paid: z.array(eventName).max(20).default([]),
+    })
+    .default({ free: [], paid: [] }),
+  paidStatus: z.object({
+    property: propertyName,
+    paidValues: z.array(z.string().trim().min(1)).min(1),
+    flagProperty: propertyName.nullable().default(null),
+  }),
+});
+
+/**
+ * Resolve the churn model for a project. Falls back to DEFAULT_CHURN_MODEL
+ * when nothing is stored or the stored value no longer validates.
+ */
+export function resolveChurnModel(stored: unknown): ChurnModel {
+  if (stored == null) {
+    return DEFAULT_CHURN_MODEL;
+  }
+
+  const parsed = churnModelSchema.safeParse(stored);
+  if (!parsed.success) {
+    console.warn('[ChurnScoring] Invalid churn model on project, using default:', parsed.error.message);
+    return DEFAULT_CHURN_MODEL;
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Short human labels for the model's metrics, used by the churn-scores page.
+ */
+export function describeChurnModel(model: ChurnModel) {
+  return {
+    coreAction: model.coreAction.event,
+    coreActionCompletion: model.coreAction.completionEvent,
+    engagement: model.engagementEvents.join(', ') || null,
+    features: model.featureEvents.join(', ') || null,
+    friction: model.frictionEvents.free.join(', ') || null,
+    paidFriction: model.frictionEvents.paid.join(', ') || null,
+  };
+}
+
+export type ChurnModelLabels = ReturnType<typeof describeChurnModel>;
@@ -1,84 +1,113 @@
 import { Project } from '@prisma/client';
 import { createProjectClient } from '@/lib/posthog-factory';
-import { RawUserMetrics } from './types';
+import { ChurnModel, RawUserMetrics } from './types';
 
-const PAGE_SIZE = 5000;
+const LAST_7D = 'timestamp > now() - INTERVAL 7 DAY';
+const PREV_7D = 'timestamp > now() - INTERVAL 14 DAY AND timestamp <= now() - INTERVAL 7 DAY';
+const LAST_30D = 'timestamp > now() - INTERVAL 30 DAY';
 
-const HOGQL_QUERY = `
+function hogqlString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * `event IN (...)` condition for a list of events. An empty list matches
+ * nothing, so the corresponding counts come back as 0.
+ */
+function eventCondition(events: string[]): string {
+  if (events.length === 0) return '0';
+  if (events.length === 1) return `event = ${hogqlString(events[0])}`;
+  return `event IN (${events.map(hogqlString).join(', ')})`;
+}
+
+/**
+ * Build the per-user metrics query for a churn model. Column order must
+ * match parseRow(). Rows are ordered by distinct_id so pages can be fetched
+ * with keyset pagination (`afterDistinctId`) instead of OFFSET.
+ */
+export function buildChurnHogQLQuery(model: ChurnModel, afterDistinctId: string | null = null): string {
+  const core = eventCondition([model.coreAction.event]);
+  const completion = eventCondition(model.coreAction.completionEvent ? [model.coreAction.completionEvent] : []);
+  const engagement = eventCondition(model.engagementEvents);
+  const features = eventCondition(model.featureEvents);
+  const friction = eventCondition(model.frictionEvents.free);
+  const paidFriction = eventCondition(model.frictionEvents.paid);
+  const keyset = afterDistinctId != null ? `\n  AND distinct_id > ${hogqlString(afterDistinctId)}` : '';
+  const flag = model.paidStatus.flagProperty
+    ? `person.properties.${model.paidStatus.flagProperty}`
+    : 'NULL';
+
+  return `
 SELECT
   distinct_id,
   person.properties.email AS email,
-  person.properties.is_pro AS is_pro,
-  person.properties.subscription_status AS subscription_status,
+  ${flag} AS is_pro,
+  person.properties.${model.paidStatus.property} AS paid_status,
   person.created_at AS person_created_at,
   dateDiff('day', max(timestamp), now()) AS days_since_last_event,
-  dateDiff('day', maxIf(timestamp, event = 'chat_started'), now()) AS days_since_last_chat_started,
-  dateDiff('day', maxIf(timestamp, event = 'message_sent'), now()) AS days_since_last_message_sent,
-  uniqIf(properties.$session_id, timestamp > now() - INTERVAL 7 DAY) AS sessions_last_7d,
-  uniqIf(properties.$session_id, timestamp > now() - INTERVAL 14 DAY AND timestamp <= now() - INTERVAL 7 DAY) AS sessions_prev_7d,
-  countIf(event = 'message_sent' AND timestamp > now() - INTERVAL 7 DAY) AS message_sent_last_7d,
-  countIf(event = 'message_sent' AND timestamp > now() - INTERVAL 14 DAY AND timestamp <= now() - INTERVAL 7 DAY) AS message_sent_prev_7d,
-  countIf(event = 'chat_started' AND timestamp > now() - INTERVAL 7 DAY) AS chat_started_last_7d,
-  countIf(event = 'chat_started' AND timestamp > now() - INTERVAL 14 DAY AND timestamp <= now() - INTERVAL 7 DAY) AS chat_started_prev_7d,
-  countIf(event = 'chat_ended' AND timestamp > now() - INTERVAL 7 DAY) AS chat_ended_last_7d,
-  countIf(event = 'feature_used' AND timestamp > now() - INTERVAL 7 DAY) AS feature_used_last_7d,
-  countIf(event = 'feature_used' AND timestamp > now() - INTERVAL 14 DAY AND timestamp <= now() - INTERVAL 7 DAY) AS feature_used_prev_7d,
-  countIf(event = 'paywall_viewed' AND timestamp > now() - INTERVAL 7 DAY) AS paywall_viewed_last_7d,
-  countIf(event = 'manage_subscription_tapped' AND timestamp > now() - INTERVAL 30 DAY) AS manage_sub_tapped_last_30d
+  dateDiff('day', maxIf(timestamp, ${core}), now()) AS days_since_last_core_action,
+  dateDiff('day', maxIf(timestamp, ${engagement}), now()) AS days_since_last_engagement,
+  uniqIf(properties.$session_id, ${LAST_7D}) AS sessions_last_7d,
+  uniqIf(properties.$session_id, ${PREV_7D}) AS sessions_prev_7d,
+  countIf(${engagement} AND ${LAST_7D}) AS engagement_last_7d,
+  countIf(${engagement} AND ${PREV_7D}) AS engagement_prev_7d,
+  countIf(${core} AND ${LAST_7D}) AS core_action_last_7d,
+  countIf(${core} AND ${PREV_7D}) AS core_action_prev_7d,
+  countIf(${completion} AND ${LAST_7D}) AS core_action_completed_last_7d,
+  countIf(${features} AND ${LAST_7D}) AS feature_used_last_7d,
+  countIf(${features} AND ${PREV_7D}) AS feature_used_prev_7d,
+  countIf(${friction} AND ${LAST_7D}) AS friction_last_7d,
+  countIf(${paidFriction} AND ${LAST_30D}) AS paid_friction_last_30d
 FROM events
 WHERE timestamp > now() - INTERVAL 60 DAY
-  AND distinct_id != ''
-GROUP BY distinct_id, email, is_pro, subscription_status, person_created_at
+  AND distinct_id != ''${keyset}
+GROUP BY distinct_id, email, is_pro, paid_status, person_created_at
 HAVING days_since_last_event <= 60
-ORDER BY days_since_last_event ASC
+ORDER BY distinct_id ASC
 `;
+}
 
-function parseRow(row: any[]): RawUserMetrics {
+function parseRow(row: unknown[]): RawUserMetrics {
   return {
     distinct_id: String(row[0] ?? ''),
     email: row[1] != null ? String(row[1]) : null,
     is_pro: row[2] === true || row[2] === 'true' || row[2] === 1,
-    subscription_status: row[3] != null ? String(row[3]) : null,
+    paid_status: row[3] != null ? String(row[3]) : null,
     person_created_at: row[4] != null ? String(row[4]) : null,
     days_since_last_event: row[5] != null ? Number(row[5]) : null,
-    days_since_last_chat_started: row[6] != null ? Number(row[6]) : null,
-    days_since_last_message_sent: row[7] != null ? Number(row[7]) : null,
+    days_since_last_core_action: row[6] != null ? Number(row[6]) : null,
+    days_since_last_engagement: row[7] != null ? Number(row[7]) : null,
     sessions_last_7d: Number(row[8] ?? 0),
     sessions_prev_7d: Number(row[9] ?? 0),
-    message_sent_last_7d: Number(row[10] ?? 0),
-    message_sent_prev_7d: Number(row[11] ?? 0),
-    chat_started_last_7d: Number(row[12] ?? 0),
-    chat_started_prev_7d: Number(row[13] ?? 0),
-    chat_ended_last_7d: Number(row[14] ?? 0),
+    engagement_last_7d: Number(row[10] ?? 0),
+    engagement_prev_7d: Number(row[11] ?? 0),
+    core_action_last_7d: Number(row[12] ?? 0),
+    core_action_prev_7d: Number(row[13] ?? 0),
+    core_action_completed_last_7d: Number(row[14] ?? 0),
     feature_used_last_7d: Number(row[15] ?? 0),
     feature_used_prev_7d: Number(row[16] ?? 0),
-    paywall_viewed_last_7d: Number(row[17] ?? 0),
-    manage_sub_tapped_last_30d: Number(row[18] ?? 0),
+    friction_last_7d: Number(row[17] ?? 0),
+    paid_friction_last_30d: Number(row[18] ?? 0),
   };
 }
 
-export async function fetchAllUserMetrics(project: Project): Promise<RawUserMetrics[]> {
+/**
+ * Fetch one page of user metrics, keyset-paginated by distinct_id.
+ */
+export async function fetchUserMetricsPage(
+  project: Project,
+  model: ChurnModel,
+  afterDistinctId: string | null,
+  pageSize: number
+): Promise<RawUserMetrics[]> {
   const client = createProjectClient(project);
-  const allMetrics: RawUserMetrics[] = [];
-  let offset = 0;
-
-  while (true) {
-    const paginatedQuery = `${HOGQL_QUERY}LIMIT ${PAGE_SIZE} OFFSET ${offset}`;
-    console.log(`[ChurnScoring] Fetching users offset=${offset} for project ${project.id}`);
-
-    const result = await client.executeHogQL(paginatedQuery);
-    const rows: any[][] = result.results ?? [];
+  const query = `${buildChurnHogQLQuery(model, afterDistinctId)}LIMIT ${pageSize}`;
+  console.log(`[ChurnScoring] Fetching users after=${afterDistinctId ?? '(start)'} for project ${project.id}`);
 
-    for (const row of rows) {
-      allMetrics.push(parseRow(row));
-    }
-
-    if (rows.length < PAGE_SIZE) {
-      break;
-    }
-    offset += PAGE_SIZE;
+  const result = await client.executeHogQL(query);
+  const rows: unknown = result.results ?? [];
+  if (!Array.isArray(rows)) {
+    throw new Error('Unexpected HogQL response: results is not an array');
   }
-
-  console.log(`[ChurnScoring] Fetched ${allMetrics.length} users for project ${project.id}`);
-  return allMetrics;
+  return rows.filter((row): row is unknown[] => Array.isArray(row)).map(parseRow);
 }
@@ -0,0 +1,297 @@
+import { DailyChurnScore, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ChurnModelLabels } from './churn-model';
+import { ChurnRuleId, Segment } from './types';
+
+// ==================== TYPES ====================
+
+type ExplainedScore = Pick<
+  DailyChurnScore,
+  | 'segment'
+  | 'daysSinceLastEvent'
+  | 'daysSinceLastCoreAction'
+  | 'sessionsLast7d'
+  | 'sessionsPrev7d'
+  | 'engagementLast7d'
+  | 'engagementPrev7d'
+  | 'coreActionLast7d'
+  | 'coreActionPrev7d'
+  | 'featureUsedLast7d'
+  | 'featureUsedPrev7d'
+  | 'coreActionCompletionRateLast7d'
+  | 'engagementPerCoreActionLast7d'
+  | 'frictionLast7d'
+  | 'paidFrictionLast30d'
+  | 'recencyScore'
+  | 'usageDropScore'
+  | 'engagementQualityScore'
+  | 'frictionScore'
+  | 'featureAdoptionLossScore'
+>;
+
+/** Medians for one segment on one scoring day. Null when no user had the metric. */
+export interface SegmentBaseline {
+  users: number;
+  daysSinceLastEvent: number | null;
+  daysSinceLastCoreAction: number | null;
+  sessionsChangePct: number | null;
+  engagementChangePct: number | null;
+  coreActionChangePct: number | null;
+  featureChangePct: number | null;
+  completionRate: number | null;
+  engagementPerCoreAction: number | null;
+  frictionLast7d: number | null;
+  paidFrictionLast30d: number | null;
+}
+
+export type SegmentBaselines = Partial<Record<Segment, SegmentBaseline>>;
+
+export interface ChurnExplanation {
+  rule: ChurnRuleId;
+  points: number;   // The sub-score this sentence explains, for ordering
+  text: string;
+}
+
+// ==================== BASELINES ====================
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return Math.round(value * 100) / 100;
+}
+
+/** Week-over-week change in percent, or null without a previous week to compare. */
+export function changePct(last: number, prev: number): number | null {
+  if (prev <= 0) return null;
+  return Math.round(((last - prev) / prev) * 100);
+}
+
+function present(values: (number | null)[]): number[] {
+  return values.filter((v): v is number => v != null);
+}
+
+/**
+ * Per-segment medians of the metrics explanations compare against.
+ */
+export function computeSegmentBaselines(rows: ExplainedScore[]): SegmentBaselines {
+  const bySegment = new Map<string, ExplainedScore[]>();
+  for (const row of rows) {
+    const list = bySegment.get(row.segment) ?? [];
+    list.push(row);
+    bySegment.set(row.segment, list);
+  }
+
+  const baselines: SegmentBaselines = {};
+  for (const [segment, list] of bySegment) {
+    baselines[segment as Segment] = {
+      users: list.length,
+      daysSinceLastEvent: median(present(list.map((r) => r.daysSinceLastEvent))),
+      daysSinceLastCoreAction: median(present(list.map((r) => r.daysSinceLastCoreAction))),
+      sessionsChangePct: median(present(list.map((r) => changePct(r.sessionsLast7d, r.sessionsPrev7d)))),
+      engagementChangePct: median(present(list.map((r) => changePct(r.engagementLast7d, r.engagementPrev7d)))),
+      coreActionChangePct: median(present(list.map((r) => changePct(r.coreActionLast7d, r.coreActionPrev7d)))),
+      featureChangePct: median(present(list.map((r) => changePct(r.featureUsedLast7d, r.featureUsedPrev7d)))),
+      completionRate: median(present(list.map((r) => r.coreActionCompletionRateLast7d))),
+      engagementPerCoreAction: median(present(list.map((r) => r.engagementPerCoreActionLast7d))),
+      frictionLast7d: median(list.map((r) => r.frictionLast7d)),
+      paidFrictionLast30d: median(list.map((r) => r.paidFrictionLast30d)),
+    };
+  }
+  return baselines;
+}
+
+const BASELINE_SELECT = {
+  segment: true,
+  daysSinceLastEvent: true,
+  daysSinceLastCoreAction: true,
+  sessionsLast7d: true,
+  sessionsPrev7d: true,
+  engagementLast7d: true,
+  engagementPrev7d: true,
+  coreActionLast7d: true,
+  coreActionPrev7d: true,
+  featureUsedLast7d: true,
+  featureUsedPrev7d: true,
+  coreActionCompletionRateLast7d: true,
+  engagementPerCoreActionLast7d: true,
+  frictionLast7d: true,
+  paidFrictionLast30d: true,
+  recencyScore: true,
+  usageDropScore: true,
+  engagementQualityScore: true,
+  frictionScore: true,
+  featureAdoptionLossScore: true,
+} as const;
+
+/**
+ * Segment baselines for a scored day. Cached on the day's scoring run once
+ * it has completed; days still being scored are computed on every call.
+ */
+export async function getSegmentBaselines(projectId: string, date: Date): Promise<SegmentBaselines> {
+  const run = await prisma.churnScoringRun.findUnique({
+    where: { projectId_date: { projectId, date } },
+    select: { id: true, status: true, baselines: true },
+  });
+
+  if (run?.baselines) {
+    return run.baselines as SegmentBaselines;
+  }
+
+  const rows = await prisma.dailyChurnScore.findMany({
+    where: { projectId, date },
+    select: BASELINE_SELECT,
+  });
+  const baselines = computeSegmentBaselines(rows);
+
+  if (run?.status === 'completed') {
+    await prisma.churnScoringRun.update({
+      where: { id: run.id },
+      data: { baselines: baselines as unknown as Prisma.InputJsonValue },
+    });
+  }
+
+  return baselines;
+}
+
+// ==================== NARRATIVES ====================
+
+const SEGMENT_NOUNS: Record<Segment, string> = {
+  new_user: 'new user',
+  active_user: 'active user',
+  paid_user: 'paid user',
+};
+
+function describeChange(pct: number): string {
+  if (pct === 0) return 'flat';
+  return pct < 0 ? `down ${Math.abs(pct)}%` : `up ${pct}%`;
+}
+
+function days(n: number): string {
+  return `${n} day${n === 1 ? '' : 's'}`;
+}
+
+function times(n: number): string {
+  return `${n} time${n === 1 ? '' : 's'}`;
+}
+
+/**
+ * Turn a stored score into sentences that compare the user against the
+ * median user in their segment, strongest contributor first. Only rules
+ * that added points are explained.
+ */
+export function explainChurnScore(
+  score: ExplainedScore,
+  baseline: SegmentBaseline | undefined,
+  labels: ChurnModelLabels
+): ChurnExplanation[] {
+  const typical = `typical ${SEGMENT_NOUNS[score.segment as Segment] ?? 'user'}`;
+  const explanations: ChurnExplanation[] = [];
+
+  const compareChange = (subject: string, last: number, prev: number, baselinePct: number | null) => {
+    const pct = changePct(last, prev);
+    if (pct === null || pct >= 0) return null;
+    const versus = baselinePct != null ? `; ${typical} is ${describeChange(baselinePct)}` : '';
+    return `${subject} ${describeChange(pct)} vs. previous week${versus}`;
+  };
+
+  // Recency
+  if (score.recencyScore > 0) {
+    if (score.daysSinceLastEvent != null) {
+      const versus = baseline?.daysSinceLastEvent != null
+        ? `; ${typical} was last active ${days(Math.round(baseline.daysSinceLastEvent))} ago`
+        : '';
+      explanations.push({
+        rule: 'recency',
+        points: score.recencyScore,
+        text: `Last active ${days(score.daysSinceLastEvent)} ago${versus}`,
+      });
+    }
+    if (score.daysSinceLastCoreAction == null) {
+      explanations.push({ rule: 'recency', points: score.recencyScore, text: `Has never done ${labels.coreAction}` });
+    } else if (score.daysSinceLastCoreAction !== score.daysSinceLastEvent) {
+      const versus = baseline?.daysSinceLastCoreAction != null
+        ? `; ${typical}: ${days(Math.round(baseline.daysSinceLastCoreAction))}`
+        : '';
+      explanations.push({
+        rule: 'recency',
+        points: score.recencyScore,
+        text: `No ${labels.coreAction} for ${days(score.daysSinceLastCoreAction)}${versus}`,
+      });
+    }
+  }
+
+  // Usage drop
+  if (score.usageDropScore > 0) {
+    const sessions = compareChange('Sessions', score.sessionsLast7d, score.sessionsPrev7d, baseline?.sessionsChangePct ?? null);
+    if (sessions) explanations.push({ rule: 'usageDrop', points: score.usageDropScore, text: sessions });
+
+    const engagement = labels.engagement
+      ? compareChange(labels.engagement, score.engagementLast7d, score.engagementPrev7d, baseline?.engagementChangePct ?? null)
+      : null;
+    if (engagement) explanations.push({ rule: 'usageDrop', points: score.usageDropScore, text: engagement });
+  }
+
+  // Engagement quality
+  if (score.engagementQualityScore > 0) {
+    if (score.coreActionCompletionRateLast7d != null && labels.coreActionCompletion) {
+      const rate = Math.round(score.coreActionCompletionRateLast7d * 100);
+      const versus = baseline?.completionRate != null
+        ? `; ${typical} completes ${Math.round(baseline.completionRate * 100)}%`
+        : '';
+      explanations.push({
+        rule: 'engagementQuality',
+        points: score.engagementQualityScore,
+        text: `Completes ${rate}% of ${labels.coreAction} (${labels.coreActionCompletion})${versus}`,
+      });
+    }
+    if (score.engagementPerCoreActionLast7d != null && labels.engagement) {
+      const versus = baseline?.engagementPerCoreAction != null
+        ? `; ${typical}: ${baseline.engagementPerCoreAction.toFixed(1)}`
+        : '';
+      explanations.push({
+        rule: 'engagementQuality',
+        points: score.engagementQualityScore,
+        text: `${score.engagementPerCoreActionLast7d.toFixed(1)} ${labels.engagement} per ${labels.coreAction}${versus}`,
+      });
+    }
+  }
+
+  // Friction
+  if (score.frictionScore > 0) {
+    if (score.paidFrictionLast30d > 0 && labels.paidFriction) {
+      const versus = baseline?.paidFrictionLast30d != null ? `; ${typical}: ${baseline.paidFrictionLast30d}` : '';
+      explanations.push({
+        rule: 'friction',
+        points: score.frictionScore,
+        text: `${labels.paidFriction} ${times(score.paidFrictionLast30d)} in the last 30 days${versus}`,
+      });
+    }
+    if (score.frictionLast7d > 0 && labels.friction) {
+      const versus = baseline?.frictionLast7d != null ? `; ${typical}: ${baseline.frictionLast7d}` : '';
+      explanations.push({
+        rule: 'friction',
+        points: score.frictionScore,
+        text: `${labels.friction} ${times(score.frictionLast7d)} this week${versus}`,
+      });
+    }
+  }
+
+  // Feature adoption loss
+  if (score.featureAdoptionLossScore > 0 && labels.features) {
+    const features = compareChange(labels.features, score.featureUsedLast7d, score.featureUsedPrev7d, baseline?.featureChangePct ?? null);
+    if (features) {
+      explanations.push({ rule: 'featureAdoptionLoss', points: score.featureAdoptionLossScore, text: features });
+    } else if (score.featureUsedLast7d === 0) {
+      explanations.push({
+        rule: 'featureAdoptionLoss',
+        points: score.featureAdoptionLossScore,
+        text: `No ${labels.features} this week`,
+      });
+    }
+  }
+
+  // Stable sort keeps each rule's sentences in the order written above
+  return explanations.sort((a, b) => b.points - a.points);
+}
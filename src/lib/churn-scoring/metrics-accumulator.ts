@@ -0,0 +1,186 @@
+import { ChurnModel, RawUserMetrics } from './types';
+
+// Raw-event sources (Mixpanel, Amplitude) have no HogQL, so per-user metrics
+// are aggregated here from a stream of events. Windows mirror the HogQL query
+// in data-fetcher.ts so every source produces the same RawUserMetrics.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const LOOKBACK_DAYS = 60;
+
+export interface NormalizedEvent {
+  distinctId: string;
+  event: string;
+  timestamp: number;        // epoch ms
+  sessionId: string | null;
+}
+
+export interface PersonProperties {
+  email: string | null;
+  paidStatus: string | null;
+  isPro: boolean | null;
+  createdAt: string | null;
+}
+
+interface UserState {
+  lastEvent: number;
+  lastCoreAction: number | null;
+  lastEngagement: number | null;
+  sessionsLast7d: Set<string>;
+  sessionsPrev7d: Set<string>;
+  engagementLast7d: number;
+  engagementPrev7d: number;
+  coreActionLast7d: number;
+  coreActionPrev7d: number;
+  coreActionCompletedLast7d: number;
+  featureUsedLast7d: number;
+  featureUsedPrev7d: number;
+  frictionLast7d: number;
+  paidFrictionLast30d: number;
+  person: PersonProperties | null;
+  personAt: number;
+}
+
+export function parseFlag(value: unknown): boolean | null {
+  if (value == null) return null;
+  return value === true || value === 'true' || value === 1;
+}
+
+/**
+ * Incrementally aggregate events into per-user churn metrics. Events can be
+ * added in any order; person properties from the latest event win.
+ */
+export function createMetricsAccumulator(model: ChurnModel, now: number = Date.now()) {
+  const users = new Map<string, UserState>();
+
+  const engagement = new Set(model.engagementEvents);
+  const features = new Set(model.featureEvents);
+  const friction = new Set(model.frictionEvents.free);
+  const paidFriction = new Set(model.frictionEvents.paid);
+
+  const last7Start = now - 7 * DAY_MS;
+  const prev7Start = now - 14 * DAY_MS;
+  const last30Start = now - 30 * DAY_MS;
+  const lookbackStart = now - LOOKBACK_DAYS * DAY_MS;
+
+  function getState(distinctId: string): UserState {
+    let state = users.get(distinctId);
+    if (!state) {
+      state = {
+        lastEvent: 0,
+        lastCoreAction: null,
+        lastEngagement: null,
+        sessionsLast7d: new Set(),
+        sessionsPrev7d: new Set(),
+        engagementLast7d: 0,
+        engagementPrev7d: 0,
+        coreActionLast7d: 0,
+        coreActionPrev7d: 0,
+        coreActionCompletedLast7d: 0,
+        featureUsedLast7d: 0,
+        featureUsedPrev7d: 0,
+        frictionLast7d: 0,
+        paidFrictionLast30d: 0,
+        person: null,
+        personAt: 0,
+      };
+      users.set(distinctId, state);
+    }
+    return state;
+  }
+
+  function add(event: NormalizedEvent, person?: PersonProperties) {
+    if (!event.distinctId || event.timestamp <= lookbackStart || event.timestamp > now) return;
+
+    const state = getState(event.distinctId);
+    const ts = event.timestamp;
+    const inLast7 = ts > last7Start;
+    const inPrev7 = !inLast7 && ts > prev7Start;
+
+    state.lastEvent = Math.max(state.lastEvent, ts);
+
+    if (event.sessionId) {
+      if (inLast7) state.sessionsLast7d.add(event.sessionId);
+      else if (inPrev7) state.sessionsPrev7d.add(event.sessionId);
+    }
+
+    if (event.event === model.coreAction.event) {
+      state.lastCoreAction = Math.max(state.lastCoreAction ?? 0, ts);
+      if (inLast7) state.coreActionLast7d++;
+      else if (inPrev7) state.coreActionPrev7d++;
+    }
+    if (model.coreAction.completionEvent && event.event === model.coreAction.completionEvent && inLast7) {
+      state.coreActionCompletedLast7d++;
+    }
+    if (engagement.has(event.event)) {
+      state.lastEngagement = Math.max(state.lastEngagement ?? 0, ts);
+      if (inLast7) state.engagementLast7d++;
+      else if (inPrev7) state.engagementPrev7d++;
+    }
+    if (features.has(event.event)) {
+      if (inLast7) state.featureUsedLast7d++;
+      else if (inPrev7) state.featureUsedPrev7d++;
+    }
+    if (friction.has(event.event) && inLast7) {
+      state.frictionLast7d++;
+    }
+    if (paidFriction.has(event.event) && ts > last30Start) {
+      state.paidFrictionLast30d++;
+    }
+
+    if (person && ts >= state.personAt) {
+      state.person = person;
+      state.personAt = ts;
+    }
+  }
+
+  /** Override person properties, e.g. from a separate profiles API. */
+  function setPerson(distinctId: string, person: PersonProperties) {
+    const state = users.get(distinctId);
+    if (state) {
+      state.person = person;
+      state.personAt = Number.MAX_SAFE_INTEGER;
+    }
+  }
+
+  const daysSince = (ts: number | null) => (ts == null ? null : Math.floor((now - ts) / DAY_MS));
+
+  function finish(): RawUserMetrics[] {
+    const metrics: RawUserMetrics[] = [];
+
+    for (const [distinctId, state] of users) {
+      metrics.push({
+        distinct_id: distinctId,
+        email: state.person?.email ?? null,
+        is_pro: state.person?.isPro ?? null,
+        paid_status: state.person?.paidStatus ?? null,
+        person_created_at: state.person?.createdAt ?? null,
+        days_since_last_event: daysSince(state.lastEvent),
+        days_since_last_core_action: daysSince(state.lastCoreAction),
+        days_since_last_engagement: daysSince(state.lastEngagement),
+        sessions_last_7d: state.sessionsLast7d.size,
+        sessions_prev_7d: state.sessionsPrev7d.size,
+        engagement_last_7d: state.engagementLast7d,
+        engagement_prev_7d: state.engagementPrev7d,
+        core_action_last_7d: state.coreActionLast7d,
+        core_action_prev_7d: state.coreActionPrev7d,
+        core_action_completed_last_7d: state.coreActionCompletedLast7d,
+        feature_used_last_7d: state.featureUsedLast7d,
+        feature_used_prev_7d: state.featureUsedPrev7d,
+        friction_last_7d: state.frictionLast7d,
+        paid_friction_last_30d: state.paidFrictionLast30d,
+      });
+    }
+
+    // Same order as the HogQL query so scoring runs can checkpoint by distinct_id
+    return metrics.sort((a, b) => (a.distinct_id < b.distinct_id ? -1 : a.distinct_id > b.distinct_id ? 1 : 0));
+  }
+
+  return {
+    add,
+    setPerson,
+    finish,
+    userIds: () => Array.from(users.keys()),
+  };
+}
+
+export type MetricsAccumulator = ReturnType<typeof createMetricsAccumulator>;
@@ -0,0 +1,43 @@
+import type { Prisma, Project } from '@prisma/client';
+import { MetricsSource } from './types';
+
+type SourceConfig = Pick<
+  Project,
+  'replaySource' | 'posthogKey' | 'posthogProjId' | 'mixpanelKey' | 'mixpanelProjId' | 'amplitudeKey' | 'amplitudeSecret' | 'amplitudeProjId'
+>;
+
+// Fallback order when the preferred source is unset or not configured
+const SOURCE_ORDER: MetricsSource[] = ['posthog', 'mixpanel', 'amplitude'];
+
+export function isSourceConfigured(project: SourceConfig, source: MetricsSource): boolean {
+  switch (source) {
+    case 'posthog':
+      return !!(project.posthogKey && project.posthogProjId);
+    case 'mixpanel':
+      return !!(project.mixpanelKey && project.mixpanelProjId);
+    case 'amplitude':
+      return !!(project.amplitudeKey && project.amplitudeSecret && project.amplitudeProjId);
+  }
+}
+
+/**
+ * Pick the analytics source churn metrics are computed from: the project's
+ * preferred replay source when it is configured, otherwise the first
+ * configured source. Returns null when no source is configured.
+ */
+export function resolveMetricsSource(project: SourceConfig): MetricsSource | null {
+  const preferred = project.replaySource as MetricsSource | null;
+  if (preferred && SOURCE_ORDER.includes(preferred) && isSourceConfigured(project, preferred)) {
+    return preferred;
+  }
+  return SOURCE_ORDER.find((source) => isSourceConfigured(project, source)) ?? null;
+}
+
+/** Prisma filter for projects with at least one churn metrics source. */
+export const HAS_METRICS_SOURCE_WHERE: Prisma.ProjectWhereInput = {
+  OR: [
+    { posthogKey: { not: null }, posthogProjId: { not: null } },
+    { mixpanelKey: { not: null }, mixpanelProjId: { not: null } },
+    { amplitudeKey: { not: null }, amplitudeSecret: { not: null }, amplitudeProjId: { not: null } },
+  ],
+};
@@ -0,0 +1,137 @@
+import { Project } from '@prisma/client';
+import { streamMixpanelEvents, getMixpanelAuth, projectMixpanelConfig } from '@/lib/mixpanel';
+import { createMetricsAccumulator, LOOKBACK_DAYS, parseFlag, PersonProperties } from './metrics-accumulator';
+import { ChurnModel, RawUserMetrics } from './types';
+
+const EXPORT_WINDOW_DAYS = 7;
+const PROFILE_BATCH_SIZE = 200;
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+interface EngageResult {
+  $distinct_id: string;
+  $properties: Record<string, unknown>;
+}
+
+/**
+ * Look up people profiles for a batch of users via the Engage API.
+ */
+async function fetchMixpanelProfiles(
+  config: ReturnType<typeof projectMixpanelConfig>,
+  distinctIds: string[],
+  model: ChurnModel
+): Promise<EngageResult[]> {
+  const { isServiceAccount, authorization } = getMixpanelAuth(config.apiKey, config.apiSecret);
+  const outputProperties = ['$email', '$created', model.paidStatus.property];
+  if (model.paidStatus.flagProperty) outputProperties.push(model.paidStatus.flagProperty);
+
+  const body = new URLSearchParams({
+    distinct_ids: JSON.stringify(distinctIds),
+    output_properties: JSON.stringify(outputProperties),
+  });
+  if (isServiceAccount) {
+    body.set('project_id', config.projectId);
+  }
+
+  const baseUrl = config.host.replace(/\/$/, '');
+  const response = await fetch(`${baseUrl}/api/2.0/engage`, {
+    method: 'POST',
+    headers: {
+      'Authorization': authorization,
+      'Accept': 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Mixpanel Engage API error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  return data.results ?? [];
+}
+
+function toPerson(properties: Record<string, unknown>, model: ChurnModel): PersonProperties {
+  const paidStatus = properties[model.paidStatus.property];
+  const created = properties.$created;
+  return {
+    email: typeof properties.$email === 'string' ? properties.$email : null,
+    paidStatus: paidStatus == null ? null : String(paidStatus),
+    isPro: model.paidStatus.flagProperty ? parseFlag(properties[model.paidStatus.flagProperty]) : null,
+    createdAt: typeof created === 'string' ? created : null,
+  };
+}
+
+/**
+ * Build per-user churn metrics from the Mixpanel Export API. Events are
+ * streamed week by week into the accumulator, then people profiles supply
+ * email, creation time and paid status.
+ */
+export async function fetchMixpanelUserMetrics(project: Project, model: ChurnModel): Promise<RawUserMetrics[]> {
+  const now = Date.now();
+  const accumulator = createMetricsAccumulator(model, now);
+  const config = projectMixpanelConfig(project);
+  let eventCount = 0;
+
+  const today = new Date(now);
+  today.setUTCHours(0, 0, 0, 0);
+  const cursor = addDays(today, -LOOKBACK_DAYS);
+
+  // Day ranges are inclusive, so consecutive windows must not share a day
+  while (cursor <= today) {
+    const windowEnd = addDays(cursor, EXPORT_WINDOW_DAYS - 1);
+    const to = windowEnd < today ? windowEnd : today;
+
+    await streamMixpanelEvents(
+      config.projectId,
+      config.apiKey,
+      config.apiSecret,
+      formatDay(cursor),
+      formatDay(to),
+      config.host,
+      (event) => {
+        const { distinct_id: distinctId, time, $session_id: sessionId } = event.properties;
+        if (!distinctId || !time) return;
+        eventCount++;
+        accumulator.add({
+          distinctId: String(distinctId),
+          event: event.event,
+          timestamp: time * 1000,
+          sessionId: sessionId || `${distinctId}-${Math.floor(time / 1800)}`,
+        });
+      }
+    );
+
+    cursor.setTime(addDays(to, 1).getTime());
+  }
+
+  const userIds = accumulator.userIds();
+  console.log(`[ChurnScoring] Aggregated ${eventCount} Mixpanel events into ${userIds.length} users for project ${project.id}`);
+
+  for (let i = 0; i < userIds.length; i += PROFILE_BATCH_SIZE) {
+    const batch = userIds.slice(i, i + PROFILE_BATCH_SIZE);
+    try {
+      const profiles = await fetchMixpanelProfiles(config, batch, model);
+      for (const profile of profiles) {
+        accumulator.setPerson(profile.$distinct_id, toPerson(profile.$properties ?? {}, model));
+      }
+    } catch (error) {
+      // Without profiles users are still scored, just without paid status or email
+      console.warn(`[ChurnScoring] Failed to fetch Mixpanel profiles for project ${project.id}:`, error);
+    }
+  }
+
+  const metrics = accumulator.finish();
+  console.log(`[ChurnScoring] Fetched ${metrics.length} users for project ${project.id}`);
+  return metrics;
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { ChurnRuleSet } from './types';
+
+// ==================== DEFAULT RULE SET ====================
+
+/**
+ * The original hand-tuned caps (35/30/20/10/5) and risk thresholds.
+ * Projects without a stored rule set score exactly as before.
+ */
+export const DEFAULT_CHURN_RULE_SET: ChurnRuleSet = {
+  weights: {
+    recency: 35,
+    usageDrop: 30,
+    engagementQuality: 20,
+    friction: 10,
+    featureAdoptionLoss: 5,
+  },
+  thresholds: {
+    critical: 75,
+    high: 50,
+    medium: 25,
+  },
+};
+
+// ==================== VALIDATION ====================
+
+const weight = z.number().int().min(0).max(100);
+const threshold = z.number().int().min(1).max(100);
+
+export const churnRuleSetSchema = z.object({
+  weights: z.object({
+    recency: weight,
+    usageDrop: weight,
+    engagementQuality: weight,
+    friction: weight,
+    featureAdoptionLoss: weight,
+  }),
+  thresholds: z
+    .object({
+      critical: threshold,
+      high: threshold,
+      medium: threshold,
+    })
+    .refine((t) => t.critical > t.high && t.high > t.medium, {
+      message: 'Thresholds must satisfy critical > high > medium',
+    }),
+});
+
+/**
+ * Resolve the rule set for a project. Falls back to DEFAULT_CHURN_RULE_SET
+ * when nothing is stored or the stored value no longer validates.
+ */
+export function resolveChurnRuleSet(stored: unknown): ChurnRuleSet {
+  if (stored == null) {
+    return DEFAULT_CHURN_RULE_SET;
+  }
+
+  const parsed = churnRuleSetSchema.safeParse(stored);
+  if (!parsed.success) {
+    console.warn('[ChurnScoring] Invalid churn rule set on project, using default:', parsed.error.message);
+    return DEFAULT_CHURN_RULE_SET;
+  }
+
+  return parsed.data;
+}
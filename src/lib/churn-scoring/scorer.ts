@@ -1,138 +1,326 @@
+import zlib from 'zlib';
+import { ChurnScoringRun, Prisma, Project } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import { fetchAllUserMetrics } from './data-fetcher';
+import { fetchUserMetricsPage } from './data-fetcher';
+import { fetchMixpanelUserMetrics } from './mixpanel-fetcher';
+import { fetchAmplitudeUserMetrics } from './amplitude-fetcher';
+import { resolveMetricsSource } from './metrics-source';
+import { emitLevelChangeWebhooks, evaluateChurnAlerts } from './alerts';
 import { scoreUser } from './scoring-rules';
-import { ScoringSummary, RiskLevel } from './types';
+import { resolveChurnModel } from './churn-model';
+import { resolveChurnRuleSet } from './rule-set';
+import { ChurnModel, MetricsSource, RawUserMetrics, ScoringSummary, RiskLevel, ScoredUser } from './types';
 
 const UPSERT_BATCH_SIZE = 100;
+const PAGE_SIZE = 2000;
 
-export async function runDailyChurnScoring(projectId: string): Promise<ScoringSummary> {
-  const startTime = Date.now();
-  const today = new Date();
-  today.setUTCHours(0, 0, 0, 0);
-  const dateStr = today.toISOString().split('T')[0];
+export const DEFAULT_TIME_BUDGET_MS = 45_000;
+export const STALE_RUN_MS = 3 * 60 * 1000;   // Processing runs with no progress for this long can be reclaimed
+export const MAX_RUN_ATTEMPTS = 3;           // Cron stops retrying a failed run after this many failures
 
-  // 1. Get project with PostHog config
-  const project = await prisma.project.findUniqueOrThrow({
-    where: { id: projectId },
-  });
+const EMPTY_RISK_COUNTS: Record<RiskLevel, number> = { low: 0, medium: 0, high: 0, critical: 0 };
+
+// Columns written on both create and update of a DailyChurnScore row
+function scoreColumns(user: ScoredUser) {
+  return {
+    email: user.email,
+    segment: user.segment,
+    isPro: user.isPro,
+    paidStatus: user.paidStatus,
+
+    daysSinceLastEvent: user.daysSinceLastEvent,
+    daysSinceLastCoreAction: user.daysSinceLastCoreAction,
+    daysSinceLastEngagement: user.daysSinceLastEngagement,
+
+    sessionsLast7d: user.sessionsLast7d,
+    sessionsPrev7d: user.sessionsPrev7d,
+    engagementLast7d: user.engagementLast7d,
+    engagementPrev7d: user.engagementPrev7d,
+    coreActionLast7d: user.coreActionLast7d,
+    coreActionPrev7d: user.coreActionPrev7d,
+    coreActionCompletedLast7d: user.coreActionCompletedLast7d,
+    featureUsedLast7d: user.featureUsedLast7d,
+    featureUsedPrev7d: user.featureUsedPrev7d,
 
-  if (!project.posthogKey || !project.posthogProjId) {
-    throw new Error(`PostHog not configured for project ${projectId}`);
+    coreActionCompletionRateLast7d: user.coreActionCompletionRateLast7d,
+    engagementPerCoreActionLast7d: user.engagementPerCoreActionLast7d,
+
+    frictionLast7d: user.frictionLast7d,
+    paidFrictionLast30d: user.paidFrictionLast30d,
+
+    riskScore: user.riskScore,
+    riskLevel: user.riskLevel,
+    riskReasons: JSON.stringify(user.riskReasons),
+
+    recencyScore: user.subScores.recencyScore,
+    usageDropScore: user.subScores.usageDropScore,
+    engagementQualityScore: user.subScores.engagementQualityScore,
+    frictionScore: user.subScores.frictionScore,
+    featureAdoptionLossScore: user.subScores.featureAdoptionLossScore,
+  };
+}
+
+/**
+ * Load the export sources' (Mixpanel, Amplitude) metrics for a run. They
+ * have no server-side pagination, so the first invocation aggregates the
+ * full export (already in distinct_id order) and stores it gzipped on the
+ * run; resumed invocations read it back instead of exporting again.
+ */
+async function loadExportedMetrics(
+  run: ChurnScoringRun,
+  project: Project,
+  source: 'mixpanel' | 'amplitude',
+  model: ChurnModel
+): Promise<RawUserMetrics[]> {
+  if (run.exportedMetrics) {
+    return JSON.parse(zlib.gunzipSync(run.exportedMetrics).toString('utf8')) as RawUserMetrics[];
   }
 
-  // 2. Fetch all user metrics via paginated HogQL
-  const rawMetrics = await fetchAllUserMetrics(project);
+  const all = source === 'mixpanel'
+    ? await fetchMixpanelUserMetrics(project, model)
+    : await fetchAmplitudeUserMetrics(project, model);
 
-  // 3. Score each user
-  const scoredUsers = rawMetrics.map(scoreUser);
+  await prisma.churnScoringRun.update({
+    where: { id: run.id },
+    data: { exportedMetrics: zlib.gzipSync(JSON.stringify(all)) },
+  });
+  return all;
+}
 
-  // 4. Upsert to DB in batches
-  const byRiskLevel: Record<RiskLevel, number> = { low: 0, medium: 0, high: 0, critical: 0 };
+/**
+ * Yield pages of user metrics in distinct_id order, starting after `cursor`.
+ * PostHog pages are fetched lazily with keyset-paginated HogQL; export
+ * sources are paged from the run's stored export.
+ */
+async function* iterateUserMetrics(
+  run: ChurnScoringRun,
+  project: Project,
+  source: MetricsSource,
+  model: ChurnModel,
+  cursor: string | null
+): AsyncGenerator<{ users: RawUserMetrics[]; last: boolean }> {
+  if (source === 'posthog') {
+    let after = cursor;
+    while (true) {
+      const users = await fetchUserMetricsPage(project, model, after, PAGE_SIZE);
+      const last = users.length < PAGE_SIZE;
+      yield { users, last };
+      if (last) return;
+      after = users[users.length - 1].distinct_id;
+    }
+  }
 
+  const all = await loadExportedMetrics(run, project, source, model);
+  const remaining = cursor != null ? all.filter((m) => m.distinct_id > cursor) : all;
+
+  if (remaining.length === 0) {
+    yield { users: [], last: true };
+    return;
+  }
+  for (let i = 0; i < remaining.length; i += PAGE_SIZE) {
+    yield { users: remaining.slice(i, i + PAGE_SIZE), last: i + PAGE_SIZE >= remaining.length };
+  }
+}
+
+async function upsertScores(projectId: string, date: Date, scoredUsers: ScoredUser[]) {
   for (let i = 0; i < scoredUsers.length; i += UPSERT_BATCH_SIZE) {
     const batch = scoredUsers.slice(i, i + UPSERT_BATCH_SIZE);
 
     await Promise.all(
       batch.map((user) => {
-        byRiskLevel[user.riskLevel]++;
+        const columns = scoreColumns(user);
 
         return prisma.dailyChurnScore.upsert({
           where: {
             projectId_date_distinctId: {
               projectId,
-              date: today,
+              date,
               distinctId: user.distinctId,
             },
           },
           create: {
             projectId,
-            date: today,
+            date,
             distinctId: user.distinctId,
-            email: user.email,
-            segment: user.segment,
-            isPro: user.isPro,
-            subscriptionStatus: user.subscriptionStatus,
-
-            daysSinceLastEvent: user.daysSinceLastEvent,
-            daysSinceLastChatStarted: user.daysSinceLastChatStarted,
-            daysSinceLastMessageSent: user.daysSinceLastMessageSent,
-
-            sessionsLast7d: user.sessionsLast7d,
-            sessionsPrev7d: user.sessionsPrev7d,
-            messageSentLast7d: user.messageSentLast7d,
-            messageSentPrev7d: user.messageSentPrev7d,
-            chatStartedLast7d: user.chatStartedLast7d,
-            chatStartedPrev7d: user.chatStartedPrev7d,
-            chatEndedLast7d: user.chatEndedLast7d,
-            featureUsedLast7d: user.featureUsedLast7d,
-            featureUsedPrev7d: user.featureUsedPrev7d,
-
-            chatCompletionRateLast7d: user.chatCompletionRateLast7d,
-            avgMessagesPerChatLast7d: user.avgMessagesPerChatLast7d,
-
-            paywallViewedLast7d: user.paywallViewedLast7d,
-            manageSubTappedLast30d: user.manageSubTappedLast30d,
-
-            riskScore: user.riskScore,
-            riskLevel: user.riskLevel,
-            riskReasons: JSON.stringify(user.riskReasons),
-
-            recencyScore: user.subScores.recencyScore,
-            usageDropScore: user.subScores.usageDropScore,
-            engagementQualityScore: user.subScores.engagementQualityScore,
-            frictionScore: user.subScores.frictionScore,
-            featureAdoptionLossScore: user.subScores.featureAdoptionLossScore,
-          },
-          update: {
-            email: user.email,
-            segment: user.segment,
-            isPro: user.isPro,
-            subscriptionStatus: user.subscriptionStatus,
-
-            daysSinceLastEvent: user.daysSinceLastEvent,
-            daysSinceLastChatStarted: user.daysSinceLastChatStarted,
-            daysSinceLastMessageSent: user.daysSinceLastMessageSent,
-
-            sessionsLast7d: user.sessionsLast7d,
-            sessionsPrev7d: user.sessionsPrev7d,
-            messageSentLast7d: user.messageSentLast7d,
-            messageSentPrev7d: user.messageSentPrev7d,
-            chatStartedLast7d: user.chatStartedLast7d,
-            chatStartedPrev7d: user.chatStartedPrev7d,
-            chatEndedLast7d: user.chatEndedLast7d,
-            featureUsedLast7d: user.featureUsedLast7d,
-            featureUsedPrev7d: user.featureUsedPrev7d,
-
-            chatCompletionRateLast7d: user.chatCompletionRateLast7d,
-            avgMessagesPerChatLast7d: user.avgMessagesPerChatLast7d,
-
-            paywallViewedLast7d: user.paywallViewedLast7d,
-            manageSubTappedLast30d: user.manageSubTappedLast30d,
-
-            riskScore: user.riskScore,
-            riskLevel: user.riskLevel,
-            riskReasons: JSON.stringify(user.riskReasons),
-
-            recencyScore: user.subScores.recencyScore,
-            usageDropScore: user.subScores.usageDropScore,
-            engagementQualityScore: user.subScores.engagementQualityScore,
-            frictionScore: user.subScores.frictionScore,
-            featureAdoptionLossScore: user.subScores.featureAdoptionLossScore,
+            ...columns,
           },
+          update: columns,
         });
       })
     );
   }
+}
+
+function summarizeRun(run: ChurnScoringRun, durationMs: number): ScoringSummary {
+  return {
+    runId: run.id,
+    date: run.date.toISOString().split('T')[0],
+    source: run.source as MetricsSource,
+    status: run.status as ScoringSummary['status'],
+    usersScored: run.usersScored,
+    byRiskLevel: { ...EMPTY_RISK_COUNTS, ...(run.byRiskLevel as Record<RiskLevel, number> | null) },
+    alertsSent: run.alertsSent,
+    durationMs,
+  };
+}
+
+export interface ScoringOptions {
+  timeBudgetMs?: number;  // Stop after the page that crosses this budget; the run resumes later
+  restart?: boolean;      // Re-score today from scratch if today's run already completed
+}
+
+/**
+ * Advance today's checkpointed scoring run for a project. Pages of users are
+ * scored and upserted until the time budget runs out; progress (cursor,
+ * counts) is saved after every page so the next invocation continues where
+ * this one stopped. Alerts are evaluated once, when the run completes.
+ */
+export async function runDailyChurnScoring(
+  projectId: string,
+  options: ScoringOptions = {}
+): Promise<ScoringSummary> {
+  const startTime = Date.now();
+  const deadline = startTime + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  // 1. Get project and pick its analytics source
+  const project = await prisma.project.findUniqueOrThrow({
+    where: { id: projectId },
+  });
+
+  const source = resolveMetricsSource(project);
+  if (!source) {
+    throw new Error(`No analytics source (PostHog, Mixpanel or Amplitude) configured for project ${projectId}`);
+  }
+
+  const model = resolveChurnModel(project.churnModel);
+  const ruleSet = resolveChurnRuleSet(project.churnRuleSet);
+
+  // 2. Find or start today's run. A completed run is only reset on request
+  // (failed runs resume from their cursor); a source switch always starts
+  // over since the cursor belongs to the old source.
+  let run = await prisma.churnScoringRun.upsert({
+    where: { projectId_date: { projectId, date: today } },
+    create: { projectId, date: today, source },
+    update: {},
+  });
+
+  if ((options.restart && run.status === 'completed') || run.source !== source) {
+    run = await prisma.churnScoringRun.update({
+      where: { id: run.id },
+      data: {
+        source,
+        status: 'pending',
+        cursor: null,
+        exportedMetrics: null,
+        usersScored: 0,
+        byRiskLevel: Prisma.DbNull,
+        alertsSent: 0,
+        baselines: Prisma.DbNull,
+        attempts: 0,
+        error: null,
+        completedAt: null,
+      },
+    });
+  }
+
+  if (run.status === 'completed') {
+    return summarizeRun(run, Date.now() - startTime);
+  }
+
+  // 3. Claim the run so overlapping invocations don't score the same pages
+  const staleThreshold = new Date(Date.now() - STALE_RUN_MS);
+  const claimed = await prisma.churnScoringRun.updateMany({
+    where: {
+      id: run.id,
+      OR: [
+        { status: { in: ['pending', 'failed'] } },
+        { status: 'processing', lastProcessedAt: { lt: staleThreshold } },
+        { status: 'processing', lastProcessedAt: null },
+      ],
+    },
+    data: { status: 'processing', lastProcessedAt: new Date(), error: null },
+  });
+
+  if (claimed.count === 0) {
+    console.log(`[ChurnScoring] Run ${run.id} is already being processed, skipping`);
+    return summarizeRun(run, Date.now() - startTime);
+  }
+
+  // 4. Score pages from the checkpoint until done or out of time
+  const byRiskLevel = { ...EMPTY_RISK_COUNTS, ...(run.byRiskLevel as Record<RiskLevel, number> | null) };
+  let cursor = run.cursor;
+  let usersScored = run.usersScored;
+  let completed = false;
+
+  try {
+    for await (const page of iterateUserMetrics(run, project, source, model, cursor)) {
+      const scoredUsers = page.users.map((metrics) => scoreUser(metrics, model, ruleSet));
+      await upsertScores(projectId, today, scoredUsers);
+
+      for (const user of scoredUsers) {
+        byRiskLevel[user.riskLevel]++;
+      }
+      if (page.users.length > 0) {
+        cursor = page.users[page.users.length - 1].distinct_id;
+      }
+      usersScored += page.users.length;
+
+      run = await prisma.churnScoringRun.update({
+        where: { id: run.id },
+        data: { cursor, usersScored, byRiskLevel, lastProcessedAt: new Date() },
+      });
+
+      if (page.last) {
+        completed = true;
+        break;
+      }
+      if (Date.now() >= deadline) {
+        break;
+      }
+    }
+  } catch (err) {
+    await prisma.churnScoringRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Unknown error',
+        attempts: { increment: 1 },
+      },
+    });
+    throw err;
+  }
+
+  if (!completed) {
+    console.log(
+      `[ChurnScoring] Run ${run.id} checkpointed at ${usersScored} users for project ${projectId}, continuing next invocation`
+    );
+    return summarizeRun(run, Date.now() - startTime);
+  }
+
+  // 5. Notify alert rules and webhooks — scores are already stored, so failures only log
+  let alertsSent = 0;
+  try {
+    alertsSent = await evaluateChurnAlerts(projectId, today);
+  } catch (err) {
+    console.error(`[ChurnScoring] Alert evaluation failed for project ${projectId}:`, err);
+  }
+  try {
+    await emitLevelChangeWebhooks(projectId, today);
+  } catch (err) {
+    console.error(`[ChurnScoring] Level change webhooks failed for project ${projectId}:`, err);
+  }
+
+  run = await prisma.churnScoringRun.update({
+    where: { id: run.id },
+    data: { status: 'completed', completedAt: new Date(), alertsSent, attempts: 0, exportedMetrics: null },
+  });
 
   const durationMs = Date.now() - startTime;
   console.log(
-    `[ChurnScoring] Scored ${scoredUsers.length} users for project ${projectId} in ${durationMs}ms`
+    `[ChurnScoring] Completed run ${run.id}: ${usersScored} users for project ${projectId} from ${source}`
   );
 
-  return {
-    date: dateStr,
-    usersScored: scoredUsers.length,
-    byRiskLevel,
-    durationMs,
-  };
+  return summarizeRun(run, durationMs);
 }
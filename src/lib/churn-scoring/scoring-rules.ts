@@ -1,12 +1,26 @@
-import { RawUserMetrics, Segment, RiskLevel, SubScores, ScoredUser } from './types';
+import {
+  ChurnModel,
+  ChurnRuleId,
+  ChurnRuleSet,
+  RawUserMetrics,
+  Segment,
+  RiskLevel,
+  SubScores,
+  ScoredUser,
+} from './types';
+import { DEFAULT_CHURN_MODEL } from './churn-model';
+import { DEFAULT_CHURN_RULE_SET } from './rule-set';
 
 // ==================== SEGMENT CLASSIFICATION ====================
 
-export function classifySegment(metrics: RawUserMetrics): Segment {
+export function classifySegment(
+  metrics: RawUserMetrics,
+  model: ChurnModel = DEFAULT_CHURN_MODEL
+): Segment {
   const isPro = metrics.is_pro === true;
   const hasActiveSubscription =
-    metrics.subscription_status === 'active' ||
-    metrics.subscription_status === 'trialing';
+    metrics.paid_status != null &&
+    model.paidStatus.paidValues.includes(metrics.paid_status);
 
   if (isPro || hasActiveSubscription) {
     return 'paid_user';
@@ -30,13 +44,14 @@ export function classifySegment(metrics: RawUserMetrics): Segment {
 
 export function computeRecencyScore(
   metrics: RawUserMetrics,
-  segment: Segment
+  segment: Segment,
+  model: ChurnModel = DEFAULT_CHURN_MODEL
 ): { score: number; reasons: string[] } {
   let score = 0;
   const reasons: string[] = [];
   const daysEvent = metrics.days_since_last_event ?? 999;
-  const daysChat = metrics.days_since_last_chat_started ?? 999;
-  const daysMsg = metrics.days_since_last_message_sent ?? 999;
+  const daysCore = metrics.days_since_last_core_action ?? 999;
+  const daysEngagement = metrics.days_since_last_engagement ?? 999;
 
   if (segment === 'new_user') {
     // New users: activation-risk focus
@@ -47,12 +62,12 @@ export function computeRecencyScore(
       score += 10;
     }
 
-    if (daysChat >= 999) {
+    if (daysCore >= 999) {
       score += 15;
-      reasons.push('new_user_no_chat');
-    } else if (daysChat >= 2) {
+      reasons.push('new_user_no_core_action');
+    } else if (daysCore >= 2) {
       score += 8;
-      reasons.push('new_user_no_recent_chat');
+      reasons.push('new_user_no_recent_core_action');
     }
 
     return { score: Math.min(score, 35), reasons };
@@ -71,9 +86,9 @@ export function computeRecencyScore(
       reasons.push('paid_user_quiet_3d');
     }
 
-    if (daysChat >= 7 && score < 35) {
+    if (daysCore >= 7 && score < 35) {
       score += 10;
-      reasons.push('paid_no_chat_7d');
+      reasons.push('paid_no_core_action_7d');
     }
 
     return { score: Math.min(score, 35), reasons };
@@ -93,9 +108,10 @@ export function computeRecencyScore(
     score += 8;
   }
 
-  if (daysMsg >= 14 && score < 35) {
+  // Only meaningful when the model tracks engagement events
+  if (model.engagementEvents.length > 0 && daysEngagement >= 14 && score < 35) {
     score += 10;
-    reasons.push('no_messages_14d');
+    reasons.push('no_engagement_14d');
   }
 
   return { score: Math.min(score, 35), reasons };
@@ -114,7 +130,7 @@ export function computeUsageDropScore(
   const reasons: string[] = [];
 
   const sessionDrop = dropPct(metrics.sessions_prev_7d, metrics.sessions_last_7d);
-  const messageDrop = dropPct(metrics.message_sent_prev_7d, metrics.message_sent_last_7d);
+  const engagementDrop = dropPct(metrics.engagement_prev_7d, metrics.engagement_last_7d);
 
   // Session drop (max 15)
   if (sessionDrop >= 0.8) {
@@ -127,14 +143,14 @@ export function computeUsageDropScore(
     score += 5;
   }
 
-  // Message drop (max 15)
-  if (messageDrop >= 0.8) {
+  // Engagement drop (max 15)
+  if (engagementDrop >= 0.8) {
     score += 15;
-    reasons.push('messages_dropped_80pct');
-  } else if (messageDrop >= 0.5) {
+    reasons.push('engagement_dropped_80pct');
+  } else if (engagementDrop >= 0.5) {
     score += 10;
-    reasons.push('messages_dropped_50pct');
-  } else if (messageDrop >= 0.3) {
+    reasons.push('engagement_dropped_50pct');
+  } else if (engagementDrop >= 0.3) {
     score += 5;
   }
 
@@ -144,39 +160,40 @@ export function computeUsageDropScore(
 // ==================== ENGAGEMENT QUALITY SCORE (max 20) ====================
 
 export function computeEngagementQualityScore(
-  metrics: RawUserMetrics
-): { score: number; reasons: string[]; chatCompletionRate: number | null; avgMessagesPerChat: number | null } {
+  metrics: RawUserMetrics,
+  model: ChurnModel = DEFAULT_CHURN_MODEL
+): { score: number; reasons: string[]; completionRate: number | null; engagementPerCoreAction: number | null } {
   let score = 0;
   const reasons: string[] = [];
 
-  // Chat completion rate = chat_ended / chat_started
-  let chatCompletionRate: number | null = null;
-  if (metrics.chat_started_last_7d > 0) {
-    chatCompletionRate = metrics.chat_ended_last_7d / metrics.chat_started_last_7d;
+  // Completion rate = completion events / core actions (only if the model defines a completion event)
+  let completionRate: number | null = null;
+  if (model.coreAction.completionEvent && metrics.core_action_last_7d > 0) {
+    completionRate = metrics.core_action_completed_last_7d / metrics.core_action_last_7d;
 
-    if (chatCompletionRate < 0.3) {
+    if (completionRate < 0.3) {
       score += 12;
-      reasons.push('low_chat_completion_rate');
-    } else if (chatCompletionRate < 0.5) {
+      reasons.push('low_core_action_completion_rate');
+    } else if (completionRate < 0.5) {
       score += 7;
-      reasons.push('moderate_chat_completion_rate');
+      reasons.push('moderate_core_action_completion_rate');
     }
   }
 
-  // Avg messages per chat
-  let avgMessagesPerChat: number | null = null;
-  if (metrics.chat_started_last_7d > 0) {
-    avgMessagesPerChat = metrics.message_sent_last_7d / metrics.chat_started_last_7d;
+  // Engagement events per core action
+  let engagementPerCoreAction: number | null = null;
+  if (model.engagementEvents.length > 0 && metrics.core_action_last_7d > 0) {
+    engagementPerCoreAction = metrics.engagement_last_7d / metrics.core_action_last_7d;
 
-    if (avgMessagesPerChat < 2) {
+    if (engagementPerCoreAction < 2) {
       score += 8;
-      reasons.push('short_chats');
-    } else if (avgMessagesPerChat < 4) {
+      reasons.push('shallow_core_actions');
+    } else if (engagementPerCoreAction < 4) {
       score += 4;
     }
   }
 
-  return { score: Math.min(score, 20), reasons, chatCompletionRate, avgMessagesPerChat };
+  return { score: Math.min(score, 20), reasons, completionRate, engagementPerCoreAction };
 }
 
 // ==================== FRICTION SCORE (max 10) ====================
@@ -189,22 +206,22 @@ export function computeFrictionScore(
   const reasons: string[] = [];
 
   if (segment === 'paid_user') {
-    // Paid users: manage subscription taps signal cancellation intent
-    if (metrics.manage_sub_tapped_last_30d >= 3) {
+    // Paid users: paid friction events (e.g. manage subscription) signal cancellation intent
+    if (metrics.paid_friction_last_30d >= 3) {
       score += 10;
-      reasons.push('repeated_manage_subscription');
-    } else if (metrics.manage_sub_tapped_last_30d >= 1) {
+      reasons.push('repeated_paid_friction');
+    } else if (metrics.paid_friction_last_30d >= 1) {
       score += 5;
-      reasons.push('manage_subscription_tapped');
+      reasons.push('paid_friction');
     }
   } else {
-    // Free users: paywall views signal blocked value
-    if (metrics.paywall_viewed_last_7d >= 3) {
+    // Free users: friction events (e.g. paywall views) signal blocked value
+    if (metrics.friction_last_7d >= 3) {
       score += 10;
-      reasons.push('frequent_paywall_hits');
-    } else if (metrics.paywall_viewed_last_7d >= 1) {
+      reasons.push('frequent_friction');
+    } else if (metrics.friction_last_7d >= 1) {
       score += 5;
-      reasons.push('paywall_viewed');
+      reasons.push('friction_hit');
     }
   }
 
@@ -232,34 +249,108 @@ export function computeFeatureAdoptionLossScore(
   return { score: Math.min(score, 5), reasons };
 }
 
+// ==================== RULE REGISTRY ====================
+
+interface RuleResult {
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * A scoring rule contributes one sub-score. `maxPoints` is the cap of the
+ * raw points returned by `evaluate`; the rule set's weight for `id` rescales
+ * that cap, so a weight equal to `maxPoints` leaves scores unchanged.
+ */
+export interface ChurnRule {
+  id: ChurnRuleId;
+  subScore: keyof SubScores;
+  maxPoints: number;
+  evaluate(metrics: RawUserMetrics, segment: Segment, model: ChurnModel): RuleResult;
+}
+
+export const CHURN_RULES: ChurnRule[] = [
+  {
+    id: 'recency',
+    subScore: 'recencyScore',
+    maxPoints: 35,
+    evaluate: (metrics, segment, model) => computeRecencyScore(metrics, segment, model),
+  },
+  {
+    id: 'usageDrop',
+    subScore: 'usageDropScore',
+    maxPoints: 30,
+    evaluate: (metrics) => computeUsageDropScore(metrics),
+  },
+  {
+    id: 'engagementQuality',
+    subScore: 'engagementQualityScore',
+    maxPoints: 20,
+    evaluate: (metrics, _segment, model) => computeEngagementQualityScore(metrics, model),
+  },
+  {
+    id: 'friction',
+    subScore: 'frictionScore',
+    maxPoints: 10,
+    evaluate: (metrics, segment) => computeFrictionScore(metrics, segment),
+  },
+  {
+    id: 'featureAdoptionLoss',
+    subScore: 'featureAdoptionLossScore',
+    maxPoints: 5,
+    evaluate: (metrics) => computeFeatureAdoptionLossScore(metrics),
+  },
+];
+
+function applyWeight(rule: ChurnRule, rawScore: number, ruleSet: ChurnRuleSet): number {
+  const weight = ruleSet.weights[rule.id];
+  if (weight === rule.maxPoints) return rawScore;
+  return Math.round((rawScore / rule.maxPoints) * weight);
+}
+
 // ==================== RISK LEVEL ====================
 
-export function classifyRiskLevel(riskScore: number): RiskLevel {
-  if (riskScore >= 75) return 'critical';
-  if (riskScore >= 50) return 'high';
-  if (riskScore >= 25) return 'medium';
+export function classifyRiskLevel(
+  riskScore: number,
+  thresholds: ChurnRuleSet['thresholds'] = DEFAULT_CHURN_RULE_SET.thresholds
+): RiskLevel {
+  if (riskScore >= thresholds.critical) return 'critical';
+  if (riskScore >= thresholds.high) return 'high';
+  if (riskScore >= thresholds.medium) return 'medium';
   return 'low';
 }
 
 // ==================== MAIN SCORER ====================
 
-export function scoreUser(metrics: RawUserMetrics): ScoredUser {
-  const segment = classifySegment(metrics);
+/**
+ * Score a user whose segment is already known. Used directly by the
+ * backtest, which re-scores stored rows without person properties.
+ */
+export function scoreWithSegment(
+  metrics: RawUserMetrics,
+  segment: Segment,
+  model: ChurnModel = DEFAULT_CHURN_MODEL,
+  ruleSet: ChurnRuleSet = DEFAULT_CHURN_RULE_SET
+): ScoredUser {
   const isPro = metrics.is_pro === true;
 
-  const recency = computeRecencyScore(metrics, segment);
-  const usageDrop = computeUsageDropScore(metrics);
-  const engagement = computeEngagementQualityScore(metrics);
-  const friction = computeFrictionScore(metrics, segment);
-  const featureAdoption = computeFeatureAdoptionLossScore(metrics);
-
   const subScores: SubScores = {
-    recencyScore: recency.score,
-    usageDropScore: usageDrop.score,
-    engagementQualityScore: engagement.score,
-    frictionScore: friction.score,
-    featureAdoptionLossScore: featureAdoption.score,
+    recencyScore: 0,
+    usageDropScore: 0,
+    engagementQualityScore: 0,
+    frictionScore: 0,
+    featureAdoptionLossScore: 0,
   };
+  const riskReasons: string[] = [];
+
+  for (const rule of CHURN_RULES) {
+    const result = rule.evaluate(metrics, segment, model);
+    const weighted = applyWeight(rule, result.score, ruleSet);
+    subScores[rule.subScore] = weighted;
+    // A zero-weight rule is switched off, so its reasons would be misleading
+    if (weighted > 0) {
+      riskReasons.push(...result.reasons);
+    }
+  }
 
   const riskScore = Math.min(
     100,
@@ -270,44 +361,46 @@ export function scoreUser(metrics: RawUserMetrics): ScoredUser {
       subScores.featureAdoptionLossScore
   );
 
-  const riskReasons = [
-    ...recency.reasons,
-    ...usageDrop.reasons,
-    ...engagement.reasons,
-    ...friction.reasons,
-    ...featureAdoption.reasons,
-  ];
+  const quality = computeEngagementQualityScore(metrics, model);
 
   return {
     distinctId: metrics.distinct_id,
     email: metrics.email,
     segment,
     isPro,
-    subscriptionStatus: metrics.subscription_status,
+    paidStatus: metrics.paid_status,
 
     daysSinceLastEvent: metrics.days_since_last_event,
-    daysSinceLastChatStarted: metrics.days_since_last_chat_started,
-    daysSinceLastMessageSent: metrics.days_since_last_message_sent,
+    daysSinceLastCoreAction: metrics.days_since_last_core_action,
+    daysSinceLastEngagement: metrics.days_since_last_engagement,
 
     sessionsLast7d: metrics.sessions_last_7d,
     sessionsPrev7d: metrics.sessions_prev_7d,
-    messageSentLast7d: metrics.message_sent_last_7d,
-    messageSentPrev7d: metrics.message_sent_prev_7d,
-    chatStartedLast7d: metrics.chat_started_last_7d,
-    chatStartedPrev7d: metrics.chat_started_prev_7d,
-    chatEndedLast7d: metrics.chat_ended_last_7d,
+    engagementLast7d: metrics.engagement_last_7d,
+    engagementPrev7d: metrics.engagement_prev_7d,
+    coreActionLast7d: metrics.core_action_last_7d,
+    coreActionPrev7d: metrics.core_action_prev_7d,
+    coreActionCompletedLast7d: metrics.core_action_completed_last_7d,
     featureUsedLast7d: metrics.feature_used_last_7d,
     featureUsedPrev7d: metrics.feature_used_prev_7d,
 
-    chatCompletionRateLast7d: engagement.chatCompletionRate,
-    avgMessagesPerChatLast7d: engagement.avgMessagesPerChat,
+    coreActionCompletionRateLast7d: quality.completionRate,
+    engagementPerCoreActionLast7d: quality.engagementPerCoreAction,
 
-    paywallViewedLast7d: metrics.paywall_viewed_last_7d,
-    manageSubTappedLast30d: metrics.manage_sub_tapped_last_30d,
+    frictionLast7d: metrics.friction_last_7d,
+    paidFrictionLast30d: metrics.paid_friction_last_30d,
 
     riskScore,
-    riskLevel: classifyRiskLevel(riskScore),
+    riskLevel: classifyRiskLevel(riskScore, ruleSet.thresholds),
     riskReasons,
     subScores,
   };
 }
+
+export function scoreUser(
+  metrics: RawUserMetrics,
+  model: ChurnModel = DEFAULT_CHURN_MODEL,
+  ruleSet: ChurnRuleSet = DEFAULT_CHURN_RULE_SET
+): ScoredUser {
+  return scoreWithSegment(metrics, classifySegment(metrics, model), model, ruleSet);
+}
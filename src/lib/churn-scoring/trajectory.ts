@@ -0,0 +1,198 @@
+import { prisma } from '@/lib/prisma';
+import { RiskLevel, Segment } from './types';
+
+// ==================== TYPES ====================
+
+export const TRAJECTORY_WINDOWS = [30, 60, 90] as const;
+export type TrajectoryWindow = (typeof TRAJECTORY_WINDOWS)[number];
+
+export interface TrajectoryPoint {
+  date: string;
+  riskScore: number;
+  riskLevel: RiskLevel;
+  recencyScore: number;
+  usageDropScore: number;
+  engagementQualityScore: number;
+  frictionScore: number;
+  featureAdoptionLossScore: number;
+}
+
+/** Minimal per-user row needed to compare two scoring days. */
+export interface DayScore {
+  distinctId: string;
+  email: string | null;
+  segment: string;
+  isPro: boolean;
+  riskScore: number;
+  riskLevel: string;
+}
+
+export interface ScoreTransition {
+  distinctId: string;
+  email: string | null;
+  segment: Segment;
+  isPro: boolean;
+  previousScore: number | null;   // null = not scored on the previous day
+  riskScore: number;
+  delta: number;
+  previousLevel: RiskLevel | null;
+  riskLevel: RiskLevel;
+}
+
+export interface ScoreMovers {
+  date: string | null;
+  previousDate: string | null;
+  newlyCritical: ScoreTransition[];
+  biggestMovers: ScoreTransition[];
+}
+
+// ==================== COMPARISON ====================
+
+const LEVEL_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export function riskLevelRank(level: RiskLevel): number {
+  return LEVEL_RANK[level] ?? 0;
+}
+
+/**
+ * Pair each user's score on a day with their score on the previous scored
+ * day. Users without a previous score are compared against 0.
+ */
+export function compareScoreDays(previous: DayScore[], current: DayScore[]): ScoreTransition[] {
+  const previousByUser = new Map(previous.map((row) => [row.distinctId, row]));
+
+  return current.map((row) => {
+    const prev = previousByUser.get(row.distinctId);
+    return {
+      distinctId: row.distinctId,
+      email: row.email,
+      segment: row.segment as Segment,
+      isPro: row.isPro,
+      previousScore: prev ? prev.riskScore : null,
+      riskScore: row.riskScore,
+      delta: row.riskScore - (prev?.riskScore ?? 0),
+      previousLevel: prev ? (prev.riskLevel as RiskLevel) : null,
+      riskLevel: row.riskLevel as RiskLevel,
+    };
+  });
+}
+
+/**
+ * True when the user moved from below `level` to `level` or above. Users
+ * without a previous score never count as crossing — on a project's first
+ * scored day that would be everyone already at the level.
+ */
+export function crossedInto(transition: ScoreTransition, level: RiskLevel): boolean {
+  if (!transition.previousLevel) return false;
+  const target = riskLevelRank(level);
+  return riskLevelRank(transition.previousLevel) < target && riskLevelRank(transition.riskLevel) >= target;
+}
+
+/**
+ * Newly critical users (by score) and the largest score changes in either
+ * direction. Users without a previous score appear in neither.
+ */
+export function rankMovers(transitions: ScoreTransition[], limit: number) {
+  const newlyCritical = transitions
+    .filter((t) => crossedInto(t, 'critical'))
+    .sort((a, b) => b.riskScore - a.riskScore)
+    .slice(0, limit);
+
+  const biggestMovers = transitions
+    .filter((t) => t.previousScore != null && t.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || b.riskScore - a.riskScore)
+    .slice(0, limit);
+
+  return { newlyCritical, biggestMovers };
+}
+
+// ==================== QUERIES ====================
+
+const DAY_SCORE_SELECT = {
+  distinctId: true,
+  email: true,
+  segment: true,
+  isPro: true,
+  riskScore: true,
+  riskLevel: true,
+} as const;
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Load the transitions between a scored day (latest when omitted) and the
+ * scored day before it.
+ */
+export async function loadScoreTransitions(projectId: string, date?: Date) {
+  const current = date
+    ? { date }
+    : await prisma.dailyChurnScore.findFirst({
+        where: { projectId },
+        orderBy: { date: 'desc' },
+        select: { date: true },
+      });
+
+  if (!current) {
+    return { date: null, previousDate: null, transitions: [] as ScoreTransition[] };
+  }
+
+  const previous = await prisma.dailyChurnScore.findFirst({
+    where: { projectId, date: { lt: current.date } },
+    orderBy: { date: 'desc' },
+    select: { date: true },
+  });
+
+  const [currentRows, previousRows] = await Promise.all([
+    prisma.dailyChurnScore.findMany({ where: { projectId, date: current.date }, select: DAY_SCORE_SELECT }),
+    previous
+      ? prisma.dailyChurnScore.findMany({ where: { projectId, date: previous.date }, select: DAY_SCORE_SELECT })
+      : Promise.resolve([]),
+  ]);
+
+  return {
+    date: toDateString(current.date),
+    previousDate: previous ? toDateString(previous.date) : null,
+    transitions: compareScoreDays(previousRows, currentRows),
+  };
+}
+
+export async function getScoreMovers(projectId: string, date?: Date, limit = 20): Promise<ScoreMovers> {
+  const { date: currentDate, previousDate, transitions } = await loadScoreTransitions(projectId, date);
+  return { date: currentDate, previousDate, ...rankMovers(transitions, limit) };
+}
+
+/**
+ * A user's riskScore and sub-scores over the last `days` days, oldest first.
+ */
+export async function getUserTrajectory(
+  projectId: string,
+  distinctId: string,
+  days: TrajectoryWindow
+): Promise<TrajectoryPoint[]> {
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - days);
+
+  const rows = await prisma.dailyChurnScore.findMany({
+    where: { projectId, distinctId, date: { gte: since } },
+    orderBy: { date: 'asc' },
+    select: {
+      date: true,
+      riskScore: true,
+      riskLevel: true,
+      recencyScore: true,
+      usageDropScore: true,
+      engagementQualityScore: true,
+      frictionScore: true,
+      featureAdoptionLossScore: true,
+    },
+  });
+
+  return rows.map((row) => ({
+    ...row,
+    date: toDateString(row.date),
+    riskLevel: row.riskLevel as RiskLevel,
+  }));
+}
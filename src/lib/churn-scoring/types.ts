@@ -2,34 +2,61 @@ export type Segment = 'new_user' | 'active_user' | 'paid_user';
 
 export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
 
+/**
+ * Per-project churn model definition (stored as Project.churnModel).
+ * Describes which analytics events count as the product's core action,
+ * engagement, feature usage and friction, and how paid users are identified.
+ */
+export interface ChurnModel {
+  coreAction: {
+    event: string;                     // e.g. 'chat_started'
+    completionEvent: string | null;    // e.g. 'chat_ended' — enables completion-rate scoring
+  };
+  engagementEvents: string[];          // Depth within the core action, e.g. ['message_sent']
+  featureEvents: string[];             // Breadth of adoption, e.g. ['feature_used']
+  frictionEvents: {
+    free: string[];                    // Blocked value for free users, e.g. ['paywall_viewed']
+    paid: string[];                    // Cancellation intent for paid users, e.g. ['manage_subscription_tapped']
+  };
+  paidStatus: {
+    property: string;                  // Person property holding subscription state
+    paidValues: string[];              // Values of `property` that count as paid
+    flagProperty: string | null;       // Optional boolean person property, e.g. 'is_pro'
+  };
+}
+
+// Analytics source per-user metrics are computed from
+export type MetricsSource = 'posthog' | 'mixpanel' | 'amplitude';
+
 export interface RawUserMetrics {
   distinct_id: string;
   email: string | null;
   is_pro: boolean | null;
-  subscription_status: string | null;
+  paid_status: string | null;
   person_created_at: string | null;
 
   // Recency
   days_since_last_event: number | null;
-  days_since_last_chat_started: number | null;
-  days_since_last_message_sent: number | null;
+  days_since_last_core_action: number | null;
+  days_since_last_engagement: number | null;
 
   // Volume: last_7d / prev_7d
   sessions_last_7d: number;
   sessions_prev_7d: number;
-  message_sent_last_7d: number;
-  message_sent_prev_7d: number;
-  chat_started_last_7d: number;
-  chat_started_prev_7d: number;
-  chat_ended_last_7d: number;
+  engagement_last_7d: number;
+  engagement_prev_7d: number;
+  core_action_last_7d: number;
+  core_action_prev_7d: number;
+  core_action_completed_last_7d: number;
   feature_used_last_7d: number;
   feature_used_prev_7d: number;
 
   // Friction
-  paywall_viewed_last_7d: number;
-  manage_sub_tapped_last_30d: number;
+  friction_last_7d: number;
+  paid_friction_last_30d: number;
 }
 
+// Weighted sub-scores; each is capped by its rule-set weight (defaults shown)
 export interface SubScores {
   recencyScore: number;       // max 35
   usageDropScore: number;     // max 30
@@ -38,36 +65,51 @@ export interface SubScores {
   featureAdoptionLossScore: number; // max 5
 }
 
+export type ChurnRuleId = 'recency' | 'usageDrop' | 'engagementQuality' | 'friction' | 'featureAdoptionLoss';
+
+/**
+ * Per-project scoring configuration (stored as Project.churnRuleSet).
+ * Each rule's raw points are rescaled so its cap equals its weight.
+ */
+export interface ChurnRuleSet {
+  weights: Record<ChurnRuleId, number>;
+  thresholds: {
+    critical: number;
+    high: number;
+    medium: number;
+  };
+}
+
 export interface ScoredUser {
   distinctId: string;
   email: string | null;
   segment: Segment;
   isPro: boolean;
-  subscriptionStatus: string | null;
+  paidStatus: string | null;
 
   // Recency
   daysSinceLastEvent: number | null;
-  daysSinceLastChatStarted: number | null;
-  daysSinceLastMessageSent: number | null;
+  daysSinceLastCoreAction: number | null;
+  daysSinceLastEngagement: number | null;
 
   // Volume
   sessionsLast7d: number;
   sessionsPrev7d: number;
-  messageSentLast7d: number;
-  messageSentPrev7d: number;
-  chatStartedLast7d: number;
-  chatStartedPrev7d: number;
-  chatEndedLast7d: number;
+  engagementLast7d: number;
+  engagementPrev7d: number;
+  coreActionLast7d: number;
+  coreActionPrev7d: number;
+  coreActionCompletedLast7d: number;
   featureUsedLast7d: number;
   featureUsedPrev7d: number;
 
   // Quality (computed)
-  chatCompletionRateLast7d: number | null;
-  avgMessagesPerChatLast7d: number | null;
+  coreActionCompletionRateLast7d: number | null;
+  engagementPerCoreActionLast7d: number | null;
 
   // Friction
-  paywallViewedLast7d: number;
-  manageSubTappedLast30d: number;
+  frictionLast7d: number;
+  paidFrictionLast30d: number;
 
   // Scores
   riskScore: number;
@@ -77,8 +119,12 @@ export interface ScoredUser {
 }
 
 export interface ScoringSummary {
+  runId: string;
   date: string;
-  usersScored: number;
+  source: MetricsSource;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  usersScored: number;        // Cumulative for the run, across invocations
   byRiskLevel: Record<RiskLevel, number>;
-  durationMs: number;
+  alertsSent: number;
+  durationMs: number;         // This invocation only
 }
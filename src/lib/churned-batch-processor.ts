@@ -11,6 +11,7 @@
  */
 
 import { prisma } from '@/lib/prisma';
+import { projectPostHogConfig } from '@/lib/posthog-factory';
 import { PostHogRateLimiter, type RateLimitedResult } from '@/lib/posthog-rate-limiter';
 import { fetchSessionEvents } from '@/lib/session-sync';
 import { analyzeSession } from '@/lib/session-analysis';
@@ -176,9 +177,10 @@ export async function processNextEmails(
     throw new Error('PostHog API key or Project ID not configured');
   }
 
-  const host = (project.posthogHost || 'https://us.posthog.com').replace(/\/$/, '');
+  const posthog = projectPostHogConfig(project);
+  const host = posthog.host.replace(/\/$/, '');
   const headers: Record<string, string> = {
-    Authorization: `Bearer ${project.posthogKey}`,
+    Authorization: `Bearer ${posthog.apiKey}`,
     'Content-Type': 'application/json',
   };
 
@@ -2,6 +2,7 @@ import { prisma } from '@/lib/prisma';
 import { generateObject } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 const ConversationAnalysisSchema = z.object({
   summary: z.string().describe("A 2-3 sentence summary of the conversation."),
@@ -23,7 +24,15 @@ export type ConversationAnalysisResult = z.infer<typeof ConversationAnalysisSche
 export async function analyzeConversation(conversationId: string): Promise<ConversationAnalysisResult> {
   const conversation = await prisma.conversation.findUnique({
     where: { id: conversationId },
-    select: { id: true, transcript: true, analysisStatus: true },
+    select: {
+      id: true,
+      projectId: true,
+      source: true,
+      participantName: true,
+      participantEmail: true,
+      transcript: true,
+      analysisStatus: true,
+    },
   });
 
   if (!conversation) {
@@ -104,6 +113,23 @@ Based on this transcript, extract:
       },
     });
 
+    await emitWebhookEvent(conversation.projectId, 'conversation.analyzed', {
+      conversation: {
+        id: conversation.id,
+        source: conversation.source,
+        participantName: conversation.participantName,
+        participantEmail: conversation.participantEmail,
+      },
+      analysis: {
+        summary: object.summary,
+        sentiment: object.sentiment,
+        satisfactionScore: object.satisfaction_score,
+        painPoints: object.pain_points,
+        churnReason: object.churn_reason || null,
+        willingToReturn: object.willing_to_return,
+      },
+    });
+
     return object;
   } catch (error) {
     console.error(`Analysis failed for conversation ${conversationId}:`, error);
@@ -0,0 +1,229 @@
+/**
+ * Credential encryption
+ *
+ * Third-party secrets (analytics API keys, issue-tracker tokens, digest
+ * webhook URLs) are stored with envelope encryption. Each value gets its own
+ * random data key, which encrypts the value with AES-256-GCM and is then
+ * wrapped by a master key from CREDENTIALS_ENCRYPTION_KEYS. Rotating the
+ * master key only means re-wrapping the data keys
+ * (scripts/encrypt-credentials.ts).
+ *
+ * Stored values look like `tzenc:v1:<keyId>:<wrapped data key>:<ciphertext>`.
+ * Anything without that prefix is a legacy plaintext value and is returned
+ * as-is until the migration script has encrypted it.
+ *
+ * Only the client factories (createProjectClient, projectMixpanelConfig,
+ * projectAmplitudeConfig, the issue-tracker and digest senders) call
+ * decryptSecret. Routes and the browser get masked hints.
+ */
+
+import crypto from 'crypto';
+
+const PREFIX = 'tzenc';
+const VERSION = 'v1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** Analytics credentials on Project that are stored encrypted. */
+export const PROJECT_SECRET_FIELDS = [
+  'posthogKey',
+  'mixpanelKey',
+  'mixpanelSecret',
+  'amplitudeKey',
+  'amplitudeSecret',
+] as const;
+
+export type ProjectSecretField = (typeof PROJECT_SECRET_FIELDS)[number];
+
+// ==================== KEYRING ====================
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let cachedKeyring: { source: string; keys: MasterKey[] } | null = null;
+
+/**
+ * CREDENTIALS_ENCRYPTION_KEYS is a comma-separated list of `<id>:<base64 key>`
+ * entries. The first key encrypts new values; the rest are kept only to
+ * decrypt values that haven't been re-wrapped yet.
+ */
+function keyring(): MasterKey[] {
+  const source = process.env.CREDENTIALS_ENCRYPTION_KEYS || '';
+  if (cachedKeyring?.source === source) return cachedKeyring.keys;
+
+  const keys = source
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(id)) {
+        throw new Error('CREDENTIALS_ENCRYPTION_KEYS entries must look like <id>:<base64 key>');
+      }
+      if (key.length !== KEY_BYTES) {
+        throw new Error(`Credential encryption key "${id}" must be ${KEY_BYTES} bytes, base64-encoded`);
+      }
+      return { id, key };
+    });
+
+  cachedKeyring = { source, keys };
+  return keys;
+}
+
+function activeKey(): MasterKey {
+  const [key] = keyring();
+  if (!key) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEYS is not set; cannot store integration credentials');
+  }
+  return key;
+}
+
+function masterKey(id: string): Buffer {
+  const found = keyring().find((k) => k.id === id);
+  if (!found) {
+    throw new Error(`Credential encryption key "${id}" is not in CREDENTIALS_ENCRYPTION_KEYS`);
+  }
+  return found.key;
+}
+
+/** A fresh random master key, base64-encoded, for CREDENTIALS_ENCRYPTION_KEYS. */
+export function generateMasterKey(): string {
+  return crypto.randomBytes(KEY_BYTES).toString('base64');
+}
+
+// ==================== ENVELOPES ====================
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const raw = Buffer.from(sealed, 'base64url');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, raw.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+function parseEnvelope(value: string) {
+  const [prefix, version, keyId, wrappedKey, ciphertext, ...rest] = value.split(':');
+  if (prefix !== PREFIX || version !== VERSION || !keyId || !wrappedKey || !ciphertext || rest.length > 0) {
+    throw new Error('Malformed encrypted credential');
+  }
+  return { keyId, wrappedKey, ciphertext };
+}
+
+// The key id is bound to the wrapped data key, so an envelope can't be
+// replayed under another master key
+function wrapAad(keyId: string): string {
+  return `${PREFIX}:${VERSION}:${keyId}`;
+}
+
+export function isEncryptedSecret(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(`${PREFIX}:`);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const master = activeKey();
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  const wrappedKey = seal(master.key, dataKey, wrapAad(master.id));
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, 'utf8'), PREFIX);
+  return [PREFIX, VERSION, master.id, wrappedKey, ciphertext].join(':');
+}
+
+/**
+ * The plaintext of a stored credential. Legacy plaintext values pass
+ * through unchanged. Call this only where a client is built.
+ */
+export function decryptSecret(value: string | null | undefined): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (!isEncryptedSecret(value)) return value;
+
+  const { keyId, wrappedKey, ciphertext } = parseEnvelope(value);
+  const dataKey = open(masterKey(keyId), wrappedKey, wrapAad(keyId));
+  return open(dataKey, ciphertext, PREFIX).toString('utf8');
+}
+
+/**
+ * The value to store instead of `value` so it's encrypted under the active
+ * key: plaintext is encrypted, and envelopes under an older key get their
+ * data key re-wrapped (the ciphertext itself is unchanged). Returns null
+ * when the value is already current.
+ */
+export function rewrapSecret(value: string | null | undefined): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (!isEncryptedSecret(value)) return encryptSecret(value);
+
+  const { keyId, wrappedKey, ciphertext } = parseEnvelope(value);
+  const master = activeKey();
+  if (keyId === master.id) return null;
+
+  const dataKey = open(masterKey(keyId), wrappedKey, wrapAad(keyId));
+  return [PREFIX, VERSION, master.id, seal(master.key, dataKey, wrapAad(master.id)), ciphertext].join(':');
+}
+
+/**
+ * Copy of `data` with the listed fields encrypted. Fields that aren't
+ * present are left out; empty strings are stored as null.
+ */
+export function encryptSecretFields<T extends Record<string, unknown>>(data: T, fields: readonly string[]): T {
+  const result: Record<string, unknown> = { ...data };
+  for (const field of fields) {
+    if (!(field in result) || result[field] === undefined) continue;
+    const value = result[field];
+    result[field] = typeof value === 'string' && value !== '' ? encryptSecret(value) : null;
+  }
+  return result as T;
+}
+
+// ==================== HINTS ====================
+
+/** `••••` plus the last 4 characters, so a reviewer can tell keys apart without seeing them. */
+export function maskSecret(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const text = String(value);
+  return text.length <= 8 ? '••••' : `••••${text.slice(-4)}`;
+}
+
+/** Masked form of a stored (possibly encrypted) credential. */
+export function storedSecretHint(value: string | null | undefined): string | null {
+  try {
+    return maskSecret(decryptSecret(value));
+  } catch (err) {
+    console.error('[Credentials] Failed to decrypt credential for its hint:', err);
+    return '••••';
+  }
+}
+
+/** Whether a stored credential holds `plaintext` ('' and null both mean unset). */
+export function storedSecretMatches(stored: string | null | undefined, plaintext: string | null | undefined): boolean {
+  try {
+    return decryptSecret(stored) === (plaintext || null);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Project as returned to the browser: the analytics secrets are removed and
+ * `credentialHints` says which are set.
+ */
+export function toPublicProject<T extends Partial<Record<ProjectSecretField, string | null>>>(project: T) {
+  const rest: Record<string, unknown> = { ...project };
+  const credentialHints: Partial<Record<ProjectSecretField, string | null>> = {};
+  for (const field of PROJECT_SECRET_FIELDS) {
+    if (!(field in project)) continue;
+    credentialHints[field] = storedSecretHint(project[field]);
+    delete rest[field];
+  }
+  return { ...(rest as Omit<T, ProjectSecretField>), credentialHints };
+}
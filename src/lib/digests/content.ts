@@ -0,0 +1,130 @@
+import { DigestSubscription, Ticket } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { crossedInto, loadScoreTransitions, ScoreTransition } from '@/lib/churn-scoring/trajectory';
+import type { ChurnImpact, TicketEvidence, TrendingData } from '@/lib/ticket-scoring';
+import type { Digest, DigestChurnUser, DigestTicket } from './types';
+
+// Tickets someone has closed don't belong in a "what to look at" digest
+const CLOSED_STATUSES = ['resolved', 'verified', 'wont_fix'];
+
+const MAX_TRENDING = 5;
+const MAX_CHURN_USERS = 10;
+
+type DigestTicketRow = Pick<
+  Ticket,
+  'id' | 'title' | 'severity' | 'category' | 'status' | 'compositeScore' | 'evidence' | 'churnImpact' | 'trending' | 'externalKey'
+>;
+
+export function toDigestTicket(ticket: DigestTicketRow, appUrl: string, projectId: string): DigestTicket {
+  const evidence = ticket.evidence as unknown as TicketEvidence | null;
+  const churnImpact = ticket.churnImpact as unknown as ChurnImpact | null;
+  const trending = ticket.trending as unknown as TrendingData | null;
+
+  return {
+    id: ticket.id,
+    title: ticket.title,
+    severity: ticket.severity,
+    category: ticket.category,
+    status: ticket.status,
+    compositeScore: ticket.compositeScore,
+    evidenceCount: (evidence?.sessionIds?.length ?? 0) + (evidence?.conversationIds?.length ?? 0),
+    atRiskUsers: churnImpact?.atRiskUsers ?? 0,
+    direction: trending?.direction ?? null,
+    externalKey: ticket.externalKey,
+    url: `${appUrl.replace(/\/$/, '')}/dashboard?projectId=${projectId}&ticket=${ticket.id}`,
+  };
+}
+
+/**
+ * Tickets that started trending during the period: first seen since the
+ * last digest, or rising at the latest synthesis within it.
+ */
+export function selectTrendingTickets<T extends Pick<DigestTicketRow, 'trending' | 'compositeScore'>>(
+  tickets: T[],
+  since: Date,
+  limit = MAX_TRENDING
+): T[] {
+  return tickets
+    .filter((t) => {
+      const trending = t.trending as unknown as TrendingData | null;
+      if (!trending) return false;
+      if (trending.direction === 'new') return new Date(trending.firstSeen) >= since;
+      return trending.direction === 'rising' && new Date(trending.lastSeen) >= since;
+    })
+    .sort((a, b) => b.compositeScore - a.compositeScore)
+    .slice(0, limit);
+}
+
+export function selectNewlyCritical(transitions: ScoreTransition[], limit = MAX_CHURN_USERS): DigestChurnUser[] {
+  return transitions
+    .filter((t) => crossedInto(t, 'critical'))
+    .sort((a, b) => b.riskScore - a.riskScore)
+    .slice(0, limit)
+    .map((t) => ({
+      distinctId: t.distinctId,
+      email: t.email,
+      segment: t.segment,
+      previousLevel: t.previousLevel,
+      previousScore: t.previousScore,
+      riskScore: t.riskScore,
+    }));
+}
+
+/**
+ * Gather everything a subscription's digest shows for the period since
+ * `since`. Sections the subscription turned off come back null.
+ */
+export async function buildDigest(
+  subscription: Pick<DigestSubscription, 'projectId' | 'topTickets' | 'includeTrending' | 'includeChurn'>,
+  since: Date,
+  appUrl: string,
+  now: Date = new Date()
+): Promise<Digest> {
+  const { projectId } = subscription;
+  const base = appUrl.replace(/\/$/, '');
+
+  const [project, tickets] = await Promise.all([
+    prisma.project.findUniqueOrThrow({ where: { id: projectId }, select: { id: true, name: true } }),
+    prisma.ticket.findMany({
+      where: { projectId, status: { notIn: CLOSED_STATUSES } },
+      orderBy: { compositeScore: 'desc' },
+      select: {
+        id: true,
+        title: true,
+        severity: true,
+        category: true,
+        status: true,
+        compositeScore: true,
+        evidence: true,
+        churnImpact: true,
+        trending: true,
+        externalKey: true,
+      },
+    }),
+  ]);
+
+  let churn: Digest['churn'] = null;
+  if (subscription.includeChurn) {
+    const { date, transitions } = await loadScoreTransitions(projectId);
+    churn = {
+      date,
+      newlyCritical: selectNewlyCritical(transitions),
+      criticalTotal: transitions.filter((t) => t.riskLevel === 'critical').length,
+    };
+  }
+
+  return {
+    project,
+    generatedAt: now.toISOString(),
+    since: since.toISOString(),
+    topTickets: tickets.slice(0, subscription.topTickets).map((t) => toDigestTicket(t, base, projectId)),
+    trendingTickets: subscription.includeTrending
+      ? selectTrendingTickets(tickets, since).map((t) => toDigestTicket(t, base, projectId))
+      : null,
+    churn,
+    links: {
+      dashboard: `${base}/dashboard?projectId=${projectId}`,
+      churnScores: `${base}/dashboard/churn-scores`,
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import type { Digest, DigestChurnUser, DigestTicket } from './types';
+
+export const SEVERITY_MARKERS: Record<string, string> = {
+  critical: '🔴',
+  high: '🟠',
+  medium: '🟡',
+};
+
+export function ticketMeta(ticket: DigestTicket): string {
+  const parts = [
+    `${ticket.severity} · score ${ticket.compositeScore}`,
+    `${ticket.evidenceCount} session${ticket.evidenceCount === 1 ? '' : 's'}/conversation${ticket.evidenceCount === 1 ? '' : 's'}`,
+  ];
+  if (ticket.atRiskUsers > 0) parts.push(`${ticket.atRiskUsers} at-risk user${ticket.atRiskUsers === 1 ? '' : 's'}`);
+  if (ticket.externalKey) parts.push(ticket.externalKey);
+  return parts.join(' · ');
+}
+
+export function churnUserLine(user: DigestChurnUser): string {
+  const from = user.previousLevel ? `${user.previousLevel} (${user.previousScore})` : 'new';
+  return `${user.email || user.distinctId} — ${from} → critical (${user.riskScore}) · ${user.segment.replace('_', ' ')}`;
+}
+
+export function digestTitle(digest: Digest): string {
+  return `Tranzmit digest — ${digest.project.name}`;
+}
+
+/** Plain-text summary used for notifications and fallbacks. */
+export function digestSummary(digest: Digest): string {
+  const parts = [`${digest.topTickets.length} top ticket${digest.topTickets.length === 1 ? '' : 's'}`];
+  if (digest.trendingTickets) parts.push(`${digest.trendingTickets.length} newly trending`);
+  if (digest.churn) parts.push(`${digest.churn.newlyCritical.length} newly critical user${digest.churn.newlyCritical.length === 1 ? '' : 's'}`);
+  return `${digestTitle(digest)}: ${parts.join(', ')}`;
+}
@@ -0,0 +1,21 @@
+export { buildDigest, selectNewlyCritical, selectTrendingTickets, toDigestTicket } from './content';
+export { digestPeriodStart, isDigestDue, latestDigestSlot } from './schedule';
+export { postDigest, renderDigest, sendDigestSubscription } from './send';
+export {
+  DIGEST_AUDIT_FIELDS,
+  auditedDigestSubscription,
+  digestSubscriptionSchema,
+  toPublicDigestSubscription,
+} from './settings';
+export type { DigestSubscriptionInput } from './settings';
+export { toSlackMessage } from './slack';
+export { toTeamsMessage } from './teams';
+export { DIGEST_CHANNELS } from './types';
+export type {
+  Digest,
+  DigestChannel,
+  DigestChurnUser,
+  DigestFrequency,
+  DigestSchedule,
+  DigestTicket,
+} from './types';
@@ -0,0 +1,52 @@
+import type { DigestSchedule } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function isScheduledDay(schedule: DigestSchedule, day: Date): boolean {
+  const weekday = day.getUTCDay();
+  switch (schedule.frequency) {
+    case 'weekdays':
+      return weekday >= 1 && weekday <= 5;
+    case 'weekly':
+      return weekday === schedule.dayOfWeek;
+    default:
+      return true;
+  }
+}
+
+/**
+ * The most recent scheduled send time at or before `now`, looking back at
+ * most a week. Schedules are in UTC.
+ */
+export function latestDigestSlot(schedule: DigestSchedule, now: Date): Date | null {
+  for (let daysBack = 0; daysBack <= 7; daysBack++) {
+    const slot = new Date(now.getTime() - daysBack * DAY_MS);
+    slot.setUTCHours(schedule.hourUtc, 0, 0, 0);
+    if (slot <= now && isScheduledDay(schedule, slot)) return slot;
+  }
+  return null;
+}
+
+/**
+ * A digest is due once its latest slot has passed without a send since.
+ * New subscriptions wait for their first slot after creation, and a missed
+ * run only ever catches up the most recent slot.
+ */
+export function isDigestDue(
+  schedule: DigestSchedule,
+  lastSentAt: Date | null,
+  createdAt: Date,
+  now: Date = new Date()
+): boolean {
+  const slot = latestDigestSlot(schedule, now);
+  if (!slot) return false;
+  return (lastSentAt ?? createdAt) < slot;
+}
+
+/** Start of the period a digest covers: the previous send, or one period back. */
+export function digestPeriodStart(schedule: DigestSchedule, lastSentAt: Date | null, now: Date = new Date()): Date {
+  if (lastSentAt) return lastSentAt;
+  const days = schedule.frequency === 'weekly' ? 7 : schedule.frequency === 'weekdays' && now.getUTCDay() === 1 ? 3 : 1;
+  return new Date(now.getTime() - days * DAY_MS);
+}
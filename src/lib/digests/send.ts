@@ -0,0 +1,68 @@
+import { DigestSubscription } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { decryptSecret } from '@/lib/credential-encryption';
+import { assertOutboundUrl } from '@/lib/outbound-url';
+import { buildDigest } from './content';
+import { digestPeriodStart } from './schedule';
+import { toSlackMessage } from './slack';
+import { toTeamsMessage } from './teams';
+import type { Digest, DigestChannel } from './types';
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export function renderDigest(channel: DigestChannel, digest: Digest): object {
+  return channel === 'teams' ? toTeamsMessage(digest) : toSlackMessage(digest);
+}
+
+/**
+ * POST a rendered digest to a Slack incoming webhook or Teams connector.
+ * Both answer 2xx on success. Only the status of a failure is reported —
+ * the response body is never read back.
+ */
+export async function postDigest(channel: DigestChannel, webhookUrl: string, digest: Digest): Promise<void> {
+  await assertOutboundUrl(webhookUrl);
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(renderDigest(channel, digest)),
+    redirect: 'manual',
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${channel === 'teams' ? 'Teams' : 'Slack'} responded ${response.status}`);
+  }
+}
+
+/**
+ * Build and deliver one subscription's digest, recording the outcome.
+ * Scheduled sends advance lastSentAt so the next digest covers only what
+ * happened since; test sends leave the schedule alone. Failed scheduled
+ * sends are retried by the next cron run.
+ */
+export async function sendDigestSubscription(
+  subscription: DigestSubscription,
+  appUrl: string,
+  { now = new Date(), scheduled = true }: { now?: Date; scheduled?: boolean } = {}
+): Promise<Digest> {
+  const since = digestPeriodStart(subscription, subscription.lastSentAt, now);
+
+  try {
+    const digest = await buildDigest(subscription, since, appUrl, now);
+    // The stored webhook URL is encrypted; this is the only place it's decrypted
+    await postDigest(subscription.channel as DigestChannel, decryptSecret(subscription.webhookUrl) ?? '', digest);
+
+    await prisma.digestSubscription.update({
+      where: { id: subscription.id },
+      data: { lastStatus: 'sent', lastError: null, ...(scheduled ? { lastSentAt: now } : {}) },
+    });
+    return digest;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await prisma.digestSubscription.update({
+      where: { id: subscription.id },
+      data: { lastStatus: 'failed', lastError: message },
+    });
+    throw err;
+  }
+}
@@ -0,0 +1,53 @@
+import { DigestSubscription } from '@prisma/client';
+import { z } from 'zod';
+import { storedSecretHint } from '@/lib/credential-encryption';
+
+export const digestSubscriptionSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    channel: z.enum(['slack', 'teams']),
+    webhookUrl: z.string().trim().max(1000).optional(),
+    enabled: z.boolean().default(true),
+    frequency: z.enum(['daily', 'weekdays', 'weekly']).default('daily'),
+    hourUtc: z.number().int().min(0).max(23).default(9),
+    dayOfWeek: z.number().int().min(0).max(6).default(1),
+    topTickets: z.number().int().min(1).max(20).default(5),
+    includeTrending: z.boolean().default(true),
+    includeChurn: z.boolean().default(true),
+  })
+  .superRefine((input, ctx) => {
+    if (input.webhookUrl !== undefined && !/^https?:\/\/\S+$/.test(input.webhookUrl)) {
+      ctx.addIssue({ code: 'custom', path: ['webhookUrl'], message: 'Webhook URL must be an http(s) URL' });
+    }
+  });
+
+export type DigestSubscriptionInput = z.infer<typeof digestSubscriptionSchema>;
+
+/** Fields recorded in the audit log; webhookUrl is a secret and is masked there. */
+export const DIGEST_AUDIT_FIELDS = [
+  'name',
+  'channel',
+  'webhookUrl',
+  'enabled',
+  'frequency',
+  'hourUtc',
+  'dayOfWeek',
+  'topTickets',
+  'includeTrending',
+  'includeChurn',
+] as const;
+
+/** A stored subscription's audited fields, with the encrypted webhook URL masked. */
+export function auditedDigestSubscription(subscription: DigestSubscription): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const field of DIGEST_AUDIT_FIELDS) {
+    fields[field] = field === 'webhookUrl' ? storedSecretHint(subscription.webhookUrl) : subscription[field];
+  }
+  return fields;
+}
+
+/** Subscription as returned to the browser — the webhook URL is a credential, stored encrypted. */
+export function toPublicDigestSubscription(subscription: DigestSubscription) {
+  const { webhookUrl, ...rest } = subscription;
+  return { ...rest, webhookUrlHint: storedSecretHint(webhookUrl) ?? '' };
+}
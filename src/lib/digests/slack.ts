@@ -0,0 +1,93 @@
+import type { Digest, DigestTicket } from './types';
+import { churnUserLine, digestSummary, digestTitle, SEVERITY_MARKERS, ticketMeta } from './format';
+
+type SlackBlock = Record<string, unknown>;
+
+// Slack rejects sections over 3000 characters; stay well clear
+const MAX_SECTION_CHARS = 2800;
+
+function escapeMrkdwn(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function section(text: string): SlackBlock {
+  return { type: 'section', text: { type: 'mrkdwn', text: text.slice(0, MAX_SECTION_CHARS) } };
+}
+
+function ticketBlock(ticket: DigestTicket, rank?: number): SlackBlock {
+  const marker = SEVERITY_MARKERS[ticket.severity] ?? '⚪';
+  const prefix = rank !== undefined ? `${rank}. ` : '';
+  return {
+    ...section(`${prefix}${marker} *<${ticket.url}|${escapeMrkdwn(ticket.title)}>*\n${escapeMrkdwn(ticketMeta(ticket))}`),
+    accessory: {
+      type: 'button',
+      text: { type: 'plain_text', text: 'Open' },
+      url: ticket.url,
+    },
+  };
+}
+
+/**
+ * Slack Block Kit message for an incoming webhook.
+ */
+export function toSlackMessage(digest: Digest): { text: string; blocks: SlackBlock[] } {
+  const blocks: SlackBlock[] = [
+    { type: 'header', text: { type: 'plain_text', text: digestTitle(digest).slice(0, 150) } },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `Since ${new Date(digest.since).toUTCString()}`,
+        },
+      ],
+    },
+    section('*Top tickets*'),
+  ];
+
+  if (digest.topTickets.length === 0) {
+    blocks.push(section('_No open tickets — run synthesis from the dashboard._'));
+  } else {
+    digest.topTickets.forEach((ticket, i) => blocks.push(ticketBlock(ticket, i + 1)));
+  }
+
+  if (digest.trendingTickets) {
+    blocks.push({ type: 'divider' }, section('*Newly trending* 📈'));
+    if (digest.trendingTickets.length === 0) {
+      blocks.push(section('_Nothing new or rising this period._'));
+    } else {
+      digest.trendingTickets.forEach((ticket) => blocks.push(ticketBlock(ticket)));
+    }
+  }
+
+  if (digest.churn) {
+    const { newlyCritical, criticalTotal, date } = digest.churn;
+    blocks.push(
+      { type: 'divider' },
+      section(`*Newly critical churn risk*${date ? ` (scores from ${date})` : ''}`)
+    );
+    blocks.push(
+      section(
+        newlyCritical.length === 0
+          ? '_No users crossed into critical._'
+          : newlyCritical.map((u) => `• ${escapeMrkdwn(churnUserLine(u))}`).join('\n')
+      )
+    );
+    if (criticalTotal > newlyCritical.length) {
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `${criticalTotal} users are critical in total` }],
+      });
+    }
+  }
+
+  blocks.push({
+    type: 'actions',
+    elements: [
+      { type: 'button', text: { type: 'plain_text', text: 'Open dashboard' }, url: digest.links.dashboard, style: 'primary' },
+      { type: 'button', text: { type: 'plain_text', text: 'Churn scores' }, url: digest.links.churnScores },
+    ],
+  });
+
+  return { text: digestSummary(digest), blocks };
+}
@@ -0,0 +1,87 @@
+import type { Digest, DigestTicket } from './types';
+import { churnUserLine, digestSummary, digestTitle, SEVERITY_MARKERS, ticketMeta } from './format';
+
+type CardElement = Record<string, unknown>;
+
+function textBlock(text: string, options: Record<string, unknown> = {}): CardElement {
+  return { type: 'TextBlock', text, wrap: true, ...options };
+}
+
+function heading(text: string): CardElement {
+  return textBlock(text, { weight: 'Bolder', size: 'Medium', spacing: 'Large', separator: true });
+}
+
+function ticketItem(ticket: DigestTicket, rank?: number): CardElement {
+  const marker = SEVERITY_MARKERS[ticket.severity] ?? '⚪';
+  const prefix = rank !== undefined ? `${rank}. ` : '';
+  return {
+    type: 'Container',
+    selectAction: { type: 'Action.OpenUrl', url: ticket.url },
+    items: [
+      textBlock(`${prefix}${marker} [${ticket.title}](${ticket.url})`, { weight: 'Bolder' }),
+      textBlock(ticketMeta(ticket), { isSubtle: true, spacing: 'None', size: 'Small' }),
+    ],
+  };
+}
+
+/**
+ * Adaptive Card message, accepted by Teams incoming webhook connectors and
+ * Workflows "post to a channel when a webhook request is received".
+ */
+export function toTeamsMessage(digest: Digest) {
+  const body: CardElement[] = [
+    textBlock(digestTitle(digest), { weight: 'Bolder', size: 'Large' }),
+    textBlock(`Since ${new Date(digest.since).toUTCString()}`, { isSubtle: true, spacing: 'None' }),
+    heading('Top tickets'),
+  ];
+
+  if (digest.topTickets.length === 0) {
+    body.push(textBlock('No open tickets — run synthesis from the dashboard.', { isSubtle: true }));
+  } else {
+    digest.topTickets.forEach((ticket, i) => body.push(ticketItem(ticket, i + 1)));
+  }
+
+  if (digest.trendingTickets) {
+    body.push(heading('Newly trending 📈'));
+    if (digest.trendingTickets.length === 0) {
+      body.push(textBlock('Nothing new or rising this period.', { isSubtle: true }));
+    } else {
+      digest.trendingTickets.forEach((ticket) => body.push(ticketItem(ticket)));
+    }
+  }
+
+  if (digest.churn) {
+    const { newlyCritical, criticalTotal, date } = digest.churn;
+    body.push(heading(`Newly critical churn risk${date ? ` (scores from ${date})` : ''}`));
+    body.push(
+      newlyCritical.length === 0
+        ? textBlock('No users crossed into critical.', { isSubtle: true })
+        : textBlock(newlyCritical.map((u) => `- ${churnUserLine(u)}`).join('\n'))
+    );
+    if (criticalTotal > newlyCritical.length) {
+      body.push(textBlock(`${criticalTotal} users are critical in total`, { isSubtle: true, size: 'Small' }));
+    }
+  }
+
+  return {
+    type: 'message',
+    summary: digestSummary(digest),
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          msteams: { width: 'Full' },
+          body,
+          actions: [
+            { type: 'Action.OpenUrl', title: 'Open dashboard', url: digest.links.dashboard },
+            { type: 'Action.OpenUrl', title: 'Churn scores', url: digest.links.churnScores },
+          ],
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,45 @@
+import type { DigestSubscription } from '@prisma/client';
+import type { RiskLevel, Segment } from '@/lib/churn-scoring/types';
+import type { TrendingData } from '@/lib/ticket-scoring';
+
+export type DigestChannel = 'slack' | 'teams';
+
+export const DIGEST_CHANNELS: DigestChannel[] = ['slack', 'teams'];
+
+export type DigestFrequency = 'daily' | 'weekdays' | 'weekly';
+
+export type DigestSchedule = Pick<DigestSubscription, 'frequency' | 'hourUtc' | 'dayOfWeek'>;
+
+export interface DigestTicket {
+  id: string;
+  title: string;
+  severity: string;
+  category: string;
+  status: string;
+  compositeScore: number;
+  evidenceCount: number;
+  atRiskUsers: number;
+  direction: TrendingData['direction'] | null;
+  externalKey: string | null;
+  url: string;
+}
+
+export interface DigestChurnUser {
+  distinctId: string;
+  email: string | null;
+  segment: Segment;
+  previousLevel: RiskLevel | null;
+  previousScore: number | null;
+  riskScore: number;
+}
+
+/** Channel-neutral digest, rendered by each channel. */
+export interface Digest {
+  project: { id: string; name: string };
+  generatedAt: string;
+  since: string;
+  topTickets: DigestTicket[];
+  trendingTickets: DigestTicket[] | null; // null = section disabled
+  churn: { date: string | null; newlyCritical: DigestChurnUser[]; criticalTotal: number } | null;
+  links: { dashboard: string; churnScores: string };
+}
@@ -0,0 +1,362 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { ChurnImpact, TicketEvidence } from "@/lib/ticket-scoring";
+import { recordTicketActivity, updateTicketLifecycle } from "@/lib/ticket-lifecycle";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export const FIX_VERIFICATION_WINDOW_DAYS = 14;
+
+// Fewest sessions + conversations after the fix before a verdict is trusted
+export const MIN_AFTER_SAMPLE = 5;
+
+// The frustration rate has to at least halve for a fix to count as verified
+export const FIXED_RATE_RATIO = 0.5;
+
+// Average churn risk may drift this many points up without contradicting a fix
+export const CHURN_TOLERANCE_POINTS = 5;
+
+export type FixVerificationOutcome =
+  | "measuring"
+  | "verified_fixed"
+  | "regressed"
+  | "inconclusive";
+
+export interface EvidenceWindow {
+  total: number;
+  matched: number;
+  matchedIds: string[];
+}
+
+export interface ChurnWindow {
+  users: number;
+  avgRiskScore: number | null;
+}
+
+export interface VerificationPeriod {
+  from: string;
+  to: string;
+  sessions: EvidenceWindow;
+  conversations: EvidenceWindow;
+  churn: ChurnWindow;
+}
+
+export interface FixVerification {
+  outcome: FixVerificationOutcome;
+  windowDays: number;
+  resolvedAt: string;
+  measuredAt: string;
+  pattern: string[];
+  before: VerificationPeriod;
+  after: VerificationPeriod;
+  beforeRate: number | null; // % of sessions + conversations matching the pattern
+  afterRate: number | null;
+  churnChange: number | null; // avg risk points, after − before
+  reasons: string[];
+}
+
+export interface AnalyzedItem {
+  id: string;
+  texts: string[];
+}
+
+interface ChurnRow {
+  distinctId: string;
+  riskScore: number;
+}
+
+// ─── 1. Pattern matching ─────────────────────────────────────────────────────
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "into", "when", "while",
+  "was", "were", "are", "not", "but", "had", "has", "have", "they", "their",
+  "user", "users", "tried", "trying", "could", "would", "after", "before", "then",
+  "very", "too", "multiple", "times", "again", "some", "which", "there", "being",
+]);
+
+export function tokenize(text: string): string[] {
+  const tokens = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length >= 3 && !STOPWORDS.has(t))
+    .map((t) => (t.length > 4 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t));
+  return Array.from(new Set(tokens));
+}
+
+/**
+ * The ticket's frustration pattern: the distinct frustration points and pain
+ * points from the evidence that created it, falling back to the title.
+ */
+export function buildFrustrationPattern(issues: string[], title: string): string[] {
+  const phrases = Array.from(new Set(issues.map((i) => i.trim()).filter(Boolean)));
+  return phrases.length > 0 ? phrases : [title];
+}
+
+/**
+ * A text matches a phrase when most of the shorter one's keywords appear in
+ * the other — at least two of them unless the shorter side is a single word.
+ */
+function matchesPhrase(text: string[], phrase: string[]): boolean {
+  if (text.length === 0 || phrase.length === 0) return false;
+  const phraseSet = new Set(phrase);
+  const shared = text.filter((t) => phraseSet.has(t)).length;
+  const shorter = Math.min(text.length, phrase.length);
+  return shared >= Math.min(2, shorter) && shared / shorter >= 0.6;
+}
+
+export function matchesFrustrationPattern(texts: string[], pattern: string[]): boolean {
+  const phrases = pattern.map(tokenize);
+  return texts.some((text) => {
+    const tokens = tokenize(text);
+    return phrases.some((phrase) => matchesPhrase(tokens, phrase));
+  });
+}
+
+export function summarizeEvidenceWindow(items: AnalyzedItem[], pattern: string[]): EvidenceWindow {
+  const matchedIds = items
+    .filter((item) => matchesFrustrationPattern(item.texts, pattern))
+    .map((item) => item.id);
+  return { total: items.length, matched: matchedIds.length, matchedIds: matchedIds.slice(0, 20) };
+}
+
+export function summarizeChurnWindow(rows: ChurnRow[]): ChurnWindow {
+  if (rows.length === 0) return { users: 0, avgRiskScore: null };
+  const avg = rows.reduce((sum, r) => sum + r.riskScore, 0) / rows.length;
+  return {
+    users: new Set(rows.map((r) => r.distinctId)).size,
+    avgRiskScore: Math.round(avg * 10) / 10,
+  };
+}
+
+// ─── 2. Verdict ──────────────────────────────────────────────────────────────
+
+function matchRate(period: Pick<VerificationPeriod, "sessions" | "conversations">): number | null {
+  const total = period.sessions.total + period.conversations.total;
+  if (total === 0) return null;
+  return Math.round(((period.sessions.matched + period.conversations.matched) / total) * 1000) / 10;
+}
+
+/**
+ * Compare the frustration rate and the affected users' churn risk before and
+ * after the fix. Evidence decides the verdict; churn can only hold back a
+ * "fixed" verdict, since risk moves for many reasons besides one ticket.
+ */
+export function judgeFixVerification(
+  before: Pick<VerificationPeriod, "sessions" | "conversations" | "churn">,
+  after: Pick<VerificationPeriod, "sessions" | "conversations" | "churn">,
+  windowComplete: boolean,
+): Pick<FixVerification, "outcome" | "beforeRate" | "afterRate" | "churnChange" | "reasons"> {
+  const beforeRate = matchRate(before);
+  const afterRate = matchRate(after);
+  const churnChange =
+    before.churn.avgRiskScore !== null && after.churn.avgRiskScore !== null
+      ? Math.round((after.churn.avgRiskScore - before.churn.avgRiskScore) * 10) / 10
+      : null;
+
+  const afterSample = after.sessions.total + after.conversations.total;
+  const afterMatched = after.sessions.matched + after.conversations.matched;
+  const beforeMatched = before.sessions.matched + before.conversations.matched;
+  const reasons: string[] = [];
+
+  if (beforeRate !== null) reasons.push(`Frustration pattern in ${beforeRate}% of evidence before the fix`);
+  if (afterRate !== null) reasons.push(`${afterRate}% after (${afterMatched} of ${afterSample})`);
+  if (churnChange !== null) {
+    reasons.push(`Affected users' churn risk ${churnChange > 0 ? "+" : ""}${churnChange} pts`);
+  }
+
+  const result = (outcome: FixVerificationOutcome, reason?: string) => ({
+    outcome,
+    beforeRate,
+    afterRate,
+    churnChange,
+    reasons: reason ? [...reasons, reason] : reasons,
+  });
+
+  if (!windowComplete) return result("measuring");
+  if (afterSample < MIN_AFTER_SAMPLE) {
+    return result("inconclusive", `Only ${afterSample} analyzed session(s)/conversation(s) after the fix`);
+  }
+  if (beforeMatched === 0) {
+    return afterMatched > 0
+      ? result("regressed", "Pattern appeared after the fix but not in the baseline")
+      : result("inconclusive", "Pattern not seen in the baseline window");
+  }
+  if (afterRate! >= beforeRate!) {
+    return result("regressed", "Frustration rate did not drop");
+  }
+  if (afterRate! > beforeRate! * FIXED_RATE_RATIO) {
+    return result("inconclusive", "Frustration rate dropped by less than half");
+  }
+  if (churnChange !== null && churnChange > CHURN_TOLERANCE_POINTS) {
+    return result("inconclusive", "Frustration dropped but churn risk rose");
+  }
+  return result("verified_fixed");
+}
+
+// ─── 3. Measurement ──────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseJson<T>(raw: string | null): T | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function sessionTexts(raw: string | null): string[] {
+  const analysis = parseJson<{ frustration_points?: Array<{ issue: string }> }>(raw);
+  return (analysis?.frustration_points ?? []).map((fp) => fp.issue).filter(Boolean);
+}
+
+function conversationTexts(raw: string | null): string[] {
+  const analysis = parseJson<{ pain_points?: string[] }>(raw);
+  return (analysis?.pain_points ?? []).filter(Boolean);
+}
+
+async function measurePeriod(
+  projectId: string,
+  pattern: string[],
+  userIds: string[],
+  from: Date,
+  to: Date,
+): Promise<VerificationPeriod> {
+  const [sessions, conversations, churnRows] = await Promise.all([
+    prisma.session.findMany({
+      where: {
+        projectId,
+        analysisStatus: "completed",
+        OR: [
+          { startTime: { gte: from, lt: to } },
+          { startTime: null, createdAt: { gte: from, lt: to } },
+        ],
+      },
+      select: { id: true, analysis: true },
+      take: 1000,
+    }),
+    prisma.conversation.findMany({
+      where: {
+        projectId,
+        analysisStatus: "completed",
+        OR: [
+          { conversedAt: { gte: from, lt: to } },
+          { conversedAt: null, createdAt: { gte: from, lt: to } },
+        ],
+      },
+      select: { id: true, analysis: true },
+      take: 500,
+    }),
+    userIds.length > 0
+      ? prisma.dailyChurnScore.findMany({
+          where: { projectId, distinctId: { in: userIds }, date: { gte: from, lt: to } },
+          select: { distinctId: true, riskScore: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    sessions: summarizeEvidenceWindow(sessions.map((s) => ({ id: s.id, texts: sessionTexts(s.analysis) })), pattern),
+    conversations: summarizeEvidenceWindow(
+      conversations.map((c) => ({ id: c.id, texts: conversationTexts(c.analysis) })),
+      pattern,
+    ),
+    churn: summarizeChurnWindow(churnRows),
+  };
+}
+
+async function loadPattern(
+  projectId: string,
+  evidence: TicketEvidence,
+  title: string,
+): Promise<string[]> {
+  const [sessions, conversations] = await Promise.all([
+    prisma.session.findMany({
+      where: { projectId, id: { in: evidence.sessionIds ?? [] } },
+      select: { analysis: true },
+    }),
+    prisma.conversation.findMany({
+      where: { projectId, id: { in: evidence.conversationIds ?? [] } },
+      select: { analysis: true },
+    }),
+  ]);
+
+  return buildFrustrationPattern(
+    [...sessions.flatMap((s) => sessionTexts(s.analysis)), ...conversations.flatMap((c) => conversationTexts(c.analysis))],
+    title,
+  );
+}
+
+/**
+ * Measure a resolved ticket against the same-length window before it was
+ * resolved, store the result, and act on a final verdict: verified fixes
+ * move to 'verified', regressions reopen the ticket.
+ */
+export async function verifyTicketFix(
+  ticketId: string,
+  now: Date = new Date(),
+  windowDays: number = FIX_VERIFICATION_WINDOW_DAYS,
+): Promise<FixVerification | null> {
+  const ticket = await prisma.ticket.findUnique({ where: { id: ticketId } });
+  if (!ticket?.resolvedAt) return null;
+
+  const previous = ticket.verification as unknown as FixVerification | null;
+  const evidence = ticket.evidence as unknown as TicketEvidence;
+  const churnImpact = ticket.churnImpact as unknown as ChurnImpact | null;
+
+  // Keep the pattern captured at the first measurement so later
+  // re-synthesis of the ticket doesn't move the goalposts
+  const pattern =
+    previous?.resolvedAt === ticket.resolvedAt.toISOString() && previous.pattern.length > 0
+      ? previous.pattern
+      : await loadPattern(ticket.projectId, evidence, ticket.title);
+
+  const resolvedAt = ticket.resolvedAt;
+  const windowMs = windowDays * DAY_MS;
+  const windowEnd = new Date(Math.min(now.getTime(), resolvedAt.getTime() + windowMs));
+  const userIds = churnImpact?.userIds ?? [];
+
+  const [before, after] = await Promise.all([
+    measurePeriod(ticket.projectId, pattern, userIds, new Date(resolvedAt.getTime() - windowMs), resolvedAt),
+    measurePeriod(ticket.projectId, pattern, userIds, resolvedAt, windowEnd),
+  ]);
+
+  const verdict = judgeFixVerification(before, after, now.getTime() >= resolvedAt.getTime() + windowMs);
+  const verification: FixVerification = {
+    ...verdict,
+    windowDays,
+    resolvedAt: resolvedAt.toISOString(),
+    measuredAt: now.toISOString(),
+    pattern,
+    before,
+    after,
+  };
+
+  await prisma.ticket.update({
+    where: { id: ticketId },
+    data: { verification: verification as unknown as Prisma.InputJsonValue },
+  });
+
+  const isNewVerdict = verdict.outcome !== "measuring" && previous?.outcome !== verdict.outcome;
+  if (isNewVerdict) {
+    await recordTicketActivity({
+      ticketId,
+      type: "verification",
+      toValue: verdict.outcome,
+      message: verdict.reasons.join("; "),
+    });
+  }
+
+  if (ticket.status === "resolved" && isNewVerdict) {
+    if (verdict.outcome === "verified_fixed") {
+      await updateTicketLifecycle(ticketId, { status: "verified" }, null);
+    } else if (verdict.outcome === "regressed") {
+      await updateTicketLifecycle(ticketId, { status: ticket.assigneeId ? "assigned" : "open" }, null);
+    }
+  }
+
+  return verification;
+}
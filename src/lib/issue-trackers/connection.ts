@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { IssueTrackerConnection } from '@prisma/client';
+import { z } from 'zod';
+import { storedSecretHint } from '@/lib/credential-encryption';
+
+export const DEFAULT_LINEAR_API_URL = 'https://api.linear.app';
+
+export const issueTrackerConnectionSchema = z
+  .object({
+    provider: z.enum(['jira', 'linear']),
+    baseUrl: z.string().trim().max(500).optional(),
+    email: z.string().trim().max(200).optional().nullable(),
+    apiToken: z.string().trim().min(1).max(500).optional(),
+    projectKey: z.string().trim().min(1).max(100),
+    issueType: z.string().trim().max(100).optional().nullable(),
+  })
+  .superRefine((input, ctx) => {
+    if (input.provider === 'jira') {
+      if (!input.baseUrl || !/^https?:\/\/\S+$/.test(input.baseUrl)) {
+        ctx.addIssue({ code: 'custom', path: ['baseUrl'], message: 'Jira site URL must be an http(s) URL, e.g. https://acme.atlassian.net' });
+      }
+      if (!input.email || !z.email().safeParse(input.email).success) {
+        ctx.addIssue({ code: 'custom', path: ['email'], message: 'Jira connections need the Atlassian account email' });
+      }
+    } else if (input.baseUrl && !/^https?:\/\/\S+$/.test(input.baseUrl)) {
+      ctx.addIssue({ code: 'custom', path: ['baseUrl'], message: 'Linear API URL must be an http(s) URL' });
+    }
+  });
+
+export type IssueTrackerConnectionInput = z.infer<typeof issueTrackerConnectionSchema>;
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+/**
+ * Check an HMAC-SHA256 hex signature over the raw request body. Accepts
+ * Jira's `sha256=<hex>` form as well as Linear's bare hex digest.
+ */
+export function verifyWebhookSignature(rawBody: string, secret: string, signature: string | null): boolean {
+  if (!signature) return false;
+  const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest();
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/** Connection as returned to the browser — the API token never leaves the server. */
+export function toPublicConnection(connection: IssueTrackerConnection) {
+  const { apiToken, ...rest } = connection;
+  return { ...rest, apiTokenHint: storedSecretHint(apiToken) };
+}
@@ -0,0 +1,23 @@
+export {
+  DEFAULT_LINEAR_API_URL,
+  generateWebhookSecret,
+  issueTrackerConnectionSchema,
+  toPublicConnection,
+  verifyWebhookSignature,
+} from './connection';
+export type { IssueTrackerConnectionInput } from './connection';
+export { buildIssueDraft } from './issue-draft';
+export { createJiraIssue, parseJiraWebhook, toAdf } from './jira';
+export { createLinearIssue, parseLinearWebhook, toLinearMarkdown } from './linear';
+export { applyExternalIssueState, connectionConfig, createIssue, pushTicket, statusFromExternal } from './push';
+export { ISSUE_TRACKER_PROVIDERS } from './types';
+export type {
+  CreatedIssue,
+  ExternalIssueState,
+  ExternalStatusCategory,
+  IssueDraft,
+  IssuePriority,
+  IssueTrackerConfig,
+  IssueTrackerProvider,
+  PushableTicket,
+} from './types';
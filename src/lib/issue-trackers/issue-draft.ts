@@ -0,0 +1,53 @@
+import { IssueDraft, IssuePriority, PushableTicket } from './types';
+
+const MAX_EVIDENCE_LINKS = 10;
+
+const PRIORITY_BY_SEVERITY: Record<string, IssuePriority> = {
+  critical: 'urgent',
+  high: 'high',
+  medium: 'medium',
+};
+
+/**
+ * Build the tracker-neutral issue for a ticket. Evidence links point back
+ * at the dashboard so engineers can open the sessions and conversations.
+ */
+export function buildIssueDraft(ticket: PushableTicket, appUrl: string): IssueDraft {
+  const base = appUrl.replace(/\/$/, '');
+
+  const links = [
+    ...ticket.evidence.sessionIds.slice(0, MAX_EVIDENCE_LINKS).map((id, i) => ({
+      title: `Session ${i + 1}`,
+      url: `${base}/dashboard/session-insights?highlight=${encodeURIComponent(id)}`,
+    })),
+    ...ticket.evidence.conversationIds.slice(0, MAX_EVIDENCE_LINKS).map((id, i) => ({
+      title: `Conversation ${i + 1}`,
+      url: `${base}/dashboard/hypotheses?conversationId=${encodeURIComponent(id)}`,
+    })),
+  ];
+
+  const impact = [
+    `Severity: ${ticket.severity} · Score: ${ticket.compositeScore}/100 · Effort: ${ticket.effort}`,
+    `${ticket.evidence.sessionIds.length} session(s), ${ticket.evidence.conversationIds.length} conversation(s)`,
+  ];
+  if (ticket.churnImpact && ticket.churnImpact.atRiskUsers > 0) {
+    impact.push(`${ticket.churnImpact.atRiskUsers} at-risk user(s) (avg risk: ${ticket.churnImpact.avgRiskScore})`);
+  }
+
+  const sections = [
+    { heading: 'Description', lines: [ticket.description] },
+    { heading: 'Impact', lines: impact },
+    { heading: 'Recommendation', lines: [ticket.recommendation] },
+  ];
+  if (ticket.evidence.quotes.length > 0) {
+    sections.push({ heading: 'User Quotes', lines: ticket.evidence.quotes.slice(0, 5).map((q) => `"${q}"`) });
+  }
+
+  return {
+    title: ticket.title,
+    priority: PRIORITY_BY_SEVERITY[ticket.severity] ?? 'medium',
+    labels: ['tranzmit', ticket.category.replace(/_/g, '-')],
+    sections,
+    links,
+  };
+}
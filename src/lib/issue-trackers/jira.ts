@@ -0,0 +1,144 @@
+import { CreatedIssue, ExternalIssueState, ExternalStatusCategory, IssueDraft, IssuePriority, IssueTrackerConfig } from './types';
+
+// Jira Cloud REST API v3
+// https://developer.atlassian.com/cloud/jira/platform/rest/v3/api-group-issues/#api-rest-api-3-issue-post
+
+const JIRA_PRIORITIES: Record<IssuePriority, string> = {
+  urgent: 'Highest',
+  high: 'High',
+  medium: 'Medium',
+};
+
+const STATUS_CATEGORIES: Record<string, ExternalStatusCategory> = {
+  new: 'todo',
+  indeterminate: 'in_progress',
+  done: 'done',
+};
+
+// Jira has no "canceled" status category; closed-without-fixing shows up as a resolution
+const CANCELED_RESOLUTION = /won'?t|cancel|duplicate|declined|obsolete/i;
+
+type AdfNode = Record<string, unknown>;
+
+const text = (value: string, marks?: AdfNode[]): AdfNode => (marks ? { type: 'text', text: value, marks } : { type: 'text', text: value });
+
+/**
+ * Render an issue draft as an Atlassian Document Format description.
+ */
+export function toAdf(draft: IssueDraft): AdfNode {
+  const content: AdfNode[] = [];
+
+  for (const section of draft.sections) {
+    content.push({ type: 'heading', attrs: { level: 3 }, content: [text(section.heading)] });
+    for (const line of section.lines) {
+      if (line.trim()) content.push({ type: 'paragraph', content: [text(line)] });
+    }
+  }
+
+  if (draft.links.length > 0) {
+    content.push({ type: 'heading', attrs: { level: 3 }, content: [text('Evidence')] });
+    content.push({
+      type: 'bulletList',
+      content: draft.links.map((link) => ({
+        type: 'listItem',
+        content: [{ type: 'paragraph', content: [text(link.title, [{ type: 'link', attrs: { href: link.url } }])] }],
+      })),
+    });
+  }
+
+  return { type: 'doc', version: 1, content };
+}
+
+function jiraHeaders(config: IssueTrackerConfig) {
+  const auth = Buffer.from(`${config.email}:${config.apiToken}`).toString('base64');
+  return {
+    Authorization: `Basic ${auth}`,
+    Accept: 'application/json',
+    'Content-Type': 'application/json',
+  };
+}
+
+export async function createJiraIssue(config: IssueTrackerConfig, draft: IssueDraft): Promise<CreatedIssue> {
+  if (!config.email) {
+    throw new Error('Jira connection is missing the account email');
+  }
+
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+  const fields: Record<string, unknown> = {
+    project: { key: config.projectKey },
+    issuetype: { name: config.issueType || 'Task' },
+    summary: draft.title.slice(0, 255),
+    description: toAdf(draft),
+    labels: draft.labels,
+    priority: { name: JIRA_PRIORITIES[draft.priority] },
+  };
+
+  const post = () =>
+    fetch(`${baseUrl}/rest/api/3/issue`, {
+      method: 'POST',
+      headers: jiraHeaders(config),
+      body: JSON.stringify({ fields }),
+      signal: AbortSignal.timeout(15_000),
+    });
+
+  let response = await post();
+
+  // Team-managed projects often leave priority off the create screen
+  if (response.status === 400) {
+    const errorText = await response.text();
+    if (!/priority/i.test(errorText)) {
+      throw new Error(`Jira API error: 400 - ${errorText}`);
+    }
+    delete fields.priority;
+    response = await post();
+  }
+
+  if (!response.ok) {
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('Jira authentication failed. Check the account email and API token.');
+    }
+    const errorText = await response.text();
+    throw new Error(`Jira API error: ${response.status} - ${errorText}`);
+  }
+
+  const issue = (await response.json()) as { id: string; key: string };
+  return {
+    id: issue.id,
+    key: issue.key,
+    url: `${baseUrl}/browse/${issue.key}`,
+    status: null,
+    statusCategory: null,
+  };
+}
+
+interface JiraWebhookPayload {
+  webhookEvent?: string;
+  issue?: {
+    id: string;
+    key: string;
+    fields?: {
+      status?: { name: string; statusCategory?: { key: string } };
+      resolution?: { name: string } | null;
+    };
+  };
+}
+
+/**
+ * Extract the issue's state from a Jira `jira:issue_updated` webhook.
+ * Returns null for events that don't carry a status.
+ */
+export function parseJiraWebhook(payload: JiraWebhookPayload): ExternalIssueState | null {
+  const issue = payload.issue;
+  const status = issue?.fields?.status;
+  if (!issue || !status) return null;
+
+  const resolution = issue.fields?.resolution?.name;
+  const category = STATUS_CATEGORIES[status.statusCategory?.key ?? ''] ?? 'todo';
+
+  return {
+    id: issue.id,
+    key: issue.key,
+    status: status.name,
+    statusCategory: category === 'done' && resolution && CANCELED_RESOLUTION.test(resolution) ? 'canceled' : category,
+  };
+}
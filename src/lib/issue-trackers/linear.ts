@@ -0,0 +1,154 @@
+import { CreatedIssue, ExternalIssueState, ExternalStatusCategory, IssueDraft, IssuePriority, IssueTrackerConfig } from './types';
+
+// Linear GraphQL API
+// https://developers.linear.app/docs/graphql/working-with-the-graphql-api
+
+const LINEAR_PRIORITIES: Record<IssuePriority, number> = {
+  urgent: 1,
+  high: 2,
+  medium: 3,
+};
+
+const STATE_CATEGORIES: Record<string, ExternalStatusCategory> = {
+  triage: 'todo',
+  backlog: 'todo',
+  unstarted: 'todo',
+  started: 'in_progress',
+  completed: 'done',
+  canceled: 'canceled',
+};
+
+interface LinearState {
+  name: string;
+  type: string;
+}
+
+/**
+ * Render an issue draft as Linear's markdown description.
+ */
+export function toLinearMarkdown(draft: IssueDraft): string {
+  const blocks = draft.sections.map((section) => `### ${section.heading}\n\n${section.lines.join('\n\n')}`);
+  if (draft.links.length > 0) {
+    blocks.push(`### Evidence\n\n${draft.links.map((link) => `- [${link.title}](${link.url})`).join('\n')}`);
+  }
+  return blocks.join('\n\n');
+}
+
+async function linearRequest<T>(config: IssueTrackerConfig, query: string, variables: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/graphql`, {
+    method: 'POST',
+    headers: {
+      // Personal API keys are sent as-is, without a Bearer prefix
+      Authorization: config.apiToken,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ query, variables }),
+    signal: AbortSignal.timeout(15_000),
+  });
+
+  if (response.status === 401) {
+    throw new Error('Linear authentication failed. Check your API key.');
+  }
+
+  const body = (await response.json().catch(() => null)) as { data?: T; errors?: { message: string }[] } | null;
+  if (!response.ok || !body?.data) {
+    const message = body?.errors?.map((e) => e.message).join('; ') || `HTTP ${response.status}`;
+    throw new Error(`Linear API error: ${message}`);
+  }
+  return body.data;
+}
+
+/** Resolve label names to ids, creating team labels that don't exist yet. */
+async function resolveLabelIds(config: IssueTrackerConfig, names: string[]): Promise<string[]> {
+  const data = await linearRequest<{ issueLabels: { nodes: { id: string; name: string }[] } }>(
+    config,
+    `query IssueLabels($names: [String!]) {
+      issueLabels(filter: { name: { in: $names } }) { nodes { id name } }
+    }`,
+    { names }
+  );
+
+  const byName = new Map(data.issueLabels.nodes.map((label) => [label.name.toLowerCase(), label.id]));
+  const ids: string[] = [];
+
+  for (const name of names) {
+    const existing = byName.get(name.toLowerCase());
+    if (existing) {
+      ids.push(existing);
+      continue;
+    }
+    const created = await linearRequest<{ issueLabelCreate: { issueLabel: { id: string } } }>(
+      config,
+      `mutation IssueLabelCreate($input: IssueLabelCreateInput!) {
+        issueLabelCreate(input: $input) { issueLabel { id } }
+      }`,
+      { input: { name, teamId: config.projectKey } }
+    );
+    ids.push(created.issueLabelCreate.issueLabel.id);
+  }
+
+  return ids;
+}
+
+export async function createLinearIssue(config: IssueTrackerConfig, draft: IssueDraft): Promise<CreatedIssue> {
+  const labelIds = await resolveLabelIds(config, draft.labels);
+
+  const data = await linearRequest<{
+    issueCreate: { success: boolean; issue: { id: string; identifier: string; url: string; state: LinearState | null } | null };
+  }>(
+    config,
+    `mutation IssueCreate($input: IssueCreateInput!) {
+      issueCreate(input: $input) {
+        success
+        issue { id identifier url state { name type } }
+      }
+    }`,
+    {
+      input: {
+        teamId: config.projectKey,
+        title: draft.title,
+        description: toLinearMarkdown(draft),
+        priority: LINEAR_PRIORITIES[draft.priority],
+        labelIds,
+      },
+    }
+  );
+
+  const issue = data.issueCreate.issue;
+  if (!data.issueCreate.success || !issue) {
+    throw new Error('Linear API error: issue was not created');
+  }
+
+  return {
+    id: issue.id,
+    key: issue.identifier,
+    url: issue.url,
+    status: issue.state?.name ?? null,
+    statusCategory: issue.state ? STATE_CATEGORIES[issue.state.type] ?? 'todo' : null,
+  };
+}
+
+interface LinearWebhookPayload {
+  type?: string;
+  action?: string;
+  data?: {
+    id: string;
+    identifier?: string;
+    state?: LinearState;
+  };
+}
+
+/**
+ * Extract the issue's state from a Linear `Issue` webhook.
+ * Returns null for other entity types and payloads without a state.
+ */
+export function parseLinearWebhook(payload: LinearWebhookPayload): ExternalIssueState | null {
+  if (payload.type !== 'Issue' || !payload.data?.state) return null;
+
+  return {
+    id: payload.data.id,
+    key: payload.data.identifier ?? null,
+    status: payload.data.state.name,
+    statusCategory: STATE_CATEGORIES[payload.data.state.type] ?? 'todo',
+  };
+}
@@ -0,0 +1,138 @@
+import { IssueTrackerConnection, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { decryptSecret } from '@/lib/credential-encryption';
+import { canTransition, normalizeTicketStatus, TicketActivityInput, TicketStatus } from '@/lib/ticket-lifecycle';
+import { buildIssueDraft } from './issue-draft';
+import { createJiraIssue } from './jira';
+import { createLinearIssue } from './linear';
+import { CreatedIssue, ExternalIssueState, IssueDraft, IssueTrackerConfig, IssueTrackerProvider, PushableTicket } from './types';
+
+export function createIssue(config: IssueTrackerConfig, draft: IssueDraft): Promise<CreatedIssue> {
+  switch (config.provider as IssueTrackerProvider) {
+    case 'jira':
+      return createJiraIssue(config, draft);
+    case 'linear':
+      return createLinearIssue(config, draft);
+    default:
+      throw new Error(`Unsupported issue tracker: ${config.provider}`);
+  }
+}
+
+/**
+ * Tracker settings for a stored connection, with the API token decrypted.
+ * This is the only place the token is decrypted.
+ */
+export function connectionConfig(connection: IssueTrackerConfig): IssueTrackerConfig {
+  return {
+    provider: connection.provider,
+    baseUrl: connection.baseUrl,
+    email: connection.email,
+    apiToken: decryptSecret(connection.apiToken) ?? '',
+    projectKey: connection.projectKey,
+    issueType: connection.issueType,
+  };
+}
+
+/**
+ * Create the external issue for a ticket and remember its key. Tickets
+ * that were already pushed keep their original issue. Pushing an open
+ * ticket counts as triaging it.
+ */
+export async function pushTicket(
+  ticket: PushableTicket & { externalKey: string | null; status: string },
+  connection: IssueTrackerConnection,
+  appUrl: string,
+  actorId: string | null = null
+) {
+  if (ticket.externalKey) {
+    throw new Error(`Ticket already pushed as ${ticket.externalKey}`);
+  }
+
+  const issue = await createIssue(connectionConfig(connection), buildIssueDraft(ticket, appUrl));
+  console.log(`[IssueTrackers] Pushed ticket ${ticket.id} to ${connection.provider} as ${issue.key}`);
+
+  const fromStatus = normalizeTicketStatus(ticket.status);
+  const toStatus = fromStatus === 'open' ? 'triaged' : fromStatus;
+
+  const activity: TicketActivityInput[] = [
+    { ticketId: ticket.id, actorId, type: 'pushed', toValue: issue.key, message: issue.url },
+  ];
+  if (toStatus !== fromStatus) {
+    activity.push({ ticketId: ticket.id, actorId, type: 'status_changed', fromValue: fromStatus, toValue: toStatus });
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.ticket.update({
+      where: { id: ticket.id },
+      data: {
+        status: toStatus,
+        externalProvider: connection.provider,
+        externalId: issue.id,
+        externalKey: issue.key,
+        externalUrl: issue.url,
+        externalStatus: issue.status,
+        externalStatusCategory: issue.statusCategory,
+        pushedAt: new Date(),
+      },
+    }),
+    prisma.ticketActivity.createMany({ data: activity }),
+  ]);
+  return updated;
+}
+
+/**
+ * Lifecycle state implied by the tracker: closing the issue resolves the
+ * ticket, closing it as won't-do marks it wont_fix. Reopening in the
+ * tracker is left to the team — it's logged but doesn't move the ticket.
+ */
+export function statusFromExternal(current: string, state: ExternalIssueState): TicketStatus | null {
+  const target: TicketStatus | null =
+    state.statusCategory === 'done' ? 'resolved' : state.statusCategory === 'canceled' ? 'wont_fix' : null;
+  const from = normalizeTicketStatus(current);
+
+  if (!target || from === target || from === 'verified' || !canTransition(from, target)) return null;
+  return target;
+}
+
+/**
+ * Apply a webhook-reported issue state to the ticket(s) linked to it
+ * within the connection's project. Returns the number of tickets updated.
+ */
+export async function applyExternalIssueState(connection: IssueTrackerConnection, state: ExternalIssueState): Promise<number> {
+  const tickets = await prisma.ticket.findMany({
+    where: {
+      projectId: connection.projectId,
+      externalProvider: connection.provider,
+      externalId: state.id,
+    },
+    select: { id: true, status: true, externalStatus: true },
+  });
+
+  for (const ticket of tickets) {
+    const nextStatus = statusFromExternal(ticket.status, state);
+    const activity: TicketActivityInput[] = [];
+
+    if (ticket.externalStatus !== state.status) {
+      activity.push({ ticketId: ticket.id, type: 'external_status', fromValue: ticket.externalStatus, toValue: state.status });
+    }
+    if (nextStatus) {
+      activity.push({ ticketId: ticket.id, type: 'status_changed', fromValue: normalizeTicketStatus(ticket.status), toValue: nextStatus });
+    }
+
+    await prisma.$transaction([
+      prisma.ticket.update({
+        where: { id: ticket.id },
+        data: {
+          externalStatus: state.status,
+          externalStatusCategory: state.statusCategory,
+          ...(state.key ? { externalKey: state.key } : {}),
+          ...(nextStatus ? { status: nextStatus, resolvedAt: nextStatus === 'resolved' ? new Date() : null } : {}),
+          ...(nextStatus === 'resolved' ? { verification: Prisma.DbNull } : {}),
+        },
+      }),
+      prisma.ticketActivity.createMany({ data: activity }),
+    ]);
+  }
+
+  return tickets.length;
+}
@@ -0,0 +1,42 @@
+import type { IssueTrackerConnection } from '@prisma/client';
+import type { TicketForJira } from '@/lib/ticket-scoring';
+
+export type IssueTrackerProvider = 'jira' | 'linear';
+
+export const ISSUE_TRACKER_PROVIDERS: IssueTrackerProvider[] = ['jira', 'linear'];
+
+export type IssuePriority = 'urgent' | 'high' | 'medium';
+
+export type ExternalStatusCategory = 'todo' | 'in_progress' | 'done' | 'canceled';
+
+/** Tracker-neutral issue built from a ticket, rendered by each provider. */
+export interface IssueDraft {
+  title: string;
+  priority: IssuePriority;
+  labels: string[];
+  sections: { heading: string; lines: string[] }[];
+  links: { title: string; url: string }[];
+}
+
+export interface CreatedIssue {
+  id: string;
+  key: string;
+  url: string;
+  status: string | null;
+  statusCategory: ExternalStatusCategory | null;
+}
+
+/** Issue state reported by a status-sync webhook. */
+export interface ExternalIssueState {
+  id: string;
+  key: string | null;
+  status: string;
+  statusCategory: ExternalStatusCategory;
+}
+
+export type PushableTicket = TicketForJira & { id: string };
+
+export type IssueTrackerConfig = Pick<
+  IssueTrackerConnection,
+  'provider' | 'baseUrl' | 'email' | 'apiToken' | 'projectKey' | 'issueType'
+>;
@@ -1,3 +1,3 @@
-export { syncSessionsFromMixpanel, fetchMixpanelUserSessions } from './sync';
+export { syncSessionsFromMixpanel, fetchMixpanelUserSessions, streamMixpanelEvents, getMixpanelAuth, projectMixpanelConfig } from './sync';
 export { mixpanelToRRWebEvents } from './event-mapper';
 export type { MixpanelEvent, MixpanelSession } from './types';
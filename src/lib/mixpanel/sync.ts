@@ -1,23 +1,54 @@
+import { Project } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { decryptSecret } from '@/lib/credential-encryption';
 import type { SyncResult } from '@/types/session';
 import type { MixpanelEvent, MixpanelSession } from './types';
 import { mixpanelToRRWebEvents } from './event-mapper';
-import { hasReplayData, assembleReplayEvents, cleanupOldChunks } from '@/lib/replay-assembler';
+import { hasReplayData, assembleReplay, cleanupOldChunks } from '@/lib/replay-assembler';
+import type { ReplayIntegrityReport } from '@/lib/replay-integrity';
 
-// Fetch events from Mixpanel Export API
-async function fetchMixpanelEvents(
+// Service Account auth: username:secret. API Secret auth: secret with empty username.
+export function getMixpanelAuth(apiKey: string, apiSecret: string | null) {
+  const isServiceAccount = !!apiSecret;
+  const authString = isServiceAccount
+    ? Buffer.from(`${apiKey}:${apiSecret}`).toString('base64')
+    : Buffer.from(`${apiKey}:`).toString('base64');
+  return { isServiceAccount, authorization: `Basic ${authString}` };
+}
+
+/**
+ * Decrypted Mixpanel settings for a project — the Mixpanel counterpart of
+ * createProjectClient, and the only place its secrets are decrypted.
+ */
+export function projectMixpanelConfig(
+  project: Pick<Project, 'mixpanelKey' | 'mixpanelSecret' | 'mixpanelProjId' | 'mixpanelHost'>
+) {
+  const apiKey = decryptSecret(project.mixpanelKey);
+  if (!apiKey || !project.mixpanelProjId) {
+    throw new Error('Mixpanel not configured for this project');
+  }
+  return {
+    projectId: project.mixpanelProjId,
+    apiKey,
+    apiSecret: decryptSecret(project.mixpanelSecret),
+    host: project.mixpanelHost || 'https://mixpanel.com',
+  };
+}
+
+/**
+ * Stream events from the Mixpanel Export API line-by-line to avoid memory
+ * limits on large exports. Return false from onEvent to stop early.
+ */
+export async function streamMixpanelEvents(
   projectToken: string,
   apiKey: string,
   apiSecret: string | null,
   fromDate: string,
   toDate: string,
-  host: string
-): Promise<MixpanelEvent[]> {
-  // Service Account auth: username:secret. API Secret auth: secret with empty username.
-  const isServiceAccount = !!apiSecret;
-  const authString = isServiceAccount
-    ? Buffer.from(`${apiKey}:${apiSecret}`).toString('base64')
-    : Buffer.from(`${apiKey}:`).toString('base64');
+  host: string,
+  onEvent: (event: MixpanelEvent) => boolean | void
+): Promise<void> {
+  const { isServiceAccount, authorization } = getMixpanelAuth(apiKey, apiSecret);
 
   const baseUrl = host.replace(/\/$/, '');
 
@@ -44,75 +75,88 @@ async function fetchMixpanelEvents(
 
   console.log(`[Mixpanel] Fetching events from ${fromDate} to ${toDate} (project: ${projectToken}, serviceAccount: ${isServiceAccount})`);
 
-  try {
-    const response = await fetch(`${exportUrl}?${params}`, {
-      headers: {
-        'Authorization': `Basic ${authString}`,
-        'Accept': 'application/json',
-      },
-    });
+  const response = await fetch(`${exportUrl}?${params}`, {
+    headers: {
+      'Authorization': authorization,
+      'Accept': 'application/json',
+    },
+  });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[Mixpanel] API error (${response.status}):`, errorText);
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`[Mixpanel] API error (${response.status}):`, errorText);
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error('Mixpanel authentication failed. Check your API Secret.');
-      }
-      if (errorText.includes('Invalid project_id') || errorText.includes('unknown project')) {
-        throw new Error('Invalid Mixpanel Project ID. Note: You need the numeric Project ID (found in Project Settings → Overview), not the Project Token.');
-      }
-      throw new Error(`Mixpanel API error: ${response.status} - ${errorText}`);
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('Mixpanel authentication failed. Check your API Secret.');
     }
+    if (errorText.includes('Invalid project_id') || errorText.includes('unknown project')) {
+      throw new Error('Invalid Mixpanel Project ID. Note: You need the numeric Project ID (found in Project Settings → Overview), not the Project Token.');
+    }
+    throw new Error(`Mixpanel API error: ${response.status} - ${errorText}`);
+  }
 
-    // Stream the response line-by-line to avoid memory limits on large exports
-    const MAX_EVENTS = 50000;
-    const events: MixpanelEvent[] = [];
-    const reader = response.body?.getReader();
+  const reader = response.body?.getReader();
 
-    if (!reader) {
-      throw new Error('No response body from Mixpanel');
-    }
+  if (!reader) {
+    throw new Error('No response body from Mixpanel');
+  }
 
-    const decoder = new TextDecoder();
-    let buffer = '';
+  const decoder = new TextDecoder();
+  let buffer = '';
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+  const emit = (line: string): boolean => {
+    const trimmed = line.trim();
+    if (!trimmed) return true;
+    try {
+      return onEvent(JSON.parse(trimmed)) !== false;
+    } catch {
+      // skip malformed lines
+      return true;
+    }
+  };
 
-      buffer += decoder.decode(value, { stream: true });
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
 
-      const lines = buffer.split('\n');
-      // Keep the last partial line in the buffer
-      buffer = lines.pop() || '';
+    buffer += decoder.decode(value, { stream: true });
 
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed) continue;
-        try {
-          events.push(JSON.parse(trimmed));
-        } catch {
-          // skip malformed lines
-        }
-        if (events.length >= MAX_EVENTS) break;
-      }
+    const lines = buffer.split('\n');
+    // Keep the last partial line in the buffer
+    buffer = lines.pop() || '';
 
-      if (events.length >= MAX_EVENTS) {
+    for (const line of lines) {
+      if (!emit(line)) {
         reader.cancel();
-        console.log(`[Mixpanel] Hit ${MAX_EVENTS} event cap, stopping early`);
-        break;
+        return;
       }
     }
+  }
+
+  // Process any remaining data in buffer
+  emit(buffer);
+}
+
+// Fetch events from Mixpanel Export API
+async function fetchMixpanelEvents(
+  projectToken: string,
+  apiKey: string,
+  apiSecret: string | null,
+  fromDate: string,
+  toDate: string,
+  host: string
+): Promise<MixpanelEvent[]> {
+  const MAX_EVENTS = 50000;
+  const events: MixpanelEvent[] = [];
 
-    // Process any remaining data in buffer
-    if (buffer.trim() && events.length < MAX_EVENTS) {
-      try {
-        events.push(JSON.parse(buffer.trim()));
-      } catch {
-        // skip
+  try {
+    await streamMixpanelEvents(projectToken, apiKey, apiSecret, fromDate, toDate, host, (event) => {
+      events.push(event);
+      if (events.length >= MAX_EVENTS) {
+        console.log(`[Mixpanel] Hit ${MAX_EVENTS} event cap, stopping early`);
+        return false;
       }
-    }
+    });
 
     console.log(`[Mixpanel] Fetched ${events.length} events`);
     return events;
@@ -174,19 +218,16 @@ export async function syncSessionsFromMixpanel(
     throw new Error('Project not found');
   }
 
-  const apiKey = project.mixpanelKey;
-  const apiSecret = project.mixpanelSecret;
-  const mixpanelProjectId = project.mixpanelProjId;
-  const host = project.mixpanelHost || 'https://mixpanel.com';
-
-  if (!apiKey) {
+  if (!project.mixpanelKey) {
     throw new Error('Mixpanel API key not configured for this project');
   }
 
-  if (!mixpanelProjectId) {
+  if (!project.mixpanelProjId) {
     throw new Error('Mixpanel Project ID not configured for this project');
   }
 
+  const { projectId: mixpanelProjectId, apiKey, apiSecret, host } = projectMixpanelConfig(project);
+
   console.log(`[Mixpanel Sync] Project: ${project.name}, Mixpanel Project: ${mixpanelProjectId}`);
 
   const toDate = new Date();
@@ -246,9 +287,10 @@ export async function syncSessionsFromMixpanel(
       const hasReal = await hasReplayData(projectId, session.sessionId);
       let rrwebEvents: unknown[];
       let replayDataSource: 'real' | 'synthetic';
+      let replayIntegrity: ReplayIntegrityReport | undefined;
 
       if (hasReal) {
-        rrwebEvents = await assembleReplayEvents(projectId, session.sessionId);
+        ({ events: rrwebEvents, integrity: replayIntegrity } = await assembleReplay(projectId, session.sessionId));
         replayDataSource = 'real';
         console.log(`[Mixpanel Sync] Using real replay data for session ${session.sessionId} (${rrwebEvents.length} events)`);
       } else {
@@ -282,6 +324,7 @@ export async function syncSessionsFromMixpanel(
             source: 'mixpanel',
             mixpanelSessionId: session.sessionId,
             replayDataSource,
+            replayIntegrity,
           }),
         },
       });
@@ -331,14 +374,15 @@ export async function fetchMixpanelUserSessions(
   fromDate.setDate(fromDate.getDate() - daysBack);
 
   const formatDate = (d: Date) => d.toISOString().split('T')[0];
+  const config = projectMixpanelConfig(project);
 
   const events = await fetchMixpanelEvents(
-    project.mixpanelProjId,
-    project.mixpanelKey,
-    project.mixpanelSecret,
+    config.projectId,
+    config.apiKey,
+    config.apiSecret,
     formatDate(fromDate),
     formatDate(toDate),
-    project.mixpanelHost || 'https://mixpanel.com'
+    config.host
   );
 
   const userEvents = events.filter(e => e.properties.distinct_id === distinctId);
@@ -0,0 +1,358 @@
+/**
+ * Organization invitations and member management
+ *
+ * Admins invite people by email; the link carries a random token of which
+ * only the SHA-256 is stored, and it can only be accepted by a signed-in
+ * user with the invited address. The owner role is never granted by
+ * invitation or role change — it only moves through transferOwnership().
+ */
+
+import crypto from 'crypto';
+import { OrganizationInvitation, OrganizationMember } from '@prisma/client';
+import { Resend } from 'resend';
+import { z } from 'zod';
+import { prisma } from './prisma';
+
+export const INVITATION_TTL_DAYS = 7;
+
+export const ASSIGNABLE_ROLES = ['admin', 'member'] as const;
+
+export type AssignableRole = (typeof ASSIGNABLE_ROLES)[number];
+
+export const invitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(ASSIGNABLE_ROLES).default('member'),
+});
+
+export const memberRoleSchema = z.object({
+  role: z.enum(ASSIGNABLE_ROLES),
+});
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+type Inviter = { firstName: string | null; lastName: string | null; email: string };
+
+let resend: Resend | null = null;
+
+function getResendClient(): Resend {
+  if (!resend) {
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY is not configured');
+    }
+    resend = new Resend(process.env.RESEND_API_KEY);
+  }
+  return resend;
+}
+
+// ==================== TOKENS ====================
+
+/** `tzinv_` + 48 hex chars. */
+export function generateInvitationToken(): string {
+  return `tzinv_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function invitationUrl(appUrl: string, token: string): string {
+  return `${appUrl.replace(/\/$/, '')}/invite/${token}`;
+}
+
+export function invitationStatus(
+  invitation: Pick<OrganizationInvitation, 'acceptedAt' | 'revokedAt' | 'expiresAt'>,
+  now = new Date()
+): InvitationStatus {
+  if (invitation.acceptedAt) return 'accepted';
+  if (invitation.revokedAt) return 'revoked';
+  if (invitation.expiresAt <= now) return 'expired';
+  return 'pending';
+}
+
+function displayName(user: Inviter | null | undefined): string | null {
+  if (!user) return null;
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+}
+
+/** Invitation as returned to the browser — never includes the token or its hash. */
+export function toPublicInvitation(
+  invitation: OrganizationInvitation & { invitedBy?: Inviter | null },
+  now = new Date()
+) {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    status: invitationStatus(invitation, now),
+    invitedBy: displayName(invitation.invitedBy),
+    expiresAt: invitation.expiresAt,
+    createdAt: invitation.createdAt,
+  };
+}
+
+// ==================== EMAIL ====================
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+async function sendInvitationEmail(params: {
+  to: string;
+  organizationName: string;
+  inviterName: string | null;
+  role: string;
+  url: string;
+  expiresAt: Date;
+}): Promise<void> {
+  const fromEmail = process.env.RESEND_FROM_EMAIL || 'noreply@resend.dev';
+  const who = params.inviterName ? `${params.inviterName} invited you` : 'You have been invited';
+  const expires = params.expiresAt.toUTCString();
+
+  const html = `
+<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1e293b;">
+  <h2 style="margin: 0 0 8px;">Join ${escapeHtml(params.organizationName)} on Tranzmit</h2>
+  <p style="margin: 0 0 16px; color: #475569;">${escapeHtml(who)} to join as ${params.role === 'admin' ? 'an admin' : 'a member'}.</p>
+  <p style="margin: 0 0 16px;">
+    <a href="${escapeHtml(params.url)}" style="display: inline-block; padding: 10px 18px; background: #6366f1; color: #ffffff; border-radius: 8px; text-decoration: none; font-weight: 600;">Accept invitation</a>
+  </p>
+  <p style="margin: 0; font-size: 12px; color: #94a3b8;">The link expires ${expires}. Sign in with ${escapeHtml(params.to)} to accept it.</p>
+</div>`;
+
+  const { error } = await getResendClient().emails.send({
+    from: fromEmail,
+    to: params.to,
+    subject: `${who} to ${params.organizationName} on Tranzmit`,
+    html,
+    text: `${who} to join ${params.organizationName} on Tranzmit as ${params.role}.\n\nAccept: ${params.url}\n\nThe link expires ${expires}.`,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+// ==================== INVITATIONS ====================
+
+export interface IssuedInvitation {
+  invitation: OrganizationInvitation;
+  url: string;
+  emailSent: boolean;
+  emailError: string | null;
+}
+
+function invitationToken(now: Date) {
+  const token = generateInvitationToken();
+  return {
+    token,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Email the invitation link. A failed email doesn't undo the invitation:
+ * the link is returned so the admin can share it another way.
+ */
+async function deliverInvitation(
+  invitation: OrganizationInvitation,
+  token: string,
+  organizationName: string,
+  inviter: Inviter,
+  appUrl: string
+): Promise<IssuedInvitation> {
+  const url = invitationUrl(appUrl, token);
+
+  try {
+    await sendInvitationEmail({
+      to: invitation.email,
+      organizationName,
+      inviterName: displayName(inviter),
+      role: invitation.role,
+      url,
+      expiresAt: invitation.expiresAt,
+    });
+    return { invitation, url, emailSent: true, emailError: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to send invitation email';
+    console.error('[Invitations] Email failed:', message);
+    return { invitation, url, emailSent: false, emailError: message };
+  }
+}
+
+/**
+ * Invite an email address. Any pending invitation for the same address is
+ * revoked so only the newest link works.
+ */
+export async function createInvitation(params: {
+  organization: { id: string; name: string };
+  email: string;
+  role: AssignableRole;
+  invitedBy: Inviter & { id: string };
+  appUrl: string;
+  now?: Date;
+}): Promise<IssuedInvitation> {
+  const now = params.now ?? new Date();
+  const { token, tokenHash, expiresAt } = invitationToken(now);
+
+  await prisma.organizationInvitation.updateMany({
+    where: { organizationId: params.organization.id, email: params.email, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: now },
+  });
+
+  const invitation = await prisma.organizationInvitation.create({
+    data: {
+      organizationId: params.organization.id,
+      email: params.email,
+      role: params.role,
+      tokenHash,
+      invitedById: params.invitedBy.id,
+      expiresAt,
+    },
+  });
+
+  return deliverInvitation(invitation, token, params.organization.name, params.invitedBy, params.appUrl);
+}
+
+/** Send a pending or expired invitation again with a new link and expiry; the old link stops working. */
+export async function resendInvitation(
+  invitation: OrganizationInvitation,
+  organizationName: string,
+  inviter: Inviter,
+  appUrl: string,
+  now = new Date()
+): Promise<IssuedInvitation> {
+  const { token, tokenHash, expiresAt } = invitationToken(now);
+  const updated = await prisma.organizationInvitation.update({
+    where: { id: invitation.id },
+    data: { tokenHash, expiresAt },
+  });
+  return deliverInvitation(updated, token, organizationName, inviter, appUrl);
+}
+
+export async function findInvitationByToken(token: string) {
+  return prisma.organizationInvitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+    include: {
+      organization: { select: { id: true, name: true } },
+      invitedBy: { select: { firstName: true, lastName: true, email: true } },
+    },
+  });
+}
+
+/** Why the user can't accept this invitation, or null if they can. */
+export function invitationError(
+  invitation: Pick<OrganizationInvitation, 'email' | 'acceptedAt' | 'revokedAt' | 'expiresAt'> | null,
+  userEmail: string,
+  now = new Date()
+): { status: number; error: string } | null {
+  if (!invitation) {
+    return { status: 404, error: 'Invitation not found' };
+  }
+
+  const status = invitationStatus(invitation, now);
+  if (status === 'accepted') return { status: 410, error: 'This invitation has already been used' };
+  if (status === 'revoked') return { status: 410, error: 'This invitation has been revoked' };
+  if (status === 'expired') return { status: 410, error: 'This invitation has expired — ask for a new one' };
+
+  if (invitation.email !== userEmail.toLowerCase()) {
+    return { status: 403, error: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.` };
+  }
+  return null;
+}
+
+const ROLE_RANK: Record<string, number> = { member: 0, admin: 1, owner: 2 };
+
+/**
+ * Join the organization. Existing members keep their role unless the
+ * invitation grants a higher one.
+ */
+export async function acceptInvitation(
+  invitation: OrganizationInvitation,
+  userId: string,
+  now = new Date()
+): Promise<OrganizationMember> {
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.organizationInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+      data: { acceptedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new Error('This invitation has already been used');
+    }
+
+    const existing = await tx.organizationMember.findUnique({
+      where: { userId_organizationId: { userId, organizationId: invitation.organizationId } },
+    });
+    if (existing) {
+      if ((ROLE_RANK[invitation.role] ?? 0) <= (ROLE_RANK[existing.role] ?? 0)) return existing;
+      return tx.organizationMember.update({ where: { id: existing.id }, data: { role: invitation.role } });
+    }
+
+    return tx.organizationMember.create({
+      data: { userId, organizationId: invitation.organizationId, role: invitation.role },
+    });
+  });
+}
+
+// ==================== MEMBERS ====================
+
+type MemberRef = Pick<OrganizationMember, 'userId' | 'role'>;
+
+/**
+ * Why `actor` can't change the role of (or remove) `target`, or null if
+ * they can. Callers have already checked the members:manage permission.
+ */
+export function memberChangeError(actor: MemberRef, target: MemberRef, change: 'role' | 'remove'): string | null {
+  if (target.role === 'owner') {
+    return change === 'role'
+      ? "The owner's role can only change by transferring ownership"
+      : 'The owner can only leave after transferring ownership';
+  }
+  if (change === 'role' && actor.userId === target.userId) {
+    return "You can't change your own role";
+  }
+  if (change === 'role' && actor.role !== 'owner') {
+    return 'Only the owner can change roles';
+  }
+  if (target.role === 'admin' && actor.role !== 'owner' && actor.userId !== target.userId) {
+    return 'Only the owner can remove admins';
+  }
+  return null;
+}
+
+/** Make `to` the owner; the previous owner stays on as an admin. */
+export async function transferOwnership(from: OrganizationMember, to: OrganizationMember): Promise<void> {
+  await prisma.$transaction([
+    prisma.organizationMember.update({ where: { id: to.id }, data: { role: 'owner' } }),
+    prisma.organizationMember.update({ where: { id: from.id }, data: { role: 'admin' } }),
+  ]);
+}
+
+/**
+ * Before a user is deleted, hand each organization they own to the
+ * longest-standing admin (or member, if there are no admins) so the
+ * organization isn't left without an owner. Organizations with no other
+ * members are left as they are.
+ */
+export async function promoteSuccessorOwners(userId: string): Promise<number> {
+  const owned = await prisma.organizationMember.findMany({
+    where: { userId, role: 'owner' },
+    select: { organizationId: true },
+  });
+
+  let promoted = 0;
+  for (const { organizationId } of owned) {
+    const others = await prisma.organizationMember.findMany({
+      where: { organizationId, userId: { not: userId } },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (others.some((m) => m.role === 'owner')) continue;
+
+    const successor = others.find((m) => m.role === 'admin') ?? others[0];
+    if (!successor) continue;
+
+    await prisma.organizationMember.update({ where: { id: successor.id }, data: { role: 'owner' } });
+    promoted++;
+  }
+  return promoted;
+}
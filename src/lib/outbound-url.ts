@@ -0,0 +1,89 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Guards for URLs the server POSTs to on a user's behalf — webhook
+ * endpoints, alert-rule webhooks and digest webhooks. A URL is only
+ * accepted if every address its host resolves to is public, so those
+ * features can't be pointed at the internal network or a cloud metadata
+ * service. Checked when the URL is saved and again before each send, since
+ * DNS can change in between.
+ */
+
+const BLOCKED_RANGES = new BlockList();
+
+// IPv4: "this" network, private, carrier-grade NAT, loopback, link-local
+// (incl. 169.254.169.254 metadata), IETF protocol, benchmarking, multicast, reserved
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+
+// IPv6: unspecified, loopback, NAT64, unique local (incl. fd00:ec2::254 metadata),
+// link-local, multicast. IPv4-mapped addresses (::ffff:10.0.0.1) are matched
+// against the IPv4 ranges by BlockList itself.
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Whether an IP address is loopback, private, link-local or otherwise not publicly routable. */
+export function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why a URL can't be used as an outbound webhook target, or null if it can:
+ * it must be http(s) and its host must resolve only to public addresses.
+ */
+export async function outboundUrlError(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'URL is not valid';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'URL must be an http(s) URL';
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `Could not resolve ${host}`;
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isNonPublicAddress(address))) {
+    return `${host} resolves to a private or reserved address`;
+  }
+  return null;
+}
+
+/** Throw unless the URL passes outboundUrlError — called right before sending. */
+export async function assertOutboundUrl(url: string): Promise<void> {
+  const error = await outboundUrlError(url);
+  if (error) {
+    throw new Error(error);
+  }
+}
@@ -1,13 +1,25 @@
 import { Project } from '@prisma/client';
-import { createPostHogClient, PostHogClient } from './posthog';
+import { createPostHogClient, PostHogClient, PostHogConfig } from './posthog';
+import { decryptSecret } from './credential-encryption';
 
-export function createProjectClient(project: Project): PostHogClient {
-    if (!project.posthogKey || !project.posthogProjId) {
+type PostHogCredentials = Pick<Project, 'posthogKey' | 'posthogProjId' | 'posthogHost'>;
+
+/**
+ * Decrypted PostHog settings for a project, for callers that talk to the
+ * PostHog API directly rather than through PostHogClient.
+ */
+export function projectPostHogConfig(project: PostHogCredentials): Required<PostHogConfig> {
+    const apiKey = decryptSecret(project.posthogKey);
+    if (!apiKey || !project.posthogProjId) {
         throw new Error('PostHog not configured for this project');
     }
-    return createPostHogClient({
-        apiKey: project.posthogKey,
+    return {
+        apiKey,
         projectId: project.posthogProjId,
         host: project.posthogHost || 'https://us.posthog.com',
-    });
+    };
+}
+
+export function createProjectClient(project: PostHogCredentials): PostHogClient {
+    return createPostHogClient(projectPostHogConfig(project));
 }
@@ -4,7 +4,8 @@
  */
 
 import { prisma } from './prisma';
-import { createPostHogClient, PersonWithSignals, BehavioralSignal } from './posthog';
+import { PersonWithSignals, BehavioralSignal } from './posthog';
+import { createProjectClient } from './posthog-factory';
 
 export interface PrioritizedUser {
   distinctId: string;
@@ -171,11 +172,7 @@ export async function buildPriorityQueue(
     throw new Error('PostHog not configured for this project');
   }
 
-  const posthog = createPostHogClient({
-    apiKey: project.posthogKey,
-    projectId: project.posthogProjId,
-    host: project.posthogHost || 'https://us.posthog.com',
-  });
+  const posthog = createProjectClient(project);
 
   const allUsers: PersonWithSignals[] = [];
 
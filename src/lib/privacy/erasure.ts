@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { DataSubject, ErasureReport } from './types';
+
+// ==================== VALIDATION ====================
+
+export const dataSubjectSchema = z
+  .object({
+    distinctId: z.string().trim().min(1).max(500).optional(),
+    email: z.string().trim().toLowerCase().email().optional(),
+  })
+  .refine((s) => s.distinctId || s.email, { message: 'Provide a distinctId or an email' });
+
+/**
+ * Stable reference for an erasure request: SHA-256 of the identifiers as
+ * requested. The audit log stores this instead of the identifiers, so the
+ * request can be matched later without keeping the personal data.
+ */
+export function dataSubjectReference(projectId: string, subject: DataSubject): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${projectId}\n${subject.distinctId ?? ''}\n${subject.email?.toLowerCase() ?? ''}`)
+    .digest('hex');
+}
+
+// ==================== LINKED IDENTIFIERS ====================
+
+/**
+ * The requested identifiers plus the ones linked to them in this project:
+ * an email finds the distinct IDs it was scored or imported under, and a
+ * distinct ID finds the emails recorded against it.
+ */
+export async function resolveDataSubject(
+  projectId: string,
+  subject: DataSubject
+): Promise<{ distinctIds: string[]; emails: string[] }> {
+  const distinctIds = new Set<string>(subject.distinctId ? [subject.distinctId] : []);
+  const emails = new Set<string>(subject.email ? [subject.email.toLowerCase()] : []);
+
+  const byDistinctId = subject.distinctId ? [subject.distinctId] : [];
+  const byEmail = subject.email ? [subject.email] : [];
+  const emailFilter = { in: byEmail, mode: 'insensitive' as const };
+
+  const [churnedUsers, scores, members, interviews] = await Promise.all([
+    prisma.churnedUser.findMany({
+      where: { projectId, OR: [{ email: emailFilter }, { posthogDistinctId: { in: byDistinctId } }] },
+      select: { email: true, posthogDistinctId: true },
+    }),
+    prisma.dailyChurnScore.findMany({
+      where: { projectId, OR: [{ email: emailFilter }, { distinctId: { in: byDistinctId } }] },
+      select: { email: true, distinctId: true },
+      distinct: ['distinctId', 'email'],
+    }),
+    prisma.cohortMember.findMany({
+      where: { cohort: { projectId }, OR: [{ email: emailFilter }, { distinctId: { in: byDistinctId } }] },
+      select: { email: true, distinctId: true },
+    }),
+    prisma.interview.findMany({
+      where: { projectId, OR: [{ userEmail: emailFilter }, { userId: { in: byDistinctId } }] },
+      select: { userEmail: true, userId: true },
+    }),
+  ]);
+
+  for (const user of churnedUsers) {
+    emails.add(user.email.toLowerCase());
+    if (user.posthogDistinctId) distinctIds.add(user.posthogDistinctId);
+  }
+  for (const row of [...scores, ...members]) {
+    distinctIds.add(row.distinctId);
+    if (row.email) emails.add(row.email.toLowerCase());
+  }
+  for (const interview of interviews) {
+    distinctIds.add(interview.userId);
+    if (interview.userEmail) emails.add(interview.userEmail.toLowerCase());
+  }
+
+  return { distinctIds: [...distinctIds], emails: [...emails] };
+}
+
+/** Where-clauses matching the person's records in each model. */
+export function subjectFilters(projectId: string, { distinctIds, emails }: { distinctIds: string[]; emails: string[] }) {
+  const email = { in: emails, mode: 'insensitive' as const };
+  const distinctId = { in: distinctIds };
+  return {
+    sessions: { projectId, distinctId },
+    conversations: { projectId, participantEmail: email },
+    cohortMembers: { cohort: { projectId }, OR: [{ distinctId }, { email }] },
+    dailyChurnScores: { projectId, OR: [{ distinctId }, { email }] },
+    churnAlerts: { projectId, OR: [{ distinctId }, { email }] },
+    churnedUsers: { projectId, OR: [{ email }, { posthogDistinctId: distinctId }] },
+    uploadedUsers: { projectId, email },
+    interviews: { projectId, OR: [{ userId: distinctId }, { userEmail: email }] },
+    widgetTriggers: { projectId, distinctId },
+  };
+}
+
+// ==================== WEBHOOK DELIVERIES ====================
+
+// Event types whose payload names an end user (see WebhookEventData)
+const PERSONAL_WEBHOOK_EVENTS = [
+  'session.analyzed',
+  'conversation.analyzed',
+  'churn_score.level_changed',
+  'widget.clicked',
+  'recovery.email_bounced',
+];
+
+const DELIVERY_SCAN_BATCH_SIZE = 500;
+
+interface PersonFields {
+  distinctId?: unknown;
+  email?: unknown;
+  participantEmail?: unknown;
+}
+
+function identifiesSubject(value: unknown, distinctIds: Set<string>, emails: Set<string>): boolean {
+  if (!value || typeof value !== 'object') return false;
+  const { distinctId, email, participantEmail } = value as PersonFields;
+  if (typeof distinctId === 'string' && distinctIds.has(distinctId)) return true;
+  return [email, participantEmail].some((e) => typeof e === 'string' && emails.has(e.toLowerCase()));
+}
+
+/**
+ * What to do with a stored webhook event so it no longer names the person:
+ * 'keep' it, 'delete' it, or store the returned payload instead. A churn
+ * level change lists every user that moved that day, so only the person's
+ * entry is dropped from it; other events are about one person and are
+ * deleted whole.
+ */
+export function scrubWebhookPayload(
+  payload: Prisma.JsonValue,
+  distinctIds: Set<string>,
+  emails: Set<string>
+): 'keep' | 'delete' | Prisma.InputJsonObject {
+  const event = payload as { type?: string; data?: Record<string, unknown> } | null;
+  const data = event?.data;
+  if (!data) return 'keep';
+
+  if (event.type === 'churn_score.level_changed') {
+    const users = Array.isArray(data.users) ? data.users : [];
+    const remaining = users.filter((u) => !identifiesSubject(u, distinctIds, emails));
+    if (remaining.length === users.length) return 'keep';
+    if (remaining.length === 0) return 'delete';
+    return { ...(payload as Prisma.InputJsonObject), data: { ...data, users: remaining } as Prisma.InputJsonObject };
+  }
+
+  const named = Object.values(data).some((value) => identifiesSubject(value, distinctIds, emails));
+  return named ? 'delete' : 'keep';
+}
+
+// ==================== ERASURE ====================
+
+// Large projects can have thousands of rows per person (replay chunks, churn
+// scores); the default 5s interactive transaction timeout is too short
+const ERASURE_TRANSACTION_OPTIONS = { maxWait: 10_000, timeout: 60_000 };
+
+/**
+ * Delete everything this project holds about one person, found by distinct
+ * ID and/or email (plus linked identifiers, see resolveDataSubject). Runs in
+ * a single transaction, so either all of it is erased or none of it.
+ *
+ * Audit log entries naming the person (e.g. the recipient of a recovery
+ * email) are kept: the audit log is the record that the outreach and this
+ * erasure happened, which is itself a legal obligation (Art. 17(3)(b)).
+ */
+export async function eraseDataSubject(
+  projectId: string,
+  subject: DataSubject,
+  now = new Date()
+): Promise<ErasureReport> {
+  const { distinctIds, emails } = await resolveDataSubject(projectId, subject);
+  const where = subjectFilters(projectId, { distinctIds, emails });
+  const distinctIdSet = new Set(distinctIds);
+  const emailSet = new Set(emails);
+
+  const deleted = await prisma.$transaction(async (tx) => {
+    // SDK replay chunks are keyed by the session's ID, and older chunks may not carry a distinct ID
+    const sessions = await tx.session.findMany({
+      where: where.sessions,
+      select: { posthogSessionId: true },
+    });
+    const replaySessionIds = sessions.flatMap((s) => (s.posthogSessionId ? [s.posthogSessionId] : []));
+
+    const memberCohorts = await tx.cohortMember.findMany({
+      where: where.cohortMembers,
+      select: { cohortId: true },
+      distinct: ['cohortId'],
+    });
+
+    // Insights don't cascade with their interview
+    await tx.interviewInsight.deleteMany({ where: { interview: where.interviews } });
+
+    const counts = {
+      sessions: (await tx.session.deleteMany({ where: where.sessions })).count,
+      replayChunks: (
+        await tx.replayChunk.deleteMany({
+          where: { projectId, OR: [{ distinctId: { in: distinctIds } }, { sessionId: { in: replaySessionIds } }] },
+        })
+      ).count,
+      conversations: (await tx.conversation.deleteMany({ where: where.conversations })).count,
+      cohortMembers: (await tx.cohortMember.deleteMany({ where: where.cohortMembers })).count,
+      dailyChurnScores: (await tx.dailyChurnScore.deleteMany({ where: where.dailyChurnScores })).count,
+      churnAlerts: (await tx.churnAlert.deleteMany({ where: where.churnAlerts })).count,
+      churnedUsers: (await tx.churnedUser.deleteMany({ where: where.churnedUsers })).count,
+      uploadedUsers: (await tx.uploadedUser.deleteMany({ where: where.uploadedUsers })).count,
+      interviews: (await tx.interview.deleteMany({ where: where.interviews })).count,
+      widgetTriggers: (await tx.widgetTrigger.deleteMany({ where: where.widgetTriggers })).count,
+    };
+
+    // CSV batch results list every uploaded email; drop this person's entries
+    let churnedSessionBatches = 0;
+    const batches = emails.length
+      ? await tx.churnedSessionBatch.findMany({
+          where: { projectId, OR: emails.map((email) => ({ emailResults: { contains: email, mode: 'insensitive' as const } })) },
+          select: { id: true, emailResults: true },
+        })
+      : [];
+    for (const batch of batches) {
+      const results: Array<{ email?: string }> = JSON.parse(batch.emailResults || '[]');
+      const remaining = results.filter((r) => !r.email || !emailSet.has(r.email.toLowerCase()));
+      if (remaining.length === results.length) continue;
+      await tx.churnedSessionBatch.update({
+        where: { id: batch.id },
+        data: { emailResults: JSON.stringify(remaining) },
+      });
+      churnedSessionBatches++;
+    }
+
+    // Delivery logs keep each event as sent, and pending retries would send it again
+    let webhookDeliveries = 0;
+    const deleteDeliveryIds: string[] = [];
+    let cursor: string | undefined;
+    while (true) {
+      const page = await tx.webhookDelivery.findMany({
+        where: { projectId, eventType: { in: PERSONAL_WEBHOOK_EVENTS } },
+        select: { id: true, payload: true },
+        orderBy: { id: 'asc' },
+        take: DELIVERY_SCAN_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+      for (const delivery of page) {
+        const scrubbed = scrubWebhookPayload(delivery.payload, distinctIdSet, emailSet);
+        if (scrubbed === 'keep') continue;
+        if (scrubbed === 'delete') {
+          deleteDeliveryIds.push(delivery.id);
+        } else {
+          await tx.webhookDelivery.update({ where: { id: delivery.id }, data: { payload: scrubbed } });
+        }
+        webhookDeliveries++;
+      }
+      if (page.length < DELIVERY_SCAN_BATCH_SIZE) break;
+      cursor = page[page.length - 1].id;
+    }
+    if (deleteDeliveryIds.length > 0) {
+      await tx.webhookDelivery.deleteMany({ where: { id: { in: deleteDeliveryIds } } });
+    }
+
+    // An unfinished scoring run's checkpoint holds the whole Mixpanel/Amplitude
+    // export, this person included, and its cursor is a distinct ID. Those runs
+    // start over from a fresh export instead.
+    const churnScoringRuns = (
+      await tx.churnScoringRun.updateMany({
+        where: {
+          projectId,
+          status: { not: 'completed' },
+          OR: [{ exportedMetrics: { not: null } }, { cursor: { not: null } }],
+        },
+        data: { cursor: null, exportedMetrics: null, usersScored: 0, byRiskLevel: Prisma.DbNull },
+      })
+    ).count;
+
+    // Keep cohort sizes in line with their remaining members
+    for (const { cohortId } of memberCohorts) {
+      const size = await tx.cohortMember.count({ where: { cohortId } });
+      await tx.cohort.update({ where: { id: cohortId }, data: { size } });
+    }
+
+    return { ...counts, churnedSessionBatches, webhookDeliveries, churnScoringRuns };
+  }, ERASURE_TRANSACTION_OPTIONS);
+
+  return {
+    reference: dataSubjectReference(projectId, subject),
+    projectId,
+    subject: { distinctIds, emails },
+    deleted,
+    erasedAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,192 @@
+import { prisma } from '@/lib/prisma';
+import { dataSubjectReference, resolveDataSubject, subjectFilters } from './erasure';
+import { createZip } from './zip';
+import { DataSubject, SUBJECT_EXPORT_SECTIONS, SubjectExport, SubjectExportSection } from './types';
+
+// ==================== COLLECTING ====================
+
+/** Stored JSON text as a value; anything that doesn't parse is kept as the string. */
+function parseJson(text: string | null): unknown {
+  if (text == null) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Everything this project holds about one person, found by distinct ID
+ * and/or email plus linked identifiers — the same records
+ * eraseDataSubject() would delete. Raw replay events are left out (they're
+ * page recordings, not readable data); session metadata and analyses are
+ * included.
+ */
+export async function collectSubjectData(
+  projectId: string,
+  subject: DataSubject,
+  now = new Date()
+): Promise<SubjectExport> {
+  const identifiers = await resolveDataSubject(projectId, subject);
+  const where = subjectFilters(projectId, identifiers);
+
+  const [project, sessions, conversations, churnScores, churnAlerts, outreach, uploads, interviews, cohorts, widgetTriggers] =
+    await Promise.all([
+      prisma.project.findUnique({ where: { id: projectId }, select: { name: true } }),
+      prisma.session.findMany({
+        where: where.sessions,
+        orderBy: { startTime: 'asc' },
+        select: {
+          id: true,
+          source: true,
+          name: true,
+          distinctId: true,
+          startTime: true,
+          endTime: true,
+          duration: true,
+          eventCount: true,
+          metadata: true,
+          analysis: true,
+          analysisStatus: true,
+          analyzedAt: true,
+          multimodalAnalysis: true,
+          createdAt: true,
+        },
+      }),
+      prisma.conversation.findMany({ where: where.conversations, orderBy: { createdAt: 'asc' } }),
+      prisma.dailyChurnScore.findMany({ where: where.dailyChurnScores, orderBy: { date: 'asc' } }),
+      prisma.churnAlert.findMany({
+        where: where.churnAlerts,
+        orderBy: { createdAt: 'asc' },
+        select: { date: true, distinctId: true, email: true, fromLevel: true, toLevel: true, riskScore: true, createdAt: true },
+      }),
+      prisma.churnedUser.findMany({ where: where.churnedUsers, orderBy: { createdAt: 'asc' } }),
+      prisma.uploadedUser.findMany({ where: where.uploadedUsers, orderBy: { createdAt: 'asc' } }),
+      prisma.interview.findMany({
+        where: where.interviews,
+        orderBy: { createdAt: 'asc' },
+        include: { insights: true },
+      }),
+      prisma.cohortMember.findMany({
+        where: where.cohortMembers,
+        orderBy: { createdAt: 'asc' },
+        include: { cohort: { select: { name: true, type: true } } },
+      }),
+      prisma.widgetTrigger.findMany({
+        where: where.widgetTriggers,
+        orderBy: { createdAt: 'asc' },
+        select: { distinctId: true, userName: true, status: true, expiresAt: true, shownAt: true, createdAt: true, updatedAt: true },
+      }),
+    ]);
+
+  const sections: Record<SubjectExportSection, unknown[]> = {
+    sessions: sessions.map((s) => ({
+      ...s,
+      metadata: parseJson(s.metadata),
+      analysis: parseJson(s.analysis),
+      multimodalAnalysis: parseJson(s.multimodalAnalysis),
+    })),
+    conversations: conversations.map((c) => ({
+      ...c,
+      transcript: parseJson(c.transcript),
+      analysis: parseJson(c.analysis),
+      metadata: parseJson(c.metadata),
+    })),
+    churnScores: churnScores.map((score) => ({
+      ...score,
+      riskReasons: parseJson(score.riskReasons),
+    })),
+    churnAlerts,
+    outreach: outreach.map((user) => ({
+      ...user,
+      analysisResult: parseJson(user.analysisResult),
+      recoveryEmail: parseJson(user.recoveryEmail),
+      callScript: parseJson(user.callScript),
+    })),
+    interviewInvites: uploads,
+    interviews: interviews.map((interview) => ({
+      ...interview,
+      transcript: parseJson(interview.transcript),
+      metadata: parseJson(interview.metadata),
+      insights: interview.insights.map((insight) => ({
+        ...insight,
+        painPoints: parseJson(insight.painPoints),
+        suggestions: parseJson(insight.suggestions),
+        themes: parseJson(insight.themes),
+      })),
+    })),
+    cohortMemberships: cohorts.map((member) => ({
+      cohort: member.cohort.name,
+      cohortType: member.cohort.type,
+      distinctId: member.distinctId,
+      email: member.email,
+      name: member.name,
+      properties: parseJson(member.properties),
+      signals: parseJson(member.signals),
+      signalSummary: member.signalSummary,
+      metadata: parseJson(member.metadata),
+      interviewStatus: member.interviewStatus,
+      createdAt: member.createdAt,
+    })),
+    widgetTriggers,
+  };
+
+  return {
+    reference: dataSubjectReference(projectId, subject),
+    projectId,
+    projectName: project?.name ?? null,
+    subject: identifiers,
+    exportedAt: now.toISOString(),
+    counts: Object.fromEntries(SUBJECT_EXPORT_SECTIONS.map((section) => [section, sections[section].length])) as Record<
+      SubjectExportSection,
+      number
+    >,
+    sections,
+  };
+}
+
+// ==================== ARCHIVE ====================
+
+const SECTION_FILES: Record<SubjectExportSection, { file: string; description: string }> = {
+  sessions: { file: 'sessions.json', description: 'Recorded sessions: timing, metadata and AI analyses (raw replay events are not included)' },
+  conversations: { file: 'conversations.json', description: 'Voice and uploaded conversations, with transcripts and analyses' },
+  churnScores: { file: 'churn-scores.json', description: 'Daily churn risk score history' },
+  churnAlerts: { file: 'churn-alerts.json', description: 'Risk-level changes that triggered an alert' },
+  outreach: { file: 'outreach.json', description: 'Recovery outreach: generated emails, send times, call scripts and call notes' },
+  interviewInvites: { file: 'interview-invites.json', description: 'Interview invitation lists the person was uploaded to' },
+  interviews: { file: 'interviews.json', description: 'Interviews, transcripts and extracted insights' },
+  cohortMemberships: { file: 'cohort-memberships.json', description: 'Cohorts the person was placed in, with the behavioral signals behind it' },
+  widgetTriggers: { file: 'widget-triggers.json', description: 'In-app interview prompts targeted at the person' },
+};
+
+/** Zip archive of a subject export: a README, subject.json and one JSON file per section. */
+export function subjectExportArchive(data: SubjectExport): Buffer {
+  const readme = [
+    `Personal data export — ${data.projectName ?? data.projectId}`,
+    `Generated ${data.exportedAt}`,
+    `Reference ${data.reference}`,
+    '',
+    `Distinct IDs: ${data.subject.distinctIds.join(', ') || '(none)'}`,
+    `Emails: ${data.subject.emails.join(', ') || '(none)'}`,
+    '',
+    'Files:',
+    '  subject.json - who this export covers and how many records each file holds',
+    ...SUBJECT_EXPORT_SECTIONS.map(
+      (section) => `  ${SECTION_FILES[section].file} - ${SECTION_FILES[section].description} (${data.counts[section]})`
+    ),
+    '',
+  ].join('\n');
+
+  const { sections, ...summary } = data;
+  return createZip(
+    [
+      { name: 'README.txt', data: readme },
+      { name: 'subject.json', data: JSON.stringify(summary, null, 2) },
+      ...SUBJECT_EXPORT_SECTIONS.map((section) => ({
+        name: SECTION_FILES[section].file,
+        data: JSON.stringify(sections[section], null, 2),
+      })),
+    ],
+    new Date(data.exportedAt)
+  );
+}
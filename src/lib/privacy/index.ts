@@ -0,0 +1,24 @@
+export {
+  dataSubjectReference,
+  dataSubjectSchema,
+  eraseDataSubject,
+  resolveDataSubject,
+  scrubWebhookPayload,
+  subjectFilters,
+} from './erasure';
+export { collectSubjectData, subjectExportArchive } from './export';
+export { DEFAULT_RETENTION_POLICY, resolveRetentionPolicy, retentionPolicySchema } from './policy';
+export { applyProjectRetention, applyRetentionPolicies } from './retention';
+export { ERASURE_TARGETS, RETENTION_DATA_TYPES, SUBJECT_EXPORT_SECTIONS } from './types';
+export { createZip } from './zip';
+export type { ZipEntry } from './zip';
+export type {
+  DataSubject,
+  ErasureReport,
+  ErasureTarget,
+  RetentionDataType,
+  RetentionPolicy,
+  RetentionResult,
+  SubjectExport,
+  SubjectExportSection,
+} from './types';
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { RETENTION_DATA_TYPES, RetentionPolicy } from './types';
+
+// ==================== DEFAULT POLICY ====================
+
+/**
+ * Keep everything except raw SDK replay chunks, which were always deleted
+ * after 35 days. Projects without a stored policy behave exactly as before.
+ */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  sessionReplays: null,
+  replayChunks: 35,
+  conversations: null,
+  churnedUsers: null,
+  uploadedUsers: null,
+  churnScores: null,
+};
+
+// ==================== VALIDATION ====================
+
+const retentionDays = z.number().int().min(1).max(3650).nullable();
+
+/** A stored policy may set any subset of data types; the rest use the defaults. */
+export const retentionPolicySchema = z.object({
+  sessionReplays: retentionDays.optional(),
+  replayChunks: retentionDays.optional(),
+  conversations: retentionDays.optional(),
+  churnedUsers: retentionDays.optional(),
+  uploadedUsers: retentionDays.optional(),
+  churnScores: retentionDays.optional(),
+});
+
+/**
+ * Resolve the retention policy for a project. Falls back to the defaults
+ * when nothing is stored or the stored value no longer validates.
+ */
+export function resolveRetentionPolicy(stored: unknown): RetentionPolicy {
+  if (stored == null) {
+    return DEFAULT_RETENTION_POLICY;
+  }
+
+  const parsed = retentionPolicySchema.safeParse(stored);
+  if (!parsed.success) {
+    console.warn('[Retention] Invalid retention policy on project, using default:', parsed.error.message);
+    return DEFAULT_RETENTION_POLICY;
+  }
+
+  const policy = { ...DEFAULT_RETENTION_POLICY };
+  for (const type of RETENTION_DATA_TYPES) {
+    const days = parsed.data[type];
+    if (days !== undefined) policy[type] = days;
+  }
+  return policy;
+}
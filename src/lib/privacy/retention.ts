@@ -0,0 +1,125 @@
+import { prisma } from '@/lib/prisma';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { resolveRetentionPolicy } from './policy';
+import { RETENTION_DATA_TYPES, RetentionPolicy, RetentionResult } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== APPLYING ====================
+
+function emptyResult(): RetentionResult {
+  return { sessionReplays: 0, replayChunks: 0, conversations: 0, churnedUsers: 0, uploadedUsers: 0, churnScores: 0 };
+}
+
+function cutoff(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+/**
+ * Delete or clear everything in the project older than its retention
+ * windows. Returns the number of rows affected per data type.
+ */
+export async function applyProjectRetention(
+  projectId: string,
+  policy: RetentionPolicy,
+  now = new Date()
+): Promise<RetentionResult> {
+  const result = emptyResult();
+
+  if (policy.sessionReplays !== null) {
+    const { count } = await prisma.session.updateMany({
+      where: { projectId, createdAt: { lt: cutoff(now, policy.sessionReplays) }, events: { not: null } },
+      data: { events: null },
+    });
+    result.sessionReplays = count;
+  }
+
+  if (policy.replayChunks !== null) {
+    const { count } = await prisma.replayChunk.deleteMany({
+      where: { projectId, createdAt: { lt: cutoff(now, policy.replayChunks) } },
+    });
+    result.replayChunks = count;
+  }
+
+  if (policy.conversations !== null) {
+    const { count } = await prisma.conversation.updateMany({
+      where: {
+        projectId,
+        createdAt: { lt: cutoff(now, policy.conversations) },
+        OR: [{ transcript: { not: null } }, { participantEmail: { not: null } }, { participantPhone: { not: null } }],
+      },
+      data: { transcript: null, participantEmail: null, participantPhone: null },
+    });
+    result.conversations = count;
+  }
+
+  if (policy.churnedUsers !== null) {
+    const { count } = await prisma.churnedUser.deleteMany({
+      where: { projectId, createdAt: { lt: cutoff(now, policy.churnedUsers) } },
+    });
+    result.churnedUsers = count;
+  }
+
+  if (policy.uploadedUsers !== null) {
+    const { count } = await prisma.uploadedUser.deleteMany({
+      where: { projectId, createdAt: { lt: cutoff(now, policy.uploadedUsers) } },
+    });
+    result.uploadedUsers = count;
+  }
+
+  if (policy.churnScores !== null) {
+    const { count } = await prisma.dailyChurnScore.deleteMany({
+      where: { projectId, date: { lt: cutoff(now, policy.churnScores) } },
+    });
+    result.churnScores = count;
+  }
+
+  return result;
+}
+
+/**
+ * Apply every project's retention policy, stopping at `deadline` (epoch ms).
+ * Each project that lost data gets a `data.retention_applied` audit entry.
+ * Returns how many projects were processed and the total rows affected.
+ */
+export async function applyRetentionPolicies(
+  deadline: number,
+  now = new Date()
+): Promise<{ projects: number; affected: RetentionResult }> {
+  const projects = await prisma.project.findMany({
+    select: { id: true, name: true, organizationId: true, retentionPolicy: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const affected = emptyResult();
+  let processed = 0;
+
+  for (const project of projects) {
+    if (Date.now() > deadline) break;
+
+    const policy = resolveRetentionPolicy(project.retentionPolicy);
+    const result = await applyProjectRetention(project.id, policy, now);
+    processed++;
+
+    let total = 0;
+    for (const type of RETENTION_DATA_TYPES) {
+      affected[type] += result[type];
+      total += result[type];
+    }
+
+    if (total > 0 && project.organizationId) {
+      await recordAuditEvent(null, {
+        organizationId: project.organizationId,
+        projectId: project.id,
+        actor: { type: 'system', label: 'Retention policy' },
+        action: 'data.retention_applied',
+        targetType: 'project',
+        targetId: project.id,
+        targetLabel: project.name,
+        metadata: { affected: result, policy },
+      });
+    }
+  }
+
+  return { projects: processed, affected };
+}
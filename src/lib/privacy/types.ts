@@ -0,0 +1,85 @@
+/**
+ * Data types a project can set a retention window for. Each is applied by
+ * applyProjectRetention():
+ *   sessionReplays  - Session.events is cleared; the analysis is kept
+ *   replayChunks    - ReplayChunk rows are deleted
+ *   conversations   - transcript and participant email/phone are cleared
+ *   churnedUsers    - ChurnedUser rows (emails, phones, outreach) are deleted
+ *   uploadedUsers   - UploadedUser rows are deleted
+ *   churnScores     - DailyChurnScore rows are deleted, by scoring date
+ */
+export const RETENTION_DATA_TYPES = [
+  'sessionReplays',
+  'replayChunks',
+  'conversations',
+  'churnedUsers',
+  'uploadedUsers',
+  'churnScores',
+] as const;
+
+export type RetentionDataType = (typeof RETENTION_DATA_TYPES)[number];
+
+/** Days to keep each data type; null keeps it forever. */
+export type RetentionPolicy = Record<RetentionDataType, number | null>;
+
+export type RetentionResult = Record<RetentionDataType, number>;
+
+/** Everything eraseDataSubject() removes, and how many rows of each. */
+export const ERASURE_TARGETS = [
+  'sessions',
+  'replayChunks',
+  'conversations',
+  'cohortMembers',
+  'dailyChurnScores',
+  'churnAlerts',
+  'churnedUsers',
+  'churnedSessionBatches',
+  'uploadedUsers',
+  'interviews',
+  'widgetTriggers',
+  'webhookDeliveries',
+  'churnScoringRuns',
+] as const;
+
+export type ErasureTarget = (typeof ERASURE_TARGETS)[number];
+
+export interface DataSubject {
+  distinctId?: string;
+  email?: string;
+}
+
+export interface ErasureReport {
+  /** SHA-256 of the requested identifiers — recorded in the audit log instead of the identifiers */
+  reference: string;
+  projectId: string;
+  /** The requested identifiers plus any linked to them in this project's data */
+  subject: { distinctIds: string[]; emails: string[] };
+  deleted: Record<ErasureTarget, number>;
+  erasedAt: string;
+}
+
+/** Files in a subject access export, one per kind of record. */
+export const SUBJECT_EXPORT_SECTIONS = [
+  'sessions',
+  'conversations',
+  'churnScores',
+  'churnAlerts',
+  'outreach',
+  'interviewInvites',
+  'interviews',
+  'cohortMemberships',
+  'widgetTriggers',
+] as const;
+
+export type SubjectExportSection = (typeof SUBJECT_EXPORT_SECTIONS)[number];
+
+export interface SubjectExport {
+  /** Same reference an erasure of these identifiers would get */
+  reference: string;
+  projectId: string;
+  projectName: string | null;
+  subject: { distinctIds: string[]; emails: string[] };
+  exportedAt: string;
+  counts: Record<SubjectExportSection, number>;
+  sections: Record<SubjectExportSection, unknown[]>;
+}
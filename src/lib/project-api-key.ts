@@ -0,0 +1,147 @@
+/**
+ * Project SDK keys (x-tranzmit-api-key)
+ *
+ * The key is embedded in tranzmit-widget.js and the replay snippet, so it
+ * is only ever shown once — at creation or rotation. We store its SHA-256
+ * (keys are 96+ bits of randomness, so no salt is needed) plus a short
+ * prefix to tell keys apart in the UI.
+ *
+ * Rotation keeps the replaced key working for a grace period so customers
+ * can redeploy their snippet before the old key stops being accepted.
+ */
+
+import crypto from 'crypto';
+import { Project } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { generateSdkApiKey, migrateSdkTenantKey, revokeSdkApiKey, rotateSdkTenantKey } from './sdk-db';
+
+export const API_KEY_PREFIX_LENGTH = 12;
+export const DEFAULT_ROTATION_GRACE_HOURS = 24;
+export const MAX_ROTATION_GRACE_HOURS = 30 * 24;
+
+export const rotateApiKeySchema = z.object({
+  graceHours: z.number().int().min(0).max(MAX_ROTATION_GRACE_HOURS).default(DEFAULT_ROTATION_GRACE_HOURS),
+});
+
+type ProjectKeyFields = Pick<
+  Project,
+  'id' | 'name' | 'apiKey' | 'apiKeyHash' | 'apiKeyPrefix' | 'apiKeyRotatedAt' | 'previousApiKeyHash' | 'previousApiKeyExpiresAt'
+>;
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/** Columns to store for a freshly generated key. */
+export function projectApiKeyFields(key: string): { apiKeyHash: string; apiKeyPrefix: string } {
+  return { apiKeyHash: hashApiKey(key), apiKeyPrefix: key.slice(0, API_KEY_PREFIX_LENGTH) };
+}
+
+/**
+ * Resolve a project from its current key, or from the previous key while
+ * that is still inside its grace period.
+ */
+export async function findProjectByApiKey(key: string, now = new Date()): Promise<Project | null> {
+  const hash = hashApiKey(key);
+  const project = await prisma.project.findFirst({
+    where: {
+      OR: [{ apiKeyHash: hash }, { previousApiKeyHash: hash, previousApiKeyExpiresAt: { gt: now } }],
+    },
+  });
+  if (project) return project;
+
+  // Projects created before keys were hashed, until scripts/hash-project-api-keys.ts has run
+  return prisma.project.findUnique({ where: { apiKey: key } });
+}
+
+/** Key status as returned to the browser — never includes the key or its hash. */
+export function toPublicProjectApiKey(project: ProjectKeyFields, now = new Date()) {
+  const inGrace = !!project.previousApiKeyExpiresAt && project.previousApiKeyExpiresAt > now;
+  return {
+    prefix: project.apiKeyPrefix ?? project.apiKey?.slice(0, API_KEY_PREFIX_LENGTH) ?? null,
+    rotatedAt: project.apiKeyRotatedAt,
+    previousKeyExpiresAt: inGrace ? project.previousApiKeyExpiresAt : null,
+  };
+}
+
+/**
+ * Issue a new key. The current key moves to the previous slot and keeps
+ * working for `graceHours` (0 = stop accepting it immediately); a key that
+ * was already in its grace period is dropped. Returns the new key, which
+ * the caller must show to the user — it can't be recovered later.
+ */
+export async function rotateProjectApiKey(
+  project: ProjectKeyFields,
+  graceHours: number,
+  now = new Date()
+): Promise<{ key: string; project: Project }> {
+  const key = generateSdkApiKey();
+  const fields = projectApiKeyFields(key);
+  const currentHash = project.apiKeyHash ?? (project.apiKey ? hashApiKey(project.apiKey) : null);
+
+  const updated = await prisma.project.update({
+    where: { id: project.id },
+    data: {
+      ...fields,
+      apiKey: null,
+      apiKeyRotatedAt: now,
+      previousApiKeyHash: graceHours > 0 ? currentHash : null,
+      previousApiKeyExpiresAt: graceHours > 0 ? new Date(now.getTime() + graceHours * 60 * 60 * 1000) : null,
+    },
+  });
+
+  // Keep the SDK tenant in step: it's looked up by the current key's hash
+  if (project.apiKey && currentHash) {
+    await migrateSdkTenantKey(project.apiKey, currentHash);
+  }
+  if (currentHash) {
+    await rotateSdkTenantKey({
+      name: project.name,
+      previousKeyHash: currentHash,
+      keyHash: fields.apiKeyHash,
+      keyPrefix: fields.apiKeyPrefix,
+    });
+    if (graceHours === 0) await revokeSdkApiKey(currentHash);
+  }
+  if (project.previousApiKeyHash && project.previousApiKeyHash !== currentHash) {
+    await revokeSdkApiKey(project.previousApiKeyHash);
+  }
+
+  return { key, project: updated };
+}
+
+/**
+ * End a rotation's grace period: the previous key stops working here and
+ * in the SDK database.
+ */
+export async function expirePreviousApiKey(project: Pick<Project, 'id' | 'previousApiKeyHash'>): Promise<void> {
+  if (!project.previousApiKeyHash) return;
+
+  await revokeSdkApiKey(project.previousApiKeyHash);
+  // Conditional so a rotation that happened meanwhile keeps its own previous key
+  await prisma.project.updateMany({
+    where: { id: project.id, previousApiKeyHash: project.previousApiKeyHash },
+    data: { previousApiKeyHash: null, previousApiKeyExpiresAt: null },
+  });
+}
+
+/**
+ * Clear previous keys whose grace period is over. The dashboard already
+ * rejects them by expiry; this removes them from the SDK database.
+ */
+export async function expireRotatedApiKeys(deadline: number, now = new Date()): Promise<number> {
+  const projects = await prisma.project.findMany({
+    where: { previousApiKeyHash: { not: null }, previousApiKeyExpiresAt: { lte: now } },
+    select: { id: true, previousApiKeyHash: true },
+    take: 100,
+  });
+
+  let expired = 0;
+  for (const project of projects) {
+    if (Date.now() > deadline) break;
+    await expirePreviousApiKey(project);
+    expired++;
+  }
+  return expired;
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKey } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { auditApiKeyUse } from '@/lib/audit-log';
+import { hashApiKey } from '@/lib/project-api-key';
+import type { ApiKeyScope } from './keys';
+import { consumeRateLimit, rateLimitHeaders } from './rate-limit';
+
+export type ApiAuthResult =
+  | { ok: true; apiKey: ApiKey; headers: Record<string, string> }
+  | { ok: false; response: NextResponse };
+
+/** `Authorization: Bearer <key>`, or the `x-tranzmit-api-key` header the SDK routes use. */
+export function readApiKey(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || null;
+  }
+  return request.headers.get('x-tranzmit-api-key');
+}
+
+function deny(status: number, error: string, headers?: Record<string, string>): ApiAuthResult {
+  return { ok: false, response: NextResponse.json({ error }, { status, headers }) };
+}
+
+/**
+ * Resolve the request's API key, check it grants `scope` and count the
+ * request against its rate limit. On success, `headers` carries the
+ * X-RateLimit-* headers to send back with the response.
+ */
+export async function authenticateApiRequest(request: NextRequest, scope: ApiKeyScope): Promise<ApiAuthResult> {
+  const token = readApiKey(request);
+  if (!token) {
+    return deny(401, 'Missing API key. Send it as "Authorization: Bearer <key>".');
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(token) } });
+  if (!apiKey || apiKey.revokedAt) {
+    return deny(401, 'Invalid API key');
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    return deny(403, `This API key does not have the ${scope} scope`);
+  }
+
+  const rateLimit = await consumeRateLimit(apiKey);
+  const headers = rateLimitHeaders(rateLimit);
+  if (!rateLimit.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000));
+    return deny(429, `Rate limit of ${rateLimit.limit} requests per minute exceeded`, {
+      ...headers,
+      'Retry-After': String(retryAfter),
+    });
+  }
+
+  await auditApiKeyUse(request, apiKey, scope);
+
+  return { ok: true, apiKey, headers };
+}
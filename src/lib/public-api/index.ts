@@ -0,0 +1,15 @@
+export { authenticateApiRequest, readApiKey } from './authenticate';
+export type { ApiAuthResult } from './authenticate';
+export { API_KEY_SCOPES, apiKeyFields, apiKeySchema, generateApiKey, toPublicApiKey } from './keys';
+export type { ApiKeyInput, ApiKeyScope } from './keys';
+export { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, pageArgs, parsePageParams, toPage } from './pagination';
+export type { PageParams } from './pagination';
+export { consumeRateLimit, rateLimitHeaders, rateLimitWindow } from './rate-limit';
+export type { RateLimitResult } from './rate-limit';
+export {
+  API_SESSION_SELECT,
+  toApiChurnScore,
+  toApiConversation,
+  toApiSession,
+  toApiTicket,
+} from './serializers';
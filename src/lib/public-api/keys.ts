@@ -0,0 +1,45 @@
+import { randomBytes } from 'crypto';
+import { ApiKey } from '@prisma/client';
+import { z } from 'zod';
+import { API_KEY_PREFIX_LENGTH, hashApiKey } from '@/lib/project-api-key';
+
+export const API_KEY_SCOPES = ['read', 'write'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const apiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Grant at least one scope'),
+  rateLimitPerMinute: z.number().int().min(1).max(1000).default(60),
+});
+
+export type ApiKeyInput = z.infer<typeof apiKeySchema>;
+
+/** `tzk_live_` + 40 hex chars. */
+export function generateApiKey(): string {
+  return `tzk_live_${randomBytes(20).toString('hex')}`;
+}
+
+/**
+ * Columns to store for a freshly generated key. Like project SDK keys,
+ * only the SHA-256 and a display prefix are kept.
+ */
+export function apiKeyFields(key: string): { keyHash: string; prefix: string } {
+  return { keyHash: hashApiKey(key), prefix: key.slice(0, API_KEY_PREFIX_LENGTH) };
+}
+
+/** Key as returned to the browser — the full key is only shown on creation. */
+export function toPublicApiKey(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    projectId: apiKey.projectId,
+    name: apiKey.name,
+    keyHint: `${apiKey.prefix}…`,
+    scopes: apiKey.scopes,
+    rateLimitPerMinute: apiKey.rateLimitPerMinute,
+    createdById: apiKey.createdById,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
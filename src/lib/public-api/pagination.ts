@@ -0,0 +1,43 @@
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface PageParams {
+  limit: number;
+  cursor: string | null;
+  updatedSince: Date | null;
+}
+
+export type PageParamsResult = { ok: true; params: PageParams } | { ok: false; error: string };
+
+/**
+ * `limit` (1–200, default 50), `cursor` (the previous page's nextCursor) and
+ * `updated_since` (ISO timestamp) for incremental warehouse pulls.
+ */
+export function parsePageParams(searchParams: URLSearchParams): PageParamsResult {
+  const rawLimit = searchParams.get('limit');
+  const limit = rawLimit === null ? DEFAULT_PAGE_SIZE : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { ok: false, error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const rawSince = searchParams.get('updated_since');
+  const updatedSince = rawSince ? new Date(rawSince) : null;
+  if (updatedSince && isNaN(updatedSince.getTime())) {
+    return { ok: false, error: 'updated_since must be an ISO 8601 timestamp' };
+  }
+
+  return { ok: true, params: { limit, cursor: searchParams.get('cursor'), updatedSince } };
+}
+
+/** Prisma findMany args for one page: fetch one extra row to know if there's a next page. */
+export function pageArgs({ limit, cursor }: PageParams) {
+  return {
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  };
+}
+
+export function toPage<T extends { id: string }>(rows: T[], limit: number): { data: T[]; nextCursor: string | null } {
+  const data = rows.slice(0, limit);
+  return { data, nextCursor: rows.length > limit ? data[data.length - 1].id : null };
+}
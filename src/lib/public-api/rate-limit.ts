@@ -0,0 +1,65 @@
+import { ApiKey } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+const WINDOW_MS = 60_000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+/** The fixed one-minute window `now` falls in. */
+export function rateLimitWindow(now: Date): { start: Date; resetAt: Date } {
+  const start = Math.floor(now.getTime() / WINDOW_MS) * WINDOW_MS;
+  return { start: new Date(start), resetAt: new Date(start + WINDOW_MS) };
+}
+
+/**
+ * Count a request against the key's per-minute limit and stamp lastUsedAt.
+ * The counter lives on the ApiKey row and is only advanced by conditional
+ * updates, so concurrent serverless instances can't overshoot the limit.
+ */
+export async function consumeRateLimit(
+  apiKey: Pick<ApiKey, 'id' | 'rateLimitPerMinute' | 'windowStart' | 'windowCount'>,
+  now = new Date()
+): Promise<RateLimitResult> {
+  const { start, resetAt } = rateLimitWindow(now);
+  const limit = apiKey.rateLimitPerMinute;
+
+  const countInWindow = () =>
+    prisma.apiKey.updateMany({
+      where: { id: apiKey.id, windowStart: start, windowCount: { lt: limit } },
+      data: { windowCount: { increment: 1 }, lastUsedAt: now },
+    });
+
+  if ((await countInWindow()).count === 1) {
+    const used = apiKey.windowStart?.getTime() === start.getTime() ? apiKey.windowCount + 1 : 1;
+    return { allowed: true, limit, remaining: Math.max(0, limit - used), resetAt };
+  }
+
+  const opened = await prisma.apiKey.updateMany({
+    where: { id: apiKey.id, OR: [{ windowStart: null }, { windowStart: { lt: start } }] },
+    data: { windowStart: start, windowCount: 1, lastUsedAt: now },
+  });
+  if (opened.count === 1) {
+    return { allowed: true, limit, remaining: limit - 1, resetAt };
+  }
+
+  // Another request opened this window between our two updates
+  if ((await countInWindow()).count === 1) {
+    const current = await prisma.apiKey.findUnique({ where: { id: apiKey.id }, select: { windowCount: true } });
+    return { allowed: true, limit, remaining: Math.max(0, limit - (current?.windowCount ?? limit)), resetAt };
+  }
+
+  return { allowed: false, limit, remaining: 0, resetAt };
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt.getTime() / 1000)),
+  };
+}
@@ -0,0 +1,149 @@
+import { Conversation, DailyChurnScore, Session, Ticket } from '@prisma/client';
+import { normalizeTicketStatus } from '@/lib/ticket-lifecycle';
+import type { FixVerification } from '@/lib/fix-verification';
+
+// Shapes returned by /api/v1. Kept separate from the Prisma rows so internal
+// columns (raw events, Jira markdown, rate limit counters) never leak out and
+// JSON-in-text columns are returned as JSON.
+
+function parseJson(value: string | null): unknown {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+export type ApiSessionRow = Omit<Session, 'events'>;
+
+/** Select for session rows without the (potentially huge) rrweb events. */
+export const API_SESSION_SELECT = {
+  id: true,
+  projectId: true,
+  source: true,
+  posthogSessionId: true,
+  name: true,
+  distinctId: true,
+  startTime: true,
+  endTime: true,
+  duration: true,
+  eventCount: true,
+  analysis: true,
+  analysisStatus: true,
+  analyzedAt: true,
+  multimodalAnalysis: true,
+  multimodalStatus: true,
+  multimodalAt: true,
+  metadata: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export function toApiSession(session: ApiSessionRow, { includeAnalysis }: { includeAnalysis: boolean }) {
+  return {
+    id: session.id,
+    source: session.source,
+    externalId: session.posthogSessionId,
+    name: session.name,
+    distinctId: session.distinctId,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    duration: session.duration,
+    eventCount: session.eventCount,
+    analysisStatus: session.analysisStatus,
+    analyzedAt: session.analyzedAt,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    ...(includeAnalysis
+      ? {
+          analysis: parseJson(session.analysis),
+          multimodalAnalysis: parseJson(session.multimodalAnalysis),
+        }
+      : {}),
+  };
+}
+
+export function toApiConversation(conversation: Conversation, { includeTranscript }: { includeTranscript: boolean }) {
+  return {
+    id: conversation.id,
+    source: conversation.source,
+    externalId: conversation.externalId,
+    participantName: conversation.participantName,
+    participantEmail: conversation.participantEmail,
+    status: conversation.status,
+    duration: conversation.duration,
+    conversedAt: conversation.conversedAt,
+    analysisStatus: conversation.analysisStatus,
+    analysis: parseJson(conversation.analysis),
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    ...(includeTranscript ? { transcript: parseJson(conversation.transcript) } : {}),
+  };
+}
+
+export function toApiTicket(ticket: Ticket) {
+  const verification = ticket.verification as unknown as FixVerification | null;
+  return {
+    id: ticket.id,
+    title: ticket.title,
+    description: ticket.description,
+    severity: ticket.severity,
+    category: ticket.category,
+    effort: ticket.effort,
+    recommendation: ticket.recommendation,
+    status: normalizeTicketStatus(ticket.status),
+    compositeScore: ticket.compositeScore,
+    scoreBreakdown: ticket.scoreBreakdown,
+    evidence: ticket.evidence,
+    churnImpact: ticket.churnImpact,
+    trending: ticket.trending,
+    team: ticket.team,
+    assigneeId: ticket.assigneeId,
+    resolvedAt: ticket.resolvedAt,
+    verificationOutcome: verification?.outcome ?? null,
+    external: ticket.externalProvider
+      ? {
+          provider: ticket.externalProvider,
+          key: ticket.externalKey,
+          url: ticket.externalUrl,
+          status: ticket.externalStatus,
+        }
+      : null,
+    synthesizedAt: ticket.synthesizedAt,
+    createdAt: ticket.createdAt,
+    updatedAt: ticket.updatedAt,
+  };
+}
+
+export function toApiChurnScore(row: DailyChurnScore) {
+  return {
+    id: row.id,
+    date: row.date.toISOString().slice(0, 10),
+    distinctId: row.distinctId,
+    email: row.email,
+    segment: row.segment,
+    isPro: row.isPro,
+    riskScore: row.riskScore,
+    riskLevel: row.riskLevel,
+    riskReasons: parseJson(row.riskReasons) ?? [],
+    subScores: {
+      recency: row.recencyScore,
+      usageDrop: row.usageDropScore,
+      engagementQuality: row.engagementQualityScore,
+      friction: row.frictionScore,
+      featureAdoptionLoss: row.featureAdoptionLossScore,
+    },
+    metrics: {
+      daysSinceLastEvent: row.daysSinceLastEvent,
+      daysSinceLastCoreAction: row.daysSinceLastCoreAction,
+      sessionsLast7d: row.sessionsLast7d,
+      sessionsPrev7d: row.sessionsPrev7d,
+      coreActionLast7d: row.coreActionLast7d,
+      coreActionPrev7d: row.coreActionPrev7d,
+      engagementLast7d: row.engagementLast7d,
+      engagementPrev7d: row.engagementPrev7d,
+      frictionLast7d: row.frictionLast7d,
+    },
+  };
+}
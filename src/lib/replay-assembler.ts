@@ -1,4 +1,6 @@
 import { prisma } from '@/lib/prisma';
+import { readChunkEvents } from '@/lib/replay-encoding';
+import { ReplayChunkEvents, ReplayIntegrityReport, checkReplayIntegrity } from '@/lib/replay-integrity';
 
 /**
  * Check if real replay data exists for a given session.
@@ -13,36 +15,111 @@ export async function hasReplayData(
   return count > 0;
 }
 
+/** An rrweb event's timestamp in ms, or 0 when it has none. */
+export function eventTimestamp(event: unknown): number {
+  const timestamp = (event as { timestamp?: unknown })?.timestamp;
+  return typeof timestamp === 'number' ? timestamp : 0;
+}
+
+// Chunks fetched per query while streaming — bounds how many compressed
+// payloads are read from the database at once
+const CHUNK_PAGE_SIZE = 10;
+
 /**
- * Assemble all replay chunks into a sorted array of rrweb events.
+ * Yield each replay chunk's events in chunkIndex order, querying a page of
+ * chunks at a time instead of the whole session. Only the current page's
+ * compressed payloads are held; what the caller keeps is up to the caller.
+ * Malformed chunks yield no events. throughChunkIndex stops at a known last
+ * chunk, ignoring any uploaded since.
  */
-export async function assembleReplayEvents(
+export async function* streamReplayChunks(
   projectId: string,
-  sessionId: string
-): Promise<unknown[]> {
-  const chunks = await prisma.replayChunk.findMany({
-    where: { projectId, sessionId },
-    orderBy: { chunkIndex: 'asc' },
-    select: { events: true },
-  });
+  sessionId: string,
+  throughChunkIndex?: number
+): AsyncGenerator<ReplayChunkEvents> {
+  let after = -1;
 
-  const allEvents: unknown[] = [];
+  while (true) {
+    const chunkIndex = throughChunkIndex !== undefined ? { gt: after, lte: throughChunkIndex } : { gt: after };
+    const page = await prisma.replayChunk.findMany({
+      where: { projectId, sessionId, chunkIndex },
+      orderBy: { chunkIndex: 'asc' },
+      take: CHUNK_PAGE_SIZE,
+      select: { chunkIndex: true, events: true, payload: true },
+    });
 
-  for (const chunk of chunks) {
-    try {
-      const parsed = JSON.parse(chunk.events);
-      if (Array.isArray(parsed)) {
-        allEvents.push(...parsed);
-      }
-    } catch {
-      // Skip malformed chunks
+    for (const chunk of page) {
+      after = chunk.chunkIndex;
+      yield { chunkIndex: chunk.chunkIndex, events: readChunkEvents(chunk) };
     }
+
+    if (page.length < CHUNK_PAGE_SIZE) return;
+  }
+}
+
+/**
+ * Assemble replay chunks into a sorted array of rrweb events, with an
+ * integrity report on gaps, unreadable chunks, a missing FullSnapshot and
+ * out-of-order timestamps. firstChunkIndex is where numbering should start
+ * (null: at the first chunk found), see checkReplayIntegrity().
+ *
+ * Not memory-bounded: every decoded event of the session is held at once,
+ * since sorting needs them all and callers store them as one Session.events.
+ * Streaming only avoids reading every compressed payload in a single query.
+ */
+export async function assembleReplay(
+  projectId: string,
+  sessionId: string,
+  throughChunkIndex?: number,
+  firstChunkIndex: number | null = 0
+): Promise<{ events: unknown[]; integrity: ReplayIntegrityReport }> {
+  const chunks: ReplayChunkEvents[] = [];
+  for await (const chunk of streamReplayChunks(projectId, sessionId, throughChunkIndex)) {
+    chunks.push(chunk);
   }
 
-  // Sort by timestamp
-  allEvents.sort((a: any, b: any) => (a.timestamp || 0) - (b.timestamp || 0));
+  const integrity = checkReplayIntegrity(chunks, firstChunkIndex);
+  const events = chunks.flatMap((chunk) => chunk.events);
 
-  return allEvents;
+  events.sort((a, b) => eventTimestamp(a) - eventTimestamp(b));
+
+  return { events, integrity };
+}
+
+/**
+ * Assemble all replay chunks into a sorted array of rrweb events.
+ */
+export async function assembleReplayEvents(
+  projectId: string,
+  sessionId: string,
+  throughChunkIndex?: number
+): Promise<unknown[]> {
+  const { events } = await assembleReplay(projectId, sessionId, throughChunkIndex);
+  return events;
+}
+
+/**
+ * Re-attribute a session's earlier chunks after the recorder's identity
+ * changed mid-session (tranzmit-recorder.js identify()). Chunks recorded
+ * anonymously, or under previousDistinctId, move to distinctId; chunks
+ * under any other ID are left alone, so a reused session never merges
+ * two known users. Returns how many chunks were updated.
+ */
+export async function stitchReplayIdentity(
+  projectId: string,
+  sessionId: string,
+  distinctId: string,
+  previousDistinctId: string | null
+): Promise<number> {
+  const { count } = await prisma.replayChunk.updateMany({
+    where: {
+      projectId,
+      sessionId,
+      OR: [{ distinctId: null }, ...(previousDistinctId ? [{ distinctId: previousDistinctId }] : [])],
+    },
+    data: { distinctId },
+  });
+  return count;
 }
 
 /**
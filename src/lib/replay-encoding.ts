@@ -0,0 +1,173 @@
+import zlib from 'zlib';
+
+/**
+ * Wire and storage encoding for SDK replay chunks.
+ *
+ * Upload bodies may be gzip or deflate compressed, declared with
+ * Content-Encoding or detected from the magic bytes (sendBeacon can't set
+ * headers). Events inside a chunk may themselves be encoded the way
+ * PostHog snapshots are: JSON strings, or { cv, data } with base64 gzip
+ * data. Stored chunks are gzip-compressed JSON in ReplayChunk.payload;
+ * rows written before compression keep plain JSON in ReplayChunk.events.
+ */
+
+/** Largest upload accepted on the wire (compressed or not) */
+export const MAX_BODY_SIZE = 500 * 1024;
+
+/** Largest body accepted after decompression — bounds zip bombs */
+export const MAX_DECODED_SIZE = 5 * 1024 * 1024;
+
+export type DecodedBody =
+  | { ok: true; body: unknown }
+  | { ok: false; status: 400 | 413 | 415; error: string };
+
+// ==================== REQUEST BODIES ====================
+
+function isGzip(raw: Buffer): boolean {
+  return raw.length >= 2 && raw[0] === 0x1f && raw[1] === 0x8b;
+}
+
+// zlib header: CM 8 (deflate) and a header checksum divisible by 31
+function isZlib(raw: Buffer): boolean {
+  return raw.length >= 2 && (raw[0] & 0x0f) === 8 && ((raw[0] << 8) | raw[1]) % 31 === 0;
+}
+
+function inflate(raw: Buffer, encoding: 'gzip' | 'deflate'): Buffer {
+  const options = { maxOutputLength: MAX_DECODED_SIZE };
+  if (encoding === 'gzip') return zlib.gunzipSync(raw, options);
+  // Content-Encoding: deflate is meant to be zlib-wrapped, but some clients send raw deflate
+  return isZlib(raw) ? zlib.inflateSync(raw, options) : zlib.inflateRawSync(raw, options);
+}
+
+/**
+ * Decompress (if needed) and parse an upload body. Never throws — failures
+ * come back with the HTTP status the ingest route should answer with.
+ */
+export function decodeReplayBody(raw: Buffer, contentEncoding: string | null): DecodedBody {
+  if (raw.length > MAX_BODY_SIZE) {
+    return { ok: false, status: 413, error: `Payload too large (max ${MAX_BODY_SIZE / 1024}KB)` };
+  }
+
+  const declared = contentEncoding?.trim().toLowerCase() || 'identity';
+  let encoding: 'gzip' | 'deflate' | null;
+  if (declared === 'gzip' || declared === 'x-gzip') encoding = 'gzip';
+  else if (declared === 'deflate') encoding = 'deflate';
+  else if (declared === 'identity') encoding = isGzip(raw) ? 'gzip' : isZlib(raw) ? 'deflate' : null;
+  else return { ok: false, status: 415, error: `Unsupported Content-Encoding: ${declared}` };
+
+  let text: string;
+  try {
+    text = (encoding ? inflate(raw, encoding) : raw).toString('utf8');
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return { ok: false, status: 413, error: `Decompressed payload too large (max ${MAX_DECODED_SIZE / 1024 / 1024}MB)` };
+    }
+    return { ok: false, status: 400, error: `Invalid ${encoding} body` };
+  }
+
+  try {
+    return { ok: true, body: JSON.parse(text) };
+  } catch {
+    return { ok: false, status: 400, error: 'Body must be valid JSON' };
+  }
+}
+
+// ==================== EVENTS ====================
+
+export type DecodedEvents =
+  | { ok: true; events: unknown[] }
+  | { ok: false; status: 413; error: string };
+
+// Bytes of { cv, data } output still allowed for the whole upload — shared
+// across events so many small bombs can't add up past MAX_DECODED_SIZE
+interface DecodeBudget {
+  remaining: number;
+  exceeded: boolean;
+}
+
+function gunzipEventData(data: string, budget: DecodeBudget): Buffer | null {
+  if (budget.remaining < 1) {
+    budget.exceeded = true;
+    return null;
+  }
+  try {
+    const output = zlib.gunzipSync(Buffer.from(data, 'base64'), { maxOutputLength: budget.remaining });
+    budget.remaining -= output.length;
+    return output;
+  } catch (error) {
+    if (error instanceof RangeError) budget.exceeded = true;
+    return null;
+  }
+}
+
+function decodeEvent(event: unknown, budget: DecodeBudget, out: unknown[]): void {
+  if (typeof event === 'string') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(event);
+    } catch {
+      return;
+    }
+    decodeEvent(parsed, budget, out);
+    return;
+  }
+  if (Array.isArray(event)) {
+    for (const nested of event) {
+      if (budget.exceeded) return;
+      decodeEvent(nested, budget, out);
+    }
+    return;
+  }
+  if (!event || typeof event !== 'object') return;
+
+  const evt = event as Record<string, unknown>;
+  if (evt.cv && typeof evt.data === 'string') {
+    const output = gunzipEventData(evt.data, budget);
+    if (!output) return;
+    try {
+      const decompressed: Record<string, unknown> = { ...evt, data: JSON.parse(output.toString('utf8')) };
+      delete decompressed.cv;
+      out.push(decompressed);
+    } catch {
+      // undecodable payload — dropped
+    }
+    return;
+  }
+  out.push(evt);
+}
+
+/**
+ * Normalize uploaded events to plain rrweb event objects: JSON strings are
+ * parsed, nested batches flattened, and { cv, data } events decompressed.
+ * Anything that can't be decoded is dropped. Decompressed output counts
+ * against MAX_DECODED_SIZE for the upload as a whole; past it the upload
+ * is rejected with 413.
+ */
+export function decodeEvents(events: unknown[]): DecodedEvents {
+  const budget: DecodeBudget = { remaining: MAX_DECODED_SIZE, exceeded: false };
+  const decoded: unknown[] = [];
+  decodeEvent(events, budget, decoded);
+  if (budget.exceeded) {
+    return { ok: false, status: 413, error: `Decompressed events too large (max ${MAX_DECODED_SIZE / 1024 / 1024}MB)` };
+  }
+  return { ok: true, events: decoded };
+}
+
+// ==================== STORAGE ====================
+
+/** Stored form of a chunk's events: gzip-compressed JSON. */
+export function compressChunkEvents(events: unknown[]): Buffer {
+  return zlib.gzipSync(JSON.stringify(events));
+}
+
+/** A stored chunk's events, whichever form it was written in; [] if unreadable. */
+export function readChunkEvents(chunk: { events: string | null; payload: Uint8Array | null }): unknown[] {
+  try {
+    const json = chunk.payload ? zlib.gunzipSync(chunk.payload).toString('utf8') : chunk.events;
+    if (!json) return [];
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
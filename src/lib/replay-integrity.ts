@@ -0,0 +1,161 @@
+/**
+ * Integrity checks for replays assembled from uploaded chunks
+ * (tranzmit-recorder.js, tranzmit-replay.js). The report is stored on the
+ * Session as `metadata.replayIntegrity`, shown above the player and passed
+ * to the analysis prompt. No server imports — the player renders it too.
+ */
+
+// rrweb EventType.FullSnapshot
+const FULL_SNAPSHOT = 2;
+
+// Buffered rrweb events can be a few ms out of order; only a jump back
+// larger than this counts as a regression
+const REGRESSION_TOLERANCE_MS = 1000;
+
+export interface ReplayIntegrityReport {
+  /** 'degraded' when any check below found a problem */
+  status: 'ok' | 'degraded';
+  chunkCount: number;
+  firstChunkIndex: number;
+  lastChunkIndex: number;
+  /** Indices between the first expected and the last received chunk that never arrived */
+  missingChunkIndices: number[];
+  /** Chunks that were stored but held no readable events */
+  unreadableChunkIndices: number[];
+  /** Without a FullSnapshot rrweb has no DOM to apply the rest of the events to */
+  hasFullSnapshot: boolean;
+  /** Events more than a second older than an event before them in chunk order */
+  timestampRegressions: number;
+  maxRegressionMs: number;
+}
+
+export interface ReplayChunkEvents {
+  chunkIndex: number;
+  events: unknown[];
+}
+
+function eventTimestamp(event: unknown): number | null {
+  const timestamp = (event as { timestamp?: unknown })?.timestamp;
+  return typeof timestamp === 'number' ? timestamp : null;
+}
+
+function withStatus(report: Omit<ReplayIntegrityReport, 'status'>): ReplayIntegrityReport {
+  const degraded =
+    report.missingChunkIndices.length > 0 ||
+    report.unreadableChunkIndices.length > 0 ||
+    !report.hasFullSnapshot ||
+    report.timestampRegressions > 0;
+  return { status: degraded ? 'degraded' : 'ok', ...report };
+}
+
+// ==================== CHECKS ====================
+
+/**
+ * Check a session's chunks, given in chunkIndex order. Chunk numbering is
+ * expected to start at `firstChunkIndex`; pass null when earlier chunks were
+ * already consumed elsewhere and numbering should start at the first chunk given.
+ */
+export function checkReplayIntegrity(
+  chunks: ReplayChunkEvents[],
+  firstChunkIndex: number | null = 0
+): ReplayIntegrityReport {
+  const received = new Set(chunks.map((chunk) => chunk.chunkIndex));
+  const start = firstChunkIndex ?? (chunks.length > 0 ? chunks[0].chunkIndex : 0);
+  const last = chunks.length > 0 ? chunks[chunks.length - 1].chunkIndex : start - 1;
+
+  const missingChunkIndices: number[] = [];
+  for (let index = start; index <= last; index++) {
+    if (!received.has(index)) missingChunkIndices.push(index);
+  }
+
+  const unreadableChunkIndices: number[] = [];
+  let hasFullSnapshot = false;
+  let timestampRegressions = 0;
+  let maxRegressionMs = 0;
+  let latest = -Infinity;
+
+  for (const chunk of chunks) {
+    if (chunk.events.length === 0) {
+      unreadableChunkIndices.push(chunk.chunkIndex);
+      continue;
+    }
+    for (const event of chunk.events) {
+      if ((event as { type?: unknown })?.type === FULL_SNAPSHOT) hasFullSnapshot = true;
+
+      const timestamp = eventTimestamp(event);
+      if (timestamp === null) continue;
+      if (latest - timestamp > REGRESSION_TOLERANCE_MS) {
+        timestampRegressions++;
+        maxRegressionMs = Math.max(maxRegressionMs, latest - timestamp);
+      }
+      latest = Math.max(latest, timestamp);
+    }
+  }
+
+  return withStatus({
+    chunkCount: chunks.length,
+    firstChunkIndex: start,
+    lastChunkIndex: last,
+    missingChunkIndices,
+    unreadableChunkIndices,
+    hasFullSnapshot,
+    timestampRegressions,
+    maxRegressionMs,
+  });
+}
+
+/**
+ * Combine the report of an earlier promotion with the report for chunks
+ * that arrived later (checked from previous.lastChunkIndex + 1).
+ */
+export function mergeReplayIntegrity(
+  previous: ReplayIntegrityReport,
+  next: ReplayIntegrityReport
+): ReplayIntegrityReport {
+  return withStatus({
+    chunkCount: previous.chunkCount + next.chunkCount,
+    firstChunkIndex: previous.firstChunkIndex,
+    lastChunkIndex: Math.max(previous.lastChunkIndex, next.lastChunkIndex),
+    missingChunkIndices: [...previous.missingChunkIndices, ...next.missingChunkIndices],
+    unreadableChunkIndices: [...previous.unreadableChunkIndices, ...next.unreadableChunkIndices],
+    hasFullSnapshot: previous.hasFullSnapshot || next.hasFullSnapshot,
+    timestampRegressions: previous.timestampRegressions + next.timestampRegressions,
+    maxRegressionMs: Math.max(previous.maxRegressionMs, next.maxRegressionMs),
+  });
+}
+
+// ==================== READING & DESCRIBING ====================
+
+/** The report stored in a Session's metadata, if there is one. */
+export function readReplayIntegrity(metadata: Record<string, unknown> | null | undefined): ReplayIntegrityReport | null {
+  const report = metadata?.replayIntegrity as ReplayIntegrityReport | undefined;
+  return report && (report.status === 'ok' || report.status === 'degraded') ? report : null;
+}
+
+function formatIndices(indices: number[]): string {
+  const shown = indices.slice(0, 10).join(', ');
+  return indices.length > 10 ? `${shown} and ${indices.length - 10} more` : shown;
+}
+
+/** One plain sentence per problem, for the player banner and the analysis prompt. */
+export function describeReplayIntegrity(report: ReplayIntegrityReport): string[] {
+  const issues: string[] = [];
+  if (report.missingChunkIndices.length > 0) {
+    const n = report.missingChunkIndices.length;
+    issues.push(`${n} of ${report.chunkCount + n} recording chunks never arrived (chunk ${formatIndices(report.missingChunkIndices)}).`);
+  }
+  if (report.unreadableChunkIndices.length > 0) {
+    const n = report.unreadableChunkIndices.length;
+    issues.push(`${n} recording chunk${n === 1 ? ' was' : 's were'} unreadable (chunk ${formatIndices(report.unreadableChunkIndices)}).`);
+  }
+  if (!report.hasFullSnapshot) {
+    issues.push('The recording has no full page snapshot, so the page may not render correctly.');
+  }
+  if (report.timestampRegressions > 0) {
+    issues.push(
+      `${report.timestampRegressions} event${report.timestampRegressions === 1 ? '' : 's'} arrived out of order ` +
+        `(up to ${Math.round(report.maxRegressionMs / 1000)}s earlier than events before ${report.timestampRegressions === 1 ? 'it' : 'them'}).`
+    );
+  }
+  return issues;
+}
@@ -0,0 +1,16 @@
+export {
+  RECORDER_SESSION_PREFIX,
+  analyzePendingReplaySessions,
+  getReplayPromotionStatus,
+  promoteProjectReplays,
+  promoteReplaySession,
+  promoteReplaySessions,
+} from './promote';
+export { DEFAULT_REPLAY_PROMOTION, replayPromotionSchema, resolveReplayPromotion } from './settings';
+export type {
+  PromotedSessionSummary,
+  PromotionResult,
+  ReplayBacklogItem,
+  ReplayPromotionSettings,
+  ReplayPromotionStatus,
+} from './types';
@@ -0,0 +1,325 @@
+import { prisma } from '@/lib/prisma';
+import { assembleReplay, eventTimestamp } from '@/lib/replay-assembler';
+import { mergeReplayIntegrity, readReplayIntegrity } from '@/lib/replay-integrity';
+import { analyzeSession } from '@/lib/session-analysis';
+import { resolveReplayPromotion } from './settings';
+import {
+  PromotionResult,
+  ReplayBacklogItem,
+  ReplayPromotionSettings,
+  ReplayPromotionStatus,
+} from './types';
+
+/**
+ * Session IDs generated by tranzmit-recorder.js (and by tranzmit-replay.js
+ * when Mixpanel isn't on the page). Chunks under Mixpanel session IDs are
+ * left for the Mixpanel sync, which merges them with the Mixpanel events.
+ */
+export const RECORDER_SESSION_PREFIX = 'tr_';
+
+const PROMOTE_BATCH_SIZE = 50;        // idle sessions promoted per project per run
+const ANALYZE_BATCH_SIZE = 20;
+const ANALYSIS_RESERVE_MS = 15_000;   // don't start an LLM call with less time than this left
+const BACKLOG_PREVIEW_SIZE = 20;
+const RECENT_SESSIONS_SIZE = 10;
+
+function emptyResult(): PromotionResult {
+  return { promoted: 0, merged: 0, discarded: 0, analyzed: 0, analysisFailed: 0, deferred: 0 };
+}
+
+function idleCutoff(now: Date, idleMinutes: number): Date {
+  return new Date(now.getTime() - idleMinutes * 60 * 1000);
+}
+
+function parseEvents(json: string | null): unknown[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseMetadata(json: string | null): Record<string, unknown> {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// ==================== PROMOTION ====================
+
+/**
+ * Turn one recorder session's chunks (up to throughChunkIndex) into a
+ * `source: 'sdk'` Session, then delete those chunks. Chunks that arrive
+ * after a session was promoted are merged into the same Session, which goes
+ * back to `analysisStatus: 'pending'`.
+ */
+export async function promoteReplaySession(
+  projectId: string,
+  sessionId: string,
+  throughChunkIndex: number,
+  chunkCount: number
+): Promise<'promoted' | 'merged' | 'discarded'> {
+  const chunkWhere = { projectId, sessionId, chunkIndex: { lte: throughChunkIndex } };
+  const existing = await prisma.session.findUnique({
+    where: { projectId_posthogSessionId: { projectId, posthogSessionId: sessionId } },
+    select: { id: true, events: true, distinctId: true, metadata: true },
+  });
+  const metadata = existing ? parseMetadata(existing.metadata) : {};
+  const previousIntegrity = readReplayIntegrity(metadata);
+
+  // Late chunks continue the numbering of the chunks already promoted
+  const firstChunkIndex = !existing ? 0 : previousIntegrity ? previousIntegrity.lastChunkIndex + 1 : null;
+  const { events: chunkEvents, integrity } = await assembleReplay(projectId, sessionId, throughChunkIndex, firstChunkIndex);
+
+  if (chunkEvents.length === 0) {
+    await prisma.replayChunk.deleteMany({ where: chunkWhere });
+    return 'discarded';
+  }
+
+  // After identity stitching the latest chunk carries the session's identity
+  const latest = await prisma.replayChunk.findFirst({
+    where: { ...chunkWhere, distinctId: { not: null } },
+    orderBy: { chunkIndex: 'desc' },
+    select: { distinctId: true },
+  });
+
+  const events = existing ? [...parseEvents(existing.events), ...chunkEvents] : chunkEvents;
+  events.sort((a, b) => eventTimestamp(a) - eventTimestamp(b));
+
+  const timestamps = events.map(eventTimestamp).filter((t) => t > 0);
+  const startTime = timestamps.length > 0 ? new Date(timestamps[0]) : new Date();
+  const endTime = timestamps.length > 0 ? new Date(timestamps[timestamps.length - 1]) : startTime;
+  const timing = {
+    startTime,
+    endTime,
+    duration: Math.round((endTime.getTime() - startTime.getTime()) / 1000),
+    events: JSON.stringify(events),
+    eventCount: events.length,
+  };
+  const deleteChunks = prisma.replayChunk.deleteMany({ where: chunkWhere });
+
+  if (existing) {
+    await prisma.$transaction([
+      prisma.session.update({
+        where: { id: existing.id },
+        data: {
+          ...timing,
+          distinctId: latest?.distinctId ?? existing.distinctId,
+          analysisStatus: 'pending',
+          metadata: JSON.stringify({
+            ...metadata,
+            chunkCount: (typeof metadata.chunkCount === 'number' ? metadata.chunkCount : 0) + chunkCount,
+            replayIntegrity: previousIntegrity ? mergeReplayIntegrity(previousIntegrity, integrity) : integrity,
+          }),
+        },
+      }),
+      deleteChunks,
+    ]);
+    return 'merged';
+  }
+
+  await prisma.$transaction([
+    prisma.session.create({
+      data: {
+        projectId,
+        source: 'sdk',
+        posthogSessionId: sessionId,
+        name: `SDK ${startTime.toLocaleDateString()} ${startTime.toLocaleTimeString()}`,
+        distinctId: latest?.distinctId ?? null,
+        ...timing,
+        analysisStatus: 'pending',
+        metadata: JSON.stringify({
+          source: 'sdk',
+          replayDataSource: 'real',
+          recorderSessionId: sessionId,
+          chunkCount,
+          replayIntegrity: integrity,
+        }),
+      },
+    }),
+    deleteChunks,
+  ]);
+  return 'promoted';
+}
+
+/**
+ * Analyze a project's promoted sessions that are still pending, oldest
+ * first, until `deadline` (epoch ms) leaves too little time for another.
+ */
+export async function analyzePendingReplaySessions(
+  projectId: string,
+  deadline: number
+): Promise<{ analyzed: number; failed: number }> {
+  const sessions = await prisma.session.findMany({
+    where: { projectId, source: 'sdk', analysisStatus: 'pending' },
+    orderBy: { createdAt: 'asc' },
+    take: ANALYZE_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let analyzed = 0;
+  let failed = 0;
+  for (const session of sessions) {
+    if (deadline - Date.now() < ANALYSIS_RESERVE_MS) break;
+    try {
+      await analyzeSession(session.id);
+      analyzed++;
+    } catch {
+      // analyzeSession() has already marked the session failed and logged why
+      failed++;
+    }
+  }
+  return { analyzed, failed };
+}
+
+/**
+ * Promote a project's idle recorder sessions — no chunk for
+ * `settings.idleMinutes` — and, with autoAnalyze, analyze them.
+ */
+export async function promoteProjectReplays(
+  projectId: string,
+  settings: ReplayPromotionSettings,
+  deadline: number,
+  now = new Date()
+): Promise<PromotionResult> {
+  const result = emptyResult();
+
+  if (settings.enabled) {
+    const idle = await prisma.replayChunk.groupBy({
+      by: ['sessionId'],
+      where: { projectId, sessionId: { startsWith: RECORDER_SESSION_PREFIX } },
+      _count: { _all: true },
+      _max: { createdAt: true, chunkIndex: true },
+      having: { createdAt: { _max: { lt: idleCutoff(now, settings.idleMinutes) } } },
+      orderBy: { _max: { createdAt: 'asc' } },
+      take: PROMOTE_BATCH_SIZE,
+    });
+
+    for (const session of idle) {
+      if (Date.now() > deadline) {
+        result.deferred++;
+        continue;
+      }
+      try {
+        const outcome = await promoteReplaySession(
+          projectId,
+          session.sessionId,
+          session._max.chunkIndex ?? 0,
+          session._count._all
+        );
+        result[outcome]++;
+      } catch (err) {
+        console.error(`[ReplayPromotion] Failed to promote ${session.sessionId} in project ${projectId}:`, err);
+        result.deferred++;
+      }
+    }
+  }
+
+  if (settings.autoAnalyze) {
+    const { analyzed, failed } = await analyzePendingReplaySessions(projectId, deadline);
+    result.analyzed = analyzed;
+    result.analysisFailed = failed;
+  }
+
+  return result;
+}
+
+/**
+ * Promote idle recorder sessions for every project that has any (or has
+ * promoted sessions waiting for auto-analysis), stopping at `deadline`.
+ */
+export async function promoteReplaySessions(
+  deadline: number,
+  now = new Date()
+): Promise<{ projects: number; totals: PromotionResult }> {
+  const projects = await prisma.project.findMany({
+    where: {
+      OR: [
+        { replayChunks: { some: { sessionId: { startsWith: RECORDER_SESSION_PREFIX } } } },
+        { sessions: { some: { source: 'sdk', analysisStatus: 'pending' } } },
+      ],
+    },
+    select: { id: true, replayPromotion: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const totals = emptyResult();
+  let processed = 0;
+
+  for (const project of projects) {
+    if (Date.now() > deadline) break;
+
+    const result = await promoteProjectReplays(project.id, resolveReplayPromotion(project.replayPromotion), deadline, now);
+    processed++;
+    for (const key of Object.keys(totals) as (keyof PromotionResult)[]) {
+      totals[key] += result[key];
+    }
+  }
+
+  return { projects: processed, totals };
+}
+
+// ==================== STATUS ====================
+
+/** Chunks waiting to be promoted and how promoted sessions are doing, for the dashboard. */
+export async function getReplayPromotionStatus(
+  projectId: string,
+  settings: ReplayPromotionSettings,
+  now = new Date()
+): Promise<ReplayPromotionStatus> {
+  const [waiting, byStatus, recent] = await Promise.all([
+    prisma.replayChunk.groupBy({
+      by: ['sessionId'],
+      where: { projectId, sessionId: { startsWith: RECORDER_SESSION_PREFIX } },
+      _count: { _all: true },
+      _min: { createdAt: true },
+      _max: { createdAt: true, distinctId: true },
+      orderBy: { _max: { createdAt: 'desc' } },
+    }),
+    prisma.session.groupBy({
+      by: ['analysisStatus'],
+      where: { projectId, source: 'sdk' },
+      _count: { _all: true },
+    }),
+    prisma.session.findMany({
+      where: { projectId, source: 'sdk' },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_SESSIONS_SIZE,
+      select: { id: true, name: true, distinctId: true, duration: true, eventCount: true, analysisStatus: true, createdAt: true },
+    }),
+  ]);
+
+  const idleMs = settings.idleMinutes * 60 * 1000;
+  const backlog: ReplayBacklogItem[] = waiting.slice(0, BACKLOG_PREVIEW_SIZE).map((session) => {
+    const lastChunkAt = session._max.createdAt ?? now;
+    return {
+      sessionId: session.sessionId,
+      distinctId: session._max.distinctId ?? null,
+      chunkCount: session._count._all,
+      firstChunkAt: (session._min.createdAt ?? lastChunkAt).toISOString(),
+      lastChunkAt: lastChunkAt.toISOString(),
+      promotesAt: new Date(lastChunkAt.getTime() + idleMs).toISOString(),
+    };
+  });
+
+  const analysis = { pending: 0, analyzing: 0, completed: 0, failed: 0 };
+  for (const row of byStatus) {
+    if (row.analysisStatus in analysis) {
+      analysis[row.analysisStatus as keyof typeof analysis] = row._count._all;
+    }
+  }
+
+  return {
+    settings,
+    backlog,
+    backlogTotal: waiting.length,
+    analysis,
+    recent: recent.map((session) => ({ ...session, createdAt: session.createdAt.toISOString() })),
+  };
+}
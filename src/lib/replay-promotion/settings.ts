@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { ReplayPromotionSettings } from './types';
+
+// ==================== DEFAULT SETTINGS ====================
+
+/**
+ * Recorder sessions become Sessions 30 minutes after their last chunk —
+ * the recorder's own idle timeout — and wait for a manual analysis, since
+ * analysis costs an LLM call per session.
+ */
+export const DEFAULT_REPLAY_PROMOTION: ReplayPromotionSettings = {
+  enabled: true,
+  idleMinutes: 30,
+  autoAnalyze: false,
+};
+
+// ==================== VALIDATION ====================
+
+/** A stored value may set any subset of fields; the rest use the defaults. */
+export const replayPromotionSchema = z.object({
+  enabled: z.boolean().optional(),
+  idleMinutes: z.number().int().min(5).max(1440).optional(),
+  autoAnalyze: z.boolean().optional(),
+});
+
+/**
+ * Resolve the promotion settings for a project. Falls back to the defaults
+ * when nothing is stored or the stored value no longer validates.
+ */
+export function resolveReplayPromotion(stored: unknown): ReplayPromotionSettings {
+  if (stored == null) {
+    return DEFAULT_REPLAY_PROMOTION;
+  }
+
+  const parsed = replayPromotionSchema.safeParse(stored);
+  if (!parsed.success) {
+    console.warn('[ReplayPromotion] Invalid promotion settings on project, using default:', parsed.error.message);
+    return DEFAULT_REPLAY_PROMOTION;
+  }
+
+  return { ...DEFAULT_REPLAY_PROMOTION, ...parsed.data };
+}
@@ -0,0 +1,53 @@
+/**
+ * How a project turns tranzmit-recorder.js uploads into Sessions:
+ *   enabled      - promote idle recorder sessions from the cron (manual runs always can)
+ *   idleMinutes  - a session is finished once no chunk has arrived for this long
+ *   autoAnalyze  - run analyzeSession() on promoted sessions from the cron
+ */
+export interface ReplayPromotionSettings {
+  enabled: boolean;
+  idleMinutes: number;
+  autoAnalyze: boolean;
+}
+
+/** A recorder session whose chunks haven't been promoted yet. */
+export interface ReplayBacklogItem {
+  sessionId: string;
+  distinctId: string | null;
+  chunkCount: number;
+  firstChunkAt: string;
+  lastChunkAt: string;
+  /** When it counts as idle; in the past means the next cron run promotes it */
+  promotesAt: string;
+}
+
+export interface PromotedSessionSummary {
+  id: string;
+  name: string;
+  distinctId: string | null;
+  duration: number | null;
+  eventCount: number;
+  analysisStatus: string;
+  createdAt: string;
+}
+
+export interface ReplayPromotionStatus {
+  settings: ReplayPromotionSettings;
+  backlog: ReplayBacklogItem[];
+  backlogTotal: number;
+  /** source: 'sdk' sessions by analysisStatus */
+  analysis: Record<'pending' | 'analyzing' | 'completed' | 'failed', number>;
+  recent: PromotedSessionSummary[];
+}
+
+export interface PromotionResult {
+  promoted: number;
+  /** Promoted into a Session that already existed (chunks arrived after an earlier promotion) */
+  merged: number;
+  /** Sessions whose chunks held no readable events; the chunks are deleted */
+  discarded: number;
+  analyzed: number;
+  analysisFailed: number;
+  /** Idle sessions left for the next run when the time budget ran out */
+  deferred: number;
+}
@@ -36,10 +36,12 @@ export function generateSdkApiKey(): string {
 /**
  * Provision a new tenant + API key in the SDK database.
  * Called during signup (Clerk webhook) after creating the dashboard Org/Project.
+ * Only the key's SHA-256 and display prefix are written (see project-api-key.ts).
  */
 export async function provisionSdkTenant(opts: {
   name: string;
-  apiKey: string;
+  keyHash: string;
+  keyPrefix: string;
   posthogApiKey?: string | null;
   posthogProjectId?: string | null;
   posthogHost?: string | null;
@@ -59,7 +61,7 @@ export async function provisionSdkTenant(opts: {
        RETURNING id`,
       [
         opts.name,
-        opts.apiKey,
+        opts.keyHash,
         opts.posthogApiKey || null,
         opts.posthogProjectId || null,
         opts.posthogHost || null,
@@ -69,11 +71,10 @@ export async function provisionSdkTenant(opts: {
     );
     const tenantId = tenantResult.rows[0].id;
 
-    const keyPrefix = opts.apiKey.substring(0, 12);
     await client.query(
       `INSERT INTO api_keys (tenant_id, key_prefix, key_hash, name)
        VALUES ($1, $2, $3, $4)`,
-      [tenantId, keyPrefix, opts.apiKey, `${opts.name} Production Key`]
+      [tenantId, opts.keyPrefix, opts.keyHash, `${opts.name} Production Key`]
     );
 
     await client.query('COMMIT');
@@ -90,10 +91,13 @@ export async function provisionSdkTenant(opts: {
 
 /**
  * Sync analytics credentials from dashboard to SDK tenant.
- * Looks up the tenant by api_key_hash (which matches the project's apiKey).
+ * Looks up the tenant by api_key_hash (which matches the project's apiKeyHash).
+ * Keys and secrets are passed in plaintext — the SDK backend uses them to
+ * call PostHog/Amplitude and has no CREDENTIALS_ENCRYPTION_KEYS to decrypt
+ * the `tzenc:` values stored on Project.
  */
 export async function syncTenantAnalytics(opts: {
-  apiKey: string;
+  apiKeyHash: string;
   posthogApiKey?: string | null;
   posthogProjectId?: string | null;
   posthogHost?: string | null;
@@ -113,7 +117,7 @@ export async function syncTenantAnalytics(opts: {
         amplitude_secret_key = COALESCE($6, amplitude_secret_key)
        WHERE api_key_hash = $1`,
       [
-        opts.apiKey,
+        opts.apiKeyHash,
         opts.posthogApiKey || null,
         opts.posthogProjectId || null,
         opts.posthogHost || null,
@@ -122,7 +126,7 @@ export async function syncTenantAnalytics(opts: {
       ]
     );
     if (result.rowCount === 0) {
-      console.warn(`[sdk-db] No tenant found for apiKey prefix ${opts.apiKey.substring(0, 12)}`);
+      console.warn(`[sdk-db] No tenant found for api_key_hash ${opts.apiKeyHash.substring(0, 12)}…`);
       return false;
     }
     return true;
@@ -131,3 +135,89 @@ export async function syncTenantAnalytics(opts: {
     return false;
   }
 }
+
+/**
+ * Point the tenant at a rotated key and register the new key alongside the
+ * old one. The old api_keys row stays until revokeSdkApiKey() is called at
+ * the end of the grace period, so embedded widgets keep working meanwhile.
+ */
+export async function rotateSdkTenantKey(opts: {
+  name: string;
+  previousKeyHash: string;
+  keyHash: string;
+  keyPrefix: string;
+}): Promise<boolean> {
+  const p = getPool();
+  if (!p) return false;
+
+  const client = await p.connect();
+  try {
+    await client.query('BEGIN');
+
+    const tenantResult = await client.query(
+      `UPDATE tenants SET api_key_hash = $2 WHERE api_key_hash = $1 RETURNING id`,
+      [opts.previousKeyHash, opts.keyHash]
+    );
+    if (tenantResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      console.warn(`[sdk-db] No tenant found to rotate for "${opts.name}"`);
+      return false;
+    }
+
+    await client.query(
+      `INSERT INTO api_keys (tenant_id, key_prefix, key_hash, name)
+       VALUES ($1, $2, $3, $4)`,
+      [tenantResult.rows[0].id, opts.keyPrefix, opts.keyHash, `${opts.name} Production Key`]
+    );
+
+    await client.query('COMMIT');
+    console.log(`[sdk-db] Rotated API key for tenant ${tenantResult.rows[0].id}`);
+    return true;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error('[sdk-db] Failed to rotate tenant key:', err);
+    return false;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Remove a key from the SDK database once its grace period is over.
+ */
+export async function revokeSdkApiKey(keyHash: string): Promise<boolean> {
+  const p = getPool();
+  if (!p) return false;
+
+  try {
+    await p.query(`DELETE FROM api_keys WHERE key_hash = $1`, [keyHash]);
+    return true;
+  } catch (err) {
+    console.error('[sdk-db] Failed to revoke API key:', err);
+    return false;
+  }
+}
+
+/**
+ * Replace a plaintext key written by older provisioning code with its hash,
+ * in both the tenant row and api_keys.
+ */
+export async function migrateSdkTenantKey(apiKey: string, keyHash: string): Promise<boolean> {
+  const p = getPool();
+  if (!p) return false;
+
+  const client = await p.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(`UPDATE tenants SET api_key_hash = $2 WHERE api_key_hash = $1`, [apiKey, keyHash]);
+    await client.query(`UPDATE api_keys SET key_hash = $2 WHERE key_hash = $1`, [apiKey, keyHash]);
+    await client.query('COMMIT');
+    return true;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error('[sdk-db] Failed to migrate tenant key:', err);
+    return false;
+  } finally {
+    client.release();
+  }
+}
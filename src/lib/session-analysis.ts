@@ -3,6 +3,8 @@ import { generateObject } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
 import { parseRRWebSession } from '@/lib/rrweb-parser';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { describeReplayIntegrity, readReplayIntegrity } from '@/lib/replay-integrity';
 
 const UXAnalysisSchema = z.object({
   summary: z.string().describe("A 2-3 sentence executive summary of what happened in this session."),
@@ -26,7 +28,7 @@ export type SessionAnalysisResult = z.infer<typeof UXAnalysisSchema>;
 export async function analyzeSession(sessionId: string): Promise<SessionAnalysisResult> {
   const session = await prisma.session.findUnique({
     where: { id: sessionId },
-    select: { id: true, events: true, analysisStatus: true },
+    select: { id: true, projectId: true, name: true, source: true, distinctId: true, events: true, metadata: true, analysisStatus: true },
   });
 
   if (!session) {
@@ -63,6 +65,10 @@ export async function analyzeSession(sessionId: string): Promise<SessionAnalysis
       })
       .join('\n');
 
+    // Recordings assembled from chunks may have gaps the LLM must not read as user behavior
+    const integrity = readReplayIntegrity(session.metadata ? JSON.parse(session.metadata) : null);
+    const integrityIssues = integrity?.status === 'degraded' ? describeReplayIntegrity(integrity) : [];
+
     // Build context
     const s = semanticSession.summary;
     const signals = semanticSession.behavioralSignals;
@@ -132,6 +138,9 @@ export async function analyzeSession(sessionId: string): Promise<SessionAnalysis
       signals.isConfused ? '- User appears CONFUSED (hesitations, back-and-forth navigation)' : null,
       signals.isMobile ? '- User is on MOBILE device (touch events detected)' : null,
       signals.completedGoal ? '- User COMPLETED GOAL (form submission or conversion detected)' : null,
+      ...(integrityIssues.length > 0
+        ? ['', '=== RECORDING INTEGRITY (INCOMPLETE RECORDING) ===', ...integrityIssues.map((issue) => `- ${issue}`)]
+        : []),
     ].filter(Boolean).join('\n');
 
     const systemPrompt = `You are an expert UX Researcher analyzing a recorded user session. Your job is to identify what the user was trying to do, what problems they encountered, and rate the overall experience.
@@ -149,7 +158,8 @@ IMPORTANT RULES:
 10. Cleared inputs suggest form friction or user changing their mind
 11. Pay attention to URL paths in "Navigated to" events — they reveal which specific pages, communities, threads, or features the user visited
 12. When interactions include ancestor context like "(in heading: ..., section: ...)", use that to understand WHAT SPECIFIC CONTENT the user was engaging with — not just what UI element they clicked
-13. Failed network request paths (e.g., /api/posts/123) reveal which specific resources failed to load
+13. Failed network request paths (e.g., /api/posts/123) reveal which specific resources failed to load${integrityIssues.length > 0 ? `
+14. This recording is INCOMPLETE (see RECORDING INTEGRITY). Do not treat missing stretches or out-of-order events as idle time, abandonment or unresponsive UI, and mention in the summary that parts of the session were not recorded` : ''}
 
 SESSION CONTEXT:
 ${sessionContext}`;
@@ -183,6 +193,17 @@ Based on this log, analyze:
       },
     });
 
+    await emitWebhookEvent(session.projectId, 'session.analyzed', {
+      session: { id: session.id, name: session.name, source: session.source, distinctId: session.distinctId },
+      analysis: {
+        summary: object.summary,
+        userIntent: object.user_intent,
+        uxRating: object.ux_rating,
+        tags: object.tags,
+        frustrationPoints: object.frustration_points.length,
+      },
+    });
+
     return object;
   } catch (error) {
     console.error(`Analysis failed for session ${sessionId}:`, error);
@@ -1,6 +1,7 @@
 import { prisma } from '@/lib/prisma';
 import zlib from 'zlib';
 import type { SyncResult } from '@/types/session';
+import { projectPostHogConfig } from '@/lib/posthog-factory';
 
 interface PostHogSession {
   id: string;
@@ -302,18 +303,17 @@ export async function syncSessionsFromPostHog(projectId: string, count: number =
     throw new Error('Project not found');
   }
 
-  const apiKey = project.posthogKey;
-  const host = (project.posthogHost || 'https://us.posthog.com').replace(/\/$/, '');
-  const posthogProjectId = project.posthogProjId;
-
-  if (!apiKey) {
+  if (!project.posthogKey) {
     throw new Error('PostHog API key not configured for this project');
   }
 
-  if (!posthogProjectId) {
+  if (!project.posthogProjId) {
     throw new Error('PostHog Project ID not configured for this project');
   }
 
+  const { apiKey, projectId: posthogProjectId, host: posthogHost } = projectPostHogConfig(project);
+  const host = posthogHost.replace(/\/$/, '');
+
   console.log(`[Session Sync] Project: ${project.name}, PostHog Project: ${posthogProjectId}, Host: ${host}`);
 
   const headers: Record<string, string> = {
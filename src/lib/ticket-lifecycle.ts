@@ -0,0 +1,184 @@
+import { Prisma, TicketRoutingRule } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export const TICKET_STATUSES = [
+  "open",
+  "triaged",
+  "assigned",
+  "resolved",
+  "verified",
+  "wont_fix",
+] as const;
+
+export type TicketStatus = (typeof TICKET_STATUSES)[number];
+
+// Categories produced by /api/tickets/synthesize, routable to a team
+export const TICKET_CATEGORIES = [
+  "ux_friction",
+  "feature_gap",
+  "bug",
+  "confusion",
+  "performance",
+  "onboarding",
+  "retention",
+] as const;
+
+export type TicketActivityType =
+  | "created"
+  | "status_changed"
+  | "assigned"
+  | "team_changed"
+  | "pushed"
+  | "external_status"
+  | "verification"
+  | "revised";
+
+export interface TicketActivityInput {
+  ticketId: string;
+  actorId?: string | null;
+  type: TicketActivityType;
+  fromValue?: string | null;
+  toValue?: string | null;
+  message?: string | null;
+}
+
+export interface TicketUpdateInput {
+  status?: TicketStatus;
+  assigneeId?: string | null;
+  team?: string | null;
+}
+
+type RoutingRule = Pick<TicketRoutingRule, "category" | "team" | "defaultAssigneeId">;
+
+// ─── 1. Transitions ──────────────────────────────────────────────────────────
+
+/**
+ * Allowed moves between states. Resolved and verified tickets can be
+ * reopened when a fix regresses; wont_fix can be reopened by hand.
+ */
+const TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  open: ["triaged", "assigned", "resolved", "wont_fix"],
+  triaged: ["open", "assigned", "resolved", "wont_fix"],
+  assigned: ["triaged", "resolved", "wont_fix"],
+  resolved: ["assigned", "verified", "open"],
+  verified: ["open"],
+  wont_fix: ["open"],
+};
+
+/**
+ * Normalize stored status values. Tickets pushed before the lifecycle
+ * existed were stored as 'pushed', which means someone triaged them.
+ */
+export function normalizeTicketStatus(status: string): TicketStatus {
+  if (status === "pushed") return "triaged";
+  return (TICKET_STATUSES as readonly string[]).includes(status) ? (status as TicketStatus) : "open";
+}
+
+export function canTransition(from: string, to: TicketStatus): boolean {
+  const current = normalizeTicketStatus(from);
+  return current === to || TRANSITIONS[current].includes(to);
+}
+
+/**
+ * Resolve the status a ticket should end up in after an update. Assigning
+ * someone to an open/triaged ticket moves it to 'assigned'; removing the
+ * assignee from an assigned ticket moves it back to 'triaged'.
+ */
+export function nextStatusForUpdate(
+  current: string,
+  update: TicketUpdateInput,
+): TicketStatus {
+  const status = normalizeTicketStatus(current);
+  if (update.status) return update.status;
+
+  if (update.assigneeId && (status === "open" || status === "triaged")) {
+    return "assigned";
+  }
+  if (update.assigneeId === null && status === "assigned") {
+    return "triaged";
+  }
+  return status;
+}
+
+// ─── 2. Routing ──────────────────────────────────────────────────────────────
+
+/**
+ * Team, assignee and initial status for a new ticket in the given category.
+ */
+export function routeTicket(
+  category: string,
+  rules: RoutingRule[],
+): { team: string | null; assigneeId: string | null; status: TicketStatus } {
+  const rule = rules.find((r) => r.category === category);
+  if (!rule) return { team: null, assigneeId: null, status: "open" };
+
+  return {
+    team: rule.team,
+    assigneeId: rule.defaultAssigneeId,
+    status: rule.defaultAssigneeId ? "assigned" : "triaged",
+  };
+}
+
+// ─── 3. Persistence ──────────────────────────────────────────────────────────
+
+export async function recordTicketActivity(
+  entries: TicketActivityInput | TicketActivityInput[],
+  tx: Prisma.TransactionClient = prisma,
+): Promise<void> {
+  const data = Array.isArray(entries) ? entries : [entries];
+  if (data.length === 0) return;
+  await tx.ticketActivity.createMany({ data });
+}
+
+/**
+ * Apply a status / assignee / team change to a ticket and log each field
+ * that changed. Throws on transitions the lifecycle doesn't allow.
+ */
+export async function updateTicketLifecycle(
+  ticketId: string,
+  update: TicketUpdateInput,
+  actorId: string | null,
+) {
+  return prisma.$transaction(async (tx) => {
+    const ticket = await tx.ticket.findUniqueOrThrow({ where: { id: ticketId } });
+    const fromStatus = normalizeTicketStatus(ticket.status);
+    const toStatus = nextStatusForUpdate(ticket.status, update);
+
+    if (!canTransition(fromStatus, toStatus)) {
+      throw new Error(`Cannot move ticket from ${fromStatus} to ${toStatus}`);
+    }
+
+    const activity: TicketActivityInput[] = [];
+    const data: Prisma.TicketUncheckedUpdateInput = {};
+
+    if (update.assigneeId !== undefined && update.assigneeId !== ticket.assigneeId) {
+      data.assigneeId = update.assigneeId;
+      activity.push({ ticketId, actorId, type: "assigned", fromValue: ticket.assigneeId, toValue: update.assigneeId });
+    }
+    if (update.team !== undefined && update.team !== ticket.team) {
+      data.team = update.team;
+      activity.push({ ticketId, actorId, type: "team_changed", fromValue: ticket.team, toValue: update.team });
+    }
+    if (toStatus !== ticket.status) {
+      data.status = toStatus;
+    }
+    if (toStatus !== fromStatus) {
+      // Each resolution starts a fresh fix verification window
+      if (toStatus === "resolved") {
+        data.resolvedAt = new Date();
+        data.verification = Prisma.DbNull;
+      } else if (toStatus !== "verified") {
+        data.resolvedAt = null;
+      }
+      activity.push({ ticketId, actorId, type: "status_changed", fromValue: fromStatus, toValue: toStatus });
+    }
+
+    if (Object.keys(data).length === 0) return ticket;
+
+    const updated = await tx.ticket.update({ where: { id: ticketId }, data });
+    await recordTicketActivity(activity, tx);
+    return updated;
+  });
+}
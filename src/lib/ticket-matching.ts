@@ -0,0 +1,136 @@
+import { tokenize } from "@/lib/fix-verification";
+import type { TicketEvidence } from "@/lib/ticket-scoring";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+// Lowest score at which new synthesis output is merged into an existing ticket
+export const MATCH_THRESHOLD = 0.5;
+
+// Cross-category matches need stronger evidence
+const CATEGORY_MISMATCH_FACTOR = 0.8;
+
+// Wording alone is a weaker signal than shared sessions and conversations
+const WORDING_FACTOR = 0.9;
+
+export interface MatchCandidate {
+  title: string;
+  description: string;
+  category: string;
+  evidence: TicketEvidence;
+}
+
+export interface ExistingTicket extends MatchCandidate {
+  id: string;
+}
+
+export interface TicketMatch {
+  ticketId: string;
+  score: number;
+  reason: "title" | "evidence" | "wording";
+}
+
+export type RevisedField = "description" | "recommendation";
+
+// ─── 1. Similarity ───────────────────────────────────────────────────────────
+
+/**
+ * Overlap coefficient of the two tickets' sessions + conversations: shared
+ * ids over the smaller set. The evidence window slides between runs, so a
+ * ticket whose older half aged out still matches on what remains.
+ */
+export function evidenceOverlap(a: TicketEvidence, b: TicketEvidence): number {
+  const idsA = new Set([...(a.sessionIds ?? []), ...(a.conversationIds ?? [])]);
+  const idsB = new Set([...(b.sessionIds ?? []), ...(b.conversationIds ?? [])]);
+  if (idsA.size === 0 || idsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const id of idsA) {
+    if (idsB.has(id)) shared++;
+  }
+  return shared / Math.min(idsA.size, idsB.size);
+}
+
+/**
+ * Jaccard similarity of the keywords in two pieces of text.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const tokensA = new Set(tokenize(a));
+  const tokensB = new Set(tokenize(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+export function scoreTicketMatch(
+  candidate: MatchCandidate,
+  existing: ExistingTicket,
+): Omit<TicketMatch, "ticketId"> {
+  if (candidate.title.trim().toLowerCase() === existing.title.trim().toLowerCase()) {
+    return { score: 1, reason: "title" };
+  }
+
+  const categoryFactor = candidate.category === existing.category ? 1 : CATEGORY_MISMATCH_FACTOR;
+  const evidenceScore = evidenceOverlap(candidate.evidence, existing.evidence) * categoryFactor;
+  const wordingScore =
+    Math.max(
+      textSimilarity(candidate.title, existing.title),
+      textSimilarity(`${candidate.title} ${candidate.description}`, `${existing.title} ${existing.description}`),
+    ) *
+    categoryFactor *
+    WORDING_FACTOR;
+
+  return evidenceScore >= wordingScore
+    ? { score: Math.round(evidenceScore * 100) / 100, reason: "evidence" }
+    : { score: Math.round(wordingScore * 100) / 100, reason: "wording" };
+}
+
+// ─── 2. Matching ─────────────────────────────────────────────────────────────
+
+/**
+ * Pair new synthesis output with existing tickets, one-to-one, best score
+ * first. Returns candidate index → match; unmatched candidates are new tickets.
+ */
+export function matchTickets(
+  candidates: MatchCandidate[],
+  existing: ExistingTicket[],
+): Map<number, TicketMatch> {
+  const pairs: Array<{ index: number; ticketId: string; score: number; reason: TicketMatch["reason"] }> = [];
+
+  candidates.forEach((candidate, index) => {
+    for (const ticket of existing) {
+      const { score, reason } = scoreTicketMatch(candidate, ticket);
+      if (score >= MATCH_THRESHOLD) pairs.push({ index, ticketId: ticket.id, score, reason });
+    }
+  });
+
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<number, TicketMatch>();
+  const claimed = new Set<string>();
+  for (const pair of pairs) {
+    if (matches.has(pair.index) || claimed.has(pair.ticketId)) continue;
+    matches.set(pair.index, { ticketId: pair.ticketId, score: pair.score, reason: pair.reason });
+    claimed.add(pair.ticketId);
+  }
+  return matches;
+}
+
+// ─── 3. Revisions ────────────────────────────────────────────────────────────
+
+/**
+ * Fields whose wording changed between the stored ticket and new output.
+ * Whitespace-only differences don't count as a revision.
+ */
+export function revisedFields(
+  previous: Record<RevisedField, string>,
+  next: Record<RevisedField, string>,
+): RevisedField[] {
+  const normalize = (s: string) => s.replace(/\s+/g, " ").trim();
+  return (["description", "recommendation"] as const).filter(
+    (field) => normalize(previous[field]) !== normalize(next[field]),
+  );
+}
@@ -247,15 +247,25 @@ export function enrichWithChurnData(
 
 // ─── 4. computeTrending ──────────────────────────────────────────────────────
 
+// Monday 00:00 UTC of the week containing the date
+function weekStart(date: Date): number {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.getTime();
+}
+
 /**
  * Compute trending data for a ticket. If no existing trending data, initialize.
- * Otherwise update with new evidence and determine direction.
+ * Otherwise update with new evidence and determine direction. Re-running
+ * synthesis within the same week replaces that week's count instead of
+ * adding another bucket.
  */
 export function computeTrending(
   existingTicket: ExistingTicketTrending | null,
-  newEvidenceCount: number
+  newEvidenceCount: number,
+  nowDate: Date = new Date()
 ): TrendingData {
-  const now = new Date().toISOString();
+  const now = nowDate.toISOString();
 
   if (!existingTicket) {
     return {
@@ -266,12 +276,15 @@ export function computeTrending(
     };
   }
 
-  const updatedCounts = [...existingTicket.weeklyCounts, newEvidenceCount];
+  const sameWeek = weekStart(new Date(existingTicket.lastSeen)) === weekStart(nowDate);
+  const updatedCounts = sameWeek
+    ? [...existingTicket.weeklyCounts.slice(0, -1), newEvidenceCount]
+    : [...existingTicket.weeklyCounts, newEvidenceCount];
   const trimmedCounts = updatedCounts.slice(-4);
 
   let direction: TrendingData["direction"];
   if (trimmedCounts.length < 2) {
-    direction = "stable";
+    direction = sameWeek ? existingTicket.direction : "stable";
   } else {
     const latest = trimmedCounts[trimmedCounts.length - 1];
     const previous = trimmedCounts[trimmedCounts.length - 2];
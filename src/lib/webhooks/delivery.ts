@@ -0,0 +1,206 @@
+import { randomUUID } from 'crypto';
+import { Prisma, WebhookDelivery, WebhookEndpoint } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assertOutboundUrl } from '@/lib/outbound-url';
+import { SIGNATURE_HEADER, signWebhookPayload } from './signing';
+import type { SubscribableWebhookEvent, WebhookEvent, WebhookEventData, WebhookEventType } from './types';
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Wait before each retry: 1m, 5m, 30m, 2h, 8h, 24h — then the delivery fails
+export const RETRY_DELAYS_MS = [
+  60_000,
+  5 * 60_000,
+  30 * 60_000,
+  2 * 60 * 60_000,
+  8 * 60 * 60_000,
+  24 * 60 * 60_000,
+];
+
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+type DeliveryWithEndpoint = WebhookDelivery & { endpoint: WebhookEndpoint };
+
+// ==================== RETRY SCHEDULE ====================
+
+/** When to try again after `attempts` failed attempts, or null to give up. */
+export function nextRetryAt(attempts: number, now = new Date()): Date | null {
+  const delay = RETRY_DELAYS_MS[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay);
+}
+
+// ==================== DELIVERY ====================
+
+/**
+ * POST a delivery's event to its endpoint once and record the outcome.
+ * Any 2xx counts as delivered; everything else — including redirects,
+ * which aren't followed, and URLs that now resolve to a private address —
+ * is retried on the backoff schedule. Only the response status is kept.
+ */
+export async function attemptDelivery(delivery: DeliveryWithEndpoint): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const attempts = delivery.attempts + 1;
+  const startedAt = Date.now();
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    await assertOutboundUrl(delivery.endpoint.url);
+    const response = await fetch(delivery.endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Tranzmit-Webhooks/1.0',
+        'Tranzmit-Event': delivery.eventType,
+        'Tranzmit-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: signWebhookPayload(delivery.endpoint.secret, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `Endpoint responded ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Unknown error';
+  }
+
+  const succeeded = error === null;
+  const nextAttemptAt = succeeded ? null : nextRetryAt(attempts);
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      status: succeeded ? 'succeeded' : nextAttemptAt ? 'pending' : 'failed',
+      nextAttemptAt,
+      responseStatus,
+      lastError: error,
+      durationMs: Date.now() - startedAt,
+      deliveredAt: succeeded ? new Date() : null,
+    },
+  });
+}
+
+/**
+ * Queue an event for one endpoint. The row is scheduled for the first retry
+ * up front, so if the immediate attempt never finishes the cron still
+ * picks it up.
+ */
+async function queueDelivery(endpoint: WebhookEndpoint, event: WebhookEvent): Promise<DeliveryWithEndpoint> {
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      projectId: event.projectId,
+      endpointId: endpoint.id,
+      eventId: event.id,
+      eventType: event.type,
+      payload: event as unknown as Prisma.InputJsonValue,
+      nextAttemptAt: nextRetryAt(1),
+    },
+  });
+  return { ...delivery, endpoint };
+}
+
+/** Queue an event for one endpoint and wait for the first attempt. */
+async function deliverEvent(endpoint: WebhookEndpoint, event: WebhookEvent): Promise<WebhookDelivery> {
+  return attemptDelivery(await queueDelivery(endpoint, event));
+}
+
+function buildEvent<T extends WebhookEventType>(projectId: string, type: T, data: WebhookEventData[T]): WebhookEvent<T> {
+  return { id: `evt_${randomUUID()}`, type, createdAt: new Date().toISOString(), projectId, data };
+}
+
+// ==================== EMITTING ====================
+
+export async function hasWebhookSubscribers(projectId: string, type: SubscribableWebhookEvent): Promise<boolean> {
+  const count = await prisma.webhookEndpoint.count({
+    where: { projectId, enabled: true, events: { has: type } },
+  });
+  return count > 0;
+}
+
+/**
+ * Queue an event for every enabled endpoint of the project subscribed to it
+ * and start the first attempts without waiting for them, so a slow receiver
+ * never holds up the request that fired the event. Attempts that don't
+ * finish (e.g. the invocation is frozen once the response is sent) are
+ * picked up by the deliver-webhooks cron. Never throws — webhooks are a
+ * side channel and must not fail the analysis, synthesis or scoring path
+ * that fired them.
+ */
+export async function emitWebhookEvent<T extends SubscribableWebhookEvent>(
+  projectId: string,
+  type: T,
+  data: WebhookEventData[T]
+): Promise<void> {
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { projectId, enabled: true, events: { has: type } },
+    });
+    if (endpoints.length === 0) return;
+
+    const event = buildEvent(projectId, type, data);
+    const results = await Promise.allSettled(endpoints.map((endpoint) => queueDelivery(endpoint, event)));
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error(`[Webhooks] Failed to queue ${type} for project ${projectId}:`, result.reason);
+        continue;
+      }
+      attemptDelivery(result.value).catch((err) => {
+        console.error(`[Webhooks] Delivery ${result.value.id} attempt failed, leaving it to the cron:`, err);
+      });
+    }
+  } catch (err) {
+    console.error(`[Webhooks] Failed to emit ${type} for project ${projectId}:`, err);
+  }
+}
+
+/** Send a signed `ping` so a receiver can be checked from settings. */
+export async function sendTestEvent(endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  return deliverEvent(endpoint, buildEvent(endpoint.projectId, 'ping', { endpointId: endpoint.id }));
+}
+
+/** Send an earlier delivery's event again as a new delivery with its own retries. */
+export async function redeliver(delivery: DeliveryWithEndpoint): Promise<WebhookDelivery> {
+  return deliverEvent(delivery.endpoint, delivery.payload as unknown as WebhookEvent);
+}
+
+// ==================== RETRIES ====================
+
+const RETRY_BATCH_SIZE = 100;
+
+/**
+ * Re-attempt pending deliveries whose backoff has elapsed, oldest first,
+ * until the deadline. Deliveries to disabled endpoints wait until the
+ * endpoint is enabled again.
+ */
+export async function retryDueDeliveries(
+  deadline: number,
+  now = new Date()
+): Promise<{ due: number; succeeded: number; failed: number; deferred: number }> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now }, endpoint: { enabled: true } },
+    include: { endpoint: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: RETRY_BATCH_SIZE,
+  });
+
+  let succeeded = 0;
+  let failed = 0;
+  let deferred = 0;
+
+  for (const delivery of due) {
+    if (Date.now() > deadline) {
+      deferred++;
+      continue;
+    }
+    const result = await attemptDelivery(delivery);
+    if (result.status === 'succeeded') succeeded++;
+    else failed++;
+  }
+
+  return { due: due.length, succeeded, failed, deferred };
+}
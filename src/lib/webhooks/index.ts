@@ -0,0 +1,24 @@
+export {
+  MAX_DELIVERY_ATTEMPTS,
+  RETRY_DELAYS_MS,
+  attemptDelivery,
+  emitWebhookEvent,
+  hasWebhookSubscribers,
+  nextRetryAt,
+  redeliver,
+  retryDueDeliveries,
+  sendTestEvent,
+} from './delivery';
+export { toLevelChanges, toWebhookTicket } from './payloads';
+export { auditedWebhookEndpoint, generateWebhookSecret, toPublicWebhookEndpoint, webhookEndpointSchema } from './settings';
+export type { WebhookEndpointInput } from './settings';
+export { SIGNATURE_HEADER, SIGNATURE_TOLERANCE_SECONDS, signWebhookPayload, verifyWebhookSignature } from './signing';
+export { WEBHOOK_EVENTS } from './types';
+export type {
+  SubscribableWebhookEvent,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookEventType,
+  WebhookLevelChange,
+  WebhookTicket,
+} from './types';
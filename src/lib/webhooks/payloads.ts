@@ -0,0 +1,36 @@
+import { Ticket } from '@prisma/client';
+import type { ScoreTransition } from '@/lib/churn-scoring/trajectory';
+import type { WebhookLevelChange, WebhookTicket } from './types';
+
+export function toWebhookTicket(
+  ticket: Pick<Ticket, 'id' | 'title' | 'severity' | 'category' | 'status' | 'compositeScore' | 'team' | 'assigneeId'>
+): WebhookTicket {
+  return {
+    id: ticket.id,
+    title: ticket.title,
+    severity: ticket.severity,
+    category: ticket.category,
+    status: ticket.status,
+    compositeScore: ticket.compositeScore,
+    team: ticket.team,
+    assigneeId: ticket.assigneeId,
+  };
+}
+
+/**
+ * Users whose risk level differs from their previous scored day. Users
+ * scored for the first time have no level to change from and are left out.
+ */
+export function toLevelChanges(transitions: ScoreTransition[]): WebhookLevelChange[] {
+  return transitions
+    .filter((t) => t.previousLevel !== null && t.previousLevel !== t.riskLevel)
+    .map((t) => ({
+      distinctId: t.distinctId,
+      email: t.email,
+      segment: t.segment,
+      previousLevel: t.previousLevel!,
+      riskLevel: t.riskLevel,
+      previousScore: t.previousScore,
+      riskScore: t.riskScore,
+    }));
+}
@@ -0,0 +1,37 @@
+import { randomBytes } from 'crypto';
+import { WebhookEndpoint } from '@prisma/client';
+import { z } from 'zod';
+import { WEBHOOK_EVENTS } from './types';
+
+export const webhookEndpointSchema = z.object({
+  url: z.string().trim().max(1000).regex(/^https?:\/\/\S+$/, 'URL must be an http(s) URL'),
+  description: z.string().trim().max(200).nullish(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Subscribe to at least one event'),
+  enabled: z.boolean().default(true),
+});
+
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Fields recorded in the audit log when an endpoint is created, changed or
+ * deleted. The signing secret is never recorded; events are compared as text
+ * so a reordered list doesn't count as a change.
+ */
+export function auditedWebhookEndpoint(endpoint: Pick<WebhookEndpoint, 'url' | 'description' | 'events' | 'enabled'>) {
+  return {
+    url: endpoint.url,
+    description: endpoint.description,
+    events: [...endpoint.events].sort().join(','),
+    enabled: endpoint.enabled,
+  };
+}
+
+/** Endpoint as returned to the browser — the secret is only shown on creation. */
+export function toPublicWebhookEndpoint(endpoint: WebhookEndpoint) {
+  const { secret, ...rest } = endpoint;
+  return { ...rest, secretHint: `whsec_…${secret.slice(-4)}` };
+}
@@ -0,0 +1,41 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'Tranzmit-Signature';
+
+// Receivers should reject signatures older than this to stop replays
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Header value for a delivery: `t=<unix seconds>,v1=<hex HMAC-SHA256>` over
+ * `<t>.<raw body>`, so the timestamp can't be swapped without the secret.
+ */
+export function signWebhookPayload(secret: string, body: string, now = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+/**
+ * Reference check for receivers (and our tests): the signature matches the
+ * raw body and was made within the tolerance window.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  now = new Date(),
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  if (!header) return false;
+  const parts = Object.fromEntries(header.split(',').map((part) => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body));
+  const actual = Buffer.from(parts.v1);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,73 @@
+import type { RiskLevel, Segment } from '@/lib/churn-scoring/types';
+
+/** Events an endpoint can subscribe to. */
+export const WEBHOOK_EVENTS = [
+  'session.analyzed',
+  'conversation.analyzed',
+  'ticket.created',
+  'ticket.score_changed',
+  'churn_score.level_changed',
+  'widget.clicked',
+  'recovery.email_bounced',
+] as const;
+
+export type SubscribableWebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** 'ping' is only sent by the settings "Send test" button. */
+export type WebhookEventType = SubscribableWebhookEvent | 'ping';
+
+export interface WebhookTicket {
+  id: string;
+  title: string;
+  severity: string;
+  category: string;
+  status: string;
+  compositeScore: number;
+  team: string | null;
+  assigneeId: string | null;
+}
+
+export interface WebhookLevelChange {
+  distinctId: string;
+  email: string | null;
+  segment: Segment;
+  previousLevel: RiskLevel;
+  riskLevel: RiskLevel;
+  previousScore: number | null;
+  riskScore: number;
+}
+
+/** `data` carried by each event type. */
+export interface WebhookEventData {
+  'session.analyzed': {
+    session: { id: string; name: string; source: string; distinctId: string | null };
+    analysis: { summary: string; userIntent: string; uxRating: number; tags: string[]; frustrationPoints: number };
+  };
+  'conversation.analyzed': {
+    conversation: { id: string; source: string; participantName: string | null; participantEmail: string | null };
+    analysis: {
+      summary: string;
+      sentiment: string;
+      satisfactionScore: number;
+      painPoints: string[];
+      churnReason: string | null;
+      willingToReturn: boolean;
+    };
+  };
+  'ticket.created': { ticket: WebhookTicket };
+  'ticket.score_changed': { ticket: WebhookTicket; previousScore: number };
+  // One event per scored day — a scoring run can move thousands of users
+  'churn_score.level_changed': { date: string; users: WebhookLevelChange[] };
+  'widget.clicked': { trigger: { id: string; distinctId: string; userName: string | null } };
+  'recovery.email_bounced': { user: { id: string; email: string; name: string | null }; emailId: string };
+  ping: { endpointId: string };
+}
+
+/** The JSON body POSTed to endpoints. */
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  id: string;
+  type: T;
+  createdAt: string;
+  projectId: string;
+  data: WebhookEventData[T];
+}
@@ -0,0 +1,183 @@
+import { Client } from '@neondatabase/serverless';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Delivery of widget triggers to tranzmit-widget.js, shared by the polling
+ * endpoint (/api/widget/check) and the Server-Sent Events stream
+ * (/api/widget/stream).
+ */
+
+export interface WidgetTriggerPayload {
+  show: true;
+  triggerId: string;
+  userName: string | null;
+  interviewApiKey: string | null;
+}
+
+// ==================== CLAIMING ====================
+
+/**
+ * Find the user's newest pending trigger and mark it shown. The status
+ * change is conditional, so when two connections for the same user (two
+ * tabs, or a stream and a poll) race, only one of them gets the trigger.
+ */
+export async function claimWidgetTrigger(
+  projectId: string,
+  distinctId: string
+): Promise<WidgetTriggerPayload | null> {
+  const trigger = await prisma.widgetTrigger.findFirst({
+    where: {
+      projectId,
+      distinctId,
+      status: 'pending',
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!trigger) {
+    return null;
+  }
+
+  const { count } = await prisma.widgetTrigger.updateMany({
+    where: { id: trigger.id, status: 'pending' },
+    data: { status: 'shown', shownAt: new Date() },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return {
+    show: true,
+    triggerId: trigger.id,
+    userName: trigger.userName,
+    interviewApiKey: trigger.interviewApiKey,
+  };
+}
+
+// ==================== NOTIFICATION ====================
+
+// Postgres channel carrying `${projectId}:${distinctId}` for each new trigger,
+// so a trigger created on one instance wakes streams on every instance.
+const WIDGET_TRIGGER_CHANNEL = 'widget_triggers';
+
+// Streams waiting on this server instance, by project and distinct ID.
+const waiting = new Map<string, Set<() => void>>();
+
+// This instance's LISTEN connection, or null once it has failed or ended.
+let listener: Promise<boolean> | null = null;
+
+function waitKey(projectId: string, distinctId: string): string {
+  return `${projectId}:${distinctId}`;
+}
+
+function wakeWaiting(key: string): void {
+  const listeners = waiting.get(key);
+  if (!listeners) return;
+  for (const wake of [...listeners]) wake();
+}
+
+/**
+ * Open this instance's LISTEN connection on first use and resolve whether
+ * it's up. LISTEN needs a session, so it connects to DIRECT_DATABASE_URL
+ * when set (DATABASE_URL may go through a transaction-mode pooler). If the
+ * connection fails or drops, streams still find triggers with their fallback
+ * database check, and the next call reconnects.
+ */
+export function listenForWidgetTriggers(): Promise<boolean> {
+  if (listener) return listener;
+
+  const connectionString = process.env.DIRECT_DATABASE_URL || process.env.DATABASE_URL;
+  if (!connectionString) return Promise.resolve(false);
+
+  const client = new Client({ connectionString });
+  const reset = () => {
+    listener = null;
+    client.removeAllListeners();
+    client.on('error', () => {});
+    client.end().catch(() => {});
+  };
+
+  client.on('notification', ({ channel, payload }) => {
+    if (channel === WIDGET_TRIGGER_CHANNEL && payload) wakeWaiting(payload);
+  });
+  client.on('error', (error) => {
+    console.error('[Widget Delivery] LISTEN connection failed:', error);
+    reset();
+  });
+  client.on('end', reset);
+
+  listener = client
+    .connect()
+    .then(() => client.query(`LISTEN ${WIDGET_TRIGGER_CHANNEL}`))
+    .then(() => true)
+    .catch((error) => {
+      console.error('[Widget Delivery] Could not LISTEN for triggers:', error);
+      reset();
+      return false;
+    });
+  return listener;
+}
+
+/**
+ * Wake streams waiting for any of these users, on this instance directly
+ * and on the others through NOTIFY. Never throws: the triggers are already
+ * saved, and streams the notification misses pick them up on their next
+ * database check.
+ */
+export async function notifyWidgetTriggers(projectId: string, distinctIds: string[]): Promise<void> {
+  const keys = distinctIds.map((distinctId) => waitKey(projectId, distinctId));
+  for (const key of keys) wakeWaiting(key);
+
+  try {
+    await prisma.$executeRaw`SELECT pg_notify(${WIDGET_TRIGGER_CHANNEL}, key) FROM unnest(${keys}::text[]) AS key`;
+  } catch (error) {
+    console.error('[Widget Delivery] NOTIFY failed:', error);
+  }
+}
+
+/**
+ * Resolve when a trigger is created for the user on any instance
+ * (see notifyWidgetTriggers), after timeoutMs, or when signal aborts — whichever comes first.
+ */
+export function waitForWidgetTrigger(
+  projectId: string,
+  distinctId: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<void> {
+  const key = waitKey(projectId, distinctId);
+
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const wake = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', wake);
+      const listeners = waiting.get(key);
+      listeners?.delete(wake);
+      if (listeners?.size === 0) waiting.delete(key);
+      resolve();
+    };
+
+    const timer = setTimeout(wake, timeoutMs);
+    signal?.addEventListener('abort', wake);
+    let listeners = waiting.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      waiting.set(key, listeners);
+    }
+    listeners.add(wake);
+  });
+}
+
+// ==================== SERVER-SENT EVENTS ====================
+
+/** Encode one SSE message; `data` is sent as a single line of JSON. */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -9,7 +9,9 @@ const isPublicRoute = createRouteMatcher([
   '/api/campaigns(.*)', // External API with API key auth
   '/api/ingest(.*)', // Replay ingestion from client-side snippets
   '/api/widget/check(.*)', // Widget SDK polling (public, API key auth)
+  '/api/widget/stream(.*)', // Widget SDK server-sent events (public, API key auth)
   '/api/widget/complete(.*)', // Widget SDK outcome reporting (public)
+  '/api/v1(.*)', // Public REST API (scoped API key auth)
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
@@ -1,10 +1,12 @@
 // Types for session storage and replay
 
+import type { ReplayIntegrityReport } from '@/lib/replay-integrity';
+
 export interface SessionListItem {
   id: string;
   projectId: string;
   name: string;
-  source: 'upload' | 'posthog' | 'mixpanel' | 'amplitude';
+  source: 'upload' | 'posthog' | 'mixpanel' | 'amplitude' | 'sdk';
   posthogSessionId?: string;
   distinctId?: string;
   startTime?: string;
@@ -15,6 +17,8 @@ export interface SessionListItem {
   analysis?: SessionAnalysis;
   multimodalStatus: 'idle' | 'pending' | 'analyzing' | 'completed' | 'failed';
   multimodalAnalysis?: MultimodalAnalysis;
+  /** Gaps and other problems found when the replay was assembled from uploaded chunks */
+  replayIntegrity?: ReplayIntegrityReport;
   hasEvents: boolean;
   createdAt: string;
   updatedAt: string;